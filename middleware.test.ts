@@ -1,16 +1,20 @@
 /**
  * @jest-environment node
  */
-import type { NextRequest } from 'next/server'
+import { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, signSessionCookie } from '@/lib/auth/token'
 
 type EnvShape = Partial<NodeJS.ProcessEnv>
 
 const ORIGINAL_ENV = { ...process.env }
+const SECRET = 'test-session-secret-with-at-least-32-chars'
 
-function createRequest(headers: Record<string, string> = {}): NextRequest {
-  return {
-    headers: new Headers(headers),
-  } as unknown as NextRequest
+function createRequest(path: string, cookie?: string): NextRequest {
+  const headers = new Headers()
+  if (cookie) {
+    headers.set('cookie', `${SESSION_COOKIE_NAME}=${cookie}`)
+  }
+  return new NextRequest(`https://triage.example.com${path}`, { headers })
 }
 
 async function loadMiddleware(overrides: EnvShape = {}) {
@@ -27,55 +31,66 @@ async function loadMiddleware(overrides: EnvShape = {}) {
 describe('middleware', () => {
   afterEach(() => {
     process.env = { ...ORIGINAL_ENV }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    delete (globalThis as any).atob
     jest.resetModules()
     jest.restoreAllMocks()
   })
 
-  it('returns 500 when basic auth secrets are missing', async () => {
-    const { middleware } = await loadMiddleware({
-      BASIC_AUTH_USERNAME: undefined,
-      BASIC_AUTH_PASSWORD: undefined,
-    })
+  it('returns 500 when the session secret is missing', async () => {
+    const { middleware } = await loadMiddleware({ SESSION_SECRET: undefined })
 
-    const response = middleware(createRequest())
+    const response = await middleware(createRequest('/dynamic-form'))
 
     expect(response.status).toBe(500)
     await expect(response.text()).resolves.toContain('Authentication configuration missing')
   })
 
-  it('allows requests with matching credentials via Buffer decoding', async () => {
-    const encoded = Buffer.from('triage:platform').toString('base64')
-    const { middleware } = await loadMiddleware({
-      BASIC_AUTH_USERNAME: 'triage',
-      BASIC_AUTH_PASSWORD: 'platform',
-    })
-
-    const response = middleware(
-      createRequest({ authorization: `Basic ${encoded}` })
+  it('allows requests with a valid signed session cookie', async () => {
+    const cookie = await signSessionCookie(
+      { token: 'abc123', expiresAt: new Date(Date.now() + 60_000) },
+      SECRET
     )
+    const { middleware } = await loadMiddleware({ SESSION_SECRET: SECRET })
+
+    const response = await middleware(createRequest('/dynamic-form', cookie))
 
     expect(response.status).toBe(200)
   })
 
-  it('prompts for credentials when auth fails and uses atob when provided', async () => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ;(globalThis as any).atob = jest.fn(() => 'wrong:creds')
+  it('redirects pages to the login screen when the cookie is missing or tampered', async () => {
+    const cookie = await signSessionCookie(
+      { token: 'abc123', expiresAt: new Date(Date.now() + 60_000) },
+      SECRET
+    )
+    const { middleware } = await loadMiddleware({ SESSION_SECRET: SECRET })
+
+    const missing = await middleware(createRequest('/dynamic-form/drafts?scope=user'))
+    expect(missing.status).toBe(307)
+    expect(missing.headers.get('location')).toBe(
+      'https://triage.example.com/login?next=%2Fdynamic-form%2Fdrafts%3Fscope%3Duser'
+    )
 
-    const { middleware } = await loadMiddleware({
-      BASIC_AUTH_USERNAME: 'triage',
-      BASIC_AUTH_PASSWORD: 'platform',
-    })
+    const tampered = await middleware(createRequest('/dynamic-form', cookie.replace('abc123', 'xyz789')))
+    expect(tampered.status).toBe(307)
+  })
 
-    const response = middleware(
-      createRequest({ authorization: 'Basic ZmFrZS1iYXNl' })
+  it('rejects expired cookies and answers API calls with 401 JSON', async () => {
+    const expired = await signSessionCookie(
+      { token: 'abc123', expiresAt: new Date(Date.now() - 1_000) },
+      SECRET
     )
+    const { middleware } = await loadMiddleware({ SESSION_SECRET: SECRET })
+
+    const response = await middleware(createRequest('/api/form-submissions', expired))
 
-    const globalWithAtob = globalThis as unknown as { atob?: jest.Mock }
-    expect(globalWithAtob.atob).toHaveBeenCalled()
     expect(response.status).toBe(401)
-    expect(response.headers.get('WWW-Authenticate')).toContain('Tech Triage')
-    await expect(response.text()).resolves.toContain('Authentication required')
+    await expect(response.json()).resolves.toEqual({ success: false, error: 'Authentication required' })
+  })
+
+  it('lets the login page through without a session', async () => {
+    const { middleware } = await loadMiddleware({ SESSION_SECRET: SECRET })
+
+    const response = await middleware(createRequest('/login'))
+
+    expect(response.status).toBe(200)
   })
 })
@@ -1,49 +1,50 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, getSessionSecret, verifySessionCookie } from '@/lib/auth/token'
 
-const username = process.env.BASIC_AUTH_USERNAME
-const password = process.env.BASIC_AUTH_PASSWORD
+// Paths reachable without a session (the login page posts its server action here too)
+const PUBLIC_PATHS = ['/login']
 
-function decodeBase64(value: string) {
-  if (typeof atob === 'function') {
-    return atob(value)
-  }
-  return Buffer.from(value, 'base64').toString('utf-8')
+function isPublicPath(pathname: string) {
+  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
 }
 
-export function middleware(request: NextRequest) {
-  if (!username || !password) {
+/**
+ * Cheap edge check of the signed session cookie. Server code re-validates the
+ * session against the database via getSessionUser().
+ */
+export async function middleware(request: NextRequest) {
+  const secret = getSessionSecret()
+
+  if (!secret) {
     return new Response('Authentication configuration missing', {
       status: 500,
     })
   }
 
-  const authorization = request.headers.get('authorization')
-
-  if (authorization) {
-    const [scheme, encoded] = authorization.split(' ')
+  const { pathname, search } = request.nextUrl
 
-    if (scheme?.toLowerCase() === 'basic' && encoded) {
-      const decoded = decodeBase64(encoded)
-      const separatorIndex = decoded.indexOf(':')
+  if (isPublicPath(pathname)) {
+    return NextResponse.next()
+  }
 
-      if (separatorIndex !== -1) {
-        const providedUser = decoded.slice(0, separatorIndex)
-        const providedPass = decoded.slice(separatorIndex + 1)
+  const session = await verifySessionCookie(request.cookies.get(SESSION_COOKIE_NAME)?.value, secret)
+  if (session) {
+    return NextResponse.next()
+  }
 
-        if (providedUser === username && providedPass === password) {
-          return NextResponse.next()
-        }
-      }
-    }
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    )
   }
 
-  return new Response('Authentication required', {
-    status: 401,
-    headers: {
-      'WWW-Authenticate': 'Basic realm="Tech Triage"',
-    },
-  })
+  const loginUrl = new URL('/login', request.url)
+  if (pathname !== '/') {
+    loginUrl.searchParams.set('next', `${pathname}${search}`)
+  }
+  return NextResponse.redirect(loginUrl)
 }
 
 export const config = {
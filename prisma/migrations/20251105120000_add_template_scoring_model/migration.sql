@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."form_templates" ADD COLUMN     "scoringModel" JSONB;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."recommendation_rule_sets" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT,
+    "rules" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recommendation_rule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."form_submissions" ADD COLUMN     "recommendationRuleSetId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recommendation_rule_sets_templateId_version_key" ON "public"."recommendation_rule_sets"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."recommendation_rule_sets" ADD CONSTRAINT "recommendation_rule_sets_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."form_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."form_submissions" ADD CONSTRAINT "form_submissions_recommendationRuleSetId_fkey" FOREIGN KEY ("recommendationRuleSetId") REFERENCES "public"."recommendation_rule_sets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
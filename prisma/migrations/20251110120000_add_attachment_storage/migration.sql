@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."attachments" ADD COLUMN     "mimeType" TEXT NOT NULL DEFAULT 'application/octet-stream',
+ADD COLUMN     "sizeBytes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "storageKey" TEXT,
+ADD COLUMN     "submissionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "attachments_submissionId_idx" ON "public"."attachments"("submissionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."attachments" ADD CONSTRAINT "attachments_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "public"."form_submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
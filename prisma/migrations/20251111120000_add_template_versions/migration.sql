@@ -0,0 +1,86 @@
+-- AlterTable
+ALTER TABLE "public"."form_submissions" ADD COLUMN     "templateVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."form_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "versionLabel" TEXT NOT NULL,
+    "structure" JSONB NOT NULL,
+    "publishedBy" TEXT NOT NULL,
+    "publishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "form_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "form_template_versions_templateId_version_key" ON "public"."form_template_versions"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."form_template_versions" ADD CONSTRAINT "form_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."form_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."form_submissions" ADD CONSTRAINT "form_submissions_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "public"."form_template_versions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill version 1 from the live rows so existing templates render a published structure.
+-- Same shape as buildTemplateSnapshot: { format: 1, template: { ...sections[questions[options, scoringConfig, dictionary]] } }
+INSERT INTO "public"."form_template_versions" (
+    "id",
+    "templateId",
+    "version",
+    "versionLabel",
+    "structure",
+    "publishedBy"
+)
+SELECT
+    substr(md5(random()::text || clock_timestamp()::text), 1, 24) AS "id",
+    t."id",
+    1 AS "version",
+    t."version",
+    jsonb_build_object(
+        'format', 1,
+        'template', to_jsonb(t) || jsonb_build_object(
+            'createdAt', to_char(t."createdAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'updatedAt', to_char(t."updatedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sections', COALESCE(section_json.sections, '[]'::jsonb)
+        )
+    ),
+    'system-migration'
+FROM "public"."form_templates" t
+LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+        to_jsonb(s) || jsonb_build_object('questions', COALESCE(question_json.questions, '[]'::jsonb))
+        ORDER BY s."order"
+    ) AS sections
+    FROM "public"."form_sections" s
+    LEFT JOIN LATERAL (
+        SELECT jsonb_agg(
+            to_jsonb(q) || jsonb_build_object(
+                'options', COALESCE(option_json.options, '[]'::jsonb),
+                'scoringConfig', CASE WHEN sc."id" IS NULL THEN NULL ELSE to_jsonb(sc) END,
+                'dictionary', CASE WHEN d."id" IS NULL THEN NULL ELSE to_jsonb(d) || jsonb_build_object(
+                    'createdAt', to_char(d."createdAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+                    'updatedAt', to_char(d."updatedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+                ) END
+            )
+            ORDER BY q."order"
+        ) AS questions
+        FROM "public"."form_questions" q
+        LEFT JOIN "public"."scoring_configs" sc ON sc."questionId" = q."id"
+        LEFT JOIN "public"."question_dictionary" d ON d."key" = q."dictionaryKey"
+        LEFT JOIN LATERAL (
+            SELECT jsonb_agg(to_jsonb(o) ORDER BY o."order") AS options
+            FROM "public"."question_options" o
+            WHERE o."questionId" = q."id"
+        ) option_json ON TRUE
+        WHERE q."sectionId" = s."id"
+    ) question_json ON TRUE
+    WHERE s."templateId" = t."id"
+) section_json ON TRUE;
+
+-- Existing submissions were answered against the live rows that version 1 now freezes
+UPDATE "public"."form_submissions" s
+SET "templateVersionId" = v."id"
+FROM "public"."form_template_versions" v
+WHERE v."templateId" = s."templateId" AND v."version" = 1;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "public"."FormPurpose" AS ENUM ('INTAKE', 'TRIAGE', 'VIABILITY');
+
+-- AlterTable
+ALTER TABLE "public"."form_templates" ADD COLUMN     "purpose" "public"."FormPurpose" NOT NULL DEFAULT 'TRIAGE';
+
+-- CreateIndex
+CREATE INDEX "form_templates_purpose_isActive_idx" ON "public"."form_templates"("purpose", "isActive");
+
+-- Backfill: templates with questions bound to the viability stage are viability questionnaires
+UPDATE "public"."form_templates" t
+SET "purpose" = 'VIABILITY'
+WHERE EXISTS (
+    SELECT 1
+    FROM "public"."form_sections" s
+    JOIN "public"."form_questions" q ON q."sectionId" = s."id"
+    JOIN "public"."question_dictionary" d ON d."key" = q."dictionaryKey"
+    WHERE s."templateId" = t."id" AND d."bindingPath" LIKE 'viabilityStage.%'
+);
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "public"."FieldType" ADD VALUE 'DECIMAL';
+ALTER TYPE "public"."FieldType" ADD VALUE 'CURRENCY';
+ALTER TYPE "public"."FieldType" ADD VALUE 'PERCENTAGE';
+ALTER TYPE "public"."FieldType" ADD VALUE 'EMAIL';
+ALTER TYPE "public"."FieldType" ADD VALUE 'URL';
+ALTER TYPE "public"."FieldType" ADD VALUE 'PHONE';
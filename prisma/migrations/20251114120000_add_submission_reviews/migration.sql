@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."ReviewDecision" AS ENUM ('ASSIGNED', 'CHANGES_REQUESTED', 'APPROVED');
+
+-- AlterTable
+ALTER TABLE "public"."form_submissions" ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT,
+ADD COLUMN     "reviewerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."submission_reviews" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "decision" "public"."ReviewDecision" NOT NULL,
+    "fromStatus" "public"."SubmissionStatus" NOT NULL,
+    "toStatus" "public"."SubmissionStatus" NOT NULL,
+    "summary" TEXT,
+    "questionComments" JSONB,
+    "assigneeId" TEXT,
+    "actorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "submission_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "form_submissions_reviewerId_status_idx" ON "public"."form_submissions"("reviewerId", "status");
+
+-- CreateIndex
+CREATE INDEX "submission_reviews_submissionId_createdAt_idx" ON "public"."submission_reviews"("submissionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_reviews" ADD CONSTRAINT "submission_reviews_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "public"."form_submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."submission_comments" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "questionCode" TEXT NOT NULL,
+    "rowIndex" INTEGER,
+    "parentId" TEXT,
+    "body" TEXT NOT NULL,
+    "mentions" TEXT[],
+    "authorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+
+    CONSTRAINT "submission_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "submission_comments_submissionId_questionCode_idx" ON "public"."submission_comments"("submissionId", "questionCode");
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_comments" ADD CONSTRAINT "submission_comments_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "public"."form_submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_comments" ADD CONSTRAINT "submission_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."submission_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
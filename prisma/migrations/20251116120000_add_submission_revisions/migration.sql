@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "public"."submission_revisions" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "status" "public"."SubmissionStatus" NOT NULL,
+    "responses" JSONB NOT NULL,
+    "repeatGroups" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "submission_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submission_revisions_submissionId_revision_key" ON "public"."submission_revisions"("submissionId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_revisions" ADD CONSTRAINT "submission_revisions_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "public"."form_submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill revision 1 from the live answers so existing submissions have a baseline to diff against
+INSERT INTO "public"."submission_revisions" (
+    "id",
+    "submissionId",
+    "revision",
+    "status",
+    "responses",
+    "repeatGroups",
+    "createdBy",
+    "createdAt"
+)
+SELECT
+    substr(md5(random()::text || clock_timestamp()::text), 1, 24) AS "id",
+    s."id",
+    1 AS "revision",
+    s."status",
+    COALESCE(answer_json.responses, '{}'::jsonb),
+    COALESCE(group_json.repeat_groups, '{}'::jsonb),
+    s."submittedBy",
+    COALESCE(s."submittedAt", s."updatedAt")
+FROM "public"."form_submissions" s
+LEFT JOIN LATERAL (
+    SELECT jsonb_object_agg(qr."questionCode", qr."value") AS responses
+    FROM "public"."question_responses" qr
+    WHERE qr."submissionId" = s."id"
+) answer_json ON TRUE
+LEFT JOIN LATERAL (
+    SELECT jsonb_object_agg(grouped."questionCode", grouped.data) AS repeat_groups
+    FROM (
+        SELECT rg."questionCode", jsonb_agg(rg."data" ORDER BY rg."rowIndex") AS data
+        FROM "public"."repeatable_group_responses" rg
+        WHERE rg."submissionId" = s."id"
+        GROUP BY rg."questionCode"
+    ) grouped
+) group_json ON TRUE;
@@ -0,0 +1,21 @@
+-- Full-text search indexes. Prisma cannot express index expressions, so these
+-- live only here; the queries in src/lib/search/full-text.ts use the same
+-- expressions so Postgres can pick them.
+
+-- CreateIndex
+CREATE INDEX "technologies_search_idx" ON "public"."technologies" USING GIN (to_tsvector('english', "technologyName" || ' ' || coalesce("shortDescription", '')));
+
+-- CreateIndex
+CREATE INDEX "triage_stages_search_idx" ON "public"."triage_stages" USING GIN (to_tsvector('english', "technologyOverview" || ' ' || "unmetNeedText" || ' ' || "marketOverview"));
+
+-- CreateIndex
+CREATE INDEX "triage_competitors_search_idx" ON "public"."triage_competitors" USING GIN (to_tsvector('english', "company" || ' ' || coalesce("product", '') || ' ' || coalesce("notes", '')));
+
+-- CreateIndex
+CREATE INDEX "triage_smes_search_idx" ON "public"."triage_smes" USING GIN (to_tsvector('english', "name" || ' ' || coalesce("title", '') || ' ' || coalesce("organization", '') || ' ' || coalesce("expertise", '') || ' ' || coalesce("recommendation", '')));
+
+-- CreateIndex
+CREATE INDEX "question_responses_search_idx" ON "public"."question_responses" USING GIN (jsonb_to_tsvector('english', "value", '["string"]'::jsonb));
+
+-- CreateIndex
+CREATE INDEX "repeatable_group_responses_search_idx" ON "public"."repeatable_group_responses" USING GIN (jsonb_to_tsvector('english', "data", '["string"]'::jsonb));
@@ -256,12 +256,20 @@ export async function seedDemoSubmissions(
       console.log(`  ↻ Cleared ${deletedSubmissions.count} existing demo submissions`);
     }
 
+    // Pin demo submissions to the published version, as real submissions are
+    const templateVersion = await prisma.formTemplateVersion.findFirst({
+      where: { templateId },
+      orderBy: { version: 'desc' },
+      select: { id: true },
+    });
+
     // Create new demo submissions
     let createdCount = 0;
     for (const submission of demoSubmissions) {
       const formSubmission = await prisma.formSubmission.create({
         data: {
           templateId,
+          templateVersionId: templateVersion?.id ?? null,
           submittedBy: submission.submittedBy,
           status: submission.status,
           submittedAt: submission.status === SubmissionStatus.SUBMITTED
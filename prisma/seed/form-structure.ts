@@ -1,9 +1,9 @@
-import { PrismaClient, Prisma } from '@prisma/client';
+import { FormPurpose, PrismaClient, Prisma } from '@prisma/client';
 import { completeFormStructure } from './complete-questions';
 import { FormTemplateSeed } from './types';
 import { getPrismaClient } from './prisma-factory';
+import { buildTemplateSnapshot } from '../../src/lib/form-engine/template-versions';
 
-const formStructureData: FormTemplateSeed = completeFormStructure;
 const QUESTION_DICTIONARY_MAP: Record<string, string> = {
   'F0.1': 'tech.techId',
   'F0.2': 'tech.technologyName',
@@ -22,14 +22,21 @@ const QUESTION_DICTIONARY_MAP: Record<string, string> = {
   'F6.3': 'triage.recommendationNotes',
 };
 
-export async function seedFormStructure(injectedPrisma?: PrismaClient) {
+export async function seedFormStructure(
+  injectedPrisma?: PrismaClient,
+  formStructureData: FormTemplateSeed = completeFormStructure
+) {
   const prisma = getPrismaClient(injectedPrisma);
 
-  // Deactivate existing active templates so the newly seeded one becomes canonical
-  await prisma.formTemplate.updateMany({
-    where: { isActive: true },
-    data: { isActive: false },
-  });
+  const purpose = formStructureData.purpose ?? FormPurpose.TRIAGE;
+
+  // Deactivate active templates for the same purpose so the newly seeded one becomes canonical
+  if (formStructureData.isActive) {
+    await prisma.formTemplate.updateMany({
+      where: { isActive: true, purpose },
+      data: { isActive: false },
+    });
+  }
 
   // Create the form template
   const template = await prisma.formTemplate.create({
@@ -38,6 +45,8 @@ export async function seedFormStructure(injectedPrisma?: PrismaClient) {
       version: formStructureData.version,
       description: formStructureData.description,
       isActive: formStructureData.isActive,
+      purpose,
+      scoringModel: toJsonValue(formStructureData.scoringModel),
     },
   });
 
@@ -112,10 +121,46 @@ export async function seedFormStructure(injectedPrisma?: PrismaClient) {
     }
   }
 
+  await publishSeededTemplate(prisma, template.id);
+
   console.log(`🎉 Successfully seeded form structure with ${formStructureData.sections.length} sections`);
   return template;
 }
 
+// Forms render the latest published version, so a seeded template starts at version 1
+async function publishSeededTemplate(prisma: PrismaClient, templateId: string) {
+  const template = await prisma.formTemplate.findUniqueOrThrow({
+    where: { id: templateId },
+    include: {
+      sections: {
+        orderBy: { order: 'asc' },
+        include: {
+          questions: {
+            orderBy: { order: 'asc' },
+            include: {
+              options: { orderBy: { order: 'asc' } },
+              scoringConfig: true,
+              dictionary: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  await prisma.formTemplateVersion.create({
+    data: {
+      templateId,
+      version: 1,
+      versionLabel: template.version,
+      structure: buildTemplateSnapshot(template),
+      publishedBy: 'system-seed',
+    },
+  });
+
+  console.log(`  ✅ Published ${template.name} as version 1`);
+}
+
 function toJsonValue(value: unknown): Prisma.InputJsonValue | Prisma.JsonNullValueInput | undefined {
   if (value === undefined) {
     return undefined;
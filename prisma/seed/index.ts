@@ -3,6 +3,7 @@ import { seedDemoSubmissions } from './demo-submissions';
 import { getPrismaClient } from './prisma-factory';
 import { seedQuestionDictionary } from './question-dictionary';
 import { backfillQuestionRevisions } from './backfill-question-revisions';
+import { viabilityFormStructure } from './viability-questions';
 
 const prisma = getPrismaClient();
 
@@ -55,6 +56,10 @@ async function main() {
       console.log(`   Activated new template ${template.name} (${template.id}). Previous templates remain archived.`);
     }
 
+    console.log('📝 Seeding viability assessment template...');
+    const viabilityTemplate = await seedFormStructure(prisma, viabilityFormStructure);
+    console.log(`   Created ${viabilityTemplate.name} (${viabilityTemplate.id})`);
+
     // Conditionally seed demo data
     if (seedDemoData && templateId) {
       console.log('🎭 Seeding demo data...');
@@ -127,6 +127,62 @@ const entries = [
     bindingPath: "viabilityStage.technicalFeasibility",
     dataSource: DataSource.STAGE_SUPPLEMENT,
   },
+  {
+    key: "viability.regulatoryPathway",
+    label: "Regulatory Pathway",
+    helpText: "Expected regulatory pathway for the technology.",
+    bindingPath: "viabilityStage.regulatoryPathway",
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+  },
+  {
+    key: "viability.costAnalysis",
+    label: "Cost Analysis",
+    helpText: "Development cost, pricing and reimbursement summary.",
+    bindingPath: "viabilityStage.costAnalysis",
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+  },
+  {
+    key: "viability.timeToMarket",
+    label: "Time to Market (months)",
+    helpText: "Estimated months until the technology reaches market.",
+    bindingPath: "viabilityStage.timeToMarket",
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+  },
+  {
+    key: "viability.resourceRequirements",
+    label: "Resource Requirements",
+    helpText: "Resources needed to reach a market-ready product.",
+    bindingPath: "viabilityStage.resourceRequirements",
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+  },
+  {
+    key: "viability.riskAssessment",
+    label: "Risk Assessment",
+    helpText: "Key risks and mitigations identified during viability.",
+    bindingPath: "viabilityStage.riskAssessment",
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+  },
+  {
+    key: "viability.technicalScore",
+    label: "Technical Score",
+    helpText: "Calculated technical viability score.",
+    bindingPath: "viabilityStage.technicalScore",
+    dataSource: DataSource.CALCULATED,
+  },
+  {
+    key: "viability.commercialScore",
+    label: "Commercial Score",
+    helpText: "Calculated commercial viability score.",
+    bindingPath: "viabilityStage.commercialScore",
+    dataSource: DataSource.CALCULATED,
+  },
+  {
+    key: "viability.overallViability",
+    label: "Overall Viability",
+    helpText: "Recommendation derived from the technical and commercial scores.",
+    bindingPath: "viabilityStage.overallViability",
+    dataSource: DataSource.CALCULATED,
+  },
 ];
 
 export async function seedQuestionDictionary(prisma: PrismaClient) {
@@ -1,4 +1,4 @@
-import { FieldType } from '@prisma/client';
+import { FieldType, FormPurpose } from '@prisma/client';
 
 export type QuestionOptionSeed = {
   value: string;
@@ -53,5 +53,9 @@ export type FormTemplateSeed = {
   version: string;
   description?: string;
   isActive: boolean;
+  /** Defaults to TRIAGE */
+  purpose?: FormPurpose;
+  /** Stored on FormTemplate.scoringModel; see src/lib/scoring/model.ts */
+  scoringModel?: Record<string, unknown>;
   sections: FormSectionSeed[];
 };
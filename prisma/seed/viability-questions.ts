@@ -0,0 +1,259 @@
+import { FieldType, FormPurpose } from '@prisma/client';
+import { FormQuestionSeed, FormTemplateSeed } from './types';
+
+// Second-stage viability questionnaire. Narrative answers bind to viabilityStage.*
+// through the question dictionary; the scoring model below writes the technical
+// and commercial scores and the overall viability recommendation back to the stage.
+
+function score(
+  fieldCode: string,
+  label: string,
+  order: number,
+  criteria: [string, string, string, string],
+  helpText?: string
+): FormQuestionSeed {
+  return {
+    fieldCode,
+    label,
+    type: FieldType.SCORING_0_3,
+    helpText,
+    order,
+    isRequired: true,
+    scoringConfig: {
+      minScore: 0,
+      maxScore: 3,
+      weight: 1.0,
+      criteria: { '0': criteria[0], '1': criteria[1], '2': criteria[2], '3': criteria[3] },
+    },
+  };
+}
+
+export const viabilityFormStructure: FormTemplateSeed = {
+  name: 'CCHMC Technology Viability Assessment',
+  version: '1.0.0',
+  description:
+    'Second-stage assessment of technical and commercial viability for technologies promoted out of triage',
+  // Live alongside triage; the technology page opens it once a technology reaches viability
+  isActive: true,
+  purpose: FormPurpose.VIABILITY,
+  scoringModel: {
+    version: 1,
+    minScore: 0,
+    maxScore: 3,
+    groups: [
+      {
+        key: 'technical',
+        label: 'Technical',
+        role: 'section',
+        aggregation: 'weighted_average',
+        criteria: [
+          { fieldCode: 'V1.2', label: 'Technical Maturity' },
+          { fieldCode: 'V1.4', label: 'Development Resources' },
+          { fieldCode: 'V2.2', label: 'Regulatory Pathway' },
+          { fieldCode: 'V4.2', label: 'Risk Profile' },
+        ],
+      },
+      {
+        key: 'commercial',
+        label: 'Commercial',
+        role: 'section',
+        aggregation: 'weighted_average',
+        criteria: [
+          { fieldCode: 'V3.2', label: 'Cost and Reimbursement' },
+          { fieldCode: 'V3.4', label: 'Time to Market' },
+          { fieldCode: 'V3.5', label: 'Partner Interest' },
+        ],
+      },
+      {
+        key: 'overall',
+        label: 'Overall',
+        role: 'composite',
+        aggregation: 'average',
+        criteria: [{ group: 'technical' }, { group: 'commercial' }],
+      },
+    ],
+    matrix: { x: 'technical', y: 'commercial' },
+    bindings: {
+      technical: 'viabilityStage.technicalScore',
+      commercial: 'viabilityStage.commercialScore',
+      recommendation: 'viabilityStage.overallViability',
+    },
+  },
+  sections: [
+    {
+      code: 'V0',
+      title: 'Technology',
+      description: 'Identify the technology being assessed',
+      order: 0,
+      isRequired: true,
+      questions: [
+        {
+          fieldCode: 'V0.1',
+          label: 'Technology ID',
+          type: FieldType.SHORT_TEXT,
+          helpText: 'Technology ID from the triage record',
+          placeholder: 'Enter technology ID',
+          order: 1,
+          isRequired: true,
+          dictionaryKey: 'tech.techId',
+        },
+        {
+          fieldCode: 'V0.2',
+          label: 'Date',
+          type: FieldType.DATE,
+          helpText: 'Date of this assessment',
+          order: 2,
+          isRequired: true,
+        },
+      ],
+    },
+    {
+      code: 'V1',
+      title: 'Technical Viability',
+      description: 'Can the technology be built and validated with realistic resources?',
+      order: 1,
+      isRequired: true,
+      questions: [
+        {
+          fieldCode: 'V1.1',
+          label: 'Describe the technical feasibility and current stage of development',
+          type: FieldType.LONG_TEXT,
+          placeholder: 'Prototype status, validation data, remaining technical hurdles...',
+          order: 1,
+          isRequired: true,
+          dictionaryKey: 'viability.technicalFeasibility',
+        },
+        score('V1.2', 'Technical Maturity Score', 2, [
+          'Concept only, no supporting data',
+          'Early proof of concept',
+          'Working prototype with preliminary validation',
+          'Validated prototype ready for development',
+        ]),
+        {
+          fieldCode: 'V1.3',
+          label: 'What resources are required to reach a market-ready product?',
+          type: FieldType.LONG_TEXT,
+          placeholder: 'Funding, staff, facilities, partners...',
+          order: 3,
+          isRequired: true,
+          dictionaryKey: 'viability.resourceRequirements',
+        },
+        score('V1.4', 'Development Resources Score', 4, [
+          'Resources far beyond what is available',
+          'Significant new funding or partners required',
+          'Moderate additional resources required',
+          'Achievable with existing resources',
+        ]),
+      ],
+    },
+    {
+      code: 'V2',
+      title: 'Regulatory',
+      order: 2,
+      isRequired: true,
+      questions: [
+        {
+          fieldCode: 'V2.1',
+          label: 'Describe the expected regulatory pathway',
+          type: FieldType.LONG_TEXT,
+          helpText: 'e.g. 510(k), De Novo, PMA, IND, or not regulated',
+          order: 1,
+          isRequired: true,
+          dictionaryKey: 'viability.regulatoryPathway',
+        },
+        score('V2.2', 'Regulatory Pathway Score', 2, [
+          'Unclear or novel pathway with major hurdles',
+          'Demanding pathway (e.g. PMA or full clinical trials)',
+          'Established pathway with moderate requirements',
+          'Minimal or well-understood regulatory requirements',
+        ]),
+      ],
+    },
+    {
+      code: 'V3',
+      title: 'Commercial Viability',
+      description: 'Is there a realistic route to revenue?',
+      order: 3,
+      isRequired: true,
+      questions: [
+        {
+          fieldCode: 'V3.1',
+          label: 'Summarize development costs, pricing and reimbursement',
+          type: FieldType.LONG_TEXT,
+          order: 1,
+          isRequired: true,
+          dictionaryKey: 'viability.costAnalysis',
+        },
+        score('V3.2', 'Cost and Reimbursement Score', 2, [
+          'Costs unlikely to be recovered',
+          'Uncertain pricing or reimbursement',
+          'Reasonable margins with some reimbursement risk',
+          'Clear pricing and reimbursement path',
+        ]),
+        {
+          fieldCode: 'V3.3',
+          label: 'Estimated time to market (months)',
+          type: FieldType.INTEGER,
+          order: 3,
+          isRequired: false,
+          dictionaryKey: 'viability.timeToMarket',
+          validation: {
+            rules: [
+              { type: 'min', value: 0, message: 'Time to market cannot be negative' },
+              { type: 'max', value: 240, message: 'Time to market must be 240 months or less' },
+            ],
+          },
+        },
+        score('V3.4', 'Time to Market Score', 4, [
+          'More than 10 years',
+          '5-10 years',
+          '2-5 years',
+          'Less than 2 years',
+        ]),
+        score('V3.5', 'Commercial Partner Interest Score', 5, [
+          'No identified partners',
+          'Potential partners identified',
+          'Early conversations with interested partners',
+          'Partner committed or term sheet in discussion',
+        ]),
+      ],
+    },
+    {
+      code: 'V4',
+      title: 'Risk',
+      order: 4,
+      isRequired: true,
+      questions: [
+        {
+          fieldCode: 'V4.1',
+          label: 'Describe the key technical, clinical and commercial risks and mitigations',
+          type: FieldType.LONG_TEXT,
+          order: 1,
+          isRequired: true,
+          dictionaryKey: 'viability.riskAssessment',
+        },
+        score('V4.2', 'Risk Profile Score', 2, [
+          'Critical unmitigated risks',
+          'Significant risks with partial mitigation',
+          'Manageable risks with mitigation plans',
+          'Low overall risk',
+        ]),
+      ],
+    },
+    {
+      code: 'V5',
+      title: 'Reviewer Notes',
+      order: 5,
+      isRequired: false,
+      questions: [
+        {
+          fieldCode: 'V5.1',
+          label: 'Additional notes',
+          type: FieldType.LONG_TEXT,
+          order: 1,
+          isRequired: false,
+        },
+      ],
+    },
+  ],
+};
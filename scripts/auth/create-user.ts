@@ -0,0 +1,90 @@
+import { PrismaClient } from "@prisma/client";
+import { hashPassword } from "../../src/lib/auth/password";
+import { PERSONA_PERMISSIONS } from "../../src/lib/auth/permissions";
+
+/**
+ * Create or update a local (email + password) user.
+ *
+ * Usage: npm run auth:create-user -- --email someone@example.org --name "Jane Doe" --persona reviewer
+ * The password is read from AUTH_USER_PASSWORD so it never lands in shell history.
+ * --persona may be repeated; see PERSONA_PERMISSIONS for what each code grants.
+ * Pass --deactivate to disable sign-in for an existing account.
+ */
+const prisma = new PrismaClient();
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readArgs(name: string): string[] {
+  return process.argv.flatMap((arg, index) =>
+    arg === `--${name}` && process.argv[index + 1] ? [process.argv[index + 1]] : []
+  );
+}
+
+async function assignPersona(userId: string, code: string) {
+  if (!PERSONA_PERMISSIONS[code]) {
+    throw new Error(`Unknown persona "${code}". Expected one of: ${Object.keys(PERSONA_PERMISSIONS).join(", ")}`);
+  }
+
+  const persona = await prisma.persona.upsert({
+    where: { code },
+    update: {},
+    create: { code, label: code.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase()) },
+  });
+
+  await prisma.userPersona.upsert({
+    where: { userId_personaId: { userId, personaId: persona.id } },
+    update: {},
+    create: { userId, personaId: persona.id },
+  });
+}
+
+async function main() {
+  const email = readArg("email")?.trim().toLowerCase();
+  const name = readArg("name")?.trim() || null;
+  const deactivate = process.argv.includes("--deactivate");
+  const password = process.env.AUTH_USER_PASSWORD;
+
+  if (!email) {
+    throw new Error("--email is required");
+  }
+
+  if (deactivate) {
+    const user = await prisma.user.update({ where: { email }, data: { isActive: false } });
+    await prisma.session.deleteMany({ where: { userId: user.id } });
+    console.log(JSON.stringify({ id: user.id, email: user.email, isActive: user.isActive }, null, 2));
+    return;
+  }
+
+  if (!password) {
+    throw new Error("AUTH_USER_PASSWORD must be set");
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.user.upsert({
+    where: { email },
+    update: { passwordHash, authProvider: "local", isActive: true, ...(name ? { name } : {}) },
+    create: { email, name, passwordHash, authProvider: "local" },
+  });
+
+  // A password change signs the user out everywhere
+  await prisma.session.deleteMany({ where: { userId: user.id } });
+
+  const personas = readArgs("persona");
+  for (const code of personas) {
+    await assignPersona(user.id, code);
+  }
+
+  console.log(JSON.stringify({ id: user.id, email: user.email, name: user.name, personas }, null, 2));
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
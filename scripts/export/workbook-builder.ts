@@ -1,6 +1,7 @@
 import { FieldType, Prisma, QuestionResponse, RepeatableGroupResponse } from '@prisma/client';
 import ExcelJS from 'exceljs';
 import { DateTime } from 'luxon';
+import { excelNumberFormat, getNumberFormat, isFormattedNumberType, parseNumericInput } from '@/lib/form-engine/number-format';
 import { SubmissionWithRelations } from './data-fetcher';
 
 type Worksheet = ExcelJS.Worksheet;
@@ -86,6 +87,17 @@ const formatResponseValue = (
       ? new Map(question.options.map((option) => [option.value, option.label]))
       : undefined;
 
+  // One selection per line; labels may themselves contain commas
+  if (question.type === FieldType.MULTI_SELECT || question.type === FieldType.CHECKBOX_GROUP) {
+    const selected = (Array.isArray(value) ? value : [value]).map((entry) => formatScalar(entry));
+    const ordered = [...(question.options ?? [])]
+      .sort((a, b) => a.order - b.order)
+      .filter((option) => selected.includes(option.value))
+      .map((option) => option.label);
+    const unknown = selected.filter((entry) => entry && !optionLookup?.has(entry));
+    return [...ordered, ...unknown].join('\n');
+  }
+
   if (Array.isArray(value)) {
     const values = value.map((entry) => {
       if (optionLookup && typeof entry === 'string') {
@@ -176,6 +188,17 @@ const addQuestionRow = (
   question: SubmissionWithRelations['template']['sections'][number]['questions'][number],
   response: QuestionResponse | undefined,
 ): void => {
+  // Typed numbers stay numeric so the sheet can sum them; the cell format shows the symbol
+  const amount = response && isFormattedNumberType(question.type) ? parseNumericInput(response.value) : null;
+  if (amount !== null) {
+    const scaled = question.type === FieldType.PERCENTAGE ? amount / 100 : amount;
+    const row = worksheet.addRow(['', question.fieldCode, question.label, scaled]);
+    row.getCell(2).font = { bold: true };
+    row.getCell(4).numFmt = excelNumberFormat(question.type, getNumberFormat(question.validation));
+    row.getCell(4).alignment = { horizontal: 'left' };
+    return;
+  }
+
   const value = response ? formatResponseValue(question, response.value) : '';
   const row = worksheet.addRow(['', question.fieldCode, question.label, value]);
   row.getCell(2).font = { bold: true };
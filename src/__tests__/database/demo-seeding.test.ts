@@ -34,6 +34,9 @@ describe('Demo Data Seeding', () => {
       formTemplate: {
         create: jest.fn().mockResolvedValue({ id: 'template-id' }),
       },
+      formTemplateVersion: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'template-version-id' }),
+      },
       formSection: {
         create: jest.fn().mockResolvedValue({ id: 'section-id' }),
       },
@@ -189,6 +192,9 @@ describe('Demo Data Seeding', () => {
 
       expect(submittedCount).toBe(3);
       expect(draftCount).toBe(1);
+      createCalls.forEach((call) => {
+        expect(call[0].data.templateVersionId).toBe('template-version-id');
+      });
     });
 
     it('should handle question responses and repeat groups correctly', async () => {
@@ -2,31 +2,51 @@
  * @jest-environment node
  */
 /* eslint-disable no-var */
-import { saveDraftResponse, loadDraftResponse } from '@/app/dynamic-form/actions';
+import {
+  saveDraftResponse,
+  loadDraftResponse,
+  deleteDraftResponse,
+  submitFormResponse,
+  assignSubmissionReviewer,
+} from '@/app/dynamic-form/actions';
 import type { Prisma } from '@prisma/client';
 import { DataSource } from '@prisma/client';
 import { OptimisticLockError } from '@/lib/technology/types';
+import { AuthenticationError } from '@/lib/auth/session';
 import type { FormTemplateWithSections } from '@/lib/form-engine/types';
+import { buildQuestion, buildSection, buildTemplate } from '@/lib/form-engine/test-utils';
 
 type PrismaMocks = {
   formSubmissionCreate: jest.Mock;
   formSubmissionFindFirst: jest.Mock;
+  formSubmissionDelete: jest.Mock;
+  userPersonaFindMany: jest.Mock;
+  userFindUnique: jest.Mock;
   questionResponseCreateMany: jest.Mock;
   repeatableGroupCreateMany: jest.Mock;
   calculatedScoreCreateMany: jest.Mock;
+  submissionRevisionFindFirst: jest.Mock;
+  submissionRevisionCreate: jest.Mock;
 };
 
 var prismaMocks: PrismaMocks;
 var mockApplyBindingWrites: jest.Mock;
 var mockFetchTemplateWithBindingsById: jest.Mock;
+var mockLoadBindingConflict: jest.Mock;
+var mockRequireSessionUser: jest.Mock;
 
 jest.mock('@/lib/prisma', () => {
   prismaMocks = {
     formSubmissionCreate: jest.fn(),
     formSubmissionFindFirst: jest.fn(),
+    formSubmissionDelete: jest.fn(),
+    userPersonaFindMany: jest.fn(),
+    userFindUnique: jest.fn(),
     questionResponseCreateMany: jest.fn(),
     repeatableGroupCreateMany: jest.fn(),
     calculatedScoreCreateMany: jest.fn(),
+    submissionRevisionFindFirst: jest.fn(),
+    submissionRevisionCreate: jest.fn(),
   };
 
   const baseClient = {
@@ -34,8 +54,16 @@ jest.mock('@/lib/prisma', () => {
       create: prismaMocks.formSubmissionCreate,
       findFirst: prismaMocks.formSubmissionFindFirst,
       update: jest.fn(),
+      delete: prismaMocks.formSubmissionDelete,
       deleteMany: jest.fn(),
     },
+    userPersona: {
+      findMany: prismaMocks.userPersonaFindMany,
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
+    user: {
+      findUnique: prismaMocks.userFindUnique,
+    },
     questionResponse: {
       createMany: prismaMocks.questionResponseCreateMany,
     },
@@ -45,6 +73,10 @@ jest.mock('@/lib/prisma', () => {
     calculatedScore: {
       createMany: prismaMocks.calculatedScoreCreateMany,
     },
+    submissionRevision: {
+      findFirst: prismaMocks.submissionRevisionFindFirst,
+      create: prismaMocks.submissionRevisionCreate,
+    },
   } as unknown as Prisma.TransactionClient;
 
   const transaction = async <T>(fn: (tx: Prisma.TransactionClient) => Promise<T>) => fn(baseClient);
@@ -73,6 +105,25 @@ jest.mock('@/lib/technology/service', () => {
       }
       return mockApplyBindingWrites(...args);
     },
+    loadBindingConflict: (...args: unknown[]) => {
+      if (!mockLoadBindingConflict) {
+        mockLoadBindingConflict = jest.fn();
+      }
+      return mockLoadBindingConflict(...args);
+    },
+  };
+});
+
+jest.mock('@/lib/auth/session', () => {
+  const actualModule = jest.requireActual('@/lib/auth/session');
+  return {
+    ...actualModule,
+    requireSessionUser: (...args: unknown[]) => {
+      if (!mockRequireSessionUser) {
+        mockRequireSessionUser = jest.fn();
+      }
+      return mockRequireSessionUser(...args);
+    },
   };
 });
 
@@ -112,6 +163,12 @@ describe('dynamic form actions', () => {
 
     mockFetchTemplateWithBindingsById = jest.fn();
     mockApplyBindingWrites = jest.fn();
+    mockLoadBindingConflict = jest.fn().mockResolvedValue(null);
+    mockRequireSessionUser = jest.fn().mockResolvedValue({
+      id: 'test-user',
+      email: 'tester@example.org',
+      name: 'Test User',
+    });
 
     mockFetchTemplateWithBindingsById.mockResolvedValue({
       template: { id: TEMPLATE_ID, sections: [] } as unknown as FormTemplateWithSections,
@@ -144,8 +201,7 @@ describe('dynamic form actions', () => {
         rowVersions: {
           technologyRowVersion: 1,
         },
-      },
-      'test-user'
+      }
     );
 
     if (!result.success) {
@@ -189,6 +245,79 @@ describe('dynamic form actions', () => {
     );
 
     expect(result.rowVersions).toEqual({ technologyRowVersion: 2 });
+    expect(prismaMocks.formSubmissionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ submittedBy: 'test-user' }),
+    });
+    expect(prismaMocks.submissionRevisionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        submissionId: DRAFT_ID,
+        revision: 1,
+        status: 'DRAFT',
+        responses: { 'F0.1': 'TECH-001' },
+        createdBy: 'test-user',
+      }),
+    });
+  });
+
+  it('refuses to save a draft without a signed-in user', async () => {
+    mockRequireSessionUser.mockRejectedValue(new AuthenticationError());
+
+    const result = await saveDraftResponse({
+      templateId: TEMPLATE_ID,
+      responses: { 'F0.1': 'TECH-001' },
+      repeatGroups: {},
+    });
+
+    expect(result).toEqual({ success: false, error: 'Authentication required' });
+    expect(prismaMocks.formSubmissionCreate).not.toHaveBeenCalled();
+  });
+
+  it("rejects saving over another user's draft", async () => {
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-b', email: 'b@example.org', name: 'User B' });
+    prismaMocks.formSubmissionFindFirst.mockImplementation(async ({ where }) =>
+      where.submittedBy === 'user-a' ? { id: DRAFT_ID, submittedBy: 'user-a', status: 'DRAFT' } : null
+    );
+
+    const result = await saveDraftResponse(
+      { templateId: TEMPLATE_ID, responses: { 'F0.1': 'TECH-009' }, repeatGroups: {} },
+      DRAFT_ID
+    );
+
+    expect(result).toEqual({ success: false, error: 'Draft not found or access denied' });
+    expect(prismaMocks.formSubmissionFindFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: DRAFT_ID, submittedBy: 'user-b' }),
+    });
+    expect(mockApplyBindingWrites).not.toHaveBeenCalled();
+  });
+
+  it("rejects submitting another user's draft", async () => {
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-b', email: 'b@example.org', name: 'User B' });
+    prismaMocks.formSubmissionFindFirst.mockImplementation(async ({ where }) =>
+      where.submittedBy === 'user-a' ? { id: DRAFT_ID, submittedBy: 'user-a', status: 'DRAFT' } : null
+    );
+
+    const result = await submitFormResponse(
+      { templateId: TEMPLATE_ID, responses: { 'F0.1': 'TECH-009' }, repeatGroups: {} },
+      DRAFT_ID
+    );
+
+    expect(result).toEqual({ success: false, error: 'Draft not found or access denied' });
+    expect(prismaMocks.formSubmissionCreate).not.toHaveBeenCalled();
+    expect(mockApplyBindingWrites).not.toHaveBeenCalled();
+  });
+
+  it("does not load another user's draft", async () => {
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-b', email: 'b@example.org', name: 'User B' });
+    prismaMocks.formSubmissionFindFirst.mockImplementation(async ({ where }) =>
+      where.submittedBy === 'user-a' ? { id: DRAFT_ID, submittedBy: 'user-a', status: 'DRAFT' } : null
+    );
+
+    const result = await loadDraftResponse(DRAFT_ID);
+
+    expect(result).toEqual({ success: false, error: 'Draft not found or access denied' });
+    expect(prismaMocks.formSubmissionFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: DRAFT_ID, submittedBy: 'user-b' }) })
+    );
   });
 
   it('hydrats repeatable rows when loading a draft', async () => {
@@ -212,9 +341,10 @@ describe('dynamic form actions', () => {
         },
       ],
       scores: [],
+      reviews: [],
     });
 
-    const result = await loadDraftResponse(DRAFT_ID, 'test-user');
+    const result = await loadDraftResponse(DRAFT_ID);
 
     expect(result.success).toBe(true);
     expect(result.data?.responses['F0.1']).toBe('TECH-001');
@@ -222,6 +352,37 @@ describe('dynamic form actions', () => {
       { name: 'Dr. Jane Smith', department: 'Oncology' },
       { name: 'Alex Jordan', department: 'Bioinformatics' },
     ]);
+    expect(result.data?.reviewFeedback).toBeNull();
+  });
+
+  it("returns the reviewer's comments with a draft sent back for changes", async () => {
+    const requestedAt = new Date('2025-11-14T09:00:00Z');
+    prismaMocks.formSubmissionFindFirst.mockResolvedValue({
+      id: DRAFT_ID,
+      templateId: TEMPLATE_ID,
+      status: 'DRAFT',
+      responses: [],
+      repeatGroups: [],
+      scores: [],
+      reviews: [
+        {
+          summary: 'Market section needs sources',
+          questionComments: { 'F0.1': ' Check the ID ', 'F0.5': '' },
+          actorId: 'reviewer-1',
+          createdAt: requestedAt,
+        },
+      ],
+    });
+    prismaMocks.userFindUnique.mockResolvedValue({ name: 'Riley Reviewer', email: 'riley@example.org' });
+
+    const result = await loadDraftResponse(DRAFT_ID);
+
+    expect(result.data?.reviewFeedback).toEqual({
+      summary: 'Market section needs sources',
+      questionComments: { 'F0.1': 'Check the ID' },
+      requestedAt,
+      reviewerLabel: 'Riley Reviewer',
+    });
   });
 
   it('returns conflict when optimistic lock fails', async () => {
@@ -237,11 +398,132 @@ describe('dynamic form actions', () => {
         rowVersions: {
           technologyRowVersion: 1,
         },
-      },
-      'test-user'
+      }
     );
 
     expect(result.success).toBe(false);
     expect(result.error).toBe('conflict');
   });
+
+  it('returns the values a rejected write collided with', async () => {
+    const conflict = {
+      theirs: { 'F0.1': 'TECH-002', 'F0.5': [{ name: 'Alex Jordan' }] },
+      mine: { 'F0.1': 'TECH-002', 'F0.5': [{ name: 'Dr. Jane Smith' }] },
+      rowVersions: { technologyRowVersion: 3 },
+    };
+    mockApplyBindingWrites.mockRejectedValue(new OptimisticLockError());
+    mockLoadBindingConflict.mockResolvedValue(conflict);
+
+    const result = await submitFormResponse({
+      templateId: TEMPLATE_ID,
+      responses: { 'F0.1': 'TECH-002' },
+      repeatGroups: { 'F0.5': [{ name: 'Dr. Jane Smith' }] },
+      rowVersions: { technologyRowVersion: 1 },
+    });
+
+    expect(result).toEqual({ success: false, error: 'conflict', conflict });
+    expect(mockLoadBindingConflict).toHaveBeenCalledWith(
+      expect.anything(),
+      bindingMetadata,
+      expect.objectContaining({ 'F0.1': 'TECH-002', 'F0.5': [{ name: 'Dr. Jane Smith' }] })
+    );
+  });
+
+  it('rejects submissions that break template rules with per-field errors', async () => {
+    const template = buildTemplate({
+      id: TEMPLATE_ID,
+      sections: [
+        buildSection({
+          questions: [
+            buildQuestion({ fieldCode: 'hasPartner', label: 'Has partner' }),
+            buildQuestion({
+              fieldCode: 'partnerName',
+              label: 'Partner name',
+              conditional: {
+                logic: 'AND',
+                rules: [{ field: 'hasPartner', operator: 'equals', value: 'yes', action: 'require' }],
+              },
+            }),
+            buildQuestion({
+              fieldCode: 'contact',
+              label: 'Contact',
+              validation: { rules: [{ type: 'email', message: 'Enter a valid email' }] },
+            }),
+            buildQuestion({
+              fieldCode: 'hiddenNote',
+              label: 'Hidden note',
+              isRequired: true,
+              conditional: {
+                logic: 'AND',
+                rules: [{ field: 'hasPartner', operator: 'equals', value: 'no', action: 'show' }],
+              },
+            }),
+          ],
+        }),
+      ],
+    });
+    mockFetchTemplateWithBindingsById.mockResolvedValue({ template, bindingMetadata: {} });
+
+    const result = await submitFormResponse({
+      templateId: TEMPLATE_ID,
+      responses: { hasPartner: 'yes', contact: 'not-an-email' },
+      repeatGroups: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.fieldErrors).toEqual({
+      partnerName: 'Partner name is required',
+      contact: 'Enter a valid email',
+    });
+    expect(prismaMocks.formSubmissionCreate).not.toHaveBeenCalled();
+    expect(mockApplyBindingWrites).not.toHaveBeenCalled();
+  });
+
+  it('lets authors delete their own drafts', async () => {
+    prismaMocks.formSubmissionFindFirst.mockResolvedValue({ id: DRAFT_ID, submittedBy: 'test-user' });
+
+    const result = await deleteDraftResponse(DRAFT_ID);
+
+    expect(result.success).toBe(true);
+    expect(prismaMocks.formSubmissionDelete).toHaveBeenCalledWith({ where: { id: DRAFT_ID } });
+    expect(prismaMocks.userPersonaFindMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects deleting someone else's draft without the delete permission", async () => {
+    prismaMocks.formSubmissionFindFirst.mockResolvedValue({ id: DRAFT_ID, submittedBy: 'other-user' });
+    prismaMocks.userPersonaFindMany.mockResolvedValue([{ persona: { code: 'reviewer' } }]);
+
+    const result = await deleteDraftResponse(DRAFT_ID);
+
+    expect(result).toEqual({ success: false, error: 'You do not have permission to delete this draft' });
+    expect(prismaMocks.formSubmissionDelete).not.toHaveBeenCalled();
+  });
+
+  it("lets tech managers delete other users' drafts", async () => {
+    prismaMocks.formSubmissionFindFirst.mockResolvedValue({ id: DRAFT_ID, submittedBy: 'other-user' });
+    prismaMocks.userPersonaFindMany.mockResolvedValue([{ persona: { code: 'tech_manager' } }]);
+
+    const result = await deleteDraftResponse(DRAFT_ID);
+
+    expect(result.success).toBe(true);
+    expect(prismaMocks.formSubmissionDelete).toHaveBeenCalledWith({ where: { id: DRAFT_ID } });
+  });
+
+  it('only assigns reviewers who can review submissions', async () => {
+    prismaMocks.userPersonaFindMany
+      .mockResolvedValueOnce([{ persona: { code: 'reviewer' } }])
+      .mockResolvedValueOnce([]);
+
+    const result = await assignSubmissionReviewer('submission-1', 'author-1');
+
+    expect(result).toEqual({ success: false, error: 'That user cannot review submissions' });
+  });
+
+  it('refuses reviewer assignment without the review permission', async () => {
+    prismaMocks.userPersonaFindMany.mockResolvedValue([]);
+
+    const result = await assignSubmissionReviewer('submission-1', 'reviewer-1');
+
+    expect(result).toEqual({ success: false, error: 'You do not have permission to perform this action' });
+  });
 });
@@ -0,0 +1,312 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createSection,
+  deleteTemplateAction,
+  getTemplates,
+  publishRecommendationRules,
+  publishTemplate,
+  updateField,
+  updateTemplateScoringModel,
+} from '@/app/dynamic-form/builder/actions';
+import { prisma } from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth/session';
+import { PermissionError } from '@/lib/auth/permissions';
+import { DEFAULT_RECOMMENDATION_RULES } from '@/lib/scoring/recommendations';
+import { buildTemplateSnapshot } from '@/lib/form-engine/template-versions';
+import { createMockQuestion, createMockTemplate } from '../test-utils/formTemplateBuilders';
+
+jest.mock('@/lib/auth/session', () => ({
+  ...jest.requireActual('@/lib/auth/session'),
+  requireSessionUser: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    userPersona: { findMany: jest.fn() },
+    formTemplate: { findMany: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    formSection: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    formQuestion: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}));
+
+jest.mock('next/navigation', () => ({
+  redirect: jest.fn((url: string) => {
+    throw new Error(`REDIRECT:${url}`);
+  }),
+}));
+
+const mockRequireSessionUser = requireSessionUser as jest.Mock;
+const mockUserPersonaFindMany = prisma.userPersona.findMany as jest.Mock;
+const mockSectionCreate = prisma.formSection.create as jest.Mock;
+const mockTemplateFindMany = prisma.formTemplate.findMany as jest.Mock;
+const mockTemplateDelete = prisma.formTemplate.delete as jest.Mock;
+const mockTemplateUpdate = prisma.formTemplate.update as jest.Mock;
+const mockTransaction = prisma.$transaction as jest.Mock;
+
+const reviewer = [{ persona: { code: 'reviewer' } }];
+const templateAdmin = [{ persona: { code: 'template_admin' } }];
+
+describe('builder actions — template:manage guard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'user@example.org', name: 'User' });
+  });
+
+  it('rejects section edits from users without the template admin persona', async () => {
+    mockUserPersonaFindMany.mockResolvedValue(reviewer);
+
+    const result = await createSection('tpl-1', { title: 'Market', code: 'MKT' });
+
+    expect(result).toEqual({ success: false, error: 'You do not have permission to perform this action' });
+    expect(mockSectionCreate).not.toHaveBeenCalled();
+  });
+
+  it('rejects scoring model and rule set changes without permission', async () => {
+    mockUserPersonaFindMany.mockResolvedValue([]);
+
+    const scoring = await updateTemplateScoringModel('tpl-1', '{"groups":[]}');
+    const rules = await publishRecommendationRules('tpl-1', DEFAULT_RECOMMENDATION_RULES);
+
+    expect(scoring.success).toBe(false);
+    expect(rules.success).toBe(false);
+    expect(mockTemplateUpdate).not.toHaveBeenCalled();
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses template deletion before touching the database', async () => {
+    mockUserPersonaFindMany.mockResolvedValue(reviewer);
+    const formData = new FormData();
+    formData.set('templateId', 'tpl-1');
+
+    await expect(deleteTemplateAction(formData)).rejects.toBeInstanceOf(PermissionError);
+    expect(mockTemplateDelete).not.toHaveBeenCalled();
+  });
+
+  it('refuses builder reads for signed-out callers', async () => {
+    mockRequireSessionUser.mockRejectedValue(new Error('Authentication required'));
+
+    await expect(getTemplates()).rejects.toThrow('Authentication required');
+    expect(mockTemplateFindMany).not.toHaveBeenCalled();
+  });
+
+  it('allows template admins through', async () => {
+    mockUserPersonaFindMany.mockResolvedValue(templateAdmin);
+    (prisma.formSection.findFirst as jest.Mock).mockResolvedValue({ order: 2 });
+    mockSectionCreate.mockResolvedValue({ id: 'section-3' });
+
+    const result = await createSection('tpl-1', { title: 'Market', code: 'MKT' });
+
+    expect(result).toEqual({ success: true });
+    expect(mockSectionCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ templateId: 'tpl-1', order: 3, title: 'Market', code: 'MKT' }),
+    });
+  });
+});
+
+describe('builder actions — conditional logic', () => {
+  const sections = [
+    {
+      order: 1,
+      questions: [
+        { fieldCode: 'A', label: 'A', type: 'SHORT_TEXT', order: 1, conditional: null },
+        {
+          fieldCode: 'B',
+          label: 'B',
+          type: 'SHORT_TEXT',
+          order: 2,
+          conditional: { logic: 'AND', rules: [{ field: 'A', operator: 'exists', value: null, action: 'show' }] },
+        },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'user@example.org', name: 'User' });
+    mockUserPersonaFindMany.mockResolvedValue(templateAdmin);
+    (prisma.formSection.findMany as jest.Mock).mockResolvedValue(sections);
+  });
+
+  it('rejects conditions on later fields before saving', async () => {
+    (prisma.formQuestion.findUnique as jest.Mock).mockResolvedValue({
+      id: 'question-a',
+      fieldCode: 'A',
+      type: 'SHORT_TEXT',
+      repeatableConfig: null,
+      section: { templateId: 'tpl-1' },
+    });
+
+    const result = await updateField('question-a', {
+      label: 'A',
+      isRequired: false,
+      conditional: { logic: 'AND', rules: [{ field: 'B', operator: 'exists', value: null, action: 'show' }] },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? '' : result.error).toContain('B comes after this field');
+    expect(result.success ? '' : result.error).toContain('Conditional logic would form a cycle: A → B → A');
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('builder actions — validation rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'user@example.org', name: 'User' });
+    mockUserPersonaFindMany.mockResolvedValue(templateAdmin);
+    (prisma.formSection.findMany as jest.Mock).mockResolvedValue([
+      {
+        order: 1,
+        questions: [
+          { fieldCode: 'start', label: 'Start', type: 'DATE', order: 1, conditional: null },
+          { fieldCode: 'end', label: 'End', type: 'DATE', order: 2, conditional: null },
+        ],
+      },
+    ]);
+    (prisma.formQuestion.findUnique as jest.Mock).mockResolvedValue({
+      id: 'question-end',
+      fieldCode: 'end',
+      type: 'DATE',
+      repeatableConfig: null,
+      validation: { isInfoBox: false, crossField: [{ type: 'min_rows', value: 1, message: 'Old' }] },
+      section: { templateId: 'tpl-1' },
+    });
+  });
+
+  it('merges rules into the stored validation JSON', async () => {
+    const update = jest.fn();
+    mockTransaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) =>
+      callback({ formQuestion: { update }, questionOption: { deleteMany: jest.fn(), createMany: jest.fn() } })
+    );
+
+    const result = await updateField('question-end', {
+      label: 'End',
+      isRequired: false,
+      validation: {
+        rules: [],
+        crossField: [{ type: 'compare', operator: 'gt', field: 'start', message: 'End must be after start' }],
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'question-end' },
+      data: expect.objectContaining({
+        validation: {
+          isInfoBox: false,
+          rules: [],
+          crossField: [{ type: 'compare', operator: 'gt', field: 'start', message: 'End must be after start' }],
+        },
+      }),
+    });
+  });
+
+  it('rejects rules that reference unknown fields', async () => {
+    const result = await updateField('question-end', {
+      label: 'End',
+      isRequired: false,
+      validation: {
+        rules: [],
+        crossField: [{ type: 'compare', operator: 'gt', field: 'launch', message: 'After launch' }],
+      },
+    });
+
+    expect(result.success ? '' : result.error).toBe('Validation rule references launch, which is not in this template');
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('builder actions — publishing', () => {
+  const dictionary = {
+    id: 'dict-1',
+    version: '1',
+    key: 'tech.summary',
+    currentVersion: 1,
+    currentRevisionId: 'rev-1',
+    label: 'Summary',
+    helpText: null,
+    options: null,
+    validation: null,
+    bindingPath: 'technology.summary',
+    dataSource: 'TECHNOLOGY',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  };
+  const templateWithLabel = (label: string, currentRevisionId: string) =>
+    createMockTemplate({
+      id: 'tpl-1',
+      sections: [
+        {
+          code: 'S1',
+          questions: [
+            createMockQuestion({
+              fieldCode: 'summary',
+              label,
+              dictionaryKey: 'tech.summary',
+              dictionary: { ...dictionary, currentRevisionId } as never,
+            }),
+          ],
+        } as never,
+      ],
+    });
+
+  const publishTransaction = () => ({
+    formTemplate: {
+      findUnique: jest.fn().mockResolvedValue(templateWithLabel('Short summary', 'rev-1')),
+      findUniqueOrThrow: jest.fn().mockResolvedValue(templateWithLabel('Short summary', 'rev-2')),
+      update: jest.fn(),
+    },
+    formTemplateVersion: {
+      findFirst: jest.fn().mockResolvedValue({
+        version: 1,
+        structure: buildTemplateSnapshot(templateWithLabel('Summary', 'rev-1')),
+      }),
+      create: jest.fn(),
+    },
+    questionRevision: {
+      findFirst: jest.fn().mockResolvedValue({ versionNumber: 1 }),
+      create: jest.fn().mockResolvedValue({ id: 'rev-2' }),
+    },
+    questionDictionary: { update: jest.fn() },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'user@example.org', name: 'User' });
+    mockUserPersonaFindMany.mockResolvedValue(templateAdmin);
+  });
+
+  it('snapshots the new dictionary revision of a reworded bound question', async () => {
+    const tx = publishTransaction();
+    mockTransaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(tx));
+
+    const result = await publishTemplate('tpl-1', { reviseFieldCodes: ['summary'] });
+
+    expect(result).toEqual({ success: true, data: { version: 2, created: true, revisedQuestions: 1 } });
+    expect(tx.questionDictionary.update).toHaveBeenCalledWith({
+      where: { id: 'dict-1' },
+      data: { currentVersion: 2, currentRevisionId: 'rev-2' },
+    });
+    const { structure } = tx.formTemplateVersion.create.mock.calls[0][0].data;
+    expect(structure.template.sections[0].questions[0].dictionary.currentRevisionId).toBe('rev-2');
+  });
+
+  it('leaves shared dictionary entries alone unless the publisher confirms the revision', async () => {
+    const tx = publishTransaction();
+    mockTransaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(tx));
+
+    const result = await publishTemplate('tpl-1', { reviseFieldCodes: ['not_in_this_diff'] });
+
+    expect(result).toEqual({ success: true, data: { version: 2, created: true, revisedQuestions: 0 } });
+    expect(tx.questionRevision.create).not.toHaveBeenCalled();
+    expect(tx.questionDictionary.update).not.toHaveBeenCalled();
+    expect(tx.formTemplate.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+});
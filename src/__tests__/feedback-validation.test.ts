@@ -6,7 +6,6 @@ describe('feedbackRequestSchema', () => {
       pageUrl: '/dynamic-form',
       message: 'Great experience overall.',
       contactInfo: 'someone@example.com',
-      userId: 'tester-123',
     });
 
     expect(result.success).toBe(true);
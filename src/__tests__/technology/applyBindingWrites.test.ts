@@ -30,6 +30,8 @@ describe('applyBindingWrites', () => {
   const viabilityStageUpdateMany = jest.fn();
   const viabilityStageCreate = jest.fn();
   const viabilityStageFindUnique = jest.fn();
+  const calculatedMetricFindMany = jest.fn();
+  const auditLogCreateMany = jest.fn();
 
   const mockTx = {
     technology: {
@@ -50,6 +52,12 @@ describe('applyBindingWrites', () => {
       create: viabilityStageCreate,
       findUnique: viabilityStageFindUnique,
     },
+    calculatedMetric: {
+      findMany: calculatedMetricFindMany,
+    },
+    technologyAuditLog: {
+      createMany: auditLogCreateMany,
+    },
   } as unknown as Prisma.TransactionClient;
 
 const baseBindings: Record<string, BindingMetadata> = {
@@ -99,6 +107,8 @@ const baseBindings: Record<string, BindingMetadata> = {
     viabilityStageCreate.mockResolvedValue({ rowVersion: 1 });
     viabilityStageFindUnique.mockResolvedValue({ rowVersion: 2 });
     viabilityStageUpdateMany.mockResolvedValue({ count: 1 });
+    calculatedMetricFindMany.mockResolvedValue([]);
+    auditLogCreateMany.mockImplementation(({ data }) => Promise.resolve({ count: data.length }));
   });
 
   it('updates existing technology and triage stage fields', async () => {
@@ -253,6 +263,37 @@ const baseBindings: Record<string, BindingMetadata> = {
     expect(viabilityStageCreate).not.toHaveBeenCalled();
   });
 
+  it('writes derived score values alongside answered bindings', async () => {
+    technologyFindUnique.mockResolvedValue({
+      id: 'tech-5',
+      techId: 'D25-0005',
+      triageStage: null,
+      viabilityStage: { id: 'viability-2' },
+    });
+
+    await applyBindingWrites(
+      mockTx,
+      baseBindings,
+      { tech_id: 'D25-0005', tech_name: 'Gait Monitor', feasibility: 'Feasible' },
+      {
+        userId: 'tester',
+        derivedValues: {
+          'viabilityStage.technicalScore': 2.456,
+          'viabilityStage.overallViability': 'Proceed',
+        },
+      }
+    );
+
+    expect(viabilityStageUpdate).toHaveBeenCalledWith({
+      where: { id: 'viability-2' },
+      data: expect.objectContaining({
+        technicalFeasibility: 'Feasible',
+        technicalScore: 2.46,
+        overallViability: 'Proceed',
+      }),
+    });
+  });
+
   it('throws when triage stage optimistic locking fails', async () => {
     technologyFindUnique.mockResolvedValue({
       id: 'tech-lock',
@@ -276,4 +317,79 @@ const baseBindings: Record<string, BindingMetadata> = {
       )
     ).rejects.toThrow('Triage stage was modified by another user');
   });
+
+  it('appends an audit row per changed binding path with actor and stage', async () => {
+    const before = {
+      id: 'tech-6',
+      techId: 'D25-0006',
+      technologyName: 'Smart Patch',
+      inventorName: 'Dr. Jane Smith',
+      triageStage: { id: 'triage-6', technologyOverview: 'Old overview', missionAlignmentScore: 2, extendedData: {} },
+      viabilityStage: null,
+    };
+    const after = {
+      ...before,
+      technologyName: 'Smart Patch v2',
+      triageStage: {
+        ...before.triageStage,
+        technologyOverview: 'New overview',
+        extendedData: {
+          'triageStage.technologyOverview-key': { value: 'New overview' },
+          'triageStage.missionAlignmentScore-key': { value: 2 },
+        },
+      },
+    };
+    technologyFindUnique
+      .mockResolvedValueOnce(before)
+      .mockResolvedValueOnce({ ...before, technologyName: 'Smart Patch v2' })
+      .mockResolvedValueOnce(after);
+
+    await applyBindingWrites(
+      mockTx,
+      baseBindings,
+      {
+        tech_id: 'D25-0006',
+        tech_name: 'Smart Patch v2',
+        inventor_name: 'Dr. Jane Smith',
+        overview: 'New overview',
+        mission_score: 2,
+      },
+      { userId: 'user-1', persona: 'tech_manager' }
+    );
+
+    expect(auditLogCreateMany).toHaveBeenCalledTimes(1);
+    const rows = auditLogCreateMany.mock.calls[0][0].data;
+    expect(rows).toEqual([
+      expect.objectContaining({
+        technologyId: 'tech-6',
+        fieldPath: 'technology.technologyName',
+        oldValue: 'Smart Patch',
+        newValue: 'Smart Patch v2',
+        stage: null,
+        persona: 'tech_manager',
+        changedBy: 'user-1',
+      }),
+      expect.objectContaining({
+        fieldPath: 'triageStage.technologyOverview',
+        oldValue: 'Old overview',
+        newValue: 'New overview',
+        stage: 'TRIAGE',
+      }),
+    ]);
+    expect(rows[0].changedAt).toBe(rows[1].changedAt);
+  });
+
+  it('does not write audit rows when nothing changed', async () => {
+    technologyFindUnique.mockResolvedValue({
+      id: 'tech-7',
+      techId: 'D25-0007',
+      technologyName: 'Same Name',
+      triageStage: null,
+      viabilityStage: null,
+    });
+
+    await applyBindingWrites(mockTx, baseBindings, { tech_id: 'D25-0007', tech_name: 'Same Name' }, {});
+
+    expect(auditLogCreateMany).not.toHaveBeenCalled();
+  });
 });
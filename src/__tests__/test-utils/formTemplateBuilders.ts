@@ -73,7 +73,9 @@ export function createMockTemplate(
     name: overrides.name ?? 'Mock Template',
     version: overrides.version ?? '1.0.0',
     description: overrides.description ?? null,
+    purpose: overrides.purpose ?? 'TRIAGE',
     isActive: overrides.isActive ?? true,
+    scoringModel: overrides.scoringModel ?? null,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
     sections,
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSessionUser } from '@/lib/auth/session';
+import { authorizationErrorResponse } from '@/lib/auth/permissions';
+import { readAttachment } from '@/lib/attachments/service';
+
+function contentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|"/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ attachmentId: string }> }) {
+  try {
+    await requireSessionUser();
+    const { attachmentId } = await params;
+
+    const result = await readAttachment(attachmentId);
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const { attachment, data } = result;
+    if (!data) {
+      // Legacy rows only carry a link to wherever the file was kept
+      if (/^https?:\/\//i.test(attachment.fileUrl)) {
+        return NextResponse.redirect(attachment.fileUrl);
+      }
+      return NextResponse.json({ success: false, error: 'Attachment file is not available' }, { status: 404 });
+    }
+
+    return new NextResponse(data as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': contentDisposition(attachment.fileName),
+        'Content-Length': String(data.byteLength),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    const authResponse = authorizationErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    console.error('Attachment download failed', error);
+    return NextResponse.json({ success: false, error: 'Failed to download attachment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * @jest-environment node
+ */
+import type { NextRequest } from 'next/server';
+import { POST } from './route';
+import { prisma } from '@/lib/prisma';
+import { requireSessionUser, AuthenticationError } from '@/lib/auth/session';
+import { getAttachmentStorage } from '@/lib/attachments/storage';
+import { MAX_ATTACHMENT_BYTES } from '@/lib/attachments/policy';
+
+jest.mock('@/lib/auth/session', () => {
+  class AuthenticationError extends Error {}
+  return { AuthenticationError, requireSessionUser: jest.fn() };
+});
+
+jest.mock('@/lib/attachments/storage', () => ({
+  getAttachmentStorage: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    technology: { findUnique: jest.fn() },
+    formSubmission: { findUnique: jest.fn() },
+    formQuestion: { findMany: jest.fn() },
+    questionResponse: { findMany: jest.fn() },
+    attachment: { create: jest.fn() },
+  },
+}));
+
+const mockRequireSessionUser = requireSessionUser as jest.Mock;
+const mockTechnologyFindUnique = prisma.technology.findUnique as jest.Mock;
+const mockSubmissionFindUnique = prisma.formSubmission.findUnique as jest.Mock;
+const mockQuestionFindMany = prisma.formQuestion.findMany as jest.Mock;
+const mockResponseFindMany = prisma.questionResponse.findMany as jest.Mock;
+const mockAttachmentCreate = prisma.attachment.create as jest.Mock;
+
+const storage = {
+  kind: 'local' as const,
+  put: jest.fn(),
+  get: jest.fn(),
+  remove: jest.fn(),
+};
+
+const createUploadRequest = (
+  fields: Record<string, string | File>,
+  headers: Record<string, string> = { 'content-length': '1024' }
+) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  return { formData: jest.fn().mockResolvedValue(formData), headers: new Headers(headers) } as unknown as NextRequest;
+};
+
+const pdf = () => new File(['%PDF-1.7'], 'disclosure.pdf', { type: 'application/pdf' });
+
+describe('POST /api/attachments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAttachmentStorage as jest.Mock).mockReturnValue(storage);
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'a@example.com', name: 'Ana' });
+    storage.put.mockResolvedValue('/srv/storage/attachments/D25-0001/x/disclosure.pdf');
+    mockTechnologyFindUnique.mockResolvedValue({ id: 'tech-1' });
+    mockAttachmentCreate.mockImplementation(({ data }) => Promise.resolve({ id: 'att-1', ...data }));
+  });
+
+  it('returns 401 when signed out', async () => {
+    mockRequireSessionUser.mockRejectedValue(new AuthenticationError('Authentication required'));
+
+    const response = await POST(createUploadRequest({ file: pdf(), techId: 'D25-0001' }));
+
+    expect(response.status).toBe(401);
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('stores the file and records it against the technology', async () => {
+    const response = await POST(
+      createUploadRequest({ file: pdf(), techId: 'D25-0001', category: 'Invention disclosure' })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.success).toBe(true);
+    expect(storage.put).toHaveBeenCalledWith(
+      expect.stringMatching(/^D25-0001\/[0-9a-f-]+\/disclosure\.pdf$/),
+      expect.any(Buffer),
+      'application/pdf'
+    );
+    expect(mockAttachmentCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        technologyId: 'tech-1',
+        submissionId: null,
+        fileName: 'disclosure.pdf',
+        mimeType: 'application/pdf',
+        sizeBytes: 8,
+        category: 'Invention disclosure',
+        uploadedBy: 'user-1',
+      }),
+    });
+  });
+
+  it('files submission uploads under the technology the submission answers', async () => {
+    mockSubmissionFindUnique.mockResolvedValue({ id: 'sub-1' });
+    mockQuestionFindMany.mockResolvedValue([{ fieldCode: 'F0.1' }]);
+    mockResponseFindMany.mockResolvedValue([{ value: 'D25-0001' }]);
+
+    const response = await POST(createUploadRequest({ file: pdf(), submissionId: 'sub-1' }));
+
+    expect(response.status).toBe(201);
+    expect(mockTechnologyFindUnique).toHaveBeenCalledWith({ where: { techId: 'D25-0001' }, select: { id: true } });
+    expect(mockAttachmentCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ technologyId: 'tech-1', submissionId: 'sub-1' }),
+    });
+  });
+
+  it('rejects files outside the type allow list', async () => {
+    const file = new File(['MZ'], 'tool.exe', { type: 'application/x-msdownload' });
+
+    const response = await POST(createUploadRequest({ file, techId: 'D25-0001' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.details).toEqual(['File type application/x-msdownload is not allowed']);
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('refuses an oversized body from its Content-Length without reading it', async () => {
+    const request = createUploadRequest(
+      { file: pdf(), techId: 'D25-0001' },
+      { 'content-length': String(MAX_ATTACHMENT_BYTES * 2) }
+    );
+
+    const response = await POST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.details).toEqual(['File is larger than the 25.0 MB limit']);
+    expect(request.formData).not.toHaveBeenCalled();
+  });
+
+  it('refuses a body without a Content-Length without reading it', async () => {
+    const request = createUploadRequest({ file: pdf(), techId: 'D25-0001' }, { 'transfer-encoding': 'chunked' });
+
+    const response = await POST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(411);
+    expect(body.error).toBe('Content-Length is required');
+    expect(request.formData).not.toHaveBeenCalled();
+  });
+
+  it('checks the file size before buffering the file', async () => {
+    const file = pdf();
+    Object.defineProperty(file, 'size', { value: MAX_ATTACHMENT_BYTES + 1 });
+    const arrayBuffer = jest.spyOn(file, 'arrayBuffer');
+
+    const response = await POST(createUploadRequest({ file, techId: 'D25-0001' }));
+
+    expect(response.status).toBe(413);
+    expect(arrayBuffer).not.toHaveBeenCalled();
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown technology', async () => {
+    mockTechnologyFindUnique.mockResolvedValue(null);
+
+    const response = await POST(createUploadRequest({ file: pdf(), techId: 'D25-9999' }));
+
+    expect(response.status).toBe(404);
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('removes the stored file when the database write fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAttachmentCreate.mockRejectedValue(new Error('db down'));
+    storage.remove.mockResolvedValue(undefined);
+
+    const response = await POST(createUploadRequest({ file: pdf(), techId: 'D25-0001' }));
+
+    expect(response.status).toBe(500);
+    expect(storage.remove).toHaveBeenCalledWith(storage.put.mock.calls[0][0]);
+    consoleError.mockRestore();
+  });
+});
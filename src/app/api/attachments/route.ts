@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSessionUser } from '@/lib/auth/session';
+import { authorizationErrorResponse } from '@/lib/auth/permissions';
+import { AttachmentUploadError, uploadAttachment } from '@/lib/attachments/service';
+import { MAX_ATTACHMENT_BYTES, formatFileSize } from '@/lib/attachments/policy';
+
+// Room for multipart boundaries and the other form fields on top of the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+function fileTooLarge() {
+  return new AttachmentUploadError([`File is larger than the ${formatFileSize(MAX_ATTACHMENT_BYTES)} limit`], 413);
+}
+
+function optionalField(formData: FormData, name: string) {
+  const value = formData.get(name);
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+}
+
+/**
+ * Upload one file as multipart form data: `file`, plus `techId` and/or
+ * `submissionId` and an optional `category`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser();
+
+    // Refuse oversized bodies before buffering them. The server reads no more than
+    // Content-Length, so a chunked body without one could be any size
+    const contentLengthHeader = request.headers.get('content-length');
+    const contentLength = contentLengthHeader === null ? NaN : Number(contentLengthHeader);
+    if (!Number.isFinite(contentLength)) {
+      return NextResponse.json({ success: false, error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (contentLength > MAX_ATTACHMENT_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      throw fileTooLarge();
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ success: false, error: 'Expected multipart form data' }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof Blob)) {
+      return NextResponse.json({ success: false, error: 'A file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw fileTooLarge();
+    }
+
+    const techId = optionalField(formData, 'techId');
+    const submissionId = optionalField(formData, 'submissionId');
+    if (!techId && !submissionId) {
+      return NextResponse.json(
+        { success: false, error: 'techId or submissionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await uploadAttachment(
+      {
+        techId,
+        submissionId,
+        category: optionalField(formData, 'category'),
+        fileName: file instanceof File ? file.name : 'attachment',
+        mimeType: file.type,
+        data: Buffer.from(await file.arrayBuffer()),
+      },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, attachment }, { status: 201 });
+  } catch (error) {
+    const authResponse = authorizationErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    if (error instanceof AttachmentUploadError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.errors },
+        { status: error.status }
+      );
+    }
+    console.error('Attachment upload failed', error);
+    return NextResponse.json({ success: false, error: 'Failed to upload attachment' }, { status: 500 });
+  }
+}
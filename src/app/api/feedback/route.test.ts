@@ -4,6 +4,11 @@
 import type { NextRequest } from 'next/server';
 import { POST } from './route';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser } from '@/lib/auth/session';
+
+jest.mock('@/lib/auth/session', () => ({
+  getSessionUser: jest.fn(),
+}));
 
 jest.mock('@/lib/prisma', () => ({
   prisma: {
@@ -14,6 +19,7 @@ jest.mock('@/lib/prisma', () => ({
 }));
 
 const mockCreate = prisma.feedback.create as jest.Mock;
+const mockGetSessionUser = getSessionUser as jest.Mock;
 
 const createRequest = (
   body: unknown,
@@ -38,9 +44,10 @@ const createRequest = (
 describe('POST /api/feedback', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetSessionUser.mockResolvedValue({ id: 'user-1', email: 'tester@example.org', name: 'Tester' });
   });
 
-  it('persists valid feedback and returns success response', async () => {
+  it('persists valid feedback attributed to the session user', async () => {
     mockCreate.mockResolvedValue({
       id: 'feedback-123',
       pageUrl: '/dynamic-form',
@@ -51,7 +58,7 @@ describe('POST /api/feedback', () => {
         pageUrl: '/dynamic-form',
         message: 'Great form experience!',
         contactInfo: ' dev@example.org ',
-        userId: ' tester ',
+        userId: 'spoofed-user',
       },
       {
         'user-agent': 'Jest',
@@ -72,7 +79,7 @@ describe('POST /api/feedback', () => {
         pageUrl: '/dynamic-form',
         message: 'Great form experience!',
         contactInfo: 'dev@example.org',
-        userId: 'tester',
+        userId: 'user-1',
         userAgent: 'Jest',
       },
     });
@@ -89,10 +96,10 @@ describe('POST /api/feedback', () => {
         pageUrl: '/provided',
         message: 'Solid job!',
         contactInfo: '   ',
-        userId: '   ',
       },
       {}
     );
+    mockGetSessionUser.mockResolvedValue(null);
 
     const response = await POST(request);
     await response.json();
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { feedbackRequestSchema } from '@/lib/validation/feedback';
+import { getSessionUser } from '@/lib/auth/session';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
@@ -40,7 +41,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { pageUrl, message, contactInfo, userId } = parseResult.data;
+    const { pageUrl, message, contactInfo } = parseResult.data;
+    const sessionUser = await getSessionUser();
     const fallbackPageUrl = request.headers.get('referer') ?? 'unknown';
     const userAgent = normalizeOptional(request.headers.get('user-agent'));
 
@@ -49,7 +51,7 @@ export async function POST(request: NextRequest) {
         pageUrl: pageUrl || fallbackPageUrl,
         message,
         contactInfo: normalizeOptional(contactInfo),
-        userId: normalizeOptional(userId),
+        userId: sessionUser?.id,
         userAgent,
       },
     });
@@ -7,6 +7,11 @@ import { POST } from './route';
 import { prisma } from '@/lib/prisma';
 import { renderToBuffer } from '@react-pdf/renderer';
 import { buildPrintableForm } from '@/lib/form-engine/pdf/serialize';
+import { getSessionUser } from '@/lib/auth/session';
+
+jest.mock('@/lib/auth/session', () => ({
+  getSessionUser: jest.fn(),
+}));
 
 jest.mock('@react-pdf/renderer', () => ({
   renderToBuffer: jest.fn(),
@@ -17,9 +22,15 @@ jest.mock('@/lib/prisma', () => ({
     formTemplate: {
       findUnique: jest.fn(),
     },
+    formTemplateVersion: {
+      findFirst: jest.fn(),
+    },
     formSubmission: {
       findUnique: jest.fn(),
     },
+    userPersona: {
+      findMany: jest.fn(),
+    },
   },
 }));
 
@@ -35,6 +46,21 @@ const mockRenderToBuffer = renderToBuffer as jest.MockedFunction<typeof renderTo
 const mockFormTemplateFindUnique = prisma.formTemplate.findUnique as jest.Mock;
 const mockFormSubmissionFindUnique = prisma.formSubmission.findUnique as jest.Mock;
 const mockBuildPrintableForm = buildPrintableForm as jest.MockedFunction<typeof buildPrintableForm>;
+const mockUserPersonaFindMany = prisma.userPersona.findMany as jest.Mock;
+const mockGetSessionUser = getSessionUser as jest.Mock;
+
+const reviewerPersonas = [{ persona: { code: 'reviewer' } }];
+
+const storedSubmission = (submittedBy: string) => ({
+  id: 'sub-77',
+  templateId: 'tpl-1',
+  status: SubmissionStatus.SUBMITTED,
+  submittedAt: new Date('2025-11-01T12:00:00Z'),
+  submittedBy,
+  responses: [],
+  repeatGroups: [],
+  scores: [],
+});
 
 const createJsonRequest = (body: unknown) =>
   ({
@@ -68,6 +94,8 @@ describe('POST /api/form-exports', () => {
     mockRenderToBuffer.mockResolvedValue(pdfBuffer);
     mockFormTemplateFindUnique.mockResolvedValue(template);
     mockBuildPrintableForm.mockReturnValue({ printable: true } as unknown as ReturnType<typeof buildPrintableForm>);
+    mockGetSessionUser.mockResolvedValue({ id: 'user-1', email: 'user@example.org', name: 'User' });
+    mockUserPersonaFindMany.mockResolvedValue([]);
   });
 
   it('returns a PDF using provided templateId and normalized payloads', async () => {
@@ -106,6 +134,7 @@ describe('POST /api/form-exports', () => {
   });
 
   it('hydrates payloads using submissionId when templateId is omitted', async () => {
+    mockUserPersonaFindMany.mockResolvedValue(reviewerPersonas);
     mockFormSubmissionFindUnique.mockResolvedValue({
       id: 'sub-77',
       templateId: 'tpl-1',
@@ -137,6 +166,7 @@ describe('POST /api/form-exports', () => {
         responses: true,
         repeatGroups: true,
         scores: true,
+        recommendationRuleSet: true,
       },
     });
     expect(mockFormTemplateFindUnique).toHaveBeenCalledWith({
@@ -155,6 +185,10 @@ describe('POST /api/form-exports', () => {
           },
           orderBy: { order: 'asc' },
         },
+        recommendationRuleSets: {
+          orderBy: { version: 'desc' },
+          take: 1,
+        },
       },
     });
     expect(mockBuildPrintableForm).toHaveBeenCalledWith({
@@ -168,9 +202,43 @@ describe('POST /api/form-exports', () => {
       submittedBy: 'system',
       techId: 'TECH-77',
       notes: 'Manual override',
+      recommendationRuleSet: null,
     });
   });
 
+  it('returns 401 when no user is signed in', async () => {
+    mockGetSessionUser.mockResolvedValue(null);
+
+    const response = await POST(createJsonRequest({ templateId: 'tpl-1' }));
+
+    expect(response.status).toBe(401);
+    expect(mockRenderToBuffer).not.toHaveBeenCalled();
+  });
+
+  it('rejects exporting another user\'s submission without the export permission', async () => {
+    mockFormSubmissionFindUnique.mockResolvedValue(storedSubmission('someone-else'));
+
+    const response = await POST(createJsonRequest({ submissionId: 'sub-77' }));
+    const payload = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(payload.error).toBe('You do not have permission to export this submission');
+    expect(mockUserPersonaFindMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      select: { persona: { select: { code: true } } },
+    });
+    expect(mockRenderToBuffer).not.toHaveBeenCalled();
+  });
+
+  it('lets authors export their own submission without a persona', async () => {
+    mockFormSubmissionFindUnique.mockResolvedValue(storedSubmission('user-1'));
+
+    const response = await POST(createJsonRequest({ submissionId: 'sub-77' }));
+
+    expect(response.status).toBe(200);
+    expect(mockUserPersonaFindMany).not.toHaveBeenCalled();
+  });
+
   it('returns 404 when submission lookup fails', async () => {
     mockFormSubmissionFindUnique.mockResolvedValue(null);
 
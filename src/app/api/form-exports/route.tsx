@@ -5,14 +5,23 @@ import { prisma } from '@/lib/prisma';
 import { buildPrintableForm } from '@/lib/form-engine/pdf/serialize';
 import { FormPdfDocument } from '@/lib/form-engine/pdf/FormPdfDocument';
 import { FormResponse, RepeatableGroupData } from '@/lib/form-engine/types';
+import { resolvePublishedTemplate } from '@/lib/technology/service';
+import type { RecommendationRuleSetRecord } from '@/lib/scoring/recommendations';
+import { getSessionUser } from '@/lib/auth/session';
+import { PERMISSIONS, hasPermission } from '@/lib/auth/permissions';
+import { listCommentThreads, toPrintableCommentThreads } from '@/lib/submissions/comments';
 
 interface ExportRequestBody {
   templateId?: string;
+  /** Published version the form was rendered from; omitted = latest */
+  templateVersionId?: string;
   submissionId?: string;
   responses?: Record<string, unknown>;
   repeatGroups?: Record<string, unknown>;
   calculatedScores?: Record<string, unknown> | null;
   status?: SubmissionStatus | 'BLANK' | 'IN_PROGRESS';
+  /** Print answer comment threads; only applies to stored submissions */
+  includeComments?: boolean;
   metadata?: {
     techId?: string | null;
     submittedAt?: string | null;
@@ -35,6 +44,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Request body is required' }, { status: 400 });
   }
 
+  const sessionUser = await getSessionUser();
+  if (!sessionUser) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
   let { templateId } = body;
   const {
     submissionId,
@@ -45,10 +59,14 @@ export async function POST(request: NextRequest) {
     metadata,
   } = body;
 
+  // undefined = resolve the latest published version; null = the submission predates versioning
+  let templateVersionId: string | null | undefined = body.templateVersionId;
   let normalizedResponses: FormResponse = normalizeResponses(rawResponses);
   let normalizedRepeatGroups: RepeatableGroupData = normalizeRepeatGroups(rawRepeatGroups);
   let normalizedScores = calculatedScores || null;
   let submissionStatus: SubmissionStatus | 'BLANK' | 'IN_PROGRESS' = status ?? 'IN_PROGRESS';
+  // undefined = use the template's active rule set; null = built-in defaults
+  let recommendationRuleSet: RecommendationRuleSetRecord | null | undefined;
 
   let submissionMetadata: {
     techId?: string | null;
@@ -63,11 +81,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
     }
 
+    // Authors can always export their own submission; other stored submissions need the export permission
+    if (
+      submissionData.submittedBy !== sessionUser.id &&
+      !(await hasPermission(sessionUser.id, PERMISSIONS.SUBMISSION_EXPORT))
+    ) {
+      return NextResponse.json(
+        { error: 'You do not have permission to export this submission' },
+        { status: 403 }
+      );
+    }
+
     templateId ??= submissionData.templateId;
+    templateVersionId = submissionData.templateVersionId;
     normalizedResponses = submissionData.responses;
     normalizedRepeatGroups = submissionData.repeatGroups;
     normalizedScores = normalizedScores ?? submissionData.calculatedScores;
     submissionStatus = status ?? submissionData.status ?? submissionStatus;
+    recommendationRuleSet = submissionData.recommendationRuleSet;
     submissionMetadata = {
       techId: metadata?.techId ?? submissionData.techId ?? null,
       submittedAt: metadata?.submittedAt ?? submissionData.submittedAt ?? null,
@@ -80,7 +111,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'templateId is required' }, { status: 400 });
   }
 
-  const template = await prisma.formTemplate.findUnique({
+  const draftTemplate = await prisma.formTemplate.findUnique({
     where: { id: templateId },
     include: {
       sections: {
@@ -96,28 +127,45 @@ export async function POST(request: NextRequest) {
         },
         orderBy: { order: 'asc' },
       },
+      recommendationRuleSets: {
+        orderBy: { version: 'desc' },
+        take: 1,
+      },
     },
   });
 
-  if (!template) {
+  if (!draftTemplate) {
     return NextResponse.json({ error: 'Form template not found' }, { status: 404 });
   }
 
+  // Print the structure the answers belong to rather than the template's current draft
+  const template =
+    templateVersionId === null
+      ? draftTemplate
+      : (await resolvePublishedTemplate(draftTemplate, templateVersionId)).template;
+
   if (!submissionMetadata.techId) {
     submissionMetadata.techId = extractTechnologyId(normalizedResponses);
   }
 
+  const commentThreads =
+    submissionId && body.includeComments
+      ? toPrintableCommentThreads(await listCommentThreads(submissionId))
+      : undefined;
+
   const printableForm = buildPrintableForm({
     template,
     responses: normalizedResponses,
     repeatGroups: normalizedRepeatGroups,
     calculatedScores: normalizedScores ?? undefined,
+    recommendationRuleSet,
     status: submissionStatus,
     submissionId,
     submittedAt: submissionMetadata.submittedAt ?? null,
     submittedBy: submissionMetadata.submittedBy ?? null,
     techId: submissionMetadata.techId ?? null,
     notes: submissionMetadata.notes ?? null,
+    commentThreads,
   });
 
   const pdfBuffer = await renderToBuffer(<FormPdfDocument data={printableForm} />);
@@ -135,10 +183,12 @@ export async function POST(request: NextRequest) {
 
 type SubmissionData = {
   templateId: string;
+  templateVersionId: string | null;
   responses: FormResponse;
   repeatGroups: RepeatableGroupData;
   calculatedScores: Record<string, number> | null;
   status: SubmissionStatus | null;
+  recommendationRuleSet: RecommendationRuleSetRecord | null;
   submittedAt: string | null;
   submittedBy: string | null;
   techId: string | null;
@@ -152,6 +202,7 @@ async function fetchSubmissionData(submissionId: string): Promise<SubmissionData
         responses: true,
         repeatGroups: true,
         scores: true,
+        recommendationRuleSet: true,
       },
     });
 
@@ -179,10 +230,12 @@ async function fetchSubmissionData(submissionId: string): Promise<SubmissionData
 
     return {
       templateId: submission.templateId,
+      templateVersionId: submission.templateVersionId ?? null,
       responses,
       repeatGroups,
       calculatedScores: Object.keys(calculatedScores).length > 0 ? calculatedScores : null,
       status: submission.status ?? null,
+      recommendationRuleSet: submission.recommendationRuleSet ?? null,
       submittedAt: submission.submittedAt?.toISOString() ?? null,
       submittedBy: submission.submittedBy ?? null,
       techId: extractTechnologyId(responses),
@@ -2,9 +2,27 @@
  * @jest-environment node
  */
 import type { NextRequest } from 'next/server';
-import { SubmissionStatus } from '@prisma/client';
+import { FieldType, SubmissionStatus } from '@prisma/client';
 import { GET, POST, PUT } from './route';
+import { buildQuestion, buildSection } from '@/lib/form-engine/test-utils';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser } from '@/lib/auth/session';
+
+jest.mock('@/lib/auth/session', () => {
+  const actual = jest.requireActual('@/lib/auth/session');
+  const getSessionUser = jest.fn();
+  return {
+    ...actual,
+    getSessionUser,
+    requireSessionUser: async () => {
+      const user = await getSessionUser();
+      if (!user) {
+        throw new actual.AuthenticationError();
+      }
+      return user;
+    },
+  };
+});
 
 jest.mock('@/lib/prisma', () => ({
   prisma: {
@@ -26,6 +44,19 @@ jest.mock('@/lib/prisma', () => ({
       createMany: jest.fn(),
       deleteMany: jest.fn(),
     },
+    submissionRevision: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    formTemplate: {
+      findUnique: jest.fn(),
+    },
+    formTemplateVersion: {
+      findFirst: jest.fn(),
+    },
+    userPersona: {
+      findMany: jest.fn(),
+    },
   },
 }));
 
@@ -39,6 +70,18 @@ const mockRepeatGroupCreateMany = prisma.repeatableGroupResponse.createMany as j
 const mockRepeatGroupDeleteMany = prisma.repeatableGroupResponse.deleteMany as jest.Mock;
 const mockCalculatedScoreCreateMany = prisma.calculatedScore.createMany as jest.Mock;
 const mockCalculatedScoreDeleteMany = prisma.calculatedScore.deleteMany as jest.Mock;
+const mockFormTemplateFindUnique = prisma.formTemplate.findUnique as jest.Mock;
+const mockSubmissionRevisionCreate = prisma.submissionRevision.create as jest.Mock;
+const mockGetSessionUser = getSessionUser as jest.Mock;
+const mockUserPersonaFindMany = prisma.userPersona.findMany as jest.Mock;
+
+const scoredTemplate = (id: string) => ({
+  id,
+  sections: [],
+  scoringModel: {
+    groups: [{ key: 'viability', label: 'Viability', criteria: [{ fieldCode: 'Q2' }] }],
+  },
+});
 
 const createJsonRequest = (body: unknown) =>
   ({
@@ -53,9 +96,25 @@ const createGetRequest = (query = '') =>
 describe('/api/form-submissions — POST', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetSessionUser.mockResolvedValue({ id: 'user-1', email: 'tester@example.org', name: 'Tester' });
   });
 
-  it('creates submissions with responses, repeat groups, and numeric scores', async () => {
+  it('rejects submissions without a signed-in user', async () => {
+    mockGetSessionUser.mockResolvedValue(null);
+
+    const response = await POST(createJsonRequest({ templateId: 'tpl-456', responses: {} }));
+
+    expect(response.status).toBe(401);
+    expect(mockFormSubmissionCreate).not.toHaveBeenCalled();
+  });
+
+  it('creates submissions attributed to the session user with model-derived scores', async () => {
+    mockFormTemplateFindUnique.mockResolvedValue({
+      ...scoredTemplate('tpl-456'),
+      recommendationRuleSets: [
+        { id: 'rules-2', version: 2, name: 'FY26', rules: null },
+      ],
+    });
     mockFormSubmissionCreate.mockResolvedValue({
       id: 'sub-123',
       status: SubmissionStatus.SUBMITTED,
@@ -63,7 +122,7 @@ describe('/api/form-submissions — POST', () => {
 
     const request = createJsonRequest({
       templateId: 'tpl-456',
-      submittedBy: 'tester',
+      submittedBy: 'spoofed-user',
       status: SubmissionStatus.SUBMITTED,
       responses: {
         Q1: 'yes',
@@ -92,7 +151,8 @@ describe('/api/form-submissions — POST', () => {
     expect(mockFormSubmissionCreate).toHaveBeenCalledWith({
       data: expect.objectContaining({
         templateId: 'tpl-456',
-        submittedBy: 'tester',
+        recommendationRuleSetId: 'rules-2',
+        submittedBy: 'user-1',
         status: SubmissionStatus.SUBMITTED,
       }),
     });
@@ -112,17 +172,64 @@ describe('/api/form-submissions — POST', () => {
         },
       ],
     });
+    // Client-supplied scores are ignored in favour of the template scoring model
     expect(mockCalculatedScoreCreateMany).toHaveBeenCalledWith({
       data: [
         {
           submissionId: 'sub-123',
-          scoreType: 'viability',
-          value: 0.92,
+          scoreType: 'viabilityScore',
+          value: 42,
         },
       ],
     });
   });
 
+  it('rejects submitted payloads that break cross-field rules', async () => {
+    mockFormTemplateFindUnique.mockResolvedValue({
+      ...scoredTemplate('tpl-456'),
+      sections: [
+        buildSection({
+          questions: [
+            buildQuestion({ fieldCode: 'start', type: FieldType.DATE }),
+            buildQuestion({
+              fieldCode: 'end',
+              type: FieldType.DATE,
+              validation: {
+                crossField: [{ type: 'compare', operator: 'gt', field: 'start', message: 'End must be after start' }],
+              },
+            }),
+          ],
+        }),
+      ],
+    });
+
+    const response = await POST(
+      createJsonRequest({
+        templateId: 'tpl-456',
+        status: SubmissionStatus.SUBMITTED,
+        responses: { start: '2025-03-01', end: '2025-01-01' },
+      })
+    );
+    const payload = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(payload).toEqual({
+      success: false,
+      error: 'Submission failed validation',
+      fieldErrors: { end: 'End must be after start' },
+    });
+    expect(mockFormSubmissionCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses to create a submission that is already reviewed', async () => {
+    const response = await POST(
+      createJsonRequest({ templateId: 'tpl-456', status: SubmissionStatus.REVIEWED, responses: {} })
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockFormSubmissionCreate).not.toHaveBeenCalled();
+  });
+
   it('returns 400 when schema validation fails', async () => {
     const request = createJsonRequest({ templateId: '' });
 
@@ -154,6 +261,52 @@ describe('/api/form-submissions — POST', () => {
 describe('/api/form-submissions — GET', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetSessionUser.mockResolvedValue({ id: 'tester', email: 'tester@example.org', name: 'Tester' });
+    mockUserPersonaFindMany.mockResolvedValue([]);
+  });
+
+  it('rejects reads without a signed-in user', async () => {
+    mockGetSessionUser.mockResolvedValue(null);
+
+    const response = await GET(createGetRequest('?id=sub-1'));
+
+    expect(response.status).toBe(401);
+    expect(mockFormSubmissionFindUnique).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 for another user's submission", async () => {
+    mockGetSessionUser.mockResolvedValue({ id: 'intruder', email: 'intruder@example.org', name: 'Intruder' });
+    mockFormSubmissionFindUnique.mockResolvedValue({
+      id: 'sub-1',
+      templateId: 'tpl-1',
+      status: SubmissionStatus.DRAFT,
+      submittedBy: 'tester',
+      responses: [],
+      repeatGroups: [],
+      scores: [],
+    });
+
+    const response = await GET(createGetRequest('?id=sub-1'));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("lets reviewers read another user's submission", async () => {
+    mockGetSessionUser.mockResolvedValue({ id: 'reviewer-1', email: 'reviewer@example.org', name: 'Reviewer' });
+    mockUserPersonaFindMany.mockResolvedValue([{ persona: { code: 'reviewer' } }]);
+    mockFormSubmissionFindUnique.mockResolvedValue({
+      id: 'sub-1',
+      templateId: 'tpl-1',
+      status: SubmissionStatus.SUBMITTED,
+      submittedBy: 'tester',
+      responses: [],
+      repeatGroups: [],
+      scores: [],
+    });
+
+    const response = await GET(createGetRequest('?id=sub-1'));
+
+    expect(response.status).toBe(200);
   });
 
   it('returns a single submission with hydrated responses when id is provided', async () => {
@@ -232,6 +385,23 @@ describe('/api/form-submissions — GET', () => {
     expect(payload.submissions).toHaveLength(1);
   });
 
+  it("returns 403 when listing another user's submissions", async () => {
+    const response = await GET(createGetRequest('?submittedBy=someone-else'));
+
+    expect(response.status).toBe(403);
+    expect(mockFormSubmissionFindMany).not.toHaveBeenCalled();
+  });
+
+  it("limits the list to the caller's own submissions", async () => {
+    mockFormSubmissionFindMany.mockResolvedValue([]);
+
+    await GET(createGetRequest('?templateId=tpl-1'));
+
+    expect(mockFormSubmissionFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { templateId: 'tpl-1', submittedBy: 'tester' } })
+    );
+  });
+
   it('returns 500 when query fails', async () => {
     mockFormSubmissionFindMany.mockRejectedValue(new Error('offline'));
 
@@ -246,9 +416,66 @@ describe('/api/form-submissions — GET', () => {
 describe('/api/form-submissions — PUT', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockGetSessionUser.mockResolvedValue({ id: 'user-1', email: 'tester@example.org', name: 'Tester' });
+    mockUserPersonaFindMany.mockResolvedValue([]);
+    mockFormSubmissionFindUnique.mockResolvedValue({ submittedBy: 'user-1', status: SubmissionStatus.DRAFT });
   });
 
+  it("returns 403 when editing another user's submission", async () => {
+    mockFormSubmissionFindUnique.mockResolvedValue({ submittedBy: 'someone-else', status: SubmissionStatus.DRAFT });
+
+    const response = await PUT(
+      createJsonRequest({ templateId: 'tpl-9', submissionId: 'sub-9', responses: { Q1: 'x' }, repeatGroups: {} })
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockFormSubmissionUpdate).not.toHaveBeenCalled();
+    expect(mockQuestionResponseDeleteMany).not.toHaveBeenCalled();
+    expect(mockSubmissionRevisionCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses to rewrite answers once the submission has left draft', async () => {
+    mockFormSubmissionFindUnique.mockResolvedValue({ submittedBy: 'user-1', status: SubmissionStatus.SUBMITTED });
+
+    const response = await PUT(
+      createJsonRequest({ templateId: 'tpl-9', submissionId: 'sub-9', responses: { Q1: 'x' }, repeatGroups: {} })
+    );
+    const payload = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(payload.error).toBe('Only drafts can be edited');
+    expect(mockFormSubmissionUpdate).not.toHaveBeenCalled();
+    expect(mockQuestionResponseDeleteMany).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the submission does not exist', async () => {
+    mockFormSubmissionFindUnique.mockResolvedValue(null);
+
+    const response = await PUT(
+      createJsonRequest({ templateId: 'tpl-9', submissionId: 'missing', responses: {}, repeatGroups: {} })
+    );
+
+    expect(response.status).toBe(404);
+    expect(mockFormSubmissionUpdate).not.toHaveBeenCalled();
+  });
+
+  it.each([SubmissionStatus.REVIEWED, SubmissionStatus.ARCHIVED])(
+    'refuses to move a submission to %s outside the review workflow',
+    async (status) => {
+      mockUserPersonaFindMany.mockResolvedValue([{ persona: { code: 'reviewer' } }]);
+
+      const response = await PUT(
+        createJsonRequest({ templateId: 'tpl-9', submissionId: 'sub-9', status, responses: {}, repeatGroups: {} })
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockFormSubmissionUpdate).not.toHaveBeenCalled();
+      expect(mockSubmissionRevisionCreate).not.toHaveBeenCalled();
+    }
+  );
+
   it('updates submissions and rewrites response collections', async () => {
+    mockFormTemplateFindUnique.mockResolvedValue(scoredTemplate('tpl-9'));
     mockFormSubmissionUpdate.mockResolvedValue({
       id: 'sub-9',
       status: SubmissionStatus.SUBMITTED,
@@ -258,7 +485,7 @@ describe('/api/form-submissions — PUT', () => {
       templateId: 'tpl-9',
       submissionId: 'sub-9',
       status: SubmissionStatus.SUBMITTED,
-      responses: { Q1: 'updated' },
+      responses: { Q1: 'updated', Q2: 3 },
       repeatGroups: { RG: [{ row: 1 }] },
       calculatedScores: { viability: 1 },
     });
@@ -274,11 +501,14 @@ describe('/api/form-submissions — PUT', () => {
     });
     expect(mockFormSubmissionUpdate).toHaveBeenCalledWith({
       where: { id: 'sub-9' },
-      data: expect.objectContaining({ status: SubmissionStatus.SUBMITTED }),
+      data: expect.objectContaining({ status: SubmissionStatus.SUBMITTED, recommendationRuleSetId: null }),
     });
     expect(mockQuestionResponseDeleteMany).toHaveBeenCalledWith({ where: { submissionId: 'sub-9' } });
     expect(mockQuestionResponseCreateMany).toHaveBeenLastCalledWith({
-      data: [{ submissionId: 'sub-9', questionCode: 'Q1', value: 'updated' }],
+      data: [
+        { submissionId: 'sub-9', questionCode: 'Q1', value: 'updated' },
+        { submissionId: 'sub-9', questionCode: 'Q2', value: 3 },
+      ],
     });
     expect(mockRepeatGroupDeleteMany).toHaveBeenCalledWith({ where: { submissionId: 'sub-9' } });
     expect(mockRepeatGroupCreateMany).toHaveBeenLastCalledWith({
@@ -293,7 +523,17 @@ describe('/api/form-submissions — PUT', () => {
     });
     expect(mockCalculatedScoreDeleteMany).toHaveBeenCalledWith({ where: { submissionId: 'sub-9' } });
     expect(mockCalculatedScoreCreateMany).toHaveBeenLastCalledWith({
-      data: [{ submissionId: 'sub-9', scoreType: 'viability', value: 1 }],
+      data: [{ submissionId: 'sub-9', scoreType: 'viabilityScore', value: 3 }],
+    });
+    expect(mockSubmissionRevisionCreate).toHaveBeenCalledWith({
+      data: {
+        submissionId: 'sub-9',
+        revision: 1,
+        status: SubmissionStatus.SUBMITTED,
+        responses: { Q1: 'updated', Q2: 3 },
+        repeatGroups: { RG: [{ row: 1 }] },
+        createdBy: 'user-1',
+      },
     });
   });
 
@@ -2,27 +2,65 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { SubmissionStatus, Prisma } from '@prisma/client';
 import {
+  findSubmissionErrors,
   formSubmissionRequestSchema,
   formSubmissionUpdateSchema,
 } from '@/lib/validation/form-submission';
+import { fetchTemplateWithBindingsById } from '@/lib/technology/service';
+import {
+  calculateTemplateScores,
+  getActiveRecommendationRuleSet,
+  toScoreRecord,
+} from '@/lib/scoring/model';
+import { getSessionUser, requireSessionUser } from '@/lib/auth/session';
+import { recordSubmissionRevision } from '@/lib/submissions/revisions';
+import {
+  PERMISSIONS,
+  PermissionError,
+  authorizationErrorResponse,
+  hasPermission,
+} from '@/lib/auth/permissions';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
-function buildScoreEntries(
-  submissionId: string,
-  calculatedScores: Record<string, Prisma.JsonValue> | undefined
+// Scores are derived from the template's scoring model; client-supplied values are ignored.
+// The published template version and active recommendation rule set are pinned on the submission.
+async function scoreSubmission(
+  templateId: string,
+  templateVersionId: string | null | undefined,
+  responses: Record<string, Prisma.JsonValue>
 ) {
-  if (!calculatedScores) {
-    return [];
+  const { template, templateVersion } = await fetchTemplateWithBindingsById(templateId, templateVersionId);
+  const recommendationRuleSet = getActiveRecommendationRuleSet(template);
+  const scores = toScoreRecord(calculateTemplateScores(template, responses, recommendationRuleSet));
+
+  return {
+    template,
+    templateVersionId: templateVersion?.id ?? null,
+    recommendationRuleSetId: recommendationRuleSet?.id ?? null,
+    buildScoreEntries: (submissionId: string) =>
+      Object.entries(scores)
+        .filter(([, value]) => Number.isFinite(value))
+        .map(([scoreType, value]) => ({
+          submissionId,
+          scoreType,
+          value,
+        })),
+  };
+}
+
+// Authors see their own submissions; reviewers see everyone's
+async function requireSubmissionReader(userId: string, submittedBy: string) {
+  if (submittedBy !== userId && !(await hasPermission(userId, PERMISSIONS.SUBMISSION_REVIEW))) {
+    throw new PermissionError(PERMISSIONS.SUBMISSION_REVIEW);
   }
+}
 
-  return Object.entries(calculatedScores)
-    .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
-    .map(([scoreType, value]) => ({
-      submissionId,
-      scoreType,
-      value: value as number,
-    }));
+function submissionErrorResponse(fieldErrors: Record<string, string>) {
+  return NextResponse.json(
+    { success: false, error: 'Submission failed validation', fieldErrors },
+    { status: 422 }
+  );
 }
 
 export async function POST(request: NextRequest) {
@@ -41,10 +79,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { templateId, submittedBy, status, responses, repeatGroups, calculatedScores } =
-      parseResult.data;
+    const sessionUser = await getSessionUser();
+    if (!sessionUser) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
 
-    const actor = submittedBy ?? 'anonymous';
+    const { templateId, templateVersionId, status, responses, repeatGroups } = parseResult.data;
+
+    // Attribution always comes from the session, never from the payload
+    const actor = sessionUser.id;
     const submissionStatus = status ?? SubmissionStatus.DRAFT;
 
     if (isDev) {
@@ -55,9 +101,20 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    const scoring = await scoreSubmission(templateId, templateVersionId, responses);
+
+    if (submissionStatus === SubmissionStatus.SUBMITTED) {
+      const fieldErrors = findSubmissionErrors(scoring.template, { responses, repeatGroups });
+      if (Object.keys(fieldErrors).length > 0) {
+        return submissionErrorResponse(fieldErrors);
+      }
+    }
+
     const submission = await prisma.formSubmission.create({
       data: {
         templateId,
+        templateVersionId: scoring.templateVersionId,
+        recommendationRuleSetId: scoring.recommendationRuleSetId,
         submittedBy: actor,
         status: submissionStatus,
         submittedAt:
@@ -65,6 +122,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordSubmissionRevision(prisma, {
+      submissionId: submission.id,
+      status: submission.status,
+      responses,
+      repeatGroups,
+      createdBy: actor,
+    });
+
     const responseEntries = Object.entries(responses).map(([questionCode, value]) => ({
       submissionId: submission.id,
       questionCode,
@@ -91,7 +156,7 @@ export async function POST(request: NextRequest) {
       await prisma.repeatableGroupResponse.createMany({ data: repeatGroupEntries });
     }
 
-    const scoreEntries = buildScoreEntries(submission.id, calculatedScores);
+    const scoreEntries = scoring.buildScoreEntries(submission.id);
     if (scoreEntries.length > 0) {
       await prisma.calculatedScore.createMany({ data: scoreEntries });
     }
@@ -118,6 +183,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const sessionUser = await requireSessionUser();
     const { searchParams } = new URL(request.url);
     const submissionId = searchParams.get('id');
     const templateId = searchParams.get('templateId');
@@ -139,6 +205,7 @@ export async function GET(request: NextRequest) {
           { status: 404 }
         );
       }
+      await requireSubmissionReader(sessionUser.id, submission.submittedBy);
 
       const responses: Record<string, Prisma.JsonValue> = {};
       submission.responses.forEach((response) => {
@@ -163,6 +230,7 @@ export async function GET(request: NextRequest) {
         submission: {
           id: submission.id,
           templateId: submission.templateId,
+          templateVersionId: submission.templateVersionId,
           status: submission.status,
           submittedBy: submission.submittedBy,
           createdAt: submission.createdAt,
@@ -177,7 +245,14 @@ export async function GET(request: NextRequest) {
 
     const where: { templateId?: string; submittedBy?: string } = {};
     if (templateId) where.templateId = templateId;
-    if (submittedBy) where.submittedBy = submittedBy;
+    // Without the review permission the list is always the caller's own
+    if (await hasPermission(sessionUser.id, PERMISSIONS.SUBMISSION_REVIEW)) {
+      if (submittedBy) where.submittedBy = submittedBy;
+    } else if (submittedBy && submittedBy !== sessionUser.id) {
+      throw new PermissionError(PERMISSIONS.SUBMISSION_REVIEW);
+    } else {
+      where.submittedBy = sessionUser.id;
+    }
 
     const submissions = await prisma.formSubmission.findMany({
       where,
@@ -196,6 +271,11 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ success: true, submissions });
   } catch (error) {
+    const authResponse = authorizationErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
     const err = error as Error;
     console.error('Error fetching form submissions:', err);
 
@@ -226,23 +306,65 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const { submissionId, status, responses, repeatGroups, calculatedScores } =
+    const { submissionId, templateId, templateVersionId, status, responses, repeatGroups } =
       parseResult.data;
 
+    // Answers are only rewritten by their author, and only while still a draft
+    const sessionUser = await requireSessionUser();
+    const existing = await prisma.formSubmission.findUnique({
+      where: { id: submissionId },
+      select: { submittedBy: true, status: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Submission not found' }, { status: 404 });
+    }
+    if (existing.submittedBy !== sessionUser.id) {
+      return NextResponse.json(
+        { success: false, error: 'Only the author can edit this submission' },
+        { status: 403 }
+      );
+    }
+    if (existing.status !== SubmissionStatus.DRAFT) {
+      return NextResponse.json(
+        { success: false, error: 'Only drafts can be edited' },
+        { status: 409 }
+      );
+    }
+
     if (isDev) {
       console.log('Updating form submission', submissionId);
     }
 
+    const scoring = await scoreSubmission(templateId, templateVersionId, responses);
+
+    if (status === SubmissionStatus.SUBMITTED) {
+      const fieldErrors = findSubmissionErrors(scoring.template, { responses, repeatGroups });
+      if (Object.keys(fieldErrors).length > 0) {
+        return submissionErrorResponse(fieldErrors);
+      }
+    }
+
     const submission = await prisma.formSubmission.update({
       where: { id: submissionId },
       data: {
         status: status ?? undefined,
+        templateVersionId: scoring.templateVersionId,
+        recommendationRuleSetId: scoring.recommendationRuleSetId,
         submittedAt:
           status === SubmissionStatus.SUBMITTED ? new Date() : undefined,
         updatedAt: new Date(),
       },
     });
 
+    // Record the answers this save writes as the next revision; an unchanged save adds none
+    await recordSubmissionRevision(prisma, {
+      submissionId,
+      status: submission.status,
+      responses,
+      repeatGroups,
+      createdBy: sessionUser.id,
+    });
+
     await prisma.questionResponse.deleteMany({ where: { submissionId } });
     await prisma.repeatableGroupResponse.deleteMany({ where: { submissionId } });
     await prisma.calculatedScore.deleteMany({ where: { submissionId } });
@@ -273,7 +395,7 @@ export async function PUT(request: NextRequest) {
       await prisma.repeatableGroupResponse.createMany({ data: repeatGroupEntries });
     }
 
-    const scoreEntries = buildScoreEntries(submissionId, calculatedScores);
+    const scoreEntries = scoring.buildScoreEntries(submissionId);
     if (scoreEntries.length > 0) {
       await prisma.calculatedScore.createMany({ data: scoreEntries });
     }
@@ -284,6 +406,11 @@ export async function PUT(request: NextRequest) {
       status: submission.status,
     });
   } catch (error) {
+    const authResponse = authorizationErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+
     const err = error as Error;
     console.error('Error updating form submission:', err);
 
@@ -2,14 +2,21 @@
  * @jest-environment node
  */
 import { GET } from './route';
-import { loadTemplateWithBindings, TemplateHydrationResult } from '@/lib/technology/service';
+import {
+  ActiveTemplateSummary,
+  listActiveTemplates,
+  loadTemplateWithBindings,
+  TemplateHydrationResult,
+} from '@/lib/technology/service';
 import type { FormTemplateWithSections } from '@/lib/form-engine/types';
 
 jest.mock('@/lib/technology/service', () => ({
   loadTemplateWithBindings: jest.fn(),
+  listActiveTemplates: jest.fn(),
 }));
 
 const mockLoadTemplateWithBindings = loadTemplateWithBindings as jest.MockedFunction<typeof loadTemplateWithBindings>;
+const mockListActiveTemplates = listActiveTemplates as jest.MockedFunction<typeof listActiveTemplates>;
 
 const createRequest = (query = '') =>
   new Request(`https://example.com/api/form-templates${query}`);
@@ -20,6 +27,8 @@ const minimalTemplate: FormTemplateWithSections = {
   version: '1',
   description: null,
   isActive: true,
+  purpose: 'TRIAGE',
+  scoringModel: null,
   createdAt: new Date('2025-11-06T00:00:00Z'),
   updatedAt: new Date('2025-11-06T00:00:00Z'),
   sections: [],
@@ -33,8 +42,14 @@ const baseHydrationResponse: TemplateHydrationResult = {
   answerMetadata: {},
   technologyContext: null,
   rowVersions: {},
+  templateVersion: { id: 'ver-1', version: 1 },
 };
 
+const activeTemplates: ActiveTemplateSummary[] = [
+  { id: 'tpl-123', name: 'Test Template', version: '1', description: null, purpose: 'TRIAGE' },
+  { id: 'tpl-viability', name: 'Viability', version: '1', description: null, purpose: 'VIABILITY' },
+];
+
 describe('GET /api/form-templates', () => {
   let consoleErrorSpy: jest.SpyInstance;
 
@@ -48,6 +63,7 @@ describe('GET /api/form-templates', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockListActiveTemplates.mockResolvedValue(activeTemplates);
   });
 
   it('returns hydrated template data with query params forwarded to the service', async () => {
@@ -56,12 +72,41 @@ describe('GET /api/form-templates', () => {
     const response = await GET(createRequest('?techId=TECH-42'));
     const payload = await response.json();
 
-    expect(mockLoadTemplateWithBindings).toHaveBeenCalledWith({ techId: 'TECH-42' });
+    expect(mockLoadTemplateWithBindings).toHaveBeenCalledWith({
+      techId: 'TECH-42',
+      templateId: undefined,
+      versionId: undefined,
+      purpose: undefined,
+    });
     expect(response.status).toBe(200);
-    const serializedResponse = JSON.parse(JSON.stringify(baseHydrationResponse));
+    const serializedResponse = JSON.parse(JSON.stringify({ ...baseHydrationResponse, activeTemplates }));
     expect(payload).toEqual(serializedResponse);
   });
 
+  it('selects the active template by purpose or stage', async () => {
+    mockLoadTemplateWithBindings.mockResolvedValue(baseHydrationResponse);
+
+    await GET(createRequest('?purpose=viability&techId=TECH-42'));
+    await GET(createRequest('?stage=TRIAGE'));
+
+    expect(mockLoadTemplateWithBindings).toHaveBeenNthCalledWith(1, {
+      techId: 'TECH-42',
+      templateId: undefined,
+      versionId: undefined,
+      purpose: 'VIABILITY',
+    });
+    expect(mockLoadTemplateWithBindings).toHaveBeenNthCalledWith(2, expect.objectContaining({ purpose: 'TRIAGE' }));
+  });
+
+  it('rejects an unknown purpose', async () => {
+    const response = await GET(createRequest('?purpose=marketing'));
+    const payload = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(payload.error).toBe('Unknown form purpose: marketing');
+    expect(mockLoadTemplateWithBindings).not.toHaveBeenCalled();
+  });
+
   it('returns 404 when no active template is available', async () => {
     mockLoadTemplateWithBindings.mockRejectedValue(new Error('No active form template found'));
 
@@ -75,6 +120,42 @@ describe('GET /api/form-templates', () => {
     });
   });
 
+  it('loads a specific template when templateId is given', async () => {
+    mockLoadTemplateWithBindings.mockResolvedValue(baseHydrationResponse);
+
+    await GET(createRequest('?templateId=tpl-viability&techId=TECH-42'));
+
+    expect(mockLoadTemplateWithBindings).toHaveBeenCalledWith({
+      techId: 'TECH-42',
+      templateId: 'tpl-viability',
+      versionId: undefined,
+      purpose: undefined,
+    });
+  });
+
+  it('renders a pinned template version when versionId is given', async () => {
+    mockLoadTemplateWithBindings.mockResolvedValue(baseHydrationResponse);
+
+    await GET(createRequest('?templateId=tpl-123&versionId=ver-1'));
+
+    expect(mockLoadTemplateWithBindings).toHaveBeenCalledWith({
+      techId: undefined,
+      templateId: 'tpl-123',
+      versionId: 'ver-1',
+      purpose: undefined,
+    });
+  });
+
+  it('returns 404 when the requested template does not exist', async () => {
+    mockLoadTemplateWithBindings.mockRejectedValue(new Error('Form template not found for id tpl-missing'));
+
+    const response = await GET(createRequest('?templateId=tpl-missing'));
+    const payload = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(payload.error).toBe('Form template not found');
+  });
+
   it('returns 500 for unexpected errors', async () => {
     mockLoadTemplateWithBindings.mockRejectedValue(new Error('database offline'));
 
@@ -1,10 +1,20 @@
 import { NextResponse } from 'next/server';
-import { loadTemplateWithBindings } from '@/lib/technology/service';
+import { listActiveTemplates, loadTemplateWithBindings } from '@/lib/technology/service';
+import { parseFormPurpose } from '@/lib/technology/constants';
 
 export async function GET(request: Request) {
   try {
     const url = new URL(request.url);
     const techIdParam = url.searchParams.get('techId') || undefined;
+    const templateIdParam = url.searchParams.get('templateId') || undefined;
+    const versionIdParam = url.searchParams.get('versionId') || undefined;
+    // Either a purpose (intake/triage/viability) or the technology stage it assesses
+    const purposeParam = url.searchParams.get('purpose') ?? url.searchParams.get('stage');
+    const purpose = parseFormPurpose(purposeParam);
+
+    if (purposeParam && !purpose) {
+      return NextResponse.json({ error: `Unknown form purpose: ${purposeParam}` }, { status: 400 });
+    }
 
     const {
       template,
@@ -14,8 +24,14 @@ export async function GET(request: Request) {
       answerMetadata,
       technologyContext,
       rowVersions,
-    } =
-      await loadTemplateWithBindings({ techId: techIdParam });
+      templateVersion,
+    } = await loadTemplateWithBindings({
+      techId: techIdParam,
+      templateId: templateIdParam,
+      versionId: versionIdParam,
+      purpose: purpose ?? undefined,
+    });
+    const activeTemplates = await listActiveTemplates();
 
     return NextResponse.json({
       template,
@@ -25,21 +41,25 @@ export async function GET(request: Request) {
       answerMetadata,
       technologyContext,
       rowVersions,
+      templateVersion,
+      activeTemplates,
     });
   } catch (error) {
     const err = error as Error;
     console.error('❌ API: Failed to load form template with bindings:', err);
 
-    const status = err.message.includes('No active form template')
-      ? 404
-      : 500;
+    const notFound = err.message.includes('No active form template')
+      ? 'No active form template found'
+      : err.message.includes('Form template not found')
+        ? 'Form template not found'
+        : err.message.includes('Template version not found')
+          ? 'Template version not found'
+          : null;
+    const status = notFound ? 404 : 500;
 
     return NextResponse.json(
       {
-        error:
-          status === 404
-            ? 'No active form template found'
-            : 'Failed to load form template',
+        error: notFound ?? 'Failed to load form template',
         details: err.message ?? 'Unknown error',
       },
       { status }
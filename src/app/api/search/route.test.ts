@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import type { NextRequest } from 'next/server';
+import { GET } from './route';
+import { requireSessionUser } from '@/lib/auth/session';
+import { searchAll } from '@/lib/search/full-text';
+
+jest.mock('@/lib/auth/session', () => {
+  class AuthenticationError extends Error {}
+  return { AuthenticationError, requireSessionUser: jest.fn() };
+});
+
+jest.mock('@/lib/search/full-text', () => {
+  const actual = jest.requireActual('@/lib/search/full-text');
+  return { ...actual, searchAll: jest.fn() };
+});
+
+const mockRequireSessionUser = requireSessionUser as jest.Mock;
+const mockSearchAll = searchAll as jest.Mock;
+
+const createGetRequest = (query = '') =>
+  ({
+    url: `https://example.com/api/search${query}`,
+  } as NextRequest);
+
+describe('GET /api/search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequireSessionUser.mockResolvedValue({ id: 'user-1', email: 'a@example.com', name: 'Ana' });
+    mockSearchAll.mockResolvedValue([]);
+  });
+
+  it('requires a signed-in user', async () => {
+    const { AuthenticationError } = jest.requireMock('@/lib/auth/session');
+    mockRequireSessionUser.mockRejectedValue(new AuthenticationError('Authentication required'));
+
+    const response = await GET(createGetRequest('?q=glucose'));
+
+    expect(response.status).toBe(401);
+    expect(mockSearchAll).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing query', async () => {
+    const response = await GET(createGetRequest('?q=%20&type=technology'));
+
+    expect(response.status).toBe(400);
+    expect(mockSearchAll).not.toHaveBeenCalled();
+  });
+
+  it('searches with the parsed filters as the signed-in user', async () => {
+    mockSearchAll.mockResolvedValue([{ kind: 'technology', id: 'tech-1' }]);
+
+    const response = await GET(createGetRequest('?q=glucose+sensor&stage=TRIAGE&status=ACTIVE&limit=5'));
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload).toEqual({ success: true, results: [{ kind: 'technology', id: 'tech-1' }] });
+    expect(mockSearchAll).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'glucose sensor', stage: 'TRIAGE', status: 'ACTIVE', limit: 5 }),
+      'user-1'
+    );
+  });
+
+  it('returns 500 when the search fails', async () => {
+    mockSearchAll.mockRejectedValue(new Error('syntax error'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(createGetRequest('?q=glucose'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSessionUser } from '@/lib/auth/session';
+import { authorizationErrorResponse } from '@/lib/auth/permissions';
+import { parseSearchFilters, searchAll } from '@/lib/search/full-text';
+
+/**
+ * Full-text search across technologies and submissions. Query params: `q`
+ * (required, web-search syntax: quoted phrases, `or`, `-word`), and optional
+ * `type` (technology | submission), `stage`, `status`, `from`/`to`
+ * (yyyy-mm-dd, last updated) and `limit`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireSessionUser();
+    const { searchParams } = new URL(request.url);
+    const filters = parseSearchFilters(Object.fromEntries(searchParams.entries()));
+
+    if (!filters.query) {
+      return NextResponse.json({ success: false, error: 'A search query is required' }, { status: 400 });
+    }
+
+    const results = await searchAll(filters, user.id);
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    const authResponse = authorizationErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    console.error('Search failed', error);
+    return NextResponse.json({ success: false, error: 'Search failed' }, { status: 500 });
+  }
+}
@@ -1,17 +1,44 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
-import { SubmissionStatus, Prisma } from '@prisma/client'
+import { ReviewDecision, SubmissionStatus, Prisma } from '@prisma/client'
 import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
 import { FormResponse, RepeatableGroupData, FormTemplateWithSections } from '@/lib/form-engine/types'
-import { formSubmissionPayloadSchema } from '@/lib/validation/form-submission'
+import { findSubmissionErrors, formSubmissionPayloadSchema } from '@/lib/validation/form-submission'
 import { logger } from '@/lib/logger'
-import { applyBindingWrites, fetchTemplateWithBindingsById, BindingMetadata, buildSubmissionAnswerMetadata } from '@/lib/technology/service'
-import { RowVersionSnapshot } from '@/lib/technology/types'
+import {
+  applyBindingWrites,
+  fetchTemplateWithBindingsById,
+  BindingMetadata,
+  buildSubmissionAnswerMetadata,
+  loadBindingConflict,
+} from '@/lib/technology/service'
+import { BindingConflict, RowVersionSnapshot } from '@/lib/technology/types'
 import { OptimisticLockError } from '@/lib/technology/types'
+import {
+  calculateTemplateScores,
+  getActiveRecommendationRuleSet,
+  toScoreBindingValues,
+  toScoreRecord,
+} from '@/lib/scoring/model'
+import { hydrateTemplateSnapshot } from '@/lib/form-engine/template-versions'
+import { requireSessionUser } from '@/lib/auth/session'
+import { PERMISSIONS, getPrimaryPersonaCode, hasPermission, requirePermission } from '@/lib/auth/permissions'
+import { ReviewTransitionError, normalizeQuestionComments, recordReview } from '@/lib/submissions/review'
+import {
+  canAccessSubmissionComments,
+  createSubmissionComment,
+  listCommentThreads,
+  listMentionableUsers,
+  setCommentThreadResolved,
+} from '@/lib/submissions/comments'
+import { recordSubmissionRevision, toRevisionSnapshot } from '@/lib/submissions/revisions'
 
 export interface FormSubmissionData {
   templateId: string
+  /** Published version the form was rendered from */
+  templateVersionId?: string | null
   responses: Record<string, unknown>
   repeatGroups: Record<string, unknown>
   calculatedScores?: Record<string, unknown>
@@ -22,18 +49,19 @@ export interface FormSubmissionResult {
   success: boolean
   submissionId?: string
   error?: string
+  /** Template rule failures by field code, when the server rejects a submission */
+  fieldErrors?: Record<string, string>
   rowVersions?: RowVersionSnapshot
+  /** Set with error 'conflict' when another user changed the bound record first */
+  conflict?: BindingConflict
 }
 
-
-const DEFAULT_SHARED_USER_ID =
-  process.env.TEST_USER_ID || process.env.NEXT_PUBLIC_TEST_USER_ID || 'shared-user'
-
-function resolveUserId(userId?: string) {
-  if (userId && userId.trim().length > 0) {
-    return userId.trim()
-  }
-  return DEFAULT_SHARED_USER_ID
+/**
+ * The signed-in user's id. Client-supplied ids are never trusted for audit fields.
+ */
+async function resolveUserId() {
+  const user = await requireSessionUser()
+  return user.id
 }
 
 /**
@@ -41,13 +69,27 @@ function resolveUserId(userId?: string) {
  */
 export async function submitFormResponse(
   data: FormSubmissionData,
-  userId?: string,
   existingDraftId?: string
 ): Promise<FormSubmissionResult> {
   try {
     const payload = formSubmissionPayloadSchema.parse(data)
-    const resolvedUser = resolveUserId(userId)
-    const { bindingMetadata } = await fetchTemplateWithBindingsById(payload.templateId)
+    const resolvedUser = await resolveUserId()
+    const persona = await getPrimaryPersonaCode(resolvedUser)
+    const { template, templateVersion, bindingMetadata } = await fetchTemplateWithBindingsById(
+      payload.templateId,
+      payload.templateVersionId
+    )
+    // The client validates too, but a crafted request must not skip the template's rules
+    const fieldErrors = findSubmissionErrors(template, payload)
+    if (Object.keys(fieldErrors).length > 0) {
+      return { success: false, error: 'Some answers need attention before submitting', fieldErrors }
+    }
+    // Pin the template version the form was answered against, and the rule set
+    // so the stored recommendation stays reproducible after thresholds change
+    const templateVersionId = templateVersion?.id ?? null
+    const recommendationRuleSetId = getActiveRecommendationRuleSet(template)?.id ?? null
+    // Calculated scores the template's scoring model binds to stage fields
+    const derivedValues = toScoreBindingValues(calculateTemplateScores(template, payload.responses))
     const bindingAwareResponses = mergeRepeatGroupBindings(
       payload.responses,
       payload.repeatGroups,
@@ -58,50 +100,61 @@ export async function submitFormResponse(
 
     // Start a database transaction to ensure data consistency
     const result = await prisma.$transaction(async (tx) => {
-      // Attempt to reuse an existing draft if a draft ID is provided
+      // Reuse the caller's draft when a draft ID is provided
       if (existingDraftId) {
         const draft = await tx.formSubmission.findFirst({
           where: {
             id: existingDraftId,
             status: SubmissionStatus.DRAFT,
+            submittedBy: resolvedUser,
           },
         })
 
-        if (draft) {
-          // Clear out any draft responses before reusing the submission record
-          await tx.questionResponse.deleteMany({
-            where: { submissionId: draft.id },
-          })
+        // Another user's draft is never reused or left behind by a fresh submission
+        if (!draft) {
+          throw new Error('Draft not found or access denied')
+        }
 
-          await tx.repeatableGroupResponse.deleteMany({
-            where: { submissionId: draft.id },
-          })
+        // Clear out any draft responses before reusing the submission record
+        await tx.questionResponse.deleteMany({
+          where: { submissionId: draft.id },
+        })
 
-          await tx.calculatedScore.deleteMany({
-            where: { submissionId: draft.id },
-          })
+        await tx.repeatableGroupResponse.deleteMany({
+          where: { submissionId: draft.id },
+        })
 
-          const submission = await tx.formSubmission.update({
-            where: { id: draft.id },
-            data: {
-              status: SubmissionStatus.SUBMITTED,
-              submittedBy: resolvedUser,
-              submittedAt: new Date(),
-              updatedAt: new Date(),
-            },
-          })
+        await tx.calculatedScore.deleteMany({
+          where: { submissionId: draft.id },
+        })
 
-          await createSubmissionData(tx, submission.id, payload, bindingMetadata)
-          const bindingResult = await applyBindingWrites(tx, bindingMetadata, bindingAwareResponses, {
-            userId: resolvedUser,
-            allowCreateWhenIncomplete: true,
-            expectedVersions: payload.rowVersions,
-          })
+        const submission = await tx.formSubmission.update({
+          where: { id: draft.id },
+          data: {
+            status: SubmissionStatus.SUBMITTED,
+            submittedBy: resolvedUser,
+            submittedAt: new Date(),
+            updatedAt: new Date(),
+            recommendationRuleSetId,
+            templateVersionId,
+          },
+        })
 
-          latestRowVersions = bindingResult.rowVersions ?? latestRowVersions
+        await createSubmissionData(tx, submission.id, payload, template, bindingMetadata, {
+          status: SubmissionStatus.SUBMITTED,
+          createdBy: resolvedUser,
+        })
+        const bindingResult = await applyBindingWrites(tx, bindingMetadata, bindingAwareResponses, {
+          userId: resolvedUser,
+          persona,
+          allowCreateWhenIncomplete: true,
+          expectedVersions: payload.rowVersions,
+          derivedValues,
+        })
 
-          return submission
-        }
+        latestRowVersions = bindingResult.rowVersions ?? latestRowVersions
+
+        return submission
       }
 
       // Create a new submission if no draft was reused
@@ -111,14 +164,21 @@ export async function submitFormResponse(
           submittedBy: resolvedUser,
           status: SubmissionStatus.SUBMITTED,
           submittedAt: new Date(),
+          recommendationRuleSetId,
+          templateVersionId,
         },
       })
 
-      await createSubmissionData(tx, submission.id, payload, bindingMetadata)
+      await createSubmissionData(tx, submission.id, payload, template, bindingMetadata, {
+        status: SubmissionStatus.SUBMITTED,
+        createdBy: resolvedUser,
+      })
       const bindingResult = await applyBindingWrites(tx, bindingMetadata, bindingAwareResponses, {
         userId: resolvedUser,
+        persona,
         allowCreateWhenIncomplete: true,
         expectedVersions: payload.rowVersions,
+        derivedValues,
       })
 
       latestRowVersions = bindingResult.rowVersions ?? latestRowVersions
@@ -140,6 +200,7 @@ export async function submitFormResponse(
       return {
         success: false,
         error: 'conflict',
+        conflict: await describeConflict(data),
       }
     }
     logger.error('Error submitting form', error)
@@ -151,6 +212,25 @@ export async function submitFormResponse(
   }
 }
 
+/**
+ * The values a rejected write collided with, so the client can merge and retry.
+ * Undefined when they cannot be loaded; the client then reloads instead.
+ */
+async function describeConflict(data: FormSubmissionData): Promise<BindingConflict | undefined> {
+  try {
+    const payload = formSubmissionPayloadSchema.parse(data)
+    const { template, bindingMetadata } = await fetchTemplateWithBindingsById(
+      payload.templateId,
+      payload.templateVersionId
+    )
+    const responses = mergeRepeatGroupBindings(payload.responses, payload.repeatGroups, bindingMetadata)
+    return (await loadBindingConflict(template, bindingMetadata, responses)) ?? undefined
+  } catch (error) {
+    logger.error('Error loading conflicting values', error)
+    return undefined
+  }
+}
+
 function mergeRepeatGroupBindings(
   responses: Record<string, unknown>,
   repeatGroups: Record<string, unknown>,
@@ -183,8 +263,19 @@ async function createSubmissionData(
   tx: Prisma.TransactionClient,
   submissionId: string,
   payload: ReturnType<typeof formSubmissionPayloadSchema.parse>,
-  bindingMetadata: Record<string, BindingMetadata>
+  template: FormTemplateWithSections,
+  bindingMetadata: Record<string, BindingMetadata>,
+  revision: { status: SubmissionStatus; createdBy: string }
 ) {
+  // Each save records the answers being written as a revision (skipped when nothing changed)
+  await recordSubmissionRevision(tx, {
+    submissionId,
+    status: revision.status,
+    responses: payload.responses,
+    repeatGroups: payload.repeatGroups,
+    createdBy: revision.createdBy,
+  })
+
   const responseEntries = Object.entries(payload.responses).map(([questionCode, value]) => {
     const revisionId = bindingMetadata[questionCode]?.currentRevisionId ?? undefined
     return {
@@ -219,20 +310,19 @@ async function createSubmissionData(
     })
   }
 
-  if (payload.calculatedScores && typeof payload.calculatedScores === 'object') {
-    const scoreEntries = Object.entries(payload.calculatedScores)
-      .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
-      .map(([scoreType, value]) => ({
-        submissionId,
-        scoreType,
-        value: Number(value),
-      }))
-
-    if (scoreEntries.length > 0) {
-      await tx.calculatedScore.createMany({
-        data: scoreEntries,
-      })
-    }
+  // Scores are recomputed from the template's scoring model rather than trusted from the client
+  const scoreEntries = Object.entries(toScoreRecord(calculateTemplateScores(template, payload.responses)))
+    .filter(([, value]) => Number.isFinite(value))
+    .map(([scoreType, value]) => ({
+      submissionId,
+      scoreType,
+      value,
+    }))
+
+  if (scoreEntries.length > 0) {
+    await tx.calculatedScore.createMany({
+      data: scoreEntries,
+    })
   }
 }
 
@@ -241,14 +331,22 @@ async function createSubmissionData(
  */
 export async function saveDraftResponse(
   data: FormSubmissionData,
-  userId?: string,
   existingDraftId?: string
 ): Promise<FormSubmissionResult> {
   try {
     const payload = formSubmissionPayloadSchema.parse(data)
-    const resolvedUser = resolveUserId(userId)
-    const { bindingMetadata } = await fetchTemplateWithBindingsById(payload.templateId)
-    const trimmedUserId = userId && userId.trim().length > 0 ? userId.trim() : undefined
+    const resolvedUser = await resolveUserId()
+    const persona = await getPrimaryPersonaCode(resolvedUser)
+    const { template, templateVersion, bindingMetadata } = await fetchTemplateWithBindingsById(
+      payload.templateId,
+      payload.templateVersionId
+    )
+    // Pin the template version the form was answered against, and the rule set
+    // so the stored recommendation stays reproducible after thresholds change
+    const templateVersionId = templateVersion?.id ?? null
+    const recommendationRuleSetId = getActiveRecommendationRuleSet(template)?.id ?? null
+    // Calculated scores the template's scoring model binds to stage fields
+    const derivedValues = toScoreBindingValues(calculateTemplateScores(template, payload.responses))
     const bindingAwareResponses = mergeRepeatGroupBindings(
       payload.responses,
       payload.repeatGroups,
@@ -264,6 +362,7 @@ export async function saveDraftResponse(
           where: {
             id: existingDraftId,
             status: SubmissionStatus.DRAFT,
+            submittedBy: resolvedUser,
           },
         })
 
@@ -276,6 +375,8 @@ export async function saveDraftResponse(
           where: { id: existingDraft.id },
           data: {
             updatedAt: new Date(),
+            recommendationRuleSetId,
+            templateVersionId,
           },
         })
 
@@ -292,12 +393,17 @@ export async function saveDraftResponse(
           where: { submissionId: existingDraftId },
         })
 
-        await createSubmissionData(tx, submission.id, payload, bindingMetadata)
+        await createSubmissionData(tx, submission.id, payload, template, bindingMetadata, {
+          status: SubmissionStatus.DRAFT,
+          createdBy: resolvedUser,
+        })
 
         const bindingResult = await applyBindingWrites(tx, bindingMetadata, bindingAwareResponses, {
           userId: resolvedUser,
+          persona,
           allowCreateWhenIncomplete: false,
           expectedVersions: payload.rowVersions,
+          derivedValues,
         })
 
         latestRowVersions = bindingResult.rowVersions ?? latestRowVersions
@@ -318,17 +424,24 @@ export async function saveDraftResponse(
         const submission = await tx.formSubmission.create({
           data: {
             templateId: payload.templateId,
-            submittedBy: trimmedUserId ?? resolvedUser,
+            submittedBy: resolvedUser,
             status: SubmissionStatus.DRAFT,
+            recommendationRuleSetId,
+            templateVersionId,
           },
         })
 
-        await createSubmissionData(tx, submission.id, payload, bindingMetadata)
+        await createSubmissionData(tx, submission.id, payload, template, bindingMetadata, {
+          status: SubmissionStatus.DRAFT,
+          createdBy: resolvedUser,
+        })
 
         const bindingResult = await applyBindingWrites(tx, bindingMetadata, bindingAwareResponses, {
           userId: resolvedUser,
+          persona,
           allowCreateWhenIncomplete: false,
           expectedVersions: payload.rowVersions,
+          derivedValues,
         })
 
         latestRowVersions = bindingResult.rowVersions ?? latestRowVersions
@@ -349,6 +462,7 @@ export async function saveDraftResponse(
       return {
         success: false,
         error: 'conflict',
+        conflict: await describeConflict(data),
       }
     }
     logger.error('Error saving draft', error)
@@ -363,18 +477,25 @@ export async function saveDraftResponse(
 /**
  * Load a draft form response from the database
  */
-export async function loadDraftResponse(draftId: string, userId?: string) {
+export async function loadDraftResponse(draftId: string) {
   try {
-    const resolvedUser = resolveUserId(userId)
+    const resolvedUser = await resolveUserId()
     const submission = await prisma.formSubmission.findFirst({
       where: {
         id: draftId,
         status: SubmissionStatus.DRAFT,
+        submittedBy: resolvedUser,
       },
       include: {
         responses: true,
         repeatGroups: true,
         scores: true,
+        // A draft that was sent back by its reviewer carries their comments
+        reviews: {
+          where: { decision: ReviewDecision.CHANGES_REQUESTED },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
     })
 
@@ -386,7 +507,10 @@ export async function loadDraftResponse(draftId: string, userId?: string) {
       }
     }
 
-    const { template } = await fetchTemplateWithBindingsById(submission.templateId)
+    const { template } = await fetchTemplateWithBindingsById(
+      submission.templateId,
+      submission.templateVersionId
+    )
 
     // Transform the data back to the format expected by the form
     const responses: FormResponse = {}
@@ -423,16 +547,30 @@ export async function loadDraftResponse(draftId: string, userId?: string) {
       { answeredAt: submission.updatedAt }
     )
 
+    const changeRequest = submission.reviews[0]
+    const reviewer = changeRequest
+      ? await prisma.user.findUnique({ where: { id: changeRequest.actorId }, select: { name: true, email: true } })
+      : null
+
     logger.info({ draftId, requestedBy: resolvedUser }, 'Draft loaded successfully')
 
     return {
       success: true,
       data: {
         templateId: submission.templateId,
+        templateVersionId: submission.templateVersionId,
         responses,
         repeatGroups,
         calculatedScores,
         answerMetadata,
+        reviewFeedback: changeRequest
+          ? {
+              summary: changeRequest.summary,
+              questionComments: normalizeQuestionComments(changeRequest.questionComments),
+              requestedAt: changeRequest.createdAt,
+              reviewerLabel: reviewer ? (reviewer.name ?? reviewer.email) : changeRequest.actorId,
+            }
+          : null,
       },
       submissionId: submission.id,
     }
@@ -449,9 +587,9 @@ export async function loadDraftResponse(draftId: string, userId?: string) {
 /**
  * Delete a draft form response
  */
-export async function deleteDraftResponse(draftId: string, userId?: string) {
+export async function deleteDraftResponse(draftId: string) {
   try {
-    const resolvedUser = resolveUserId(userId)
+    const resolvedUser = await resolveUserId()
     const submission = await prisma.formSubmission.findFirst({
       where: {
         id: draftId,
@@ -467,6 +605,18 @@ export async function deleteDraftResponse(draftId: string, userId?: string) {
       }
     }
 
+    // Authors can discard their own drafts; anyone else needs the delete permission
+    if (
+      submission.submittedBy !== resolvedUser &&
+      !(await hasPermission(resolvedUser, PERMISSIONS.SUBMISSION_DELETE))
+    ) {
+      logger.warn({ draftId, requestedBy: resolvedUser }, 'Draft delete rejected: missing permission')
+      return {
+        success: false,
+        error: 'You do not have permission to delete this draft',
+      }
+    }
+
     // Delete the submission (cascade will handle related records)
     await prisma.formSubmission.delete({
       where: { id: draftId },
@@ -489,22 +639,15 @@ export async function deleteDraftResponse(draftId: string, userId?: string) {
 }
 
 /**
- * Get all drafts for a user
+ * Get the signed-in user's drafts; drafts are only ever opened by their author
  */
-type ListScope = 'all' | 'user'
-
-export async function getUserDrafts(userId?: string, scope: ListScope = 'all') {
+export async function getUserDrafts() {
   try {
-    const where: Prisma.FormSubmissionWhereInput = {
-      status: SubmissionStatus.DRAFT,
-    }
-
-    if (scope === 'user' && userId && userId.trim().length > 0) {
-      where.submittedBy = userId.trim()
-    }
-
     const drafts = await prisma.formSubmission.findMany({
-      where,
+      where: {
+        status: SubmissionStatus.DRAFT,
+        submittedBy: await resolveUserId(),
+      },
       include: {
         template: {
           select: {
@@ -582,10 +725,12 @@ export async function getUserDrafts(userId?: string, scope: ListScope = 'all') {
   }
 }
 
+type ListScope = 'all' | 'user'
+
 /**
  * Get all non-draft submissions for a user
  */
-export async function getUserSubmissions(userId?: string, scope: ListScope = 'all') {
+export async function getUserSubmissions(scope: ListScope = 'all') {
   try {
     const where: Prisma.FormSubmissionWhereInput = {
       status: {
@@ -593,8 +738,8 @@ export async function getUserSubmissions(userId?: string, scope: ListScope = 'al
       },
     }
 
-    if (scope === 'user' && userId && userId.trim().length > 0) {
-      where.submittedBy = userId.trim()
+    if (scope === 'user') {
+      where.submittedBy = await resolveUserId()
     }
 
     const submissions = await prisma.formSubmission.findMany({
@@ -703,6 +848,10 @@ export async function getSubmissionDetail(submissionId: string) {
         responses: true,
         repeatGroups: true,
         scores: true,
+        recommendationRuleSet: true,
+        templateVersion: true,
+        reviews: { orderBy: { createdAt: 'asc' } },
+        revisions: { orderBy: { revision: 'asc' } },
       },
     })
 
@@ -731,19 +880,67 @@ export async function getSubmissionDetail(submissionId: string) {
       return acc
     }, {})
 
+    const actorIds = Array.from(
+      new Set(
+        [
+          submission.submittedBy,
+          submission.reviewerId,
+          submission.reviewedBy,
+          ...submission.reviews.flatMap((review) => [review.actorId, review.assigneeId]),
+          ...submission.revisions.map((revision) => revision.createdBy),
+        ].filter((id): id is string => Boolean(id))
+      )
+    )
+    const users = await prisma.user.findMany({
+      where: { id: { in: actorIds } },
+      select: { id: true, name: true, email: true },
+    })
+    const labels = new Map(users.map((user) => [user.id, user.name ?? user.email]))
+    const labelFor = (id: string | null) => (id ? labels.get(id) ?? id : null)
+
     return {
       success: true,
       data: {
-        template: submission.template as FormTemplateWithSections,
+        // Render the structure the submission was answered against, not today's draft
+        template: submission.templateVersion
+          ? hydrateTemplateSnapshot(submission.templateVersion.structure)
+          : (submission.template as FormTemplateWithSections),
+        templateVersionNumber: submission.templateVersion?.version ?? null,
         submissionId: submission.id,
         status: submission.status,
         submittedAt: submission.submittedAt,
         submittedBy: submission.submittedBy,
+        submittedByLabel: labelFor(submission.submittedBy),
+        reviewerId: submission.reviewerId,
+        reviewerLabel: labelFor(submission.reviewerId),
+        reviewedAt: submission.reviewedAt,
+        reviewedByLabel: labelFor(submission.reviewedBy),
+        reviews: submission.reviews.map((review) => ({
+          id: review.id,
+          decision: review.decision,
+          fromStatus: review.fromStatus,
+          toStatus: review.toStatus,
+          summary: review.summary,
+          questionComments: normalizeQuestionComments(review.questionComments),
+          actorLabel: labelFor(review.actorId),
+          assigneeLabel: labelFor(review.assigneeId),
+          createdAt: review.createdAt,
+        })),
+        revisions: submission.revisions.map((revision) => ({
+          id: revision.id,
+          revision: revision.revision,
+          status: revision.status,
+          createdAt: revision.createdAt,
+          createdByLabel: labelFor(revision.createdBy),
+          snapshot: toRevisionSnapshot(revision),
+        })),
         createdAt: submission.createdAt,
         updatedAt: submission.updatedAt,
         responses,
         repeatGroups,
         calculatedScores,
+        // Pinned at save time; null means the built-in default rules
+        recommendationRuleSet: submission.recommendationRuleSet,
       },
     }
   } catch (error) {
@@ -755,3 +952,190 @@ export async function getSubmissionDetail(submissionId: string) {
     }
   }
 }
+
+const reviewSchema = z.object({
+  submissionId: z.string().min(1),
+  decision: z.enum([ReviewDecision.CHANGES_REQUESTED, ReviewDecision.APPROVED]),
+  summary: z.string().trim().max(4000).optional(),
+  questionComments: z.record(z.string(), z.string().max(4000)).optional(),
+})
+
+export interface ReviewActionResult {
+  success: boolean
+  error?: string
+  /** Why the review step was refused */
+  blockers?: string[]
+}
+
+function reviewFailure(error: unknown, message: string): ReviewActionResult {
+  if (error instanceof ReviewTransitionError) {
+    return { success: false, error: 'Review not allowed', blockers: error.blockers }
+  }
+  logger.error(message, error)
+
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error occurred',
+  }
+}
+
+function revalidateReviewPaths(submissionId: string) {
+  revalidatePath(`/dynamic-form/submissions/${submissionId}`)
+  revalidatePath('/dynamic-form/submissions')
+  revalidatePath('/dynamic-form/drafts')
+}
+
+/**
+ * Assign a reviewer to a submitted form. The assignee must be able to review too.
+ */
+export async function assignSubmissionReviewer(
+  submissionId: string,
+  reviewerId: string
+): Promise<ReviewActionResult> {
+  try {
+    const user = await requirePermission(PERMISSIONS.SUBMISSION_REVIEW)
+    if (!(await hasPermission(reviewerId, PERMISSIONS.SUBMISSION_REVIEW))) {
+      return { success: false, error: 'That user cannot review submissions' }
+    }
+
+    await recordReview({ submissionId, decision: ReviewDecision.ASSIGNED, assigneeId: reviewerId }, user.id)
+
+    revalidateReviewPaths(submissionId)
+    logger.info({ submissionId, reviewerId, assignedBy: user.id }, 'Submission reviewer assigned')
+
+    return { success: true }
+  } catch (error) {
+    return reviewFailure(error, 'Error assigning reviewer')
+  }
+}
+
+/**
+ * Approve a submission (REVIEWED) or send it back to its author as a draft with comments.
+ * Only the assigned reviewer may do either.
+ */
+export async function reviewSubmission(input: {
+  submissionId: string
+  decision: 'CHANGES_REQUESTED' | 'APPROVED'
+  summary?: string
+  questionComments?: Record<string, string>
+}): Promise<ReviewActionResult> {
+  try {
+    const parsed = reviewSchema.parse(input)
+    const user = await requirePermission(PERMISSIONS.SUBMISSION_REVIEW)
+
+    await recordReview(parsed, user.id)
+
+    revalidateReviewPaths(parsed.submissionId)
+    logger.info({ submissionId: parsed.submissionId, decision: parsed.decision, reviewedBy: user.id }, 'Submission reviewed')
+
+    return { success: true }
+  } catch (error) {
+    return reviewFailure(error, 'Error reviewing submission')
+  }
+}
+
+const commentSchema = z.object({
+  submissionId: z.string().min(1),
+  questionCode: z.string().min(1),
+  rowIndex: z.number().int().min(0).nullable().optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(4000),
+})
+
+/**
+ * The signed-in user and the submission, when they may discuss it (author or reviewer).
+ */
+async function loadCommentableSubmission(submissionId: string) {
+  const user = await requireSessionUser()
+  const submission = await prisma.formSubmission.findUnique({
+    where: { id: submissionId },
+    select: { id: true, submittedBy: true },
+  })
+
+  if (!submission || !(await canAccessSubmissionComments(user.id, submission))) {
+    throw new Error('Submission not found or access denied')
+  }
+
+  return { user, submission }
+}
+
+/**
+ * Comment threads on a submission's answers, plus who can be @-mentioned.
+ */
+export async function getSubmissionComments(submissionId: string) {
+  try {
+    const { user, submission } = await loadCommentableSubmission(submissionId)
+    const [threads, mentionable] = await Promise.all([
+      listCommentThreads(submission.id),
+      listMentionableUsers(submission),
+    ])
+
+    return {
+      success: true,
+      data: { threads, mentionable, currentUserId: user.id },
+    }
+  } catch (error) {
+    logger.error('Error loading comments', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Start a comment thread on an answer (or one repeat-group row), or reply to a thread.
+ */
+export async function addSubmissionComment(input: {
+  submissionId: string
+  questionCode: string
+  rowIndex?: number | null
+  parentId?: string | null
+  body: string
+}) {
+  try {
+    const parsed = commentSchema.parse(input)
+    const { user, submission } = await loadCommentableSubmission(parsed.submissionId)
+    const mentionable = await listMentionableUsers(submission)
+
+    const comment = await createSubmissionComment(parsed, user.id, mentionable)
+
+    revalidatePath(`/dynamic-form/submissions/${submission.id}`)
+    logger.info({ submissionId: submission.id, commentId: comment.id, mentions: comment.mentions }, 'Comment added')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0]?.message ?? 'Invalid comment' }
+    }
+    logger.error('Error adding comment', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Resolve or reopen a comment thread.
+ */
+export async function setSubmissionCommentResolved(submissionId: string, threadId: string, resolved: boolean) {
+  try {
+    const { user, submission } = await loadCommentableSubmission(submissionId)
+
+    await setCommentThreadResolved(submission.id, threadId, resolved, user.id)
+
+    revalidatePath(`/dynamic-form/submissions/${submission.id}`)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Error updating comment thread', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
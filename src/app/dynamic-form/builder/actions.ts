@@ -3,8 +3,30 @@
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { prisma } from '@/lib/prisma'
-import { Prisma, FieldType } from '@prisma/client'
+import { Prisma, FieldType, FormPurpose } from '@prisma/client'
 import { z } from 'zod'
+import { parseScoringModelInput } from '@/lib/scoring/model'
+import { recommendationRulesSchema } from '@/lib/scoring/recommendations'
+import { PERMISSIONS, requirePermission } from '@/lib/auth/permissions'
+import { TEMPLATE_WITH_BINDINGS_INCLUDE } from '@/lib/technology/service'
+import {
+  buildTemplateSnapshot,
+  hasStructuralChanges,
+  hydrateTemplateSnapshot,
+} from '@/lib/form-engine/template-versions'
+import { TemplateDiff, diffTemplates } from '@/lib/form-engine/template-diff'
+import type { ConditionalConfig, FormTemplateWithSections, ValidationConfig } from '@/lib/form-engine/types'
+import { isJsonRecord, parseConditionalConfigValue } from '@/lib/form-engine/json-utils'
+import { parseValidationConfig } from '@/lib/form-engine/validation'
+import { listConditionalFields, validateConditionalConfig } from '@/lib/form-builder/conditional-rules'
+import { validateValidationConfig } from '@/lib/form-builder/validation-rules'
+import {
+  TemplateImportPreview,
+  TemplatePackage,
+  buildTemplatePackage,
+  parseTemplatePackage,
+  planTemplateImport,
+} from '@/lib/form-engine/template-package'
 
 const MAX_REPEATABLE_COLUMNS = 8
 const MAX_REPEATABLE_ROWS = 25
@@ -50,6 +72,7 @@ const DEFAULT_DATA_TABLE_SELECTOR_CONFIG: Prisma.InputJsonValue = {
 const createTemplateSchema = z.object({
   name: z.string().min(1),
   description: z.string().max(1000).optional(),
+  purpose: z.enum(FormPurpose).default(FormPurpose.TRIAGE),
 })
 
 const idSchema = z.string().min(1)
@@ -163,12 +186,18 @@ const fieldUpdateSchema = z.object({
   isRequired: z.boolean().default(false),
   options: z.array(fieldOptionInputSchema).max(MAX_DROPDOWN_OPTIONS, `Limit options to ${MAX_DROPDOWN_OPTIONS}`).optional(),
   repeatableConfig: repeatableConfigSchema.optional(),
+  // null clears the field's conditional logic
+  conditional: z
+    .custom<ConditionalConfig | null>((value) => value === null || isJsonRecord(value), 'Invalid conditional logic')
+    .optional(),
+  validation: z.custom<ValidationConfig>((value) => isJsonRecord(value), 'Invalid validation rules').optional(),
 })
 
 const templateMetadataSchema = z.object({
   name: z.string().min(1, 'Template name is required'),
   version: z.string().min(1, 'Version is required'),
   description: z.string().max(2000).optional(),
+  purpose: z.enum(FormPurpose),
 })
 
 type ActionResult<T = void> =
@@ -176,6 +205,7 @@ type ActionResult<T = void> =
   | { success: false; error: string }
 
 export async function getTemplates() {
+  await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
   return prisma.formTemplate.findMany({
     include: {
       _count: {
@@ -192,7 +222,8 @@ export async function getTemplates() {
 export type TemplateListItem = Awaited<ReturnType<typeof getTemplates>>[number]
 
 export async function getTemplateDetail(templateId: string) {
-  return prisma.formTemplate.findUnique({
+  await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+  const template = await prisma.formTemplate.findUnique({
     where: { id: templateId },
     include: {
       sections: {
@@ -210,8 +241,35 @@ export async function getTemplateDetail(templateId: string) {
           },
         },
       },
+      recommendationRuleSets: {
+        orderBy: { version: 'desc' },
+      },
+      versions: {
+        orderBy: { version: 'desc' },
+        select: { id: true, version: true, versionLabel: true, publishedBy: true, publishedAt: true },
+      },
     },
   })
+
+  if (!template) {
+    return null
+  }
+
+  const latest = template.versions[0]
+    ? await prisma.formTemplateVersion.findUnique({
+        where: { id: template.versions[0].id },
+        select: { structure: true },
+      })
+    : null
+
+  return {
+    ...template,
+    // The builder edits the draft; the form keeps rendering the latest published version
+    hasUnpublishedChanges: hasStructuralChanges(
+      template,
+      latest ? hydrateTemplateSnapshot(latest.structure) : null
+    ),
+  }
 }
 
 export type TemplateDetail = NonNullable<Awaited<ReturnType<typeof getTemplateDetail>>>
@@ -224,6 +282,7 @@ async function invalidateTemplate(templateId: string) {
 
 export async function createSection(templateId: string, input: SectionInput): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(templateId)
     const parsedInput = sectionContentSchema.parse(input)
 
@@ -255,6 +314,7 @@ export async function createSection(templateId: string, input: SectionInput): Pr
 
 export async function updateSection(sectionId: string, input: SectionInput): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(sectionId)
     const parsedInput = sectionContentSchema.parse(input)
 
@@ -280,6 +340,7 @@ export async function updateSection(sectionId: string, input: SectionInput): Pro
 
 export async function deleteSection(sectionId: string): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(sectionId)
     const deleted = await prisma.formSection.delete({ where: { id: parsedId } })
     await invalidateTemplate(deleted.templateId)
@@ -295,6 +356,7 @@ export async function deleteSection(sectionId: string): Promise<ActionResult> {
 
 export async function reorderSections(templateId: string, orderedIds: string[]): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(templateId)
     if (orderedIds.length === 0) {
       return { success: true }
@@ -321,6 +383,7 @@ export async function reorderSections(templateId: string, orderedIds: string[]):
 
 export async function moveSection(sectionId: string, direction: 'up' | 'down'): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(sectionId)
     const section = await prisma.formSection.findUnique({
       where: { id: parsedId },
@@ -381,6 +444,7 @@ export type FieldUpdateInput = z.infer<typeof fieldUpdateSchema>
 export type TemplateMetadataInput = z.infer<typeof templateMetadataSchema>
 export async function createField(sectionId: string, input: FieldInput): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedSectionId = idSchema.parse(sectionId)
 
     const section = await prisma.formSection.findUnique({
@@ -463,6 +527,7 @@ export async function createField(sectionId: string, input: FieldInput): Promise
 
 export async function updateField(fieldId: string, input: FieldUpdateInput): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(fieldId)
     const parsedInput = fieldUpdateSchema.parse(input)
 
@@ -470,8 +535,10 @@ export async function updateField(fieldId: string, input: FieldUpdateInput): Pro
       where: { id: parsedId },
       select: {
         id: true,
+        fieldCode: true,
         type: true,
         repeatableConfig: true,
+        validation: true,
         section: {
           select: {
             templateId: true,
@@ -484,6 +551,63 @@ export async function updateField(fieldId: string, input: FieldUpdateInput): Pro
       return { success: false, error: 'Field not found' }
     }
 
+    const templateFields =
+      parsedInput.conditional !== undefined || parsedInput.validation !== undefined
+        ? listConditionalFields(
+            await prisma.formSection.findMany({
+              where: { templateId: question.section.templateId },
+              select: {
+                order: true,
+                questions: {
+                  select: { fieldCode: true, label: true, type: true, order: true, conditional: true },
+                },
+              },
+            })
+          )
+        : []
+
+    let conditional: ConditionalConfig | null | undefined
+    if (parsedInput.conditional !== undefined) {
+      conditional = parseConditionalConfigValue(parsedInput.conditional)
+      if (parsedInput.conditional !== null && !conditional) {
+        return { success: false, error: 'Conditional logic has no valid rules' }
+      }
+
+      const problems = validateConditionalConfig(question.fieldCode, conditional, templateFields)
+      if (problems.length > 0) {
+        return { success: false, error: problems.join('; ') }
+      }
+    }
+
+    let validation: Prisma.InputJsonValue | typeof Prisma.JsonNull | undefined
+    if (parsedInput.validation !== undefined) {
+      const config = parseValidationConfig(parsedInput.validation)
+      const submittedRules = Array.isArray(parsedInput.validation.crossField) ? parsedInput.validation.crossField.length : 0
+      if (!config || (config.crossField?.length ?? 0) !== submittedRules) {
+        return { success: false, error: 'Validation rules are invalid' }
+      }
+
+      const problems = validateValidationConfig(question.fieldCode, question.type, config, templateFields)
+      if (problems.length > 0) {
+        return { success: false, error: problems.join('; ') }
+      }
+
+      // The same JSON carries info-box metadata, so merge rather than replace
+      const stored = isJsonRecord(question.validation) ? { ...question.validation } : {}
+      delete stored.crossField
+      delete stored.format
+      const merged = {
+        ...stored,
+        rules: config.rules,
+        ...(config.crossField ? { crossField: config.crossField } : {}),
+        ...(config.format ? { format: config.format } : {}),
+      }
+      validation =
+        Object.keys(merged).length === 1 && config.rules.length === 0
+          ? Prisma.JsonNull
+          : (merged as unknown as Prisma.InputJsonValue)
+    }
+
     const selectionTypes = new Set<FieldType>([
       FieldType.SINGLE_SELECT,
       FieldType.CHECKBOX_GROUP,
@@ -498,6 +622,14 @@ export async function updateField(fieldId: string, input: FieldUpdateInput): Pro
         isRequired: parsedInput.isRequired ?? false,
       }
 
+      if (conditional !== undefined) {
+        updateData.conditional = conditional ? (conditional as unknown as Prisma.InputJsonValue) : Prisma.JsonNull
+      }
+
+      if (validation !== undefined) {
+        updateData.validation = validation
+      }
+
       if (question.type === FieldType.REPEATABLE_GROUP || question.type === FieldType.DATA_TABLE_SELECTOR) {
         const existingConfig = question.repeatableConfig as Prisma.InputJsonValue | null
         const fallbackConfig =
@@ -545,6 +677,7 @@ export async function updateField(fieldId: string, input: FieldUpdateInput): Pro
 
 export async function deleteField(fieldId: string): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(fieldId)
 
     const deleted = await prisma.formQuestion.delete({
@@ -571,6 +704,7 @@ export async function deleteField(fieldId: string): Promise<ActionResult> {
 
 export async function moveField(fieldId: string, direction: 'up' | 'down'): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(fieldId)
 
     const field = await prisma.formQuestion.findUnique({
@@ -630,6 +764,7 @@ export async function moveField(fieldId: string, direction: 'up' | 'down'): Prom
 
 export async function duplicateField(fieldId: string): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(fieldId)
 
     const question = await prisma.formQuestion.findUnique({
@@ -731,6 +866,7 @@ export async function duplicateField(fieldId: string): Promise<ActionResult> {
 
 export async function saveTemplateAsDraft(templateId: string): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(templateId)
 
     await prisma.formTemplate.update({
@@ -752,44 +888,200 @@ export async function saveTemplateAsDraft(templateId: string): Promise<ActionRes
   }
 }
 
-export async function publishTemplate(templateId: string): Promise<ActionResult> {
+/**
+ * Cut a new dictionary revision for bound fields whose wording, options or
+ * validation changed, so answers saved against the old wording read as STALE.
+ */
+async function reviseChangedQuestions(
+  tx: Prisma.TransactionClient,
+  template: FormTemplateWithSections,
+  fieldCodes: string[],
+  userId: string,
+  changeReason: string
+) {
+  const questions = template.sections
+    .flatMap((section) => section.questions)
+    .filter((question) => question.dictionary && fieldCodes.includes(question.fieldCode))
+  const revisedKeys = new Set<string>()
+
+  for (const question of questions) {
+    const dictionary = question.dictionary!
+    if (revisedKeys.has(dictionary.key)) continue
+    revisedKeys.add(dictionary.key)
+
+    const latestRevision = await tx.questionRevision.findFirst({
+      where: { questionKey: dictionary.key },
+      orderBy: { versionNumber: 'desc' },
+      select: { versionNumber: true },
+    })
+    const versionNumber = Math.max(latestRevision?.versionNumber ?? 0, dictionary.currentVersion) + 1
+    const revision = await tx.questionRevision.create({
+      data: {
+        dictionaryId: dictionary.id,
+        questionKey: dictionary.key,
+        versionNumber,
+        label: question.label,
+        helpText: question.helpText,
+        options: question.options.map(({ value, label }) => ({ value, label })),
+        validation: question.validation ?? undefined,
+        createdBy: userId,
+        changeReason,
+        significantChange: true,
+      },
+    })
+    await tx.questionDictionary.update({
+      where: { id: dictionary.id },
+      data: { currentVersion: versionNumber, currentRevisionId: revision.id },
+    })
+  }
+
+  return revisedKeys.size
+}
+
+/**
+ * Compare the draft (or `toVersionId`) with a published version, the latest one
+ * unless `fromVersionId` is given.
+ */
+export async function getTemplateDiff(
+  templateId: string,
+  options: { fromVersionId?: string; toVersionId?: string } = {}
+): Promise<ActionResult<{ fromVersion: number | null; toVersion: number | null; diff: TemplateDiff }>> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(templateId)
 
-    const template = await prisma.formTemplate.findUnique({
-      where: { id: parsedId },
-      include: {
-        sections: {
-          include: {
-            questions: true,
-          },
-        },
-      },
-    })
+    const findVersion = (versionId?: string) =>
+      versionId
+        ? prisma.formTemplateVersion.findFirst({ where: { id: versionId, templateId: parsedId } })
+        : prisma.formTemplateVersion.findFirst({ where: { templateId: parsedId }, orderBy: { version: 'desc' } })
+
+    const [from, to, draft] = await Promise.all([
+      findVersion(options.fromVersionId),
+      options.toVersionId ? findVersion(options.toVersionId) : null,
+      options.toVersionId
+        ? null
+        : prisma.formTemplate.findUnique({ where: { id: parsedId }, include: TEMPLATE_WITH_BINDINGS_INCLUDE }),
+    ])
 
-    if (!template) {
+    if ((options.fromVersionId && !from) || (options.toVersionId && !to)) {
+      return { success: false, error: 'Template version not found' }
+    }
+    const after = to ? hydrateTemplateSnapshot(to.structure) : draft
+    if (!after) {
       return { success: false, error: 'Template not found' }
     }
 
-    if (template.sections.length === 0) {
-      return { success: false, error: 'Add at least one section before publishing' }
+    return {
+      success: true,
+      data: {
+        fromVersion: from?.version ?? null,
+        toVersion: to?.version ?? null,
+        diff: diffTemplates(from ? hydrateTemplateSnapshot(from.structure) : null, after),
+      },
     }
-
-    const hasEmptySection = template.sections.some((section) => section.questions.length === 0)
-    if (hasEmptySection) {
-      return { success: false, error: 'Each section must include at least one field before publishing' }
+  } catch (error) {
+    console.error('getTemplateDiff failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to compare template versions',
     }
+  }
+}
 
-    await prisma.formTemplate.update({
-      where: { id: parsedId },
-      data: {
-        isActive: true,
-      },
+/**
+ * Freeze the draft as a new immutable version and make the template active.
+ * Submissions pin the version they were answered against, so later edits never
+ * change what an existing submission shows. Publishing an unchanged draft only
+ * re-activates the template.
+ *
+ * Dictionary entries are shared across templates, so reworded bound questions
+ * are only revised (marking existing answers stale) when the publisher confirms
+ * them in `reviseFieldCodes`.
+ */
+export async function publishTemplate(
+  templateId: string,
+  options: { reviseFieldCodes?: string[] } = {}
+): Promise<ActionResult<{ version: number; created: boolean; revisedQuestions: number }>> {
+  try {
+    const user = await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+    const parsedId = idSchema.parse(templateId)
+
+    const result = await prisma.$transaction(async (tx) => {
+      const template = await tx.formTemplate.findUnique({
+        where: { id: parsedId },
+        include: TEMPLATE_WITH_BINDINGS_INCLUDE,
+      })
+
+      if (!template) {
+        return { error: 'Template not found' }
+      }
+
+      if (template.sections.length === 0) {
+        return { error: 'Add at least one section before publishing' }
+      }
+
+      const hasEmptySection = template.sections.some((section) => section.questions.length === 0)
+      if (hasEmptySection) {
+        return { error: 'Each section must include at least one field before publishing' }
+      }
+
+      const latest = await tx.formTemplateVersion.findFirst({
+        where: { templateId: parsedId },
+        orderBy: { version: 'desc' },
+      })
+
+      await tx.formTemplate.update({
+        where: { id: parsedId },
+        data: {
+          isActive: true,
+        },
+      })
+
+      const published = latest ? hydrateTemplateSnapshot(latest.structure) : null
+      if (latest && !hasStructuralChanges(template, published)) {
+        return { version: latest.version, created: false, revisedQuestions: 0 }
+      }
+
+      const version = (latest?.version ?? 0) + 1
+      // Only confirmed fields this draft actually rewords; the first publish is the baseline
+      const confirmed = new Set(options.reviseFieldCodes ?? [])
+      const fieldCodesToRevise = published
+        ? diffTemplates(published, template).staleFieldCodes.filter((fieldCode) => confirmed.has(fieldCode))
+        : []
+      const revisedQuestions = fieldCodesToRevise.length
+        ? await reviseChangedQuestions(
+            tx,
+            template,
+            fieldCodesToRevise,
+            user.id,
+            `Changed in ${template.name} version #${version}`
+          )
+        : 0
+      // Revising moved the dictionary pointers on, so snapshot the rows as they are now
+      const snapshotSource = revisedQuestions
+        ? await tx.formTemplate.findUniqueOrThrow({ where: { id: parsedId }, include: TEMPLATE_WITH_BINDINGS_INCLUDE })
+        : template
+
+      await tx.formTemplateVersion.create({
+        data: {
+          templateId: parsedId,
+          version,
+          versionLabel: template.version,
+          structure: buildTemplateSnapshot(snapshotSource),
+          publishedBy: user.id,
+        },
+      })
+
+      return { version, created: true, revisedQuestions }
     })
 
+    if ('error' in result) {
+      return { success: false, error: result.error ?? 'Unable to publish template' }
+    }
+
     await invalidateTemplate(parsedId)
     revalidatePath('/dynamic-form/builder')
-    return { success: true }
+    return { success: true, data: result }
   } catch (error) {
     console.error('publishTemplate failed', error)
     return {
@@ -801,6 +1093,7 @@ export async function publishTemplate(templateId: string): Promise<ActionResult>
 
 export async function updateTemplateMetadata(templateId: string, input: TemplateMetadataInput): Promise<ActionResult> {
   try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
     const parsedId = idSchema.parse(templateId)
     const parsedInput = templateMetadataSchema.parse(input)
 
@@ -810,6 +1103,7 @@ export async function updateTemplateMetadata(templateId: string, input: Template
         name: parsedInput.name,
         version: parsedInput.version,
         description: parsedInput.description,
+        purpose: parsedInput.purpose,
       },
     })
 
@@ -825,17 +1119,299 @@ export async function updateTemplateMetadata(templateId: string, input: Template
   }
 }
 
+/**
+ * Store the template's scoring model. An empty string clears it so the template
+ * falls back to the default model.
+ */
+export async function updateTemplateScoringModel(templateId: string, rawModel: string): Promise<ActionResult> {
+  try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+    const parsedId = idSchema.parse(templateId)
+
+    if (!rawModel.trim()) {
+      await prisma.formTemplate.update({
+        where: { id: parsedId },
+        data: { scoringModel: Prisma.JsonNull },
+      })
+    } else {
+      const questions = await prisma.formQuestion.findMany({
+        where: { section: { templateId: parsedId } },
+        select: { fieldCode: true },
+      })
+      const { model, issues } = parseScoringModelInput(
+        rawModel,
+        new Set(questions.map((question) => question.fieldCode))
+      )
+
+      if (!model) {
+        return { success: false, error: issues.join('; ') }
+      }
+
+      await prisma.formTemplate.update({
+        where: { id: parsedId },
+        data: { scoringModel: model as unknown as Prisma.InputJsonValue },
+      })
+    }
+
+    await invalidateTemplate(parsedId)
+    revalidatePath('/dynamic-form/builder')
+    return { success: true }
+  } catch (error) {
+    console.error('updateTemplateScoringModel failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to update scoring model',
+    }
+  }
+}
+
+/**
+ * Publish a new recommendation rule set version. Versions are immutable so
+ * submissions that pinned an earlier version keep their original outcome.
+ */
+export async function publishRecommendationRules(
+  templateId: string,
+  rules: unknown,
+  name?: string
+): Promise<ActionResult<{ version: number }>> {
+  try {
+    const parsedId = idSchema.parse(templateId)
+    const parsedRules = recommendationRulesSchema.safeParse(rules)
+    const user = await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+
+    if (!parsedRules.success) {
+      return {
+        success: false,
+        error: parsedRules.error.issues.map((issue) => issue.message).join('; '),
+      }
+    }
+
+    const ruleSet = await prisma.$transaction(async (tx) => {
+      const latest = await tx.recommendationRuleSet.findFirst({
+        where: { templateId: parsedId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+
+      return tx.recommendationRuleSet.create({
+        data: {
+          templateId: parsedId,
+          version: (latest?.version ?? 0) + 1,
+          name: name?.trim() || null,
+          rules: parsedRules.data as Prisma.InputJsonValue,
+          createdBy: user.id,
+        },
+      })
+    })
+
+    await invalidateTemplate(parsedId)
+    revalidatePath('/dynamic-form/builder')
+    return { success: true, data: { version: ruleSet.version } }
+  } catch (error) {
+    console.error('publishRecommendationRules failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to publish recommendation rules',
+    }
+  }
+}
+
+export async function exportTemplatePackage(templateId: string): Promise<ActionResult<TemplatePackage>> {
+  try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+    const parsedId = idSchema.parse(templateId)
+    const template = await prisma.formTemplate.findUnique({
+      where: { id: parsedId },
+      include: TEMPLATE_WITH_BINDINGS_INCLUDE,
+    })
+
+    if (!template) {
+      return { success: false, error: 'Template not found' }
+    }
+
+    return { success: true, data: buildTemplatePackage(template) }
+  } catch (error) {
+    console.error('exportTemplatePackage failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to export template',
+    }
+  }
+}
+
+function toNullableJson(value: Prisma.JsonValue | null) {
+  return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue)
+}
+
+/**
+ * Parse a package and compare it with this environment. Scoring models and
+ * rules are validated the same way the builder validates them on save.
+ */
+async function planImport(
+  raw: string
+): Promise<{ pkg: TemplatePackage | null; preview: TemplateImportPreview | null; errors: string[] }> {
+  const parsed = parseTemplatePackage(raw)
+  if (!parsed.success) {
+    return { pkg: null, preview: null, errors: parsed.errors }
+  }
+
+  const pkg = parsed.data
+  const keys = Array.from(
+    new Set(
+      pkg.template.sections.flatMap((section) =>
+        section.questions.flatMap((question) => (question.dictionaryKey ? [question.dictionaryKey] : []))
+      )
+    )
+  )
+  const [dictionary, namesakes] = await Promise.all([
+    prisma.questionDictionary.findMany({
+      where: { key: { in: keys } },
+      select: { key: true, bindingPath: true, dataSource: true },
+    }),
+    prisma.formTemplate.findMany({ where: { name: pkg.template.name }, select: { name: true } }),
+  ])
+
+  const preview = planTemplateImport(
+    pkg,
+    dictionary,
+    namesakes.map((template) => template.name)
+  )
+
+  if (pkg.template.scoringModel !== null) {
+    const fieldCodes = new Set(
+      pkg.template.sections.flatMap((section) => section.questions.map((question) => question.fieldCode))
+    )
+    const scoring = parseScoringModelInput(JSON.stringify(pkg.template.scoringModel), fieldCodes)
+    preview.errors.push(...scoring.issues.map((issue) => `Scoring model: ${issue}`))
+  }
+  if (pkg.recommendationRuleSet) {
+    const rules = recommendationRulesSchema.safeParse(pkg.recommendationRuleSet.rules)
+    if (!rules.success) {
+      preview.errors.push(...rules.error.issues.map((issue) => `Recommendation rules: ${issue.message}`))
+    }
+  }
+
+  return { pkg, preview, errors: preview.errors }
+}
+
+/**
+ * Dry run of importTemplatePackage: what would be created and what blocks it.
+ */
+export async function previewTemplateImport(raw: string): Promise<ActionResult<TemplateImportPreview>> {
+  try {
+    await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+    const { preview, errors } = await planImport(raw)
+    if (!preview) {
+      return { success: false, error: errors.join('; ') }
+    }
+    return { success: true, data: preview }
+  } catch (error) {
+    console.error('previewTemplateImport failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to read template package',
+    }
+  }
+}
+
+/**
+ * Create a new draft template from a package. Questions whose dictionary key
+ * does not exist here are imported unbound; any conflict aborts the import.
+ */
+export async function importTemplatePackage(raw: string): Promise<ActionResult<{ templateId: string }>> {
+  try {
+    const user = await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
+    const { pkg, preview, errors } = await planImport(raw)
+    if (!pkg || !preview || errors.length > 0) {
+      return { success: false, error: errors.join('; ') }
+    }
+
+    const boundKeys = new Set(preview.dictionary.filter((entry) => entry.status === 'match').map((entry) => entry.key))
+    const { template: source, recommendationRuleSet } = pkg
+
+    const template = await prisma.formTemplate.create({
+      data: {
+        name: source.name,
+        version: source.version,
+        description: source.description,
+        purpose: source.purpose,
+        isActive: false,
+        scoringModel: toNullableJson(source.scoringModel),
+        recommendationRuleSets: recommendationRuleSet
+          ? {
+              create: {
+                version: 1,
+                name: recommendationRuleSet.name,
+                rules: recommendationRuleSet.rules as Prisma.InputJsonValue,
+                createdBy: user.id,
+              },
+            }
+          : undefined,
+        sections: {
+          create: source.sections.map((section) => ({
+            code: section.code,
+            title: section.title,
+            description: section.description,
+            order: section.order,
+            isRequired: section.isRequired,
+            questions: {
+              create: section.questions.map((question) => ({
+                fieldCode: question.fieldCode,
+                label: question.label,
+                type: question.type,
+                helpText: question.helpText,
+                placeholder: question.placeholder,
+                validation: toNullableJson(question.validation),
+                conditional: toNullableJson(question.conditional),
+                repeatableConfig: toNullableJson(question.repeatableConfig),
+                order: question.order,
+                isRequired: question.isRequired,
+                dictionaryKey:
+                  question.dictionaryKey && boundKeys.has(question.dictionaryKey) ? question.dictionaryKey : null,
+                options:
+                  question.options.length > 0
+                    ? { create: question.options.map(({ value, label, order }) => ({ value, label, order })) }
+                    : undefined,
+                scoringConfig: question.scoringConfig
+                  ? {
+                      create: {
+                        ...question.scoringConfig,
+                        criteria: question.scoringConfig.criteria as Prisma.InputJsonValue,
+                      },
+                    }
+                  : undefined,
+              })),
+            },
+          })),
+        },
+      },
+      select: { id: true },
+    })
+
+    revalidatePath('/dynamic-form/builder')
+    return { success: true, data: { templateId: template.id } }
+  } catch (error) {
+    console.error('importTemplatePackage failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to import template',
+    }
+  }
+}
+
 export async function createTemplateAction(formData: FormData) {
+  await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
   const parsed = createTemplateSchema.safeParse({
     name: (formData.get('name') as string | null)?.trim(),
     description: (formData.get('description') as string | null)?.trim() || undefined,
+    purpose: (formData.get('purpose') as string | null) || undefined,
   })
 
   if (!parsed.success) {
     redirect('/dynamic-form/builder?error=invalid-template-data')
   }
 
-  const { name, description } = parsed.data
+  const { name, description, purpose } = parsed.data
 
   // Track success to avoid catching redirect errors in try-catch
   let createdSuccessfully = false
@@ -845,6 +1421,7 @@ export async function createTemplateAction(formData: FormData) {
       data: {
         name,
         description,
+        purpose,
         version: '1.0',
         isActive: false,
       },
@@ -865,6 +1442,7 @@ export async function createTemplateAction(formData: FormData) {
 }
 
 export async function deleteTemplateAction(formData: FormData) {
+  await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
   const templateId = formData.get('templateId') as string | null
   const parsed = idSchema.safeParse(templateId?.trim())
 
@@ -895,6 +1473,7 @@ export async function deleteTemplateAction(formData: FormData) {
 }
 
 export async function cloneTemplateAction(formData: FormData) {
+  const user = await requirePermission(PERMISSIONS.TEMPLATE_MANAGE)
   const templateId = formData.get('templateId') as string | null
   const parsed = idSchema.safeParse(templateId?.trim())
 
@@ -916,6 +1495,10 @@ export async function cloneTemplateAction(formData: FormData) {
           },
         },
       },
+      recommendationRuleSets: {
+        orderBy: { version: 'desc' },
+        take: 1,
+      },
     },
   })
 
@@ -927,7 +1510,6 @@ export async function cloneTemplateAction(formData: FormData) {
   let clonedSuccessfully = false
 
   try {
-
     const sortedSections = [...template.sections].sort((a, b) => a.order - b.order)
 
     await prisma.formTemplate.create({
@@ -935,7 +1517,18 @@ export async function cloneTemplateAction(formData: FormData) {
         name: `${template.name} (Copy)`,
         description: template.description,
         version: template.version,
+        purpose: template.purpose,
         isActive: false,
+        scoringModel: template.scoringModel === null ? Prisma.JsonNull : (template.scoringModel as Prisma.InputJsonValue),
+        // The copy starts its own version history from the source's current rules
+        recommendationRuleSets: {
+          create: template.recommendationRuleSets.map((ruleSet) => ({
+            version: 1,
+            name: ruleSet.name,
+            rules: ruleSet.rules as Prisma.InputJsonValue,
+            createdBy: user.id,
+          })),
+        },
         sections: {
           create: sortedSections.map((section) => {
             const sortedQuestions = [...section.questions].sort((a, b) => a.order - b.order)
@@ -13,6 +13,10 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FORM_PURPOSE_LABELS } from '@/lib/technology/constants'
+import { TemplateExportButton } from '@/components/form-builder/TemplateExportButton'
+import { TemplateImportPanel } from '@/components/form-builder/TemplateImportPanel'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -201,6 +205,8 @@ export default async function BuilderLandingPage({ searchParams }: BuilderPagePr
 
         <CreateTemplateForm />
 
+        <TemplateImportPanel className={`${innerCardClass} max-w-3xl`} />
+
         <section className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-[#353535]">Existing Templates</h2>
@@ -262,6 +268,21 @@ function CreateTemplateForm() {
               rows={3}
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-purpose">Purpose</Label>
+            <Select name="purpose" defaultValue="TRIAGE">
+              <SelectTrigger id="template-purpose" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORM_PURPOSE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <Button type="submit" className="shadow-sm">
             <Plus className="h-4 w-4" />
             Create template
@@ -288,9 +309,12 @@ function TemplateCard({ template }: { template: TemplateListItem }) {
               {template.description?.trim() || 'No description added yet.'}
             </CardDescription>
           </div>
-          <Badge variant={template.isActive ? 'default' : 'secondary'}>
-            {template.isActive ? 'Active' : 'Draft'}
-          </Badge>
+          <div className="flex flex-col items-end gap-2">
+            <Badge variant={template.isActive ? 'default' : 'secondary'}>
+              {template.isActive ? 'Active' : 'Draft'}
+            </Badge>
+            <Badge variant="outline">{FORM_PURPOSE_LABELS[template.purpose]}</Badge>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-2 text-sm text-[#6b7280]">
@@ -321,6 +345,7 @@ function TemplateCard({ template }: { template: TemplateListItem }) {
             Clone
           </Button>
         </form>
+        <TemplateExportButton templateId={template.id} />
         <AlertDialog>
           <AlertDialogTrigger asChild>
             <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-600">
@@ -9,7 +9,7 @@ import { Trash2, Edit, FileText, Clock, CheckCircle, Home, Hammer, ClipboardList
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { getUserDrafts, deleteDraftResponse } from '../actions';
-import { getOrCreateSessionId, getClientLogger } from '@/lib/session';
+import { getClientLogger } from '@/lib/session';
 import { toast } from 'sonner';
 
 interface DraftSummary {
@@ -41,7 +41,7 @@ function DraftsContent() {
 
   const loadDrafts = async () => {
     try {
-      const result = await getUserDrafts(getOrCreateSessionId(), 'all');
+      const result = await getUserDrafts();
       if (result.success && result.drafts) {
         setDrafts(
           result.drafts.map((draft) => ({
@@ -68,7 +68,7 @@ function DraftsContent() {
 
     setDeletingDraft(draftId);
     try {
-      const result = await deleteDraftResponse(draftId, getOrCreateSessionId());
+      const result = await deleteDraftResponse(draftId);
       if (result.success) {
         toast.success('Draft deleted successfully');
         setDrafts((prev) => prev.filter((draft) => draft.id !== draftId));
@@ -5,10 +5,12 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FileText, Hammer, Home, ClipboardList } from 'lucide-react';
 import Link from 'next/link';
 import { FormEngineProvider, DynamicFormRenderer } from '@/lib/form-engine/renderer';
 import { DynamicFormNavigation } from '@/components/form/DynamicFormNavigation';
+import { FormQuestionComments, SubmissionCommentsProvider } from '@/components/form/QuestionComments';
 import {
   FormTemplateWithSections,
   FormResponse,
@@ -17,15 +19,24 @@ import {
 } from '@/lib/form-engine/types';
 import { submitFormResponse, saveDraftResponse, loadDraftResponse } from './actions';
 import { AnswerStatusDetail, RowVersionSnapshot } from '@/lib/technology/types';
-import { getOrCreateSessionId, getClientLogger } from '@/lib/session';
+import type { TemplateVersionRef } from '@/lib/form-engine/template-versions';
+import type { ActiveTemplateSummary } from '@/lib/technology/service';
+import { FORM_PURPOSE_LABELS } from '@/lib/technology/constants';
+import { getClientLogger } from '@/lib/session';
 import { toast } from 'sonner';
 
+type ReviewFeedback = NonNullable<
+  NonNullable<Awaited<ReturnType<typeof loadDraftResponse>>['data']>['reviewFeedback']
+>;
+
 function DynamicFormContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const draftId = searchParams?.get('draft');
 
   const [template, setTemplate] = useState<FormTemplateWithSections | null>(null);
+  const [templateVersion, setTemplateVersion] = useState<TemplateVersionRef | null>(null);
+  const [activeTemplates, setActiveTemplates] = useState<ActiveTemplateSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentDraftId, setCurrentDraftId] = useState<string | null>(draftId);
@@ -39,9 +50,12 @@ function DynamicFormContent() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSavingDraft, setIsSavingDraft] = useState(false);
   const [rowVersions, setRowVersions] = useState<RowVersionSnapshot | null>(null);
+  const [reviewFeedback, setReviewFeedback] = useState<ReviewFeedback | null>(null);
 
   const techIdParam = searchParams?.get('techId');
   const techId = techIdParam && techIdParam.trim().length > 0 ? techIdParam.trim() : null;
+  const templateIdParam = searchParams?.get('templateId') || null;
+  const purposeParam = searchParams?.get('purpose') || searchParams?.get('stage') || null;
 
   // Memoize initial data so FormEngineProvider doesn't re-hydrate
   // on every parent re-render (which would wipe in-progress edits).
@@ -59,11 +73,27 @@ function DynamicFormContent() {
     setLoading(true);
     setError(null);
     setIsDraftLoaded(false);
+    setReviewFeedback(null);
     setCurrentDraftId(draftId ?? null);
 
     try {
-      const query = techId ? `?techId=${encodeURIComponent(techId)}` : '';
-      const response = await fetch(`/api/form-templates${query}`);
+      // Drafts reopen against the template they were started on
+      const logger = getClientLogger();
+      if (draftId) {
+        logger.info('Loading draft', draftId);
+      }
+      const draftResult = draftId ? await loadDraftResponse(draftId) : null;
+      const draftData = draftResult?.success ? draftResult.data : null;
+      const templateId = draftData?.templateId ?? templateIdParam;
+
+      const query = new URLSearchParams();
+      if (techId) query.set('techId', techId);
+      if (templateId) query.set('templateId', templateId);
+      else if (purposeParam) query.set('purpose', purposeParam);
+      // ...and the exact published version they pinned
+      if (draftData?.templateVersionId) query.set('versionId', draftData.templateVersionId);
+      const queryString = query.toString();
+      const response = await fetch(`/api/form-templates${queryString ? `?${queryString}` : ''}`);
       const payload = await response.json();
 
       if (!response.ok) {
@@ -74,17 +104,15 @@ function DynamicFormContent() {
       }
 
       setTemplate(payload.template);
+      setTemplateVersion(payload.templateVersion ?? null);
+      setActiveTemplates(payload.activeTemplates ?? []);
 
       const prefilledResponses = (payload.initialResponses ?? {}) as FormResponse;
       const prefilledRepeatGroups = (payload.initialRepeatGroups ?? {}) as RepeatableGroupData;
       const prefilledMetadata = (payload.answerMetadata ?? {}) as Record<string, AnswerStatusDetail>;
       setRowVersions(payload.rowVersions ?? null);
 
-      if (draftId) {
-        const logger = getClientLogger();
-        logger.info('Loading draft', draftId);
-        const draftResult = await loadDraftResponse(draftId, getOrCreateSessionId());
-
+      if (draftResult) {
         if (draftResult.success && draftResult.data) {
           logger.info('Draft loaded successfully');
           const mergedMetadata =
@@ -104,6 +132,7 @@ function DynamicFormContent() {
             answerMetadata: mergedMetadata,
           });
           setCurrentDraftId(draftResult.submissionId || draftId);
+          setReviewFeedback(draftResult.data.reviewFeedback ?? null);
           setIsDraftLoaded(true);
           toast.success('Draft loaded successfully!');
         } else {
@@ -124,17 +153,29 @@ function DynamicFormContent() {
     } finally {
       setLoading(false);
     }
-  }, [draftId, techId, router]);
+  }, [draftId, techId, templateIdParam, purposeParam, router]);
 
   useEffect(() => {
     loadTemplateAndDraft();
   }, [loadTemplateAndDraft]);
 
-  const handleSubmit = async (data: {
-    responses: FormResponse;
-    repeatGroups: RepeatableGroupData;
-    calculatedScores: CalculatedScores | null;
-  }) => {
+  // Switching questionnaires starts a fresh form for the same technology
+  const handleTemplateChange = (nextTemplateId: string) => {
+    if (nextTemplateId === template?.id) return;
+    const query = new URLSearchParams({ templateId: nextTemplateId });
+    if (techId) query.set('techId', techId);
+    router.push(`/dynamic-form?${query.toString()}`);
+  };
+
+  // Conflict retries pass the refreshed row versions returned with the conflict
+  const handleSubmit = async (
+    data: {
+      responses: FormResponse;
+      repeatGroups: RepeatableGroupData;
+      calculatedScores: CalculatedScores | null;
+    },
+    options?: { rowVersions?: RowVersionSnapshot }
+  ) => {
     const logger = getClientLogger();
     logger.info('Submitting form');
 
@@ -155,12 +196,12 @@ function DynamicFormContent() {
       const result = await submitFormResponse(
         {
           templateId: template.id,
+          templateVersionId: templateVersion?.id,
           responses: data.responses as Record<string, unknown>,
           repeatGroups: data.repeatGroups as Record<string, unknown>,
           calculatedScores: normalizedScores,
-          rowVersions: rowVersions ?? undefined,
+          rowVersions: options?.rowVersions ?? rowVersions ?? undefined,
         },
-        getOrCreateSessionId(),
         currentDraftId || undefined
       );
 
@@ -181,11 +222,14 @@ function DynamicFormContent() {
         }, 1500);
       } else {
         logger.error('Form submission failed', result.error);
-        if (result.error === 'conflict') {
+        if (result.error === 'conflict' && result.conflict) {
+          return { conflict: result.conflict };
+        } else if (result.error === 'conflict') {
           toast.error('This record was updated elsewhere. Reloading latest data.');
           await loadTemplateAndDraft();
         } else {
           toast.error(result.error || 'Failed to submit form');
+          return { fieldErrors: result.fieldErrors };
         }
       }
     } catch (error) {
@@ -202,7 +246,7 @@ function DynamicFormContent() {
       repeatGroups: RepeatableGroupData;
       calculatedScores: CalculatedScores | null;
     },
-    options?: { silent?: boolean }
+    options?: { silent?: boolean; rowVersions?: RowVersionSnapshot }
   ) => {
     const logger = getClientLogger();
     if (process.env.NODE_ENV !== 'production') {
@@ -226,12 +270,12 @@ function DynamicFormContent() {
       const result = await saveDraftResponse(
         {
           templateId: template.id,
+          templateVersionId: templateVersion?.id,
           responses: data.responses as Record<string, unknown>,
           repeatGroups: data.repeatGroups as Record<string, unknown>,
           calculatedScores: normalizedScores,
-          rowVersions: rowVersions ?? undefined,
+          rowVersions: options?.rowVersions ?? rowVersions ?? undefined,
         },
-        getOrCreateSessionId(),
         currentDraftId || undefined
       );
 
@@ -252,7 +296,9 @@ function DynamicFormContent() {
         }
       } else {
         logger.error('Draft save failed', result.error);
-        if (result.error === 'conflict') {
+        if (result.error === 'conflict' && result.conflict) {
+          return { conflict: result.conflict };
+        } else if (result.error === 'conflict') {
           toast.error('Someone else updated this draft. Reloading latest data.');
           await loadTemplateAndDraft();
         } else {
@@ -316,6 +362,11 @@ function DynamicFormContent() {
     );
   }
 
+  const questionLabel = (fieldCode: string) =>
+    template.sections
+      .flatMap((section) => section.questions)
+      .find((question) => question.fieldCode === fieldCode)?.label ?? fieldCode;
+
   const navButtonClass = 'h-10 px-5 rounded-full text-[15px] font-medium gap-2';
 
   return (
@@ -376,7 +427,27 @@ function DynamicFormContent() {
               <div>
                 <h1 className="text-2xl font-bold text-[#353535]">{template.name}</h1>
                 <p className="text-[#6b7280]">{template.description}</p>
-                <p className="text-sm text-[#6b7280]">Version: {template.version}</p>
+                <p className="text-sm text-[#6b7280]">
+                  Version: {template.version}
+                  {templateVersion && ` (published #${templateVersion.version})`}
+                </p>
+                {!currentDraftId && activeTemplates.length > 1 && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <span className="text-sm text-[#6b7280]">Questionnaire:</span>
+                    <Select value={template.id} onValueChange={handleTemplateChange}>
+                      <SelectTrigger className="w-72 bg-white" aria-label="Questionnaire">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeTemplates.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {FORM_PURPOSE_LABELS[option.purpose]} · {option.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
               {isDraftLoaded && (
                 <div className="text-right">
@@ -392,37 +463,71 @@ function DynamicFormContent() {
           </CardContent>
         </Card>
 
-        <FormEngineProvider
-          template={template}
-          onSubmit={handleSubmit}
-          onSaveDraft={handleSaveDraft}
-          initialData={memoInitialData}
-        >
-          <div className="space-y-8">
-            <DynamicFormRenderer />
-
-            {/* Dynamic Navigation */}
-            <DynamicFormNavigation
-              onSubmit={(formData) =>
-                handleSubmit({
-                  responses: formData.responses as FormResponse,
-                  repeatGroups: formData.repeatGroups as RepeatableGroupData,
-                  calculatedScores: formData.calculatedScores as CalculatedScores | null,
-                })
-              }
-              onSaveDraft={(formData, options) =>
-                handleSaveDraft({
-                  responses: formData.responses as FormResponse,
-                  repeatGroups: formData.repeatGroups as RepeatableGroupData,
-                  calculatedScores: formData.calculatedScores as CalculatedScores | null,
-                }, options)
-              }
-              isSubmitting={isSubmitting}
-              isSavingDraft={isSavingDraft}
-              submissionId={currentDraftId}
-            />
-          </div>
-        </FormEngineProvider>
+        {reviewFeedback && (
+          <Card className="mb-8 border-0 bg-amber-50 rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-base text-amber-900">Changes requested</CardTitle>
+              <p className="text-sm text-amber-900">
+                {reviewFeedback.reviewerLabel} sent this back on{' '}
+                {new Date(reviewFeedback.requestedAt).toLocaleDateString()}. Update your answers and submit again.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm text-amber-900">
+              {reviewFeedback.summary && <p className="whitespace-pre-wrap">{reviewFeedback.summary}</p>}
+              {Object.keys(reviewFeedback.questionComments).length > 0 && (
+                <dl className="space-y-2">
+                  {Object.entries(reviewFeedback.questionComments).map(([fieldCode, comment]) => (
+                    <div key={fieldCode}>
+                      <dt className="font-medium">{questionLabel(fieldCode)}</dt>
+                      <dd className="whitespace-pre-wrap">{comment}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <SubmissionCommentsProvider submissionId={currentDraftId}>
+          <FormEngineProvider
+            template={template}
+            onSubmit={async (data) => {
+              await handleSubmit(data);
+            }}
+            onSaveDraft={async (data, options) => {
+              await handleSaveDraft(data, options);
+            }}
+            initialData={memoInitialData}
+          >
+            <div className="space-y-8">
+              <DynamicFormRenderer
+                renderQuestionFooter={(question) => <FormQuestionComments question={question} />}
+              />
+
+              {/* Dynamic Navigation */}
+              <DynamicFormNavigation
+                onSubmit={(formData, options) =>
+                  handleSubmit({
+                    responses: formData.responses as FormResponse,
+                    repeatGroups: formData.repeatGroups as RepeatableGroupData,
+                    calculatedScores: formData.calculatedScores as CalculatedScores | null,
+                  }, options)
+                }
+                onSaveDraft={(formData, options) =>
+                  handleSaveDraft({
+                    responses: formData.responses as FormResponse,
+                    repeatGroups: formData.repeatGroups as RepeatableGroupData,
+                    calculatedScores: formData.calculatedScores as CalculatedScores | null,
+                  }, options)
+                }
+                isSubmitting={isSubmitting}
+                isSavingDraft={isSavingDraft}
+                submissionId={currentDraftId}
+                templateVersionId={templateVersion?.id}
+              />
+            </div>
+          </FormEngineProvider>
+        </SubmissionCommentsProvider>
       </div>
     </div>
   );
@@ -5,19 +5,31 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { format } from 'date-fns';
-import { FieldType } from '@prisma/client';
-import { parseRepeatableGroupConfig } from '@/lib/form-engine/json-utils';
+import { FieldType, SubmissionStatus } from '@prisma/client';
 import { Home } from 'lucide-react';
 import {
-  extractScoringInputs,
-  calculateAllScores,
-  scoringCriteria,
-} from '@/lib/scoring/calculations';
+  calculateTemplateScores,
+  formatCriterionWeight,
+  ScoredGroup,
+} from '@/lib/scoring/model';
+import { RECOMMENDATION_COLOR_STYLES, describeRecommendationRuleSet } from '@/lib/scoring/recommendations';
+import { RecommendationGrid, RecommendationLegend } from '@/components/form/RecommendationGrid';
+import { AttachmentPanel } from '@/components/technology/AttachmentPanel';
+import { listSubmissionAttachments } from '@/lib/attachments/service';
+import { SubmissionReviewPanel } from '@/components/form/SubmissionReviewPanel';
+import { QuestionComments, SubmissionCommentsProvider } from '@/components/form/QuestionComments';
+import { getSessionUser } from '@/lib/auth/session';
+import { PERMISSIONS, hasPermission } from '@/lib/auth/permissions';
+import { REVIEW_DECISION_LABELS, listReviewers } from '@/lib/submissions/review';
+import { buildRepeatableColumns, formatPrimitive, renderSimpleValue } from '@/lib/submissions/answer-display';
+import { diffRevisions } from '@/lib/submissions/revisions';
+import { RevisionHistory } from '@/components/form/RevisionHistory';
 
 interface SubmissionDetailPageProps {
   params: {
     submissionId: string;
   };
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 function formatDate(value: Date | null | undefined) {
@@ -29,71 +41,6 @@ function formatDate(value: Date | null | undefined) {
   }
 }
 
-function formatPrimitive(value: unknown): string {
-  if (value === null || value === undefined || value === '') {
-    return '—';
-  }
-  if (typeof value === 'boolean') {
-    return value ? 'Yes' : 'No';
-  }
-  if (typeof value === 'number') {
-    return value.toString();
-  }
-  if (typeof value === 'string') {
-    return value;
-  }
-  return JSON.stringify(value, null, 2);
-}
-
-function mapOptionLabel(question: { options: { value: string; label: string }[] }, stored: string) {
-  return question.options.find((option) => option.value === stored)?.label ?? stored;
-}
-
-function renderSimpleValue(
-  question: { type: FieldType; options: { value: string; label: string }[] },
-  rawValue: unknown
-) {
-  if (rawValue === null || rawValue === undefined) {
-    return '—';
-  }
-
-  switch (question.type) {
-    case FieldType.MULTI_SELECT:
-    case FieldType.CHECKBOX_GROUP: {
-      const values = Array.isArray(rawValue) ? rawValue : [];
-      if (!values.length) return '—';
-      return values
-        .map((value) =>
-          typeof value === 'string' ? mapOptionLabel(question, value) : formatPrimitive(value)
-        )
-        .join(', ');
-    }
-    case FieldType.SINGLE_SELECT: {
-      if (typeof rawValue === 'string') {
-        return mapOptionLabel(question, rawValue);
-      }
-      return formatPrimitive(rawValue);
-    }
-    default:
-      return formatPrimitive(rawValue);
-  }
-}
-
-function buildRepeatableColumns(
-  question: { repeatableConfig: unknown },
-  rows: Record<string, unknown>[]
-): { key: string; label: string }[] {
-  const config = parseRepeatableGroupConfig(question.repeatableConfig);
-  if (config?.columns && config.columns.length > 0) {
-    return config.columns.map((column) => ({ key: column.key, label: column.label }));
-  }
-  const firstRow = rows.find((row) => row && Object.keys(row).length > 0);
-  if (!firstRow) return [];
-  return Object.keys(firstRow)
-    .filter((key) => !key.startsWith('__'))
-    .map((key) => ({ key, label: key.replace(/_/g, ' ') }));
-}
-
 function renderRepeatableTable(
   question: { repeatableConfig: unknown },
   rows: Record<string, unknown>[]
@@ -141,8 +88,6 @@ function renderRepeatableTable(
   );
 }
 
-const SCORING_WEIGHT_LABEL = '50%';
-
 function formatScore(value: number | undefined) {
   if (value === undefined || Number.isNaN(value)) {
     return '0.00';
@@ -150,39 +95,30 @@ function formatScore(value: number | undefined) {
   return value.toFixed(2);
 }
 
-function getMatrixPosition(impactScore: number, valueScore: number) {
-  const clamp = (score: number) => Math.max(0, Math.min(3, score));
-  return {
-    x: clamp(impactScore),
-    y: clamp(valueScore),
-  };
-}
-
-function getRecommendationColorClasses(recommendation: string) {
-  switch (recommendation) {
-    case 'Proceed':
-      return 'bg-green-100 text-green-800';
-    case 'Consider Alternative Pathway':
-      return 'bg-yellow-100 text-yellow-800';
-    case 'Close':
-      return 'bg-red-100 text-red-800';
-    default:
-      return 'bg-gray-100 text-gray-800';
-  }
-}
-
-function clampScore(score: number) {
+function clampScore(score: number, maxScore: number) {
   if (Number.isNaN(score)) return 0;
-  return Math.max(0, Math.min(3, score));
+  return Math.max(0, Math.min(maxScore, score));
 }
 
-function describeScore(criteria: Record<number, string>, score: number) {
-  const key = Math.round(clampScore(score)) as 0 | 1 | 2 | 3;
-  return criteria[key] ?? '';
+const SECTION_ROW_CLASSES = [
+  { header: 'bg-blue-100', text: 'text-blue-800', row: 'bg-blue-50' },
+  { header: 'bg-green-100', text: 'text-green-800', row: 'bg-green-50' },
+  { header: 'bg-purple-100', text: 'text-purple-800', row: 'bg-purple-50' },
+  { header: 'bg-amber-100', text: 'text-amber-800', row: 'bg-amber-50' },
+];
+
+function parseRevisionParam(value: string | string[] | undefined) {
+  const parsed = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
 }
 
-export default async function SubmissionDetailPage({ params }: SubmissionDetailPageProps) {
-  const result = await getSubmissionDetail(params.submissionId);
+export default async function SubmissionDetailPage({ params, searchParams }: SubmissionDetailPageProps) {
+  const [result, attachmentList, user, query] = await Promise.all([
+    getSubmissionDetail(params.submissionId),
+    listSubmissionAttachments(params.submissionId),
+    getSessionUser(),
+    searchParams,
+  ]);
 
   if (!result.success || !result.data) {
     notFound();
@@ -195,74 +131,65 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
     calculatedScores,
     status,
     submittedAt,
-    submittedBy,
+    submittedByLabel,
+    reviewerId,
+    reviewerLabel,
+    reviewedAt,
+    reviewedByLabel,
+    reviews,
+    revisions,
     createdAt,
     updatedAt,
+    recommendationRuleSet,
+    templateVersionNumber,
   } = result.data!;
 
   const sortedSections = [...template.sections].sort((a, b) => a.order - b.order);
-  const scoringInputs = extractScoringInputs(responses);
-  const computedScores = calculateAllScores(scoringInputs);
-  const displayScores = {
-    impactScore: calculatedScores?.impactScore ?? computedScores.impactScore,
-    valueScore: calculatedScores?.valueScore ?? computedScores.valueScore,
-    marketScore: calculatedScores?.marketScore ?? computedScores.marketScore,
-    overallScore: calculatedScores?.overallScore ?? computedScores.overallScore,
-    recommendation: computedScores.recommendation,
-    recommendationText: computedScores.recommendationText,
-  };
-  const matrixPosition = getMatrixPosition(displayScores.impactScore, displayScores.valueScore);
-
-  const impactRows = [
-    {
-      criteria: 'Mission Alignment',
-      score: formatScore(scoringInputs.missionAlignmentScore),
-      total: formatScore(scoringInputs.missionAlignmentScore * 0.5),
-      description: describeScore(scoringCriteria.missionAlignment, scoringInputs.missionAlignmentScore),
-    },
-    {
-      criteria: 'Unmet Need',
-      score: formatScore(scoringInputs.unmetNeedScore),
-      total: formatScore(scoringInputs.unmetNeedScore * 0.5),
-      description: describeScore(scoringCriteria.unmetNeed, scoringInputs.unmetNeedScore),
-    },
-  ];
-
-  const valueRows = [
-    {
-      criteria: 'IP Strength and Protectability',
-      score: formatScore(scoringInputs.ipStrengthScore),
-      total: formatScore(scoringInputs.ipStrengthScore * 0.5),
-      description: describeScore(scoringCriteria.ipStrength, scoringInputs.ipStrengthScore),
-    },
-    {
-      criteria: 'Market (Average of sub-criteria)',
-      score: formatScore(displayScores.marketScore),
-      total: formatScore(displayScores.marketScore * 0.5),
-      description: 'Average of Market Size, Patient Population, and Competitors',
-    },
-  ];
-
-  const marketSubCriteria = [
-    {
-      label: 'Market Size – Revenue (TAM)',
-      score: formatScore(scoringInputs.marketSizeScore),
-      description: describeScore(scoringCriteria.marketSize, scoringInputs.marketSizeScore),
-    },
-    {
-      label: 'Patient Population or Procedural Volume',
-      score: formatScore(scoringInputs.patientPopulationScore),
-      description: describeScore(
-        scoringCriteria.patientPopulation,
-        scoringInputs.patientPopulationScore
-      ),
-    },
-    {
-      label: '# of Direct/Indirect Competitors',
-      score: formatScore(scoringInputs.competitorsScore),
-      description: describeScore(scoringCriteria.competitors, scoringInputs.competitorsScore),
-    },
-  ];
+  const canReview = user ? await hasPermission(user.id, PERMISSIONS.SUBMISSION_REVIEW) : false;
+  const awaitingReview = status === SubmissionStatus.SUBMITTED;
+  const reviewers = canReview && awaitingReview ? await listReviewers() : [];
+  const questionLabels = new Map(
+    sortedSections.flatMap((section) => section.questions.map((question) => [question.fieldCode, question.label] as const))
+  );
+  const reviewQuestions = sortedSections.flatMap((section) =>
+    [...section.questions]
+      .sort((a, b) => a.order - b.order)
+      .map((question) => ({ fieldCode: question.fieldCode, label: question.label }))
+  );
+  const revisionQuestions = sortedSections.flatMap((section) =>
+    [...section.questions].sort((a, b) => a.order - b.order)
+  );
+  // Compare the two revisions named in the URL, older one first
+  const [fromNumber, toNumber] = [parseRevisionParam(query.from), parseRevisionParam(query.to)].sort(
+    (a, b) => (a ?? 0) - (b ?? 0)
+  );
+  const fromRevision = revisions.find((revision) => revision.revision === fromNumber);
+  const toRevision = revisions.find((revision) => revision.revision === toNumber);
+  const comparison =
+    fromRevision && toRevision
+      ? {
+          from: fromRevision.revision,
+          to: toRevision.revision,
+          diff: diffRevisions(fromRevision.snapshot, toRevision.snapshot),
+        }
+      : null;
+  // Evaluate against the rule set pinned on the submission so historical
+  // recommendations stay reproducible after the committee changes thresholds.
+  const scoring = calculateTemplateScores(template, responses, recommendationRuleSet ?? null);
+  const recommendationClasses = RECOMMENDATION_COLOR_STYLES[scoring.recommendationBand?.color ?? 'gray'].badge;
+  const { maxScore } = scoring.model;
+  // Prefer the scores persisted at submit time; fall back to a fresh calculation.
+  const displayValue = (group: ScoredGroup) => calculatedScores?.[`${group.key}Score`] ?? group.value;
+  const groupsByKey = new Map(scoring.groups.map((group) => [group.key, group]));
+  const scoreSections = scoring.groups.filter((group) => group.role === 'section');
+  const subgroups = scoring.groups.filter((group) => group.role === 'subgroup');
+  const summaryGroups = scoring.groups.filter((group) => group.role !== 'subgroup');
+  const matrixPosition = scoring.matrix
+    ? {
+        x: clampScore(displayValue(scoring.matrix.x), maxScore),
+        y: clampScore(displayValue(scoring.matrix.y), maxScore),
+      }
+    : null;
 
   const navButtonClass =
     'px-3 py-1.5 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] hover:[box-shadow:3px_3px_6px_0px_#a3b1c6,_-3px_-3px_6px_0px_rgba(255,255,255,0.6)] active:[box-shadow:inset_3px_3px_6px_0px_rgba(163,177,198,0.4),inset_-3px_-3px_6px_0px_rgba(255,255,255,0.6)]';
@@ -288,6 +215,7 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
         </div>
       </nav>
 
+      <SubmissionCommentsProvider submissionId={params.submissionId}>
       <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
         <Card className="bg-[#e0e5ec] shadow-none border-0">
           <CardContent className="space-y-2">
@@ -296,18 +224,100 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
               <p className="text-[#6b7280]">{template.description}</p>
             )}
             <div className="flex flex-wrap gap-3 text-sm text-[#6b7280]">
-              <span>Version {template.version}</span>
+              <span>
+                Version {template.version}
+                {templateVersionNumber !== null && ` (published #${templateVersionNumber})`}
+              </span>
               <span>Created {formatDate(createdAt)}</span>
               <span>Updated {formatDate(updatedAt)}</span>
               <span>Submitted {formatDate(submittedAt)}</span>
-              {submittedBy && <span>Submitted by {submittedBy}</span>}
+              {submittedByLabel && <span>Submitted by {submittedByLabel}</span>}
+              {reviewedAt && (
+                <span>
+                  Reviewed {formatDate(reviewedAt)}
+                  {reviewedByLabel && ` by ${reviewedByLabel}`}
+                </span>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {(awaitingReview || reviews.length > 0) && (
+          <Card className="bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl">
+            <CardHeader>
+              <CardTitle className="text-base text-[#353535]">Review</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {awaitingReview && (
+                <SubmissionReviewPanel
+                  submissionId={params.submissionId}
+                  reviewerId={reviewerId}
+                  reviewerLabel={reviewerLabel}
+                  currentUserId={user?.id ?? null}
+                  canReview={canReview}
+                  reviewers={reviewers}
+                  questions={reviewQuestions}
+                />
+              )}
+              {reviews.length > 0 && (
+                <ol className="space-y-3">
+                  {[...reviews].reverse().map((review) => {
+                    const commentEntries = Object.entries(review.questionComments);
+                    return (
+                      <li key={review.id} className="rounded-2xl bg-[#f8fafc] p-4 text-sm text-[#353535]">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="font-semibold">
+                            {REVIEW_DECISION_LABELS[review.decision]}
+                            {review.assigneeLabel && `: ${review.assigneeLabel}`}
+                          </span>
+                          <span className="text-xs text-[#6b7280]">
+                            {review.actorLabel} · {formatDate(review.createdAt)}
+                            {review.fromStatus !== review.toStatus && ` · ${review.fromStatus} → ${review.toStatus}`}
+                          </span>
+                        </div>
+                        {review.summary && <p className="mt-2 whitespace-pre-wrap">{review.summary}</p>}
+                        {commentEntries.length > 0 && (
+                          <dl className="mt-2 space-y-1">
+                            {commentEntries.map(([fieldCode, comment]) => (
+                              <div key={fieldCode}>
+                                <dt className="font-medium">{questionLabels.get(fieldCode) ?? fieldCode}</dt>
+                                <dd className="whitespace-pre-wrap text-[#6b7280]">{comment}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card
+          id="revisions"
+          className="bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl"
+        >
+          <CardHeader>
+            <CardTitle className="text-base text-[#353535]">Revision history</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RevisionHistory
+              submissionId={params.submissionId}
+              revisions={revisions}
+              questions={revisionQuestions}
+              comparison={comparison}
+            />
+          </CardContent>
+        </Card>
+
+        {scoreSections.length > 0 && (
         <Card className="bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl">
           <CardHeader>
-            <CardTitle className="text-base text-[#353535]">Impact &amp; Value Scoring Matrix</CardTitle>
+            <CardTitle className="text-base text-[#353535]">
+              {scoreSections.map((group) => group.label).join(' & ')} Scoring Matrix
+            </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
             <Table
@@ -317,155 +327,138 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                 <TableHeader>
                   <TableRow>
                     <TableHead>Criteria</TableHead>
-                    <TableHead className="text-right">Score (0-3)</TableHead>
+                    <TableHead className="text-right">Score (0-{maxScore})</TableHead>
                     <TableHead className="text-center">Weight</TableHead>
                     <TableHead className="text-right">Weighted Total</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  <TableRow className="bg-blue-100">
-                    <TableCell colSpan={4} className="font-semibold text-blue-800 text-sm">
-                      Impact
-                    </TableCell>
-                  </TableRow>
-                  {impactRows.map((row) => (
-                    <TableRow key={row.criteria} className="bg-blue-50">
-                      <TableCell>
-                        <div className="space-y-1">
-                          <span className="font-medium text-[#1f2937]">{row.criteria}</span>
-                          {row.description && (
-                            <p className="text-xs text-[#6b7280]">{row.description}</p>
-                          )}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right font-mono">{row.score}</TableCell>
-                      <TableCell className="text-center">{SCORING_WEIGHT_LABEL}</TableCell>
-                      <TableCell className="text-right font-semibold font-mono">{row.total}</TableCell>
-                    </TableRow>
-                  ))}
-
-                  <TableRow className="bg-green-100">
-                    <TableCell colSpan={4} className="font-semibold text-green-800 text-sm">
-                      Value
-                    </TableCell>
-                  </TableRow>
-                  {valueRows.map((row) => (
-                    <TableRow key={row.criteria} className="bg-green-50">
-                      <TableCell>
-                        <div className="space-y-1">
-                          <span className="font-medium text-[#1f2937]">{row.criteria}</span>
-                          {row.description && (
-                            <p className="text-xs text-[#6b7280]">{row.description}</p>
-                          )}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right font-mono">{row.score}</TableCell>
-                      <TableCell className="text-center">{SCORING_WEIGHT_LABEL}</TableCell>
-                      <TableCell className="text-right font-semibold font-mono">{row.total}</TableCell>
-                    </TableRow>
-                  ))}
+                  {scoreSections.map((group, index) => {
+                    const classes = SECTION_ROW_CLASSES[index % SECTION_ROW_CLASSES.length];
+                    return [
+                      <TableRow key={`${group.key}-header`} className={classes.header}>
+                        <TableCell colSpan={4} className={`font-semibold ${classes.text} text-sm`}>
+                          {group.label}
+                        </TableCell>
+                      </TableRow>,
+                      ...group.criteria.map((row) => {
+                        const subgroup = row.group ? groupsByKey.get(row.group) : undefined;
+                        return (
+                          <TableRow key={`${group.key}-${row.label}`} className={classes.row}>
+                            <TableCell>
+                              <div className="space-y-1">
+                                <span className="font-medium text-[#1f2937]">
+                                  {row.label}
+                                  {subgroup?.aggregation === 'average' ? ' (Average of sub-criteria)' : ''}
+                                </span>
+                                {row.description && (
+                                  <p className="text-xs text-[#6b7280]">{row.description}</p>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{formatScore(row.score)}</TableCell>
+                            <TableCell className="text-center">{formatCriterionWeight(group, row)}</TableCell>
+                            <TableCell className="text-right font-semibold font-mono">
+                              {row.total === null ? '—' : formatScore(row.total)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      }),
+                    ];
+                  })}
                 </TableBody>
             </Table>
 
             <div className="grid md:grid-cols-3 gap-6">
-              <div className="md:col-span-2 space-y-4">
-                <div className="rounded-2xl border-0 bg-[#f8fafc] p-5 [box-shadow:5px_5px_12px_rgba(163,177,198,0.25),-5px_-5px_12px_rgba(255,255,255,0.7)]">
-                  <h3 className="text-sm font-semibold text-[#1f2937]">Market Sub-criteria</h3>
-                  <div className="mt-3 space-y-3">
-                    {marketSubCriteria.map((item) => (
-                      <div key={item.label} className="flex items-start justify-between gap-4">
-                        <div>
-                          <p className="text-sm font-medium text-[#1f2937]">{item.label}</p>
-                          {item.description && (
-                            <p className="text-xs text-[#6b7280]">{item.description}</p>
-                          )}
+              <div className={`${scoring.matrix ? 'md:col-span-2' : 'md:col-span-3'} space-y-4`}>
+                {subgroups.map((subgroup) => (
+                  <div
+                    key={subgroup.key}
+                    className="rounded-2xl border-0 bg-[#f8fafc] p-5 [box-shadow:5px_5px_12px_rgba(163,177,198,0.25),-5px_-5px_12px_rgba(255,255,255,0.7)]"
+                  >
+                    <h3 className="text-sm font-semibold text-[#1f2937]">{subgroup.label} Sub-criteria</h3>
+                    <div className="mt-3 space-y-3">
+                      {subgroup.criteria.map((item) => (
+                        <div key={item.label} className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-medium text-[#1f2937]">{item.label}</p>
+                            {item.description && (
+                              <p className="text-xs text-[#6b7280]">{item.description}</p>
+                            )}
+                          </div>
+                          <span className="text-sm font-semibold font-mono text-[#1f2937]">
+                            {formatScore(item.score)}
+                          </span>
                         </div>
-                        <span className="text-sm font-semibold font-mono text-[#1f2937]">
-                          {item.score}
-                        </span>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
+                ))}
 
                 <div className="rounded-2xl border-0 bg-[#f8fafc] p-5 [box-shadow:5px_5px_12px_rgba(163,177,198,0.25),-5px_-5px_12px_rgba(255,255,255,0.7)]">
                   <h3 className="text-sm font-semibold text-[#1f2937]">Score Summary</h3>
                   <dl className="mt-3 grid gap-3 text-sm text-[#1f2937]">
-                    <div className="flex justify-between">
-                      <dt>Impact Score</dt>
-                      <dd className="font-semibold">{formatScore(displayScores.impactScore)}</dd>
-                    </div>
-                    <div className="flex justify-between">
-                      <dt>Value Score</dt>
-                      <dd className="font-semibold">{formatScore(displayScores.valueScore)}</dd>
-                    </div>
-                    <div className="flex justify-between">
-                      <dt>Market Score</dt>
-                      <dd className="font-semibold">{formatScore(displayScores.marketScore)}</dd>
-                    </div>
-                    <div className="flex justify-between">
-                      <dt>Overall Score</dt>
-                      <dd className="font-semibold">{formatScore(displayScores.overallScore)}</dd>
-                    </div>
+                    {[...summaryGroups, ...subgroups].map((group) => (
+                      <div key={group.key} className="flex justify-between">
+                        <dt>{group.label} Score</dt>
+                        <dd className="font-semibold">{formatScore(displayValue(group))}</dd>
+                      </div>
+                    ))}
                   </dl>
                 </div>
               </div>
 
+              {scoring.matrix && matrixPosition && (
               <div className="rounded-2xl border-0 bg-[#f8fafc] p-5 space-y-4 [box-shadow:5px_5px_12px_rgba(163,177,198,0.25),-5px_-5px_12px_rgba(255,255,255,0.7)]">
-                <h3 className="text-sm font-semibold text-[#1f2937]">Impact vs Value Matrix</h3>
+                <h3 className="text-sm font-semibold text-[#1f2937]">
+                  {scoring.matrix.x.label} vs {scoring.matrix.y.label} Matrix
+                </h3>
                 <div className="relative rounded-3xl border-0 bg-white p-6 [box-shadow:6px_6px_14px_rgba(163,177,198,0.3),-6px_-6px_14px_rgba(255,255,255,0.75)]">
                   <div className="relative w-full h-64 border-2 border-gray-300">
-                    <div className="absolute inset-0 grid grid-cols-2 grid-rows-2 border border-gray-200">
-                      <div className="flex items-center justify-center bg-gray-100 text-xs font-medium text-gray-600">
-                        N/A
-                      </div>
-                      <div className="flex items-center justify-center bg-blue-100 text-xs font-medium text-blue-800">
-                        Proceed
-                      </div>
-                      <div className="flex items-center justify-center bg-red-100 text-xs font-medium text-red-800">
-                        Close
-                      </div>
-                      <div className="flex items-center justify-center bg-yellow-100 text-xs font-medium text-yellow-800">
-                        Alternative Pathway
-                      </div>
-                    </div>
+                    <RecommendationGrid rules={scoring.recommendationRules} />
                     <div
                       className="absolute w-3 h-3 bg-primary rounded-full transform -translate-x-1/2 -translate-y-1/2 z-10"
                       style={{
-                        left: `${(matrixPosition.x / 3) * 100}%`,
-                        bottom: `${(matrixPosition.y / 3) * 100}%`,
+                        left: `${(matrixPosition.x / maxScore) * 100}%`,
+                        bottom: `${(matrixPosition.y / maxScore) * 100}%`,
                       }}
                     />
                     <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 text-sm font-medium">
-                      IMPACT
+                      {scoring.matrix.x.label.toUpperCase()}
                     </div>
                     <div className="absolute -left-8 top-1/2 transform -translate-y-1/2 -rotate-90 text-sm font-medium">
-                      VALUE
+                      {scoring.matrix.y.label.toUpperCase()}
                     </div>
                     <div className="absolute -bottom-6 left-0 text-xs text-gray-500">0</div>
                     <div className="absolute -bottom-6 left-1/2 transform -translate-x-1/2 text-xs text-gray-500">
-                      1.5
+                      {maxScore / 2}
                     </div>
-                    <div className="absolute -bottom-6 right-0 text-xs text-gray-500">3</div>
+                    <div className="absolute -bottom-6 right-0 text-xs text-gray-500">{maxScore}</div>
                     <div className="absolute -left-6 bottom-0 text-xs text-gray-500">0</div>
                     <div className="absolute -left-6 top-1/2 transform -translate-y-1/2 text-xs text-gray-500">
-                      1.5
+                      {maxScore / 2}
                     </div>
-                    <div className="absolute -left-6 top-0 text-xs text-gray-500">3</div>
+                    <div className="absolute -left-6 top-0 text-xs text-gray-500">{maxScore}</div>
                   </div>
                 </div>
-                <div className={`rounded-2xl px-4 py-3 text-center ${getRecommendationColorClasses(displayScores.recommendation)} bg-opacity-80 [box-shadow:4px_4px_10px_rgba(163,177,198,0.25),-4px_-4px_10px_rgba(255,255,255,0.7)]`}>
+                <RecommendationLegend
+                  rules={scoring.recommendationRules}
+                  ruleSetLabel={describeRecommendationRuleSet(scoring.recommendationRuleSet)}
+                />
+                <div className={`rounded-2xl px-4 py-3 text-center ${recommendationClasses} bg-opacity-80 [box-shadow:4px_4px_10px_rgba(163,177,198,0.25),-4px_-4px_10px_rgba(255,255,255,0.7)]`}>
                   <p className="text-sm font-semibold uppercase tracking-wide">
-                    {displayScores.recommendation}
+                    {scoring.recommendation}
                   </p>
                   <p className="text-xs text-[#1f2937] mt-1">
-                    {displayScores.recommendationText}
+                    {scoring.recommendationText}
                   </p>
                 </div>
               </div>
+              )}
             </div>
           </CardContent>
         </Card>
+        )}
 
         {sortedSections.map((section) => {
           const questions = [...section.questions].sort((a, b) => a.order - b.order);
@@ -513,6 +506,11 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
                                   )
                                 : renderSimpleValue(question, responseValue)}
                             </div>
+                            <QuestionComments
+                              questionCode={question.fieldCode}
+                              label={question.label}
+                              rowCount={isRepeatable ? repeatGroupValue.length : 0}
+                            />
                           </div>
                         </CardContent>
                       </Card>
@@ -523,7 +521,33 @@ export default async function SubmissionDetailPage({ params }: SubmissionDetailP
             </Card>
           );
         })}
+
+        <Card className="bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-base text-[#353535]">Attachments</CardTitle>
+            {attachmentList.techId && (
+              <p className="text-sm text-[#6b7280]">
+                Files on{' '}
+                <Link
+                  href={`/technologies/${encodeURIComponent(attachmentList.techId)}`}
+                  className="font-medium text-[#353535] hover:underline"
+                >
+                  {attachmentList.techId}
+                </Link>
+                , including uploads from this submission.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <AttachmentPanel
+              attachments={attachmentList.attachments}
+              techId={attachmentList.techId}
+              submissionId={params.submissionId}
+            />
+          </CardContent>
+        </Card>
       </div>
+      </SubmissionCommentsProvider>
     </div>
   );
 }
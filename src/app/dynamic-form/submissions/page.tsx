@@ -5,13 +5,15 @@ import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { CheckCircle, Clock, Download, Eye, FileText, Home, Loader2, Hammer, ClipboardList } from 'lucide-react';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 import { getUserSubmissions } from '../actions';
-import { getClientLogger, getOrCreateSessionId } from '@/lib/session';
+import { getClientLogger } from '@/lib/session';
 
 interface SubmissionSummary {
   id: string;
@@ -57,6 +59,7 @@ function SubmissionsContent() {
   const [submissions, setSubmissions] = useState<SubmissionSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [includeComments, setIncludeComments] = useState(false);
   const [showSuccessBanner, setShowSuccessBanner] = useState(justSubmitted);
 
   const navButtonClass = 'h-10 px-5 rounded-full text-[15px] font-medium gap-2';
@@ -68,7 +71,7 @@ function SubmissionsContent() {
   const loadSubmissions = useCallback(async () => {
     setLoading(true);
     try {
-      const result = await getUserSubmissions(getOrCreateSessionId(), 'all');
+      const result = await getUserSubmissions('all');
       if (result.success && result.submissions) {
         setSubmissions(
           result.submissions.map((submission) => ({
@@ -106,7 +109,7 @@ function SubmissionsContent() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ submissionId }),
+        body: JSON.stringify({ submissionId, includeComments }),
       });
 
       if (!response.ok) {
@@ -197,6 +200,16 @@ function SubmissionsContent() {
               <p className="text-[#6b7280]">
                 Review every submitted evaluation. Exports include complete responses and scoring visuals.
               </p>
+              <div className="flex items-center gap-2 pt-2">
+                <Checkbox
+                  id="export-include-comments"
+                  checked={includeComments}
+                  onCheckedChange={(checked) => setIncludeComments(checked === true)}
+                />
+                <Label htmlFor="export-include-comments" className="text-sm text-[#353535]">
+                  Include answer comments in PDF exports
+                </Label>
+              </div>
             </div>
           </CardContent>
         </Card>
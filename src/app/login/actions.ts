@@ -0,0 +1,56 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { z } from 'zod'
+import { getAuthProvider } from '@/lib/auth/providers'
+import { createSession, destroySession } from '@/lib/auth/session'
+
+const signInSchema = z.object({
+  email: z.string().trim().min(1, 'Email is required'),
+  password: z.string().min(1, 'Password is required'),
+})
+
+type ActionResult<T = void> =
+  | { success: true; data?: T }
+  | { success: false; error: string }
+
+/**
+ * Only allow same-origin relative redirects after sign-in.
+ */
+function safeRedirectTarget(next: string | undefined) {
+  if (!next || !next.startsWith('/') || next.startsWith('//')) {
+    return '/'
+  }
+  return next
+}
+
+export async function signInAction(
+  input: { email: string; password: string },
+  next?: string
+): Promise<ActionResult<{ redirectTo: string }>> {
+  const parsed = signInSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid credentials' }
+  }
+
+  try {
+    const provider = getAuthProvider('local')
+    const user = await provider?.authenticate(parsed.data)
+    if (!user) {
+      return { success: false, error: 'Invalid email or password' }
+    }
+
+    const requestHeaders = await headers()
+    await createSession(user.id, requestHeaders.get('user-agent'))
+    return { success: true, data: { redirectTo: safeRedirectTarget(next) } }
+  } catch (error) {
+    console.error('signInAction failed', error)
+    return { success: false, error: 'Unable to sign in right now' }
+  }
+}
+
+export async function signOutAction() {
+  await destroySession()
+  redirect('/login')
+}
@@ -2,6 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { BarChart3, ClipboardCheck, Database, Edit, Timer } from "lucide-react";
 import Link from "next/link";
+import { signOutAction } from "@/app/login/actions";
 
 export default function Home() {
   return (
@@ -18,12 +19,23 @@ export default function Home() {
               <Link href="/" className="text-foreground hover:text-primary border-b-2 border-primary pb-1">
                 Home
               </Link>
+              <Link href="/technologies" className="text-muted-foreground hover:text-foreground">
+                Portfolio
+              </Link>
               <Link href="/dynamic-form/builder" className="text-muted-foreground hover:text-foreground">
                 Builder
               </Link>
+              <Link href="/search" className="text-muted-foreground hover:text-foreground">
+                Search
+              </Link>
               <Link href="/dynamic-form">
                 <Button>Start Evaluation</Button>
               </Link>
+              <form action={signOutAction}>
+                <Button type="submit" variant="ghost">
+                  Sign out
+                </Button>
+              </form>
             </div>
           </div>
         </div>
@@ -0,0 +1,130 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Home } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SearchFilterBar } from '@/components/search/SearchFilterBar';
+import { getSessionUser } from '@/lib/auth/session';
+import { FORM_PURPOSE_LABELS, STAGE_LABELS } from '@/lib/technology/constants';
+import { HighlightSegment, SearchResult, parseSearchFilters, searchAll } from '@/lib/search/full-text';
+
+export const dynamic = 'force-dynamic';
+
+interface SearchPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const navButtonClass =
+  'px-3 py-1.5 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] hover:[box-shadow:3px_3px_6px_0px_#a3b1c6,_-3px_-3px_6px_0px_rgba(255,255,255,0.6)] active:[box-shadow:inset_3px_3px_6px_0px_rgba(163,177,198,0.4),inset_-3px_-3px_6px_0px_rgba(255,255,255,0.6)]';
+
+const cardClass =
+  'bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl';
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded bg-yellow-100 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function resultHref(result: SearchResult) {
+  return result.kind === 'technology'
+    ? `/technologies/${encodeURIComponent(result.techId)}`
+    : `/dynamic-form/submissions/${encodeURIComponent(result.id)}`;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const filters = parseSearchFilters(await searchParams);
+  const user = await getSessionUser();
+  const results = await searchAll(filters, user?.id ?? null);
+
+  return (
+    <div className="min-h-screen bg-[#e0e5ec]">
+      <nav className="bg-[#e0e5ec] border-0 shadow-none">
+        <div className="container mx-auto px-4 py-4 max-w-5xl">
+          <div className="flex items-center gap-2">
+            <Link href="/" className={navButtonClass}>
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <Card className="bg-[#e0e5ec] shadow-none border-0">
+          <CardContent className="space-y-1">
+            <h1 className="text-2xl font-bold text-[#353535]">Search</h1>
+            <p className="text-[#6b7280]">
+              {filters.query
+                ? `${results.length} ${results.length === 1 ? 'result' : 'results'} for “${filters.query}”`
+                : 'Technologies, triage narratives, competitors, experts and submission answers'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={cardClass}>
+          <CardHeader>
+            <CardTitle className="text-base text-[#353535]">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Suspense>
+              <SearchFilterBar />
+            </Suspense>
+          </CardContent>
+        </Card>
+
+        {filters.query && (
+          <Card className={cardClass}>
+            <CardContent className="pt-6">
+              {results.length === 0 ? (
+                <p className="text-sm text-[#6b7280]">Nothing matches this search.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {results.map((result) => (
+                    <li key={`${result.kind}-${result.id}`} className="rounded-2xl bg-[#f8fafc] p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <Link href={resultHref(result)} className="font-medium text-[#353535] hover:underline">
+                          <Highlighted segments={result.titleHighlight} />
+                          {result.kind === 'technology' && (
+                            <span className="ml-2 text-xs text-[#6b7280]">{result.techId}</span>
+                          )}
+                        </Link>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="secondary">
+                            {result.kind === 'technology'
+                              ? `Technology · ${STAGE_LABELS[result.stage]}`
+                              : `Submission · ${FORM_PURPOSE_LABELS[result.purpose]}`}
+                          </Badge>
+                          <Badge variant="outline">{result.status}</Badge>
+                          <span className="text-xs text-[#6b7280]">
+                            Updated {format(result.updatedAt, 'MMM d, yyyy')}
+                          </span>
+                        </div>
+                      </div>
+                      {result.snippet.length > 0 && (
+                        <p className="mt-2 text-sm text-[#6b7280]">
+                          <Highlighted segments={result.snippet} />
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
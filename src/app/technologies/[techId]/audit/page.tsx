@@ -0,0 +1,112 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, Home } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatAuditValue, getTechnologyAuditTrail } from '@/lib/technology/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface TechnologyAuditPageProps {
+  params: Promise<{ techId: string }>;
+}
+
+const navButtonClass =
+  'px-3 py-1.5 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] hover:[box-shadow:3px_3px_6px_0px_#a3b1c6,_-3px_-3px_6px_0px_rgba(255,255,255,0.6)] active:[box-shadow:inset_3px_3px_6px_0px_rgba(163,177,198,0.4),inset_-3px_-3px_6px_0px_rgba(255,255,255,0.6)]';
+
+export default async function TechnologyAuditPage({ params }: TechnologyAuditPageProps) {
+  const { techId } = await params;
+  const trail = await getTechnologyAuditTrail(decodeURIComponent(techId));
+
+  if (!trail) {
+    notFound();
+  }
+
+  const { technology, entries } = trail;
+
+  return (
+    <div className="min-h-screen bg-[#e0e5ec]">
+      <nav className="bg-[#e0e5ec] border-0 shadow-none">
+        <div className="container mx-auto px-4 py-4 max-w-5xl">
+          <div className="flex items-center gap-2">
+            <Link href="/" className={navButtonClass}>
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Link>
+            <Link href={`/technologies/${encodeURIComponent(technology.techId)}`} className={navButtonClass}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Technology
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <Card className="bg-[#e0e5ec] shadow-none border-0">
+          <CardContent className="space-y-1">
+            <h1 className="text-2xl font-bold text-[#353535]">Change history</h1>
+            <p className="text-[#6b7280]">
+              {technology.techId} · {technology.technologyName}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl">
+          <CardHeader>
+            <CardTitle className="text-base text-[#353535]">Field changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-[#6b7280]">No changes have been recorded for this technology yet.</p>
+            ) : (
+              <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Old value</TableHead>
+                    <TableHead>New value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(entry.changedAt, 'MMM d, yyyy h:mm a')}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col gap-1">
+                          <span>{entry.changedByLabel}</span>
+                          {entry.persona && (
+                            <Badge variant="outline" className="w-fit text-xs">
+                              {entry.persona}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col gap-1">
+                          <code className="text-xs">{entry.fieldPath}</code>
+                          {entry.stage && <span className="text-xs text-[#6b7280]">{entry.stage}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-pre-wrap break-words text-sm text-[#6b7280]">
+                        {formatAuditValue(entry.oldValue)}
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-pre-wrap break-words text-sm">
+                        {formatAuditValue(entry.newValue)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, ClipboardCheck, History, Home } from 'lucide-react';
+import { TechStage, type Prisma } from '@prisma/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StageTransitionControls } from '@/components/technology/StageTransitionControls';
+import { AttachmentPanel } from '@/components/technology/AttachmentPanel';
+import { getTechnologyDetail } from '@/app/technologies/actions';
+import { getSessionUser } from '@/lib/auth/session';
+import { PERMISSIONS, hasPermission } from '@/lib/auth/permissions';
+import { STAGE_LABELS } from '@/lib/technology/constants';
+import { formatAuditValue } from '@/lib/technology/audit';
+
+export const dynamic = 'force-dynamic';
+
+interface TechnologyDetailPageProps {
+  params: Promise<{ techId: string }>;
+}
+
+const navButtonClass =
+  'px-3 py-1.5 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] hover:[box-shadow:3px_3px_6px_0px_#a3b1c6,_-3px_-3px_6px_0px_rgba(255,255,255,0.6)] active:[box-shadow:inset_3px_3px_6px_0px_rgba(163,177,198,0.4),inset_-3px_-3px_6px_0px_rgba(255,255,255,0.6)]';
+
+const cardClass =
+  'bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl';
+
+function snapshotReason(snapshot: Prisma.JsonValue): string | null {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    return null;
+  }
+  const transition = (snapshot as Prisma.JsonObject).transition;
+  if (!transition || typeof transition !== 'object' || Array.isArray(transition)) {
+    return null;
+  }
+  const reason = (transition as Prisma.JsonObject).reason;
+  return typeof reason === 'string' && reason.length > 0 ? reason : null;
+}
+
+function formatDate(value: Date | null | undefined) {
+  return value ? format(value, 'MMM d, yyyy h:mm a') : null;
+}
+
+interface SectionCardProps {
+  title: string;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+function SectionCard({ title, action, children }: SectionCardProps) {
+  return (
+    <Card className={cardClass}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base text-[#353535]">{title}</CardTitle>
+        {action}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function EmptyNote({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-[#6b7280]">{children}</p>;
+}
+
+function DetailRow({ label, value }: { label: string; value: string | number | null | undefined }) {
+  return (
+    <div className="space-y-1">
+      <dt className="text-xs font-medium uppercase tracking-wide text-[#6b7280]">{label}</dt>
+      <dd className="text-sm text-[#353535] whitespace-pre-wrap">
+        {value === null || value === undefined || value === '' ? '—' : value}
+      </dd>
+    </div>
+  );
+}
+
+export default async function TechnologyDetailPage({ params }: TechnologyDetailPageProps) {
+  const { techId } = await params;
+  const detail = await getTechnologyDetail(decodeURIComponent(techId));
+
+  if (!detail) {
+    notFound();
+  }
+
+  const { technology, transitions, stageHistory, recentAudit, attachments, submissions, viabilityTemplate } = detail;
+  const user = await getSessionUser();
+  const canTransition = user ? await hasPermission(user.id, PERMISSIONS.TECHNOLOGY_TRANSITION) : false;
+  const triage = technology.triageStage;
+  const viability = technology.viabilityStage;
+  const auditHref = `/technologies/${encodeURIComponent(technology.techId)}/audit`;
+  // The viability questionnaire opens once the technology has been promoted out of triage
+  const viabilityHref =
+    viabilityTemplate && (technology.currentStage === TechStage.VIABILITY || viability)
+      ? `/dynamic-form?templateId=${encodeURIComponent(viabilityTemplate.id)}&techId=${encodeURIComponent(technology.techId)}`
+      : null;
+
+  return (
+    <div className="min-h-screen bg-[#e0e5ec]">
+      <nav className="bg-[#e0e5ec] border-0 shadow-none">
+        <div className="container mx-auto px-4 py-4 max-w-5xl">
+          <div className="flex items-center gap-2">
+            <Link href="/" className={navButtonClass}>
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Link>
+            <Link href="/technologies" className={navButtonClass}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Portfolio
+            </Link>
+            <Link href={auditHref} className={navButtonClass}>
+              <History className="mr-2 h-4 w-4" />
+              Change history
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <Card className="bg-[#e0e5ec] shadow-none border-0">
+          <CardContent className="space-y-2">
+            <h1 className="text-2xl font-bold text-[#353535]">{technology.technologyName}</h1>
+            <div className="flex flex-wrap items-center gap-2 text-[#6b7280]">
+              <span>{technology.techId}</span>
+              <Badge variant="secondary">{STAGE_LABELS[technology.currentStage]}</Badge>
+              <Badge variant="outline">{technology.status}</Badge>
+            </div>
+          </CardContent>
+        </Card>
+
+        <SectionCard title="Stage">
+          <StageTransitionControls
+            techId={technology.techId}
+            rowVersion={technology.rowVersion}
+            transitions={transitions}
+            canTransition={canTransition}
+          />
+        </SectionCard>
+
+        <SectionCard title="Overview">
+          <dl className="grid gap-4 sm:grid-cols-2">
+            <DetailRow label="Description" value={technology.shortDescription} />
+            <DetailRow label="Domain / asset class" value={technology.domainAssetClass} />
+            <DetailRow label="Inventor" value={technology.inventorName} />
+            <DetailRow
+              label="Inventor title / department"
+              value={[technology.inventorTitle, technology.inventorDept].filter(Boolean).join(' · ')}
+            />
+            <DetailRow label="Reviewer" value={technology.reviewerName} />
+            <DetailRow label="Last modified" value={formatDate(technology.lastModifiedAt)} />
+          </dl>
+        </SectionCard>
+
+        <SectionCard title="Triage">
+          {!triage ? (
+            <EmptyNote>No triage has been recorded yet.</EmptyNote>
+          ) : (
+            <div className="space-y-6">
+              <dl className="grid gap-4 sm:grid-cols-2">
+                <DetailRow label="Recommendation" value={triage.recommendation} />
+                <DetailRow label="Recommendation notes" value={triage.recommendationNotes} />
+                <DetailRow label="Impact score" value={triage.impactScore.toFixed(2)} />
+                <DetailRow label="Value score" value={triage.valueScore.toFixed(2)} />
+                <DetailRow label="Technology overview" value={triage.technologyOverview} />
+                <DetailRow label={`Mission alignment (${triage.missionAlignmentScore})`} value={triage.missionAlignmentText} />
+                <DetailRow label={`Unmet need (${triage.unmetNeedScore})`} value={triage.unmetNeedText} />
+                <DetailRow label={`State of the art (${triage.stateOfArtScore})`} value={triage.stateOfArtText} />
+                <DetailRow label={`Market (${triage.marketScore})`} value={triage.marketOverview} />
+              </dl>
+
+              {triage.competitors.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-[#353535]">Competitors</h3>
+                  <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Company</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Revenue</TableHead>
+                        <TableHead>Notes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {triage.competitors.map((competitor) => (
+                        <TableRow key={competitor.id}>
+                          <TableCell className="text-sm">{competitor.company}</TableCell>
+                          <TableCell className="text-sm">{competitor.product ?? '—'}</TableCell>
+                          <TableCell className="text-sm">{competitor.revenue ?? '—'}</TableCell>
+                          <TableCell className="text-sm">{competitor.notes ?? '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {triage.experts.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-[#353535]">Subject matter experts</h3>
+                  <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Organization</TableHead>
+                        <TableHead>Expertise</TableHead>
+                        <TableHead>Recommendation</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {triage.experts.map((expert) => (
+                        <TableRow key={expert.id}>
+                          <TableCell className="text-sm">
+                            {expert.name}
+                            {expert.title && <span className="block text-xs text-[#6b7280]">{expert.title}</span>}
+                          </TableCell>
+                          <TableCell className="text-sm">{expert.organization ?? '—'}</TableCell>
+                          <TableCell className="text-sm">{expert.expertise ?? '—'}</TableCell>
+                          <TableCell className="text-sm">{expert.recommendation ?? '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </SectionCard>
+
+        <SectionCard
+          title="Viability"
+          action={
+            viabilityHref && (
+              <Link href={viabilityHref} className={navButtonClass}>
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                {viability ? 'Update assessment' : 'Start assessment'}
+              </Link>
+            )
+          }
+        >
+          {!viability ? (
+            <EmptyNote>No viability assessment has been recorded yet.</EmptyNote>
+          ) : (
+            <dl className="grid gap-4 sm:grid-cols-2">
+              <DetailRow label="Overall viability" value={viability.overallViability} />
+              <DetailRow
+                label="Technical / commercial score"
+                value={`${viability.technicalScore.toFixed(2)} / ${viability.commercialScore.toFixed(2)}`}
+              />
+              <DetailRow label="Technical feasibility" value={viability.technicalFeasibility} />
+              <DetailRow label="Regulatory pathway" value={viability.regulatoryPathway} />
+              <DetailRow label="Cost analysis" value={viability.costAnalysis} />
+              <DetailRow
+                label="Time to market"
+                value={viability.timeToMarket === null ? null : `${viability.timeToMarket} months`}
+              />
+              <DetailRow label="Resource requirements" value={viability.resourceRequirements} />
+              <DetailRow label="Risk assessment" value={viability.riskAssessment} />
+            </dl>
+          )}
+        </SectionCard>
+
+        <SectionCard title="Submissions">
+          {submissions.length === 0 ? (
+            <EmptyNote>No form submissions reference this technology.</EmptyNote>
+          ) : (
+            <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Form</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted by</TableHead>
+                  <TableHead>Updated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {submissions.map((submission) => (
+                  <TableRow key={submission.id}>
+                    <TableCell className="text-sm">
+                      <Link href={`/dynamic-form/submissions/${submission.id}`} className="hover:underline">
+                        {submission.template.name}
+                      </Link>
+                      <span className="block text-xs text-[#6b7280]">v{submission.template.version}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{submission.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{submission.submittedByLabel}</TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(submission.updatedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </SectionCard>
+
+        <SectionCard title="Attachments">
+          <AttachmentPanel attachments={attachments} techId={technology.techId} />
+        </SectionCard>
+
+        <SectionCard title="Stage history">
+          {stageHistory.length === 0 ? (
+            <EmptyNote>This technology has not changed stage yet.</EmptyNote>
+          ) : (
+            <ol className="space-y-3">
+              {stageHistory.map((entry) => {
+                const reason = snapshotReason(entry.snapshot);
+                return (
+                  <li key={entry.id} className="rounded-xl bg-[#f5f7fa] p-3 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{entry.changeType}</Badge>
+                      <span className="font-medium text-[#353535]">{STAGE_LABELS[entry.stage]}</span>
+                      <span className="text-[#6b7280]">
+                        by {entry.changedByLabel} · {formatDate(entry.changedAt)}
+                      </span>
+                    </div>
+                    {reason && <p className="mt-1 text-[#6b7280]">{reason}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </SectionCard>
+
+        <SectionCard
+          title="Recent changes"
+          action={
+            <Link href={auditHref} className="text-sm text-[#6b7280] hover:underline">
+              View all
+            </Link>
+          }
+        >
+          {recentAudit.length === 0 ? (
+            <EmptyNote>No changes have been recorded for this technology yet.</EmptyNote>
+          ) : (
+            <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>New value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentAudit.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(entry.changedAt)}</TableCell>
+                    <TableCell className="text-sm">{entry.changedByLabel}</TableCell>
+                    <TableCell>
+                      <code className="text-xs">{entry.fieldPath}</code>
+                    </TableCell>
+                    <TableCell className="max-w-xs whitespace-pre-wrap break-words text-sm">
+                      {formatAuditValue(entry.newValue)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </SectionCard>
+      </div>
+    </div>
+  );
+}
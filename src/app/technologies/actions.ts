@@ -0,0 +1,155 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { FormPurpose } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { PERMISSIONS, getPrimaryPersonaCode, requirePermission } from '@/lib/auth/permissions'
+import {
+  StageTransitionError,
+  TRANSITION_ACTIONS,
+  TransitionAction,
+  evaluateAllTransitions,
+  loadTriageRecommendationRules,
+  transitionTechnology,
+} from '@/lib/technology/stage-transitions'
+import { OptimisticLockError } from '@/lib/technology/types'
+import { findActiveTemplate } from '@/lib/technology/service'
+
+type ActionResult<T = void> =
+  | { success: true; data?: T }
+  | { success: false; error: string; blockers?: string[] }
+
+const transitionSchema = z.object({
+  techId: z.string().min(1),
+  action: z.enum(TRANSITION_ACTIONS),
+  reason: z.string().trim().max(1000).optional(),
+  expectedRowVersion: z.number().int().positive().optional(),
+})
+
+const RECENT_AUDIT_LIMIT = 10
+
+/**
+ * Submissions whose technology-ID answer (a question bound to technology.techId) matches.
+ */
+async function getLinkedSubmissions(techId: string) {
+  const questions = await prisma.formQuestion.findMany({
+    where: { dictionary: { bindingPath: 'technology.techId' } },
+    select: { fieldCode: true },
+  })
+  const questionCodes = Array.from(new Set(questions.map((question) => question.fieldCode)))
+  if (questionCodes.length === 0) {
+    return []
+  }
+
+  return prisma.formSubmission.findMany({
+    where: {
+      responses: { some: { questionCode: { in: questionCodes }, value: { equals: techId } } },
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      status: true,
+      submittedBy: true,
+      submittedAt: true,
+      updatedAt: true,
+      template: { select: { name: true, version: true } },
+    },
+  })
+}
+
+export async function getTechnologyDetail(techId: string) {
+  const technology = await prisma.technology.findUnique({
+    where: { techId },
+    include: {
+      triageStage: { include: { competitors: true, experts: true } },
+      viabilityStage: true,
+      attachments: { orderBy: { uploadedAt: 'desc' } },
+      auditLog: { orderBy: [{ changedAt: 'desc' }, { fieldPath: 'asc' }], take: RECENT_AUDIT_LIMIT },
+      stageHistory: {
+        orderBy: { changedAt: 'desc' },
+        select: { id: true, stage: true, changeType: true, changedBy: true, changedAt: true, snapshot: true },
+      },
+    },
+  })
+
+  if (!technology) {
+    return null
+  }
+
+  const { stageHistory, auditLog, attachments, ...aggregate } = technology
+  const [submissions, viabilityTemplate, recommendationRules] = await Promise.all([
+    getLinkedSubmissions(technology.techId),
+    findActiveTemplate(FormPurpose.VIABILITY),
+    loadTriageRecommendationRules(technology.techId),
+  ])
+
+  const actorIds = Array.from(
+    new Set([
+      ...stageHistory.map((entry) => entry.changedBy),
+      ...auditLog.map((entry) => entry.changedBy),
+      ...attachments.map((attachment) => attachment.uploadedBy),
+      ...submissions.map((submission) => submission.submittedBy),
+    ])
+  )
+  const users = actorIds.length
+    ? await prisma.user.findMany({
+        where: { id: { in: actorIds } },
+        select: { id: true, name: true, email: true },
+      })
+    : []
+  const labels = new Map(users.map((user) => [user.id, user.name ?? user.email]))
+  const labelFor = (id: string) => labels.get(id) ?? id
+
+  return {
+    technology: aggregate,
+    transitions: evaluateAllTransitions(aggregate, recommendationRules),
+    viabilityTemplate,
+    stageHistory: stageHistory.map((entry) => ({ ...entry, changedByLabel: labelFor(entry.changedBy) })),
+    recentAudit: auditLog.map((entry) => ({ ...entry, changedByLabel: labelFor(entry.changedBy) })),
+    attachments: attachments.map((attachment) => ({
+      ...attachment,
+      uploadedByLabel: labelFor(attachment.uploadedBy),
+    })),
+    submissions: submissions.map((submission) => ({
+      ...submission,
+      submittedByLabel: labelFor(submission.submittedBy),
+    })),
+  }
+}
+
+export type TechnologyDetail = NonNullable<Awaited<ReturnType<typeof getTechnologyDetail>>>
+
+/**
+ * Promote, hold, resume or abandon a technology.
+ */
+export async function transitionTechnologyAction(input: {
+  techId: string
+  action: TransitionAction
+  reason?: string
+  expectedRowVersion?: number
+}): Promise<ActionResult<{ rowVersion: number }>> {
+  try {
+    const parsed = transitionSchema.parse(input)
+    const user = await requirePermission(PERMISSIONS.TECHNOLOGY_TRANSITION)
+    const persona = await getPrimaryPersonaCode(user.id)
+
+    const result = await transitionTechnology(parsed, { userId: user.id, persona })
+
+    revalidatePath(`/technologies/${encodeURIComponent(parsed.techId)}`)
+    revalidatePath('/technologies')
+    return { success: true, data: { rowVersion: result.rowVersion } }
+  } catch (error) {
+    if (error instanceof StageTransitionError) {
+      return { success: false, error: 'Transition not allowed', blockers: error.blockers }
+    }
+    if (error instanceof OptimisticLockError) {
+      return { success: false, error: 'conflict' }
+    }
+    console.error('transitionTechnologyAction failed', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unable to update technology stage',
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Home } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PortfolioFilterBar } from '@/components/technology/PortfolioFilterBar';
+import { STAGE_LABELS } from '@/lib/technology/constants';
+import {
+  PORTFOLIO_PAGE_SIZE,
+  getPortfolioFilterOptions,
+  listPortfolioTechnologies,
+  parsePortfolioFilters,
+} from '@/lib/technology/portfolio';
+
+export const dynamic = 'force-dynamic';
+
+interface TechnologiesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const navButtonClass =
+  'px-3 py-1.5 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] hover:[box-shadow:3px_3px_6px_0px_#a3b1c6,_-3px_-3px_6px_0px_rgba(255,255,255,0.6)] active:[box-shadow:inset_3px_3px_6px_0px_rgba(163,177,198,0.4),inset_-3px_-3px_6px_0px_rgba(255,255,255,0.6)]';
+
+const cardClass =
+  'bg-white border-0 [box-shadow:5px_5px_10px_0px_#a3b1c6,_-5px_-5px_10px_0px_rgba(255,255,255,0.6)] rounded-3xl';
+
+function formatScore(value: number | undefined) {
+  return value === undefined ? '—' : value.toFixed(2);
+}
+
+function pageHref(params: Record<string, string | string[] | undefined>, page: number) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (key !== 'page' && first) {
+      query.set(key, first);
+    }
+  });
+  if (page > 1) {
+    query.set('page', String(page));
+  }
+  const search = query.toString();
+  return search ? `/technologies?${search}` : '/technologies';
+}
+
+export default async function TechnologiesPage({ searchParams }: TechnologiesPageProps) {
+  const params = await searchParams;
+  const filters = parsePortfolioFilters(params);
+  const [{ technologies, total, page, pageCount }, options] = await Promise.all([
+    listPortfolioTechnologies(filters),
+    getPortfolioFilterOptions(),
+  ]);
+  const firstRow = (page - 1) * PORTFOLIO_PAGE_SIZE + 1;
+
+  return (
+    <div className="min-h-screen bg-[#e0e5ec]">
+      <nav className="bg-[#e0e5ec] border-0 shadow-none">
+        <div className="container mx-auto px-4 py-4 max-w-6xl">
+          <div className="flex items-center gap-2">
+            <Link href="/" className={navButtonClass}>
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Card className="bg-[#e0e5ec] shadow-none border-0">
+          <CardContent className="space-y-1">
+            <h1 className="text-2xl font-bold text-[#353535]">Technology portfolio</h1>
+            <p className="text-[#6b7280]">
+              {total} {total === 1 ? 'technology' : 'technologies'}
+              {pageCount > 1 && ` · showing ${firstRow}–${firstRow + technologies.length - 1}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={cardClass}>
+          <CardHeader>
+            <CardTitle className="text-base text-[#353535]">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Suspense>
+              <PortfolioFilterBar domains={options.domains} reviewers={options.reviewers} />
+            </Suspense>
+          </CardContent>
+        </Card>
+
+        <Card className={cardClass}>
+          <CardContent className="pt-6">
+            {technologies.length === 0 ? (
+              <p className="text-sm text-[#6b7280]">No technologies match these filters.</p>
+            ) : (
+              <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Technology</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Domain</TableHead>
+                    <TableHead>Reviewer</TableHead>
+                    <TableHead className="text-right">Impact</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Updated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {technologies.map((technology) => (
+                    <TableRow key={technology.id}>
+                      <TableCell className="text-sm">
+                        <Link
+                          href={`/technologies/${encodeURIComponent(technology.techId)}`}
+                          className="flex flex-col hover:underline"
+                        >
+                          <span className="font-medium text-[#353535]">{technology.technologyName}</span>
+                          <span className="text-xs text-[#6b7280]">{technology.techId}</span>
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{STAGE_LABELS[technology.currentStage]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{technology.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{technology.domainAssetClass}</TableCell>
+                      <TableCell className="text-sm">{technology.reviewerName}</TableCell>
+                      <TableCell className="text-right text-sm tabular-nums">
+                        {formatScore(technology.triageStage?.impactScore)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm tabular-nums">
+                        {formatScore(technology.triageStage?.valueScore)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(technology.updatedAt, 'MMM d, yyyy')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {pageCount > 1 && (
+              <div className="mt-4 flex items-center justify-between text-sm text-[#6b7280]">
+                <span>
+                  Page {page} of {pageCount}
+                </span>
+                <div className="flex gap-2">
+                  {page > 1 && (
+                    <Link href={pageHref(params, page - 1)} className={navButtonClass}>
+                      Previous
+                    </Link>
+                  )}
+                  {page < pageCount && (
+                    <Link href={pageHref(params, page + 1)} className={navButtonClass}>
+                      Next
+                    </Link>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,6 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { getOrCreateSessionId } from "@/lib/session";
 
 type SubmissionState = "idle" | "submitting";
 
@@ -62,7 +61,6 @@ export function FeedbackWidget() {
             pageUrl,
             message,
             contactInfo: contactInfo.trim() || undefined,
-            userId: getOrCreateSessionId(),
           }),
         });
 
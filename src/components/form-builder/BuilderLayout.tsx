@@ -7,10 +7,12 @@ import { TemplateDetail } from '@/app/dynamic-form/builder/actions'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { FORM_PURPOSE_LABELS } from '@/lib/technology/constants'
 import { SectionsPanel } from './SectionsPanel'
 import { SavePublishControls } from './SavePublishControls'
 import { TemplateSettingsModal } from './TemplateSettingsModal'
-import { CalendarClock, ChevronLeft, Layers, Settings2 } from 'lucide-react'
+import { RecommendationRulesModal } from './RecommendationRulesModal'
+import { CalendarClock, ChevronLeft, Grid2x2, Layers, Settings2 } from 'lucide-react'
 
 interface BuilderLayoutProps {
   template: TemplateDetail
@@ -21,7 +23,9 @@ export function BuilderLayout({ template, disabled = false }: BuilderLayoutProps
   const totalSections = template.sections.length
   const totalFields = template.sections.reduce((acc, section) => acc + section.questions.length, 0)
   const lastUpdated = formatDistanceToNow(template.updatedAt, { addSuffix: true })
+  const latestVersion = template.versions[0] ?? null
   const [settingsOpen, setSettingsOpen] = useState(false)
+  const [rulesOpen, setRulesOpen] = useState(false)
 
   return (
     <div className="space-y-8">
@@ -42,12 +46,28 @@ export function BuilderLayout({ template, disabled = false }: BuilderLayoutProps
             <Settings2 className="h-4 w-4" />
             Template settings
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRulesOpen(true)}
+            className="gap-2"
+          >
+            <Grid2x2 className="h-4 w-4" />
+            Recommendation rules
+          </Button>
         </div>
         <div className="flex items-center gap-2">
           <Badge variant={template.isActive ? 'default' : 'secondary'}>
             {template.isActive ? 'Active' : 'Draft'}
           </Badge>
+          <Badge variant="outline">{FORM_PURPOSE_LABELS[template.purpose]}</Badge>
           <Badge variant="outline">Version {template.version}</Badge>
+          <Badge variant="outline">
+            {latestVersion ? `Published #${latestVersion.version}` : 'Never published'}
+          </Badge>
+          {latestVersion && template.hasUnpublishedChanges && (
+            <Badge variant="secondary">Unpublished changes</Badge>
+          )}
           <Badge variant="outline">
             <Layers className="mr-1 h-3 w-3" /> {totalSections} sections • {totalFields} fields
           </Badge>
@@ -64,17 +84,35 @@ export function BuilderLayout({ template, disabled = false }: BuilderLayoutProps
             <span className="flex items-center gap-1">
               <CalendarClock className="h-4 w-4" /> Updated {lastUpdated}
             </span>
+            {latestVersion && (
+              <span>
+                Version #{latestVersion.version} ({latestVersion.versionLabel}) published{' '}
+                {formatDistanceToNow(latestVersion.publishedAt, { addSuffix: true })}
+              </span>
+            )}
             <span className="text-muted-foreground/80">Template ID: {template.id}</span>
           </div>
         </CardHeader>
         <CardContent className="flex flex-wrap gap-3">
-          <SavePublishControls templateId={template.id} isActive={template.isActive} disabled={disabled} />
+          <SavePublishControls
+            templateId={template.id}
+            isActive={template.isActive}
+            hasUnpublishedChanges={template.hasUnpublishedChanges}
+            versions={template.versions}
+            disabled={disabled}
+          />
+          {template.hasUnpublishedChanges && latestVersion && (
+            <p className="basis-full text-xs text-muted-foreground">
+              Edits are saved to the draft. The form keeps using version #{latestVersion.version} until you publish.
+            </p>
+          )}
         </CardContent>
       </Card>
 
       <SectionsPanel templateId={template.id} sections={template.sections} disabled={disabled} />
 
       <TemplateSettingsModal template={template} open={settingsOpen} onOpenChange={setSettingsOpen} />
+      <RecommendationRulesModal template={template} open={rulesOpen} onOpenChange={setRulesOpen} />
     </div>
   )
 }
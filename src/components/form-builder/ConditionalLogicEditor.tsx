@@ -0,0 +1,487 @@
+"use client"
+
+import { Plus, Trash2 } from 'lucide-react'
+import { FieldType } from '@prisma/client'
+import type {
+  ConditionalConfig,
+  ConditionalGroup,
+  ConditionalOperator,
+  ConditionalRule,
+} from '@/lib/form-engine/types'
+import { flattenConditionalRules } from '@/lib/form-engine/conditional-logic'
+import {
+  CONDITIONAL_ACTION_LABELS,
+  CONDITIONAL_OPERATOR_LABELS,
+  ConditionalFieldRef,
+  operatorsForField,
+  repeatGroupFieldTypes,
+} from '@/lib/form-builder/conditional-rules'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface ConditionalLogicEditorProps {
+  value: ConditionalConfig | null
+  onChange: (value: ConditionalConfig | null) => void
+  /** Fields that come before the one being configured */
+  fields: ConditionalFieldRef[]
+  errors?: string[]
+}
+
+// Nesting beyond this gets hard to read; deeper groups in stored JSON still load
+const MAX_GROUP_DEPTH = 2
+const ROW_COUNT_COLUMN = '__rows__'
+const NO_VALUE_OPERATORS = new Set<ConditionalOperator>(['exists', 'not_exists', 'not_empty'])
+const numericFieldTypes = new Set<FieldType>([
+  FieldType.INTEGER,
+  FieldType.DECIMAL,
+  FieldType.CURRENCY,
+  FieldType.PERCENTAGE,
+  FieldType.SCORING_0_3,
+  FieldType.SCORING_MATRIX,
+])
+
+function defaultValue(operator: ConditionalOperator, field?: ConditionalFieldRef): ConditionalRule['value'] {
+  if (NO_VALUE_OPERATORS.has(operator)) return null
+  if (operator === 'in' || operator === 'not_in') return []
+  if (operator === 'between') return [0, 0]
+  if (operator === 'count_greater_than') return 0
+  if (field && numericFieldTypes.has(field.type) && operator !== 'matches') return 0
+  if (field?.options.length && operator !== 'matches') return field.options[0].value
+  return ''
+}
+
+function createRule(field: ConditionalFieldRef, action: ConditionalRule['action']): ConditionalRule {
+  const operator = operatorsForField(field.type)[0]
+  return {
+    field: field.fieldCode,
+    operator,
+    value: defaultValue(operator, field),
+    action,
+    ...(repeatGroupFieldTypes.has(field.type) ? { source: 'repeat_group' as const } : {}),
+  }
+}
+
+function withAction(group: ConditionalGroup, action: ConditionalRule['action']): ConditionalGroup {
+  return {
+    ...group,
+    rules: group.rules.map((rule) => ({ ...rule, action })),
+    ...(group.groups ? { groups: group.groups.map((child) => withAction(child, action)) } : {}),
+  }
+}
+
+/** Drop groups left without rules so removing the last condition removes the group */
+function prune(group: ConditionalGroup): ConditionalGroup | null {
+  const groups = (group.groups ?? []).map(prune).filter((child): child is ConditionalGroup => child !== null)
+  if (group.rules.length === 0 && groups.length === 0) {
+    return null
+  }
+  return groups.length > 0 ? { logic: group.logic, rules: group.rules, groups } : { logic: group.logic, rules: group.rules }
+}
+
+function toNumber(raw: string): number {
+  const numeric = Number(raw)
+  return raw.trim() === '' || Number.isNaN(numeric) ? 0 : numeric
+}
+
+interface RuleValueInputProps {
+  rule: ConditionalRule
+  field?: ConditionalFieldRef
+  onChange: (value: ConditionalRule['value']) => void
+}
+
+function RuleValueInput({ rule, field, onChange }: RuleValueInputProps) {
+  if (NO_VALUE_OPERATORS.has(rule.operator)) {
+    return null
+  }
+
+  const options = rule.column ? [] : field?.options ?? []
+  const numeric =
+    rule.operator === 'count_greater_than' ||
+    rule.operator === 'greater_than' ||
+    rule.operator === 'less_than' ||
+    (field !== undefined && numericFieldTypes.has(field.type) && rule.operator !== 'matches')
+
+  if (rule.operator === 'between') {
+    const [min, max] = Array.isArray(rule.value) ? rule.value : [0, 0]
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          className="w-24"
+          aria-label="Minimum"
+          value={String(min ?? '')}
+          onChange={(event) => onChange([toNumber(event.target.value), Number(max ?? 0)])}
+        />
+        <span className="text-xs text-muted-foreground">and</span>
+        <Input
+          type="number"
+          className="w-24"
+          aria-label="Maximum"
+          value={String(max ?? '')}
+          onChange={(event) => onChange([Number(min ?? 0), toNumber(event.target.value)])}
+        />
+      </div>
+    )
+  }
+
+  if (rule.operator === 'in' || rule.operator === 'not_in') {
+    const selected = Array.isArray(rule.value) ? rule.value.map(String) : []
+    if (options.length > 0) {
+      return (
+        <div className="flex flex-wrap gap-3">
+          {options.map((option) => (
+            <label key={option.value} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={selected.includes(option.value)}
+                onCheckedChange={(checked) =>
+                  onChange(
+                    checked
+                      ? [...selected, option.value]
+                      : selected.filter((value) => value !== option.value)
+                  )
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      )
+    }
+    return (
+      <Input
+        aria-label="Values"
+        placeholder="Comma-separated values"
+        value={selected.join(', ')}
+        onChange={(event) =>
+          onChange(
+            event.target.value
+              .split(',')
+              .map((value) => value.trim())
+              .filter(Boolean)
+          )
+        }
+      />
+    )
+  }
+
+  if (options.length > 0 && rule.operator !== 'matches') {
+    return (
+      <Select value={String(rule.value ?? '')} onValueChange={(value) => onChange(value)}>
+        <SelectTrigger className="w-48" aria-label="Value">
+          <SelectValue placeholder="Choose an option" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Input
+      type={numeric ? 'number' : 'text'}
+      className="w-48"
+      aria-label="Value"
+      placeholder={rule.operator === 'matches' ? 'Regular expression' : 'Value'}
+      value={rule.value === null ? '' : String(rule.value)}
+      onChange={(event) => onChange(numeric ? toNumber(event.target.value) : event.target.value)}
+    />
+  )
+}
+
+interface RuleEditorProps {
+  rule: ConditionalRule
+  fields: ConditionalFieldRef[]
+  onChange: (rule: ConditionalRule) => void
+  onRemove: () => void
+}
+
+function RuleEditor({ rule, fields, onChange, onRemove }: RuleEditorProps) {
+  const field = rule.source === 'score' ? undefined : fields.find((candidate) => candidate.fieldCode === rule.field)
+  const operators = field ? operatorsForField(field.type, rule.column) : (Object.keys(CONDITIONAL_OPERATOR_LABELS) as ConditionalOperator[])
+  const isRepeatGroup = field !== undefined && repeatGroupFieldTypes.has(field.type)
+
+  const handleFieldChange = (fieldCode: string) => {
+    const next = fields.find((candidate) => candidate.fieldCode === fieldCode)
+    if (next) {
+      onChange(createRule(next, rule.action))
+    }
+  }
+
+  const handleOperatorChange = (operator: ConditionalOperator) => {
+    onChange({ ...rule, operator, value: defaultValue(operator, rule.column ? undefined : field) })
+  }
+
+  const handleColumnChange = (column: string) => {
+    const nextColumn = column === ROW_COUNT_COLUMN ? undefined : column
+    const operator = field ? operatorsForField(field.type, nextColumn)[0] : rule.operator
+    onChange({
+      field: rule.field,
+      source: 'repeat_group',
+      operator,
+      value: defaultValue(operator),
+      action: rule.action,
+      ...(nextColumn ? { column: nextColumn } : {}),
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg bg-white p-2">
+      <Select value={rule.field} onValueChange={handleFieldChange}>
+        <SelectTrigger className="w-56" aria-label="Source field">
+          <SelectValue placeholder="Choose a field" />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map((candidate) => (
+            <SelectItem key={candidate.fieldCode} value={candidate.fieldCode}>
+              {candidate.label} ({candidate.fieldCode})
+            </SelectItem>
+          ))}
+          {!field && (
+            <SelectItem value={rule.field} disabled>
+              {rule.source === 'score' ? `Score: ${rule.field}` : `${rule.field} (unavailable)`}
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+
+      {isRepeatGroup && (
+        <Select value={rule.column ?? ROW_COUNT_COLUMN} onValueChange={handleColumnChange}>
+          <SelectTrigger className="w-40" aria-label="Row value">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ROW_COUNT_COLUMN}>Rows</SelectItem>
+            {field.columns.map((column) => (
+              <SelectItem key={column.key} value={column.key}>
+                {column.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {rule.column && rule.operator !== 'count_greater_than' && (
+        <Select
+          value={rule.match ?? 'any'}
+          onValueChange={(match) => onChange({ ...rule, match: match === 'all' ? 'all' : undefined })}
+        >
+          <SelectTrigger className="w-32" aria-label="Rows to match">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">in any row</SelectItem>
+            <SelectItem value="all">in every row</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select value={rule.operator} onValueChange={(value) => handleOperatorChange(value as ConditionalOperator)}>
+        <SelectTrigger className="w-48" aria-label="Operator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {CONDITIONAL_OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <RuleValueInput rule={rule} field={field} onChange={(value) => onChange({ ...rule, value })} />
+
+      <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={onRemove} aria-label="Remove condition">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+interface GroupEditorProps {
+  group: ConditionalGroup
+  fields: ConditionalFieldRef[]
+  action: ConditionalRule['action']
+  depth: number
+  onChange: (group: ConditionalGroup) => void
+  onRemove?: () => void
+}
+
+function GroupEditor({ group, fields, action, depth, onChange, onRemove }: GroupEditorProps) {
+  const childGroups = group.groups ?? []
+
+  const updateRule = (index: number, rule: ConditionalRule) =>
+    onChange({ ...group, rules: group.rules.map((current, idx) => (idx === index ? rule : current)) })
+  const removeRule = (index: number) => onChange({ ...group, rules: group.rules.filter((_, idx) => idx !== index) })
+  const updateGroup = (index: number, child: ConditionalGroup) =>
+    onChange({ ...group, groups: childGroups.map((current, idx) => (idx === index ? child : current)) })
+  const removeGroup = (index: number) => onChange({ ...group, groups: childGroups.filter((_, idx) => idx !== index) })
+
+  return (
+    <div className={depth > 0 ? 'space-y-2 rounded-xl border border-[#d7dee9] bg-[#f8fafc] p-3' : 'space-y-2'}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">When</span>
+        <Select value={group.logic} onValueChange={(logic) => onChange({ ...group, logic: logic === 'OR' ? 'OR' : 'AND' })}>
+          <SelectTrigger className="w-28" aria-label="Match">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">all</SelectItem>
+            <SelectItem value="OR">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of these are true</span>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={onRemove} aria-label="Remove group">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) => (
+        <RuleEditor
+          key={index}
+          rule={rule}
+          fields={fields}
+          onChange={(next) => updateRule(index, next)}
+          onRemove={() => removeRule(index)}
+        />
+      ))}
+
+      {childGroups.map((child, index) => (
+        <GroupEditor
+          key={index}
+          group={child}
+          fields={fields}
+          action={action}
+          depth={depth + 1}
+          onChange={(next) => updateGroup(index, next)}
+          onRemove={() => removeGroup(index)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createRule(fields[0], action)] })}
+        >
+          <Plus className="h-4 w-4" />
+          Add condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...group,
+                groups: [...childGroups, { logic: 'OR', rules: [createRule(fields[0], action)] }],
+              })
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ConditionGroupEditorProps {
+  value: ConditionalGroup
+  onChange: (value: ConditionalGroup | null) => void
+  fields: ConditionalFieldRef[]
+}
+
+/** A bare condition group, for predicates with no show/hide action (e.g. validation `when`) */
+export function ConditionGroupEditor({ value, onChange, fields }: ConditionGroupEditorProps) {
+  return <GroupEditor group={value} fields={fields} action="show" depth={0} onChange={(group) => onChange(prune(group))} />
+}
+
+/** Start a condition group on the first available field */
+export function createConditionGroup(fields: ConditionalFieldRef[]): ConditionalGroup {
+  return { logic: 'AND', rules: [createRule(fields[0], 'show')] }
+}
+
+export function ConditionalLogicEditor({ value, onChange, fields, errors = [] }: ConditionalLogicEditorProps) {
+  const action = (value && flattenConditionalRules(value)[0]?.action) || 'show'
+
+  const handleChange = (group: ConditionalGroup) => onChange(prune(group))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Conditional logic</h3>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            Remove all
+          </Button>
+        )}
+      </div>
+
+      {fields.length === 0 && !value ? (
+        <p className="text-xs text-muted-foreground">
+          Conditions can only use fields that come before this one. Add or move fields above it to use conditional logic.
+        </p>
+      ) : !value ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">This field is always shown.</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(createConditionGroup(fields))}
+          >
+            <Plus className="h-4 w-4" />
+            Add condition
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3 rounded-2xl bg-[#f1f4f9] p-4">
+          <div className="space-y-1">
+            <Label htmlFor="conditional-action">Action</Label>
+            <Select
+              value={action}
+              onValueChange={(next) => onChange(withAction(value, next as ConditionalRule['action']))}
+            >
+              <SelectTrigger id="conditional-action" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CONDITIONAL_ACTION_LABELS) as ConditionalRule['action'][]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {CONDITIONAL_ACTION_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {fields.length > 0 ? (
+            <GroupEditor group={value} fields={fields} action={action} depth={0} onChange={handleChange} />
+          ) : (
+            <p className="text-xs text-muted-foreground">No earlier fields are available to reference.</p>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-red-600" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
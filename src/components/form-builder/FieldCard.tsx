@@ -25,12 +25,13 @@ import { toast } from 'sonner'
 
 interface FieldCardProps {
   question: TemplateDetail['sections'][number]['questions'][number]
+  allSections: TemplateDetail['sections']
   isFirst: boolean
   isLast: boolean
   disabled?: boolean
 }
 
-export function FieldCard({ question, isFirst, isLast, disabled = false }: FieldCardProps) {
+export function FieldCard({ question, allSections, isFirst, isLast, disabled = false }: FieldCardProps) {
   const optionCount = question.options.length
   const fieldConfig = FIELD_TYPE_CONFIG[question.type]
   const [configOpen, setConfigOpen] = useState(false)
@@ -174,6 +175,7 @@ export function FieldCard({ question, isFirst, isLast, disabled = false }: Field
       </div>
       <FieldConfigModal
         field={question}
+        sections={allSections}
         open={configOpen}
         onOpenChange={setConfigOpen}
         onSaved={() => {
@@ -14,10 +14,19 @@ import { MAX_DROPDOWN_OPTIONS, MAX_DATA_TABLE_COLUMNS, MAX_DATA_TABLE_ROWS } fro
 import { FieldTypeIcon } from './FieldTypeIcon'
 import { toast } from 'sonner'
 import { Trash2 } from 'lucide-react'
-import { parseRepeatableGroupConfig } from '@/lib/form-engine/json-utils'
+import { parseConditionalConfigValue, parseRepeatableGroupConfig } from '@/lib/form-engine/json-utils'
+import { getSelectionLimits, parseValidationConfig } from '@/lib/form-engine/validation'
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY, isFormattedNumberType } from '@/lib/form-engine/number-format'
+import type { ConditionalConfig, NumberFormatConfig, ValidationConfig } from '@/lib/form-engine/types'
+import { listConditionalFields, validateConditionalConfig } from '@/lib/form-builder/conditional-rules'
+import { validateValidationConfig } from '@/lib/form-builder/validation-rules'
+import { ConditionalLogicEditor } from './ConditionalLogicEditor'
+import { ValidationRulesEditor } from './ValidationRulesEditor'
 
 interface FieldConfigModalProps {
   field: TemplateDetail['sections'][number]['questions'][number]
+  /** Every section of the template, for conditional logic and validation references */
+  sections: TemplateDetail['sections']
   open: boolean
   onOpenChange: (open: boolean) => void
   onSaved: () => void
@@ -100,7 +109,7 @@ function ensureUniqueColumnKey(baseKey: string, columns: TableColumnState[], cur
   return candidate
 }
 
-export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldConfigModalProps) {
+export function FieldConfigModal({ field, sections, open, onOpenChange, onSaved }: FieldConfigModalProps) {
   const [labelValue, setLabelValue] = useState(field.label)
   const [helpTextValue, setHelpTextValue] = useState(field.helpText ?? '')
   const [placeholderValue, setPlaceholderValue] = useState(field.placeholder ?? '')
@@ -114,11 +123,43 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
   const [selectorIncludeLabel, setSelectorIncludeLabel] = useState('Include?')
   const [selectorNoteLabel, setSelectorNoteLabel] = useState('How do they benefit?')
   const [requireNoteOnSelect, setRequireNoteOnSelect] = useState(true)
+  const [conditional, setConditional] = useState<ConditionalConfig | null>(null)
+  const [validation, setValidation] = useState<ValidationConfig>({ rules: [] })
   const [pending, startTransition] = useTransition()
 
   const supportsOptions = useMemo(() => selectionTypes.has(field.type), [field.type])
+  const allowsMultipleSelections = field.type === FieldType.MULTI_SELECT || field.type === FieldType.CHECKBOX_GROUP
   const isDataTable = field.type === FieldType.REPEATABLE_GROUP
   const isSelectorDataTable = field.type === FieldType.DATA_TABLE_SELECTOR
+  const hasNumberFormat = isFormattedNumberType(field.type)
+
+  const templateFields = useMemo(() => listConditionalFields(sections), [sections])
+  const earlierFields = useMemo(() => {
+    const index = templateFields.findIndex((candidate) => candidate.fieldCode === field.fieldCode)
+    return index === -1 ? templateFields : templateFields.slice(0, index)
+  }, [templateFields, field.fieldCode])
+  const savedConditional = useMemo(() => parseConditionalConfigValue(field.conditional), [field.conditional])
+  // Untouched logic is left as stored, so older configs never block other edits
+  const conditionalChanged = JSON.stringify(conditional) !== JSON.stringify(savedConditional)
+  const conditionalErrors = useMemo(
+    () => validateConditionalConfig(field.fieldCode, conditional, templateFields),
+    [field.fieldCode, conditional, templateFields]
+  )
+  const savedValidation = useMemo<ValidationConfig>(() => {
+    const config = parseValidationConfig(field.validation)
+    return {
+      rules: config?.rules ?? [],
+      crossField: config?.crossField ?? [],
+      ...(config?.format ? { format: config.format } : {}),
+    }
+  }, [field.validation])
+  const selectionLimits = useMemo(() => getSelectionLimits(validation), [validation])
+  // Same as conditional logic: only changed rules are validated and sent
+  const validationChanged = JSON.stringify(validation) !== JSON.stringify(savedValidation)
+  const validationErrors = useMemo(
+    () => validateValidationConfig(field.fieldCode, field.type, validation, templateFields),
+    [field.fieldCode, field.type, validation, templateFields]
+  )
 
   useEffect(() => {
     if (!open) return
@@ -127,6 +168,8 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
     setHelpTextValue(field.helpText ?? '')
     setPlaceholderValue(field.placeholder ?? '')
     setIsRequired(field.isRequired)
+    setConditional(savedConditional)
+    setValidation(savedValidation)
 
     if (supportsOptions) {
       const nextOptions = field.options.length > 0
@@ -225,7 +268,7 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
       setSelectorRowHeader('Stakeholder')
       setSelectorRows([])
     }
-  }, [field, open, supportsOptions, isDataTable, isSelectorDataTable])
+  }, [field, open, supportsOptions, isDataTable, isSelectorDataTable, savedConditional, savedValidation])
 
   const handleOptionChange = (index: number, key: keyof OptionState, value: string) => {
     setOptions((prev) => {
@@ -407,12 +450,47 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
     setTableMaxRows(String(numeric))
   }
 
+  // Selection counts are stored as min/max validation rules, which compare an array's length
+  const handleSelectionLimitChange = (type: 'min' | 'max', raw: string) => {
+    const digits = raw.replace(/[^0-9]/g, '')
+    const rules = validation.rules.filter((rule) => rule.type !== type)
+    if (digits) {
+      const limit = Math.max(Number.parseInt(digits, 10), 1)
+      rules.push({
+        type,
+        value: limit,
+        message: type === 'min' ? `Select at least ${limit} options` : `Select no more than ${limit} options`,
+      })
+    }
+    setValidation({ ...validation, rules })
+  }
+
+  // Number format rides along in the validation JSON, so it saves with the rules
+  const handleNumberFormatChange = (changes: Partial<NumberFormatConfig>) => {
+    const format: NumberFormatConfig = { ...validation.format, ...changes }
+    if (format.currency === undefined) delete format.currency
+    if (format.decimals === undefined) delete format.decimals
+    const next: ValidationConfig = { ...validation }
+    delete next.format
+    setValidation(Object.keys(format).length > 0 ? { ...next, format } : next)
+  }
+
   const handleSave = () => {
     if (!labelValue.trim()) {
       toast.error('Field label is required')
       return
     }
 
+    if (conditionalChanged && conditionalErrors.length > 0) {
+      toast.error(conditionalErrors[0])
+      return
+    }
+
+    if (validationChanged && validationErrors.length > 0) {
+      toast.error(validationErrors[0])
+      return
+    }
+
     let optionPayload: FieldUpdateInput['options'] | undefined
     if (supportsOptions) {
       const cleanedOptions = options
@@ -566,6 +644,8 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
           isRequired,
           options: optionPayload,
           repeatableConfig: repeatablePayload,
+          conditional: conditionalChanged ? conditional : undefined,
+          validation: validationChanged ? validation : undefined,
         })
         if (!result.success) {
           toast.error(result.error)
@@ -692,6 +772,80 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
                   </p>
                 )}
               </div>
+              {allowsMultipleSelections && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="selection-min">Minimum selections</Label>
+                    <Input
+                      id="selection-min"
+                      type="number"
+                      min={1}
+                      value={selectionLimits.min ?? ''}
+                      onChange={(event) => handleSelectionLimitChange('min', event.target.value)}
+                      placeholder="No minimum"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="selection-max">Maximum selections</Label>
+                    <Input
+                      id="selection-max"
+                      type="number"
+                      min={1}
+                      value={selectionLimits.max ?? ''}
+                      onChange={(event) => handleSelectionLimitChange('max', event.target.value)}
+                      placeholder="No maximum"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {hasNumberFormat && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-foreground">Number format</h3>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {field.type === FieldType.CURRENCY && (
+                  <div className="space-y-2">
+                    <Label htmlFor="number-format-currency">Currency</Label>
+                    <Select
+                      value={validation.format?.currency ?? DEFAULT_CURRENCY}
+                      onValueChange={(currency) => handleNumberFormatChange({ currency })}
+                    >
+                      <SelectTrigger id="number-format-currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCY_OPTIONS.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="number-format-decimals">Decimal places</Label>
+                  <Input
+                    id="number-format-decimals"
+                    type="number"
+                    min={0}
+                    max={6}
+                    value={validation.format?.decimals ?? ''}
+                    onChange={(event) => {
+                      const digits = event.target.value.replace(/[^0-9]/g, '')
+                      handleNumberFormatChange({
+                        decimals: digits ? Math.min(Number.parseInt(digits, 10), 6) : undefined,
+                      })
+                    }}
+                    placeholder={field.type === FieldType.PERCENTAGE ? '0' : '2'}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Controls how answers display in the form, PDF and Excel exports. Stored values are never rounded.
+              </p>
             </div>
           )}
 
@@ -894,6 +1048,22 @@ export function FieldConfigModal({ field, open, onOpenChange, onSaved }: FieldCo
             </div>
           )}
 
+          <ConditionalLogicEditor
+            value={conditional}
+            onChange={setConditional}
+            fields={earlierFields}
+            errors={conditionalErrors}
+          />
+
+          <ValidationRulesEditor
+            value={validation}
+            onChange={setValidation}
+            fieldCode={field.fieldCode}
+            fieldType={field.type}
+            fields={templateFields}
+            errors={validationChanged ? validationErrors : []}
+          />
+
           <div className="flex justify-end gap-3">
             <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={pending}>
               Cancel
@@ -0,0 +1,500 @@
+"use client"
+
+import { useEffect, useMemo, useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import { publishRecommendationRules, TemplateDetail } from '@/app/dynamic-form/builder/actions'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RecommendationGrid, RecommendationLegend } from '@/components/form/RecommendationGrid'
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RECOMMENDATION_COLORS,
+  RecommendationCondition,
+  RecommendationRules,
+  bandAdvances,
+  recommendationRulesSchema,
+  resolveRecommendationRules,
+} from '@/lib/scoring/recommendations'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface RecommendationRulesModalProps {
+  template: TemplateDetail
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const OPERATOR_LABELS: Record<RecommendationCondition['op'], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+}
+
+function cloneRules(rules: RecommendationRules): RecommendationRules {
+  return JSON.parse(JSON.stringify(rules)) as RecommendationRules
+}
+
+function moveItem<T>(items: T[], index: number, offset: number) {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+export function RecommendationRulesModal({ template, open, onOpenChange }: RecommendationRulesModalProps) {
+  const latest = template.recommendationRuleSets[0] ?? null
+  const [draft, setDraft] = useState<RecommendationRules>(() => cloneRules(resolveRecommendationRules(latest)))
+  const [name, setName] = useState('')
+  const [pending, startTransition] = useTransition()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (open) {
+      setDraft(cloneRules(resolveRecommendationRules(latest)))
+      setName('')
+    }
+  }, [open, latest])
+
+  const validation = useMemo(() => recommendationRulesSchema.safeParse(draft), [draft])
+  const issues = validation.success ? [] : validation.error.issues.map((issue) => issue.message)
+
+  const updateBand = (index: number, patch: Partial<RecommendationRules['bands'][number]>) => {
+    setDraft((current) => ({
+      ...current,
+      bands: current.bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...patch } : band)),
+    }))
+  }
+
+  const updateRule = (index: number, patch: Partial<RecommendationRules['rules'][number]>) => {
+    setDraft((current) => ({
+      ...current,
+      rules: current.rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...patch } : rule)),
+    }))
+  }
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, patch: Partial<RecommendationCondition>) => {
+    const rule = draft.rules[ruleIndex]
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((condition, index) =>
+        index === conditionIndex ? { ...condition, ...patch } : condition
+      ),
+    })
+  }
+
+  const handlePublish = () => {
+    if (!validation.success) {
+      toast.error(issues[0] ?? 'Recommendation rules are invalid')
+      return
+    }
+
+    startTransition(async () => {
+      try {
+        const result = await publishRecommendationRules(template.id, draft, name)
+        if (!result.success) {
+          toast.error(result.error)
+          return
+        }
+        toast.success(`Published recommendation rules v${result.data?.version}`)
+        onOpenChange(false)
+        router.refresh()
+      } catch (error) {
+        console.error('Failed to publish recommendation rules', error)
+        toast.error(error instanceof Error ? error.message : 'Unable to publish recommendation rules')
+      }
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recommendation rules</DialogTitle>
+          <DialogDescription>
+            Map matrix positions to outcomes. Thresholds are percentages of the maximum score; rules are checked
+            top to bottom and the first match wins. Publishing creates a new version, existing submissions keep
+            the version they were scored with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span>Current:</span>
+            <Badge variant="outline">
+              {latest ? `v${latest.version}${latest.name ? ` · ${latest.name}` : ''}` : 'Default rules'}
+            </Badge>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Bands</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft((current) => ({
+                    ...current,
+                    bands: [...current.bands, { key: `band_${current.bands.length + 1}`, label: 'New band', color: 'gray' }],
+                  }))
+                }
+                disabled={pending}
+              >
+                <Plus className="mr-1 h-4 w-4" /> Add band
+              </Button>
+            </div>
+            {draft.bands.map((band, index) => (
+              <div key={index} className="grid grid-cols-[1fr_2fr_8rem_auto_auto] items-center gap-2">
+                <Input
+                  value={band.key}
+                  onChange={(event) => updateBand(index, { key: event.target.value })}
+                  placeholder="key"
+                  aria-label="Band key"
+                  disabled={pending}
+                />
+                <Input
+                  value={band.label}
+                  onChange={(event) => updateBand(index, { label: event.target.value })}
+                  placeholder="Label"
+                  aria-label="Band label"
+                  disabled={pending}
+                />
+                <Select
+                  value={band.color}
+                  onValueChange={(value) => updateBand(index, { color: value as typeof band.color })}
+                  disabled={pending}
+                >
+                  <SelectTrigger aria-label="Band color">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECOMMENDATION_COLORS.map((color) => (
+                      <SelectItem key={color} value={color}>
+                        {color}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <label
+                  className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                  title="A triage recommendation in this band lets the technology be promoted"
+                >
+                  <Checkbox
+                    checked={bandAdvances(band)}
+                    onCheckedChange={(checked) => updateBand(index, { advances: checked === true })}
+                    disabled={pending}
+                  />
+                  Advances
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setDraft((current) => ({
+                      ...current,
+                      bands: current.bands.filter((_, bandIndex) => bandIndex !== index),
+                    }))
+                  }
+                  disabled={pending || draft.bands.length === 1}
+                  aria-label="Remove band"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Rules</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft((current) => ({
+                    ...current,
+                    rules: [
+                      ...current.rules,
+                      {
+                        band: current.bands[0]?.key ?? '',
+                        match: 'all',
+                        conditions: [{ axis: 'x', op: 'gte', value: 50 }],
+                      },
+                    ],
+                  }))
+                }
+                disabled={pending}
+              >
+                <Plus className="mr-1 h-4 w-4" /> Add rule
+              </Button>
+            </div>
+            {draft.rules.map((rule, ruleIndex) => (
+              <div key={ruleIndex} className="space-y-2 rounded-md border p-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">{ruleIndex + 1}.</span>
+                  <Select
+                    value={rule.band}
+                    onValueChange={(value) => updateRule(ruleIndex, { band: value })}
+                    disabled={pending}
+                  >
+                    <SelectTrigger className="w-56" aria-label="Rule band">
+                      <SelectValue placeholder="Band" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.bands.map((band) => (
+                        <SelectItem key={band.key} value={band.key}>
+                          {band.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">when</span>
+                  <Select
+                    value={rule.match}
+                    onValueChange={(value) => updateRule(ruleIndex, { match: value as typeof rule.match })}
+                    disabled={pending}
+                  >
+                    <SelectTrigger className="w-24" aria-label="Rule match">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">all</SelectItem>
+                      <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">conditions match</span>
+                  <div className="ml-auto flex items-center">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft((current) => ({ ...current, rules: moveItem(current.rules, ruleIndex, -1) }))}
+                      disabled={pending || ruleIndex === 0}
+                      aria-label="Move rule up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft((current) => ({ ...current, rules: moveItem(current.rules, ruleIndex, 1) }))}
+                      disabled={pending || ruleIndex === draft.rules.length - 1}
+                      aria-label="Move rule down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setDraft((current) => ({
+                          ...current,
+                          rules: current.rules.filter((_, index) => index !== ruleIndex),
+                        }))
+                      }
+                      disabled={pending}
+                      aria-label="Remove rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {rule.conditions.map((condition, conditionIndex) => (
+                  <div key={conditionIndex} className="flex items-center gap-2 pl-6">
+                    <Select
+                      value={condition.axis}
+                      onValueChange={(value) =>
+                        updateCondition(ruleIndex, conditionIndex, { axis: value as RecommendationCondition['axis'] })
+                      }
+                      disabled={pending}
+                    >
+                      <SelectTrigger className="w-28" aria-label="Condition axis">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="x">X axis</SelectItem>
+                        <SelectItem value="y">Y axis</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={condition.op}
+                      onValueChange={(value) =>
+                        updateCondition(ruleIndex, conditionIndex, { op: value as RecommendationCondition['op'] })
+                      }
+                      disabled={pending}
+                    >
+                      <SelectTrigger className="w-20" aria-label="Condition operator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OPERATOR_LABELS).map(([op, label]) => (
+                          <SelectItem key={op} value={op}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-24"
+                      value={condition.value}
+                      onChange={(event) =>
+                        updateCondition(ruleIndex, conditionIndex, { value: Number(event.target.value) })
+                      }
+                      aria-label="Condition threshold"
+                      disabled={pending}
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        updateRule(ruleIndex, {
+                          conditions: rule.conditions.filter((_, index) => index !== conditionIndex),
+                        })
+                      }
+                      disabled={pending || rule.conditions.length === 1}
+                      aria-label="Remove condition"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="pl-6"
+                  onClick={() =>
+                    updateRule(ruleIndex, {
+                      conditions: [...rule.conditions, { axis: 'y', op: 'gte', value: 50 }],
+                    })
+                  }
+                  disabled={pending}
+                >
+                  Add condition
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Otherwise</span>
+              <Select
+                value={draft.defaultBand}
+                onValueChange={(value) => setDraft((current) => ({ ...current, defaultBand: value }))}
+                disabled={pending}
+              >
+                <SelectTrigger className="w-56" aria-label="Default band">
+                  <SelectValue placeholder="Band" />
+                </SelectTrigger>
+                <SelectContent>
+                  {draft.bands.map((band) => (
+                    <SelectItem key={band.key} value={band.key}>
+                      {band.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            {validation.success ? (
+              <div className="space-y-3">
+                <div className="relative mx-auto h-48 w-72 border-2 border-gray-300">
+                  <RecommendationGrid rules={draft} resolution={20} />
+                </div>
+                <RecommendationLegend rules={draft} />
+              </div>
+            ) : (
+              <ul className="list-disc pl-5 text-sm text-red-600">
+                {issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recommendation-rules-name">Version name</Label>
+            <Input
+              id="recommendation-rules-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. FY2026 committee thresholds"
+              disabled={pending}
+            />
+          </div>
+
+          {template.recommendationRuleSets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Version history</Label>
+              <ul className="space-y-1 text-sm">
+                {template.recommendationRuleSets.map((ruleSet) => (
+                  <li key={ruleSet.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      v{ruleSet.version}
+                      {ruleSet.name ? ` · ${ruleSet.name}` : ''}
+                      <span className="text-muted-foreground">
+                        {' '}
+                        — {ruleSet.createdBy}, {format(ruleSet.createdAt, 'MMM d, yyyy')}
+                      </span>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(cloneRules(resolveRecommendationRules(ruleSet)))}
+                      disabled={pending}
+                    >
+                      Load
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6 flex gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => setDraft(cloneRules(DEFAULT_RECOMMENDATION_RULES))}
+            disabled={pending}
+          >
+            Reset to defaults
+          </Button>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={pending}>
+            Cancel
+          </Button>
+          <Button onClick={handlePublish} disabled={pending || !validation.success}>
+            {pending ? 'Publishing…' : 'Publish new version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
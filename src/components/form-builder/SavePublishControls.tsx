@@ -1,20 +1,32 @@
 "use client"
 
-import { useTransition } from 'react'
+import { useState, useTransition } from 'react'
 import { Button } from '@/components/ui/button'
 import { saveTemplateAsDraft, publishTemplate } from '@/app/dynamic-form/builder/actions'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
+import { TemplateChangesDialog } from './TemplateChangesDialog'
 
 interface SavePublishControlsProps {
   templateId: string
   isActive: boolean
+  /** Draft differs from the latest published version (or nothing is published yet) */
+  hasUnpublishedChanges?: boolean
+  /** Published versions, newest first; the review compares the draft against them */
+  versions?: { id: string; version: number; versionLabel: string }[]
   disabled?: boolean
 }
 
-export function SavePublishControls({ templateId, isActive, disabled = false }: SavePublishControlsProps) {
+export function SavePublishControls({
+  templateId,
+  isActive,
+  hasUnpublishedChanges = true,
+  versions = [],
+  disabled = false,
+}: SavePublishControlsProps) {
   const [pendingSave, startSave] = useTransition()
   const [pendingPublish, startPublish] = useTransition()
+  const [reviewOpen, setReviewOpen] = useState(false)
   const router = useRouter()
 
   const handleSave = () => {
@@ -34,15 +46,23 @@ export function SavePublishControls({ templateId, isActive, disabled = false }:
     })
   }
 
-  const handlePublish = () => {
+  const handlePublish = (reviseFieldCodes: string[] = []) => {
     startPublish(async () => {
       try {
-        const result = await publishTemplate(templateId)
+        const result = await publishTemplate(templateId, { reviseFieldCodes })
         if (!result.success) {
           toast.error(result.error)
           return
         }
-        toast.success('Template published')
+        toast.success(
+          result.data?.created
+            ? `Published version #${result.data.version}`
+            : `Template activated (no changes since version #${result.data?.version})`,
+          result.data?.revisedQuestions
+            ? { description: `${result.data.revisedQuestions} revised question(s) now show existing answers as stale` }
+            : undefined
+        )
+        setReviewOpen(false)
         router.refresh()
       } catch (error) {
         console.error('Failed to publish template', error)
@@ -64,11 +84,25 @@ export function SavePublishControls({ templateId, isActive, disabled = false }:
       <Button
         variant="default"
         size="sm"
-        onClick={handlePublish}
+        onClick={() => (hasUnpublishedChanges ? setReviewOpen(true) : handlePublish())}
         disabled={disabled || pendingSave || pendingPublish}
       >
-        {pendingPublish ? 'Publishing…' : isActive ? 'Re-publish' : 'Publish'}
+        {pendingPublish
+          ? 'Publishing…'
+          : hasUnpublishedChanges
+            ? 'Publish new version'
+            : isActive
+              ? 'Re-publish'
+              : 'Publish'}
       </Button>
+      <TemplateChangesDialog
+        templateId={templateId}
+        versions={versions}
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        onPublish={handlePublish}
+        publishing={pendingPublish}
+      />
     </div>
   )
 }
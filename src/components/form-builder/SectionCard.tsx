@@ -99,6 +99,7 @@ export function SectionCard({ section, templateId, isFirst, isLast, allSections,
             <FieldCard
               key={question.id}
               question={question}
+              allSections={allSections}
               isFirst={index === 0}
               isLast={index === fieldCount - 1}
               disabled={disabled}
@@ -0,0 +1,236 @@
+"use client"
+
+import { useEffect, useState, useTransition } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { getTemplateDiff } from '@/app/dynamic-form/builder/actions'
+import type { TemplateChangeKind, TemplateDiff } from '@/lib/form-engine/template-diff'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface PublishedVersionOption {
+  id: string
+  version: number
+  versionLabel: string
+}
+
+interface TemplateChangesDialogProps {
+  templateId: string
+  versions: PublishedVersionOption[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /**
+   * Shown as the confirm button when the dialog gates publishing; receives the
+   * reworded bound fields the publisher chose to revise
+   */
+  onPublish?: (reviseFieldCodes: string[]) => void
+  publishing?: boolean
+}
+
+const KIND_BADGES: Record<TemplateChangeKind, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  added: { label: 'Added', variant: 'default' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  moved: { label: 'Moved', variant: 'outline' },
+  modified: { label: 'Changed', variant: 'secondary' },
+}
+
+function ChangeList({ changes }: { changes: { attribute: string; before: string; after: string }[] }) {
+  if (changes.length === 0) return null
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {changes.map((change) => (
+        <li key={change.attribute} className="break-words">
+          <span className="font-medium text-foreground">{change.attribute}</span>: {change.before} → {change.after}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function TemplateChangesDialog({
+  templateId,
+  versions,
+  open,
+  onOpenChange,
+  onPublish,
+  publishing = false,
+}: TemplateChangesDialogProps) {
+  const [fromVersionId, setFromVersionId] = useState<string | undefined>(versions[0]?.id)
+  const [diff, setDiff] = useState<TemplateDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reviseFieldCodes, setReviseFieldCodes] = useState<string[]>([])
+  const [loading, startLoading] = useTransition()
+
+  useEffect(() => {
+    if (open) {
+      setFromVersionId(versions[0]?.id)
+    }
+  }, [open, versions])
+
+  useEffect(() => {
+    if (!open) return
+    startLoading(async () => {
+      const result = await getTemplateDiff(templateId, { fromVersionId })
+      if (!result.success || !result.data) {
+        setDiff(null)
+        setError(result.success ? 'Unable to compare versions' : result.error)
+        return
+      }
+      setError(null)
+      setDiff(result.data.diff)
+      setReviseFieldCodes([])
+    })
+  }, [open, templateId, fromVersionId])
+
+  const fromLabel = versions.find((version) => version.id === fromVersionId)
+  // Publishing revises against the latest version, so only warn for that comparison
+  const comparingLatest = fromVersionId === versions[0]?.id
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review changes</DialogTitle>
+          <DialogDescription>
+            {fromLabel
+              ? `Draft compared with published version #${fromLabel.version} (${fromLabel.versionLabel}).`
+              : 'This template has not been published yet; everything below is new.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Compare with</span>
+            <Select value={fromVersionId} onValueChange={setFromVersionId}>
+              <SelectTrigger className="w-56" aria-label="Published version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    Version #{version.version} ({version.versionLabel})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {loading && !diff ? (
+          <p className="text-sm text-muted-foreground">Comparing…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        ) : diff && !diff.hasChanges ? (
+          <p className="text-sm text-muted-foreground">No changes since this version.</p>
+        ) : diff ? (
+          <div className="space-y-4 text-sm">
+            {comparingLatest && diff.staleFieldCodes.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-900">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <div className="space-y-2">
+                  <p>
+                    This draft rewords {diff.staleFieldCodes.length} dictionary-bound{' '}
+                    {diff.staleFieldCodes.length === 1 ? 'field' : 'fields'}. The dictionary is shared with other
+                    templates, so its wording only changes for the fields ticked below, and existing answers to them
+                    are marked stale until they are reconfirmed.
+                  </p>
+                  {onPublish && (
+                    <div className="flex flex-wrap gap-3">
+                      {diff.staleFieldCodes.map((fieldCode) => (
+                        <label key={fieldCode} className="flex items-center gap-1.5">
+                          <Checkbox
+                            checked={reviseFieldCodes.includes(fieldCode)}
+                            onCheckedChange={(checked) =>
+                              setReviseFieldCodes((current) =>
+                                checked ? [...current, fieldCode] : current.filter((code) => code !== fieldCode)
+                              )
+                            }
+                          />
+                          <span className="font-mono text-xs">{fieldCode}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {diff.template.length > 0 && (
+              <section>
+                <h3 className="font-semibold">Template</h3>
+                <ChangeList changes={diff.template} />
+              </section>
+            )}
+
+            {diff.sections.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="font-semibold">Sections</h3>
+                {diff.sections.map((section) => (
+                  <div key={section.code}>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={KIND_BADGES[section.kind].variant}>{KIND_BADGES[section.kind].label}</Badge>
+                      <span className="font-mono text-xs">{section.code}</span>
+                      <span>{section.title}</span>
+                    </div>
+                    <ChangeList changes={section.changes} />
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {diff.fields.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="font-semibold">Fields</h3>
+                {diff.fields.map((field) => (
+                  <div key={field.fieldCode}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={KIND_BADGES[field.kind].variant}>{KIND_BADGES[field.kind].label}</Badge>
+                      <span className="font-mono text-xs">{field.fieldCode}</span>
+                      <span>{field.label}</span>
+                      {field.fromSectionCode && (
+                        <span className="text-xs text-muted-foreground">
+                          {field.fromSectionCode} → {field.sectionCode}
+                        </span>
+                      )}
+                      {comparingLatest && field.marksAnswersStale && (
+                        <Badge variant="outline" className="border-amber-400 text-amber-800">
+                          {reviseFieldCodes.includes(field.fieldCode) ? 'Answers go stale' : 'Bound wording changed'}
+                        </Badge>
+                      )}
+                    </div>
+                    <ChangeList changes={field.changes} />
+                  </div>
+                ))}
+              </section>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter className="mt-4 flex gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={publishing}>
+            {onPublish ? 'Cancel' : 'Close'}
+          </Button>
+          {onPublish && (
+            <Button
+              onClick={() => onPublish(comparingLatest ? reviseFieldCodes : [])}
+              disabled={publishing || loading || Boolean(error)}
+            >
+              {publishing ? 'Publishing…' : 'Publish'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
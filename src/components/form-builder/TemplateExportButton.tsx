@@ -0,0 +1,46 @@
+"use client"
+
+import { useTransition } from 'react'
+import { Download } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { exportTemplatePackage } from '@/app/dynamic-form/builder/actions'
+import { templatePackageFileName } from '@/lib/form-engine/template-package'
+
+interface TemplateExportButtonProps {
+  templateId: string
+}
+
+export function TemplateExportButton({ templateId }: TemplateExportButtonProps) {
+  const [pending, startTransition] = useTransition()
+
+  const handleExport = () => {
+    startTransition(async () => {
+      try {
+        const result = await exportTemplatePackage(templateId)
+        if (!result.success || !result.data) {
+          toast.error(result.success ? 'Unable to export template' : result.error)
+          return
+        }
+
+        const blob = new Blob([JSON.stringify(result.data, null, 2)], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = templatePackageFileName(result.data)
+        link.click()
+        URL.revokeObjectURL(url)
+      } catch (error) {
+        console.error('Failed to export template', error)
+        toast.error(error instanceof Error ? error.message : 'Unable to export template')
+      }
+    })
+  }
+
+  return (
+    <Button type="button" variant="outline" size="sm" className="shadow-sm" onClick={handleExport} disabled={pending}>
+      <Download className="h-4 w-4" />
+      {pending ? 'Exporting…' : 'Export'}
+    </Button>
+  )
+}
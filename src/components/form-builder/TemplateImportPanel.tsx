@@ -0,0 +1,173 @@
+"use client"
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { FileUp, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { importTemplatePackage, previewTemplateImport } from '@/app/dynamic-form/builder/actions'
+import type { DictionaryKeyStatus, TemplateImportPreview } from '@/lib/form-engine/template-package'
+import { FORM_PURPOSE_LABELS } from '@/lib/technology/constants'
+
+interface TemplateImportPanelProps {
+  className?: string
+}
+
+const STATUS_BADGES: Record<DictionaryKeyStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  match: { label: 'Matches', variant: 'secondary' },
+  missing: { label: 'Missing here', variant: 'default' },
+  conflict: { label: 'Conflict', variant: 'destructive' },
+}
+
+export function TemplateImportPanel({ className }: TemplateImportPanelProps) {
+  const router = useRouter()
+  const [raw, setRaw] = useState<string | null>(null)
+  const [preview, setPreview] = useState<TemplateImportPreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingPreview, startPreview] = useTransition()
+  const [pendingImport, startImport] = useTransition()
+
+  const selectFile = async (file: File | null) => {
+    setPreview(null)
+    setError(null)
+    setRaw(file ? await file.text() : null)
+  }
+
+  const handlePreview = () => {
+    if (!raw) return
+    startPreview(async () => {
+      try {
+        const result = await previewTemplateImport(raw)
+        if (!result.success || !result.data) {
+          setPreview(null)
+          setError(result.success ? 'Unable to read template package' : result.error)
+          return
+        }
+        setError(null)
+        setPreview(result.data)
+      } catch (previewError) {
+        console.error('Failed to preview template import', previewError)
+        setError(previewError instanceof Error ? previewError.message : 'Unable to read template package')
+      }
+    })
+  }
+
+  const handleImport = () => {
+    if (!raw || !preview || preview.errors.length > 0) return
+    startImport(async () => {
+      try {
+        const result = await importTemplatePackage(raw)
+        if (!result.success || !result.data) {
+          toast.error(result.success ? 'Unable to import template' : result.error)
+          return
+        }
+        toast.success(`Imported ${preview.name} as a draft`)
+        router.push(`/dynamic-form/builder/${result.data.templateId}`)
+      } catch (importError) {
+        console.error('Failed to import template', importError)
+        toast.error(importError instanceof Error ? importError.message : 'Unable to import template')
+      }
+    })
+  }
+
+  const pending = pendingPreview || pendingImport
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-[#353535]">Import a template</CardTitle>
+        <CardDescription className="text-[#6b7280]">
+          Load a template package exported from another environment. Preview it first to check dictionary keys;
+          the import is created as a draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="file"
+            accept="application/json,.json"
+            className="max-w-xs"
+            aria-label="Template package"
+            disabled={pending}
+            onChange={(event) => void selectFile(event.target.files?.[0] ?? null)}
+          />
+          <Button type="button" variant="outline" onClick={handlePreview} disabled={!raw || pending}>
+            <Search className="h-4 w-4" />
+            {pendingPreview ? 'Checking…' : 'Preview import'}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!preview || preview.errors.length > 0 || pending}
+          >
+            <FileUp className="h-4 w-4" />
+            {pendingImport ? 'Importing…' : 'Import template'}
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-3 rounded-xl bg-[#f5f7fa] p-4 text-sm">
+            <p className="text-[#353535]">
+              <span className="font-semibold">{preview.name}</span> · Version {preview.version} ·{' '}
+              {FORM_PURPOSE_LABELS[preview.purpose]} · {preview.sectionCount} sections · {preview.questionCount}{' '}
+              fields
+            </p>
+
+            {preview.dictionary.length > 0 && (
+              <table className="w-full text-left">
+                <thead className="text-xs uppercase text-[#6b7280]">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Dictionary key</th>
+                    <th className="py-1 pr-3 font-medium">Fields</th>
+                    <th className="py-1 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.dictionary.map((entry) => (
+                    <tr key={entry.key} className="align-top">
+                      <td className="py-1 pr-3 font-mono text-xs">{entry.key}</td>
+                      <td className="py-1 pr-3 text-[#6b7280]">{entry.fieldCodes.join(', ')}</td>
+                      <td className="py-1">
+                        <Badge variant={STATUS_BADGES[entry.status].variant}>{STATUS_BADGES[entry.status].label}</Badge>
+                        {entry.differences.length > 0 && (
+                          <p className="mt-1 text-xs text-[#6b7280]">{entry.differences.join('; ')}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {preview.errors.length > 0 && (
+              <ul className="list-disc pl-5 text-red-600" role="alert">
+                {preview.errors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {preview.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-amber-700">
+                {preview.warnings.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {preview.errors.length === 0 && (
+              <p className="text-[#6b7280]">No conflicts found. Importing creates a new draft template.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,11 @@
 "use client"
 
 import { useEffect, useState, useTransition } from 'react'
-import { TemplateDetail, updateTemplateMetadata } from '@/app/dynamic-form/builder/actions'
+import {
+  TemplateDetail,
+  updateTemplateMetadata,
+  updateTemplateScoringModel,
+} from '@/app/dynamic-form/builder/actions'
 import {
   Dialog,
   DialogContent,
@@ -15,6 +19,9 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FORM_PURPOSE_LABELS } from '@/lib/technology/constants'
+import type { FormPurpose } from '@prisma/client'
 import { toast } from 'sonner'
 import { useRouter } from 'next/navigation'
 
@@ -24,10 +31,16 @@ interface TemplateSettingsModalProps {
   onOpenChange: (open: boolean) => void
 }
 
+function formatScoringModel(value: TemplateDetail['scoringModel']) {
+  return value === null || value === undefined ? '' : JSON.stringify(value, null, 2)
+}
+
 export function TemplateSettingsModal({ template, open, onOpenChange }: TemplateSettingsModalProps) {
   const [name, setName] = useState(template.name)
   const [version, setVersion] = useState(template.version)
   const [description, setDescription] = useState(template.description ?? '')
+  const [purpose, setPurpose] = useState<FormPurpose>(template.purpose)
+  const [scoringModel, setScoringModel] = useState(formatScoringModel(template.scoringModel))
   const [pending, startTransition] = useTransition()
   const router = useRouter()
 
@@ -36,6 +49,8 @@ export function TemplateSettingsModal({ template, open, onOpenChange }: Template
       setName(template.name)
       setVersion(template.version)
       setDescription(template.description ?? '')
+      setPurpose(template.purpose)
+      setScoringModel(formatScoringModel(template.scoringModel))
     }
   }, [open, template])
 
@@ -56,11 +71,19 @@ export function TemplateSettingsModal({ template, open, onOpenChange }: Template
           name: name.trim(),
           version: version.trim(),
           description: description.trim() || undefined,
+          purpose,
         })
         if (!result.success) {
           toast.error(result.error)
           return
         }
+        if (scoringModel.trim() !== formatScoringModel(template.scoringModel).trim()) {
+          const scoringResult = await updateTemplateScoringModel(template.id, scoringModel)
+          if (!scoringResult.success) {
+            toast.error(scoringResult.error)
+            return
+          }
+        }
         toast.success('Template settings updated')
         onOpenChange(false)
         router.refresh()
@@ -73,10 +96,10 @@ export function TemplateSettingsModal({ template, open, onOpenChange }: Template
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Template settings</DialogTitle>
-          <DialogDescription>Update template metadata and description.</DialogDescription>
+          <DialogDescription>Update template metadata, description and scoring model.</DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
@@ -109,6 +132,25 @@ export function TemplateSettingsModal({ template, open, onOpenChange }: Template
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="template-purpose">Purpose</Label>
+            <Select value={purpose} onValueChange={(value) => setPurpose(value as FormPurpose)} disabled={pending}>
+              <SelectTrigger id="template-purpose">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORM_PURPOSE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              The form opens the most recently updated active template for each purpose.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="template-description">Description</Label>
             <Textarea
@@ -120,6 +162,23 @@ export function TemplateSettingsModal({ template, open, onOpenChange }: Template
               disabled={pending}
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-scoring-model">Scoring model (JSON)</Label>
+            <Textarea
+              id="template-scoring-model"
+              value={scoringModel}
+              onChange={(event) => setScoringModel(event.target.value)}
+              placeholder='{"groups": [{"key": "impact", "label": "Impact", "criteria": [{"fieldCode": "F2.1.score"}]}]}'
+              rows={8}
+              className="font-mono text-xs"
+              disabled={pending}
+            />
+            <p className="text-xs text-muted-foreground">
+              Score groups, criteria and composites. Criterion weights default to each field&apos;s scoring weight.
+              Leave blank to use the default scoring model.
+            </p>
+          </div>
         </div>
 
         <DialogFooter className="mt-6 flex gap-2">
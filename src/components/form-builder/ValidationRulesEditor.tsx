@@ -0,0 +1,363 @@
+"use client"
+
+import { Plus, Trash2 } from 'lucide-react'
+import { FieldType } from '@prisma/client'
+import type {
+  CrossFieldComparison,
+  CrossFieldRule,
+  ValidationConfig,
+  ValidationRule,
+} from '@/lib/form-engine/types'
+import type { ConditionalFieldRef } from '@/lib/form-builder/conditional-rules'
+import {
+  CROSS_FIELD_COMPARISON_LABELS,
+  CROSS_FIELD_RULE_LABELS,
+  EditableValidationRuleType,
+  VALIDATION_RULE_LABELS,
+  rowCountFieldTypes,
+} from '@/lib/form-builder/validation-rules'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ConditionGroupEditor, createConditionGroup } from './ConditionalLogicEditor'
+
+interface ValidationRulesEditorProps {
+  value: ValidationConfig
+  onChange: (value: ValidationConfig) => void
+  fieldCode: string
+  fieldType: FieldType
+  /** Every field in the template; cross-field rules may reference any of them */
+  fields: ConditionalFieldRef[]
+  errors?: string[]
+}
+
+const EDITABLE_RULE_TYPES = Object.keys(VALIDATION_RULE_LABELS) as EditableValidationRuleType[]
+const COMPARISONS = Object.keys(CROSS_FIELD_COMPARISON_LABELS) as CrossFieldComparison[]
+
+const DEFAULT_MESSAGES: Record<EditableValidationRuleType, string> = {
+  min: 'Value is too small',
+  max: 'Value is too large',
+  pattern: 'Invalid format',
+  email: 'Enter a valid email address',
+  url: 'Enter a valid web address',
+}
+
+function isEditableRuleType(type: ValidationRule['type']): type is EditableValidationRuleType {
+  return type in VALIDATION_RULE_LABELS
+}
+
+function createValidationRule(type: EditableValidationRuleType): ValidationRule {
+  if (type === 'min' || type === 'max') {
+    return { type, value: 0, message: DEFAULT_MESSAGES[type] }
+  }
+  if (type === 'pattern') {
+    return { type, value: '', message: DEFAULT_MESSAGES[type] }
+  }
+  return { type, message: DEFAULT_MESSAGES[type] }
+}
+
+function createCrossFieldRule(type: CrossFieldRule['type'], otherFields: ConditionalFieldRef[]): CrossFieldRule {
+  switch (type) {
+    case 'compare':
+      return { type, operator: 'gt', field: otherFields[0]?.fieldCode ?? '', message: 'Check this value against the related field' }
+    case 'sum':
+      return { type, operator: 'eq', fields: [], value: 100, message: 'Values must add up to 100' }
+    default:
+      return { type: 'min_rows', value: 1, message: 'Add at least one row' }
+  }
+}
+
+function withoutCondition(rule: CrossFieldRule): CrossFieldRule {
+  const next = { ...rule }
+  delete next.when
+  return next
+}
+
+function toNumber(raw: string): number {
+  const numeric = Number(raw)
+  return raw.trim() === '' || Number.isNaN(numeric) ? 0 : numeric
+}
+
+interface CrossFieldRuleEditorProps {
+  rule: CrossFieldRule
+  otherFields: ConditionalFieldRef[]
+  fields: ConditionalFieldRef[]
+  allowRowCount: boolean
+  onChange: (rule: CrossFieldRule) => void
+  onRemove: () => void
+}
+
+function CrossFieldRuleEditor({ rule, otherFields, fields, allowRowCount, onChange, onRemove }: CrossFieldRuleEditorProps) {
+  const ruleTypes = (Object.keys(CROSS_FIELD_RULE_LABELS) as CrossFieldRule['type'][]).filter(
+    (type) => type !== 'min_rows' || allowRowCount || rule.type === 'min_rows'
+  )
+  const withBase = (next: CrossFieldRule): CrossFieldRule => ({
+    ...next,
+    message: rule.message,
+    ...(rule.when ? { when: rule.when } : {}),
+  })
+
+  const comparisonSelect = (operator: CrossFieldComparison, update: (operator: CrossFieldComparison) => void) => (
+    <Select value={operator} onValueChange={(value) => update(value as CrossFieldComparison)}>
+      <SelectTrigger className="w-36" aria-label="Comparison">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COMPARISONS.map((comparison) => (
+          <SelectItem key={comparison} value={comparison}>
+            {CROSS_FIELD_COMPARISON_LABELS[comparison]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-2 rounded-lg bg-white p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={rule.type}
+          onValueChange={(type) => onChange(withBase(createCrossFieldRule(type as CrossFieldRule['type'], otherFields)))}
+        >
+          <SelectTrigger className="w-56" aria-label="Rule type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ruleTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {CROSS_FIELD_RULE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={onRemove} aria-label="Remove rule">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {rule.type === 'compare' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">This field must be</span>
+          {comparisonSelect(rule.operator, (operator) => onChange({ ...rule, operator }))}
+          <Select value={rule.field} onValueChange={(field) => onChange({ ...rule, field })}>
+            <SelectTrigger className="w-56" aria-label="Compared field">
+              <SelectValue placeholder="Choose a field" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherFields.map((field) => (
+                <SelectItem key={field.fieldCode} value={field.fieldCode}>
+                  {field.label} ({field.fieldCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {rule.type === 'sum' && (
+        <div className="space-y-2 text-sm">
+          <span className="text-muted-foreground">This field plus</span>
+          <div className="max-h-32 space-y-1 overflow-y-auto rounded-md border border-[#d7dee9] p-2">
+            {otherFields.map((field) => (
+              <label key={field.fieldCode} className="flex items-center gap-1.5">
+                <Checkbox
+                  checked={rule.fields.includes(field.fieldCode)}
+                  onCheckedChange={(checked) =>
+                    onChange({
+                      ...rule,
+                      fields: checked
+                        ? [...rule.fields, field.fieldCode]
+                        : rule.fields.filter((code) => code !== field.fieldCode),
+                    })
+                  }
+                />
+                {field.label} ({field.fieldCode})
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground">must total</span>
+            {comparisonSelect(rule.operator, (operator) => onChange({ ...rule, operator }))}
+            <Input
+              type="number"
+              className="w-28"
+              aria-label="Total"
+              value={String(rule.value)}
+              onChange={(event) => onChange({ ...rule, value: toNumber(event.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {rule.type === 'min_rows' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">At least</span>
+          <Input
+            type="number"
+            min={0}
+            className="w-24"
+            aria-label="Minimum rows"
+            value={String(rule.value)}
+            onChange={(event) => onChange({ ...rule, value: Math.max(toNumber(event.target.value), 0) })}
+          />
+          <span className="text-muted-foreground">rows or selections</span>
+        </div>
+      )}
+
+      <Input
+        aria-label="Error message"
+        placeholder="Error message"
+        value={rule.message}
+        onChange={(event) => onChange({ ...rule, message: event.target.value })}
+      />
+
+      {rule.when ? (
+        <div className="space-y-2 rounded-xl border border-[#d7dee9] bg-[#f8fafc] p-3">
+          <p className="text-xs font-medium text-muted-foreground">Only check this rule</p>
+          <ConditionGroupEditor
+            value={rule.when}
+            fields={fields}
+            onChange={(when) => onChange(when ? { ...rule, when } : withoutCondition(rule))}
+          />
+        </div>
+      ) : (
+        fields.length > 0 && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...rule, when: createConditionGroup(fields) })}>
+            <Plus className="h-4 w-4" />
+            Only check when…
+          </Button>
+        )
+      )}
+    </div>
+  )
+}
+
+export function ValidationRulesEditor({ value, onChange, fieldCode, fieldType, fields, errors = [] }: ValidationRulesEditorProps) {
+  const otherFields = fields.filter((field) => field.fieldCode !== fieldCode)
+  const crossField = value.crossField ?? []
+
+  const updateRule = (index: number, rule: ValidationRule) =>
+    onChange({ ...value, rules: value.rules.map((current, idx) => (idx === index ? rule : current)) })
+  const removeRule = (index: number) => onChange({ ...value, rules: value.rules.filter((_, idx) => idx !== index) })
+  const updateCrossField = (index: number, rule: CrossFieldRule) =>
+    onChange({ ...value, crossField: crossField.map((current, idx) => (idx === index ? rule : current)) })
+  const removeCrossField = (index: number) =>
+    onChange({ ...value, crossField: crossField.filter((_, idx) => idx !== index) })
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Validation</h3>
+
+      <div className="space-y-3 rounded-2xl bg-[#f1f4f9] p-4">
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Rules for this field</p>
+          {value.rules.map((rule, index) =>
+            isEditableRuleType(rule.type) ? (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg bg-white p-2">
+                <Select
+                  value={rule.type}
+                  onValueChange={(type) => updateRule(index, { ...createValidationRule(type as EditableValidationRuleType), message: rule.message })}
+                >
+                  <SelectTrigger className="w-40" aria-label="Rule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EDITABLE_RULE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {VALIDATION_RULE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(rule.type === 'min' || rule.type === 'max') && (
+                  <Input
+                    type="number"
+                    className="w-24"
+                    aria-label="Limit"
+                    value={rule.value === undefined ? '' : String(rule.value)}
+                    onChange={(event) => updateRule(index, { ...rule, value: toNumber(event.target.value) })}
+                  />
+                )}
+                {rule.type === 'pattern' && (
+                  <Input
+                    className="w-48"
+                    aria-label="Pattern"
+                    placeholder="Regular expression"
+                    value={String(rule.value ?? '')}
+                    onChange={(event) => updateRule(index, { ...rule, value: event.target.value })}
+                  />
+                )}
+                <Input
+                  className="min-w-[12rem] flex-1"
+                  aria-label="Error message"
+                  placeholder="Error message"
+                  value={rule.message}
+                  onChange={(event) => updateRule(index, { ...rule, message: event.target.value })}
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeRule(index)} aria-label="Remove rule">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              // Rules the editor does not manage (required, custom) are kept as stored
+              <p key={index} className="text-xs text-muted-foreground">
+                {rule.type} rule: {rule.message}
+              </p>
+            )
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, rules: [...value.rules, createValidationRule('min')] })}
+          >
+            <Plus className="h-4 w-4" />
+            Add rule
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Rules across fields</p>
+          {crossField.map((rule, index) => (
+            <CrossFieldRuleEditor
+              key={index}
+              rule={rule}
+              otherFields={otherFields}
+              fields={fields}
+              allowRowCount={rowCountFieldTypes.has(fieldType)}
+              onChange={(next) => updateCrossField(index, next)}
+              onRemove={() => removeCrossField(index)}
+            />
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={otherFields.length === 0 && !rowCountFieldTypes.has(fieldType)}
+            onClick={() =>
+              onChange({
+                ...value,
+                crossField: [
+                  ...crossField,
+                  createCrossFieldRule(rowCountFieldTypes.has(fieldType) ? 'min_rows' : 'compare', otherFields),
+                ],
+              })
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add cross-field rule
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-red-600" role="alert">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
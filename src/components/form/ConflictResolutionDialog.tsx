@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { FormQuestionWithDetails } from '@/lib/form-engine/types';
+import { ConflictField, ConflictSide } from '@/lib/technology/conflict-merge';
+import { hasMeaningfulValue } from '@/lib/technology/answer-status';
+
+const SIDE_LABELS: Record<ConflictSide, string> = {
+  base: 'When you started',
+  theirs: 'Their version',
+  mine: 'Your version',
+};
+
+const SIDES: ConflictSide[] = ['base', 'theirs', 'mine'];
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  conflicts: ConflictField[];
+  /** Questions by field code, for labels and option text */
+  questions: Record<string, FormQuestionWithDetails>;
+  onResolve: (choices: Record<string, ConflictSide>) => void;
+  onCancel: () => void;
+}
+
+export function ConflictResolutionDialog({ open, conflicts, questions, onResolve, onCancel }: ConflictResolutionDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>({});
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setChoices({});
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Someone else changed this technology</DialogTitle>
+          <DialogDescription>
+            {conflicts.length > 0
+              ? 'Their other changes have been merged in. Pick which value to keep for each answer you both edited, then save again.'
+              : 'Their changes do not overlap with yours and have been merged in. Save again to keep both.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflicts.map((field) => {
+            const question = questions[field.fieldCode];
+            const label = question?.label ?? field.fieldCode;
+            return (
+              <fieldset key={field.fieldCode} className="space-y-2 rounded-lg border p-3">
+                <legend className="px-1 text-sm font-medium">{label}</legend>
+                <RadioGroup
+                  value={choices[field.fieldCode] ?? 'mine'}
+                  onValueChange={(side) => setChoices((prev) => ({ ...prev, [field.fieldCode]: side as ConflictSide }))}
+                  className="grid gap-2 sm:grid-cols-3"
+                  aria-label={label}
+                >
+                  {SIDES.map((side) => {
+                    const id = `conflict-${field.fieldCode}-${side}`;
+                    return (
+                      <label
+                        key={side}
+                        htmlFor={id}
+                        className="flex cursor-pointer items-start gap-2 rounded-md border p-2 text-sm has-[[data-state=checked]]:border-primary"
+                      >
+                        <RadioGroupItem id={id} value={side} aria-label={`${SIDE_LABELS[side]} for ${label}`} />
+                        <span className="space-y-1">
+                          <span className="block text-xs text-muted-foreground">{SIDE_LABELS[side]}</span>
+                          <span className="block whitespace-pre-wrap break-words">
+                            {formatConflictValue(field[side], question)}
+                          </span>
+                        </span>
+                      </label>
+                    );
+                  })}
+                </RadioGroup>
+              </fieldset>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Keep editing
+          </Button>
+          <Button
+            type="button"
+            onClick={() => {
+              onResolve(choices);
+              setChoices({});
+            }}
+          >
+            Apply and save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatConflictValue(value: unknown, question?: FormQuestionWithDetails): string {
+  if (!hasMeaningfulValue(value)) {
+    return '—';
+  }
+
+  const optionLabel = (entry: unknown) =>
+    question?.options.find((option) => option.value === entry)?.label ?? String(entry);
+
+  if (Array.isArray(value)) {
+    if (value.every((entry) => entry && typeof entry === 'object')) {
+      return value.length === 1 ? '1 row' : `${value.length} rows`;
+    }
+    return value.map(optionLabel).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return optionLabel(value);
+}
@@ -175,4 +175,41 @@ describe('DynamicFormNavigation', () => {
     expect(toast.error).toHaveBeenCalled();
     expect(await screen.findByText(/is required/)).toBeInTheDocument();
   });
+
+  it('asks which value to keep after a conflict and retries with the refreshed versions', async () => {
+    const user = userEvent.setup();
+    const template = buildTemplate({
+      sections: [
+        buildSection({
+          order: 0,
+          questions: [buildQuestion({ fieldCode: 'Q1', label: 'First Question' })],
+        }),
+      ],
+    });
+    const onSubmit = jest
+      .fn()
+      .mockResolvedValueOnce({
+        conflict: {
+          theirs: { Q1: 'theirs' },
+          mine: { Q1: 'updated' },
+          rowVersions: { technologyRowVersion: 3 },
+        },
+      })
+      .mockResolvedValueOnce(undefined);
+    renderNavigation(template, { onSubmit });
+
+    await user.click(screen.getByTestId('set-response'));
+    await user.click(screen.getByRole('button', { name: /Submit Form/i }));
+
+    expect(await screen.findByText('Someone else changed this technology')).toBeInTheDocument();
+    await user.click(screen.getByRole('radio', { name: 'Their version for First Question' }));
+    await user.click(screen.getByRole('button', { name: 'Apply and save' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(2));
+    expect(onSubmit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ responses: { Q1: 'theirs' } }),
+      { rowVersions: { technologyRowVersion: 3 } }
+    );
+    expect(screen.getByTestId('field-Q1')).toHaveValue('theirs');
+  });
 });
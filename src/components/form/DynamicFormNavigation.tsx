@@ -1,26 +1,56 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { ChevronLeft, ChevronRight, Download, Save, Send } from 'lucide-react';
 import { useFormEngine } from '@/lib/form-engine/renderer';
 import { shouldShowField, shouldRequireField, parseConditionalConfig } from '@/lib/form-engine/conditional-logic';
+import { validateCrossFieldRules } from '@/lib/form-engine/validation';
 import { FieldType, ValidationRule } from '@/lib/form-engine/types';
 import { parseValidationMetadata } from '@/lib/form-engine/json-utils';
 import { toast } from 'sonner';
 import { getClientLogger } from '@/lib/session';
+import { BindingConflict, RowVersionSnapshot } from '@/lib/technology/types';
+import { ConflictSide, ThreeWayMerge, mergeBindingConflict, resolveMerge } from '@/lib/technology/conflict-merge';
+import { ConflictResolutionDialog } from './ConflictResolutionDialog';
 
 type SubmissionStatusValue = 'DRAFT' | 'SUBMITTED' | 'REVIEWED' | 'ARCHIVED';
 
 const AUTOSAVE_DELAY_MS = 4000;
 
+type FormWriteData = {
+  responses: Record<string, unknown>;
+  repeatGroups: Record<string, unknown>;
+  calculatedScores: unknown;
+};
+
+/** What a save or submit may resolve with instead of succeeding */
+export interface FormWriteOutcome {
+  /** Server-side field errors, shown on the form */
+  fieldErrors?: Record<string, string>;
+  /** Another user changed the bound record first; opens the merge dialog */
+  conflict?: BindingConflict;
+}
+
+/** Retries after a conflict pass the refreshed versions to write against */
+type FormWriteOptions = { rowVersions?: RowVersionSnapshot };
+
+interface PendingConflict {
+  merge: ThreeWayMerge;
+  rowVersions: RowVersionSnapshot;
+  retry: 'submit' | 'draft';
+  data: FormWriteData;
+}
+
 interface DynamicFormNavigationProps {
   onSaveDraft?: (
-    data: { responses: Record<string, unknown>; repeatGroups: Record<string, unknown>; calculatedScores: unknown },
-    options?: { silent?: boolean }
-  ) => void;
-  onSubmit?: (data: { responses: Record<string, unknown>; repeatGroups: Record<string, unknown>; calculatedScores: unknown }) => void;
+    data: FormWriteData,
+    options?: { silent?: boolean } & FormWriteOptions
+  ) => void | Promise<FormWriteOutcome | void>;
+  onSubmit?: (data: FormWriteData, options?: FormWriteOptions) => void | Promise<FormWriteOutcome | void>;
   isSubmitting?: boolean;
   isSavingDraft?: boolean;
   submissionId?: string | null;
+  /** Published template version being filled in, for exports of unsaved forms */
+  templateVersionId?: string | null;
   exportStatus?: SubmissionStatusValue | 'BLANK' | 'IN_PROGRESS';
 }
 
@@ -30,6 +60,7 @@ export function DynamicFormNavigation({
   isSubmitting = false,
   isSavingDraft = false,
   submissionId = null,
+  templateVersionId = null,
   exportStatus,
 }: DynamicFormNavigationProps) {
   const {
@@ -42,6 +73,8 @@ export function DynamicFormNavigation({
     previousSection,
     submitForm,
     saveDraft,
+    setResponse,
+    setRepeatGroupData,
     setError  // ✅ ADD setError to set validation errors in form state
   } = useFormEngine();
 
@@ -58,6 +91,26 @@ export function DynamicFormNavigation({
   } | null>(null);
   const hasInitializedSnapshotRef = useRef(false);
   const lastAutosaveErrorRef = useRef<number | null>(null);
+  // Answers as last loaded or saved: the base of a three-way merge after a conflict
+  const syncedValuesRef = useRef<Record<string, unknown>>({});
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+
+  const questionsByCode = useMemo(
+    () =>
+      Object.fromEntries(
+        (template?.sections ?? []).flatMap((section) => section.questions).map((question) => [question.fieldCode, question])
+      ),
+    [template]
+  );
+
+  const openConflict = useCallback((conflict: BindingConflict, retry: PendingConflict['retry'], data: FormWriteData) => {
+    setPendingConflict({
+      merge: mergeBindingConflict(syncedValuesRef.current, conflict),
+      rowVersions: conflict.rowVersions,
+      retry,
+      data,
+    });
+  }, []);
 
   useEffect(() => {
     latestDataRef.current = {
@@ -74,6 +127,7 @@ export function DynamicFormNavigation({
         repeatGroups: latestDataRef.current.repeatGroups,
         calculatedScores: latestDataRef.current.calculatedScores,
       });
+      syncedValuesRef.current = { ...latestDataRef.current.responses, ...latestDataRef.current.repeatGroups };
       hasInitializedSnapshotRef.current = true;
     }
   }, [responses, repeatGroups, calculatedScores]);
@@ -87,7 +141,7 @@ export function DynamicFormNavigation({
       return;
     }
 
-    if (isSavingDraft || isSubmitting) {
+    if (isSavingDraft || isSubmitting || pendingConflict) {
       return;
     }
 
@@ -113,21 +167,19 @@ export function DynamicFormNavigation({
 
       setAutosaveStatus('saving');
       try {
-        await Promise.resolve(
-          onSaveDraft(
-            {
-              responses: latestDataRef.current.responses,
-              repeatGroups: latestDataRef.current.repeatGroups,
-              calculatedScores: latestDataRef.current.calculatedScores,
-            },
-            { silent: true }
-          )
-        );
-        lastSavedSnapshotRef.current = JSON.stringify({
+        const data = {
           responses: latestDataRef.current.responses,
           repeatGroups: latestDataRef.current.repeatGroups,
           calculatedScores: latestDataRef.current.calculatedScores,
-        });
+        };
+        const outcome = await Promise.resolve(onSaveDraft(data, { silent: true }));
+        if (outcome?.conflict) {
+          setAutosaveStatus('idle');
+          openConflict(outcome.conflict, 'draft', data);
+          return;
+        }
+        lastSavedSnapshotRef.current = JSON.stringify(data);
+        syncedValuesRef.current = { ...data.responses, ...data.repeatGroups };
         setLastAutosaveAt(new Date());
         setAutosaveStatus('saved');
         lastAutosaveErrorRef.current = null;
@@ -150,7 +202,7 @@ export function DynamicFormNavigation({
         autosaveTimerRef.current = null;
       }
     };
-  }, [responses, repeatGroups, calculatedScores, isSavingDraft, isSubmitting, onSaveDraft]);
+  }, [responses, repeatGroups, calculatedScores, isSavingDraft, isSubmitting, onSaveDraft, pendingConflict, openConflict]);
 
   useEffect(() => {
     return () => {
@@ -198,6 +250,7 @@ export function DynamicFormNavigation({
     try {
       const payload = {
         templateId: template.id,
+        templateVersionId: templateVersionId ?? undefined,
         submissionId: submissionId ?? undefined,
         responses,
         repeatGroups,
@@ -293,17 +346,18 @@ export function DynamicFormNavigation({
   // ✅ ADD validation function for current section
   const validateSections = (sectionsToValidate: typeof template.sections) => {
     const errors: { fieldCode: string; message: string; label: string; sectionTitle: string }[] = [];
+    const conditionalContext = { repeatGroups, calculatedScores };
 
     sectionsToValidate.forEach((section) => {
       const questions = [...section.questions].sort((a, b) => a.order - b.order);
 
       for (const question of questions) {
         const conditionalConfig = parseConditionalConfig(question.conditional);
-        const isVisible = shouldShowField(conditionalConfig, responses);
+        const isVisible = shouldShowField(conditionalConfig, responses, conditionalContext);
 
         if (!isVisible) continue;
 
-        const isRequired = shouldRequireField(conditionalConfig, question.isRequired, responses);
+        const isRequired = shouldRequireField(conditionalConfig, question.isRequired, responses, conditionalContext);
         const value =
           question.type === FieldType.REPEATABLE_GROUP || question.type === FieldType.DATA_TABLE_SELECTOR
             ? repeatGroups[question.fieldCode]
@@ -337,6 +391,17 @@ export function DynamicFormNavigation({
             label: question.label,
             sectionTitle: section.title,
           });
+          continue;
+        }
+
+        const crossFieldError = validateCrossFieldRules(question, responses, conditionalContext);
+        if (crossFieldError) {
+          errors.push({
+            fieldCode: question.fieldCode,
+            message: crossFieldError,
+            label: question.label,
+            sectionTitle: section.title,
+          });
         }
       }
     });
@@ -368,24 +433,24 @@ export function DynamicFormNavigation({
     }
   };
 
-  const handleSaveDraft = async () => {
-    const formData = {
-      responses,
-      repeatGroups,
-      calculatedScores,
-    };
-
+  const handleSaveDraft = async (formData: FormWriteData = { responses, repeatGroups, calculatedScores }, options: FormWriteOptions = {}) => {
     try {
       setAutosaveStatus('saving');
       if (onSaveDraft) {
         if (process.env.NODE_ENV !== 'production') {
-          getClientLogger().info('Saving draft', { hasResponses: hasResponseValues(responses, repeatGroups) });
+          getClientLogger().info('Saving draft', { hasResponses: hasResponseValues(formData.responses, formData.repeatGroups) });
+        }
+        const outcome = await Promise.resolve(onSaveDraft(formData, { silent: false, ...options }));
+        if (outcome?.conflict) {
+          setAutosaveStatus('idle');
+          openConflict(outcome.conflict, 'draft', formData);
+          return;
         }
-        await Promise.resolve(onSaveDraft(formData, { silent: false }));
       } else {
         await saveDraft();
       }
       lastSavedSnapshotRef.current = JSON.stringify(formData);
+      syncedValuesRef.current = { ...formData.responses, ...formData.repeatGroups };
       setLastAutosaveAt(new Date());
       setAutosaveStatus('saved');
       lastAutosaveErrorRef.current = null;
@@ -396,7 +461,7 @@ export function DynamicFormNavigation({
     }
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     const formData = {
       responses,
       repeatGroups,
@@ -423,17 +488,76 @@ export function DynamicFormNavigation({
     }
 
     if (onSubmit) {
-      getClientLogger().info('Submitting form', { hasResponses: hasResponseValues(responses, repeatGroups) });
-      onSubmit(formData);
+      await sendSubmission(formData);
     } else {
       submitForm();
     }
   };
 
+  const sendSubmission = async (formData: FormWriteData, options?: FormWriteOptions) => {
+    if (!onSubmit) return;
+    getClientLogger().info('Submitting form', { hasResponses: hasResponseValues(formData.responses, formData.repeatGroups) });
+    const outcome = await (options ? onSubmit(formData, options) : onSubmit(formData));
+    if (outcome?.conflict) {
+      openConflict(outcome.conflict, 'submit', formData);
+      return;
+    }
+    const fieldErrors = Object.entries(outcome?.fieldErrors ?? {});
+    fieldErrors.forEach(([fieldCode, message]) => setError(fieldCode, message));
+    if (fieldErrors.length > 0) {
+      requestAnimationFrame(() => scrollToField(fieldErrors[0][0]));
+    }
+  };
+
+  // Writes the chosen values into the form, then retries against the refreshed row versions
+  const handleResolveConflict = async (choices: Record<string, ConflictSide>) => {
+    if (!pendingConflict) return;
+    const { merge, rowVersions, retry, data } = pendingConflict;
+    setPendingConflict(null);
+
+    const nextData: FormWriteData = {
+      responses: { ...data.responses },
+      repeatGroups: { ...data.repeatGroups },
+      calculatedScores: data.calculatedScores,
+    };
+    for (const [fieldCode, value] of Object.entries(resolveMerge(merge, choices))) {
+      const question = questionsByCode[fieldCode];
+      if (question?.type === FieldType.REPEATABLE_GROUP || question?.type === FieldType.DATA_TABLE_SELECTOR) {
+        const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+        nextData.repeatGroups[fieldCode] = rows;
+        setRepeatGroupData(fieldCode, rows);
+      } else {
+        nextData.responses[fieldCode] = value ?? '';
+        setResponse(fieldCode, (value ?? '') as Parameters<typeof setResponse>[1]);
+      }
+    }
+
+    if (retry === 'submit') {
+      await sendSubmission(nextData, { rowVersions });
+    } else {
+      await handleSaveDraft(nextData, { rowVersions });
+    }
+  };
+
+  // Leaves the form as it is; the next save hits the same conflict and asks again
+  const handleCancelConflict = () => {
+    if (pendingConflict) {
+      lastSavedSnapshotRef.current = JSON.stringify({ responses, repeatGroups, calculatedScores });
+    }
+    setPendingConflict(null);
+  };
+
   const progressValue = ((currentSection + 1) / totalSections) * 100;
 
   return (
     <Card className="bg-[#e0e5ec] shadow-none border-0">
+      <ConflictResolutionDialog
+        open={pendingConflict !== null}
+        conflicts={pendingConflict?.merge.conflicts ?? []}
+        questions={questionsByCode}
+        onResolve={handleResolveConflict}
+        onCancel={handleCancelConflict}
+      />
       <CardContent className="pt-6">
         <div className="space-y-4">
           {/* Progress indicator */}
@@ -501,7 +625,7 @@ export function DynamicFormNavigation({
               {!isLastSection ? (
                 <>
                   <button
-                    onClick={handleSaveDraft}
+                    onClick={() => handleSaveDraft()}
                     disabled={isSavingDraft}
                     className={`px-4 py-2 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all ${
                       isSavingDraft
@@ -532,7 +656,7 @@ export function DynamicFormNavigation({
               ) : (
                 <>
                   <button
-                    onClick={handleSaveDraft}
+                    onClick={() => handleSaveDraft()}
                     disabled={isSavingDraft || isSubmitting}
                     className={`px-4 py-2 text-sm font-medium flex items-center bg-[#e0e5ec] border-0 text-[#353535] rounded-xl transition-all ${
                       isSavingDraft || isSubmitting
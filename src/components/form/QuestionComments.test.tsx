@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QuestionComments, SubmissionCommentsProvider } from './QuestionComments';
+import {
+  addSubmissionComment,
+  getSubmissionComments,
+  setSubmissionCommentResolved,
+} from '@/app/dynamic-form/actions';
+
+jest.mock('@/app/dynamic-form/actions', () => ({
+  getSubmissionComments: jest.fn(),
+  addSubmissionComment: jest.fn(),
+  setSubmissionCommentResolved: jest.fn(),
+}));
+
+jest.mock('sonner', () => ({
+  toast: { error: jest.fn(), success: jest.fn() },
+}));
+
+const thread = {
+  id: 'thread-1',
+  questionCode: 'F1',
+  rowIndex: 1,
+  body: 'Which study is this from, @[Avery](author-1)?',
+  authorId: 'reviewer-1',
+  authorLabel: 'Riley',
+  mentions: ['author-1'],
+  createdAt: new Date('2025-11-15T10:00:00Z'),
+  resolvedAt: null,
+  resolvedByLabel: null,
+  replies: [],
+};
+
+function renderComments() {
+  return render(
+    <SubmissionCommentsProvider submissionId="sub-1">
+      <QuestionComments questionCode="F1" label="Competitors" rowCount={2} />
+    </SubmissionCommentsProvider>
+  );
+}
+
+describe('QuestionComments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getSubmissionComments as jest.Mock).mockResolvedValue({
+      success: true,
+      data: {
+        threads: [thread],
+        mentionable: [
+          { id: 'reviewer-1', label: 'Riley' },
+          { id: 'author-1', label: 'Avery' },
+        ],
+        currentUserId: 'reviewer-1',
+      },
+    });
+    (addSubmissionComment as jest.Mock).mockResolvedValue({ success: true });
+    (setSubmissionCommentResolved as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it('shows threads with their row and mentions, and resolves them', async () => {
+    const user = userEvent.setup();
+    renderComments();
+
+    await user.click(await screen.findByRole('button', { name: /Comments \(1\)/ }));
+    expect(screen.getByText('Row 2')).toBeInTheDocument();
+    expect(screen.getByText('@Avery')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Resolve' }));
+    await waitFor(() => expect(setSubmissionCommentResolved).toHaveBeenCalledWith('sub-1', 'thread-1', true));
+    expect(getSubmissionComments).toHaveBeenCalledTimes(2);
+  });
+
+  it('turns a picked @-suggestion into a stored mention when posting', async () => {
+    const user = userEvent.setup();
+    renderComments();
+
+    await user.click(await screen.findByRole('button', { name: /Comments/ }));
+    await user.type(screen.getByLabelText('Comment on Competitors'), 'Please confirm @Av');
+    await user.click(screen.getByRole('button', { name: 'Avery' }));
+    await user.type(screen.getByLabelText('Comment on Competitors'), 'thanks');
+    await user.click(screen.getByRole('button', { name: 'Comment' }));
+
+    await waitFor(() =>
+      expect(addSubmissionComment).toHaveBeenCalledWith({
+        submissionId: 'sub-1',
+        questionCode: 'F1',
+        body: 'Please confirm @[Avery](author-1) thanks',
+        rowIndex: null,
+      })
+    );
+  });
+});
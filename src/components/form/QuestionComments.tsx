@@ -0,0 +1,355 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, useTransition } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react';
+import { FieldType } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  addSubmissionComment,
+  getSubmissionComments,
+  setSubmissionCommentResolved,
+} from '@/app/dynamic-form/actions';
+import { useFormEngine } from '@/lib/form-engine/renderer';
+import type { FormQuestionWithDetails } from '@/lib/form-engine/types';
+import type { CommentEntry, CommentThread } from '@/lib/submissions/comments';
+import {
+  MentionableUser,
+  activeMentionQuery,
+  encodeMentions,
+  splitMentions,
+} from '@/lib/submissions/mentions';
+
+interface SubmissionCommentsContextValue {
+  submissionId: string;
+  threads: CommentThread[];
+  mentionable: MentionableUser[];
+  currentUserId: string | null;
+  reload: () => Promise<void>;
+}
+
+const SubmissionCommentsContext = createContext<SubmissionCommentsContextValue | null>(null);
+
+const WHOLE_QUESTION = 'question';
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Loads the comment threads for a submission and shares them with every
+ * QuestionComments below. Renders its children without comments when there is
+ * no saved submission yet or the user cannot see its comments.
+ */
+export function SubmissionCommentsProvider({
+  submissionId,
+  children,
+}: {
+  submissionId: string | null;
+  children: React.ReactNode;
+}) {
+  const [state, setState] = useState<Omit<SubmissionCommentsContextValue, 'submissionId' | 'reload'> | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!submissionId) {
+      setState(null);
+      return;
+    }
+    const result = await getSubmissionComments(submissionId);
+    setState(result.success && result.data ? result.data : null);
+  }, [submissionId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const value = submissionId && state ? { submissionId, ...state, reload } : null;
+  return <SubmissionCommentsContext.Provider value={value}>{children}</SubmissionCommentsContext.Provider>;
+}
+
+function formatCommentDate(value: Date) {
+  return format(new Date(value), 'MMM d, yyyy h:mm a');
+}
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm text-[#353535]">
+      {splitMentions(body).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <span key={index} className="font-medium text-primary">
+            @{segment.label}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
+
+function CommentItem({ comment }: { comment: CommentEntry }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-[#6b7280]">
+        <span className="font-medium text-[#353535]">{comment.authorLabel}</span> · {formatCommentDate(comment.createdAt)}
+      </p>
+      <CommentBody body={comment.body} />
+    </div>
+  );
+}
+
+interface CommentComposerProps {
+  label: string;
+  mentionable: MentionableUser[];
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+/**
+ * Textarea that suggests people while an `@name` is being typed and stores the
+ * picked ones as mention tokens.
+ */
+function CommentComposer({ label, mentionable, submitLabel, onSubmit, disabled }: CommentComposerProps) {
+  const [text, setText] = useState('');
+  const [caret, setCaret] = useState(0);
+  const [picked, setPicked] = useState<MentionableUser[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const query = activeMentionQuery(text.slice(0, caret));
+  const suggestions =
+    query === null
+      ? []
+      : mentionable
+          .filter((user) => user.label.toLowerCase().includes(query.toLowerCase()))
+          .slice(0, MAX_SUGGESTIONS);
+
+  const pick = (user: MentionableUser) => {
+    const before = text.slice(0, caret).replace(/@[^\s@[\]]*$/, `@${user.label} `);
+    const next = before + text.slice(caret);
+    setText(next);
+    setCaret(before.length);
+    setPicked((prev) => [...prev, user]);
+    textareaRef.current?.focus();
+  };
+
+  const submit = async () => {
+    const body = encodeMentions(text.trim(), picked);
+    if (!body) return;
+    if (await onSubmit(body)) {
+      setText('');
+      setPicked([]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        ref={textareaRef}
+        aria-label={label}
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          setCaret(event.target.selectionStart ?? event.target.value.length);
+        }}
+        onSelect={(event) => setCaret(event.currentTarget.selectionStart ?? text.length)}
+        placeholder="Write a comment. Type @ to mention someone."
+        maxLength={4000}
+        disabled={disabled}
+      />
+      {suggestions.length > 0 && (
+        <ul role="listbox" aria-label="Mention suggestions" className="rounded-md border bg-white p-1 text-sm">
+          {suggestions.map((user) => (
+            <li key={user.id} role="option" aria-selected={false}>
+              <button
+                type="button"
+                className="w-full rounded px-2 py-1 text-left hover:bg-muted"
+                onClick={() => pick(user)}
+              >
+                {user.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button type="button" size="sm" onClick={submit} disabled={disabled || !text.trim()}>
+        {submitLabel}
+      </Button>
+    </div>
+  );
+}
+
+interface QuestionCommentsProps {
+  questionCode: string;
+  label: string;
+  /** Rows in the question's repeat group; threads can target one of them */
+  rowCount?: number;
+}
+
+/**
+ * Comment threads on one answer, collapsed behind a count until opened.
+ * Renders nothing outside a SubmissionCommentsProvider with a loaded submission.
+ */
+export function QuestionComments({ questionCode, label, rowCount = 0 }: QuestionCommentsProps) {
+  const context = useContext(SubmissionCommentsContext);
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState(WHOLE_QUESTION);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  if (!context) {
+    return null;
+  }
+
+  const threads = context.threads.filter((thread) => thread.questionCode === questionCode);
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+
+  const post = (input: { body: string; rowIndex?: number | null; parentId?: string }) =>
+    new Promise<boolean>((resolve) => {
+      startTransition(async () => {
+        const result = await addSubmissionComment({ submissionId: context.submissionId, questionCode, ...input });
+        if (!result.success) {
+          toast.error(result.error ?? 'Unable to post comment');
+          resolve(false);
+          return;
+        }
+        await context.reload();
+        resolve(true);
+      });
+    });
+
+  const toggleResolved = (thread: CommentThread) => {
+    startTransition(async () => {
+      const result = await setSubmissionCommentResolved(context.submissionId, thread.id, !thread.resolvedAt);
+      if (!result.success) {
+        toast.error(result.error ?? 'Unable to update comment');
+        return;
+      }
+      await context.reload();
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+        className="text-[#6b7280]"
+      >
+        <MessageSquare className="mr-2 h-4 w-4" />
+        {threads.length === 0 ? 'Comment' : `Comments (${threads.length})`}
+        {openCount > 0 && (
+          <Badge variant="secondary" className="ml-2">
+            {openCount} open
+          </Badge>
+        )}
+      </Button>
+
+      {open && (
+        <div className="space-y-3 rounded-xl bg-[#f8fafc] p-3">
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`space-y-2 rounded-lg border bg-white p-3 ${thread.resolvedAt ? 'opacity-70' : ''}`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                {thread.rowIndex !== null && <Badge variant="outline">Row {thread.rowIndex + 1}</Badge>}
+                {thread.resolvedAt && (
+                  <Badge variant="outline">
+                    Resolved{thread.resolvedByLabel ? ` by ${thread.resolvedByLabel}` : ''}
+                  </Badge>
+                )}
+              </div>
+              <CommentItem comment={thread} />
+              {thread.replies.map((reply) => (
+                <div key={reply.id} className="border-l-2 pl-3">
+                  <CommentItem comment={reply} />
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReplyingTo(replyingTo === thread.id ? null : thread.id)}
+                  disabled={pending}
+                >
+                  Reply
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => toggleResolved(thread)} disabled={pending}>
+                  {thread.resolvedAt ? (
+                    <>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Reopen
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Resolve
+                    </>
+                  )}
+                </Button>
+              </div>
+              {replyingTo === thread.id && (
+                <CommentComposer
+                  label={`Reply on ${label}`}
+                  mentionable={context.mentionable}
+                  submitLabel="Reply"
+                  disabled={pending}
+                  onSubmit={async (body) => {
+                    const posted = await post({ body, parentId: thread.id });
+                    if (posted) setReplyingTo(null);
+                    return posted;
+                  }}
+                />
+              )}
+            </div>
+          ))}
+
+          {rowCount > 0 && (
+            <Select value={target} onValueChange={setTarget} disabled={pending}>
+              <SelectTrigger className="w-48 bg-white" aria-label={`Comment target for ${label}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_QUESTION}>Whole question</SelectItem>
+                {Array.from({ length: rowCount }, (_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    Row {index + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <CommentComposer
+            label={`Comment on ${label}`}
+            mentionable={context.mentionable}
+            submitLabel="Comment"
+            disabled={pending}
+            onSubmit={(body) => post({ body, rowIndex: target === WHOLE_QUESTION ? null : Number(target) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * QuestionComments for a question inside the form renderer, where repeat-group
+ * rows come from the live form state.
+ */
+export function FormQuestionComments({ question }: { question: FormQuestionWithDetails }) {
+  const { repeatGroups } = useFormEngine();
+  const usesRows = question.type === FieldType.REPEATABLE_GROUP || question.type === FieldType.DATA_TABLE_SELECTOR;
+  return (
+    <QuestionComments
+      questionCode={question.fieldCode}
+      label={question.label}
+      rowCount={usesRows ? repeatGroups[question.fieldCode]?.length ?? 0 : 0}
+    />
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  RECOMMENDATION_COLOR_STYLES,
+  RecommendationRules,
+  buildRecommendationGrid,
+  findRecommendationBand,
+} from '@/lib/scoring/recommendations';
+
+interface RecommendationGridProps {
+  rules: RecommendationRules;
+  resolution?: number;
+}
+
+/**
+ * Matrix background painted from the recommendation rule set, so the chart
+ * always reflects the thresholds the scores were evaluated against.
+ */
+export function RecommendationGrid({ rules, resolution = 10 }: RecommendationGridProps) {
+  const grid = buildRecommendationGrid(rules, resolution);
+
+  return (
+    <div
+      className="absolute inset-0 grid"
+      style={{
+        gridTemplateColumns: `repeat(${resolution}, minmax(0, 1fr))`,
+        gridTemplateRows: `repeat(${resolution}, minmax(0, 1fr))`,
+      }}
+      aria-hidden="true"
+    >
+      {grid.flatMap((row, rowIndex) =>
+        row.map((bandKey, columnIndex) => {
+          const color = findRecommendationBand(rules, bandKey)?.color ?? 'gray';
+          return <div key={`${rowIndex}-${columnIndex}`} className={RECOMMENDATION_COLOR_STYLES[color].cell} />;
+        })
+      )}
+    </div>
+  );
+}
+
+interface RecommendationLegendProps {
+  rules: RecommendationRules;
+  ruleSetLabel?: string;
+}
+
+export function RecommendationLegend({ rules, ruleSetLabel }: RecommendationLegendProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-600">
+      {rules.bands.map((band) => (
+        <span key={band.key} className="inline-flex items-center gap-1">
+          <span className={`inline-block h-3 w-3 rounded-sm border border-gray-300 ${RECOMMENDATION_COLOR_STYLES[band.color].cell}`} />
+          {band.label}
+        </span>
+      ))}
+      {ruleSetLabel && <span className="text-gray-400">{ruleSetLabel}</span>}
+    </div>
+  );
+}
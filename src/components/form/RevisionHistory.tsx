@@ -0,0 +1,252 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import type { FieldType, SubmissionStatus } from '@prisma/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { buildRepeatableColumns, formatPrimitive, renderSimpleValue } from '@/lib/submissions/answer-display';
+import type { RepeatGroupRow, RevisionDiff, RowChangeKind } from '@/lib/submissions/revisions';
+
+export interface RevisionSummary {
+  id: string;
+  revision: number;
+  status: SubmissionStatus;
+  createdAt: Date;
+  createdByLabel: string | null;
+}
+
+export interface RevisionQuestion {
+  fieldCode: string;
+  label: string;
+  type: FieldType;
+  options: { value: string; label: string }[];
+  repeatableConfig: unknown;
+}
+
+interface RevisionHistoryProps {
+  submissionId: string;
+  /** Oldest first */
+  revisions: RevisionSummary[];
+  /** Template questions in form order, for labels and option text */
+  questions: RevisionQuestion[];
+  comparison: { from: number; to: number; diff: RevisionDiff } | null;
+}
+
+const CHANGE_LABELS: Record<RowChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const ROW_CLASSES: Record<RowChangeKind, string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: 'bg-amber-50',
+  unchanged: '',
+};
+
+function formatRevisionDate(value: Date) {
+  return format(new Date(value), 'MMM d, yyyy h:mm a');
+}
+
+function RowValues({
+  question,
+  row,
+}: {
+  question: RevisionQuestion | undefined;
+  row: RepeatGroupRow | null;
+}) {
+  if (!row) {
+    return <span className="text-[#6b7280]">—</span>;
+  }
+  const columns = buildRepeatableColumns(question ?? { repeatableConfig: null }, [row]);
+  return (
+    <dl className="space-y-0.5">
+      {columns.map((column) => (
+        <div key={column.key} className="flex gap-2">
+          <dt className="text-[#6b7280]">{column.label}:</dt>
+          <dd className="whitespace-pre-wrap break-words">{formatPrimitive(row[column.key])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Timeline of a submission's saved revisions with a picker to compare any two,
+ * and the answer-level diff of the pair being compared. Comparison state lives
+ * in the page URL (`?from=&to=`), so it works without client script.
+ */
+export function RevisionHistory({ submissionId, revisions, questions, comparison }: RevisionHistoryProps) {
+  const basePath = `/dynamic-form/submissions/${encodeURIComponent(submissionId)}`;
+  const questionsByCode = new Map(questions.map((question) => [question.fieldCode, question]));
+  const questionOrder = new Map(questions.map((question, index) => [question.fieldCode, index]));
+  const byFormOrder = (a: { questionCode: string }, b: { questionCode: string }) =>
+    (questionOrder.get(a.questionCode) ?? Number.MAX_SAFE_INTEGER) -
+    (questionOrder.get(b.questionCode) ?? Number.MAX_SAFE_INTEGER);
+  const labelFor = (questionCode: string) => questionsByCode.get(questionCode)?.label ?? questionCode;
+  const formatAnswer = (questionCode: string, value: unknown) => {
+    const question = questionsByCode.get(questionCode);
+    return question ? renderSimpleValue(question, value) : formatPrimitive(value);
+  };
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-[#6b7280]">No revisions have been recorded for this submission yet.</p>;
+  }
+
+  const latest = revisions[revisions.length - 1].revision;
+  const defaultFrom = comparison?.from ?? Math.max(1, latest - 1);
+  const defaultTo = comparison?.to ?? latest;
+
+  return (
+    <div className="space-y-6">
+      <ol className="space-y-2">
+        {[...revisions].reverse().map((revision) => (
+          <li
+            key={revision.id}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-2xl bg-[#f8fafc] px-4 py-3 text-sm text-[#353535]"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">Revision {revision.revision}</span>
+              <Badge variant="outline" className="uppercase tracking-wide">
+                {revision.status}
+              </Badge>
+              <span className="text-xs text-[#6b7280]">
+                {revision.createdByLabel ?? 'Unknown user'} · {formatRevisionDate(revision.createdAt)}
+              </span>
+            </div>
+            {revision.revision > 1 && (
+              <Link
+                href={`${basePath}?from=${revision.revision - 1}&to=${revision.revision}#revisions`}
+                className="text-xs font-medium text-primary hover:underline"
+              >
+                Compare with previous
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {revisions.length > 1 && (
+        <form method="get" action={`${basePath}#revisions`} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-[#6b7280]">Compare</span>
+          <Select name="from" defaultValue={String(defaultFrom)}>
+            <SelectTrigger className="w-40 bg-white" aria-label="Older revision">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={String(revision.revision)}>
+                  Revision {revision.revision}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-[#6b7280]">with</span>
+          <Select name="to" defaultValue={String(defaultTo)}>
+            <SelectTrigger className="w-40 bg-white" aria-label="Newer revision">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={String(revision.revision)}>
+                  Revision {revision.revision}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline" size="sm">
+            Compare
+          </Button>
+        </form>
+      )}
+
+      {comparison && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-[#353535]">
+            Changes from revision {comparison.from} to revision {comparison.to}
+          </h3>
+
+          {!comparison.diff.hasChanges && (
+            <p className="text-sm text-[#6b7280]">The answers are the same in both revisions.</p>
+          )}
+
+          {comparison.diff.answers.length > 0 && (
+            <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Revision {comparison.from}</TableHead>
+                  <TableHead>Revision {comparison.to}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...comparison.diff.answers].sort(byFormOrder).map((change) => (
+                  <TableRow key={change.questionCode} className={ROW_CLASSES[change.kind]}>
+                    <TableCell className="align-top">
+                      <div className="space-y-1">
+                        <span className="font-medium">{labelFor(change.questionCode)}</span>
+                        <Badge variant="outline">{CHANGE_LABELS[change.kind]}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top whitespace-pre-wrap break-words">
+                      {formatAnswer(change.questionCode, change.before)}
+                    </TableCell>
+                    <TableCell className="align-top whitespace-pre-wrap break-words">
+                      {formatAnswer(change.questionCode, change.after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {[...comparison.diff.repeatGroups].sort(byFormOrder).map((group) => {
+            const question = questionsByCode.get(group.questionCode);
+            return (
+              <div key={group.questionCode} className="space-y-2">
+                <h4 className="text-sm font-medium text-[#353535]">{labelFor(group.questionCode)}</h4>
+                <Table wrapperClassName="neumorphic-table-container" className="neumorphic-table">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-28">Change</TableHead>
+                      <TableHead>Revision {comparison.from}</TableHead>
+                      <TableHead>Revision {comparison.to}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.rows.map((row) => (
+                      <TableRow
+                        key={`${row.beforeIndex ?? '-'}:${row.afterIndex ?? '-'}`}
+                        className={ROW_CLASSES[row.kind]}
+                      >
+                        <TableCell className="align-top text-xs">
+                          {CHANGE_LABELS[row.kind]}
+                          <div className="text-[#6b7280]">
+                            {row.beforeIndex !== null && `Row ${row.beforeIndex + 1}`}
+                            {row.beforeIndex !== null && row.afterIndex !== null && row.beforeIndex !== row.afterIndex
+                              ? ` → ${row.afterIndex + 1}`
+                              : ''}
+                            {row.beforeIndex === null && row.afterIndex !== null && `Row ${row.afterIndex + 1}`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <RowValues question={question} row={row.before} />
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <RowValues question={question} row={row.after} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
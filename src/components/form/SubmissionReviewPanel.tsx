@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { CheckCircle2, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { assignSubmissionReviewer, reviewSubmission } from '@/app/dynamic-form/actions';
+
+interface SubmissionReviewPanelProps {
+  submissionId: string;
+  reviewerId: string | null;
+  reviewerLabel: string | null;
+  currentUserId: string | null;
+  canReview: boolean;
+  /** Users who can be assigned */
+  reviewers: { id: string; label: string }[];
+  /** Questions a comment can be attached to, in form order */
+  questions: { fieldCode: string; label: string }[];
+}
+
+type ReviewChoice = 'CHANGES_REQUESTED' | 'APPROVED';
+
+export function SubmissionReviewPanel({
+  submissionId,
+  reviewerId,
+  reviewerLabel,
+  currentUserId,
+  canReview,
+  reviewers,
+  questions,
+}: SubmissionReviewPanelProps) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+  const [assignee, setAssignee] = useState(reviewerId ?? '');
+  const [summary, setSummary] = useState('');
+  const [questionComments, setQuestionComments] = useState<Record<string, string>>({});
+  const [blockers, setBlockers] = useState<string[]>([]);
+
+  const isAssignedReviewer = canReview && reviewerId !== null && reviewerId === currentUserId;
+  const labelFor = (fieldCode: string) =>
+    questions.find((question) => question.fieldCode === fieldCode)?.label ?? fieldCode;
+  const uncommented = questions.filter((question) => !(question.fieldCode in questionComments));
+
+  const assign = () => {
+    if (!assignee) return;
+
+    startTransition(async () => {
+      const result = await assignSubmissionReviewer(submissionId, assignee);
+      if (!result.success) {
+        setBlockers(result.blockers ?? [result.error ?? 'Unable to assign reviewer']);
+        return;
+      }
+      setBlockers([]);
+      toast.success('Reviewer assigned');
+      router.refresh();
+    });
+  };
+
+  const submitReview = (decision: ReviewChoice) => {
+    startTransition(async () => {
+      const result = await reviewSubmission({
+        submissionId,
+        decision,
+        summary: summary.trim() || undefined,
+        questionComments,
+      });
+      if (!result.success) {
+        setBlockers(result.blockers ?? [result.error ?? 'Unable to save review']);
+        return;
+      }
+      setBlockers([]);
+      setSummary('');
+      setQuestionComments({});
+      toast.success(decision === 'APPROVED' ? 'Submission approved' : 'Sent back to the author with your comments');
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-[#353535]">
+        <span>{reviewerLabel ? `Assigned to ${reviewerLabel}` : 'No reviewer assigned yet.'}</span>
+        {canReview && (
+          <div className="flex items-center gap-2">
+            <Select value={assignee} onValueChange={setAssignee} disabled={pending}>
+              <SelectTrigger className="w-56 bg-white" aria-label="Reviewer">
+                <SelectValue placeholder="Choose a reviewer" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewers.map((reviewer) => (
+                  <SelectItem key={reviewer.id} value={reviewer.id}>
+                    {reviewer.id === currentUserId ? `${reviewer.label} (you)` : reviewer.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={assign}
+              disabled={pending || !assignee || assignee === reviewerId}
+            >
+              {reviewerId ? 'Reassign' : 'Assign'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!canReview && (
+        <p className="text-sm text-[#6b7280]">Only reviewers can approve submissions or request changes.</p>
+      )}
+      {canReview && reviewerId && !isAssignedReviewer && (
+        <p className="text-sm text-[#6b7280]">Only the assigned reviewer can approve or request changes.</p>
+      )}
+
+      {isAssignedReviewer && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Question comments</Label>
+            {Object.entries(questionComments).map(([fieldCode, comment]) => {
+              const label = labelFor(fieldCode);
+              return (
+                <div key={fieldCode} className="space-y-1 rounded-xl bg-[#f8fafc] p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-[#353535]">{label}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Remove comment on ${label}`}
+                      onClick={() =>
+                        setQuestionComments((prev) => {
+                          const next = { ...prev };
+                          delete next[fieldCode];
+                          return next;
+                        })
+                      }
+                      disabled={pending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea
+                    aria-label={`Comment on ${label}`}
+                    value={comment}
+                    onChange={(event) =>
+                      setQuestionComments((prev) => ({ ...prev, [fieldCode]: event.target.value }))
+                    }
+                    maxLength={4000}
+                    disabled={pending}
+                  />
+                </div>
+              );
+            })}
+            {uncommented.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(fieldCode) => setQuestionComments((prev) => ({ ...prev, [fieldCode]: '' }))}
+                disabled={pending}
+              >
+                <SelectTrigger className="w-72 bg-white" aria-label="Comment on a question">
+                  <SelectValue placeholder="Comment on a question…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {uncommented.map((question) => (
+                    <SelectItem key={question.fieldCode} value={question.fieldCode}>
+                      {question.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-summary">Overall comment</Label>
+            <Textarea
+              id="review-summary"
+              value={summary}
+              onChange={(event) => setSummary(event.target.value)}
+              maxLength={4000}
+              disabled={pending}
+            />
+          </div>
+        </div>
+      )}
+
+      {blockers.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-red-600" role="alert">
+          {blockers.map((blocker) => (
+            <li key={blocker}>{blocker}</li>
+          ))}
+        </ul>
+      )}
+
+      {isAssignedReviewer && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => submitReview('CHANGES_REQUESTED')} disabled={pending}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Request changes
+          </Button>
+          <Button onClick={() => submitReview('APPROVED')} disabled={pending}>
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { FormEvent, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { STAGE_LABELS } from '@/lib/technology/constants';
+
+const ALL = 'all';
+
+const TYPE_OPTIONS = [
+  { value: 'technology', label: 'Technologies' },
+  { value: 'submission', label: 'Submissions' },
+];
+
+// Technology and submission statuses share one filter; picking one narrows results to its kind
+const STATUS_OPTIONS = [
+  ...['ACTIVE', 'ON_HOLD', 'ABANDONED', 'COMPLETED'].map((value) => ({
+    value,
+    label: `Technology: ${value.replace('_', ' ')}`,
+  })),
+  ...['DRAFT', 'SUBMITTED', 'REVIEWED', 'ARCHIVED'].map((value) => ({ value, label: `Submission: ${value}` })),
+];
+
+export function SearchFilterBar() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [query, setQuery] = useState(searchParams?.get('q') ?? '');
+
+  const current = (key: string) => searchParams?.get(key) ?? ALL;
+
+  const push = (params: URLSearchParams) => {
+    const next = params.toString();
+    router.push(next ? `${pathname}?${next}` : pathname);
+  };
+
+  const update = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams?.toString() ?? '');
+    if (value === ALL || value === '') {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+    push(params);
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    update('q', query.trim());
+  };
+
+  const filters: Array<{ key: string; label: string; options: Array<{ value: string; label: string }> }> = [
+    { key: 'type', label: 'Show', options: TYPE_OPTIONS },
+    {
+      key: 'stage',
+      label: 'Stage',
+      options: Object.entries(STAGE_LABELS).map(([value, label]) => ({ value, label })),
+    },
+    { key: 'status', label: 'Status', options: STATUS_OPTIONS },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={submit} className="flex gap-2" role="search">
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder='Search names, narratives, competitors, experts and answers — use "quotes" for phrases'
+          aria-label="Search"
+          className="bg-white"
+        />
+        <Button type="submit">
+          <Search className="mr-2 h-4 w-4" />
+          Search
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap items-end gap-4">
+        {filters.map((filter) => (
+          <div key={filter.key} className="space-y-1">
+            <Label className="text-xs text-[#6b7280]">{filter.label}</Label>
+            <Select value={current(filter.key)} onValueChange={(value) => update(filter.key, value)}>
+              <SelectTrigger className="w-48 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All</SelectItem>
+                {filter.options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        {[
+          { key: 'from', label: 'Updated from' },
+          { key: 'to', label: 'Updated to' },
+        ].map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`search-${field.key}`} className="text-xs text-[#6b7280]">
+              {field.label}
+            </Label>
+            <Input
+              id={`search-${field.key}`}
+              type="date"
+              value={searchParams?.get(field.key) ?? ''}
+              onChange={(event) => update(field.key, event.target.value)}
+              className="w-44 bg-white"
+            />
+          </div>
+        ))}
+
+        {searchParams && searchParams.toString().length > 0 && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setQuery('');
+              router.push(pathname);
+            }}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
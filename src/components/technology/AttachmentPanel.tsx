@@ -0,0 +1,176 @@
+"use client";
+
+import { useRef, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Paperclip, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_CATEGORIES,
+  formatFileSize,
+  resolveAttachmentMimeType,
+  validateAttachmentFile,
+} from '@/lib/attachments/policy';
+
+export interface AttachmentPanelItem {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  category: string | null;
+  submissionId: string | null;
+  uploadedByLabel: string;
+  uploadedAt: Date;
+}
+
+interface AttachmentPanelProps {
+  attachments: AttachmentPanelItem[];
+  /** Technology the uploads are filed under */
+  techId?: string | null;
+  /** Submission the uploads came from, if any */
+  submissionId?: string;
+  emptyMessage?: string;
+}
+
+const NO_CATEGORY = 'none';
+
+export function AttachmentPanel({ attachments, techId, submissionId, emptyMessage }: AttachmentPanelProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pending, startTransition] = useTransition();
+  const [file, setFile] = useState<File | null>(null);
+  const [category, setCategory] = useState(NO_CATEGORY);
+  const [errors, setErrors] = useState<string[]>([]);
+  const canUpload = Boolean(techId);
+
+  const reset = () => {
+    setFile(null);
+    setCategory(NO_CATEGORY);
+    setErrors([]);
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    setErrors(
+      selected
+        ? validateAttachmentFile({
+            fileName: selected.name,
+            mimeType: resolveAttachmentMimeType(selected.name, selected.type),
+            sizeBytes: selected.size,
+          })
+        : []
+    );
+  };
+
+  const upload = () => {
+    if (!file || errors.length > 0) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (techId) formData.append('techId', techId);
+    if (submissionId) formData.append('submissionId', submissionId);
+    if (category !== NO_CATEGORY) formData.append('category', category);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+        const result = (await response.json().catch(() => null)) as
+          | { success: boolean; error?: string; details?: string[] }
+          | null;
+
+        if (!response.ok || !result?.success) {
+          setErrors(result?.details ?? [result?.error ?? 'Upload failed']);
+          return;
+        }
+
+        toast.success(`${file.name} uploaded`);
+        reset();
+        router.refresh();
+      } catch (error) {
+        console.error('Attachment upload failed', error);
+        setErrors(['Upload failed. Check your connection and try again.']);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {attachments.length === 0 ? (
+        <p className="text-sm text-[#6b7280]">{emptyMessage ?? 'No attachments have been uploaded.'}</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <Paperclip className="h-4 w-4 text-[#6b7280]" />
+              <a
+                href={`/api/attachments/${attachment.id}`}
+                className="font-medium text-[#353535] hover:underline"
+                download
+              >
+                {attachment.fileName}
+              </a>
+              {attachment.category && <Badge variant="outline">{attachment.category}</Badge>}
+              {submissionId && attachment.submissionId === submissionId && (
+                <Badge variant="secondary">This submission</Badge>
+              )}
+              <span className="text-[#6b7280]">
+                {attachment.sizeBytes > 0 && `${formatFileSize(attachment.sizeBytes)} · `}
+                {attachment.uploadedByLabel} · {format(attachment.uploadedAt, 'MMM d, yyyy h:mm a')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload ? (
+        <div className="space-y-2 rounded-xl bg-[#f5f7fa] p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              ref={inputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              className="max-w-xs bg-white"
+              aria-label="File to upload"
+              disabled={pending}
+              onChange={(event) => selectFile(event.target.files?.[0] ?? null)}
+            />
+            <Select value={category} onValueChange={setCategory} disabled={pending}>
+              <SelectTrigger className="w-48 bg-white" aria-label="Category">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                {ATTACHMENT_CATEGORIES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={upload} disabled={!file || errors.length > 0 || pending}>
+              <Upload className="mr-2 h-4 w-4" />
+              {pending ? 'Uploading…' : 'Upload'}
+            </Button>
+          </div>
+          {errors.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-red-600" role="alert">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-[#6b7280]">Enter a technology ID on this form to attach files.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { STAGE_LABELS } from '@/lib/technology/constants';
+
+interface PortfolioFilterBarProps {
+  domains: string[];
+  reviewers: string[];
+}
+
+const ALL = 'all';
+
+const STATUS_OPTIONS = ['ACTIVE', 'ON_HOLD', 'ABANDONED', 'COMPLETED'];
+
+// Mirrors defaultSortDirection in lib/technology/portfolio
+const ASCENDING_BY_DEFAULT = ['technologyName', 'currentStage'];
+
+const SORT_OPTIONS = [
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'technologyName', label: 'Name' },
+  { value: 'currentStage', label: 'Stage' },
+  { value: 'impactScore', label: 'Impact score' },
+  { value: 'valueScore', label: 'Value score' },
+];
+
+export function PortfolioFilterBar({ domains, reviewers }: PortfolioFilterBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const current = (key: string) => searchParams?.get(key) ?? ALL;
+
+  const update = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams?.toString() ?? '');
+    if (value === ALL) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+    // Changing the sort field resets to that field's natural direction
+    if (key === 'sort') {
+      params.delete('direction');
+    }
+    // Any change reshuffles the rows, so start again from the first page
+    params.delete('page');
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const filters: Array<{ key: string; label: string; options: Array<{ value: string; label: string }> }> = [
+    {
+      key: 'stage',
+      label: 'Stage',
+      options: Object.entries(STAGE_LABELS).map(([value, label]) => ({ value, label })),
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      options: STATUS_OPTIONS.map((value) => ({ value, label: value.replace('_', ' ') })),
+    },
+    { key: 'domain', label: 'Domain', options: domains.map((value) => ({ value, label: value })) },
+    { key: 'reviewer', label: 'Reviewer', options: reviewers.map((value) => ({ value, label: value })) },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      {filters.map((filter) => (
+        <div key={filter.key} className="space-y-1">
+          <Label className="text-xs text-[#6b7280]">{filter.label}</Label>
+          <Select value={current(filter.key)} onValueChange={(value) => update(filter.key, value)}>
+            <SelectTrigger className="w-44 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              {filter.options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-[#6b7280]">Sort by</Label>
+        <Select value={searchParams?.get('sort') ?? 'updatedAt'} onValueChange={(value) => update('sort', value)}>
+          <SelectTrigger className="w-44 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-[#6b7280]">Order</Label>
+        <Select
+          value={
+            searchParams?.get('direction') ??
+            (ASCENDING_BY_DEFAULT.includes(searchParams?.get('sort') ?? '') ? 'asc' : 'desc')
+          }
+          onValueChange={(value) => update('direction', value)}
+        >
+          <SelectTrigger className="w-36 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="desc">Descending</SelectItem>
+            <SelectItem value="asc">Ascending</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {searchParams && searchParams.toString().length > 0 && (
+        <Button variant="ghost" onClick={() => router.push(pathname)}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
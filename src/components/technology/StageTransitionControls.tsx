@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowRight, Ban, Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { transitionTechnologyAction } from '@/app/technologies/actions';
+import { STAGE_LABELS } from '@/lib/technology/constants';
+import type { TransitionAction, TransitionEvaluation } from '@/lib/technology/stage-transitions';
+
+interface StageTransitionControlsProps {
+  techId: string;
+  rowVersion: number;
+  transitions: TransitionEvaluation[];
+  canTransition: boolean;
+}
+
+const ACTION_ICONS: Record<TransitionAction, typeof ArrowRight> = {
+  PROMOTE: ArrowRight,
+  HOLD: Pause,
+  RESUME: Play,
+  ABANDON: Ban,
+};
+
+function describeAction(evaluation: TransitionEvaluation) {
+  switch (evaluation.action) {
+    case 'PROMOTE':
+      return `Promote to ${STAGE_LABELS[evaluation.toStage]}`;
+    case 'HOLD':
+      return 'Put on hold';
+    case 'RESUME':
+      return 'Resume';
+    case 'ABANDON':
+      return 'Abandon';
+  }
+}
+
+export function StageTransitionControls({
+  techId,
+  rowVersion,
+  transitions,
+  canTransition,
+}: StageTransitionControlsProps) {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+  const [selected, setSelected] = useState<TransitionEvaluation | null>(null);
+  const [reason, setReason] = useState('');
+  const [blockers, setBlockers] = useState<string[]>([]);
+
+  // Hide actions that can never apply in the current state (e.g. resume while active)
+  const visible = transitions.filter(
+    (evaluation) => evaluation.allowed || evaluation.action === 'PROMOTE'
+  );
+  const promotion = transitions.find((evaluation) => evaluation.action === 'PROMOTE');
+
+  const close = () => {
+    setSelected(null);
+    setReason('');
+    setBlockers([]);
+  };
+
+  const confirm = () => {
+    if (!selected) return;
+
+    startTransition(async () => {
+      const result = await transitionTechnologyAction({
+        techId,
+        action: selected.action,
+        reason: reason.trim() || undefined,
+        expectedRowVersion: rowVersion,
+      });
+
+      if (!result.success) {
+        if (result.error === 'conflict') {
+          toast.error('This technology was changed by someone else. Reload to see the latest state.');
+          close();
+          router.refresh();
+          return;
+        }
+        setBlockers(result.blockers ?? [result.error]);
+        return;
+      }
+
+      toast.success(`${describeAction(selected)} complete`);
+      close();
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {visible.map((evaluation) => {
+          const Icon = ACTION_ICONS[evaluation.action];
+          return (
+            <Button
+              key={evaluation.action}
+              variant={evaluation.action === 'ABANDON' ? 'destructive' : evaluation.action === 'PROMOTE' ? 'default' : 'outline'}
+              disabled={!canTransition || !evaluation.allowed || pending}
+              onClick={() => setSelected(evaluation)}
+            >
+              <Icon className="mr-2 h-4 w-4" />
+              {describeAction(evaluation)}
+            </Button>
+          );
+        })}
+      </div>
+
+      {!canTransition && (
+        <p className="text-sm text-[#6b7280]">Only tech managers can change a technology&apos;s stage.</p>
+      )}
+
+      {promotion && !promotion.allowed && promotion.blockers.length > 0 && (
+        <div className="rounded-xl bg-amber-50 p-3 text-sm text-amber-900">
+          <p className="font-medium">Promotion is blocked:</p>
+          <ul className="mt-1 list-disc pl-5">
+            {promotion.blockers.map((blocker) => (
+              <li key={blocker}>{blocker}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Dialog open={selected !== null} onOpenChange={(open) => (!open ? close() : undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selected ? describeAction(selected) : ''}</DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `${STAGE_LABELS[selected.fromStage]} (${selected.fromStatus}) → ${STAGE_LABELS[selected.toStage]} (${selected.toStatus}). A snapshot of the technology is saved to its stage history.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="stage-transition-reason">Reason (optional)</Label>
+            <Textarea
+              id="stage-transition-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              maxLength={1000}
+              disabled={pending}
+            />
+          </div>
+          {blockers.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-red-600" role="alert">
+              {blockers.map((blocker) => (
+                <li key={blocker}>{blocker}</li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={close} disabled={pending}>
+              Cancel
+            </Button>
+            <Button onClick={confirm} disabled={pending}>
+              {pending ? 'Saving…' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import {
+  MAX_ATTACHMENT_BYTES,
+  resolveAttachmentMimeType,
+  sanitizeFileName,
+  validateAttachmentFile,
+} from './policy';
+
+describe('attachment policy', () => {
+  it('accepts an allowed file within the size limit', () => {
+    expect(
+      validateAttachmentFile({ fileName: 'disclosure.pdf', mimeType: 'application/pdf', sizeBytes: 2048 })
+    ).toEqual([]);
+  });
+
+  it('rejects empty, oversized, disallowed and mismatched files', () => {
+    expect(validateAttachmentFile({ fileName: 'a.pdf', mimeType: 'application/pdf', sizeBytes: 0 })).toEqual([
+      'File is empty',
+    ]);
+    expect(
+      validateAttachmentFile({
+        fileName: 'a.pdf',
+        mimeType: 'application/pdf',
+        sizeBytes: MAX_ATTACHMENT_BYTES + 1,
+      })
+    ).toEqual(['File is larger than the 25.0 MB limit']);
+    expect(
+      validateAttachmentFile({ fileName: 'run.exe', mimeType: 'application/x-msdownload', sizeBytes: 10 })
+    ).toEqual(['File type application/x-msdownload is not allowed']);
+    expect(validateAttachmentFile({ fileName: 'notes.pdf', mimeType: 'text/plain', sizeBytes: 10 })).toEqual([
+      'File extension does not match its type (text/plain)',
+    ]);
+  });
+
+  it('falls back to the extension when the browser reports no type', () => {
+    expect(resolveAttachmentMimeType('data.csv', '')).toBe('text/csv');
+    expect(resolveAttachmentMimeType('photo.JPG', 'application/octet-stream')).toBe('image/jpeg');
+    expect(resolveAttachmentMimeType('notes.txt', 'text/plain; charset=utf-8')).toBe('text/plain');
+    expect(resolveAttachmentMimeType('archive.zip', '')).toBe('application/octet-stream');
+  });
+
+  it('strips directories and unsafe characters from file names', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\me\\Market "Study" #2.pdf')).toBe('Market _Study_ _2.pdf');
+    expect(sanitizeFileName('   ')).toBe('attachment');
+  });
+});
@@ -0,0 +1,105 @@
+// Upload limits shared by the attachment panel (for early feedback) and the
+// upload route (which enforces them). Keep this module free of server imports.
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/** Accepted MIME types and the extensions browsers may report them under. */
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/msword': ['.doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/vnd.ms-powerpoint': ['.ppt'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
+  'text/csv': ['.csv'],
+  'text/plain': ['.txt'],
+  'image/png': ['.png'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+};
+
+export const ATTACHMENT_CATEGORIES = [
+  'Invention disclosure',
+  'Publication',
+  'Patent filing',
+  'Market research',
+  'Supporting data',
+  'Other',
+] as const;
+
+export const ATTACHMENT_ACCEPT = Object.entries(ALLOWED_ATTACHMENT_TYPES)
+  .flatMap(([mimeType, extensions]) => [mimeType, ...extensions])
+  .join(',');
+
+export interface AttachmentFileInfo {
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function extensionOf(fileName: string) {
+  const index = fileName.lastIndexOf('.');
+  return index >= 0 ? fileName.slice(index).toLowerCase() : '';
+}
+
+/**
+ * MIME type to store for a file. Browsers send an empty type for some
+ * extensions, so fall back to matching the extension against the allow list.
+ */
+export function resolveAttachmentMimeType(fileName: string, reportedType: string): string {
+  const normalized = reportedType.split(';')[0].trim().toLowerCase();
+  if (normalized && normalized !== 'application/octet-stream') {
+    return normalized;
+  }
+  const extension = extensionOf(fileName);
+  const match = Object.entries(ALLOWED_ATTACHMENT_TYPES).find(([, extensions]) =>
+    extensions.includes(extension)
+  );
+  return match?.[0] ?? (normalized || 'application/octet-stream');
+}
+
+/**
+ * Problems that stop a file from being uploaded; empty when it is acceptable.
+ */
+export function validateAttachmentFile(file: AttachmentFileInfo): string[] {
+  const errors: string[] = [];
+  if (!file.fileName.trim()) {
+    errors.push('File name is required');
+  }
+  if (file.sizeBytes <= 0) {
+    errors.push('File is empty');
+  } else if (file.sizeBytes > MAX_ATTACHMENT_BYTES) {
+    errors.push(`File is larger than the ${formatFileSize(MAX_ATTACHMENT_BYTES)} limit`);
+  }
+
+  const extensions = ALLOWED_ATTACHMENT_TYPES[file.mimeType];
+  if (!extensions) {
+    errors.push(`File type ${file.mimeType || 'unknown'} is not allowed`);
+  } else if (!extensions.includes(extensionOf(file.fileName))) {
+    errors.push(`File extension does not match its type (${file.mimeType})`);
+  }
+
+  return errors;
+}
+
+/**
+ * File name safe to use in a storage key and a Content-Disposition header.
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[^a-zA-Z0-9._ -]+/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned.length > 0 ? cleaned.slice(-150) : 'attachment';
+}
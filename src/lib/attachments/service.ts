@@ -0,0 +1,170 @@
+import { randomUUID } from 'node:crypto';
+import type { Attachment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveAttachmentMimeType, sanitizeFileName, validateAttachmentFile } from './policy';
+import { getAttachmentStorage, type AttachmentStorage } from './storage';
+
+export class AttachmentUploadError extends Error {
+  constructor(
+    public readonly errors: string[],
+    public readonly status = 400
+  ) {
+    super(errors.join('; '));
+    this.name = 'AttachmentUploadError';
+  }
+}
+
+export interface AttachmentUploadInput {
+  techId?: string | null;
+  submissionId?: string | null;
+  category?: string | null;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export type AttachmentListItem = Attachment & { uploadedByLabel: string };
+
+/**
+ * Tech ID a submission is about: its answer to a question bound to technology.techId.
+ */
+export async function findSubmissionTechId(submissionId: string): Promise<string | null> {
+  const questions = await prisma.formQuestion.findMany({
+    where: { dictionary: { bindingPath: 'technology.techId' } },
+    select: { fieldCode: true },
+  });
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const responses = await prisma.questionResponse.findMany({
+    where: { submissionId, questionCode: { in: questions.map((question) => question.fieldCode) } },
+    select: { value: true },
+  });
+  const match = responses.find((response) => typeof response.value === 'string' && response.value.trim());
+  return match ? (match.value as string).trim() : null;
+}
+
+/**
+ * Validate and store an uploaded file, then record it against the technology
+ * (and the submission it came from, if any).
+ */
+export async function uploadAttachment(
+  input: AttachmentUploadInput,
+  uploadedBy: string,
+  storage: AttachmentStorage = getAttachmentStorage()
+): Promise<Attachment> {
+  const fileName = sanitizeFileName(input.fileName);
+  const mimeType = resolveAttachmentMimeType(input.fileName, input.mimeType);
+  const errors = validateAttachmentFile({ fileName, mimeType, sizeBytes: input.data.byteLength });
+  if (errors.length > 0) {
+    throw new AttachmentUploadError(errors);
+  }
+
+  let techId = input.techId?.trim() || null;
+  if (input.submissionId) {
+    const submission = await prisma.formSubmission.findUnique({
+      where: { id: input.submissionId },
+      select: { id: true },
+    });
+    if (!submission) {
+      throw new AttachmentUploadError(['Submission not found'], 404);
+    }
+    techId ??= await findSubmissionTechId(input.submissionId);
+  }
+
+  if (!techId) {
+    throw new AttachmentUploadError(['Attachments belong to a technology; enter the technology ID first']);
+  }
+
+  const technology = await prisma.technology.findUnique({ where: { techId }, select: { id: true } });
+  if (!technology) {
+    throw new AttachmentUploadError([`Technology ${techId} not found`], 404);
+  }
+
+  const storageKey = `${techId}/${randomUUID()}/${fileName}`;
+  const location = await storage.put(storageKey, input.data, mimeType);
+
+  try {
+    return await prisma.attachment.create({
+      data: {
+        technologyId: technology.id,
+        submissionId: input.submissionId ?? null,
+        fileName,
+        fileUrl: location,
+        storageKey,
+        mimeType,
+        sizeBytes: input.data.byteLength,
+        category: input.category?.trim() || null,
+        uploadedBy,
+      },
+    });
+  } catch (error) {
+    await storage.remove(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+async function withUploaderLabels(attachments: Attachment[]): Promise<AttachmentListItem[]> {
+  const uploaderIds = Array.from(new Set(attachments.map((attachment) => attachment.uploadedBy)));
+  const users = uploaderIds.length
+    ? await prisma.user.findMany({
+        where: { id: { in: uploaderIds } },
+        select: { id: true, name: true, email: true },
+      })
+    : [];
+  const labels = new Map(users.map((user) => [user.id, user.name ?? user.email]));
+  return attachments.map((attachment) => ({
+    ...attachment,
+    uploadedByLabel: labels.get(attachment.uploadedBy) ?? attachment.uploadedBy,
+  }));
+}
+
+/**
+ * Attachments shown on a submission: files uploaded from it plus everything
+ * on the technology it is linked to.
+ */
+export async function listSubmissionAttachments(submissionId: string) {
+  const answeredTechId = await findSubmissionTechId(submissionId);
+  const technology = answeredTechId
+    ? await prisma.technology.findUnique({ where: { techId: answeredTechId }, select: { id: true } })
+    : null;
+
+  const attachments = await prisma.attachment.findMany({
+    where: {
+      OR: [{ submissionId }, ...(technology ? [{ technologyId: technology.id }] : [])],
+    },
+    orderBy: { uploadedAt: 'desc' },
+  });
+  // Only offer uploads once the technology record exists
+  return {
+    techId: technology ? answeredTechId : null,
+    attachments: await withUploaderLabels(attachments),
+  };
+}
+
+export async function listTechnologyAttachments(technologyId: string) {
+  const attachments = await prisma.attachment.findMany({
+    where: { technologyId },
+    orderBy: { uploadedAt: 'desc' },
+  });
+  return withUploaderLabels(attachments);
+}
+
+/**
+ * Attachment row plus its bytes. `data` is null for legacy rows that only
+ * hold an external link in fileUrl.
+ */
+export async function readAttachment(
+  attachmentId: string,
+  storage: AttachmentStorage = getAttachmentStorage()
+): Promise<{ attachment: Attachment; data: Buffer | null } | null> {
+  const attachment = await prisma.attachment.findUnique({ where: { id: attachmentId } });
+  if (!attachment) {
+    return null;
+  }
+  if (!attachment.storageKey) {
+    return { attachment, data: null };
+  }
+  return { attachment, data: await storage.get(attachment.storageKey) };
+}
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createAttachmentStorage, createLocalAttachmentStorage } from './storage';
+
+describe('attachment storage', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores, reads and removes files on local disk', async () => {
+    const storage = createLocalAttachmentStorage(rootDir);
+    const location = await storage.put('D25-0001/abc/report.pdf', Buffer.from('%PDF%'), 'application/pdf');
+
+    expect(location).toBe(path.join(rootDir, 'D25-0001', 'abc', 'report.pdf'));
+    expect((await storage.get('D25-0001/abc/report.pdf')).toString()).toBe('%PDF%');
+
+    await storage.remove('D25-0001/abc/report.pdf');
+    await expect(storage.get('D25-0001/abc/report.pdf')).rejects.toThrow();
+  });
+
+  it('refuses keys that escape the storage directory', async () => {
+    const storage = createLocalAttachmentStorage(rootDir);
+    await expect(storage.put('../outside.txt', Buffer.from('x'), 'text/plain')).rejects.toThrow(
+      'Invalid attachment key'
+    );
+  });
+
+  it('selects the adapter from the environment', () => {
+    expect(createAttachmentStorage({ ATTACHMENT_STORAGE_DIR: rootDir }).kind).toBe('local');
+    expect(() => createAttachmentStorage({ ATTACHMENT_STORAGE: 'blob' })).toThrow(
+      'ATTACHMENT_BLOB_CONTAINER'
+    );
+    expect(() =>
+      createAttachmentStorage({
+        ATTACHMENT_STORAGE: 'blob',
+        ATTACHMENT_BLOB_CONTAINER: 'attachments',
+      })
+    ).toThrow('AZURE_STORAGE_CONNECTION_STRING');
+    expect(() => createAttachmentStorage({ ATTACHMENT_STORAGE: 'ftp' })).toThrow(
+      'Unsupported attachment storage: ftp'
+    );
+  });
+});
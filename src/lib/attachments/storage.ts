@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+
+// Where uploaded attachment bytes live. Local disk for development and tests,
+// Azure blob storage in production (same credentials the export job uses).
+
+export type AttachmentStorageKind = 'local' | 'blob';
+
+export interface AttachmentStorage {
+  readonly kind: AttachmentStorageKind;
+  /** Store the bytes under `key` and return their location (file path or blob URL). */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export const DEFAULT_ATTACHMENT_DIR = 'storage/attachments';
+
+function resolveLocalPath(rootDir: string, key: string) {
+  const root = path.resolve(process.cwd(), rootDir);
+  const target = path.resolve(root, key);
+  if (!target.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`Invalid attachment key: ${key}`);
+  }
+  return target;
+}
+
+export function createLocalAttachmentStorage(rootDir = DEFAULT_ATTACHMENT_DIR): AttachmentStorage {
+  return {
+    kind: 'local',
+    async put(key, data) {
+      const target = resolveLocalPath(rootDir, key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+      return target;
+    },
+    async get(key) {
+      return fs.readFile(resolveLocalPath(rootDir, key));
+    },
+    async remove(key) {
+      await fs.rm(resolveLocalPath(rootDir, key), { force: true });
+    },
+  };
+}
+
+export interface BlobAttachmentStorageConfig {
+  container: string;
+  connectionString?: string;
+  sasUrl?: string;
+}
+
+function getContainerClient(config: BlobAttachmentStorageConfig): ContainerClient {
+  if (config.connectionString) {
+    return BlobServiceClient.fromConnectionString(config.connectionString).getContainerClient(config.container);
+  }
+  if (config.sasUrl) {
+    return new ContainerClient(config.sasUrl);
+  }
+  throw new Error('Blob attachment storage is missing credentials.');
+}
+
+export function createBlobAttachmentStorage(config: BlobAttachmentStorageConfig): AttachmentStorage {
+  const containerClient = getContainerClient(config);
+  let containerReady: Promise<unknown> | null = null;
+
+  return {
+    kind: 'blob',
+    async put(key, data, contentType) {
+      containerReady ??= containerClient.createIfNotExists();
+      await containerReady;
+      const blobClient = containerClient.getBlockBlobClient(key);
+      await blobClient.uploadData(data, { blobHTTPHeaders: { blobContentType: contentType } });
+      return blobClient.url;
+    },
+    async get(key) {
+      return containerClient.getBlockBlobClient(key).downloadToBuffer();
+    },
+    async remove(key) {
+      await containerClient.getBlockBlobClient(key).deleteIfExists();
+    },
+  };
+}
+
+/**
+ * Storage adapter selected by ATTACHMENT_STORAGE ('local' by default, or 'blob').
+ */
+export function createAttachmentStorage(env: Partial<NodeJS.ProcessEnv> = process.env): AttachmentStorage {
+  const kind = (env.ATTACHMENT_STORAGE ?? 'local').toLowerCase();
+
+  if (kind === 'local') {
+    return createLocalAttachmentStorage(env.ATTACHMENT_STORAGE_DIR || DEFAULT_ATTACHMENT_DIR);
+  }
+
+  if (kind === 'blob') {
+    const container = env.ATTACHMENT_BLOB_CONTAINER;
+    if (!container) {
+      throw new Error('Blob attachment storage requires ATTACHMENT_BLOB_CONTAINER.');
+    }
+    if (!env.AZURE_STORAGE_CONNECTION_STRING && !env.AZURE_STORAGE_BLOB_SAS_URL) {
+      throw new Error(
+        'Blob attachment storage requires AZURE_STORAGE_CONNECTION_STRING or AZURE_STORAGE_BLOB_SAS_URL.'
+      );
+    }
+    return createBlobAttachmentStorage({
+      container,
+      connectionString: env.AZURE_STORAGE_CONNECTION_STRING,
+      sasUrl: env.AZURE_STORAGE_BLOB_SAS_URL,
+    });
+  }
+
+  throw new Error(`Unsupported attachment storage: ${kind}`);
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  storage ??= createAttachmentStorage();
+  return storage;
+}
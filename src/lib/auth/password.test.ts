@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './password'
+
+describe('password hashing', () => {
+  it('verifies the original password and rejects others', async () => {
+    const stored = await hashPassword('correct horse battery staple')
+
+    expect(stored.startsWith('scrypt$')).toBe(true)
+    await expect(verifyPassword('correct horse battery staple', stored)).resolves.toBe(true)
+    await expect(verifyPassword('correct horse battery stapler', stored)).resolves.toBe(false)
+  })
+
+  it('salts each hash', async () => {
+    const first = await hashPassword('same password twice')
+    const second = await hashPassword('same password twice')
+
+    expect(first).not.toBe(second)
+  })
+
+  it('rejects passwords below the minimum length', async () => {
+    await expect(hashPassword('x'.repeat(MIN_PASSWORD_LENGTH - 1))).rejects.toThrow()
+  })
+
+  it('treats malformed stored hashes as a mismatch', async () => {
+    await expect(verifyPassword('anything at all', 'not-a-hash')).resolves.toBe(false)
+    await expect(verifyPassword('anything at all', 'scrypt$1$2$3$salt')).resolves.toBe(false)
+    await expect(verifyPassword('anything at all', 'scrypt$3$8$1$c2FsdA$aGFzaA')).resolves.toBe(false)
+  })
+})
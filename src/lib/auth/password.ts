@@ -0,0 +1,55 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+const COST = { N: 16384, r: 8, p: 1 }
+export const MIN_PASSWORD_LENGTH = 12
+
+/**
+ * Hash a password for storage in User.passwordHash.
+ * Format: scrypt$N$r$p$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+
+  const salt = randomBytes(16)
+  const hash = await scrypt(password, salt, KEY_LENGTH, { ...COST, maxmem: 64 * 1024 * 1024 })
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), hash.toString('base64')].join('$')
+}
+
+/**
+ * Constant-time comparison of a password against a stored hash.
+ */
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (!stored) {
+    return false
+  }
+
+  const [scheme, n, r, p, saltEncoded, hashEncoded] = stored.split('$')
+  if (scheme !== 'scrypt' || !saltEncoded || !hashEncoded) {
+    return false
+  }
+
+  const expected = Buffer.from(hashEncoded, 'base64')
+  try {
+    const actual = await scrypt(password, Buffer.from(saltEncoded, 'base64'), expected.length, {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p),
+      maxmem: 64 * 1024 * 1024,
+    })
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  } catch {
+    // Corrupt cost parameters in the stored hash
+    return false
+  }
+}
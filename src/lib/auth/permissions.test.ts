@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { AuthenticationError, requireSessionUser } from './session'
+import {
+  PERMISSIONS,
+  PermissionError,
+  authorizationErrorResponse,
+  permissionsForPersonas,
+  requirePermission,
+} from './permissions'
+
+jest.mock('./session', () => ({
+  ...jest.requireActual('./session'),
+  requireSessionUser: jest.fn(),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    userPersona: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+const mockRequireSessionUser = requireSessionUser as jest.Mock
+const mockUserPersonaFindMany = prisma.userPersona.findMany as jest.Mock
+
+const user = { id: 'user-1', email: 'user@example.org', name: 'User' }
+
+describe('permissionsForPersonas', () => {
+  it('unions the permissions of every assigned persona', () => {
+    expect(permissionsForPersonas(['reviewer'])).toEqual(
+      new Set([PERMISSIONS.SUBMISSION_REVIEW, PERMISSIONS.SUBMISSION_EXPORT])
+    )
+    expect(permissionsForPersonas(['reviewer', 'tech_manager']).has(PERMISSIONS.SUBMISSION_DELETE)).toBe(true)
+    expect(permissionsForPersonas(['template_admin']).has(PERMISSIONS.TEMPLATE_MANAGE)).toBe(true)
+  })
+
+  it('ignores unknown persona codes', () => {
+    expect(permissionsForPersonas(['inventor']).size).toBe(0)
+  })
+})
+
+describe('requirePermission', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockRequireSessionUser.mockResolvedValue(user)
+  })
+
+  it('returns the session user when a persona grants the permission', async () => {
+    mockUserPersonaFindMany.mockResolvedValue([{ persona: { code: 'template_admin' } }])
+
+    await expect(requirePermission(PERMISSIONS.TEMPLATE_MANAGE)).resolves.toEqual(user)
+    expect(mockUserPersonaFindMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      select: { persona: { select: { code: true } } },
+    })
+  })
+
+  it('throws PermissionError when no persona grants the permission', async () => {
+    mockUserPersonaFindMany.mockResolvedValue([{ persona: { code: 'reviewer' } }])
+
+    await expect(requirePermission(PERMISSIONS.TEMPLATE_MANAGE)).rejects.toBeInstanceOf(PermissionError)
+  })
+
+  it('propagates AuthenticationError for signed-out callers', async () => {
+    mockRequireSessionUser.mockRejectedValue(new AuthenticationError())
+
+    await expect(requirePermission(PERMISSIONS.SUBMISSION_REVIEW)).rejects.toBeInstanceOf(AuthenticationError)
+    expect(mockUserPersonaFindMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('authorizationErrorResponse', () => {
+  it('maps auth failures to 401 and 403 responses', async () => {
+    const unauthenticated = authorizationErrorResponse(new AuthenticationError())
+    const forbidden = authorizationErrorResponse(new PermissionError(PERMISSIONS.SUBMISSION_DELETE))
+
+    expect(unauthenticated?.status).toBe(401)
+    expect(forbidden?.status).toBe(403)
+    await expect(forbidden?.json()).resolves.toEqual({
+      success: false,
+      error: 'You do not have permission to perform this action',
+    })
+  })
+
+  it('returns null for other errors', () => {
+    expect(authorizationErrorResponse(new Error('db down'))).toBeNull()
+  })
+})
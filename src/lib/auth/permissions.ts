@@ -0,0 +1,99 @@
+import { cache } from 'react'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { AuthenticationError, requireSessionUser, type SessionUser } from './session'
+
+export const PERMISSIONS = {
+  TEMPLATE_MANAGE: 'template:manage',
+  SUBMISSION_REVIEW: 'submission:review',
+  SUBMISSION_EXPORT: 'submission:export',
+  SUBMISSION_DELETE: 'submission:delete',
+  TECHNOLOGY_TRANSITION: 'technology:transition',
+} as const
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+export const PERSONA_CODES = {
+  TEMPLATE_ADMIN: 'template_admin',
+  TECH_MANAGER: 'tech_manager',
+  REVIEWER: 'reviewer',
+} as const
+
+/**
+ * What each persona may do. Users without a mapped persona can still fill in,
+ * save and submit their own forms; everything listed here is on top of that.
+ */
+export const PERSONA_PERMISSIONS: Record<string, readonly Permission[]> = {
+  [PERSONA_CODES.TEMPLATE_ADMIN]: Object.values(PERMISSIONS),
+  [PERSONA_CODES.TECH_MANAGER]: [
+    PERMISSIONS.SUBMISSION_REVIEW,
+    PERMISSIONS.SUBMISSION_EXPORT,
+    PERMISSIONS.SUBMISSION_DELETE,
+    PERMISSIONS.TECHNOLOGY_TRANSITION,
+  ],
+  [PERSONA_CODES.REVIEWER]: [PERMISSIONS.SUBMISSION_REVIEW, PERMISSIONS.SUBMISSION_EXPORT],
+}
+
+export class PermissionError extends Error {
+  constructor(public readonly permission: Permission) {
+    super('You do not have permission to perform this action')
+    this.name = 'PermissionError'
+  }
+}
+
+export function permissionsForPersonas(personaCodes: string[]): Set<Permission> {
+  return new Set(personaCodes.flatMap((code) => PERSONA_PERMISSIONS[code] ?? []))
+}
+
+/**
+ * Permissions granted to a user through their persona assignments. Cached per request.
+ */
+export const getUserPermissions = cache(async (userId: string): Promise<Set<Permission>> => {
+  const assignments = await prisma.userPersona.findMany({
+    where: { userId },
+    select: { persona: { select: { code: true } } },
+  })
+  return permissionsForPersonas(assignments.map((assignment) => assignment.persona.code))
+})
+
+export async function hasPermission(userId: string, permission: Permission): Promise<boolean> {
+  const permissions = await getUserPermissions(userId)
+  return permissions.has(permission)
+}
+
+/**
+ * The persona a user acts as by default (their primary assignment first). Recorded on audit rows.
+ */
+export async function getPrimaryPersonaCode(userId: string): Promise<string | null> {
+  const assignment = await prisma.userPersona.findFirst({
+    where: { userId },
+    orderBy: { primary: 'desc' },
+    select: { persona: { select: { code: true } } },
+  })
+  return assignment?.persona.code ?? null
+}
+
+/**
+ * Resolve the signed-in user and check they hold `permission`.
+ * Throws AuthenticationError when signed out and PermissionError when not allowed.
+ */
+export async function requirePermission(permission: Permission): Promise<SessionUser> {
+  const user = await requireSessionUser()
+  if (!(await hasPermission(user.id, permission))) {
+    throw new PermissionError(permission)
+  }
+  return user
+}
+
+/**
+ * Map auth failures to the JSON error shape API routes use; null for anything else.
+ */
+export function authorizationErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof AuthenticationError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 401 })
+  }
+  if (error instanceof PermissionError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 403 })
+  }
+  return null
+}
@@ -0,0 +1,82 @@
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { hashPassword, verifyPassword } from './password'
+
+export type AuthCredentials = Record<string, unknown>
+
+/**
+ * A way of proving who a user is. `local` checks email + password against
+ * User.passwordHash; an OIDC provider would exchange its callback payload for
+ * claims and map them to a user with upsertExternalUser.
+ */
+export interface AuthProvider {
+  id: string
+  label: string
+  authenticate(credentials: AuthCredentials): Promise<User | null>
+}
+
+let dummyHash: Promise<string> | null = null
+
+// Hash once so unknown emails take as long as wrong passwords
+function getDummyHash() {
+  dummyHash ??= hashPassword('not-a-real-password-placeholder')
+  return dummyHash
+}
+
+export const localCredentialsProvider: AuthProvider = {
+  id: 'local',
+  label: 'Email and password',
+  async authenticate(credentials) {
+    const email = typeof credentials.email === 'string' ? credentials.email.trim().toLowerCase() : ''
+    const password = typeof credentials.password === 'string' ? credentials.password : ''
+    if (!email || !password) {
+      return null
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } })
+    if (!user || user.authProvider !== 'local' || !user.passwordHash) {
+      await verifyPassword(password, await getDummyHash())
+      return null
+    }
+
+    const valid = await verifyPassword(password, user.passwordHash)
+    return valid && user.isActive ? user : null
+  },
+}
+
+const providers = new Map<string, AuthProvider>([[localCredentialsProvider.id, localCredentialsProvider]])
+
+export function registerAuthProvider(provider: AuthProvider) {
+  providers.set(provider.id, provider)
+}
+
+export function getAuthProvider(id: string): AuthProvider | undefined {
+  return providers.get(id)
+}
+
+export interface ExternalIdentity {
+  provider: string
+  externalId: string
+  email: string
+  name?: string | null
+}
+
+/**
+ * Find or create the user for an external identity (used by SSO providers).
+ */
+export async function upsertExternalUser(identity: ExternalIdentity): Promise<User | null> {
+  const email = identity.email.trim().toLowerCase()
+  const user = await prisma.user.upsert({
+    where: {
+      authProvider_externalId: { authProvider: identity.provider, externalId: identity.externalId },
+    },
+    update: { email, name: identity.name ?? undefined },
+    create: {
+      email,
+      name: identity.name ?? null,
+      authProvider: identity.provider,
+      externalId: identity.externalId,
+    },
+  })
+  return user.isActive ? user : null
+}
@@ -0,0 +1,115 @@
+import { cache } from 'react'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/prisma'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS,
+  generateSessionToken,
+  getSessionSecret,
+  hashSessionToken,
+  signSessionCookie,
+  verifySessionCookie,
+} from './token'
+
+export interface SessionUser {
+  id: string
+  email: string
+  name: string | null
+}
+
+export class AuthenticationError extends Error {
+  constructor(message = 'Authentication required') {
+    super(message)
+    this.name = 'AuthenticationError'
+  }
+}
+
+function requireSecret() {
+  const secret = getSessionSecret()
+  if (!secret) {
+    throw new Error('SESSION_SECRET must be set (at least 32 characters)')
+  }
+  return secret
+}
+
+/**
+ * Start a session for an authenticated user and set the session cookie.
+ */
+export async function createSession(userId: string, userAgent?: string | null): Promise<void> {
+  const secret = requireSecret()
+  const token = generateSessionToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000)
+
+  await prisma.$transaction([
+    prisma.session.create({
+      data: {
+        userId,
+        tokenHash: await hashSessionToken(token),
+        expiresAt,
+        userAgent: userAgent ?? null,
+      },
+    }),
+    prisma.user.update({ where: { id: userId }, data: { lastLoginAt: new Date() } }),
+  ])
+
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE_NAME, await signSessionCookie({ token, expiresAt }, secret), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+/**
+ * The user for the current request, or null when not signed in. Cached per request.
+ */
+export const getSessionUser = cache(async (): Promise<SessionUser | null> => {
+  const secret = getSessionSecret()
+  if (!secret) {
+    return null
+  }
+
+  const cookieStore = await cookies()
+  const payload = await verifySessionCookie(cookieStore.get(SESSION_COOKIE_NAME)?.value, secret)
+  if (!payload) {
+    return null
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: await hashSessionToken(payload.token) },
+    include: { user: { select: { id: true, email: true, name: true, isActive: true } } },
+  })
+
+  if (!session || session.expiresAt <= new Date() || !session.user.isActive) {
+    return null
+  }
+
+  return { id: session.user.id, email: session.user.email, name: session.user.name }
+})
+
+export async function requireSessionUser(): Promise<SessionUser> {
+  const user = await getSessionUser()
+  if (!user) {
+    throw new AuthenticationError()
+  }
+  return user
+}
+
+/**
+ * End the current session and clear the cookie.
+ */
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies()
+  const secret = getSessionSecret()
+  const payload = secret
+    ? await verifySessionCookie(cookieStore.get(SESSION_COOKIE_NAME)?.value, secret)
+    : null
+
+  if (payload) {
+    await prisma.session.deleteMany({ where: { tokenHash: await hashSessionToken(payload.token) } })
+  }
+
+  cookieStore.delete(SESSION_COOKIE_NAME)
+}
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import { hashSessionToken, signSessionCookie, verifySessionCookie } from './token'
+
+const SECRET = 'test-session-secret-with-at-least-32-chars'
+
+describe('session cookie', () => {
+  const expiresAt = new Date('2025-11-07T12:00:00Z')
+
+  it('round-trips a signed cookie', async () => {
+    const cookie = await signSessionCookie({ token: 'abc123', expiresAt }, SECRET)
+
+    await expect(verifySessionCookie(cookie, SECRET, new Date('2025-11-07T11:00:00Z'))).resolves.toEqual({
+      token: 'abc123',
+      expiresAt,
+    })
+  })
+
+  it('rejects expired, tampered, or foreign-secret cookies', async () => {
+    const cookie = await signSessionCookie({ token: 'abc123', expiresAt }, SECRET)
+    const before = new Date('2025-11-07T11:00:00Z')
+
+    await expect(verifySessionCookie(cookie, SECRET, new Date('2025-11-07T12:00:01Z'))).resolves.toBeNull()
+    await expect(verifySessionCookie(cookie.replace('abc123', 'abc124'), SECRET, before)).resolves.toBeNull()
+    await expect(verifySessionCookie(cookie, `${SECRET}-other`, before)).resolves.toBeNull()
+    await expect(verifySessionCookie('garbage', SECRET, before)).resolves.toBeNull()
+  })
+
+  it('hashes tokens deterministically', async () => {
+    const hash = await hashSessionToken('abc123')
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    await expect(hashSessionToken('abc123')).resolves.toBe(hash)
+  })
+})
@@ -0,0 +1,97 @@
+// Session cookie helpers built on Web Crypto so they run in both the edge
+// middleware and Node server code. The cookie carries a random token, its expiry
+// and an HMAC; the database stores only a SHA-256 of the token.
+
+export const SESSION_COOKIE_NAME = 'tt_session'
+export const SESSION_TTL_SECONDS = 60 * 60 * 12
+
+export interface SessionCookiePayload {
+  token: string
+  expiresAt: Date
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export function getSessionSecret(): string | undefined {
+  const secret = process.env.SESSION_SECRET
+  return secret && secret.length >= 32 ? secret : undefined
+}
+
+export function generateSessionToken(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return toBase64Url(bytes)
+}
+
+export async function hashSessionToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(token)))
+}
+
+async function sign(value: string, secret: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value))))
+}
+
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false
+  }
+  let diff = 0
+  for (let index = 0; index < a.length; index += 1) {
+    diff |= a.charCodeAt(index) ^ b.charCodeAt(index)
+  }
+  return diff === 0
+}
+
+export async function signSessionCookie(payload: SessionCookiePayload, secret: string): Promise<string> {
+  const value = `${payload.token}.${Math.floor(payload.expiresAt.getTime() / 1000)}`
+  return `${value}.${await sign(value, secret)}`
+}
+
+/**
+ * Verify the signature and expiry of a session cookie. Does not check that the
+ * session still exists; server code does that against the Session table.
+ */
+export async function verifySessionCookie(
+  cookie: string | undefined,
+  secret: string,
+  now: Date = new Date()
+): Promise<SessionCookiePayload | null> {
+  if (!cookie) {
+    return null
+  }
+
+  const parts = cookie.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  const [token, expires, signature] = parts
+  const expiresAt = new Date(Number(expires) * 1000)
+  if (!token || Number.isNaN(expiresAt.getTime()) || expiresAt <= now) {
+    return null
+  }
+
+  const expected = await sign(`${token}.${expires}`, secret)
+  return safeEqual(signature, expected) ? { token, expiresAt } : null
+}
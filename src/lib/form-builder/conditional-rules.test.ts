@@ -0,0 +1,88 @@
+import { FieldType } from '@prisma/client'
+import {
+  findConditionalCycle,
+  listConditionalFields,
+  operatorsForField,
+  validateConditionalConfig,
+} from './conditional-rules'
+import type { ConditionalConfig } from '@/lib/form-engine/types'
+
+const showWhen = (field: string): ConditionalConfig => ({
+  logic: 'AND',
+  rules: [{ field, operator: 'exists', value: null, action: 'show' }],
+})
+
+const question = (fieldCode: string, order: number, overrides: Record<string, unknown> = {}) => ({
+  fieldCode,
+  label: fieldCode,
+  type: FieldType.SHORT_TEXT as FieldType,
+  order,
+  conditional: null as unknown,
+  ...overrides,
+})
+
+const sections = [
+  { order: 2, questions: [question('C', 0, { conditional: showWhen('A') })] },
+  {
+    order: 1,
+    questions: [
+      question('B', 1, {
+        type: FieldType.REPEATABLE_GROUP,
+        repeatableConfig: { columns: [{ key: 'name', label: 'Name', type: 'text' }] },
+      }),
+      question('A', 0, {
+        type: FieldType.SINGLE_SELECT,
+        options: [
+          { value: 'no', label: 'No', order: 2 },
+          { value: 'yes', label: 'Yes', order: 1 },
+        ],
+      }),
+    ],
+  },
+]
+
+describe('conditional-rules', () => {
+  const fields = listConditionalFields(sections)
+
+  it('lists fields in form order with options, columns and parsed conditions', () => {
+    expect(fields.map((field) => field.fieldCode)).toEqual(['A', 'B', 'C'])
+    expect(fields[0].options.map((option) => option.value)).toEqual(['yes', 'no'])
+    expect(fields[1].columns).toEqual([{ key: 'name', label: 'Name' }])
+    expect(fields[2].conditional).toEqual(showWhen('A'))
+  })
+
+  it('offers operators that suit the source field type', () => {
+    expect(operatorsForField(FieldType.INTEGER)).toContain('between')
+    expect(operatorsForField(FieldType.CHECKBOX_GROUP)).toContain('count_greater_than')
+    expect(operatorsForField(FieldType.REPEATABLE_GROUP)).toEqual(['count_greater_than', 'not_empty'])
+    expect(operatorsForField(FieldType.REPEATABLE_GROUP, 'name')).toContain('matches')
+  })
+
+  it('requires references to existing, earlier fields', () => {
+    expect(validateConditionalConfig('C', showWhen('A'), fields)).toEqual([])
+    expect(validateConditionalConfig('A', showWhen('B'), fields)).toEqual([
+      'B comes after this field; conditions can only reference earlier fields',
+    ])
+    expect(validateConditionalConfig('C', showWhen('missing'), fields)).toEqual([
+      'Condition references missing, which is not in this template',
+    ])
+    expect(validateConditionalConfig('C', showWhen('C'), fields)).toContain(
+      'A condition cannot reference the field it belongs to'
+    )
+    expect(
+      validateConditionalConfig(
+        'C',
+        { logic: 'AND', rules: [{ field: 'impactScore', source: 'score', operator: 'greater_than', value: 2, action: 'show' }] },
+        fields
+      )
+    ).toEqual([])
+  })
+
+  it('detects cycles across fields, including unsaved changes', () => {
+    expect(findConditionalCycle(fields)).toBeNull()
+    expect(findConditionalCycle(fields, { A: showWhen('C') })).toEqual(['A', 'C', 'A'])
+    expect(validateConditionalConfig('A', showWhen('C'), fields)).toContain(
+      'Conditional logic would form a cycle: A → C → A'
+    )
+  })
+})
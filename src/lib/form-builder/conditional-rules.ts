@@ -0,0 +1,232 @@
+import { FieldType } from '@prisma/client'
+import { flattenConditionalRules } from '@/lib/form-engine/conditional-logic'
+import { parseConditionalConfigValue, parseRepeatableGroupConfig } from '@/lib/form-engine/json-utils'
+import type {
+  ConditionalConfig,
+  ConditionalOperator,
+  ConditionalRule,
+} from '@/lib/form-engine/types'
+
+// Builder-side helpers for conditional logic: which operators suit a field
+// type, and the reference checks the field config modal and updateField share.
+
+export const CONDITIONAL_OPERATOR_LABELS: Record<ConditionalOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  exists: 'is answered',
+  not_exists: 'is not answered',
+  not_empty: 'has any selection',
+  in: 'is one of',
+  not_in: 'is none of',
+  between: 'is between',
+  matches: 'matches pattern',
+  count_greater_than: 'count is greater than',
+}
+
+export const CONDITIONAL_ACTION_LABELS: Record<ConditionalRule['action'], string> = {
+  show: 'Show this field',
+  hide: 'Hide this field',
+  require: 'Make this field required',
+  optional: 'Make this field optional',
+}
+
+export const repeatGroupFieldTypes = new Set<FieldType>([
+  FieldType.REPEATABLE_GROUP,
+  FieldType.DATA_TABLE_SELECTOR,
+])
+
+const TEXT_OPERATORS: ConditionalOperator[] = ['equals', 'not_equals', 'contains', 'matches', 'in', 'not_in', 'exists', 'not_exists']
+const NUMBER_OPERATORS: ConditionalOperator[] = ['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'in', 'exists', 'not_exists']
+const SINGLE_CHOICE_OPERATORS: ConditionalOperator[] = ['equals', 'not_equals', 'in', 'not_in', 'exists', 'not_exists']
+const MULTI_CHOICE_OPERATORS: ConditionalOperator[] = ['contains', 'in', 'not_in', 'count_greater_than', 'not_empty']
+const ROW_OPERATORS: ConditionalOperator[] = ['count_greater_than', 'not_empty']
+const COLUMN_OPERATORS: ConditionalOperator[] = ['equals', 'not_equals', 'contains', 'matches', 'exists', 'count_greater_than']
+
+/**
+ * Operators that make sense for a source field. Repeat groups compare their
+ * row count, or a column row by row when one is picked.
+ */
+export function operatorsForField(type: FieldType, column?: string): ConditionalOperator[] {
+  switch (type) {
+    case FieldType.INTEGER:
+    case FieldType.DECIMAL:
+    case FieldType.CURRENCY:
+    case FieldType.PERCENTAGE:
+    case FieldType.SCORING_0_3:
+    case FieldType.SCORING_MATRIX:
+      return NUMBER_OPERATORS
+    case FieldType.SINGLE_SELECT:
+      return SINGLE_CHOICE_OPERATORS
+    case FieldType.MULTI_SELECT:
+    case FieldType.CHECKBOX_GROUP:
+      return MULTI_CHOICE_OPERATORS
+    case FieldType.DATE:
+      return ['equals', 'not_equals', 'exists', 'not_exists']
+    case FieldType.REPEATABLE_GROUP:
+    case FieldType.DATA_TABLE_SELECTOR:
+      return column ? COLUMN_OPERATORS : ROW_OPERATORS
+    default:
+      return TEXT_OPERATORS
+  }
+}
+
+/** A field a condition can reference, in form order */
+export interface ConditionalFieldRef {
+  fieldCode: string
+  label: string
+  type: FieldType
+  conditional: ConditionalConfig | null
+  options: Array<{ value: string; label: string }>
+  /** Repeat-group columns, for row conditions */
+  columns: Array<{ key: string; label: string }>
+}
+
+interface BuilderSectionLike {
+  order: number
+  questions: Array<{
+    fieldCode: string
+    label: string
+    type: FieldType
+    order: number
+    conditional: unknown
+    repeatableConfig?: unknown
+    options?: Array<{ value: string; label: string; order: number }>
+  }>
+}
+
+/**
+ * Flatten template sections into fields in the order respondents see them.
+ */
+export function listConditionalFields(sections: BuilderSectionLike[]): ConditionalFieldRef[] {
+  return [...sections]
+    .sort((a, b) => a.order - b.order)
+    .flatMap((section) => [...section.questions].sort((a, b) => a.order - b.order))
+    .map((question) => ({
+      fieldCode: question.fieldCode,
+      label: question.label,
+      type: question.type,
+      conditional: parseConditionalConfigValue(question.conditional),
+      options: [...(question.options ?? [])]
+        .sort((a, b) => a.order - b.order)
+        .map(({ value, label }) => ({ value, label })),
+      columns: repeatGroupFieldTypes.has(question.type)
+        ? (parseRepeatableGroupConfig(question.repeatableConfig)?.columns ?? []).map(({ key, label }) => ({ key, label }))
+        : [],
+    }))
+}
+
+/**
+ * Field codes a configuration reads answers from (score references excluded).
+ */
+export function referencedFieldCodes(config: ConditionalConfig | null): string[] {
+  if (!config) {
+    return []
+  }
+  const codes = flattenConditionalRules(config)
+    .filter((rule) => rule.source !== 'score')
+    .map((rule) => rule.field)
+  return Array.from(new Set(codes))
+}
+
+/**
+ * Check that every field a condition references exists, is a different field
+ * and comes earlier in the form, so answers drive later questions only.
+ */
+export function validateConditionalReferences(
+  fieldCode: string,
+  config: ConditionalConfig | null,
+  fields: ConditionalFieldRef[]
+): string[] {
+  if (!config) {
+    return []
+  }
+
+  const errors: string[] = []
+  const position = new Map(fields.map((field, index) => [field.fieldCode, index]))
+  const ownPosition = position.get(fieldCode) ?? fields.length
+
+  for (const rule of flattenConditionalRules(config)) {
+    if (rule.source === 'score') {
+      continue
+    }
+    const index = position.get(rule.field)
+    if (rule.field === fieldCode) {
+      errors.push('A condition cannot reference the field it belongs to')
+    } else if (index === undefined) {
+      errors.push(`Condition references ${rule.field}, which is not in this template`)
+    } else if (index > ownPosition) {
+      errors.push(`${rule.field} comes after this field; conditions can only reference earlier fields`)
+    } else if (rule.source === 'repeat_group' && !repeatGroupFieldTypes.has(fields[index].type)) {
+      errors.push(`${rule.field} is not a repeating group`)
+    }
+  }
+
+  return Array.from(new Set(errors))
+}
+
+/**
+ * Find a dependency cycle across all fields' conditions (A shows B, B shows A).
+ * `overrides` substitutes unsaved configurations by field code. Returns the
+ * cycle as a path that starts and ends on the same field, or null.
+ */
+export function findConditionalCycle(
+  fields: ConditionalFieldRef[],
+  overrides: Record<string, ConditionalConfig | null> = {}
+): string[] | null {
+  const dependencies = new Map(
+    fields.map((field) => [
+      field.fieldCode,
+      referencedFieldCodes(field.fieldCode in overrides ? overrides[field.fieldCode] : field.conditional),
+    ])
+  )
+  const visited = new Set<string>()
+  const path: string[] = []
+
+  const visit = (fieldCode: string): string[] | null => {
+    const open = path.indexOf(fieldCode)
+    if (open !== -1) {
+      return [...path.slice(open), fieldCode]
+    }
+    if (visited.has(fieldCode)) {
+      return null
+    }
+    visited.add(fieldCode)
+    path.push(fieldCode)
+    for (const dependency of dependencies.get(fieldCode) ?? []) {
+      const cycle = visit(dependency)
+      if (cycle) {
+        return cycle
+      }
+    }
+    path.pop()
+    return null
+  }
+
+  for (const field of fields) {
+    const cycle = visit(field.fieldCode)
+    if (cycle) {
+      return cycle
+    }
+  }
+  return null
+}
+
+/**
+ * All problems with saving `config` on `fieldCode`: bad references plus any
+ * cycle the change would create.
+ */
+export function validateConditionalConfig(
+  fieldCode: string,
+  config: ConditionalConfig | null,
+  fields: ConditionalFieldRef[]
+): string[] {
+  const errors = validateConditionalReferences(fieldCode, config, fields)
+  const cycle = findConditionalCycle(fields, { [fieldCode]: config })
+  if (cycle) {
+    errors.push(`Conditional logic would form a cycle: ${cycle.join(' → ')}`)
+  }
+  return errors
+}
@@ -10,6 +10,12 @@ import {
   Table,
   BarChart3,
   Grid3x3,
+  DollarSign,
+  Percent,
+  Sigma,
+  Mail,
+  Link,
+  Phone,
   LucideIcon,
 } from 'lucide-react'
 
@@ -65,6 +71,48 @@ export const FIELD_TYPE_CONFIG: Record<FieldType, FieldTypeConfig> = {
       step: 1,
     },
   },
+  DECIMAL: {
+    label: 'Decimal',
+    description: 'Number with decimal places, shown with the locale\'s grouping.',
+    icon: Sigma,
+    category: 'numeric',
+    defaultProps: {
+      decimals: 2,
+    },
+  },
+  CURRENCY: {
+    label: 'Currency',
+    description: 'Monetary amount formatted in the chosen currency.',
+    icon: DollarSign,
+    category: 'numeric',
+    defaultProps: {
+      currency: 'USD',
+    },
+  },
+  PERCENTAGE: {
+    label: 'Percentage',
+    description: 'Percent value entered as a number, e.g. 12.5 for 12.5%.',
+    icon: Percent,
+    category: 'numeric',
+  },
+  EMAIL: {
+    label: 'Email',
+    description: 'Email address checked for a valid format.',
+    icon: Mail,
+    category: 'text',
+  },
+  URL: {
+    label: 'Web Address',
+    description: 'Full link including https://.',
+    icon: Link,
+    category: 'text',
+  },
+  PHONE: {
+    label: 'Phone',
+    description: 'Phone number with optional country code.',
+    icon: Phone,
+    category: 'text',
+  },
   SINGLE_SELECT: {
     label: 'Dropdown',
     description: 'Choose a single option from a dropdown list.',
@@ -76,7 +124,6 @@ export const FIELD_TYPE_CONFIG: Record<FieldType, FieldTypeConfig> = {
     description: 'Select multiple options from a searchable list.',
     icon: ListChecks,
     category: 'selection',
-    enabled: false,
   },
   CHECKBOX_GROUP: {
     label: 'Checkbox Group',
@@ -0,0 +1,68 @@
+import { FieldType } from '@prisma/client'
+import { validateValidationConfig } from './validation-rules'
+import type { ConditionalFieldRef } from './conditional-rules'
+
+const field = (fieldCode: string, type: FieldType = FieldType.INTEGER): ConditionalFieldRef => ({
+  fieldCode,
+  label: fieldCode,
+  type,
+  conditional: null,
+  options: [],
+  columns: [],
+})
+
+describe('validation-rules', () => {
+  const fields = [field('start', FieldType.DATE), field('end', FieldType.DATE), field('rows', FieldType.REPEATABLE_GROUP)]
+
+  it('accepts per-field and cross-field rules that reference template fields', () => {
+    expect(
+      validateValidationConfig('end', FieldType.DATE, {
+        rules: [{ type: 'pattern', value: '^\\d{4}', message: 'Use a year' }],
+        crossField: [{ type: 'compare', operator: 'gt', field: 'start', message: 'End after start' }],
+      }, fields)
+    ).toEqual([])
+  })
+
+  it('flags malformed rules and bad references', () => {
+    expect(
+      validateValidationConfig('end', FieldType.DATE, {
+        rules: [
+          { type: 'pattern', value: '(', message: 'Bad' },
+          { type: 'min', message: '' },
+        ],
+        crossField: [
+          { type: 'compare', operator: 'gt', field: 'end', message: 'Self' },
+          { type: 'sum', operator: 'eq', fields: ['missing'], value: 100, message: 'Sum' },
+          { type: 'min_rows', value: 1, message: 'Rows' },
+        ],
+      }, fields)
+    ).toEqual([
+      '( is not a valid pattern',
+      'Every validation rule needs an error message',
+      'Minimum needs a number',
+      'A validation rule cannot compare a field with itself',
+      'Validation rule references missing, which is not in this template',
+      'Row-count rules only apply to repeating groups and multi-choice fields',
+    ])
+  })
+
+  it('checks fields read by a rule condition, allowing the field itself', () => {
+    const when = (fieldCode: string) => ({
+      logic: 'AND' as const,
+      rules: [{ field: fieldCode, operator: 'exists' as const, value: null, action: 'show' as const }],
+    })
+
+    expect(
+      validateValidationConfig('rows', FieldType.REPEATABLE_GROUP, {
+        rules: [],
+        crossField: [{ type: 'min_rows', value: 1, message: 'Rows', when: when('rows') }],
+      }, fields)
+    ).toEqual([])
+    expect(
+      validateValidationConfig('rows', FieldType.REPEATABLE_GROUP, {
+        rules: [],
+        crossField: [{ type: 'min_rows', value: 1, message: 'Rows', when: when('gone') }],
+      }, fields)
+    ).toEqual(['Validation rule references gone, which is not in this template'])
+  })
+})
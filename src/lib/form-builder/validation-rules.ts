@@ -0,0 +1,120 @@
+import { FieldType } from '@prisma/client'
+import { flattenConditionalRules } from '@/lib/form-engine/conditional-logic'
+import type {
+  CrossFieldComparison,
+  CrossFieldRule,
+  ValidationConfig,
+  ValidationRule,
+} from '@/lib/form-engine/types'
+import type { ConditionalFieldRef } from './conditional-rules'
+
+// Builder-side helpers for validation rules: labels for the editor and the
+// reference checks the field config modal and updateField share.
+
+export type EditableValidationRuleType = Extract<ValidationRule['type'], 'min' | 'max' | 'pattern' | 'email' | 'url'>
+
+export const VALIDATION_RULE_LABELS: Record<EditableValidationRuleType, string> = {
+  min: 'Minimum',
+  max: 'Maximum',
+  pattern: 'Matches pattern',
+  email: 'Email address',
+  url: 'Web address',
+}
+
+export const CROSS_FIELD_RULE_LABELS: Record<CrossFieldRule['type'], string> = {
+  compare: 'Compare with another field',
+  sum: 'Sum with other fields',
+  min_rows: 'Minimum number of rows',
+}
+
+export const CROSS_FIELD_COMPARISON_LABELS: Record<CrossFieldComparison, string> = {
+  eq: 'equal to',
+  neq: 'not equal to',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+}
+
+/** Field types that hold rows or selections, where a row-count rule applies */
+export const rowCountFieldTypes = new Set<FieldType>([
+  FieldType.REPEATABLE_GROUP,
+  FieldType.DATA_TABLE_SELECTOR,
+  FieldType.MULTI_SELECT,
+  FieldType.CHECKBOX_GROUP,
+])
+
+/** Fields a rule compares against; `when` conditions may also read the field itself */
+function comparedFieldCodes(rule: CrossFieldRule): string[] {
+  switch (rule.type) {
+    case 'compare':
+      return [rule.field]
+    case 'sum':
+      return rule.fields
+    default:
+      return []
+  }
+}
+
+/**
+ * All problems with saving `config` on a field: malformed per-field rules and
+ * cross-field rules that compare the field with itself or read fields not in the
+ * template. Cross-field rules run at submit, so references may point anywhere.
+ */
+export function validateValidationConfig(
+  fieldCode: string,
+  fieldType: FieldType,
+  config: ValidationConfig | null,
+  fields: ConditionalFieldRef[]
+): string[] {
+  if (!config) {
+    return []
+  }
+
+  const errors: string[] = []
+  const known = new Set(fields.map((field) => field.fieldCode))
+
+  for (const rule of config.rules) {
+    if (!rule.message.trim()) {
+      errors.push('Every validation rule needs an error message')
+    }
+    if ((rule.type === 'min' || rule.type === 'max') && typeof rule.value !== 'number') {
+      errors.push(`${VALIDATION_RULE_LABELS[rule.type]} needs a number`)
+    }
+    if (rule.type === 'pattern') {
+      try {
+        new RegExp(String(rule.value ?? ''))
+      } catch {
+        errors.push(`${String(rule.value)} is not a valid pattern`)
+      }
+    }
+  }
+
+  const limit = (type: 'min' | 'max') => config.rules.find((rule) => rule.type === type && typeof rule.value === 'number')?.value
+  const min = limit('min')
+  const max = limit('max')
+  if (typeof min === 'number' && typeof max === 'number' && min > max) {
+    errors.push('Minimum cannot be greater than maximum')
+  }
+
+  for (const rule of config.crossField ?? []) {
+    if (rule.type === 'min_rows' && !rowCountFieldTypes.has(fieldType)) {
+      errors.push('Row-count rules only apply to repeating groups and multi-choice fields')
+    }
+    if (rule.type === 'sum' && rule.fields.length === 0) {
+      errors.push('Sum rules need at least one other field')
+    }
+    const compared = comparedFieldCodes(rule)
+    if (compared.includes(fieldCode)) {
+      errors.push('A validation rule cannot compare a field with itself')
+    }
+    const conditions = rule.when ? flattenConditionalRules(rule.when).filter((condition) => condition.source !== 'score') : []
+    for (const reference of [...compared, ...conditions.map((condition) => condition.field)]) {
+      if (!known.has(reference)) {
+        errors.push(`Validation rule references ${reference}, which is not in this template`)
+      }
+    }
+  }
+
+  return Array.from(new Set(errors))
+}
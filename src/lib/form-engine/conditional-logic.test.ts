@@ -4,6 +4,7 @@ import {
   shouldShowField,
   shouldRequireField,
   parseConditionalConfig,
+  flattenConditionalRules,
   ConditionalHelpers,
 } from './conditional-logic';
 import { ConditionalConfig, ConditionalRule, FormResponse } from './types';
@@ -22,6 +23,15 @@ describe('conditional-logic utilities', () => {
       ['exists', { operator: 'exists', value: null }, { trigger: 'value' }, true],
       ['not_exists', { operator: 'not_exists', value: null }, { trigger: '' }, true],
       ['not_empty array', { operator: 'not_empty', value: null }, { trigger: [] }, false],
+      ['in', { operator: 'in', value: ['red', 'blue'] }, { trigger: 'blue' }, true],
+      ['in multi-select', { operator: 'in', value: ['red'] }, { trigger: ['green', 'red'] }, true],
+      ['not_in', { operator: 'not_in', value: ['red', 'blue'] }, { trigger: 'green' }, true],
+      ['between', { operator: 'between', value: [1, 5] }, { trigger: 5 }, true],
+      ['between outside', { operator: 'between', value: [1, 5] }, { trigger: 6 }, false],
+      ['between blank', { operator: 'between', value: [0, 5] }, { trigger: '' }, false],
+      ['matches', { operator: 'matches', value: '^US-\\d+$' }, { trigger: 'US-123' }, true],
+      ['matches invalid pattern', { operator: 'matches', value: '(' }, { trigger: '(' }, false],
+      ['count_greater_than', { operator: 'count_greater_than', value: 1 }, { trigger: ['a', 'b'] }, true],
     ])('handles %s operator', (_label, ruleConfig, responses, expected) => {
       const rule: ConditionalRule = {
         field: 'trigger',
@@ -31,6 +41,42 @@ describe('conditional-logic utilities', () => {
 
       expect(evaluateRule(rule, responses)).toBe(expected);
     });
+
+    it('reads calculated scores', () => {
+      const rule: ConditionalRule = {
+        field: 'impactScore',
+        source: 'score',
+        operator: 'greater_than',
+        value: 2,
+        action: 'show',
+      };
+
+      expect(evaluateRule(rule, {}, { calculatedScores: { impactScore: 2.5 } })).toBe(true);
+      expect(evaluateRule(rule, {}, { calculatedScores: { impactScore: 1 } })).toBe(false);
+      expect(evaluateRule(rule, {})).toBe(false);
+    });
+
+    it('reads repeat-group rows', () => {
+      const repeatGroups = {
+        inventors: [
+          { name: 'Ada', role: 'lead' },
+          { name: 'Grace', role: '' },
+        ],
+      };
+      const base = { field: 'inventors', source: 'repeat_group', action: 'show' } as const;
+
+      expect(evaluateRule({ ...base, operator: 'count_greater_than', value: 1 }, {}, { repeatGroups })).toBe(true);
+      expect(
+        evaluateRule({ ...base, column: 'role', operator: 'equals', value: 'lead' }, {}, { repeatGroups })
+      ).toBe(true);
+      expect(
+        evaluateRule({ ...base, column: 'role', match: 'all', operator: 'exists', value: null }, {}, { repeatGroups })
+      ).toBe(false);
+      expect(
+        evaluateRule({ ...base, column: 'role', operator: 'count_greater_than', value: 1 }, {}, { repeatGroups })
+      ).toBe(false);
+      expect(evaluateRule({ ...base, operator: 'not_empty', value: null }, {}, { repeatGroups: {} })).toBe(false);
+    });
   });
 
   it('evaluates AND/OR logic correctly', () => {
@@ -51,6 +97,40 @@ describe('conditional-logic utilities', () => {
     expect(evaluateConditional(orConfig, responses)).toBe(true);
   });
 
+  it('evaluates nested groups', () => {
+    // stage = 'pilot' AND (sites > 2 OR region in [EU, UK])
+    const config: ConditionalConfig = {
+      logic: 'AND',
+      rules: [{ field: 'stage', operator: 'equals', value: 'pilot', action: 'show' }],
+      groups: [
+        {
+          logic: 'OR',
+          rules: [
+            { field: 'sites', operator: 'greater_than', value: 2, action: 'show' },
+            { field: 'region', operator: 'in', value: ['EU', 'UK'], action: 'show' },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluateConditional(config, { stage: 'pilot', sites: 1, region: 'UK' })).toBe(true);
+    expect(evaluateConditional(config, { stage: 'pilot', sites: 1, region: 'US' })).toBe(false);
+    expect(evaluateConditional(config, { stage: 'launch', sites: 5 })).toBe(false);
+    expect(shouldShowField(config, { stage: 'pilot', sites: 3 })).toBe(true);
+  });
+
+  it('collects actions from nested groups', () => {
+    const config: ConditionalConfig = {
+      logic: 'AND',
+      rules: [],
+      groups: [{ logic: 'OR', rules: [{ field: 'a', operator: 'exists', value: null, action: 'hide' }] }],
+    };
+
+    expect(flattenConditionalRules(config)).toHaveLength(1);
+    expect(shouldShowField(config, { a: 'set' })).toBe(false);
+    expect(shouldShowField(config, {})).toBe(true);
+  });
+
   describe('shouldShowField', () => {
     it('uses show actions to gate visibility', () => {
       const config: ConditionalConfig = {
@@ -130,6 +210,66 @@ describe('conditional-logic utilities', () => {
       expect(config?.logic).toBe('OR');
       expect(config?.rules).toHaveLength(2);
     });
+
+    it('parses nested groups, sources and list values', () => {
+      const config = parseConditionalConfig({
+        logic: 'AND',
+        rules: [{ field: 'overallScore', source: 'score', operator: 'between', value: ['2', 4], action: 'show' }],
+        groups: [
+          {
+            logic: 'OR',
+            rules: [
+              {
+                field: 'inventors',
+                source: 'repeat_group',
+                column: 'role',
+                match: 'all',
+                operator: 'in',
+                value: ['lead', 'co-lead'],
+                action: 'show',
+              },
+              { field: 'code', operator: 'matches', value: '^A', action: 'show' },
+            ],
+          },
+          { logic: 'OR', rules: [{ field: 'broken', operator: 'between', value: [5, 1], action: 'show' }] },
+        ],
+      });
+
+      expect(config).toEqual({
+        logic: 'AND',
+        rules: [{ field: 'overallScore', source: 'score', operator: 'between', value: [2, 4], action: 'show' }],
+        groups: [
+          {
+            logic: 'OR',
+            rules: [
+              {
+                field: 'inventors',
+                source: 'repeat_group',
+                column: 'role',
+                match: 'all',
+                operator: 'in',
+                value: ['lead', 'co-lead'],
+                action: 'show',
+              },
+              { field: 'code', operator: 'matches', value: '^A', action: 'show' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('drops rules whose value does not fit the operator', () => {
+      expect(
+        parseConditionalConfig({
+          rules: [
+            { field: 'a', operator: 'in', value: 'x', action: 'show' },
+            { field: 'a', operator: 'matches', value: '(', action: 'show' },
+            { field: 'a', operator: 'count_greater_than', value: 'many', action: 'show' },
+            { field: 'a', operator: 'equals', value: 'x', source: 'elsewhere', action: 'show' },
+          ],
+        })
+      ).toBeNull();
+    });
   });
 
   it('exposes builder helpers for composable configs', () => {
@@ -140,5 +280,8 @@ describe('conditional-logic utilities', () => {
 
     expect(config.logic).toBe('AND');
     expect(config.rules).toHaveLength(2);
+
+    const nested = ConditionalHelpers.withGroups(config, ConditionalHelpers.or(ConditionalHelpers.showWhenEquals('a', 1)));
+    expect(nested.groups).toHaveLength(1);
   });
 });
@@ -1,12 +1,48 @@
-import { ConditionalRule, ConditionalConfig, FormResponse } from './types';
+import {
+  CalculatedScores,
+  ConditionalConfig,
+  ConditionalGroup,
+  ConditionalRule,
+  FormResponse,
+  RepeatableGroupData,
+} from './types';
 import { parseConditionalConfigValue } from './json-utils';
 
 /**
- * Evaluates a single conditional rule against the current form responses
+ * Form state beyond top-level responses that rules may reference
  */
-export function evaluateRule(rule: ConditionalRule, responses: FormResponse): boolean {
-  const fieldValue = responses[rule.field];
+export interface ConditionalContext {
+  repeatGroups?: RepeatableGroupData;
+  calculatedScores?: CalculatedScores | Record<string, unknown> | null;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function countOf(value: unknown): number {
+  if (Array.isArray(value)) {
+    return value.length;
+  }
+  return isBlank(value) || value === false ? 0 : 1;
+}
+
+function toRegExp(pattern: ConditionalRule['value']): RegExp | null {
+  if (typeof pattern !== 'string') {
+    return null;
+  }
+  try {
+    return new RegExp(pattern);
+  } catch {
+    console.warn(`Invalid conditional pattern: ${pattern}`);
+    return null;
+  }
+}
 
+/**
+ * Applies a rule's operator to a single resolved value
+ */
+function compareValue(rule: ConditionalRule, fieldValue: unknown): boolean {
   switch (rule.operator) {
     case 'equals':
       return fieldValue === rule.value;
@@ -34,16 +70,49 @@ export function evaluateRule(rule: ConditionalRule, responses: FormResponse): bo
       return Number(fieldValue) < Number(rule.value);
 
     case 'exists':
-      return fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
+      return !isBlank(fieldValue);
 
     case 'not_exists':
-      return fieldValue === undefined || fieldValue === null || fieldValue === '';
+      return isBlank(fieldValue);
 
     case 'not_empty':
       if (Array.isArray(fieldValue)) {
         return fieldValue.length > 0;
       }
-      return fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
+      return !isBlank(fieldValue);
+
+    case 'in':
+    case 'not_in': {
+      const options = Array.isArray(rule.value) ? rule.value.map(String) : [];
+      // Multi-select answers match when any selected item is in the list
+      const found = Array.isArray(fieldValue)
+        ? fieldValue.some(item => options.includes(String(item)))
+        : !isBlank(fieldValue) && options.includes(String(fieldValue));
+      return rule.operator === 'in' ? found : !found;
+    }
+
+    case 'between': {
+      if (!Array.isArray(rule.value) || rule.value.length !== 2 || isBlank(fieldValue)) {
+        return false;
+      }
+      const numeric = Number(fieldValue);
+      const [min, max] = rule.value.map(Number);
+      return numeric >= min && numeric <= max;
+    }
+
+    case 'matches': {
+      const pattern = toRegExp(rule.value);
+      if (!pattern) {
+        return false;
+      }
+      if (Array.isArray(fieldValue)) {
+        return fieldValue.some(item => pattern.test(String(item)));
+      }
+      return !isBlank(fieldValue) && pattern.test(String(fieldValue));
+    }
+
+    case 'count_greater_than':
+      return countOf(fieldValue) > Number(rule.value);
 
     default:
       console.warn(`Unknown conditional operator: ${rule.operator}`);
@@ -52,10 +121,57 @@ export function evaluateRule(rule: ConditionalRule, responses: FormResponse): bo
 }
 
 /**
- * Evaluates a conditional configuration against the current form responses
+ * Evaluates a rule against the rows of a repeat group. Without a column the
+ * rows array is the value (so `count_greater_than` counts rows); with one the
+ * column is tested per row and `match` decides whether any or all must pass.
  */
-export function evaluateConditional(config: ConditionalConfig, responses: FormResponse): boolean {
-  const results = config.rules.map(rule => evaluateRule(rule, responses));
+function evaluateRepeatGroupRule(rule: ConditionalRule, rows: Array<Record<string, unknown>>): boolean {
+  if (!rule.column) {
+    return compareValue(rule, rows);
+  }
+
+  const column = rule.column;
+  const values = rows.map(row => row[column]);
+  if (rule.operator === 'count_greater_than') {
+    return values.filter(value => countOf(value) > 0).length > Number(rule.value);
+  }
+  if (rule.match === 'all') {
+    return values.length > 0 && values.every(value => compareValue(rule, value));
+  }
+  return values.some(value => compareValue(rule, value));
+}
+
+/**
+ * Evaluates a single conditional rule against the current form responses
+ */
+export function evaluateRule(
+  rule: ConditionalRule,
+  responses: FormResponse,
+  context: ConditionalContext = {}
+): boolean {
+  switch (rule.source) {
+    case 'repeat_group':
+      return evaluateRepeatGroupRule(rule, context.repeatGroups?.[rule.field] ?? []);
+    case 'score':
+      return compareValue(rule, context.calculatedScores?.[rule.field]);
+    default:
+      return compareValue(rule, responses[rule.field]);
+  }
+}
+
+/**
+ * Evaluates a conditional configuration (including nested groups) against the
+ * current form responses
+ */
+export function evaluateConditional(
+  config: ConditionalGroup,
+  responses: FormResponse,
+  context: ConditionalContext = {}
+): boolean {
+  const results = [
+    ...config.rules.map(rule => evaluateRule(rule, responses, context)),
+    ...(config.groups ?? []).map(group => evaluateConditional(group, responses, context)),
+  ];
 
   if (config.logic === 'AND') {
     return results.every(result => result);
@@ -64,22 +180,31 @@ export function evaluateConditional(config: ConditionalConfig, responses: FormRe
   }
 }
 
+/**
+ * Every rule in a configuration, including those inside nested groups
+ */
+export function flattenConditionalRules(config: ConditionalGroup): ConditionalRule[] {
+  return [...config.rules, ...(config.groups ?? []).flatMap(flattenConditionalRules)];
+}
+
 /**
  * Determines if a field should be visible based on its conditional configuration
  */
 export function shouldShowField(
   conditionalConfig: ConditionalConfig | null,
-  responses: FormResponse
+  responses: FormResponse,
+  context: ConditionalContext = {}
 ): boolean {
   if (!conditionalConfig) {
     return true; // No conditions means always show
   }
 
-  const conditionResult = evaluateConditional(conditionalConfig, responses);
+  const conditionResult = evaluateConditional(conditionalConfig, responses, context);
+  const rules = flattenConditionalRules(conditionalConfig);
 
   // Check if any rule has 'show' action
-  const hasShowAction = conditionalConfig.rules.some(rule => rule.action === 'show');
-  const hasHideAction = conditionalConfig.rules.some(rule => rule.action === 'hide');
+  const hasShowAction = rules.some(rule => rule.action === 'show');
+  const hasHideAction = rules.some(rule => rule.action === 'hide');
 
   if (hasShowAction && !hasHideAction) {
     // Only show actions - show if condition is true
@@ -99,17 +224,19 @@ export function shouldShowField(
 export function shouldRequireField(
   conditionalConfig: ConditionalConfig | null,
   baseRequired: boolean,
-  responses: FormResponse
+  responses: FormResponse,
+  context: ConditionalContext = {}
 ): boolean {
   if (!conditionalConfig) {
     return baseRequired; // No conditions means use base requirement
   }
 
-  const conditionResult = evaluateConditional(conditionalConfig, responses);
+  const conditionResult = evaluateConditional(conditionalConfig, responses, context);
+  const rules = flattenConditionalRules(conditionalConfig);
 
   // Check for require/optional actions
-  const hasRequireAction = conditionalConfig.rules.some(rule => rule.action === 'require');
-  const hasOptionalAction = conditionalConfig.rules.some(rule => rule.action === 'optional');
+  const hasRequireAction = rules.some(rule => rule.action === 'require');
+  const hasOptionalAction = rules.some(rule => rule.action === 'optional');
 
   if (hasRequireAction && conditionResult) {
     return true; // Force required if condition is met
@@ -178,6 +305,14 @@ export const ConditionalHelpers = {
   or: (...rules: ConditionalRule[]): ConditionalConfig => ({
     rules,
     logic: 'OR'
+  }),
+
+  /**
+   * Nest groups under a configuration, e.g. `A AND (B OR C)`
+   */
+  withGroups: (config: ConditionalConfig, ...groups: ConditionalGroup[]): ConditionalConfig => ({
+    ...config,
+    groups: [...(config.groups ?? []), ...groups]
   })
 };
 
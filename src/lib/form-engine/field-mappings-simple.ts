@@ -8,6 +8,12 @@ export const fieldTypeComponentMap = {
   [FieldType.SHORT_TEXT]: 'Input',
   [FieldType.LONG_TEXT]: 'Textarea',
   [FieldType.INTEGER]: 'NumberInput',
+  [FieldType.DECIMAL]: 'FormattedNumberInput',
+  [FieldType.CURRENCY]: 'FormattedNumberInput',
+  [FieldType.PERCENTAGE]: 'FormattedNumberInput',
+  [FieldType.EMAIL]: 'ContactInput',
+  [FieldType.URL]: 'ContactInput',
+  [FieldType.PHONE]: 'ContactInput',
   [FieldType.SINGLE_SELECT]: 'Select',
   [FieldType.MULTI_SELECT]: 'MultiSelect',
   [FieldType.CHECKBOX_GROUP]: 'CheckboxGroup',
@@ -44,6 +50,9 @@ export function isMultiValueField(fieldType: FieldType): boolean {
 export function isNumericField(fieldType: FieldType): boolean {
   const numericTypes: FieldType[] = [
     FieldType.INTEGER,
+    FieldType.DECIMAL,
+    FieldType.CURRENCY,
+    FieldType.PERCENTAGE,
     FieldType.SCORING_0_3,
     FieldType.SCORING_MATRIX
   ];
@@ -58,6 +67,13 @@ export function getDefaultValue(fieldType: FieldType): string | number | string[
     case FieldType.SHORT_TEXT:
     case FieldType.LONG_TEXT:
     case FieldType.DATE:
+    case FieldType.EMAIL:
+    case FieldType.URL:
+    case FieldType.PHONE:
+    // Typed numbers start blank so an untouched amount is not saved as 0
+    case FieldType.DECIMAL:
+    case FieldType.CURRENCY:
+    case FieldType.PERCENTAGE:
       return '';
 
     case FieldType.INTEGER:
@@ -85,6 +101,9 @@ export function getDefaultValue(fieldType: FieldType): string | number | string[
 export function validateFieldType(fieldType: FieldType, value: string | number | boolean | string[] | Record<string, unknown> | null | undefined): boolean {
   switch (fieldType) {
     case FieldType.INTEGER:
+    case FieldType.DECIMAL:
+    case FieldType.CURRENCY:
+    case FieldType.PERCENTAGE:
       return !isNaN(Number(value));
 
     case FieldType.SCORING_0_3:
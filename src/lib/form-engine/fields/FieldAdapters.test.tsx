@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FieldComponents } from './FieldAdapters';
+import { FieldType, FormQuestionWithDetails } from '../types';
+import { buildQuestion } from '../test-utils';
+
+const MultiSelect = FieldComponents[FieldType.MULTI_SELECT];
+
+const question = buildQuestion({
+  fieldCode: 'areas',
+  label: 'Clinical areas',
+  type: FieldType.MULTI_SELECT,
+  validation: { rules: [{ type: 'max', value: 2, message: 'Select no more than 2 options' }] },
+  options: [
+    { id: 'opt-3', questionId: 'q', value: 'surgery', label: 'Surgery', order: 3 },
+    { id: 'opt-1', questionId: 'q', value: 'cardiology', label: 'Cardiology', order: 1 },
+    { id: 'opt-2', questionId: 'q', value: 'oncology', label: 'Oncology', order: 2 },
+  ],
+});
+
+function Harness({ field, initial = [] }: { field: FormQuestionWithDetails; initial?: string[] }) {
+  const [value, setValue] = useState<string[]>(initial);
+  return (
+    <>
+      <MultiSelect question={field} value={value} onChange={(next) => setValue(next as string[])} />
+      <output data-testid="value">{JSON.stringify(value)}</output>
+    </>
+  );
+}
+
+describe('MultiSelectField', () => {
+  it('filters options by search and adds picks as removable chips', async () => {
+    const user = userEvent.setup();
+    render(<Harness field={question} />);
+
+    await user.click(screen.getByRole('combobox'));
+    await user.type(screen.getByLabelText('Search Clinical areas options'), 'onco');
+    expect(screen.queryByText('Cardiology')).not.toBeInTheDocument();
+
+    await user.click(screen.getByText('Oncology'));
+    expect(screen.getByTestId('value')).toHaveTextContent('["oncology"]');
+
+    await user.keyboard('{Escape}');
+    await user.click(screen.getByRole('button', { name: 'Remove Oncology' }));
+    expect(screen.getByTestId('value')).toHaveTextContent('[]');
+  });
+
+  it('stops further picks once the maximum is reached', async () => {
+    const user = userEvent.setup();
+    render(<Harness field={question} initial={['cardiology', 'surgery']} />);
+
+    expect(screen.getByText('Select up to 2.')).toBeInTheDocument();
+    await user.click(screen.getByRole('combobox'));
+
+    const options = screen.getAllByRole('checkbox');
+    expect(options.map((option) => option.closest('label')?.textContent)).toEqual(['Cardiology', 'Oncology', 'Surgery']);
+    expect(options[1]).toBeDisabled();
+    expect(options[0]).not.toBeDisabled();
+  });
+});
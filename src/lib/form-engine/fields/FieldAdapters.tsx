@@ -1,4 +1,4 @@
-import React, { memo, useMemo } from 'react';
+import React, { memo, useMemo, useState } from 'react';
 import { FieldType } from '@prisma/client';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -6,6 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ScoringComponent } from '@/components/form/ScoringComponent';
 import { DynamicScoringMatrix } from '@/components/form/DynamicScoringMatrix';
 import { FieldProps, RepeatableFieldConfig, RepeatableGroupConfig } from '../types';
@@ -15,7 +16,9 @@ import {
   parseValidationMetadata,
   parseRepeatableGroupConfig,
 } from '../json-utils';
-import { Trash2, Plus } from 'lucide-react';
+import { getSelectionLimits } from '../validation';
+import { currencySymbol, DEFAULT_CURRENCY, getNumberFormat, parseNumericInput } from '../number-format';
+import { Trash2, Plus, ChevronsUpDown, X } from 'lucide-react';
 
 const DEFAULT_REPEATABLE_COLUMNS: RepeatableFieldConfig[] = [
   { key: 'value', label: 'Value', type: 'text', required: true },
@@ -124,6 +127,87 @@ const IntegerField: React.FC<FieldProps> = ({ question, value, onChange, error,
   );
 };
 
+// Decimal, currency and percentage adapter. Shows the formatted number at rest
+// and the raw figure while editing, both in the browser's locale; always stores
+// a plain number.
+const FormattedNumberField: React.FC<FieldProps> = ({ question, value, onChange, error, disabled }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const format = useMemo(() => getNumberFormat(question.validation), [question.validation]);
+  const locale = useMemo(() => new Intl.NumberFormat().resolvedOptions().locale, []);
+  const numeric = parseNumericInput(value);
+
+  const decimals = format.decimals ?? (question.type === FieldType.PERCENTAGE ? undefined : 2);
+  const display =
+    draft ??
+    (numeric === null
+      ? ''
+      : new Intl.NumberFormat(locale, {
+          minimumFractionDigits: decimals,
+          maximumFractionDigits: decimals ?? 6,
+        }).format(numeric));
+  const prefix = question.type === FieldType.CURRENCY ? currencySymbol(format.currency ?? DEFAULT_CURRENCY) : null;
+  const suffix = question.type === FieldType.PERCENTAGE ? '%' : null;
+
+  return (
+    <div className="relative">
+      {prefix && (
+        <span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-muted-foreground">
+          {prefix}
+        </span>
+      )}
+      <Input
+        id={question.fieldCode}
+        type="text"
+        inputMode="decimal"
+        value={display}
+        onFocus={() =>
+          setDraft(
+            numeric === null
+              ? ''
+              : new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 20 }).format(numeric)
+          )
+        }
+        onBlur={() => setDraft(null)}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          onChange(parseNumericInput(e.target.value, locale) ?? '');
+        }}
+        placeholder={question.placeholder || ''}
+        disabled={disabled}
+        className={[prefix ? 'pl-8' : '', suffix ? 'pr-8' : '', error ? 'border-red-500' : ''].filter(Boolean).join(' ')}
+      />
+      {suffix && (
+        <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-sm text-muted-foreground">
+          {suffix}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const contactInputTypes: Partial<Record<FieldType, { type: string; autoComplete: string }>> = {
+  [FieldType.EMAIL]: { type: 'email', autoComplete: 'email' },
+  [FieldType.URL]: { type: 'url', autoComplete: 'url' },
+  [FieldType.PHONE]: { type: 'tel', autoComplete: 'tel' },
+};
+
+// Email, URL and phone adapter: a text input with the matching browser keyboard
+const ContactField: React.FC<FieldProps> = ({ question, value, onChange, error, disabled }) => {
+  const input = contactInputTypes[question.type] ?? { type: 'text', autoComplete: 'off' };
+  return (
+    <Input
+      id={question.fieldCode}
+      type={input.type}
+      autoComplete={input.autoComplete}
+      value={value as string || ''}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={question.placeholder || (question.type === FieldType.URL ? 'https://' : '')}
+      disabled={disabled}
+      className={error ? 'border-red-500' : ''}
+    />
+  );
+};
+
 // Single select field adapter
 const SingleSelectField: React.FC<FieldProps> = ({ question, value, onChange, error, disabled }) => {
   return (
@@ -142,11 +226,21 @@ const SingleSelectField: React.FC<FieldProps> = ({ question, value, onChange, er
   );
 };
 
-// Multi-select field adapter
+// Multi-select field adapter: searchable list with the current picks shown as chips
 const MultiSelectField: React.FC<FieldProps> = ({ question, value, onChange, error, disabled }) => {
-  const selectedValues = (value as string[]) || [];
-
-  const handleChange = (optionValue: string, checked: boolean) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const selectedValues = useMemo(() => (Array.isArray(value) ? (value as string[]) : []), [value]);
+  const { min, max } = useMemo(() => getSelectionLimits(question.validation), [question.validation]);
+  const options = useMemo(() => [...question.options].sort((a, b) => a.order - b.order), [question.options]);
+  const atLimit = max !== undefined && selectedValues.length >= max;
+
+  const query = search.trim().toLowerCase();
+  const visibleOptions = query
+    ? options.filter((option) => option.label.toLowerCase().includes(query))
+    : options;
+
+  const toggle = (optionValue: string, checked: boolean) => {
     if (checked) {
       onChange([...selectedValues, optionValue]);
     } else {
@@ -154,21 +248,89 @@ const MultiSelectField: React.FC<FieldProps> = ({ question, value, onChange, err
     }
   };
 
+  const labelFor = (optionValue: string) =>
+    options.find((option) => option.value === optionValue)?.label ?? optionValue;
+
+  const hint = [
+    min !== undefined ? `at least ${min}` : null,
+    max !== undefined ? `up to ${max}` : null,
+  ].filter(Boolean).join(', ');
+
   return (
-    <div className={`space-y-2 ${error ? 'border border-red-500 rounded p-2' : ''}`}>
-      {question.options.map((option) => (
-        <div key={option.id} className="flex items-center space-x-2">
-          <Checkbox
-            id={option.id}
-            checked={selectedValues.includes(option.value)}
-            onCheckedChange={(checked) => handleChange(option.value, checked as boolean)}
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSearch(''); }}>
+        <PopoverTrigger asChild>
+          <Button
+            id={question.fieldCode}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
             disabled={disabled}
+            className={`w-full justify-between font-normal ${error ? 'border-red-500' : ''}`}
+          >
+            {selectedValues.length > 0
+              ? `${selectedValues.length} selected`
+              : question.placeholder || 'Select options'}
+            <ChevronsUpDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-2" align="start">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search options"
+            aria-label={`Search ${question.label} options`}
+            className="mb-2"
           />
-          <label htmlFor={option.id} className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-            {option.label}
-          </label>
+          <div className="max-h-60 space-y-1 overflow-y-auto" role="listbox" aria-multiselectable="true">
+            {visibleOptions.length === 0 ? (
+              <p className="px-2 py-1 text-sm text-muted-foreground">No matching options</p>
+            ) : (
+              visibleOptions.map((option) => {
+                const checked = selectedValues.includes(option.value);
+                return (
+                  <label
+                    key={option.id}
+                    className="flex cursor-pointer items-center space-x-2 rounded px-2 py-1 text-sm hover:bg-muted"
+                  >
+                    <Checkbox
+                      checked={checked}
+                      onCheckedChange={(next) => toggle(option.value, next as boolean)}
+                      disabled={!checked && atLimit}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {selectedValues.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selectedValues.map((selected) => (
+            <span
+              key={selected}
+              className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-800"
+            >
+              {labelFor(selected)}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => toggle(selected, false)}
+                  aria-label={`Remove ${labelFor(selected)}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
         </div>
-      ))}
+      )}
+
+      {hint && <p className="text-xs text-muted-foreground">Select {hint}.</p>}
     </div>
   );
 };
@@ -573,6 +735,12 @@ export const FieldComponents = {
   [FieldType.SHORT_TEXT]: ShortTextField,
   [FieldType.LONG_TEXT]: LongTextField,
   [FieldType.INTEGER]: IntegerField,
+  [FieldType.DECIMAL]: FormattedNumberField,
+  [FieldType.CURRENCY]: FormattedNumberField,
+  [FieldType.PERCENTAGE]: FormattedNumberField,
+  [FieldType.EMAIL]: ContactField,
+  [FieldType.URL]: ContactField,
+  [FieldType.PHONE]: ContactField,
   [FieldType.SINGLE_SELECT]: SingleSelectField,
   [FieldType.MULTI_SELECT]: MultiSelectField,
   [FieldType.CHECKBOX_GROUP]: CheckboxGroupField,
@@ -17,6 +17,9 @@ export type {
   FormSubmissionData,
   ConditionalRule,
   ConditionalConfig,
+  ConditionalGroup,
+  ConditionalOperator,
+  ConditionalSource,
   ValidationRule,
   ValidationConfig,
   FieldProps,
@@ -34,11 +37,13 @@ export type {
 export {
   evaluateRule,
   evaluateConditional,
+  flattenConditionalRules,
   shouldShowField,
   shouldRequireField,
   ConditionalHelpers,
   parseConditionalConfig
 } from './conditional-logic';
+export type { ConditionalContext } from './conditional-logic';
 
 export {
   validateRule,
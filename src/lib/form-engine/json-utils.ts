@@ -1,4 +1,4 @@
-import { ConditionalConfig, ConditionalRule, RepeatableFieldConfig, RepeatableGroupConfig, RepeatablePredefinedRow, RepeatableGroupMode } from './types';
+import { ConditionalConfig, ConditionalGroup, ConditionalRule, ConditionalSource, RepeatableFieldConfig, RepeatableGroupConfig, RepeatablePredefinedRow, RepeatableGroupMode } from './types';
 
 export type JsonRecord = Record<string, unknown>;
 
@@ -11,8 +11,14 @@ const allowedOperators: ConditionalRule['operator'][] = [
   'exists',
   'not_exists',
   'not_empty',
+  'in',
+  'not_in',
+  'between',
+  'matches',
+  'count_greater_than',
 ];
 
+const allowedSources: ConditionalSource[] = ['response', 'repeat_group', 'score'];
 const allowedActions: ConditionalRule['action'][] = ['show', 'hide', 'require', 'optional'];
 const allowedColumnTypes: RepeatableFieldConfig['type'][] = ['text', 'textarea', 'number', 'checkbox'];
 
@@ -60,11 +66,17 @@ type LegacyConditionalConfig = {
   showIf: LegacyCondition[];
 };
 
-type ConditionalConfigShape = {
-  rules: unknown[];
+type ConditionalGroupShape = {
+  rules?: unknown[];
+  groups?: unknown[];
   logic?: unknown;
 };
 
+/**
+ * Reads a stored conditional config: the legacy `{ showIf: [...] }` list, the
+ * flat `{ rules, logic }` shape, or the nested `{ rules, groups, logic }` shape.
+ * Invalid rules and empty groups are dropped.
+ */
 export function parseConditionalConfigValue(value: unknown): ConditionalConfig | null {
   const rawConfig = parseJsonRecord(value);
   if (!rawConfig) {
@@ -86,21 +98,8 @@ export function parseConditionalConfigValue(value: unknown): ConditionalConfig |
     };
   }
 
-  if (isConditionalConfigShape(rawConfig)) {
-    const rules = rawConfig.rules
-      .map(normalizeConditionalRule)
-      .filter((rule): rule is ConditionalRule => rule !== null);
-
-    if (!rules.length) {
-      return null;
-    }
-
-    const logic = rawConfig.logic === 'OR' ? 'OR' : 'AND';
-
-    return {
-      rules,
-      logic,
-    };
+  if (isConditionalGroupShape(rawConfig)) {
+    return parseConditionalGroup(rawConfig);
   }
 
   return null;
@@ -119,7 +118,7 @@ function convertLegacyCondition(condition: LegacyCondition): ConditionalRule | n
     return null;
   }
 
-  const conditionalValue = toConditionalValue(condition.value);
+  const conditionalValue = toConditionalValue(condition.operator, condition.value);
   if (conditionalValue === undefined) {
     return null;
   }
@@ -132,8 +131,29 @@ function convertLegacyCondition(condition: LegacyCondition): ConditionalRule | n
   };
 }
 
-function isConditionalConfigShape(value: JsonRecord): value is ConditionalConfigShape {
-  return Array.isArray(value.rules);
+function isConditionalGroupShape(value: JsonRecord): value is ConditionalGroupShape {
+  return Array.isArray(value.rules) || Array.isArray(value.groups);
+}
+
+function parseConditionalGroup(group: ConditionalGroupShape): ConditionalGroup | null {
+  const rules = (Array.isArray(group.rules) ? group.rules : [])
+    .map(normalizeConditionalRule)
+    .filter((rule): rule is ConditionalRule => rule !== null);
+
+  const groups = (Array.isArray(group.groups) ? group.groups : [])
+    .map((entry) => {
+      const record = parseJsonRecord(entry);
+      return record && isConditionalGroupShape(record) ? parseConditionalGroup(record) : null;
+    })
+    .filter((entry): entry is ConditionalGroup => entry !== null);
+
+  if (!rules.length && !groups.length) {
+    return null;
+  }
+
+  const logic = group.logic === 'OR' ? 'OR' : 'AND';
+
+  return groups.length ? { rules, logic, groups } : { rules, logic };
 }
 
 function normalizeConditionalRule(rule: unknown): ConditionalRule | null {
@@ -142,48 +162,105 @@ function normalizeConditionalRule(rule: unknown): ConditionalRule | null {
     return null;
   }
 
-  const { field, operator, action, value } = record;
+  const { field, operator, action, value, source, column, match } = record;
 
   if (typeof field !== 'string') {
     return null;
   }
 
-  if (!isValidOperator(operator) || !isValidAction(action)) {
+  // Rules used only as a predicate (e.g. validation `when`) may omit the action
+  const resolvedAction = action === undefined ? 'show' : action;
+  if (!isValidOperator(operator) || !isValidAction(resolvedAction)) {
     return null;
   }
 
-  const conditionalValue = toConditionalValue(value);
+  const conditionalValue = toConditionalValue(operator, value);
   if (conditionalValue === undefined) {
     return null;
   }
 
-  return {
+  const normalized: ConditionalRule = {
     field,
     operator,
     value: conditionalValue,
-    action,
+    action: resolvedAction,
   };
+
+  if (source !== undefined && !isValidSource(source)) {
+    return null;
+  }
+  if (source && source !== 'response') {
+    normalized.source = source;
+  }
+
+  if (normalized.source === 'repeat_group' && typeof column === 'string' && column.trim()) {
+    normalized.column = column.trim();
+    if (match === 'all') {
+      normalized.match = 'all';
+    }
+  }
+
+  return normalized;
 }
 
 function isValidOperator(value: unknown): value is ConditionalRule['operator'] {
   return typeof value === 'string' && (allowedOperators as string[]).includes(value);
 }
 
+function isValidSource(value: unknown): value is ConditionalSource {
+  return typeof value === 'string' && (allowedSources as string[]).includes(value);
+}
+
 function isValidAction(value: unknown): value is ConditionalRule['action'] {
   return typeof value === 'string' && (allowedActions as string[]).includes(value);
 }
 
-function toConditionalValue(value: unknown): ConditionalRule['value'] | undefined {
-  if (
-    typeof value === 'string' ||
-    typeof value === 'number' ||
-    typeof value === 'boolean' ||
-    value === null
-  ) {
-    return value;
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  if ((typeof value !== 'number' && typeof value !== 'string') || value === '') {
+    return null;
   }
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
 
-  return undefined;
+function toConditionalValue(
+  operator: ConditionalRule['operator'],
+  value: unknown
+): ConditionalRule['value'] | undefined {
+  switch (operator) {
+    case 'in':
+    case 'not_in':
+      return Array.isArray(value) && value.every(isPrimitive) ? value : undefined;
+
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2) {
+        return undefined;
+      }
+      const [min, max] = value.map(toFiniteNumber);
+      return min !== null && max !== null && min <= max ? [min, max] : undefined;
+    }
+
+    case 'matches':
+      if (typeof value !== 'string') {
+        return undefined;
+      }
+      try {
+        new RegExp(value);
+        return value;
+      } catch {
+        return undefined;
+      }
+
+    case 'count_greater_than':
+      return toFiniteNumber(value) ?? undefined;
+
+    default:
+      return isPrimitive(value) || value === null ? value : undefined;
+  }
 }
 
 function parseRepeatableColumn(value: unknown): RepeatableFieldConfig | null {
@@ -0,0 +1,47 @@
+import { FieldType } from './types';
+import { excelNumberFormat, formatNumericValue, getNumberFormat, parseNumericInput } from './number-format';
+
+describe('number-format', () => {
+  it('parses formatted input without rounding', () => {
+    expect(parseNumericInput('$1,250.505')).toBe(1250.505);
+    expect(parseNumericInput('12.5%')).toBe(12.5);
+    expect(parseNumericInput(' -3 ')).toBe(-3);
+    expect(parseNumericInput('')).toBeNull();
+    expect(parseNumericInput('n/a')).toBeNull();
+    expect(parseNumericInput(Number.NaN)).toBeNull();
+  });
+
+  it("parses with the locale's group and decimal separators", () => {
+    expect(parseNumericInput('1.250,50', 'de-DE')).toBe(1250.5);
+    expect(parseNumericInput('1.250,50 €', 'de-DE')).toBe(1250.5);
+    expect(parseNumericInput('1\u202f250,5', 'fr-FR')).toBe(1250.5);
+    expect(parseNumericInput('1,250.50', 'en-US')).toBe(1250.5);
+  });
+
+  it('rejects exponents and stray characters instead of stripping them', () => {
+    expect(parseNumericInput('1e5')).toBeNull();
+    expect(parseNumericInput('12abc34')).toBeNull();
+    expect(parseNumericInput('1,5.0,0', 'de-DE')).toBeNull();
+    expect(parseNumericInput('5%%')).toBeNull();
+  });
+
+  it('formats currency, percentages and decimals for a locale', () => {
+    expect(formatNumericValue(FieldType.CURRENCY, 1250.5)).toBe('$1,250.50');
+    expect(formatNumericValue(FieldType.CURRENCY, 1250.5, { currency: 'EUR' }, 'de-DE')).toBe('1.250,50 €');
+    expect(formatNumericValue(FieldType.PERCENTAGE, 12.5, { decimals: 1 })).toBe('12.5%');
+    expect(formatNumericValue(FieldType.DECIMAL, '3.14159', { decimals: 3 })).toBe('3.142');
+    expect(formatNumericValue(FieldType.DECIMAL, 'unknown')).toBe('unknown');
+  });
+
+  it('reads only well-formed format settings', () => {
+    expect(getNumberFormat({ rules: [], format: { currency: 'GBP', decimals: 1 } })).toEqual({ currency: 'GBP', decimals: 1 });
+    expect(getNumberFormat(JSON.stringify({ format: { currency: 'pounds', decimals: -1 } }))).toEqual({});
+    expect(getNumberFormat(null)).toEqual({});
+  });
+
+  it('builds matching Excel number formats', () => {
+    expect(excelNumberFormat(FieldType.CURRENCY, { currency: 'EUR' })).toBe('"€"#,##0.00');
+    expect(excelNumberFormat(FieldType.PERCENTAGE, { decimals: 1 })).toBe('0.0%');
+    expect(excelNumberFormat(FieldType.DECIMAL, { decimals: 0 })).toBe('#,##0');
+  });
+});
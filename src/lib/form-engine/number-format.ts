@@ -0,0 +1,160 @@
+import { FieldType } from '@prisma/client';
+import { NumberFormatConfig } from './types';
+import { isJsonRecord } from './json-utils';
+
+export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_LOCALE = 'en-US';
+
+/** Currencies offered in the builder; any ISO 4217 code stored in JSON still formats */
+export const CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF'];
+
+/** Loose phone check: optional leading +, then digits with common separators */
+export const PHONE_PATTERN = '^\\+?[0-9 ().-]{7,20}$';
+
+const numericTypes = new Set<FieldType>([FieldType.DECIMAL, FieldType.CURRENCY, FieldType.PERCENTAGE]);
+
+/** Typed numeric fields that carry a number format (integers and scores do not) */
+export function isFormattedNumberType(type: FieldType): boolean {
+  return numericTypes.has(type);
+}
+
+/**
+ * Number format stored alongside validation rules. Decimals default to 2 for
+ * decimals and currency (0 for yen-style currencies via Intl) and 0 for percentages.
+ */
+export function getNumberFormat(validationJson: unknown): NumberFormatConfig {
+  let raw: unknown = validationJson;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!isJsonRecord(raw) || !isJsonRecord(raw.format)) {
+    return {};
+  }
+
+  const format: NumberFormatConfig = {};
+  if (typeof raw.format.currency === 'string' && /^[A-Z]{3}$/.test(raw.format.currency)) {
+    format.currency = raw.format.currency;
+  }
+  const decimals = raw.format.decimals;
+  if (typeof decimals === 'number' && Number.isInteger(decimals) && decimals >= 0 && decimals <= 6) {
+    format.decimals = decimals;
+  }
+  return format;
+}
+
+const separatorCache = new Map<string, { group: string; decimal: string; minus: string }>();
+
+function numberSeparators(locale: string) {
+  let separators = separatorCache.get(locale);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6);
+    const part = (type: Intl.NumberFormatPartTypes, fallback: string) =>
+      parts.find((entry) => entry.type === type)?.value ?? fallback;
+    separators = { group: part('group', ','), decimal: part('decimal', '.'), minus: part('minusSign', '-') };
+    separatorCache.set(locale, separators);
+  }
+  return separators;
+}
+
+/**
+ * Reads a number from user input or a bound column, using the group and decimal
+ * separators of `locale` (so `1.250,50` is 1250.5 in de-DE). Strips currency
+ * symbols, spaces, group separators and a trailing %; anything else, including
+ * exponents, is not a number. Never rounds.
+ */
+export function parseNumericInput(value: unknown, locale: string = DEFAULT_LOCALE): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const { group, decimal, minus } = numberSeparators(locale);
+  let cleaned = value.replace(/[\p{Sc}\s]/gu, '');
+  if (cleaned.endsWith('%')) {
+    cleaned = cleaned.slice(0, -1);
+  }
+  // Space-like group separators (fr-FR, sv-SE) went with the whitespace above
+  cleaned = cleaned.split(group.trim() || ' ').join('').split(minus).join('-');
+  if (decimal !== '.') {
+    if (cleaned.includes('.')) {
+      return null;
+    }
+    cleaned = cleaned.replace(decimal, '.');
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function numberFormatOptions(type: FieldType, format: NumberFormatConfig): Intl.NumberFormatOptions {
+  switch (type) {
+    case FieldType.CURRENCY: {
+      const options: Intl.NumberFormatOptions = { style: 'currency', currency: format.currency ?? DEFAULT_CURRENCY };
+      if (format.decimals !== undefined) {
+        options.minimumFractionDigits = format.decimals;
+        options.maximumFractionDigits = format.decimals;
+      }
+      return options;
+    }
+    case FieldType.PERCENTAGE: {
+      const decimals = format.decimals ?? 0;
+      return { style: 'percent', minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+    }
+    default: {
+      const decimals = format.decimals ?? 2;
+      return { minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+    }
+  }
+}
+
+/**
+ * Display text for a typed numeric answer, e.g. `$1,250.00` or `12.5%`.
+ * Percentages are stored as entered (12.5 means 12.5%). Values that are not
+ * numbers come back unchanged as text.
+ */
+export function formatNumericValue(
+  type: FieldType,
+  value: unknown,
+  format: NumberFormatConfig = {},
+  locale: string = DEFAULT_LOCALE
+): string {
+  const number = parseNumericInput(value);
+  if (number === null) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+  const scaled = type === FieldType.PERCENTAGE ? number / 100 : number;
+  return new Intl.NumberFormat(locale, numberFormatOptions(type, format)).format(scaled);
+}
+
+/** The currency symbol shown beside a currency input, e.g. `$` or `€` */
+export function currencySymbol(currency: string = DEFAULT_CURRENCY, locale: string = DEFAULT_LOCALE): string {
+  const part = new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .formatToParts(0)
+    .find((entry) => entry.type === 'currency');
+  return part?.value ?? currency;
+}
+
+/**
+ * Excel number format for a typed numeric cell. Percent cells hold the
+ * fraction (0.125), matching Excel's own `%` formats.
+ */
+export function excelNumberFormat(type: FieldType, format: NumberFormatConfig = {}): string {
+  const options = numberFormatOptions(type, format);
+  const decimals = options.maximumFractionDigits ?? 2;
+  const fraction = decimals > 0 ? `.${'0'.repeat(decimals)}` : '';
+  switch (type) {
+    case FieldType.CURRENCY:
+      return `"${currencySymbol(format.currency)}"#,##0${fraction}`;
+    case FieldType.PERCENTAGE:
+      return `0${fraction}%`;
+    default:
+      return `#,##0${fraction}`;
+  }
+}
@@ -5,6 +5,7 @@ import {
   PrintableFormData,
   PrintableImpactValueMatrix,
   PrintableQuestionAnswer,
+  PrintableStageSummary,
 } from './types';
 
 const styles = StyleSheet.create({
@@ -114,6 +115,29 @@ const styles = StyleSheet.create({
     fontSize: 9,
     color: '#1f2937',
   },
+  comments: {
+    marginTop: 6,
+  },
+  commentThread: {
+    borderLeftWidth: 2,
+    borderLeftColor: '#cbd5e1',
+    borderLeftStyle: 'solid',
+    paddingLeft: 6,
+    marginTop: 4,
+  },
+  commentMeta: {
+    fontSize: 8,
+    color: '#64748b',
+    marginBottom: 2,
+  },
+  comment: {
+    fontSize: 9,
+    color: '#1f2937',
+  },
+  commentReply: {
+    marginLeft: 8,
+    color: '#475569',
+  },
   scoresContainer: {
     borderWidth: 1,
     borderColor: '#0ea5e9',
@@ -246,16 +270,28 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     flex: 1,
   },
-  matrixCell: {
+  matrixGridCell: {
     flex: 1,
+  },
+  matrixLegendRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
+  },
+  matrixLegendItem: {
+    flexDirection: 'row',
     alignItems: 'center',
-    borderRightWidth: 1,
-    borderRightColor: '#111827',
-    borderRightStyle: 'solid',
-    borderBottomWidth: 1,
-    borderBottomColor: '#111827',
-    borderBottomStyle: 'solid',
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  matrixLegendSwatch: {
+    width: 10,
+    height: 10,
+    marginRight: 4,
+    borderWidth: 1,
+    borderColor: '#94a3b8',
+    borderStyle: 'solid',
   },
   matrixCellText: {
     fontSize: 9,
@@ -324,6 +360,36 @@ const styles = StyleSheet.create({
     fontWeight: 600,
     color: '#92400e',
   },
+  stageSummary: {
+    borderWidth: 1,
+    borderColor: '#cbd5e1',
+    borderStyle: 'solid',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 18,
+  },
+  stageSummaryScores: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  stageSummaryScore: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginRight: 8,
+    backgroundColor: '#f8fafc',
+    borderRadius: 6,
+  },
+  stageSummaryScoreValue: {
+    fontSize: 16,
+    fontWeight: 700,
+    color: '#0f172a',
+  },
+  stageSummaryHighlight: {
+    marginTop: 6,
+  },
   notesBlock: {
     marginTop: 6,
   },
@@ -374,9 +440,76 @@ function renderQuestion(question: PrintableQuestionAnswer, questionNumber: numbe
             ))}
           </View>
         ))
+      ) : question.answerItems ? (
+        question.answerItems.map((item, itemIndex) => (
+          <Text key={`${question.fieldCode}-item-${itemIndex}`} style={styles.answer}>
+            • {item}
+          </Text>
+        ))
       ) : (
         <Text style={styles.answer}>{question.answerText || '—'}</Text>
       )}
+      {question.commentThreads && question.commentThreads.length > 0 && (
+        <View style={styles.comments}>
+          <Text style={styles.answerLabel}>Comments</Text>
+          {question.commentThreads.map((thread, threadIndex) => (
+            <View key={`${question.fieldCode}-thread-${threadIndex}`} style={styles.commentThread} wrap={false}>
+              {(thread.row !== null || thread.resolved) && (
+                <Text style={styles.commentMeta}>
+                  {[thread.row !== null ? `Row ${thread.row}` : null, thread.resolved ? 'Resolved' : null]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Text>
+              )}
+              {thread.comments.map((comment, commentIndex) => (
+                <Text
+                  key={`${question.fieldCode}-thread-${threadIndex}-${commentIndex}`}
+                  style={commentIndex === 0 ? styles.comment : [styles.comment, styles.commentReply]}
+                >
+                  {comment.author} ({formatIsoDate(comment.createdAt)}): {comment.text}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function renderStageSummary(summary?: PrintableStageSummary) {
+  if (!summary) return null;
+
+  return (
+    <View style={styles.stageSummary} wrap>
+      <Text style={styles.sectionTitle}>{summary.title}</Text>
+      <View style={styles.stageSummaryScores}>
+        {summary.scores.map((score) => (
+          <View key={score.key} style={styles.stageSummaryScore}>
+            <Text style={styles.stageSummaryScoreValue}>{score.value}</Text>
+            <Text style={styles.matrixSummaryValueLabel}>{score.label}</Text>
+          </View>
+        ))}
+        <View
+          style={[
+            styles.recommendationPill,
+            {
+              backgroundColor: summary.recommendationStyle.background,
+              borderColor: summary.recommendationStyle.border,
+            },
+          ]}
+        >
+          <Text style={[styles.recommendationText, { color: summary.recommendationStyle.text }]}>
+            {summary.recommendation}
+          </Text>
+        </View>
+      </View>
+      {summary.highlights.map((highlight) => (
+        <View key={highlight.label} style={styles.stageSummaryHighlight} wrap>
+          <Text style={styles.answerLabel}>{highlight.label}</Text>
+          <Text style={styles.answer}>{highlight.text}</Text>
+        </View>
+      ))}
     </View>
   );
 }
@@ -427,7 +560,7 @@ function renderScoringMatrix(matrix?: PrintableFormData['scoringMatrix'], breakB
               }}
             >
               <View style={[styles.scoringMatrixLabelCell, { flexDirection: 'row', alignItems: 'center' }]}>
-                <View style={section.key === 'IMPACT' ? styles.iconImpact : styles.iconValue} />
+                <View style={index % 2 === 0 ? styles.iconImpact : styles.iconValue} />
                 <Text style={[styles.scoringMatrixHeaderText, { color: section.headerTextColor }]}>{section.title}</Text>
               </View>
               <View style={styles.scoringMatrixScoreCell} />
@@ -435,38 +568,18 @@ function renderScoringMatrix(matrix?: PrintableFormData['scoringMatrix'], breakB
               <View style={styles.scoringMatrixTotalCell} />
             </View>
 
-            {section.rows.map((row, rowIndex) => (
-              <View
-                key={`${section.key}-${rowIndex}-${row.label}`}
-                style={[styles.scoringMatrixRow, { backgroundColor: section.rowBackground }]}
-              >
-                <View style={[styles.scoringMatrixCell, styles.scoringMatrixLabelCell]}>
-                  <Text style={{ fontWeight: 500 }}>{row.label}</Text>
-                </View>
-                <View style={[styles.scoringMatrixCell, styles.scoringMatrixScoreCell]}>
-                  <Text>{row.score ?? '—'}</Text>
-                </View>
-                <View style={[styles.scoringMatrixCell, styles.scoringMatrixWeightCell]}>
-                  <Text>{row.weight ?? '—'}</Text>
-                </View>
-                <View style={[styles.scoringMatrixCell, styles.scoringMatrixTotalCell]}>
-                  <Text>{row.total ?? ''}</Text>
-                </View>
-              </View>
-            ))}
-
-            {index === 1 && matrix.marketSubCriteria.length > 0 ? (
-              matrix.marketSubCriteria.map((subRow, subIndex) => (
+            {section.rows.map((row, rowIndex) =>
+              row.type === 'subcriterion' ? (
                 <View
-                  key={`market-${subIndex}-${subRow.label}`}
+                  key={`${section.key}-${rowIndex}-${row.label}`}
                   style={[styles.scoringMatrixRow, { backgroundColor: '#f8fafc' }]}
                 >
                   <View style={[styles.scoringMatrixCell, styles.scoringMatrixLabelCell]}>
                     <View style={styles.bulletDot} />
-                    <Text style={{ color: '#475569' }}>{subRow.label}</Text>
+                    <Text style={{ color: '#475569' }}>{row.label}</Text>
                   </View>
                   <View style={[styles.scoringMatrixCell, styles.scoringMatrixScoreCell]}>
-                    <Text style={{ color: '#475569' }}>{subRow.score ?? '—'}</Text>
+                    <Text style={{ color: '#475569' }}>{row.score ?? '—'}</Text>
                   </View>
                   <View style={[styles.scoringMatrixCell, styles.scoringMatrixWeightCell]}>
                     <Text style={{ color: '#94a3b8' }}>—</Text>
@@ -475,14 +588,32 @@ function renderScoringMatrix(matrix?: PrintableFormData['scoringMatrix'], breakB
                     <Text style={{ color: '#94a3b8' }}>—</Text>
                   </View>
                 </View>
-              ))
-            ) : null}
+              ) : (
+                <View
+                  key={`${section.key}-${rowIndex}-${row.label}`}
+                  style={[styles.scoringMatrixRow, { backgroundColor: section.rowBackground }]}
+                >
+                  <View style={[styles.scoringMatrixCell, styles.scoringMatrixLabelCell]}>
+                    <Text style={{ fontWeight: 500 }}>{row.label}</Text>
+                  </View>
+                  <View style={[styles.scoringMatrixCell, styles.scoringMatrixScoreCell]}>
+                    <Text>{row.score ?? '—'}</Text>
+                  </View>
+                  <View style={[styles.scoringMatrixCell, styles.scoringMatrixWeightCell]}>
+                    <Text>{row.weight ?? '—'}</Text>
+                  </View>
+                  <View style={[styles.scoringMatrixCell, styles.scoringMatrixTotalCell]}>
+                    <Text>{row.total ?? ''}</Text>
+                  </View>
+                </View>
+              )
+            )}
 
             <View
               style={[
                 styles.scoringMatrixRow,
                 {
-                  backgroundColor: section.key === 'IMPACT' ? '#bfdbfe' : '#bbf7d0',
+                  backgroundColor: section.summaryBackground,
                 },
               ]}
             >
@@ -516,28 +647,24 @@ function renderImpactValueMatrix(matrix?: PrintableImpactValueMatrix) {
   const dotLeft = matrix.dotPosition.x * chartSize - dotSize / 2;
   const dotBottom = matrix.dotPosition.y * chartHeight - dotSize / 2;
 
-  const recommendationStyles = getRecommendationStyles(matrix.recommendation);
+  const recommendationStyles = {
+    pill: { backgroundColor: matrix.recommendationStyle.background, borderColor: matrix.recommendationStyle.border },
+    text: { color: matrix.recommendationStyle.text },
+  };
 
   return (
     <View style={styles.matrixSection} wrap>
-      <Text style={styles.matrixTitle}>Impact vs Value Matrix</Text>
+      <Text style={styles.matrixTitle}>
+        {matrix.xLabel} vs {matrix.yLabel} Matrix
+      </Text>
       <View style={styles.matrixChart}>
-        <View style={styles.matrixRow}>
-          <View style={[styles.matrixCell, { backgroundColor: '#e2e8f0' }]}> 
-            <Text style={styles.matrixCellText}>N/A</Text>
-          </View>
-          <View style={[styles.matrixCell, { backgroundColor: '#dbeafe' }]}> 
-            <Text style={styles.matrixCellText}>Proceed</Text>
-          </View>
-        </View>
-        <View style={styles.matrixRow}>
-          <View style={[styles.matrixCell, { backgroundColor: '#fee2e2' }]}> 
-            <Text style={styles.matrixCellText}>Close</Text>
-          </View>
-          <View style={[styles.matrixCell, { backgroundColor: '#fef9c3' }]}> 
-            <Text style={styles.matrixCellText}>Alternative Pathway</Text>
+        {matrix.grid.map((row, rowIndex) => (
+          <View key={`grid-${rowIndex}`} style={styles.matrixRow}>
+            {row.map((background, cellIndex) => (
+              <View key={`grid-${rowIndex}-${cellIndex}`} style={[styles.matrixGridCell, { backgroundColor: background }]} />
+            ))}
           </View>
-        </View>
+        ))}
         <View
           style={[
             styles.matrixDot,
@@ -549,17 +676,26 @@ function renderImpactValueMatrix(matrix?: PrintableImpactValueMatrix) {
         />
       </View>
       <View style={styles.matrixAxes}>
-        <Text style={styles.matrixAxisLabel}>VALUE</Text>
-        <Text style={styles.matrixAxisLabel}>IMPACT</Text>
+        <Text style={styles.matrixAxisLabel}>{matrix.yLabel.toUpperCase()}</Text>
+        <Text style={styles.matrixAxisLabel}>{matrix.xLabel.toUpperCase()}</Text>
+      </View>
+      <View style={styles.matrixLegendRow}>
+        {matrix.bands.map((band) => (
+          <View key={band.label} style={styles.matrixLegendItem}>
+            <View style={[styles.matrixLegendSwatch, { backgroundColor: band.background }]} />
+            <Text style={styles.matrixCellText}>{band.label}</Text>
+          </View>
+        ))}
+        <Text style={styles.matrixCellText}>{matrix.ruleSetLabel}</Text>
       </View>
       <View style={styles.matrixSummaryRow}>
         <View style={styles.matrixSummaryItem}>
-          <Text style={styles.matrixSummaryValueImpact}>{matrix.impactScore.toFixed(2)}</Text>
-          <Text style={styles.matrixSummaryValueLabel}>Impact Score</Text>
+          <Text style={styles.matrixSummaryValueImpact}>{matrix.xScore.toFixed(2)}</Text>
+          <Text style={styles.matrixSummaryValueLabel}>{matrix.xLabel} Score</Text>
         </View>
         <View style={styles.matrixSummaryItem}>
-          <Text style={styles.matrixSummaryValueValue}>{matrix.valueScore.toFixed(2)}</Text>
-          <Text style={styles.matrixSummaryValueLabel}>Value Score</Text>
+          <Text style={styles.matrixSummaryValueValue}>{matrix.yScore.toFixed(2)}</Text>
+          <Text style={styles.matrixSummaryValueLabel}>{matrix.yLabel} Score</Text>
         </View>
         <View style={[styles.recommendationPill, recommendationStyles.pill]}>
           <Text style={[styles.recommendationText, recommendationStyles.text]}>
@@ -571,31 +707,6 @@ function renderImpactValueMatrix(matrix?: PrintableImpactValueMatrix) {
   );
 }
 
-function getRecommendationStyles(recommendation: string) {
-  switch (recommendation) {
-    case 'Proceed':
-      return {
-        pill: { backgroundColor: '#dcfce7', borderColor: '#22c55e' },
-        text: { color: '#166534' },
-      };
-    case 'Consider Alternative Pathway':
-      return {
-        pill: { backgroundColor: '#fef3c7', borderColor: '#f59e0b' },
-        text: { color: '#92400e' },
-      };
-    case 'Close':
-      return {
-        pill: { backgroundColor: '#fee2e2', borderColor: '#f87171' },
-        text: { color: '#991b1b' },
-      };
-    default:
-      return {
-        pill: { backgroundColor: '#e5e7eb', borderColor: '#9ca3af' },
-        text: { color: '#111827' },
-      };
-  }
-}
-
 export function FormPdfDocument({ data }: FormPdfDocumentProps) {
   const { metadata, sections } = data;
   let questionCounter = 1;
@@ -651,8 +762,16 @@ export function FormPdfDocument({ data }: FormPdfDocumentProps) {
           ) : null}
         </View>
 
-        {sections.map((section) => (
-          <View key={section.id} style={styles.section} wrap>
+        {renderStageSummary(data.stageSummary)}
+
+        {sections.map((section, index) => (
+          <View
+            key={section.id}
+            style={styles.section}
+            wrap
+            // The viability layout keeps its summary on the first page
+            break={(data.layout === 'viability' && index === 0) || undefined}
+          >
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>{section.title}</Text>
               {section.description ? (
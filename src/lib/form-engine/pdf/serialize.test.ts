@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { DataSource, FieldType, QuestionDictionary } from '@prisma/client';
+import { buildQuestion, buildSection, buildTemplate } from '../test-utils';
+import { buildPrintableForm, resolvePrintableLayout } from './serialize';
+
+function dictionary(key: string, label: string, bindingPath: string): QuestionDictionary {
+  return {
+    id: `dict-${key}`,
+    version: '1.0.0',
+    key,
+    currentVersion: 1,
+    currentRevisionId: null,
+    label,
+    helpText: null,
+    options: null,
+    validation: null,
+    bindingPath,
+    dataSource: DataSource.STAGE_SUPPLEMENT,
+    createdAt: new Date('2025-11-01T00:00:00Z'),
+    updatedAt: new Date('2025-11-01T00:00:00Z'),
+  };
+}
+
+const scored = (fieldCode: string) =>
+  buildQuestion({
+    fieldCode,
+    type: FieldType.SCORING_0_3,
+    scoringConfig: { id: `sc-${fieldCode}`, questionId: 'q', minScore: 0, maxScore: 3, weight: 1, criteria: {} },
+  });
+
+const viabilityTemplate = buildTemplate({
+  name: 'Viability',
+  scoringModel: {
+    version: 1,
+    minScore: 0,
+    maxScore: 3,
+    groups: [
+      { key: 'technical', label: 'Technical', criteria: [{ fieldCode: 'V1.2' }] },
+      { key: 'commercial', label: 'Commercial', criteria: [{ fieldCode: 'V3.2' }] },
+    ],
+    matrix: { x: 'technical', y: 'commercial' },
+  },
+  sections: [
+    buildSection({
+      questions: [
+        buildQuestion({
+          fieldCode: 'V1.1',
+          type: FieldType.LONG_TEXT,
+          dictionaryKey: 'viability.technicalFeasibility',
+          dictionary: dictionary(
+            'viability.technicalFeasibility',
+            'Technical Feasibility',
+            'viabilityStage.technicalFeasibility'
+          ),
+        }),
+        scored('V1.2'),
+        scored('V3.2'),
+      ],
+    }),
+  ],
+});
+
+describe('buildPrintableForm layouts', () => {
+  it('uses the standard layout for templates without viability bindings', () => {
+    const template = buildTemplate();
+
+    expect(resolvePrintableLayout(template)).toBe('standard');
+    expect(buildPrintableForm({ template }).stageSummary).toBeUndefined();
+  });
+
+  it('adds a viability summary with stage scores, recommendation and bound narratives', () => {
+    const printable = buildPrintableForm({
+      template: viabilityTemplate,
+      responses: { 'V1.1': 'Prototype validated in bench tests', 'V1.2': 3, 'V3.2': 2 },
+      recommendationRuleSet: null,
+    });
+
+    expect(printable.layout).toBe('viability');
+    expect(printable.stageSummary).toEqual({
+      title: 'Viability Summary',
+      scores: [
+        { key: 'technical', label: 'Technical Score', value: '3.00' },
+        { key: 'commercial', label: 'Commercial Score', value: '2.00' },
+      ],
+      recommendation: 'Proceed',
+      recommendationStyle: expect.any(Object),
+      highlights: [{ label: 'Technical Feasibility', text: 'Prototype validated in bench tests' }],
+    });
+  });
+});
+
+describe('buildPrintableForm answers', () => {
+  it('lists multi-select picks by label in option order', () => {
+    const template = buildTemplate({
+      sections: [
+        buildSection({
+          questions: [
+            buildQuestion({
+              fieldCode: 'areas',
+              type: FieldType.MULTI_SELECT,
+              options: [
+                { id: 'o2', questionId: 'q', value: 'onc', label: 'Oncology, adult', order: 2 },
+                { id: 'o1', questionId: 'q', value: 'card', label: 'Cardiology', order: 1 },
+              ],
+            }),
+          ],
+        }),
+      ],
+    });
+
+    const printable = buildPrintableForm({ template, responses: { areas: ['onc', 'legacy', 'card'] } });
+    const answer = printable.sections[0].questions[0];
+
+    expect(answer.answerItems).toEqual(['Cardiology', 'Oncology, adult', 'legacy']);
+    expect(answer.answerText).toBe('Cardiology, Oncology, adult, legacy');
+  });
+
+  it('prints comment threads under their questions only when they are passed in', () => {
+    const template = buildTemplate({
+      sections: [buildSection({ questions: [buildQuestion({ fieldCode: 'F1' }), buildQuestion({ fieldCode: 'F2' })] })],
+    });
+    const thread = {
+      questionCode: 'F2',
+      row: null,
+      resolved: false,
+      comments: [{ author: 'Riley', createdAt: '2025-11-15T10:00:00.000Z', text: 'Source? @Sam' }],
+    };
+
+    const withComments = buildPrintableForm({ template, responses: { F1: 'a', F2: 'b' }, commentThreads: [thread] });
+    expect(withComments.sections[0].questions.map((question) => question.commentThreads)).toEqual([undefined, [thread]]);
+
+    const withoutComments = buildPrintableForm({ template, responses: { F1: 'a', F2: 'b' } });
+    expect(withoutComments.sections[0].questions.every((question) => !question.commentThreads)).toBe(true);
+  });
+});
@@ -5,30 +5,47 @@ import {
   RepeatableGroupData,
   FormQuestionWithDetails,
   FormSectionWithQuestions,
+  CalculatedScores,
 } from '../types';
+import { formatNumericValue, getNumberFormat } from '../number-format';
 import {
+  PrintableCommentThread,
   PrintableFormData,
   PrintableImpactValueMatrix,
+  PrintableLayout,
   PrintableQuestionAnswer,
   PrintableRepeatGroupRow,
   PrintableScoreRow,
   PrintableScoreSection,
   PrintableScoringMatrix,
   PrintableSection,
+  PrintableStageSummary,
 } from './types';
 import { parseConditionalConfig } from '../conditional-logic';
 import { shouldShowField } from '../conditional-logic';
 import { parseValidationMetadata, isInfoBoxMetadata, parseRepeatableGroupConfig } from '../json-utils';
 import {
-  extractScoringInputs,
-  calculateAllScores,
-} from '@/lib/scoring/calculations';
+  calculateTemplateScores,
+  formatCriterionWeight,
+  toCalculatedScores,
+  ScoredGroup,
+  ScoringResult,
+} from '@/lib/scoring/model';
+import {
+  RECOMMENDATION_COLOR_STYLES,
+  RecommendationRuleSetRecord,
+  buildRecommendationGrid,
+  describeRecommendationRuleSet,
+  findRecommendationBand,
+} from '@/lib/scoring/recommendations';
 
 export interface BuildPrintableFormParams {
   template: FormTemplateWithSections;
   responses?: FormResponse;
   repeatGroups?: RepeatableGroupData;
   calculatedScores?: Record<string, unknown> | null;
+  /** Pinned rule set (null = built-in defaults); omit to use the template's active version */
+  recommendationRuleSet?: RecommendationRuleSetRecord | null;
   status?: SubmissionStatus | 'BLANK' | 'IN_PROGRESS';
   submissionId?: string;
   submittedAt?: string | null;
@@ -36,6 +53,8 @@ export interface BuildPrintableFormParams {
   techId?: string | null;
   notes?: string | null;
   exportedAt?: Date;
+  /** Printed under the questions they belong to; omit to leave comments out */
+  commentThreads?: PrintableCommentThread[];
 }
 
 export function buildPrintableForm({
@@ -43,6 +62,7 @@ export function buildPrintableForm({
   responses = {},
   repeatGroups = {},
   calculatedScores,
+  recommendationRuleSet,
   status = 'IN_PROGRESS',
   submissionId,
   submittedAt,
@@ -50,19 +70,27 @@ export function buildPrintableForm({
   techId,
   notes,
   exportedAt = new Date(),
+  commentThreads,
 }: BuildPrintableFormParams): PrintableFormData {
+  const scoringResult = calculateTemplateScores(template, responses, recommendationRuleSet);
+  // Conditions may reference scores, so evaluate them against the scores computed here
+  const liveScores = toCalculatedScores(scoringResult);
+
   const sections = template.sections
     .slice()
     .sort((a, b) => a.order - b.order)
-    .map((section) => buildPrintableSection(section, responses, repeatGroups))
-    .filter((section) => section.questions.length > 0);
+    .map((section) => buildPrintableSection(section, responses, repeatGroups, liveScores))
+    .filter((section) => section.questions.length > 0)
+    .map((section) => (commentThreads ? attachCommentThreads(section, commentThreads) : section));
 
   const numericScores = normalizeScores(calculatedScores);
 
-  const scoringMatrix = buildScoringMatrix(responses);
-  const impactValueMatrix = buildImpactValueMatrix(responses);
+  const scoringMatrix = buildScoringMatrix(scoringResult);
+  const impactValueMatrix = buildImpactValueMatrix(scoringResult);
+  const layout = resolvePrintableLayout(template);
 
   return {
+    layout,
     metadata: {
       templateName: template.name,
       templateVersion: template.version,
@@ -77,20 +105,68 @@ export function buildPrintableForm({
     },
     sections,
     calculatedScores: numericScores ?? undefined,
+    stageSummary:
+      layout === 'viability' ? buildViabilitySummary(template, responses, scoringResult) : undefined,
     scoringMatrix,
     impactValueMatrix,
   };
 }
 
+/**
+ * Templates whose questions bind to viabilityStage.* print with the viability layout.
+ */
+export function resolvePrintableLayout(template: FormTemplateWithSections): PrintableLayout {
+  const bindsViability = template.sections.some((section) =>
+    section.questions.some((question) => question.dictionary?.bindingPath.startsWith('viabilityStage.'))
+  );
+  return bindsViability ? 'viability' : 'standard';
+}
+
+function buildViabilitySummary(
+  template: FormTemplateWithSections,
+  responses: FormResponse,
+  result: ScoringResult
+): PrintableStageSummary {
+  const { maxScore } = result.model;
+  const highlights = template.sections
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .flatMap((section) => section.questions.slice().sort((a, b) => a.order - b.order))
+    .filter(
+      (question) =>
+        question.dictionary?.bindingPath.startsWith('viabilityStage.') &&
+        question.type !== FieldType.SCORING_0_3
+    )
+    .map((question) => ({
+      label: question.dictionary?.label ?? question.label,
+      text: formatAnswer(question, responses[question.fieldCode]) || '—',
+    }));
+
+  return {
+    title: 'Viability Summary',
+    scores: result.groups
+      .filter((group) => group.role !== 'subgroup')
+      .map((group) => ({
+        key: group.key,
+        label: `${group.label} Score`,
+        value: clampScore(group.value, maxScore).toFixed(2),
+      })),
+    recommendation: result.recommendation || 'Not scored',
+    recommendationStyle: RECOMMENDATION_COLOR_STYLES[result.recommendationBand?.color ?? 'gray'].pdf,
+    highlights,
+  };
+}
+
 function buildPrintableSection(
   section: FormSectionWithQuestions,
   responses: FormResponse,
-  repeatGroups: RepeatableGroupData
+  repeatGroups: RepeatableGroupData,
+  calculatedScores: CalculatedScores
 ): PrintableSection {
   const questions = section.questions
     .slice()
     .sort((a, b) => a.order - b.order)
-    .map((question) => buildPrintableQuestion(question, responses, repeatGroups))
+    .map((question) => buildPrintableQuestion(question, responses, repeatGroups, calculatedScores))
     .filter((question): question is PrintableQuestionAnswer => question !== null);
 
   return {
@@ -101,13 +177,24 @@ function buildPrintableSection(
   };
 }
 
+function attachCommentThreads(section: PrintableSection, threads: PrintableCommentThread[]): PrintableSection {
+  return {
+    ...section,
+    questions: section.questions.map((question) => {
+      const questionThreads = threads.filter((thread) => thread.questionCode === question.fieldCode);
+      return questionThreads.length > 0 ? { ...question, commentThreads: questionThreads } : question;
+    }),
+  };
+}
+
 function buildPrintableQuestion(
   question: FormQuestionWithDetails,
   responses: FormResponse,
-  repeatGroups: RepeatableGroupData
+  repeatGroups: RepeatableGroupData,
+  calculatedScores: CalculatedScores
 ): PrintableQuestionAnswer | null {
   const conditional = parseConditionalConfig(question.conditional);
-  const isVisible = shouldShowField(conditional, responses);
+  const isVisible = shouldShowField(conditional, responses, { repeatGroups, calculatedScores });
 
   const validationMetadata = parseValidationMetadata(question.validation);
   if (isInfoBoxMetadata(validationMetadata)) {
@@ -116,6 +203,7 @@ function buildPrintableQuestion(
 
   let repeatGroupRows: PrintableRepeatGroupRow[] | undefined;
   let answerText: string | undefined;
+  let answerItems: string[] | undefined;
 
   if (question.type === FieldType.REPEATABLE_GROUP) {
     repeatGroupRows = buildRepeatGroupRows(question.fieldCode, repeatGroups);
@@ -123,6 +211,9 @@ function buildPrintableQuestion(
     repeatGroupRows = buildSelectorRows(question, repeatGroups);
   } else {
     answerText = formatAnswer(question, responses[question.fieldCode]);
+    if (multiChoiceTypes.has(question.type)) {
+      answerItems = selectionLabels(question, responses[question.fieldCode]);
+    }
   }
 
   const hasContent = repeatGroupRows
@@ -140,6 +231,7 @@ function buildPrintableQuestion(
     isRequired: question.isRequired,
     type: question.type,
     answerText: repeatGroupRows ? undefined : answerText || '—',
+    ...(answerItems && answerItems.length > 0 ? { answerItems } : {}),
     repeatGroupRows,
   };
 }
@@ -206,20 +298,16 @@ function formatAnswer(question: FormQuestionWithDetails, value: FormResponse[str
 
   switch (question.type) {
     case FieldType.MULTI_SELECT:
-    case FieldType.CHECKBOX_GROUP: {
-      const values = Array.isArray(value) ? value : [value];
-      const labels = values
-        .map((current) => resolveOptionLabel(question, current))
-        .filter((label): label is string => Boolean(label));
-      if (labels.length > 0) {
-        return labels.join(', ');
-      }
-      return values.map((item) => formatStructuredValue(item)).join(', ');
-    }
+    case FieldType.CHECKBOX_GROUP:
+      return selectionLabels(question, value).join(', ');
     case FieldType.SINGLE_SELECT: {
       const label = resolveOptionLabel(question, value);
       return label ?? formatStructuredValue(value);
     }
+    case FieldType.DECIMAL:
+    case FieldType.CURRENCY:
+    case FieldType.PERCENTAGE:
+      return formatNumericValue(question.type, value, getNumberFormat(question.validation));
     case FieldType.SCORING_MATRIX:
     case FieldType.SCORING_0_3:
       return formatStructuredValue(value);
@@ -228,6 +316,23 @@ function formatAnswer(question: FormQuestionWithDetails, value: FormResponse[str
   }
 }
 
+const multiChoiceTypes = new Set<FieldType>([FieldType.MULTI_SELECT, FieldType.CHECKBOX_GROUP]);
+
+/**
+ * Labels for a multi-choice answer in option order; values no longer among the
+ * options (e.g. removed after answering) follow as stored.
+ */
+function selectionLabels(question: FormQuestionWithDetails, value: FormResponse[string]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const selected = (Array.isArray(value) ? value : [value]).map((item) => formatStructuredValue(item));
+  const options = [...question.options].sort((a, b) => a.order - b.order);
+  const known = options.filter((option) => selected.includes(option.value)).map((option) => option.label);
+  const unknown = selected.filter((item) => item && !options.some((option) => option.value === item));
+  return [...known, ...unknown];
+}
+
 function resolveOptionLabel(question: FormQuestionWithDetails, value: unknown): string | undefined {
   if (value === undefined || value === null) {
     return undefined;
@@ -298,129 +403,112 @@ function normalizeScores(scores?: Record<string, unknown> | null): Record<string
   return entries.length > 0 ? Object.fromEntries(entries) : null;
 }
 
-function buildScoringMatrix(responses: FormResponse): PrintableScoringMatrix | undefined {
-  const inputs = extractScoringInputs(responses);
-  const calculated = calculateAllScores(inputs);
-
-  const formatScore = (value: number) => clampScore(value).toFixed(2);
-  const weight = '50%';
-  const weightMultiplier = 0.5;
-
-  const impactRows: PrintableScoreRow[] = [
-    {
-      type: 'criterion',
-      label: 'Mission Alignment',
-      score: formatScore(inputs.missionAlignmentScore),
-      weight,
-      total: (clampScore(inputs.missionAlignmentScore) * weightMultiplier).toFixed(2),
-      category: 'IMPACT',
-    },
-    {
-      type: 'criterion',
-      label: 'Unmet Need',
-      score: formatScore(inputs.unmetNeedScore),
-      weight,
-      total: (clampScore(inputs.unmetNeedScore) * weightMultiplier).toFixed(2),
-      category: 'IMPACT',
-    },
-  ];
-
-  const valueRows: PrintableScoreRow[] = [
-    {
-      type: 'criterion',
-      label: 'IP Strength and Protectability',
-      score: formatScore(inputs.ipStrengthScore),
-      weight,
-      total: (clampScore(inputs.ipStrengthScore) * weightMultiplier).toFixed(2),
-      category: 'VALUE',
-    },
-    {
-      type: 'criterion',
-      label: 'Market',
-      score: formatScore(calculated.marketScore),
-      weight,
-      total: (clampScore(calculated.marketScore) * weightMultiplier).toFixed(2),
-      category: 'VALUE',
-    },
-  ];
-
-  const marketSubCriteria: PrintableScoreRow[] = [
-    {
-      type: 'subcriterion',
-      label: 'Market Size – Revenue (TAM)',
-      score: formatScore(inputs.marketSizeScore),
-      icon: 'bullet',
-    },
-    {
-      type: 'subcriterion',
-      label: 'Patient Population or Procedural Volume',
-      score: formatScore(inputs.patientPopulationScore),
-      icon: 'bullet',
-    },
-    {
-      type: 'subcriterion',
-      label: '# of Direct/Indirect Competitors',
-      score: formatScore(inputs.competitorsScore),
-      icon: 'bullet',
-    },
-  ];
-
-  const impactSection: PrintableScoreSection = {
-    key: 'IMPACT',
-    title: 'IMPACT',
-    accentColor: '#dbeafe',
-    headerTextColor: '#1d4ed8',
-    rowBackground: '#eff6ff',
-    rows: impactRows,
-    summaryLabel: 'Impact Score',
-    summaryValue: formatScore(calculated.impactScore),
-  };
+const SECTION_PALETTE = [
+  { accentColor: '#dbeafe', headerTextColor: '#1d4ed8', rowBackground: '#eff6ff', summaryBackground: '#bfdbfe' },
+  { accentColor: '#dcfce7', headerTextColor: '#047857', rowBackground: '#ecfdf5', summaryBackground: '#bbf7d0' },
+  { accentColor: '#f3e8ff', headerTextColor: '#7e22ce', rowBackground: '#faf5ff', summaryBackground: '#e9d5ff' },
+  { accentColor: '#fef3c7', headerTextColor: '#b45309', rowBackground: '#fffbeb', summaryBackground: '#fde68a' },
+];
 
-  const valueSection: PrintableScoreSection = {
-    key: 'VALUE',
-    title: 'VALUE',
-    accentColor: '#dcfce7',
-    headerTextColor: '#047857',
-    rowBackground: '#ecfdf5',
-    rows: valueRows,
-    summaryLabel: 'Value Score',
-    summaryValue: formatScore(calculated.valueScore),
-  };
+function buildScoringMatrix(result: ScoringResult): PrintableScoringMatrix | undefined {
+  const sectionGroups = result.groups.filter((group) => group.role === 'section');
+  if (sectionGroups.length === 0) {
+    return undefined;
+  }
+
+  const { maxScore } = result.model;
+  const formatScore = (value: number) => clampScore(value, maxScore).toFixed(2);
+  const groupsByKey = new Map(result.groups.map((group) => [group.key, group]));
+
+  const buildRows = (group: ScoredGroup): PrintableScoreRow[] =>
+    group.criteria.flatMap((criterion) => {
+      const row: PrintableScoreRow = {
+        type: 'criterion',
+        label: criterion.label,
+        score: formatScore(criterion.score),
+        weight: formatCriterionWeight(group, criterion),
+        total: criterion.total === null ? undefined : criterion.total.toFixed(2),
+        category: group.key,
+      };
+
+      const subgroup = criterion.group ? groupsByKey.get(criterion.group) : undefined;
+      if (!subgroup || subgroup.role !== 'subgroup') {
+        return [row];
+      }
+
+      const subRows: PrintableScoreRow[] = subgroup.criteria.map((subCriterion) => ({
+        type: 'subcriterion',
+        label: subCriterion.label,
+        score: formatScore(subCriterion.score),
+        icon: 'bullet',
+      }));
+      return [row, ...subRows];
+    });
+
+  const sections: PrintableScoreSection[] = sectionGroups.map((group, index) => {
+    const palette = SECTION_PALETTE[index % SECTION_PALETTE.length];
+    return {
+      key: group.key,
+      title: group.label.toUpperCase(),
+      accentColor: palette.accentColor,
+      headerTextColor: palette.headerTextColor,
+      rowBackground: palette.rowBackground,
+      summaryBackground: palette.summaryBackground,
+      rows: buildRows(group),
+      summaryLabel: `${group.label} Score`,
+      summaryValue: formatScore(group.value),
+    };
+  });
 
   return {
-    sections: [impactSection, valueSection],
-    marketSubCriteria,
-    impactScore: formatScore(calculated.impactScore),
-    valueScore: formatScore(calculated.valueScore),
-    marketScore: formatScore(calculated.marketScore),
-    overallScore: formatScore(calculated.overallScore),
+    sections,
+    summaries: result.groups.map((group) => ({
+      key: group.key,
+      label: `${group.label} Score`,
+      value: formatScore(group.value),
+    })),
   };
 }
 
-function buildImpactValueMatrix(responses: FormResponse): PrintableImpactValueMatrix | undefined {
-  const inputs = extractScoringInputs(responses);
-  const calculated = calculateAllScores(inputs);
+function buildImpactValueMatrix(result: ScoringResult): PrintableImpactValueMatrix | undefined {
+  if (!result.matrix) {
+    return undefined;
+  }
 
-  const impactRatio = clampScore(calculated.impactScore) / 3;
-  const valueRatio = clampScore(calculated.valueScore) / 3;
+  const { x, y } = result.matrix;
+  const { maxScore } = result.model;
+  const rules = result.recommendationRules;
+  const xRatio = clampScore(x.value, maxScore) / maxScore;
+  const yRatio = clampScore(y.value, maxScore) / maxScore;
 
   return {
-    impactScore: calculated.impactScore,
-    valueScore: calculated.valueScore,
-    recommendation: calculated.recommendation,
-    recommendationText: calculated.recommendationText,
+    xLabel: x.label,
+    yLabel: y.label,
+    xScore: x.value,
+    yScore: y.value,
+    recommendation: result.recommendation,
+    recommendationText: result.recommendationText,
+    recommendationStyle: RECOMMENDATION_COLOR_STYLES[result.recommendationBand?.color ?? 'gray'].pdf,
+    bands: rules.bands.map((band) => ({
+      label: band.label,
+      background: RECOMMENDATION_COLOR_STYLES[band.color].pdf.background,
+    })),
+    grid: buildRecommendationGrid(rules).map((row) =>
+      row.map((key) => RECOMMENDATION_COLOR_STYLES[findRecommendationBand(rules, key)?.color ?? 'gray'].pdf.background)
+    ),
+    ruleSetLabel: describeRecommendationRuleSet(result.recommendationRuleSet),
     dotPosition: {
-      x: Number.isFinite(impactRatio) ? Math.min(Math.max(impactRatio, 0), 1) : 0,
-      y: Number.isFinite(valueRatio) ? Math.min(Math.max(valueRatio, 0), 1) : 0,
+      x: Number.isFinite(xRatio) ? Math.min(Math.max(xRatio, 0), 1) : 0,
+      y: Number.isFinite(yRatio) ? Math.min(Math.max(yRatio, 0), 1) : 0,
     },
   };
 }
 
-function clampScore(value: number | undefined): number {
+function clampScore(value: number | undefined, maxScore: number): number {
   if (typeof value !== 'number' || Number.isNaN(value)) {
     return 0;
   }
   if (value < 0) return 0;
-  if (value > 3) return 3;
+  if (value > maxScore) return maxScore;
   return value;
 }
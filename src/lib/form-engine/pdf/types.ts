@@ -23,6 +23,21 @@ export interface PrintableRepeatGroupRow {
   values: PrintableRepeatGroupRowValue[];
 }
 
+export interface PrintableComment {
+  author: string;
+  createdAt: string;
+  text: string;
+}
+
+export interface PrintableCommentThread {
+  questionCode: string;
+  /** Repeat-group row as printed (1-based); null = the whole question */
+  row: number | null;
+  resolved: boolean;
+  /** The opening comment followed by its replies */
+  comments: PrintableComment[];
+}
+
 export interface PrintableQuestionAnswer {
   fieldCode: string;
   label: string;
@@ -30,7 +45,11 @@ export interface PrintableQuestionAnswer {
   isRequired: boolean;
   type: FieldType;
   answerText?: string;
+  /** Multi-choice selections, one per line */
+  answerItems?: string[];
   repeatGroupRows?: PrintableRepeatGroupRow[];
+  /** Only present when the export asked for comments */
+  commentThreads?: PrintableCommentThread[];
 }
 
 export interface PrintableSection {
@@ -46,45 +65,77 @@ export interface PrintableScoreRow {
   score?: string;
   weight?: string;
   total?: string;
-  category?: 'IMPACT' | 'VALUE';
+  category?: string; // score group key
   icon?: 'impact' | 'value' | 'bullet';
 }
 
 export interface PrintableScoreSection {
-  key: 'IMPACT' | 'VALUE';
+  key: string; // score group key from the template's scoring model
   title: string;
   accentColor: string; // e.g. header background
   headerTextColor: string;
   rowBackground: string;
-  rows: PrintableScoreRow[];
+  summaryBackground: string;
+  rows: PrintableScoreRow[]; // subcriterion rows follow the criterion they roll up into
   summaryLabel: string;
   summaryValue: string;
 }
 
+export interface PrintableScoreSummary {
+  key: string;
+  label: string;
+  value: string;
+}
+
 export interface PrintableScoringMatrix {
   sections: PrintableScoreSection[];
-  marketSubCriteria: PrintableScoreRow[];
-  impactScore: string;
-  valueScore: string;
-  overallScore: string;
-  marketScore: string;
+  summaries: PrintableScoreSummary[];
+}
+
+export interface PrintableRecommendationStyle {
+  background: string;
+  border: string;
+  text: string;
 }
 
 export interface PrintableImpactValueMatrix {
-  impactScore: number;
-  valueScore: number;
+  xLabel: string;
+  yLabel: string;
+  xScore: number;
+  yScore: number;
   recommendation: string;
   recommendationText: string;
+  recommendationStyle: PrintableRecommendationStyle;
+  /** Band legend for the configured rule set */
+  bands: Array<{ label: string; background: string }>;
+  /** Cell background colours sampled from the rule set, top row first */
+  grid: string[][];
+  /** e.g. "Rule set v3 (FY2026)" or "Default rules" */
+  ruleSetLabel: string;
   dotPosition: {
     x: number; // 0-1 range relative to chart width
     y: number; // 0-1 range relative to chart height (0 bottom, 1 top)
   };
 }
 
+/** standard = triage-style form; viability = summary page ahead of the answers */
+export type PrintableLayout = 'standard' | 'viability';
+
+export interface PrintableStageSummary {
+  title: string;
+  scores: PrintableScoreSummary[];
+  recommendation: string;
+  recommendationStyle: PrintableRecommendationStyle;
+  /** Narrative answers bound to stage fields, in form order */
+  highlights: Array<{ label: string; text: string }>;
+}
+
 export interface PrintableFormData {
+  layout: PrintableLayout;
   metadata: PrintableFormMetadata;
   sections: PrintableSection[];
   calculatedScores?: Record<string, number>;
+  stageSummary?: PrintableStageSummary;
   scoringMatrix?: PrintableScoringMatrix;
   impactValueMatrix?: PrintableImpactValueMatrix;
 }
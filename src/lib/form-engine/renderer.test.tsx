@@ -12,7 +12,7 @@ import {
 } from './types';
 import { buildQuestion, buildSection, buildTemplate } from './test-utils';
 import { validateField } from '../validation/form-schemas';
-import { extractScoringInputs, calculateAllScores } from '../scoring/calculations';
+import { calculateTemplateScores, toCalculatedScores, ScoringResult } from '../scoring/model';
 
 type MockFieldProps = {
   question: FormQuestionWithDetails;
@@ -73,16 +73,9 @@ jest.mock('../validation/form-schemas', () => ({
   validateField: jest.fn().mockReturnValue({ isValid: true }),
 }));
 
-jest.mock('../scoring/calculations', () => ({
-  extractScoringInputs: jest.fn().mockReturnValue({
-    missionAlignmentScore: 0,
-    unmetNeedScore: 0,
-    ipStrengthScore: 0,
-    marketSizeScore: 0,
-    patientPopulationScore: 0,
-    competitorsScore: 0,
-  }),
-  calculateAllScores: jest.fn().mockReturnValue({
+jest.mock('../scoring/model', () => ({
+  calculateTemplateScores: jest.fn().mockReturnValue({ groups: [] }),
+  toCalculatedScores: jest.fn().mockReturnValue({
     impactScore: 2,
     valueScore: 3,
     marketScore: 4,
@@ -107,8 +100,8 @@ jest.mock('./conditional-logic', () => ({
 }));
 
 const mockedValidateField = validateField as jest.MockedFunction<typeof validateField>;
-const mockedExtractScoringInputs = extractScoringInputs as jest.MockedFunction<typeof extractScoringInputs>;
-const mockedCalculateAllScores = calculateAllScores as jest.MockedFunction<typeof calculateAllScores>;
+const mockedCalculateTemplateScores = calculateTemplateScores as jest.MockedFunction<typeof calculateTemplateScores>;
+const mockedToCalculatedScores = toCalculatedScores as jest.MockedFunction<typeof toCalculatedScores>;
 
 function FormStateViewer() {
   const { responses, repeatGroups, answerMetadata, currentSection, nextSection, previousSection, calculatedScores } =
@@ -279,15 +272,9 @@ describe('FormEngineProvider + DynamicFormRenderer', () => {
     expect(responses.Q1).toBe('server-replacement');
   });
 
-  it('derives calculated scores when responses change', async () => {
-    mockedExtractScoringInputs.mockReturnValueOnce({
-      missionAlignmentScore: 0,
-      unmetNeedScore: 0,
-      ipStrengthScore: 0,
-      marketSizeScore: 0,
-      patientPopulationScore: 0,
-      competitorsScore: 0,
-    });
+  it('derives calculated scores from the template scoring model when responses change', async () => {
+    const scoringResult = { groups: [] } as unknown as ScoringResult;
+    mockedCalculateTemplateScores.mockReturnValueOnce(scoringResult);
     const scorePayload = {
       impactScore: 1,
       valueScore: 2,
@@ -296,7 +283,7 @@ describe('FormEngineProvider + DynamicFormRenderer', () => {
       recommendation: 'INVEST',
       recommendationText: 'Go',
     };
-    mockedCalculateAllScores.mockReturnValueOnce(scorePayload);
+    mockedToCalculatedScores.mockReturnValueOnce(scorePayload);
 
     const template = buildTemplate({
       sections: [
@@ -311,15 +298,11 @@ describe('FormEngineProvider + DynamicFormRenderer', () => {
     fireEvent.change(screen.getByTestId('field-Q1'), { target: { value: 'new value' } });
 
     await waitFor(() => {
-      expect(mockedExtractScoringInputs).toHaveBeenCalledWith({ Q1: 'new value' });
-      expect(mockedCalculateAllScores).toHaveBeenCalledWith({
-        missionAlignmentScore: 0,
-        unmetNeedScore: 0,
-        ipStrengthScore: 0,
-        marketSizeScore: 0,
-        patientPopulationScore: 0,
-        competitorsScore: 0,
-      });
+      expect(mockedCalculateTemplateScores).toHaveBeenCalledWith(
+        expect.objectContaining({ id: template.id }),
+        { Q1: 'new value' }
+      );
+      expect(mockedToCalculatedScores).toHaveBeenCalledWith(scoringResult);
       expect(screen.getByTestId('state-calculated-scores')).toHaveTextContent('INVEST');
     });
   });
@@ -16,7 +16,7 @@ import { shouldShowField, shouldRequireField, parseConditionalConfig } from './c
 import { getDefaultValue } from './field-mappings-simple';
 import { FieldComponents } from './fields/FieldAdapters';
 import { validateField } from '../validation/form-schemas';
-import { extractScoringInputs, calculateAllScores } from '../scoring/calculations';
+import { calculateTemplateScores, toCalculatedScores } from '../scoring/model';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { logger } from '@/lib/logger';
@@ -238,16 +238,15 @@ function FormEngineProvider({
 
   // Auto-calculate scores when responses change
   useEffect(() => {
-    if (state.responses && Object.keys(state.responses).length > 0) {
+    if (state.template && state.responses && Object.keys(state.responses).length > 0) {
       try {
-        const scoringInputs = extractScoringInputs(state.responses);
-        const calculatedScores = calculateAllScores(scoringInputs);
-        dispatch({ type: 'SET_CALCULATED_SCORES', payload: calculatedScores });
+        const result = calculateTemplateScores(state.template, state.responses);
+        dispatch({ type: 'SET_CALCULATED_SCORES', payload: toCalculatedScores(result) });
       } catch (error) {
         logger.warn('Error calculating scores', error);
       }
     }
-  }, [state.responses]);
+  }, [state.template, state.responses]);
 
   // Context methods
   const setResponse = (fieldCode: string, value: string | number | boolean | string[] | Record<string, unknown>) => {
@@ -342,10 +341,12 @@ function FormEngineProvider({
 interface DynamicQuestionProps {
   question: FormQuestionWithDetails;
   className?: string;
+  /** Extra content under the field, e.g. comment threads */
+  renderFooter?: (question: FormQuestionWithDetails) => React.ReactNode;
 }
 
-function DynamicQuestion({ question, className = '' }: DynamicQuestionProps) {
-  const { responses, repeatGroups, setResponse, setRepeatGroupData, setError, errors, answerMetadata } = useFormEngine();
+function DynamicQuestion({ question, className = '', renderFooter }: DynamicQuestionProps) {
+  const { responses, repeatGroups, calculatedScores, setResponse, setRepeatGroupData, setError, errors, answerMetadata } = useFormEngine();
 
   // ✅ ADD debounced validation to reduce validation calls
   const validationTimeout = useRef<NodeJS.Timeout | null>(null);
@@ -378,7 +379,8 @@ function DynamicQuestion({ question, className = '' }: DynamicQuestionProps) {
 
   // Check if question should be visible
   const conditionalConfig = parseConditionalConfig(question.conditional);
-  const isVisible = shouldShowField(conditionalConfig, responses);
+  const conditionalContext = { repeatGroups, calculatedScores };
+  const isVisible = shouldShowField(conditionalConfig, responses, conditionalContext);
 
   if (!isVisible) {
     return null;
@@ -403,7 +405,7 @@ function DynamicQuestion({ question, className = '' }: DynamicQuestionProps) {
   }
 
   // Check if question should be required
-  const isRequired = shouldRequireField(conditionalConfig, question.isRequired, responses);
+  const isRequired = shouldRequireField(conditionalConfig, question.isRequired, responses, conditionalContext);
   const metadata = answerMetadata[question.fieldCode];
   const isStale = QUESTION_REVISIONS_ENABLED && metadata?.status === 'STALE';
   let staleTimestamp: string | null = null;
@@ -523,6 +525,8 @@ function DynamicQuestion({ question, className = '' }: DynamicQuestionProps) {
           {errors[question.fieldCode] && (
             <p className="text-sm text-red-500">{errors[question.fieldCode]}</p>
           )}
+
+          {renderFooter?.(question)}
         </div>
       </CardContent>
     </Card>
@@ -533,9 +537,10 @@ function DynamicQuestion({ question, className = '' }: DynamicQuestionProps) {
 interface DynamicSectionProps {
   section: FormSectionWithQuestions;
   className?: string;
+  renderQuestionFooter?: DynamicQuestionProps['renderFooter'];
 }
 
-function DynamicSection({ section, className = '' }: DynamicSectionProps) {
+function DynamicSection({ section, className = '', renderQuestionFooter }: DynamicSectionProps) {
   return (
     <Card className={`bg-[#e0e5ec] rounded-3xl shadow-none border-0 ${className}`}>
       <CardHeader>
@@ -553,6 +558,7 @@ function DynamicSection({ section, className = '' }: DynamicSectionProps) {
                 key={question.id}
                 question={question}
                 className=""
+                renderFooter={renderQuestionFooter}
               />
             ))}
         </div>
@@ -564,9 +570,10 @@ function DynamicSection({ section, className = '' }: DynamicSectionProps) {
 // Main dynamic form renderer component
 interface DynamicFormRendererProps {
   className?: string;
+  renderQuestionFooter?: DynamicQuestionProps['renderFooter'];
 }
 
-function DynamicFormRenderer({ className = '' }: DynamicFormRendererProps) {
+function DynamicFormRenderer({ className = '', renderQuestionFooter }: DynamicFormRendererProps) {
   const { template, currentSection } = useFormEngine();
 
   if (!template) {
@@ -582,7 +589,7 @@ function DynamicFormRenderer({ className = '' }: DynamicFormRendererProps) {
 
   return (
     <div className={className}>
-      <DynamicSection section={currentSectionData} />
+      <DynamicSection section={currentSectionData} renderQuestionFooter={renderQuestionFooter} />
     </div>
   );
 }
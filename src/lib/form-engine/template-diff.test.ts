@@ -0,0 +1,118 @@
+import { diffTemplates, marksAnswersStale } from './template-diff';
+import { buildQuestion, buildSection, buildTemplate } from './test-utils';
+import { FormTemplateWithSections } from './types';
+
+function publishedTemplate(): FormTemplateWithSections {
+  return buildTemplate({
+    id: 'tpl-diff',
+    sections: [
+      buildSection({
+        id: 'sec-a',
+        code: 'A',
+        title: 'Overview',
+        order: 0,
+        questions: [
+          buildQuestion({ fieldCode: 'A1', label: 'Technology name', order: 0, dictionaryKey: 'tech.name' }),
+          buildQuestion({ fieldCode: 'A2', label: 'Summary', order: 1 }),
+        ],
+      }),
+      buildSection({
+        id: 'sec-b',
+        code: 'B',
+        title: 'Market',
+        order: 1,
+        questions: [buildQuestion({ fieldCode: 'B1', label: 'Market size', order: 0 })],
+      }),
+    ],
+  });
+}
+
+function edit(template: FormTemplateWithSections, fieldCode: string, changes: Record<string, unknown>) {
+  return {
+    ...template,
+    sections: template.sections.map((section) => ({
+      ...section,
+      questions: section.questions.map((question) =>
+        question.fieldCode === fieldCode ? { ...question, ...changes } : question
+      ),
+    })),
+  };
+}
+
+describe('diffTemplates', () => {
+  it('reports nothing for identical structures', () => {
+    const diff = diffTemplates(publishedTemplate(), publishedTemplate());
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it('reports everything as added when nothing is published', () => {
+    const diff = diffTemplates(null, publishedTemplate());
+    expect(diff.sections.map((section) => section.kind)).toEqual(['added', 'added']);
+    expect(diff.fields.map((field) => field.fieldCode)).toEqual(['A1', 'A2', 'B1']);
+  });
+
+  it('detects added, removed and moved fields and sections', () => {
+    const before = publishedTemplate();
+    const [overview, market] = before.sections;
+    const after = {
+      ...before,
+      sections: [
+        { ...overview, questions: [overview.questions[0], { ...market.questions[0], order: 1 }] },
+        {
+          ...market,
+          code: 'C',
+          title: 'Commercial',
+          questions: [buildQuestion({ fieldCode: 'C1', label: 'Pricing', order: 0 })],
+        },
+      ],
+    };
+
+    const diff = diffTemplates(before, after);
+
+    expect(diff.sections).toEqual([
+      { kind: 'added', code: 'C', title: 'Commercial', changes: [] },
+      { kind: 'removed', code: 'B', title: 'Market', changes: [] },
+    ]);
+    expect(diff.fields).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ fieldCode: 'B1', kind: 'moved', fromSectionCode: 'B', sectionCode: 'A' }),
+        expect.objectContaining({ fieldCode: 'C1', kind: 'added' }),
+        expect.objectContaining({ fieldCode: 'A2', kind: 'removed' }),
+      ])
+    );
+  });
+
+  it('describes attribute changes and flags bound fields whose answers go stale', () => {
+    const before = publishedTemplate();
+    let after = edit(before, 'A1', { label: 'Technology title' });
+    after = edit(after, 'A2', {
+      helpText: 'Two sentences',
+      conditional: { action: 'show', logic: 'AND', rules: [{ field: 'A1', operator: 'exists', value: null }] },
+    });
+
+    const diff = diffTemplates(before, after);
+    const a1 = diff.fields.find((field) => field.fieldCode === 'A1');
+    const a2 = diff.fields.find((field) => field.fieldCode === 'A2');
+
+    expect(a1).toMatchObject({
+      kind: 'modified',
+      marksAnswersStale: true,
+      changes: [{ attribute: 'label', before: 'Technology name', after: 'Technology title' }],
+    });
+    // Unbound fields have no dictionary revision to go stale
+    expect(a2?.marksAnswersStale).toBe(false);
+    expect(a2?.changes.map((change) => change.attribute)).toEqual(['helpText', 'conditional']);
+    expect(diff.staleFieldCodes).toEqual(['A1']);
+  });
+
+  it('does not treat rebinding or conditional edits as stale wording', () => {
+    expect(
+      marksAnswersStale({ dictionaryKey: 'a' }, { dictionaryKey: 'b' }, [{ attribute: 'label', before: 'x', after: 'y' }])
+    ).toBe(false);
+    expect(
+      marksAnswersStale({ dictionaryKey: 'a' }, { dictionaryKey: 'a' }, [
+        { attribute: 'conditional', before: '—', after: '{}' },
+      ])
+    ).toBe(false);
+  });
+});
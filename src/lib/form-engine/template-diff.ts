@@ -0,0 +1,258 @@
+import type { Prisma } from '@prisma/client';
+import type { TemplateStructure } from './template-versions';
+import type { FormQuestionWithDetails, FormSectionWithQuestions } from './types';
+
+// Structural diff between two template structures (a published version and the
+// draft, or two published versions). Sections match by code and fields by
+// fieldCode, the same keys submissions and scoring use.
+
+export type TemplateChangeKind = 'added' | 'removed' | 'moved' | 'modified';
+
+export type FieldAttribute =
+  | 'label'
+  | 'type'
+  | 'helpText'
+  | 'placeholder'
+  | 'isRequired'
+  | 'options'
+  | 'validation'
+  | 'conditional'
+  | 'repeatableConfig'
+  | 'scoring'
+  | 'binding';
+
+/**
+ * Field attributes a QuestionRevision records. Publishing a change to one of
+ * these on a dictionary-bound field cuts a new revision, so answers saved
+ * against the old one read as STALE in getAnswerStatus.
+ */
+export const REVISION_TRACKED_ATTRIBUTES: ReadonlySet<FieldAttribute> = new Set([
+  'label',
+  'helpText',
+  'options',
+  'validation',
+]);
+
+export interface AttributeChange<A extends string = string> {
+  attribute: A;
+  before: string;
+  after: string;
+}
+
+export interface SectionChange {
+  kind: TemplateChangeKind;
+  code: string;
+  title: string;
+  changes: AttributeChange[];
+}
+
+export interface FieldChange {
+  kind: TemplateChangeKind;
+  fieldCode: string;
+  label: string;
+  sectionCode: string;
+  /** Section the field lived in before a move */
+  fromSectionCode?: string;
+  dictionaryKey: string | null;
+  changes: AttributeChange<FieldAttribute>[];
+  /** Existing answers to this field become STALE once the change is published */
+  marksAnswersStale: boolean;
+}
+
+export interface TemplateDiff {
+  template: AttributeChange[];
+  sections: SectionChange[];
+  fields: FieldChange[];
+  staleFieldCodes: string[];
+  hasChanges: boolean;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function sameJson(a: Prisma.JsonValue | null | undefined, b: Prisma.JsonValue | null | undefined): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function compare<A extends string>(
+  changes: AttributeChange<A>[],
+  attribute: A,
+  before: unknown,
+  after: unknown,
+  equal: boolean = formatValue(before) === formatValue(after)
+) {
+  if (!equal) {
+    changes.push({ attribute, before: formatValue(before), after: formatValue(after) });
+  }
+}
+
+function describeOptions(question: FormQuestionWithDetails): string {
+  return [...question.options]
+    .sort((a, b) => a.order - b.order)
+    .map((option) => (option.label === option.value ? option.value : `${option.label} (${option.value})`))
+    .join(', ');
+}
+
+function describeScoring(question: FormQuestionWithDetails) {
+  const config = question.scoringConfig;
+  return config
+    ? { minScore: config.minScore, maxScore: config.maxScore, weight: config.weight, criteria: config.criteria }
+    : null;
+}
+
+function diffField(before: FormQuestionWithDetails, after: FormQuestionWithDetails) {
+  const changes: AttributeChange<FieldAttribute>[] = [];
+  compare(changes, 'label', before.label, after.label);
+  compare(changes, 'type', before.type, after.type);
+  compare(changes, 'helpText', before.helpText, after.helpText);
+  compare(changes, 'placeholder', before.placeholder, after.placeholder);
+  compare(changes, 'isRequired', before.isRequired ? 'Required' : 'Optional', after.isRequired ? 'Required' : 'Optional');
+  compare(changes, 'options', describeOptions(before), describeOptions(after));
+  compare(changes, 'validation', before.validation, after.validation, sameJson(before.validation, after.validation));
+  compare(changes, 'conditional', before.conditional, after.conditional, sameJson(before.conditional, after.conditional));
+  compare(
+    changes,
+    'repeatableConfig',
+    before.repeatableConfig,
+    after.repeatableConfig,
+    sameJson(before.repeatableConfig, after.repeatableConfig)
+  );
+  compare(changes, 'scoring', describeScoring(before), describeScoring(after));
+  compare(changes, 'binding', before.dictionaryKey, after.dictionaryKey);
+  return changes;
+}
+
+function indexFields(sections: FormSectionWithQuestions[]) {
+  const fields = new Map<string, { question: FormQuestionWithDetails; section: FormSectionWithQuestions }>();
+  for (const section of sections) {
+    for (const question of section.questions) {
+      fields.set(question.fieldCode, { question, section });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Answers saved against a bound field go STALE when the field keeps its binding
+ * and a revision-tracked attribute changes (rebinding reads a different answer).
+ */
+export function marksAnswersStale(
+  before: Pick<FormQuestionWithDetails, 'dictionaryKey'>,
+  after: Pick<FormQuestionWithDetails, 'dictionaryKey'>,
+  changes: AttributeChange<FieldAttribute>[]
+): boolean {
+  return (
+    Boolean(after.dictionaryKey) &&
+    before.dictionaryKey === after.dictionaryKey &&
+    changes.some((change) => REVISION_TRACKED_ATTRIBUTES.has(change.attribute))
+  );
+}
+
+/**
+ * Diff `after` against `before`. With no `before` (never published) every
+ * section and field is reported as added.
+ */
+export function diffTemplates(before: TemplateStructure | null, after: TemplateStructure): TemplateDiff {
+  const templateChanges: AttributeChange[] = [];
+  const sections: SectionChange[] = [];
+  const fields: FieldChange[] = [];
+
+  if (before) {
+    compare(templateChanges, 'name', before.name, after.name);
+    compare(templateChanges, 'version', before.version, after.version);
+    compare(templateChanges, 'description', before.description, after.description);
+    compare(
+      templateChanges,
+      'scoringModel',
+      before.scoringModel,
+      after.scoringModel,
+      sameJson(before.scoringModel, after.scoringModel)
+    );
+  }
+
+  const beforeSections = new Map((before?.sections ?? []).map((section) => [section.code, section]));
+  const afterSections = new Map(after.sections.map((section) => [section.code, section]));
+
+  for (const section of after.sections) {
+    const previous = beforeSections.get(section.code);
+    if (!previous) {
+      sections.push({ kind: 'added', code: section.code, title: section.title, changes: [] });
+      continue;
+    }
+    const changes: AttributeChange[] = [];
+    compare(changes, 'title', previous.title, section.title);
+    compare(changes, 'description', previous.description, section.description);
+    compare(changes, 'isRequired', previous.isRequired, section.isRequired);
+    const moved = previous.order !== section.order;
+    if (moved) {
+      changes.push({ attribute: 'order', before: String(previous.order + 1), after: String(section.order + 1) });
+    }
+    if (changes.length > 0) {
+      const kind = moved && changes.length === 1 ? 'moved' : 'modified';
+      sections.push({ kind, code: section.code, title: section.title, changes });
+    }
+  }
+  for (const section of before?.sections ?? []) {
+    if (!afterSections.has(section.code)) {
+      sections.push({ kind: 'removed', code: section.code, title: section.title, changes: [] });
+    }
+  }
+
+  const beforeFields = indexFields(before?.sections ?? []);
+  const afterFields = indexFields(after.sections);
+
+  for (const [fieldCode, { question, section }] of afterFields) {
+    const previous = beforeFields.get(fieldCode);
+    const base = {
+      fieldCode,
+      label: question.label,
+      sectionCode: section.code,
+      dictionaryKey: question.dictionaryKey,
+    };
+    if (!previous) {
+      fields.push({ ...base, kind: 'added', changes: [], marksAnswersStale: false });
+      continue;
+    }
+
+    const changes = diffField(previous.question, question);
+    const moved = previous.section.code !== section.code || previous.question.order !== question.order;
+    if (changes.length === 0 && !moved) {
+      continue;
+    }
+    fields.push({
+      ...base,
+      kind: changes.length === 0 ? 'moved' : 'modified',
+      ...(previous.section.code !== section.code ? { fromSectionCode: previous.section.code } : {}),
+      changes,
+      marksAnswersStale: marksAnswersStale(previous.question, question, changes),
+    });
+  }
+  for (const [fieldCode, { question, section }] of beforeFields) {
+    if (!afterFields.has(fieldCode)) {
+      fields.push({
+        kind: 'removed',
+        fieldCode,
+        label: question.label,
+        sectionCode: section.code,
+        dictionaryKey: question.dictionaryKey,
+        changes: [],
+        marksAnswersStale: false,
+      });
+    }
+  }
+
+  return {
+    template: templateChanges,
+    sections,
+    fields,
+    staleFieldCodes: fields.filter((field) => field.marksAnswersStale).map((field) => field.fieldCode),
+    hasChanges: templateChanges.length > 0 || sections.length > 0 || fields.length > 0,
+  };
+}
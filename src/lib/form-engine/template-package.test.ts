@@ -0,0 +1,130 @@
+import { DataSource, FieldType, QuestionDictionary } from '@prisma/client';
+import {
+  TEMPLATE_PACKAGE_FORMAT,
+  buildTemplatePackage,
+  parseTemplatePackage,
+  planTemplateImport,
+  templatePackageFileName,
+} from './template-package';
+import { buildQuestion, buildSection, buildTemplate } from './test-utils';
+
+function dictionaryEntry(key: string, bindingPath: string): QuestionDictionary {
+  return {
+    id: `dict-${key}`,
+    version: '1',
+    key,
+    currentVersion: 1,
+    currentRevisionId: null,
+    label: key,
+    helpText: null,
+    options: null,
+    validation: null,
+    bindingPath,
+    dataSource: DataSource.TECHNOLOGY,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+}
+
+describe('template packages', () => {
+  const template = buildTemplate({
+    name: 'Intake Form',
+    version: '2.1',
+    sections: [
+      buildSection({
+        code: 'S1',
+        questions: [
+          buildQuestion({
+            fieldCode: 'F0.1',
+            dictionaryKey: 'tech.techId',
+            dictionary: dictionaryEntry('tech.techId', 'technology.techId'),
+          }),
+          buildQuestion({
+            fieldCode: 'F0.2',
+            type: FieldType.SINGLE_SELECT,
+            conditional: { action: 'show', logic: 'AND', rules: [{ field: 'F0.1', operator: 'exists', value: null }] },
+            options: [
+              { id: 'o2', questionId: 'q', value: 'b', label: 'B', order: 1 },
+              { id: 'o1', questionId: 'q', value: 'a', label: 'A', order: 0 },
+            ],
+          }),
+        ],
+      }),
+    ],
+  });
+
+  it('exports questions with options, JSON config and referenced dictionary keys', () => {
+    const pkg = buildTemplatePackage(template, new Date('2025-11-12T00:00:00Z'));
+
+    expect(pkg.format).toBe(TEMPLATE_PACKAGE_FORMAT);
+    expect(pkg.exportedAt).toBe('2025-11-12T00:00:00.000Z');
+    const [first, second] = pkg.template.sections[0].questions;
+    expect(first.dictionaryKey).toBe('tech.techId');
+    expect(second.options.map((option) => option.value)).toEqual(['a', 'b']);
+    expect(second.conditional).toMatchObject({ action: 'show' });
+    expect(pkg.dictionary).toEqual([
+      { key: 'tech.techId', label: 'tech.techId', bindingPath: 'technology.techId', dataSource: 'TECHNOLOGY' },
+    ]);
+    expect(templatePackageFileName(pkg)).toBe('intake-form-v2.1.json');
+  });
+
+  it('round-trips through JSON and rejects other files', () => {
+    const pkg = buildTemplatePackage(template);
+    expect(parseTemplatePackage(JSON.stringify(pkg))).toEqual({ success: true, data: pkg });
+
+    expect(parseTemplatePackage('not json')).toEqual({ success: false, errors: ['File is not valid JSON'] });
+    expect(parseTemplatePackage('{"templates": []}')).toEqual({
+      success: false,
+      errors: ['File is not a form template package'],
+    });
+    expect(parseTemplatePackage(JSON.stringify({ ...pkg, formatVersion: 9 }))).toMatchObject({
+      success: false,
+      errors: [expect.stringContaining('Unsupported package version 9')],
+    });
+
+    const broken = JSON.parse(JSON.stringify(pkg));
+    broken.template.sections[0].questions[0].type = 'SIGNATURE';
+    const result = parseTemplatePackage(JSON.stringify(broken));
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors[0]).toContain('template.sections.0.questions.0.type');
+  });
+
+  describe('planTemplateImport', () => {
+    const pkg = buildTemplatePackage(template);
+
+    it('accepts keys bound the same way here', () => {
+      const preview = planTemplateImport(pkg, [
+        { key: 'tech.techId', bindingPath: 'technology.techId', dataSource: DataSource.TECHNOLOGY },
+      ]);
+
+      expect(preview).toMatchObject({ name: 'Intake Form', sectionCount: 1, questionCount: 2, errors: [] });
+      expect(preview.dictionary).toEqual([
+        { key: 'tech.techId', status: 'match', differences: [], fieldCodes: ['F0.1'] },
+      ]);
+    });
+
+    it('imports missing keys unbound and blocks on conflicting bindings', () => {
+      expect(planTemplateImport(pkg, []).warnings[0]).toContain('F0.1 will be imported unbound');
+
+      const conflict = planTemplateImport(pkg, [
+        { key: 'tech.techId', bindingPath: 'technology.technologyName', dataSource: DataSource.TECHNOLOGY },
+      ]);
+      expect(conflict.dictionary[0]).toMatchObject({
+        status: 'conflict',
+        differences: ['bindingPath is technology.techId in the package, technology.technologyName here'],
+      });
+      expect(conflict.errors).toHaveLength(1);
+    });
+
+    it('reports duplicate field codes and existing template names', () => {
+      const duplicated = JSON.parse(JSON.stringify(pkg));
+      duplicated.template.sections[0].questions[1].fieldCode = 'F0.1';
+
+      const preview = planTemplateImport(duplicated, [], ['Intake Form']);
+      expect(preview.errors).toContain('Field code F0.1 is used more than once');
+      expect(preview.warnings).toContain(
+        'A template named "Intake Form" already exists; the import is created as a separate draft'
+      );
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { DataSource, FieldType, FormPurpose, type Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { FormTemplateWithSections } from './types';
+
+// Portable JSON package for moving a single template between environments.
+// Questions reference the question dictionary by key only; the package carries
+// each referenced entry's binding so the importing side can detect keys that
+// mean something different there. Keep this module free of server imports so
+// the builder can preview packages client-side too.
+
+export const TEMPLATE_PACKAGE_FORMAT = 'tech-triage/form-template';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+// Packages come from JSON.parse, so any defined value is already valid JSON
+const jsonValue = z.custom<Prisma.JsonValue>((value) => value !== undefined, 'Value is required');
+
+const packageOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  order: z.number().int(),
+});
+
+const packageScoringConfigSchema = z.object({
+  minScore: z.number().int(),
+  maxScore: z.number().int(),
+  weight: z.number(),
+  criteria: jsonValue,
+});
+
+const packageQuestionSchema = z.object({
+  fieldCode: z.string().min(1),
+  label: z.string(),
+  type: z.enum(FieldType),
+  helpText: z.string().nullable(),
+  placeholder: z.string().nullable(),
+  validation: jsonValue.nullable(),
+  conditional: jsonValue.nullable(),
+  repeatableConfig: jsonValue.nullable(),
+  order: z.number().int(),
+  isRequired: z.boolean(),
+  dictionaryKey: z.string().nullable(),
+  options: z.array(packageOptionSchema),
+  scoringConfig: packageScoringConfigSchema.nullable(),
+});
+
+const packageSectionSchema = z.object({
+  code: z.string().min(1),
+  title: z.string(),
+  description: z.string().nullable(),
+  order: z.number().int(),
+  isRequired: z.boolean(),
+  questions: z.array(packageQuestionSchema),
+});
+
+const packageDictionaryEntrySchema = z.object({
+  key: z.string().min(1),
+  label: z.string(),
+  bindingPath: z.string(),
+  dataSource: z.enum(DataSource),
+});
+
+export const templatePackageSchema = z.object({
+  format: z.literal(TEMPLATE_PACKAGE_FORMAT),
+  formatVersion: z.literal(TEMPLATE_PACKAGE_VERSION),
+  exportedAt: z.string(),
+  template: z.object({
+    name: z.string().min(1),
+    version: z.string().min(1),
+    description: z.string().nullable(),
+    purpose: z.enum(FormPurpose),
+    scoringModel: jsonValue.nullable(),
+    sections: z.array(packageSectionSchema),
+  }),
+  recommendationRuleSet: z.object({ name: z.string().nullable(), rules: jsonValue }).nullable(),
+  dictionary: z.array(packageDictionaryEntrySchema),
+});
+
+export type TemplatePackage = z.infer<typeof templatePackageSchema>;
+export type TemplatePackageDictionaryEntry = z.infer<typeof packageDictionaryEntrySchema>;
+
+/**
+ * Serialize a template (loaded with options, scoring configs, dictionary entries
+ * and its latest rule set) into a portable package.
+ */
+export function buildTemplatePackage(
+  template: FormTemplateWithSections,
+  exportedAt: Date = new Date()
+): TemplatePackage {
+  const dictionary = new Map<string, TemplatePackageDictionaryEntry>();
+  const ruleSet = template.recommendationRuleSets?.[0] ?? null;
+
+  const sections = [...template.sections]
+    .sort((a, b) => a.order - b.order)
+    .map((section) => ({
+      code: section.code,
+      title: section.title,
+      description: section.description,
+      order: section.order,
+      isRequired: section.isRequired,
+      questions: [...section.questions]
+        .sort((a, b) => a.order - b.order)
+        .map((question) => {
+          if (question.dictionary) {
+            dictionary.set(question.dictionary.key, {
+              key: question.dictionary.key,
+              label: question.dictionary.label,
+              bindingPath: question.dictionary.bindingPath,
+              dataSource: question.dictionary.dataSource,
+            });
+          }
+          return {
+            fieldCode: question.fieldCode,
+            label: question.label,
+            type: question.type,
+            helpText: question.helpText,
+            placeholder: question.placeholder,
+            validation: question.validation,
+            conditional: question.conditional,
+            repeatableConfig: question.repeatableConfig,
+            order: question.order,
+            isRequired: question.isRequired,
+            dictionaryKey: question.dictionaryKey,
+            options: [...question.options]
+              .sort((a, b) => a.order - b.order)
+              .map(({ value, label, order }) => ({ value, label, order })),
+            scoringConfig: question.scoringConfig
+              ? {
+                  minScore: question.scoringConfig.minScore,
+                  maxScore: question.scoringConfig.maxScore,
+                  weight: question.scoringConfig.weight,
+                  criteria: question.scoringConfig.criteria,
+                }
+              : null,
+          };
+        }),
+    }));
+
+  return {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    formatVersion: TEMPLATE_PACKAGE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    template: {
+      name: template.name,
+      version: template.version,
+      description: template.description,
+      purpose: template.purpose,
+      scoringModel: template.scoringModel,
+      sections,
+    },
+    recommendationRuleSet: ruleSet ? { name: ruleSet.name, rules: ruleSet.rules } : null,
+    dictionary: Array.from(dictionary.values()).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+export function templatePackageFileName(pkg: TemplatePackage): string {
+  const slug = pkg.template.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'template'}-v${pkg.template.version}.json`;
+}
+
+export type TemplatePackageParseResult =
+  | { success: true; data: TemplatePackage }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse and validate raw package JSON, reporting every problem found.
+ */
+export function parseTemplatePackage(raw: string): TemplatePackageParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] };
+  }
+
+  const header = json as { format?: unknown; formatVersion?: unknown } | null;
+  if (!header || header.format !== TEMPLATE_PACKAGE_FORMAT) {
+    return { success: false, errors: ['File is not a form template package'] };
+  }
+  if (header.formatVersion !== TEMPLATE_PACKAGE_VERSION) {
+    return {
+      success: false,
+      errors: [`Unsupported package version ${String(header.formatVersion)} (expected ${TEMPLATE_PACKAGE_VERSION})`],
+    };
+  }
+
+  const parsed = templatePackageSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'package'}: ${issue.message}`),
+    };
+  }
+  return { success: true, data: parsed.data };
+}
+
+export type DictionaryKeyStatus = 'match' | 'missing' | 'conflict';
+
+export interface DictionaryKeyPreview {
+  key: string;
+  status: DictionaryKeyStatus;
+  /** Fields that differ from the entry already in this environment */
+  differences: string[];
+  fieldCodes: string[];
+}
+
+export interface TemplateImportPreview {
+  name: string;
+  version: string;
+  purpose: FormPurpose;
+  sectionCount: number;
+  questionCount: number;
+  dictionary: DictionaryKeyPreview[];
+  /** Problems that block the import */
+  errors: string[];
+  /** Things the import will adjust, e.g. bindings it drops */
+  warnings: string[];
+}
+
+/** Dictionary entry as it exists in the importing environment */
+export type ExistingDictionaryEntry = Pick<TemplatePackageDictionaryEntry, 'key' | 'bindingPath' | 'dataSource'>;
+
+/**
+ * Dry run of an import: compare the package's dictionary references with the
+ * local dictionary and check the structure for duplicates. Keys that are
+ * missing locally are imported unbound; keys bound to a different field block
+ * the import, since answers would be written somewhere else.
+ */
+export function planTemplateImport(
+  pkg: TemplatePackage,
+  existingDictionary: ExistingDictionaryEntry[],
+  existingTemplateNames: string[] = []
+): TemplateImportPreview {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const local = new Map(existingDictionary.map((entry) => [entry.key, entry]));
+  const packaged = new Map(pkg.dictionary.map((entry) => [entry.key, entry]));
+  const questions = pkg.template.sections.flatMap((section) => section.questions);
+
+  const sectionCodes = new Set<string>();
+  for (const section of pkg.template.sections) {
+    if (sectionCodes.has(section.code)) {
+      errors.push(`Section code ${section.code} is used more than once`);
+    }
+    sectionCodes.add(section.code);
+  }
+
+  const fieldCodes = new Set<string>();
+  const keyUsage = new Map<string, string[]>();
+  for (const question of questions) {
+    if (fieldCodes.has(question.fieldCode)) {
+      errors.push(`Field code ${question.fieldCode} is used more than once`);
+    }
+    fieldCodes.add(question.fieldCode);
+    if (question.dictionaryKey) {
+      keyUsage.set(question.dictionaryKey, [...(keyUsage.get(question.dictionaryKey) ?? []), question.fieldCode]);
+    }
+  }
+
+  const dictionary = Array.from(keyUsage.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, codes]): DictionaryKeyPreview => {
+      const existing = local.get(key);
+      if (!existing) {
+        warnings.push(`Dictionary key ${key} does not exist here; ${codes.join(', ')} will be imported unbound`);
+        return { key, status: 'missing', differences: [], fieldCodes: codes };
+      }
+
+      const incoming = packaged.get(key);
+      const differences = incoming
+        ? (['bindingPath', 'dataSource'] as const)
+            .filter((field) => incoming[field] !== existing[field])
+            .map((field) => `${field} is ${incoming[field]} in the package, ${existing[field]} here`)
+        : [];
+      if (differences.length > 0) {
+        errors.push(`Dictionary key ${key} is bound differently here (${differences.join('; ')})`);
+        return { key, status: 'conflict', differences, fieldCodes: codes };
+      }
+      return { key, status: 'match', differences: [], fieldCodes: codes };
+    });
+
+  if (existingTemplateNames.includes(pkg.template.name)) {
+    warnings.push(`A template named "${pkg.template.name}" already exists; the import is created as a separate draft`);
+  }
+
+  return {
+    name: pkg.template.name,
+    version: pkg.template.version,
+    purpose: pkg.template.purpose,
+    sectionCount: pkg.template.sections.length,
+    questionCount: questions.length,
+    dictionary,
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,86 @@
+import {
+  TEMPLATE_SNAPSHOT_FORMAT,
+  buildTemplateSnapshot,
+  hasStructuralChanges,
+  hydrateTemplateSnapshot,
+} from './template-versions';
+import { buildQuestion, buildSection, buildTemplate } from './test-utils';
+
+describe('template version snapshots', () => {
+  const template = buildTemplate({
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-02-01T00:00:00.000Z'),
+    sections: [buildSection({ questions: [buildQuestion({ fieldCode: 'F0.1', label: 'Technology ID' })] })],
+    recommendationRuleSets: [],
+  });
+
+  it('round-trips the template structure without rule sets', () => {
+    const snapshot = buildTemplateSnapshot(template);
+    expect(snapshot).toMatchObject({ format: TEMPLATE_SNAPSHOT_FORMAT });
+
+    const hydrated = hydrateTemplateSnapshot(snapshot as never);
+    expect(hydrated.recommendationRuleSets).toBeUndefined();
+    expect(hydrated.createdAt).toEqual(template.createdAt);
+    expect(hydrated.sections[0].questions[0].label).toBe('Technology ID');
+  });
+
+  it('rejects snapshots in an unknown format', () => {
+    expect(() => hydrateTemplateSnapshot({ format: 99, template: {} })).toThrow('Unsupported');
+    expect(() => hydrateTemplateSnapshot(null)).toThrow('empty');
+  });
+
+  describe('hasStructuralChanges', () => {
+    const published = hydrateTemplateSnapshot(buildTemplateSnapshot(template) as never);
+
+    it('treats a never-published template as changed', () => {
+      expect(hasStructuralChanges(template, null)).toBe(true);
+    });
+
+    it('ignores timestamps, activation and dictionary metadata', () => {
+      const draft = {
+        ...template,
+        isActive: false,
+        updatedAt: new Date(),
+        sections: template.sections.map((section) => ({
+          ...section,
+          questions: section.questions.map((question) => ({
+            ...question,
+            dictionary: {
+              id: 'dict-1',
+              key: 'tech.id',
+              label: 'Renamed in dictionary',
+              bindingPath: null,
+              dataType: 'string',
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            } as never,
+          })),
+        })),
+      };
+      expect(hasStructuralChanges(draft, published)).toBe(false);
+    });
+
+    it('flags label, binding and question changes', () => {
+      const relabelled = {
+        ...template,
+        sections: template.sections.map((section) => ({
+          ...section,
+          questions: section.questions.map((question) => ({ ...question, label: 'Tech ID' })),
+        })),
+      };
+      expect(hasStructuralChanges(relabelled, published)).toBe(true);
+
+      const rebound = {
+        ...template,
+        sections: template.sections.map((section) => ({
+          ...section,
+          questions: section.questions.map((question) => ({
+            ...question,
+            dictionary: { bindingPath: 'technology.techId' } as never,
+          })),
+        })),
+      };
+      expect(hasStructuralChanges(rebound, published)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type { Prisma } from '@prisma/client';
+import { FormTemplateWithSections } from './types';
+
+// Published template versions are frozen JSON copies of the template structure
+// (sections, questions, options, scoring config, dictionary bindings and the
+// scoring model). The live FormTemplate rows are the editable draft; the form
+// renders the latest published copy and submissions pin the one they used.
+// Recommendation rule sets are versioned and pinned separately.
+
+export const TEMPLATE_SNAPSHOT_FORMAT = 1;
+
+export type TemplateStructure = Omit<FormTemplateWithSections, 'recommendationRuleSets'>;
+
+export interface TemplateVersionSnapshot {
+  format: typeof TEMPLATE_SNAPSHOT_FORMAT;
+  template: TemplateStructure;
+}
+
+/** Pinned version details passed alongside a rendered template */
+export interface TemplateVersionRef {
+  id: string;
+  version: number;
+}
+
+/**
+ * Freeze the template's current structure for storage on a FormTemplateVersion.
+ */
+export function buildTemplateSnapshot(template: FormTemplateWithSections): Prisma.InputJsonValue {
+  const structure: FormTemplateWithSections = { ...template };
+  delete structure.recommendationRuleSets;
+  const snapshot: TemplateVersionSnapshot = { format: TEMPLATE_SNAPSHOT_FORMAT, template: structure };
+  return JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue;
+}
+
+const DATE_KEYS = new Set(['createdAt', 'updatedAt']);
+
+function reviveDates(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reviveDates);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+      key,
+      DATE_KEYS.has(key) && typeof entry === 'string' ? new Date(entry) : reviveDates(entry),
+    ])
+  );
+}
+
+/**
+ * Rebuild a renderable template from a stored snapshot. Throws on snapshots
+ * this code does not understand rather than rendering a partial form.
+ */
+export function hydrateTemplateSnapshot(snapshot: Prisma.JsonValue): FormTemplateWithSections {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+    throw new Error('Template version snapshot is empty');
+  }
+  const { format, template } = snapshot as Partial<TemplateVersionSnapshot>;
+  if (format !== TEMPLATE_SNAPSHOT_FORMAT || !template || !Array.isArray(template.sections)) {
+    throw new Error(`Unsupported template version snapshot format: ${String(format)}`);
+  }
+  return reviveDates(template) as FormTemplateWithSections;
+}
+
+// Row metadata and relations that change without the form itself changing
+const IGNORED_STRUCTURE_KEYS = new Set([
+  'createdAt',
+  'updatedAt',
+  'isActive',
+  'purpose',
+  'recommendationRuleSets',
+  'versions',
+]);
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  return Object.keys(value as Record<string, unknown>)
+    .filter((key) => !IGNORED_STRUCTURE_KEYS.has(key))
+    .sort()
+    .reduce<Record<string, unknown>>((acc, key) => {
+      const entry = (value as Record<string, unknown>)[key];
+      // Only the binding matters; dictionary rows are shared across templates
+      acc[key] =
+        key === 'dictionary'
+          ? ((entry as { bindingPath?: unknown } | null)?.bindingPath ?? null)
+          : canonicalize(entry);
+      return acc;
+    }, {});
+}
+
+/**
+ * True when the draft differs from a published structure in anything that
+ * affects how the form renders, validates, scores or binds.
+ */
+export function hasStructuralChanges(
+  draft: TemplateStructure,
+  published: TemplateStructure | null | undefined
+): boolean {
+  if (!published) {
+    return true;
+  }
+  return JSON.stringify(canonicalize(draft)) !== JSON.stringify(canonicalize(published));
+}
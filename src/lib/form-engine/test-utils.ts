@@ -69,9 +69,12 @@ function buildTemplate(
     version: overrides.version ?? '1',
     description: overrides.description ?? null,
     isActive: overrides.isActive ?? true,
+    purpose: overrides.purpose ?? 'TRIAGE',
+    scoringModel: overrides.scoringModel ?? null,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
     sections,
+    ...(overrides.recommendationRuleSets ? { recommendationRuleSets: overrides.recommendationRuleSets } : {}),
   };
 }
 
@@ -1,9 +1,11 @@
-import { FieldType, FormTemplate, FormSection, FormQuestion, QuestionOption, ScoringConfig, Prisma, QuestionDictionary } from '@prisma/client';
+import { FieldType, FormTemplate, FormSection, FormQuestion, QuestionOption, ScoringConfig, Prisma, QuestionDictionary, RecommendationRuleSet } from '@prisma/client';
 import { AnswerStatusDetail } from '@/lib/technology/types';
 
 // Extended types with relationships for the form engine
 export type FormTemplateWithSections = FormTemplate & {
   sections: FormSectionWithQuestions[];
+  /** Latest recommendation rule set version, when loaded */
+  recommendationRuleSets?: RecommendationRuleSet[];
 };
 
 export type FormSectionWithQuestions = FormSection & {
@@ -62,18 +64,47 @@ export interface FormSubmissionData {
 }
 
 // Conditional logic types
+export type ConditionalOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'exists'
+  | 'not_exists'
+  | 'not_empty'
+  | 'in' // value is a list
+  | 'not_in'
+  | 'between' // value is [min, max], inclusive
+  | 'matches' // value is a regular expression
+  | 'count_greater_than'; // number of selected items / repeat-group rows
+
+export type ConditionalValue = string | number | boolean | null | Array<string | number | boolean>;
+
+// Where a rule reads its value: a top-level response (default), the rows of a
+// repeat group, or a calculated score such as `impactScore`
+export type ConditionalSource = 'response' | 'repeat_group' | 'score';
+
 export interface ConditionalRule {
   field: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'exists' | 'not_exists' | 'not_empty';
-  value: string | number | boolean | null;
+  operator: ConditionalOperator;
+  value: ConditionalValue;
   action: 'show' | 'hide' | 'require' | 'optional';
+  source?: ConditionalSource;
+  /** Repeat-group column to test row by row; without it the rule sees the rows themselves */
+  column?: string;
+  /** Whether any row (default) or every row must satisfy a column rule */
+  match?: 'any' | 'all';
 }
 
-export interface ConditionalConfig {
+export interface ConditionalGroup {
   rules: ConditionalRule[];
-  logic: 'AND' | 'OR'; // How to combine multiple rules
+  logic: 'AND' | 'OR'; // How to combine the rules and nested groups
+  groups?: ConditionalGroup[];
 }
 
+export type ConditionalConfig = ConditionalGroup;
+
 // Validation types
 export interface ValidationRule {
   type: 'required' | 'min' | 'max' | 'pattern' | 'custom' | 'email' | 'url' | 'number';
@@ -81,8 +112,46 @@ export interface ValidationRule {
   message: string;
 }
 
+export type CrossFieldComparison = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+interface CrossFieldRuleBase {
+  message: string;
+  /** Only check the rule while this condition holds */
+  when?: ConditionalGroup;
+}
+
+// Rules that read other fields; errors are reported on the field that owns the rule
+export type CrossFieldRule =
+  | (CrossFieldRuleBase & {
+      // This field's value compared with another field's (numbers or dates)
+      type: 'compare';
+      operator: CrossFieldComparison;
+      field: string;
+    })
+  | (CrossFieldRuleBase & {
+      // This field plus `fields`, summed and compared with `value`
+      type: 'sum';
+      operator: CrossFieldComparison;
+      fields: string[];
+      value: number;
+    })
+  | (CrossFieldRuleBase & {
+      // Repeat-group (or multi-select) needs at least `value` rows
+      type: 'min_rows';
+      value: number;
+    });
+
+// Display format for decimal, currency and percentage fields
+export interface NumberFormatConfig {
+  /** ISO 4217 code; currency fields only */
+  currency?: string;
+  decimals?: number;
+}
+
 export interface ValidationConfig {
   rules: ValidationRule[];
+  crossField?: CrossFieldRule[];
+  format?: NumberFormatConfig;
 }
 
 // Field rendering types
@@ -132,6 +201,12 @@ export interface FieldTypeMapping {
   [FieldType.SHORT_TEXT]: FieldComponent;
   [FieldType.LONG_TEXT]: FieldComponent;
   [FieldType.INTEGER]: FieldComponent;
+  [FieldType.DECIMAL]: FieldComponent;
+  [FieldType.CURRENCY]: FieldComponent;
+  [FieldType.PERCENTAGE]: FieldComponent;
+  [FieldType.EMAIL]: FieldComponent;
+  [FieldType.URL]: FieldComponent;
+  [FieldType.PHONE]: FieldComponent;
   [FieldType.SINGLE_SELECT]: FieldComponent;
   [FieldType.MULTI_SELECT]: FieldComponent;
   [FieldType.CHECKBOX_GROUP]: FieldComponent;
@@ -148,10 +223,9 @@ export interface ScoreConfig {
   groupType: 'impact' | 'value' | 'market';
 }
 
+// Group values keyed as `${groupKey}Score` (see lib/scoring/model)
 export interface CalculatedScores {
-  impactScore: number;
-  valueScore: number;
-  marketScore: number;
+  [scoreType: string]: number | string;
   recommendation: string;
   recommendationText: string;
 }
@@ -3,6 +3,7 @@ import {
   validateField,
   validateQuestion,
   validateFormSubmission,
+  validateCrossFieldRule,
   parseValidationConfig,
   ValidationHelpers,
 } from './validation';
@@ -61,6 +62,19 @@ describe('form-engine validation utilities', () => {
     expect(valid).toBeNull();
   });
 
+  it('validateQuestion checks typed numeric and contact fields', () => {
+    const typed = (type: FieldType) => buildQuestion({ fieldCode: type, label: 'Answer', type });
+
+    expect(validateQuestion(typed(FieldType.CURRENCY), 'lots')).toContain('valid number');
+    expect(validateQuestion(typed(FieldType.PERCENTAGE), 12.5)).toBeNull();
+    expect(validateQuestion(typed(FieldType.EMAIL), 'user@example')).toContain('valid email');
+    expect(validateQuestion(typed(FieldType.URL), 'example.com')).toContain('full web address');
+    expect(validateQuestion(typed(FieldType.URL), 'https://example.com/path')).toBeNull();
+    expect(validateQuestion(typed(FieldType.PHONE), '+1 (555) 010-2030')).toBeNull();
+    expect(validateQuestion(typed(FieldType.PHONE), 'call me')).toContain('valid phone');
+    expect(validateQuestion(typed(FieldType.PHONE), '')).toBeNull();
+  });
+
   it('validateFormSubmission collects per-field errors', () => {
     const requiredQuestion = buildQuestion({ fieldCode: 'Q1', label: 'Required Field', isRequired: true });
     const optionalQuestion = buildQuestion({ fieldCode: 'Q2', label: 'Optional Field', isRequired: false });
@@ -71,12 +85,79 @@ describe('form-engine validation utilities', () => {
     expect(errors).not.toHaveProperty('Q2');
   });
 
+  describe('cross-field rules', () => {
+    it('compares dates and numbers with another field, skipping blanks', () => {
+      const rule = { type: 'compare' as const, operator: 'gt' as const, field: 'start', message: 'End must be after start' };
+
+      expect(validateCrossFieldRule(rule, 'end', { start: '2025-03-01', end: '2025-02-28' })).toBe('End must be after start');
+      expect(validateCrossFieldRule(rule, 'end', { start: '2025-03-01', end: '2025-03-02' })).toBeNull();
+      expect(validateCrossFieldRule(rule, 'end', { start: 9, end: '10' })).toBeNull();
+      expect(validateCrossFieldRule(rule, 'end', { end: '2025-03-02' })).toBeNull();
+    });
+
+    it('sums this field with others', () => {
+      const rule = { type: 'sum' as const, operator: 'eq' as const, fields: ['b', 'c'], value: 100, message: 'Must total 100%' };
+
+      expect(validateCrossFieldRule(rule, 'a', { a: 33.3, b: '33.3', c: 33.4 })).toBeNull();
+      expect(validateCrossFieldRule(rule, 'a', { a: 50, b: 40 })).toBe('Must total 100%');
+      expect(validateCrossFieldRule(rule, 'a', {})).toBeNull();
+    });
+
+    it('counts repeat-group rows only while its condition holds', () => {
+      const rule = {
+        type: 'min_rows' as const,
+        value: 1,
+        message: 'Add a competitor',
+        when: { logic: 'AND' as const, rules: [{ field: 'unmetNeed', operator: 'greater_than' as const, value: 1, action: 'show' as const }] },
+      };
+
+      expect(validateCrossFieldRule(rule, 'competitors', { unmetNeed: 2 })).toBe('Add a competitor');
+      expect(validateCrossFieldRule(rule, 'competitors', { unmetNeed: 2 }, { repeatGroups: { competitors: [{ name: 'Acme' }] } })).toBeNull();
+      expect(validateCrossFieldRule(rule, 'competitors', { unmetNeed: 1 })).toBeNull();
+    });
+
+    it('validateFormSubmission reports cross-field errors once a field passes its own rules', () => {
+      const end = buildQuestion({
+        fieldCode: 'end',
+        label: 'End',
+        isRequired: true,
+        validation: { crossField: [{ type: 'compare', operator: 'gte', field: 'start', message: 'End must not precede start' }] },
+      });
+
+      expect(validateFormSubmission([end], { start: '2025-02-01', end: '2025-01-01' })).toEqual({
+        end: 'End must not precede start',
+      });
+      expect(validateFormSubmission([end], { start: '2025-02-01' }).end).toContain('End');
+    });
+  });
+
   describe('parseValidationConfig', () => {
     it('parses JSON strings into validation configs', () => {
       const config = parseValidationConfig(JSON.stringify({ rules: [ValidationHelpers.required()] }));
       expect(config?.rules).toHaveLength(1);
     });
 
+    it('keeps well-formed cross-field rules alongside other metadata', () => {
+      const config = parseValidationConfig({
+        isInfoBox: false,
+        crossField: [
+          { type: 'min_rows', value: 1, message: 'Add a row' },
+          { type: 'compare', operator: 'sooner', field: 'start', message: 'Bad operator' },
+          { type: 'sum', operator: 'eq', fields: [], value: 100, message: 'No fields' },
+        ],
+      });
+
+      expect(config).toEqual({ rules: [], crossField: [{ type: 'min_rows', value: 1, message: 'Add a row' }] });
+      expect(parseValidationConfig({ isInfoBox: true })).toBeNull();
+    });
+
+    it('reads the number format stored with the rules', () => {
+      expect(parseValidationConfig({ format: { currency: 'EUR', decimals: 0 } })).toEqual({
+        rules: [],
+        format: { currency: 'EUR', decimals: 0 },
+      });
+    });
+
     it('returns null for invalid payloads', () => {
       expect(parseValidationConfig(undefined)).toBeNull();
       expect(parseValidationConfig('{nope')).toBeNull();
@@ -1,4 +1,14 @@
-import { ValidationRule, ValidationConfig, FormQuestionWithDetails } from './types';
+import {
+  ValidationRule,
+  ValidationConfig,
+  FormQuestionWithDetails,
+  FormResponse,
+  CrossFieldComparison,
+  CrossFieldRule,
+} from './types';
+import { ConditionalContext, evaluateConditional } from './conditional-logic';
+import { isJsonRecord, parseConditionalConfigValue } from './json-utils';
+import { getNumberFormat, PHONE_PATTERN } from './number-format';
 
 /**
  * Validates a single value against a validation rule
@@ -140,6 +150,37 @@ export function validateQuestion(
       });
       break;
 
+    case 'DECIMAL':
+    case 'CURRENCY':
+    case 'PERCENTAGE':
+      effectiveConfig.rules.push({
+        type: 'number',
+        message: `${question.label} must be a valid number`
+      });
+      break;
+
+    case 'EMAIL':
+      effectiveConfig.rules.push({
+        type: 'email',
+        message: `${question.label} must be a valid email address`
+      });
+      break;
+
+    case 'URL':
+      effectiveConfig.rules.push({
+        type: 'url',
+        message: `${question.label} must be a full web address, e.g. https://example.com`
+      });
+      break;
+
+    case 'PHONE':
+      effectiveConfig.rules.push({
+        type: 'pattern',
+        value: PHONE_PATTERN,
+        message: `${question.label} must be a valid phone number`
+      });
+      break;
+
     case 'SCORING_0_3':
       effectiveConfig.rules.push(
         {
@@ -169,12 +210,129 @@ export function validateQuestion(
 }
 
 /**
- * Validates an entire form submission
+ * Selection-count limits for multi-choice fields. Min/max rules compare an
+ * array answer's length, so they double as the number of options allowed.
+ */
+export function getSelectionLimits(validationJson: unknown): { min?: number; max?: number } {
+  const rules = parseValidationConfig(validationJson)?.rules ?? [];
+  const limit = (type: 'min' | 'max') => {
+    const rule = rules.find((candidate) => candidate.type === type && typeof candidate.value === 'number');
+    return typeof rule?.value === 'number' ? rule.value : undefined;
+  };
+  return { min: limit('min'), max: limit('max') };
+}
+
+function isBlankValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Numbers compare numerically and dates (e.g. `2025-01-31`) chronologically;
+ * anything else falls back to string comparison.
+ */
+function toComparable(value: unknown): number | string {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const text = String(value).trim();
+  if (text !== '' && !Number.isNaN(Number(text))) {
+    return Number(text);
+  }
+  const timestamp = /^\d{4}-\d{2}-\d{2}/.test(text) ? Date.parse(text) : Number.NaN;
+  return Number.isNaN(timestamp) ? text : timestamp;
+}
+
+function compareValues(left: number | string, operator: CrossFieldComparison, right: number | string): boolean {
+  switch (operator) {
+    case 'eq':
+      return left === right;
+    case 'neq':
+      return left !== right;
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks one cross-field rule owned by `fieldCode`. Empty values pass; the
+ * required rule reports those.
+ */
+export function validateCrossFieldRule(
+  rule: CrossFieldRule,
+  fieldCode: string,
+  responses: FormResponse,
+  context: ConditionalContext = {}
+): string | null {
+  if (rule.when && !evaluateConditional(rule.when, responses, context)) {
+    return null;
+  }
+
+  switch (rule.type) {
+    case 'compare': {
+      const value = responses[fieldCode];
+      const other = responses[rule.field];
+      if (isBlankValue(value) || isBlankValue(other)) {
+        return null;
+      }
+      return compareValues(toComparable(value), rule.operator, toComparable(other)) ? null : rule.message;
+    }
+
+    case 'sum': {
+      const values = [fieldCode, ...rule.fields].map((code) => responses[code]).filter((value) => !isBlankValue(value));
+      if (values.length === 0) {
+        return null;
+      }
+      const total = values.reduce<number>((sum, value) => sum + (Number(value) || 0), 0);
+      // Round away float noise so 33.3 + 33.3 + 33.4 equals 100
+      return compareValues(Math.round(total * 1e6) / 1e6, rule.operator, rule.value) ? null : rule.message;
+    }
+
+    case 'min_rows': {
+      const rows = context.repeatGroups?.[fieldCode] ?? responses[fieldCode];
+      const count = Array.isArray(rows) ? rows.length : 0;
+      return count >= rule.value ? null : rule.message;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Runs a question's cross-field rules and returns the first error found
+ */
+export function validateCrossFieldRules(
+  question: Pick<FormQuestionWithDetails, 'fieldCode' | 'validation'>,
+  responses: FormResponse,
+  context: ConditionalContext = {}
+): string | null {
+  const config = parseValidationConfig(question.validation);
+  for (const rule of config?.crossField ?? []) {
+    const error = validateCrossFieldRule(rule, question.fieldCode, responses, context);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates an entire form submission. Cross-field rules run once a field's
+ * own rules pass; pass `context.repeatGroups` for row-count rules.
  */
 export function validateFormSubmission(
   questions: FormQuestionWithDetails[],
   responses: { [fieldCode: string]: string | number | boolean | string[] | Record<string, unknown> },
-  requiredFields: Set<string> = new Set()
+  requiredFields: Set<string> = new Set(),
+  context: ConditionalContext = {}
 ): { [fieldCode: string]: string } {
   const errors: { [fieldCode: string]: string } = {};
 
@@ -182,7 +340,8 @@ export function validateFormSubmission(
     const value = responses[question.fieldCode];
     const isRequired = requiredFields.has(question.fieldCode) || question.isRequired;
 
-    const error = validateQuestion(question, value, isRequired);
+    const error =
+      validateQuestion(question, value, isRequired) ?? validateCrossFieldRules(question, responses, context);
     if (error) {
       errors[question.fieldCode] = error;
     }
@@ -242,24 +401,79 @@ export const ValidationHelpers = {
   ]
 };
 
+const crossFieldComparisons: CrossFieldComparison[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+function isComparison(value: unknown): value is CrossFieldComparison {
+  return typeof value === 'string' && (crossFieldComparisons as string[]).includes(value);
+}
+
+function parseCrossFieldRule(value: unknown): CrossFieldRule | null {
+  if (!isJsonRecord(value) || typeof value.message !== 'string' || !value.message.trim()) {
+    return null;
+  }
+
+  const base: Pick<CrossFieldRule, 'message' | 'when'> = { message: value.message };
+  if (value.when !== undefined) {
+    const when = parseConditionalConfigValue(value.when);
+    if (!when) {
+      return null;
+    }
+    base.when = when;
+  }
+
+  switch (value.type) {
+    case 'compare':
+      return typeof value.field === 'string' && value.field && isComparison(value.operator)
+        ? { ...base, type: 'compare', operator: value.operator, field: value.field }
+        : null;
+
+    case 'sum':
+      return Array.isArray(value.fields) &&
+        value.fields.length > 0 &&
+        value.fields.every((field) => typeof field === 'string' && field) &&
+        isComparison(value.operator) &&
+        typeof value.value === 'number'
+        ? { ...base, type: 'sum', operator: value.operator, fields: value.fields as string[], value: value.value }
+        : null;
+
+    case 'min_rows':
+      return typeof value.value === 'number' && value.value >= 0
+        ? { ...base, type: 'min_rows', value: value.value }
+        : null;
+
+    default:
+      return null;
+  }
+}
+
 /**
- * Parse validation configuration from JSON stored in database
+ * Parse validation configuration from JSON stored in database. The same JSON
+ * may carry info-box metadata; only `rules`, `crossField` and `format` are read here.
  */
 export function parseValidationConfig(validationJson: unknown): ValidationConfig | null {
   try {
     if (!validationJson) return null;
 
-    // If it's already parsed
-    if (typeof validationJson === 'object' && validationJson !== null && 'rules' in validationJson) {
-      return validationJson as ValidationConfig;
+    // Stored as a JSON object or a JSON string
+    const raw: unknown = typeof validationJson === 'string' ? JSON.parse(validationJson) : validationJson;
+    if (!isJsonRecord(raw) || (!('rules' in raw) && !('crossField' in raw) && !('format' in raw))) {
+      return null;
     }
 
-    // If it's a JSON string
-    if (typeof validationJson === 'string') {
-      return JSON.parse(validationJson) as ValidationConfig;
+    const config: ValidationConfig = {
+      rules: Array.isArray(raw.rules) ? (raw.rules as ValidationRule[]) : [],
+    };
+    const crossField = (Array.isArray(raw.crossField) ? raw.crossField : [])
+      .map(parseCrossFieldRule)
+      .filter((rule): rule is CrossFieldRule => rule !== null);
+    if (crossField.length > 0) {
+      config.crossField = crossField;
     }
-
-    return null;
+    const format = getNumberFormat(raw);
+    if (Object.keys(format).length > 0) {
+      config.format = format;
+    }
+    return config;
   } catch (error) {
     console.error('Error parsing validation config:', error);
     return null;
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import type { Prisma } from '@prisma/client';
+import type { TechnologyWithSupplements } from '@/lib/technology/service';
+import { evaluateMetrics, recalculateTechnologyMetrics, MetricDefinition } from './engine';
+
+const buildTechnology = (
+  triage: Record<string, unknown> = {},
+  viability: Record<string, unknown> | null = null
+) =>
+  ({
+    id: 'tech-1',
+    techId: 'D25-0001',
+    status: 'ACTIVE',
+    triageStage: { id: 'triage-1', impactScore: 2, valueScore: 1, extendedData: null, ...triage },
+    viabilityStage: viability ? { id: 'viability-1', extendedData: null, ...viability } : null,
+  }) as unknown as TechnologyWithSupplements;
+
+const metric = (key: string, expression: string, extra: Partial<MetricDefinition> = {}): MetricDefinition => ({
+  id: `m-${key}`,
+  key,
+  expression,
+  status: 'OK',
+  calculatedAt: new Date('2025-01-01T00:00:00Z'),
+  ...extra,
+});
+
+describe('evaluateMetrics', () => {
+  it('evaluates metrics in dependency order using binding paths and dictionary keys', () => {
+    const results = evaluateMetrics(
+      [
+        metric('priority', 'if(metric.overall >= 2, 1, 0)'),
+        metric('overall', 'average(triage.impactScore, triageStage.valueScore, viabilityStage.technicalScore)'),
+      ],
+      {
+        technology: buildTechnology({ impactScore: 3 }, { technicalScore: 3 }),
+        dictionary: { 'triage.impactScore': 'triageStage.impactScore' },
+      }
+    );
+
+    expect(results.map((result) => [result.key, result.value, result.status])).toEqual([
+      ['overall', 7 / 3, 'OK'],
+      ['priority', 1, 'OK'],
+    ]);
+    expect(results[0].dependsOn).toEqual([
+      'triageStage.impactScore',
+      'triageStage.valueScore',
+      'viabilityStage.technicalScore',
+    ]);
+    expect(results[1].dependsOn).toEqual(['metric.overall']);
+  });
+
+  it('reads stage answers stored in extendedData through the dictionary', () => {
+    const [result] = evaluateMetrics([metric('risk', 'viability.riskScore * 2')], {
+      technology: buildTechnology({}, { extendedData: { 'viability.riskScore': { value: 1.5 } } }),
+      dictionary: { 'viability.riskScore': 'viabilityStage.riskScore' },
+    });
+
+    expect(result).toMatchObject({ value: 3, status: 'OK', dependsOn: ['viabilityStage.riskScore'] });
+  });
+
+  it('records cycles and propagates failures to dependents', () => {
+    const results = evaluateMetrics(
+      [
+        metric('a', 'metric.b + 1'),
+        metric('b', 'metric.a + 1'),
+        metric('c', 'metric.a * 2'),
+        metric('d', 'unknownThing + 1'),
+        metric('e', '1 +'),
+      ],
+      { technology: buildTechnology(), dictionary: {} }
+    );
+    const byKey = Object.fromEntries(results.map((result) => [result.key, result]));
+
+    expect(byKey.a).toMatchObject({ status: 'CYCLE', error: 'Circular dependency: a → b → a', value: null });
+    expect(byKey.b.status).toBe('CYCLE');
+    expect(byKey.c).toMatchObject({ status: 'ERROR', error: 'Depends on metric "a" (CYCLE)' });
+    expect(byKey.d).toMatchObject({ status: 'ERROR', error: 'Unknown identifier "unknownThing"' });
+    expect(byKey.e.status).toBe('ERROR');
+  });
+
+  it('keeps metrics pending while inputs are missing', () => {
+    const [result] = evaluateMetrics([metric('tech', 'viabilityStage.technicalScore * 2')], {
+      technology: buildTechnology(),
+      dictionary: {},
+    });
+
+    expect(result).toMatchObject({ value: null, status: 'PENDING', error: null });
+  });
+
+  it('limits recomputation to metrics affected by changed paths', () => {
+    const results = evaluateMetrics(
+      [
+        metric('impact', 'triageStage.impactScore * 10'),
+        metric('derived', 'metric.impact + 1'),
+        metric('value', 'triageStage.valueScore'),
+        metric('fresh', 'triageStage.valueScore * 2', { status: 'PENDING', calculatedAt: null }),
+      ],
+      { technology: buildTechnology(), dictionary: {} },
+      { changedPaths: ['triageStage.impactScore'] }
+    );
+
+    expect(results.map((result) => result.key).sort()).toEqual(['derived', 'fresh', 'impact']);
+  });
+});
+
+describe('recalculateTechnologyMetrics', () => {
+  const calculatedMetricFindMany = jest.fn();
+  const calculatedMetricUpdate = jest.fn();
+  const technologyFindUnique = jest.fn();
+  const questionDictionaryFindMany = jest.fn();
+
+  const mockTx = {
+    calculatedMetric: { findMany: calculatedMetricFindMany, update: calculatedMetricUpdate },
+    technology: { findUnique: technologyFindUnique },
+    questionDictionary: { findMany: questionDictionaryFindMany },
+  } as unknown as Prisma.TransactionClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('skips work when the technology has no metrics', async () => {
+    calculatedMetricFindMany.mockResolvedValue([]);
+
+    await expect(recalculateTechnologyMetrics(mockTx, 'tech-1')).resolves.toEqual([]);
+    expect(technologyFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('persists values, status, errors and resolved dependencies for changed inputs only', async () => {
+    calculatedMetricFindMany.mockResolvedValue([
+      metric('impact', 'triage.impactScore * 2'),
+      metric('value', 'triageStage.valueScore / 0'),
+    ]);
+    technologyFindUnique.mockResolvedValue(buildTechnology({ impactScore: 3 }));
+    questionDictionaryFindMany.mockResolvedValue([
+      { key: 'triage.impactScore', bindingPath: 'triageStage.impactScore' },
+    ]);
+
+    const results = await recalculateTechnologyMetrics(mockTx, 'tech-1', {
+      changedPaths: ['triageStage.impactScore', 'triageStage.valueScore'],
+      previous: buildTechnology({ impactScore: 2 }),
+    });
+
+    expect(questionDictionaryFindMany).toHaveBeenCalledWith({
+      where: { key: { in: ['triage.impactScore'] } },
+      select: { key: true, bindingPath: true },
+    });
+    // valueScore was written with the same value, so only impact is recomputed
+    expect(results.map((result) => result.key)).toEqual(['impact']);
+    expect(calculatedMetricUpdate).toHaveBeenCalledTimes(1);
+    expect(calculatedMetricUpdate).toHaveBeenCalledWith({
+      where: { id: 'm-impact' },
+      data: expect.objectContaining({
+        value: 6,
+        status: 'OK',
+        error: null,
+        dependsOn: ['triageStage.impactScore'],
+        calculatedAt: expect.any(Date),
+      }),
+    });
+  });
+
+  it('records evaluation errors on the metric row', async () => {
+    calculatedMetricFindMany.mockResolvedValue([metric('value', 'triageStage.valueScore / 0')]);
+    technologyFindUnique.mockResolvedValue(buildTechnology());
+
+    await recalculateTechnologyMetrics(mockTx, 'tech-1');
+
+    expect(questionDictionaryFindMany).not.toHaveBeenCalled();
+    expect(calculatedMetricUpdate).toHaveBeenCalledWith({
+      where: { id: 'm-value' },
+      data: expect.objectContaining({ value: null, status: 'ERROR', error: 'Division by zero' }),
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import type { CalculatedMetric, Prisma } from '@prisma/client';
+import type { TechnologyWithSupplements } from '@/lib/technology/service';
+import {
+  ExpressionError,
+  ExpressionNode,
+  ExpressionValue,
+  collectIdentifiers,
+  evaluateExpression,
+  parseExpression,
+} from './expression';
+
+// Recomputes CalculatedMetric rows for a technology. Expressions reference binding
+// paths (triageStage.impactScore), dictionary keys (triage.marketScore) or other
+// metrics (metric.overallScore); dependencies are resolved to binding paths and
+// metrics are evaluated in topological order.
+
+export const METRIC_STATUS = {
+  PENDING: 'PENDING',
+  OK: 'OK',
+  ERROR: 'ERROR',
+  CYCLE: 'CYCLE',
+} as const;
+
+export type MetricStatus = (typeof METRIC_STATUS)[keyof typeof METRIC_STATUS];
+
+const BINDING_ROOTS = ['technology', 'triageStage', 'viabilityStage'] as const;
+const METRIC_PREFIX = 'metric.';
+
+export type MetricDefinition = Pick<CalculatedMetric, 'id' | 'key' | 'expression'> &
+  Partial<Pick<CalculatedMetric, 'status' | 'calculatedAt'>>;
+
+export interface MetricResult {
+  id: string;
+  key: string;
+  value: number | null;
+  status: MetricStatus;
+  error: string | null;
+  /** Canonical dependencies: binding paths and metric.<key> references */
+  dependsOn: string[];
+}
+
+export interface MetricContext {
+  technology: TechnologyWithSupplements | null;
+  /** Dictionary key → binding path */
+  dictionary: Record<string, string>;
+}
+
+export interface EvaluateMetricsOptions {
+  /**
+   * Binding paths whose values changed. When provided only metrics that depend on
+   * them (directly or through other metrics) are returned, plus any never calculated.
+   */
+  changedPaths?: string[];
+}
+
+interface CompiledMetric {
+  metric: MetricDefinition;
+  ast: ExpressionNode | null;
+  dependsOn: string[];
+  error: string | null;
+}
+
+function isBindingPath(name: string) {
+  const [root, ...rest] = name.split('.');
+  return rest.length > 0 && (BINDING_ROOTS as readonly string[]).includes(root);
+}
+
+/**
+ * Map an identifier to its canonical dependency (binding path or metric.<key>).
+ */
+function canonicalize(name: string, metricKeys: Set<string>, dictionary: Record<string, string>): string {
+  if (name.startsWith(METRIC_PREFIX)) {
+    const key = name.slice(METRIC_PREFIX.length);
+    if (!metricKeys.has(key)) {
+      throw new ExpressionError(`Unknown metric "${key}"`);
+    }
+    return name;
+  }
+  if (isBindingPath(name)) {
+    return name;
+  }
+  if (metricKeys.has(name)) {
+    return `${METRIC_PREFIX}${name}`;
+  }
+  if (dictionary[name]) {
+    return dictionary[name];
+  }
+  throw new ExpressionError(`Unknown identifier "${name}"`);
+}
+
+function compileMetric(
+  metric: MetricDefinition,
+  metricKeys: Set<string>,
+  dictionary: Record<string, string>
+): CompiledMetric {
+  try {
+    const ast = parseExpression(metric.expression);
+    const dependsOn = Array.from(
+      new Set(collectIdentifiers(ast).map((name) => canonicalize(name, metricKeys, dictionary)))
+    );
+    return { metric, ast, dependsOn, error: null };
+  } catch (error) {
+    return { metric, ast: null, dependsOn: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function readVersionedValue(extendedData: Prisma.JsonValue | null | undefined, dictionaryKey: string): unknown {
+  if (!extendedData || typeof extendedData !== 'object' || Array.isArray(extendedData)) {
+    return undefined;
+  }
+  const entry = (extendedData as Record<string, unknown>)[dictionaryKey];
+  if (entry && typeof entry === 'object' && 'value' in entry) {
+    return (entry as { value: unknown }).value;
+  }
+  return undefined;
+}
+
+function toExpressionValue(value: unknown): ExpressionValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  throw new ExpressionError('Only scalar values can be used in expressions');
+}
+
+/**
+ * Raw value at a binding path. Stage fields that are not columns fall back to
+ * extendedData answers saved under a matching dictionary key.
+ */
+export function readTechnologyValue(bindingPath: string, context: MetricContext): unknown {
+  const { technology, dictionary } = context;
+  if (!technology) return undefined;
+
+  const [root, ...rest] = bindingPath.split('.');
+  const field = rest.join('.');
+  const record =
+    root === 'technology'
+      ? technology
+      : root === 'triageStage'
+        ? technology.triageStage
+        : root === 'viabilityStage'
+          ? technology.viabilityStage
+          : null;
+
+  if (!record) return undefined;
+
+  const direct = (record as Record<string, unknown>)[field];
+  if (direct !== undefined || root === 'technology') {
+    return direct;
+  }
+
+  const extendedData = (record as { extendedData?: Prisma.JsonValue | null }).extendedData;
+  for (const [dictionaryKey, path] of Object.entries(dictionary)) {
+    if (path === bindingPath) {
+      const value = readVersionedValue(extendedData, dictionaryKey);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a binding path from the technology aggregate as an expression value.
+ */
+export function resolveMetricInput(bindingPath: string, context: MetricContext): ExpressionValue {
+  return toExpressionValue(readTechnologyValue(bindingPath, context));
+}
+
+/**
+ * Find metrics that take part in a dependency cycle. Returns key → cycle description.
+ */
+function findCycles(compiled: Map<string, CompiledMetric>): Map<string, string> {
+  const cycles = new Map<string, string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (key: string) => {
+    state.set(key, 'visiting');
+    stack.push(key);
+
+    for (const dependency of compiled.get(key)?.dependsOn ?? []) {
+      if (!dependency.startsWith(METRIC_PREFIX)) continue;
+      const target = dependency.slice(METRIC_PREFIX.length);
+      const targetState = state.get(target);
+      if (targetState === 'visiting') {
+        const members = stack.slice(stack.indexOf(target));
+        const description = `Circular dependency: ${[...members, target].join(' → ')}`;
+        members.forEach((member) => {
+          if (!cycles.has(member)) cycles.set(member, description);
+        });
+      } else if (!targetState) {
+        visit(target);
+      }
+    }
+
+    stack.pop();
+    state.set(key, 'done');
+  };
+
+  for (const key of compiled.keys()) {
+    if (!state.has(key)) visit(key);
+  }
+
+  return cycles;
+}
+
+/**
+ * Order metric keys so every metric follows the metrics it depends on.
+ */
+function topologicalOrder(compiled: Map<string, CompiledMetric>, cycles: Map<string, string>): string[] {
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (key: string) => {
+    if (visited.has(key) || cycles.has(key)) return;
+    visited.add(key);
+    for (const dependency of compiled.get(key)?.dependsOn ?? []) {
+      if (dependency.startsWith(METRIC_PREFIX)) {
+        visit(dependency.slice(METRIC_PREFIX.length));
+      }
+    }
+    ordered.push(key);
+  };
+
+  compiled.forEach((_, key) => visit(key));
+  return ordered;
+}
+
+function affectedKeys(compiled: Map<string, CompiledMetric>, changedPaths: string[]): Set<string> {
+  const changed = new Set(changedPaths);
+  const affected = new Set<string>();
+
+  compiled.forEach((entry, key) => {
+    const neverCalculated = !entry.metric.calculatedAt || entry.metric.status === METRIC_STATUS.PENDING;
+    if (neverCalculated || entry.dependsOn.some((dependency) => changed.has(dependency))) {
+      affected.add(key);
+    }
+  });
+
+  // Propagate to metrics that depend on affected metrics
+  let grew = true;
+  while (grew) {
+    grew = false;
+    compiled.forEach((entry, key) => {
+      if (affected.has(key)) return;
+      const dependsOnAffected = entry.dependsOn.some(
+        (dependency) => dependency.startsWith(METRIC_PREFIX) && affected.has(dependency.slice(METRIC_PREFIX.length))
+      );
+      if (dependsOnAffected) {
+        affected.add(key);
+        grew = true;
+      }
+    });
+  }
+
+  return affected;
+}
+
+/**
+ * Evaluate metric definitions against a technology. Pure; persistence lives in
+ * recalculateTechnologyMetrics.
+ */
+export function evaluateMetrics(
+  metrics: MetricDefinition[],
+  context: MetricContext,
+  options: EvaluateMetricsOptions = {}
+): MetricResult[] {
+  const metricKeys = new Set(metrics.map((metric) => metric.key));
+  const compiled = new Map<string, CompiledMetric>();
+  for (const metric of metrics) {
+    // Keys are not unique in the schema; the first definition wins and later duplicates error out
+    if (compiled.has(metric.key)) continue;
+    compiled.set(metric.key, compileMetric(metric, metricKeys, context.dictionary));
+  }
+
+  const cycles = findCycles(compiled);
+  const results = new Map<string, MetricResult>();
+
+  const fail = (entry: CompiledMetric, status: MetricStatus, error: string): MetricResult => ({
+    id: entry.metric.id,
+    key: entry.metric.key,
+    value: null,
+    status,
+    error,
+    dependsOn: entry.dependsOn,
+  });
+
+  cycles.forEach((description, key) => {
+    results.set(key, fail(compiled.get(key)!, METRIC_STATUS.CYCLE, description));
+  });
+
+  for (const key of topologicalOrder(compiled, cycles)) {
+    const entry = compiled.get(key)!;
+    if (!entry.ast) {
+      results.set(key, fail(entry, METRIC_STATUS.ERROR, entry.error ?? 'Invalid expression'));
+      continue;
+    }
+
+    const blocked = entry.dependsOn
+      .filter((dependency) => dependency.startsWith(METRIC_PREFIX))
+      .map((dependency) => results.get(dependency.slice(METRIC_PREFIX.length)))
+      .find((result) => result && (result.status === METRIC_STATUS.ERROR || result.status === METRIC_STATUS.CYCLE));
+    if (blocked) {
+      results.set(key, fail(entry, METRIC_STATUS.ERROR, `Depends on metric "${blocked.key}" (${blocked.status})`));
+      continue;
+    }
+
+    try {
+      const value = evaluateExpression(entry.ast, (name) => {
+        const dependency = canonicalize(name, metricKeys, context.dictionary);
+        if (dependency.startsWith(METRIC_PREFIX)) {
+          return results.get(dependency.slice(METRIC_PREFIX.length))?.value ?? null;
+        }
+        return resolveMetricInput(dependency, context);
+      });
+
+      if (typeof value === 'string') {
+        throw new ExpressionError('Expression must evaluate to a number or boolean');
+      }
+
+      const numeric = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+      results.set(key, {
+        id: entry.metric.id,
+        key,
+        value: numeric,
+        // A null result means inputs are still missing; keep the metric pending
+        status: numeric === null ? METRIC_STATUS.PENDING : METRIC_STATUS.OK,
+        error: null,
+        dependsOn: entry.dependsOn,
+      });
+    } catch (error) {
+      results.set(key, fail(entry, METRIC_STATUS.ERROR, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  const duplicates = metrics
+    .filter((metric) => compiled.get(metric.key)?.metric !== metric)
+    .map<MetricResult>((metric) => ({
+      id: metric.id,
+      key: metric.key,
+      value: null,
+      status: METRIC_STATUS.ERROR,
+      error: `Duplicate metric key "${metric.key}"`,
+      dependsOn: [],
+    }));
+
+  const selected = options.changedPaths ? affectedKeys(compiled, options.changedPaths) : null;
+  return [
+    ...Array.from(results.values()).filter((result) => !selected || selected.has(result.key)),
+    ...duplicates,
+  ];
+}
+
+export interface RecalculateMetricsOptions extends EvaluateMetricsOptions {
+  /** Snapshot taken before the write; changedPaths are narrowed to values that differ */
+  previous?: TechnologyWithSupplements | null;
+}
+
+/**
+ * Recompute and persist the metrics of one technology inside the caller's transaction.
+ */
+export async function recalculateTechnologyMetrics(
+  tx: Prisma.TransactionClient,
+  technologyId: string,
+  options: RecalculateMetricsOptions = {}
+): Promise<MetricResult[]> {
+  const metrics = await tx.calculatedMetric.findMany({
+    where: { technologyId },
+    orderBy: { key: 'asc' },
+  });
+  if (metrics.length === 0) {
+    return [];
+  }
+
+  const technology = await tx.technology.findUnique({
+    where: { id: technologyId },
+    include: { triageStage: true, viabilityStage: true },
+  });
+
+  const identifiers = new Set<string>();
+  for (const metric of metrics) {
+    try {
+      collectIdentifiers(parseExpression(metric.expression)).forEach((name) => identifiers.add(name));
+    } catch {
+      // Reported per metric by evaluateMetrics
+    }
+  }
+  const lookupKeys = Array.from(identifiers).filter((name) => !isBindingPath(name) && !name.startsWith(METRIC_PREFIX));
+  const dictionaryEntries = lookupKeys.length
+    ? await tx.questionDictionary.findMany({
+        where: { key: { in: lookupKeys } },
+        select: { key: true, bindingPath: true },
+      })
+    : [];
+  const dictionary = Object.fromEntries(dictionaryEntries.map((entry) => [entry.key, entry.bindingPath]));
+  const context: MetricContext = { technology, dictionary };
+
+  let changedPaths = options.changedPaths;
+  if (changedPaths && options.previous !== undefined) {
+    const previousContext: MetricContext = { technology: options.previous, dictionary };
+    changedPaths = changedPaths.filter(
+      (path) =>
+        JSON.stringify(readTechnologyValue(path, previousContext) ?? null) !==
+        JSON.stringify(readTechnologyValue(path, context) ?? null)
+    );
+  }
+
+  const results = evaluateMetrics(metrics, context, { changedPaths });
+  const calculatedAt = new Date();
+
+  for (const result of results) {
+    await tx.calculatedMetric.update({
+      where: { id: result.id },
+      data: {
+        value: result.value,
+        status: result.status,
+        error: result.error,
+        dependsOn: result.dependsOn,
+        calculatedAt,
+      },
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,59 @@
+import {
+  ExpressionError,
+  collectIdentifiers,
+  evaluateExpression,
+  parseExpression,
+} from './expression';
+
+const evaluate = (source: string, values: Record<string, unknown> = {}) =>
+  evaluateExpression(parseExpression(source), (name) => {
+    if (!(name in values)) throw new ExpressionError(`Unknown identifier "${name}"`);
+    return values[name] as never;
+  });
+
+describe('metric expressions', () => {
+  it('evaluates arithmetic with precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-2 + 10 % 4')).toBe(0);
+    expect(evaluate('.5 * 4')).toBe(2);
+  });
+
+  it('supports comparisons, logic keywords and if()', () => {
+    expect(evaluate('a >= 2 and not b', { a: 2, b: false })).toBe(true);
+    expect(evaluate('if(status == "ACTIVE" or a > 5, 10, 0)', { status: 'ACTIVE', a: 1 })).toBe(10);
+    expect(evaluate("if(a < 1, missing, 'fallback')", { a: 3 })).toBe('fallback');
+  });
+
+  it('resolves dotted identifiers and skips nulls in aggregates', () => {
+    const values = { 'triageStage.impactScore': 2, 'viabilityStage.technicalScore': null };
+    expect(evaluate('average(triageStage.impactScore, viabilityStage.technicalScore)', values)).toBe(2);
+    expect(evaluate('triageStage.impactScore + viabilityStage.technicalScore', values)).toBeNull();
+    expect(evaluate('coalesce(viabilityStage.technicalScore, 1.5)', values)).toBe(1.5);
+    expect(evaluate('round(10 / 3, 2)')).toBe(3.33);
+    expect(evaluate('clamp(7, 0, 3)')).toBe(3);
+  });
+
+  it('lists identifiers once in first-use order', () => {
+    expect(collectIdentifiers(parseExpression('max(a.b, c) + a.b * metric.total'))).toEqual([
+      'a.b',
+      'c',
+      'metric.total',
+    ]);
+  });
+
+  it('rejects invalid syntax, unknown functions and unsafe input', () => {
+    expect(() => parseExpression('1 +')).toThrow(ExpressionError);
+    expect(() => parseExpression('constructor(1)')).toThrow('Unknown function "constructor"');
+    expect(() => parseExpression('process.exit()')).toThrow('Unknown function');
+    expect(() => parseExpression('a; b')).toThrow('Unexpected character ";"');
+    expect(() => parseExpression('round()')).toThrow('called with 0 argument(s)');
+    expect(() => parseExpression('')).toThrow('Expression is empty');
+  });
+
+  it('reports runtime errors', () => {
+    expect(() => evaluate('1 / 0')).toThrow('Division by zero');
+    expect(() => evaluate('a * 2', { a: 'high' })).toThrow('Expected a number');
+    expect(evaluate('a * 2', { a: '1.5' })).toBe(3);
+  });
+});
@@ -0,0 +1,524 @@
+// Safe arithmetic/logic expressions for CalculatedMetric rows. Expressions are
+// parsed into a small AST and interpreted; nothing is ever passed to eval/Function.
+//
+//   average(triageStage.impactScore, viabilityStage.technicalScore)
+//   if(metric.overallScore >= 2 and technology.status == "ACTIVE", 1, 0)
+
+export type ExpressionValue = number | string | boolean | null;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||';
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ','];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+      if (!match) {
+        throw new ExpressionError(`Invalid number at position ${index}`);
+      }
+      tokens.push({ kind: 'number', value: Number(match[0]), position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      let value = '';
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end += 1;
+        }
+        value += source[end];
+        end += 1;
+      }
+      if (end >= source.length) {
+        throw new ExpressionError(`Unterminated string at position ${index}`);
+      }
+      tokens.push({ kind: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      // Identifiers may be binding paths (triageStage.impactScore) or dictionary keys (triage.marketScore)
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*/.exec(source.slice(index));
+      const word = match![0];
+      const lower = word.toLowerCase();
+      const keyword = Object.prototype.hasOwnProperty.call(KEYWORD_OPERATORS, lower)
+        ? KEYWORD_OPERATORS[lower]
+        : undefined;
+      tokens.push(
+        keyword
+          ? { kind: 'operator', value: keyword, position: index }
+          : { kind: 'identifier', value: word, position: index }
+      );
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}" at position ${index}`);
+    }
+    tokens.push({ kind: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: Array<BinaryOperator[]> = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new ExpressionError(`Unexpected token at position ${next.position}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    this.index += 1;
+    return token;
+  }
+
+  private isOperator(value: string) {
+    const token = this.peek();
+    return token.kind === 'operator' && token.value === value;
+  }
+
+  private expectOperator(value: string) {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new ExpressionError(`Expected "${value}" at position ${token.position}`);
+    }
+  }
+
+  private enter() {
+    this.depth += 1;
+    if (this.depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    const operators = BINARY_PRECEDENCE[level];
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== 'operator' || !operators.includes(token.value as BinaryOperator)) {
+        return left;
+      }
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-') || this.isOperator('!')) {
+      const operator = this.next() as { value: '-' | '!' };
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth -= 1;
+      return { type: 'unary', operator: operator.value, operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+          return { type: 'literal', value: lower === 'true' };
+        }
+        if (lower === 'null') {
+          return { type: 'literal', value: null };
+        }
+        if (this.isOperator('(')) {
+          return this.parseCall(token.value);
+        }
+        return { type: 'identifier', name: token.value };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          this.enter();
+          const inner = this.parseBinary(0);
+          this.depth -= 1;
+          this.expectOperator(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position}`);
+      default:
+        throw new ExpressionError('Unexpected end of expression');
+    }
+  }
+
+  private parseCall(name: string): ExpressionNode {
+    const fn = name.toLowerCase();
+    const arity = getFunctionArity(fn);
+    if (!arity) {
+      throw new ExpressionError(`Unknown function "${name}"`);
+    }
+
+    this.expectOperator('(');
+    this.enter();
+    const args: ExpressionNode[] = [];
+    if (!this.isOperator(')')) {
+      do {
+        args.push(this.parseBinary(0));
+      } while (this.isOperator(',') && this.next());
+    }
+    this.depth -= 1;
+    this.expectOperator(')');
+
+    const { minArgs, maxArgs } = arity;
+    if (args.length < minArgs || (maxArgs !== undefined && args.length > maxArgs)) {
+      throw new ExpressionError(`Function "${fn}" called with ${args.length} argument(s)`);
+    }
+
+    return { type: 'call', name: fn, args };
+  }
+}
+
+/**
+ * Parse an expression into an AST. Throws ExpressionError on invalid syntax.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new ExpressionError('Expression is empty');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Identifiers referenced by an expression, in first-use order.
+ */
+export function collectIdentifiers(node: ExpressionNode, into: string[] = []): string[] {
+  switch (node.type) {
+    case 'identifier':
+      if (!into.includes(node.name)) {
+        into.push(node.name);
+      }
+      break;
+    case 'unary':
+      collectIdentifiers(node.operand, into);
+      break;
+    case 'binary':
+      collectIdentifiers(node.left, into);
+      collectIdentifiers(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectIdentifiers(arg, into));
+      break;
+    default:
+      break;
+  }
+  return into;
+}
+
+function toNumber(value: ExpressionValue, context: string): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(value);
+  if (value.trim() !== '' && Number.isFinite(parsed)) {
+    return parsed;
+  }
+  throw new ExpressionError(`Expected a number for ${context}, received "${value}"`);
+}
+
+function toBoolean(value: ExpressionValue): boolean {
+  if (typeof value === 'string') return value.length > 0;
+  return Boolean(value);
+}
+
+function numericArgs(values: ExpressionValue[], fn: string): number[] {
+  return values
+    .map((value) => toNumber(value, `${fn}()`))
+    .filter((value): value is number => value !== null);
+}
+
+interface FunctionArity {
+  minArgs: number;
+  maxArgs?: number;
+}
+
+interface FunctionDefinition extends FunctionArity {
+  apply: (args: ExpressionValue[]) => ExpressionValue;
+}
+
+// Evaluated in evaluateNode so only the taken branch is resolved.
+const CONTROL_FUNCTIONS: Record<string, FunctionArity> = {
+  if: { minArgs: 3, maxArgs: 3 },
+  coalesce: { minArgs: 1 },
+};
+
+// Aggregates skip nulls so a missing stage does not blank the whole metric.
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  average: {
+    minArgs: 1,
+    apply: (args) => {
+      const values = numericArgs(args, 'average');
+      return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    },
+  },
+  sum: {
+    minArgs: 1,
+    apply: (args) => {
+      const values = numericArgs(args, 'sum');
+      return values.length ? values.reduce((sum, value) => sum + value, 0) : null;
+    },
+  },
+  min: {
+    minArgs: 1,
+    apply: (args) => {
+      const values = numericArgs(args, 'min');
+      return values.length ? Math.min(...values) : null;
+    },
+  },
+  max: {
+    minArgs: 1,
+    apply: (args) => {
+      const values = numericArgs(args, 'max');
+      return values.length ? Math.max(...values) : null;
+    },
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => {
+      const num = toNumber(value, 'abs()');
+      return num === null ? null : Math.abs(num);
+    },
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([value, digits]) => {
+      const num = toNumber(value, 'round()');
+      if (num === null) return null;
+      const factor = 10 ** (toNumber(digits ?? 0, 'round() digits') ?? 0);
+      return Math.round(num * factor) / factor;
+    },
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => {
+      const num = toNumber(value, 'floor()');
+      return num === null ? null : Math.floor(num);
+    },
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => {
+      const num = toNumber(value, 'ceil()');
+      return num === null ? null : Math.ceil(num);
+    },
+  },
+  clamp: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([value, low, high]) => {
+      const num = toNumber(value, 'clamp()');
+      if (num === null) return null;
+      return Math.min(toNumber(high, 'clamp() max') ?? num, Math.max(toNumber(low, 'clamp() min') ?? num, num));
+    },
+  },
+};
+
+function getFunctionArity(name: string): FunctionArity | undefined {
+  if (Object.prototype.hasOwnProperty.call(CONTROL_FUNCTIONS, name)) {
+    return CONTROL_FUNCTIONS[name];
+  }
+  if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+    return FUNCTIONS[name];
+  }
+  return undefined;
+}
+
+export type IdentifierResolver = (name: string) => ExpressionValue;
+
+function evaluateNode(node: ExpressionNode, resolve: IdentifierResolver): ExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return resolve(node.name);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (node.operator === '!') {
+        return !toBoolean(operand);
+      }
+      const num = toNumber(operand, 'unary minus');
+      return num === null ? null : -num;
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        return toBoolean(evaluateNode(node.left, resolve)) && toBoolean(evaluateNode(node.right, resolve));
+      }
+      if (node.operator === '||') {
+        return toBoolean(evaluateNode(node.left, resolve)) || toBoolean(evaluateNode(node.right, resolve));
+      }
+
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+
+      if (node.operator === '==') return left === right;
+      if (node.operator === '!=') return left !== right;
+
+      if (typeof left === 'string' && typeof right === 'string' && ['<', '<=', '>', '>='].includes(node.operator)) {
+        return compare(node.operator, left.localeCompare(right), 0);
+      }
+
+      const a = toNumber(left, `"${node.operator}"`);
+      const b = toNumber(right, `"${node.operator}"`);
+      if (a === null || b === null) {
+        return null;
+      }
+
+      switch (node.operator) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+          if (b === 0) throw new ExpressionError('Division by zero');
+          return a / b;
+        case '%':
+          if (b === 0) throw new ExpressionError('Division by zero');
+          return a % b;
+        default:
+          return compare(node.operator, a, b);
+      }
+    }
+
+    case 'call': {
+      if (node.name === 'if') {
+        const [condition, whenTrue, whenFalse] = node.args;
+        return toBoolean(evaluateNode(condition, resolve))
+          ? evaluateNode(whenTrue, resolve)
+          : evaluateNode(whenFalse, resolve);
+      }
+      if (node.name === 'coalesce') {
+        for (const arg of node.args) {
+          const value = evaluateNode(arg, resolve);
+          if (value !== null) return value;
+        }
+        return null;
+      }
+      const fn = FUNCTIONS[node.name];
+      return fn.apply(node.args.map((arg) => evaluateNode(arg, resolve)));
+    }
+
+    default:
+      return null;
+  }
+}
+
+function compare(operator: BinaryOperator, a: number, b: number): boolean {
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      throw new ExpressionError(`Unsupported operator "${operator}"`);
+  }
+}
+
+/**
+ * Evaluate a parsed expression. Unknown identifiers should be rejected by the
+ * resolver; missing values resolve to null and propagate through arithmetic.
+ */
+export function evaluateExpression(node: ExpressionNode, resolve: IdentifierResolver): ExpressionValue {
+  const value = evaluateNode(node, resolve);
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new ExpressionError('Expression produced a non-finite number');
+  }
+  return value;
+}
@@ -1,4 +1,14 @@
 // Scoring calculations based on the requirements from questions_broken_out.txt
+// These fixed-field helpers describe the default triage model; template-aware
+// scoring (configurable groups and weights) lives in ./model.
+
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RECOMMENDATION_COLOR_STYLES,
+  RecommendationRules,
+  evaluateRecommendation,
+  getRecommendationColorToken,
+} from './recommendations';
 
 export interface ScoringInputs {
   missionAlignmentScore: number; // F2.1.score (0-3)
@@ -69,47 +79,15 @@ export function calculateOverallScore(
 
 /**
  * Determine recommendation based on Impact vs Value matrix
- * Uses the same logic as the original Excel scorecard
+ * Defaults to the original Excel scorecard rules; templates may supply their own rule set
  */
 export function calculateRecommendation(
   impactScore: number,
-  valueScore: number
-): 'Proceed' | 'Consider Alternative Pathway' | 'Close' {
-  // Convert 0-3 scores to percentages for matrix evaluation
-  const impactPercent = (impactScore / 3) * 100;
-  const valuePercent = (valueScore / 3) * 100;
-
-  // High Impact (>67%) + High Value (>67%) = Proceed
-  if (impactPercent > 67 && valuePercent > 67) {
-    return 'Proceed';
-  }
-
-  // High Impact (>67%) + Medium Value (33-67%) = Proceed
-  if (impactPercent > 67 && valuePercent >= 33 && valuePercent <= 67) {
-    return 'Proceed';
-  }
-
-  // Medium Impact (33-67%) + High Value (>67%) = Proceed
-  if (impactPercent >= 33 && impactPercent <= 67 && valuePercent > 67) {
-    return 'Proceed';
-  }
-
-  // Medium Impact + Medium Value = Consider Alternative Pathway
-  if (impactPercent >= 33 && impactPercent <= 67 && valuePercent >= 33 && valuePercent <= 67) {
-    return 'Consider Alternative Pathway';
-  }
-
-  // Low Impact (<33%) or Low Value (<33%) = Close or Consider Alternative
-  if (impactPercent < 33 || valuePercent < 33) {
-    // If one dimension is very low, recommend Close
-    if (impactPercent < 20 || valuePercent < 20) {
-      return 'Close';
-    }
-    return 'Consider Alternative Pathway';
-  }
-
-  // Default fallback
-  return 'Consider Alternative Pathway';
+  valueScore: number,
+  maxScore = 3,
+  rules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+): string {
+  return evaluateRecommendation(rules, impactScore, valueScore, maxScore).band.label;
 }
 
 /**
@@ -216,17 +194,11 @@ export const scoringCriteria = {
 };
 
 /**
- * Get recommendation color for UI styling
+ * Get recommendation color for UI styling, using the band colours of the given rule set
  */
-export function getRecommendationColor(recommendation: string): string {
-  switch (recommendation) {
-    case 'Proceed':
-      return 'text-green-600 bg-green-100';
-    case 'Consider Alternative Pathway':
-      return 'text-yellow-600 bg-yellow-100';
-    case 'Close':
-      return 'text-red-600 bg-red-100';
-    default:
-      return 'text-gray-600 bg-gray-100';
-  }
+export function getRecommendationColor(
+  recommendation: string,
+  rules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+): string {
+  return RECOMMENDATION_COLOR_STYLES[getRecommendationColorToken(recommendation, rules)].text;
 }
\ No newline at end of file
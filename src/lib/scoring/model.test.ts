@@ -0,0 +1,258 @@
+import { FieldType } from '@prisma/client';
+import type { ScoringConfig } from '@prisma/client';
+import { buildQuestion, buildSection, buildTemplate } from '@/lib/form-engine/test-utils';
+import { calculateAllScores, extractScoringInputs } from './calculations';
+import {
+  DEFAULT_SCORING_MODEL,
+  calculateTemplateScores,
+  parseScoringModel,
+  parseScoringModelInput,
+  resolveScoringModel,
+  toScoreBindingValues,
+  toScoreRecord,
+  validateScoringModel,
+} from './model';
+
+function scoringConfig(weight: number): ScoringConfig {
+  return {
+    id: `sc-${weight}`,
+    questionId: 'q',
+    minScore: 0,
+    maxScore: 3,
+    weight,
+    criteria: { '0': 'None', '1': 'Low', '2': 'Medium', '3': 'High' },
+  };
+}
+
+function scoredQuestion(fieldCode: string, weight = 1) {
+  return buildQuestion({
+    fieldCode,
+    label: `${fieldCode} label`,
+    type: FieldType.SCORING_0_3,
+    scoringConfig: scoringConfig(weight),
+  });
+}
+
+const DEFAULT_CODES = ['F2.1.score', 'F2.2.score', 'F3.2.score', 'F4.4.a', 'F4.4.b', 'F4.4.c'];
+
+describe('scoring model', () => {
+  it('reproduces the legacy impact/value calculation for the default triage template', () => {
+    const template = buildTemplate({
+      sections: [buildSection({ questions: DEFAULT_CODES.map((code) => scoredQuestion(code)) })],
+    });
+    const responses = {
+      'F2.1.score': 3,
+      'F2.2.score': 2,
+      'F3.2.score': 1,
+      'F4.4.a': 3,
+      'F4.4.b': 2,
+      'F4.4.c': 0,
+    };
+
+    const result = calculateTemplateScores(template, responses);
+    const legacy = calculateAllScores(extractScoringInputs(responses));
+
+    expect(result.model).toBe(DEFAULT_SCORING_MODEL);
+    expect(toScoreRecord(result)).toEqual({
+      impactScore: legacy.impactScore,
+      valueScore: legacy.valueScore,
+      marketScore: legacy.marketScore,
+      overallScore: legacy.overallScore,
+    });
+    expect(result.recommendation).toBe(legacy.recommendation);
+    expect(result.matrix?.x.key).toBe('impact');
+    expect(result.matrix?.y.key).toBe('value');
+  });
+
+  it('weights criteria by ScoringConfig.weight', () => {
+    const template = buildTemplate({
+      sections: [
+        buildSection({
+          questions: [scoredQuestion('F2.1.score', 3), scoredQuestion('F2.2.score', 1)],
+        }),
+      ],
+    });
+
+    const result = calculateTemplateScores(template, { 'F2.1.score': 3, 'F2.2.score': 1 });
+    const impact = result.groups.find((group) => group.key === 'impact');
+
+    expect(impact?.value).toBe(2.5);
+    expect(impact?.criteria.map((criterion) => criterion.weight)).toEqual([0.75, 0.25]);
+    expect(impact?.criteria[0].description).toBe('High');
+  });
+
+  it('uses the stored scoring model when present', () => {
+    const template = buildTemplate({
+      scoringModel: {
+        maxScore: 3,
+        groups: [
+          {
+            key: 'feasibility',
+            label: 'Feasibility',
+            criteria: [{ fieldCode: 'T1' }, { fieldCode: 'T2', weight: 3 }],
+          },
+          {
+            key: 'total',
+            label: 'Total',
+            role: 'composite',
+            aggregation: 'sum',
+            criteria: [{ group: 'feasibility', weight: 2 }],
+          },
+        ],
+      },
+      sections: [buildSection({ questions: [scoredQuestion('T1'), scoredQuestion('T2')] })],
+    });
+
+    const result = calculateTemplateScores(template, { T1: 2, T2: 2 });
+
+    expect(toScoreRecord(result)).toEqual({ feasibilityScore: 2, totalScore: 4 });
+    expect(result.matrix).toBeNull();
+  });
+
+  it('derives an overall group for templates that use other field codes', () => {
+    const template = buildTemplate({
+      sections: [
+        buildSection({
+          questions: [
+            scoredQuestion('CUSTOM.1'),
+            scoredQuestion('CUSTOM.2'),
+            buildQuestion({ fieldCode: 'NOTES', type: FieldType.LONG_TEXT }),
+          ],
+        }),
+      ],
+    });
+
+    const model = resolveScoringModel(template);
+    expect(model.groups).toHaveLength(1);
+    expect(model.groups[0].criteria.map((criterion) => criterion.fieldCode)).toEqual(['CUSTOM.1', 'CUSTOM.2']);
+
+    const result = calculateTemplateScores(template, { 'CUSTOM.1': 3, 'CUSTOM.2': 2 });
+    expect(toScoreRecord(result)).toEqual({ overallScore: 2.5 });
+    expect(result.recommendation).toBe('Proceed');
+  });
+
+  it('evaluates the recommendation with the pinned rule set', () => {
+    const ruleSet = {
+      id: 'rules-1',
+      version: 1,
+      name: 'FY26',
+      rules: {
+        bands: [
+          { key: 'go', label: 'Go', color: 'blue' },
+          { key: 'stop', label: 'Stop', color: 'red' },
+        ],
+        rules: [{ band: 'go', match: 'all', conditions: [{ axis: 'x', op: 'gte', value: 90 }] }],
+        defaultBand: 'stop',
+      },
+    };
+    const template = buildTemplate({
+      sections: [buildSection({ questions: [scoredQuestion('CUSTOM.1')] })],
+      recommendationRuleSets: [{ ...ruleSet, templateId: 'template-1', createdBy: 'tester', createdAt: new Date() }],
+    });
+
+    const active = calculateTemplateScores(template, { 'CUSTOM.1': 3 });
+    expect(active.recommendation).toBe('Go');
+    expect(active.recommendationRuleSet?.id).toBe('rules-1');
+
+    const pinnedDefault = calculateTemplateScores(template, { 'CUSTOM.1': 3 }, null);
+    expect(pinnedDefault.recommendation).toBe('Proceed');
+    expect(pinnedDefault.recommendationRuleSet).toBeNull();
+  });
+
+  it('falls back when the stored model is invalid', () => {
+    expect(parseScoringModel({ groups: [] })).toBeNull();
+    expect(
+      parseScoringModel({
+        groups: [{ key: 'a', label: 'A', criteria: [{ group: 'missing' }] }],
+      })
+    ).toBeNull();
+  });
+
+  it('reports cycles and unknown references', () => {
+    const issues = validateScoringModel(
+      {
+        version: 1,
+        minScore: 0,
+        maxScore: 3,
+        groups: [
+          { key: 'a', label: 'A', role: 'section', aggregation: 'average', criteria: [{ group: 'b' }] },
+          { key: 'b', label: 'B', role: 'section', aggregation: 'average', criteria: [{ group: 'a' }] },
+          { key: 'c', label: 'C', role: 'section', aggregation: 'average', criteria: [{ fieldCode: 'NOPE' }] },
+        ],
+        matrix: { x: 'a', y: 'zzz' },
+      },
+      new Set(['F1'])
+    );
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        'Group "c" references unknown field "NOPE"',
+        'Matrix axis references unknown group "zzz"',
+        'Score groups form a cycle: a → b → a',
+      ])
+    );
+  });
+
+  it('parses builder JSON input with readable errors', () => {
+    expect(parseScoringModelInput('{not json').issues).toEqual(['Scoring model must be valid JSON']);
+
+    const invalid = parseScoringModelInput(
+      JSON.stringify({ groups: [{ key: 'a', label: 'A', criteria: [{ fieldCode: 'F1', group: 'b' }] }] })
+    );
+    expect(invalid.model).toBeNull();
+    expect(invalid.issues[0]).toContain('exactly one of fieldCode or group');
+
+    const valid = parseScoringModelInput(
+      JSON.stringify({ groups: [{ key: 'a', label: 'A', criteria: [{ fieldCode: 'F1' }] }] }),
+      new Set(['F1'])
+    );
+    expect(valid.model?.groups[0]).toMatchObject({ role: 'section', aggregation: 'weighted_average' });
+  });
+
+  it('maps bound group scores and the recommendation to stage fields', () => {
+    const template = buildTemplate({
+      scoringModel: {
+        version: 1,
+        minScore: 0,
+        maxScore: 3,
+        groups: [
+          { key: 'technical', label: 'Technical', criteria: [{ fieldCode: 'V1' }, { fieldCode: 'V2' }] },
+          { key: 'commercial', label: 'Commercial', criteria: [{ fieldCode: 'V3' }] },
+        ],
+        matrix: { x: 'technical', y: 'commercial' },
+        bindings: {
+          technical: 'viabilityStage.technicalScore',
+          commercial: 'viabilityStage.commercialScore',
+          recommendation: 'viabilityStage.overallViability',
+        },
+      },
+      sections: [buildSection({ questions: ['V1', 'V2', 'V3'].map((code) => scoredQuestion(code)) })],
+    });
+
+    const result = calculateTemplateScores(template, { V1: 3, V2: 2, V3: 3 }, null);
+
+    expect(toScoreBindingValues(result)).toEqual({
+      'viabilityStage.technicalScore': 2.5,
+      'viabilityStage.commercialScore': 3,
+      'viabilityStage.overallViability': 'Proceed',
+    });
+  });
+
+  it('rejects bindings to unknown groups or non-stage fields', () => {
+    const unknownGroup = parseScoringModelInput(
+      JSON.stringify({
+        groups: [{ key: 'a', label: 'A', criteria: [{ fieldCode: 'F1' }] }],
+        bindings: { b: 'viabilityStage.technicalScore' },
+      })
+    );
+    expect(unknownGroup.issues).toEqual(['Binding references unknown group "b"']);
+
+    const badPath = parseScoringModelInput(
+      JSON.stringify({
+        groups: [{ key: 'a', label: 'A', criteria: [{ fieldCode: 'F1' }] }],
+        bindings: { a: 'formSubmission.status' },
+      })
+    );
+    expect(badPath.issues[0]).toContain('Bindings must target a technology or stage field');
+  });
+});
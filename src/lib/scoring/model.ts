@@ -0,0 +1,585 @@
+import { z } from 'zod';
+import { FieldType, Prisma } from '@prisma/client';
+import type { CalculatedScores, FormQuestionWithDetails, FormTemplateWithSections } from '@/lib/form-engine/types';
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RecommendationBand,
+  RecommendationRules,
+  RecommendationRuleSetRecord,
+  evaluateRecommendation,
+  resolveRecommendationRules,
+} from './recommendations';
+
+// Per-template scoring model. Templates store the model as JSON on
+// FormTemplate.scoringModel; criterion weights default to the question's
+// ScoringConfig.weight so the builder remains the source of truth for weights.
+
+export type ScoreAggregation = 'weighted_average' | 'average' | 'sum' | 'min' | 'max';
+
+/**
+ * section   – rendered as its own block in the scoring matrix
+ * subgroup  – rendered nested beneath the criterion that references it
+ * composite – summary-only score derived from other groups
+ */
+export type ScoreGroupRole = 'section' | 'subgroup' | 'composite';
+
+export interface ScoringCriterionDefinition {
+  /** Field code of a scored question */
+  fieldCode?: string;
+  /** Key of another group whose value feeds this criterion */
+  group?: string;
+  label?: string;
+  /** Overrides ScoringConfig.weight (field criteria) or the default of 1 (group criteria) */
+  weight?: number;
+}
+
+export interface ScoreGroupDefinition {
+  key: string;
+  label: string;
+  role: ScoreGroupRole;
+  aggregation: ScoreAggregation;
+  criteria: ScoringCriterionDefinition[];
+}
+
+export interface ScoringModel {
+  version: 1;
+  minScore: number;
+  maxScore: number;
+  groups: ScoreGroupDefinition[];
+  /** Group keys plotted on the x/y matrix; they also drive the recommendation */
+  matrix: { x: string; y: string } | null;
+  /**
+   * Stage fields that receive calculated values when a submission is saved, keyed by
+   * group key or `recommendation` (e.g. `{ technical: 'viabilityStage.technicalScore' }`)
+   */
+  bindings?: Record<string, string>;
+}
+
+export interface ScoredCriterion {
+  label: string;
+  fieldCode?: string;
+  group?: string;
+  score: number;
+  /** Share of the group total (averages) or raw multiplier (sum); null for min/max */
+  weight: number | null;
+  total: number | null;
+  description?: string;
+}
+
+export interface ScoredGroup {
+  key: string;
+  label: string;
+  role: ScoreGroupRole;
+  aggregation: ScoreAggregation;
+  value: number;
+  criteria: ScoredCriterion[];
+}
+
+export interface ScoringResult {
+  model: ScoringModel;
+  groups: ScoredGroup[];
+  values: Record<string, number>;
+  matrix: { x: ScoredGroup; y: ScoredGroup } | null;
+  recommendation: string;
+  recommendationText: string;
+  recommendationBand: RecommendationBand | null;
+  recommendationRules: RecommendationRules;
+  /** Stored rule set version used, or null for the built-in defaults */
+  recommendationRuleSet: RecommendationRuleSetRecord | null;
+}
+
+/**
+ * Matches the original Excel scorecard: Impact = Mission Alignment + Unmet Need,
+ * Value = IP Strength + Market (average of F4.4.a-c), Overall = mean of both.
+ */
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  version: 1,
+  minScore: 0,
+  maxScore: 3,
+  groups: [
+    {
+      key: 'impact',
+      label: 'Impact',
+      role: 'section',
+      aggregation: 'weighted_average',
+      criteria: [
+        { fieldCode: 'F2.1.score', label: 'Mission Alignment' },
+        { fieldCode: 'F2.2.score', label: 'Unmet Need' },
+      ],
+    },
+    {
+      key: 'value',
+      label: 'Value',
+      role: 'section',
+      aggregation: 'weighted_average',
+      criteria: [
+        { fieldCode: 'F3.2.score', label: 'IP Strength and Protectability' },
+        { group: 'market', label: 'Market' },
+      ],
+    },
+    {
+      key: 'market',
+      label: 'Market',
+      role: 'subgroup',
+      aggregation: 'average',
+      criteria: [
+        { fieldCode: 'F4.4.a', label: 'Market Size – Revenue (TAM)' },
+        { fieldCode: 'F4.4.b', label: 'Patient Population or Procedural Volume' },
+        { fieldCode: 'F4.4.c', label: '# of Direct/Indirect Competitors' },
+      ],
+    },
+    {
+      key: 'overall',
+      label: 'Overall',
+      role: 'composite',
+      aggregation: 'average',
+      criteria: [{ group: 'impact' }, { group: 'value' }],
+    },
+  ],
+  matrix: { x: 'impact', y: 'value' },
+};
+
+const groupKeySchema = z
+  .string()
+  .min(1)
+  .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Group keys must start with a letter and use letters, numbers, underscores');
+
+const criterionSchema = z
+  .object({
+    fieldCode: z.string().min(1).optional(),
+    group: groupKeySchema.optional(),
+    label: z.string().optional(),
+    weight: z.number().nonnegative().optional(),
+  })
+  .refine((criterion) => Boolean(criterion.fieldCode) !== Boolean(criterion.group), {
+    message: 'Each criterion must reference exactly one of fieldCode or group',
+  });
+
+const scoringModelSchema = z.object({
+  version: z.literal(1).default(1),
+  minScore: z.number().default(0),
+  maxScore: z.number().positive().default(3),
+  groups: z
+    .array(
+      z.object({
+        key: groupKeySchema,
+        label: z.string().min(1),
+        role: z.enum(['section', 'subgroup', 'composite']).default('section'),
+        aggregation: z.enum(['weighted_average', 'average', 'sum', 'min', 'max']).default('weighted_average'),
+        criteria: z.array(criterionSchema).min(1, 'Each group needs at least one criterion'),
+      })
+    )
+    .min(1, 'Define at least one score group'),
+  matrix: z.object({ x: groupKeySchema, y: groupKeySchema }).nullable().default(null),
+  bindings: z
+    .record(
+      z.string(),
+      z.string().regex(/^(technology|triageStage|viabilityStage)\.[a-zA-Z]+$/, 'Bindings must target a technology or stage field')
+    )
+    .optional(),
+});
+
+export const RECOMMENDATION_BINDING_KEY = 'recommendation';
+
+/**
+ * Structural checks zod cannot express: unique keys, resolvable group
+ * references, no reference cycles and (optionally) known field codes.
+ */
+export function validateScoringModel(model: ScoringModel, knownFieldCodes?: Set<string>): string[] {
+  const issues: string[] = [];
+  const groupsByKey = new Map<string, ScoreGroupDefinition>();
+
+  for (const group of model.groups) {
+    if (groupsByKey.has(group.key)) {
+      issues.push(`Duplicate score group key "${group.key}"`);
+    }
+    groupsByKey.set(group.key, group);
+  }
+
+  for (const group of model.groups) {
+    for (const criterion of group.criteria) {
+      if (criterion.group && !groupsByKey.has(criterion.group)) {
+        issues.push(`Group "${group.key}" references unknown group "${criterion.group}"`);
+      }
+      if (criterion.fieldCode && knownFieldCodes && !knownFieldCodes.has(criterion.fieldCode)) {
+        issues.push(`Group "${group.key}" references unknown field "${criterion.fieldCode}"`);
+      }
+    }
+  }
+
+  if (model.matrix) {
+    for (const axis of [model.matrix.x, model.matrix.y]) {
+      if (!groupsByKey.has(axis)) {
+        issues.push(`Matrix axis references unknown group "${axis}"`);
+      }
+    }
+  }
+
+  for (const key of Object.keys(model.bindings ?? {})) {
+    if (key !== RECOMMENDATION_BINDING_KEY && !groupsByKey.has(key)) {
+      issues.push(`Binding references unknown group "${key}"`);
+    }
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (key: string, path: string[]) => {
+    if (visited.has(key)) return;
+    if (visiting.has(key)) {
+      issues.push(`Score groups form a cycle: ${[...path, key].join(' → ')}`);
+      return;
+    }
+    const group = groupsByKey.get(key);
+    if (!group) return;
+    visiting.add(key);
+    for (const criterion of group.criteria) {
+      if (criterion.group) {
+        visit(criterion.group, [...path, key]);
+      }
+    }
+    visiting.delete(key);
+    visited.add(key);
+  };
+  groupsByKey.forEach((_, key) => visit(key, []));
+
+  return issues;
+}
+
+/**
+ * Parse a stored scoring model. Returns null when the value is missing or invalid
+ * so callers can fall back to {@link resolveScoringModel}'s defaults.
+ */
+export function parseScoringModel(value: Prisma.JsonValue | unknown): ScoringModel | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const parsed = scoringModelSchema.safeParse(value);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const model = parsed.data as ScoringModel;
+  return validateScoringModel(model).length === 0 ? model : null;
+}
+
+/**
+ * Parse user-supplied JSON (builder settings) and report every problem found.
+ */
+export function parseScoringModelInput(
+  raw: string,
+  knownFieldCodes?: Set<string>
+): { model: ScoringModel; issues: [] } | { model: null; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { model: null, issues: ['Scoring model must be valid JSON'] };
+  }
+
+  const parsed = scoringModelSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      model: null,
+      issues: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  const model = parsed.data as ScoringModel;
+  const issues = validateScoringModel(model, knownFieldCodes);
+  return issues.length > 0 ? { model: null, issues } : { model, issues: [] };
+}
+
+function collectQuestions(template: FormTemplateWithSections): FormQuestionWithDetails[] {
+  return template.sections
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .flatMap((section) => section.questions.slice().sort((a, b) => a.order - b.order));
+}
+
+/**
+ * Resolve the scoring model for a template:
+ * 1. the stored FormTemplate.scoringModel when valid
+ * 2. the default triage model when the template still uses its field codes
+ * 3. otherwise a single "Overall" group over every scored question
+ */
+export function resolveScoringModel(template: FormTemplateWithSections): ScoringModel {
+  const stored = parseScoringModel(template.scoringModel);
+  if (stored) {
+    return stored;
+  }
+
+  const questions = collectQuestions(template);
+  const fieldCodes = new Set(questions.map((question) => question.fieldCode));
+  const usesDefaultCodes = DEFAULT_SCORING_MODEL.groups.some((group) =>
+    group.criteria.some((criterion) => criterion.fieldCode && fieldCodes.has(criterion.fieldCode))
+  );
+
+  if (usesDefaultCodes) {
+    return DEFAULT_SCORING_MODEL;
+  }
+
+  const scoredQuestions = questions.filter(
+    (question) => question.type === FieldType.SCORING_0_3 || question.scoringConfig !== null
+  );
+
+  if (scoredQuestions.length === 0) {
+    return { ...DEFAULT_SCORING_MODEL, groups: [], matrix: null };
+  }
+
+  const maxScore = Math.max(...scoredQuestions.map((question) => question.scoringConfig?.maxScore ?? 3));
+
+  return {
+    version: 1,
+    minScore: 0,
+    maxScore,
+    groups: [
+      {
+        key: 'overall',
+        label: 'Overall',
+        role: 'section',
+        aggregation: 'weighted_average',
+        criteria: scoredQuestions.map((question) => ({ fieldCode: question.fieldCode })),
+      },
+    ],
+    matrix: null,
+  };
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function readCriteriaDescription(question: FormQuestionWithDetails | undefined, score: number) {
+  const criteria = question?.scoringConfig?.criteria;
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+    return undefined;
+  }
+  const description = (criteria as Record<string, unknown>)[String(Math.round(score))];
+  return typeof description === 'string' ? description : undefined;
+}
+
+function aggregate(aggregation: ScoreAggregation, entries: Array<{ score: number; weight: number }>) {
+  if (entries.length === 0) return 0;
+  switch (aggregation) {
+    case 'sum':
+      return entries.reduce((total, entry) => total + entry.score * entry.weight, 0);
+    case 'min':
+      return Math.min(...entries.map((entry) => entry.score));
+    case 'max':
+      return Math.max(...entries.map((entry) => entry.score));
+    case 'average':
+      return entries.reduce((total, entry) => total + entry.score, 0) / entries.length;
+    case 'weighted_average':
+    default: {
+      const totalWeight = entries.reduce((total, entry) => total + entry.weight, 0);
+      if (totalWeight === 0) return 0;
+      return entries.reduce((total, entry) => total + entry.score * entry.weight, 0) / totalWeight;
+    }
+  }
+}
+
+function shareOf(aggregation: ScoreAggregation, weight: number, weights: number[]): number | null {
+  switch (aggregation) {
+    case 'sum':
+      return weight;
+    case 'average':
+      return weights.length > 0 ? 1 / weights.length : 0;
+    case 'weighted_average': {
+      const totalWeight = weights.reduce((total, value) => total + value, 0);
+      return totalWeight > 0 ? weight / totalWeight : 0;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a scoring model against form responses. Groups are resolved on demand
+ * so a group may reference any other group regardless of declaration order.
+ */
+export function calculateModelScores(
+  model: ScoringModel,
+  responses: Record<string, unknown>,
+  template?: FormTemplateWithSections | null,
+  ruleSet: RecommendationRuleSetRecord | null = null
+): ScoringResult {
+  const recommendationRules = resolveRecommendationRules(ruleSet);
+  const questionsByCode = new Map<string, FormQuestionWithDetails>();
+  if (template) {
+    for (const question of collectQuestions(template)) {
+      questionsByCode.set(question.fieldCode, question);
+    }
+  }
+
+  const definitions = new Map(model.groups.map((group) => [group.key, group]));
+  const scored = new Map<string, ScoredGroup>();
+  const inProgress = new Set<string>();
+
+  const evaluateGroup = (key: string): ScoredGroup | null => {
+    const cached = scored.get(key);
+    if (cached) return cached;
+    const definition = definitions.get(key);
+    if (!definition || inProgress.has(key)) return null;
+    inProgress.add(key);
+
+    const entries = definition.criteria.map((criterion) => {
+      if (criterion.group) {
+        const child = evaluateGroup(criterion.group);
+        return {
+          criterion,
+          label: criterion.label ?? child?.label ?? criterion.group,
+          score: child?.value ?? 0,
+          weight: criterion.weight ?? 1,
+          question: undefined,
+        };
+      }
+
+      const question = criterion.fieldCode ? questionsByCode.get(criterion.fieldCode) : undefined;
+      return {
+        criterion,
+        label: criterion.label ?? question?.label ?? criterion.fieldCode ?? '',
+        score: Number(criterion.fieldCode ? responses[criterion.fieldCode] : undefined) || 0,
+        weight: criterion.weight ?? question?.scoringConfig?.weight ?? 1,
+        question,
+      };
+    });
+
+    const weights = entries.map((entry) => entry.weight);
+    const value = roundScore(aggregate(definition.aggregation, entries));
+
+    const group: ScoredGroup = {
+      key: definition.key,
+      label: definition.label,
+      role: definition.role,
+      aggregation: definition.aggregation,
+      value,
+      criteria: entries.map((entry) => {
+        const weight = shareOf(definition.aggregation, entry.weight, weights);
+        return {
+          label: entry.label,
+          fieldCode: entry.criterion.fieldCode,
+          group: entry.criterion.group,
+          score: entry.score,
+          weight,
+          total: weight === null ? null : roundScore(entry.score * weight),
+          description: readCriteriaDescription(entry.question, entry.score),
+        };
+      }),
+    };
+
+    inProgress.delete(key);
+    scored.set(key, group);
+    return group;
+  };
+
+  const groups = model.groups
+    .map((group) => evaluateGroup(group.key))
+    .filter((group): group is ScoredGroup => group !== null);
+
+  const values = Object.fromEntries(groups.map((group) => [group.key, group.value]));
+
+  const xGroup = model.matrix ? scored.get(model.matrix.x) : undefined;
+  const yGroup = model.matrix ? scored.get(model.matrix.y) : undefined;
+  const matrix = xGroup && yGroup ? { x: xGroup, y: yGroup } : null;
+
+  // Without a matrix the final group (typically the composite) drives both axes.
+  const fallback = groups[groups.length - 1];
+  const xAxis = matrix?.x ?? fallback;
+  const yAxis = matrix?.y ?? fallback;
+
+  const recommendationBand = xAxis && yAxis
+    ? evaluateRecommendation(recommendationRules, xAxis.value, yAxis.value, model.maxScore).band
+    : null;
+  const recommendation = recommendationBand?.label ?? '';
+  const recommendationText = !xAxis || !yAxis
+    ? ''
+    : xAxis === yAxis
+      ? `Based on ${xAxis.label} Score: ${xAxis.value}`
+      : `Based on ${xAxis.label} Score: ${xAxis.value} and ${yAxis.label} Score: ${yAxis.value}`;
+
+  return {
+    model,
+    groups,
+    values,
+    matrix,
+    recommendation,
+    recommendationText,
+    recommendationBand,
+    recommendationRules,
+    recommendationRuleSet: ruleSet && recommendationRules !== DEFAULT_RECOMMENDATION_RULES ? ruleSet : null,
+  };
+}
+
+/**
+ * Latest recommendation rule set loaded with the template (see TEMPLATE_WITH_BINDINGS_INCLUDE).
+ */
+export function getActiveRecommendationRuleSet(
+  template: FormTemplateWithSections
+): RecommendationRuleSetRecord | null {
+  const ruleSets = template.recommendationRuleSets ?? [];
+  return ruleSets.reduce<RecommendationRuleSetRecord | null>(
+    (latest, ruleSet) => (!latest || ruleSet.version > latest.version ? ruleSet : latest),
+    null
+  );
+}
+
+/**
+ * Resolve the template's model and evaluate it in one step. Pass a pinned rule set
+ * (or null for the built-in defaults) to reproduce a historical recommendation.
+ */
+export function calculateTemplateScores(
+  template: FormTemplateWithSections,
+  responses: Record<string, unknown>,
+  ruleSet: RecommendationRuleSetRecord | null = getActiveRecommendationRuleSet(template)
+): ScoringResult {
+  return calculateModelScores(resolveScoringModel(template), responses, template, ruleSet);
+}
+
+/**
+ * Flatten group values into CalculatedScore rows (`impact` → `impactScore`).
+ */
+export function toScoreRecord(result: ScoringResult): Record<string, number> {
+  return Object.fromEntries(result.groups.map((group) => [`${group.key}Score`, group.value]));
+}
+
+/**
+ * Binding path → calculated value for the model's configured bindings, ready to
+ * pass to applyBindingWrites as derived values.
+ */
+export function toScoreBindingValues(result: ScoringResult): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, bindingPath] of Object.entries(result.model.bindings ?? {})) {
+    const value = key === RECOMMENDATION_BINDING_KEY ? result.recommendation : result.values[key];
+    if (value !== undefined && value !== '') {
+      values[bindingPath] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Form-engine state shape: flattened group scores plus the recommendation.
+ */
+export function toCalculatedScores(result: ScoringResult): CalculatedScores {
+  return {
+    ...toScoreRecord(result),
+    recommendation: result.recommendation,
+    recommendationText: result.recommendationText,
+  };
+}
+
+/**
+ * Format a criterion weight for display ("50%", "×2", or "—").
+ */
+export function formatCriterionWeight(group: ScoredGroup, criterion: ScoredCriterion): string {
+  if (criterion.weight === null) {
+    return '—';
+  }
+  if (group.aggregation === 'sum') {
+    return `×${Number(criterion.weight.toFixed(2))}`;
+  }
+  return `${Math.round(criterion.weight * 100)}%`;
+}
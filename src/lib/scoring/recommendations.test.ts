@@ -0,0 +1,87 @@
+import { calculateRecommendation, getRecommendationColor } from './calculations';
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RecommendationRules,
+  buildRecommendationGrid,
+  describeRecommendationRuleSet,
+  evaluateRecommendation,
+  parseRecommendationRules,
+  recommendationRulesSchema,
+  resolveRecommendationRules,
+} from './recommendations';
+
+const FY26_RULES: RecommendationRules = {
+  bands: [
+    { key: 'fund', label: 'Fund', color: 'blue' },
+    { key: 'watch', label: 'Watch List', color: 'purple' },
+  ],
+  rules: [
+    {
+      band: 'fund',
+      match: 'all',
+      conditions: [
+        { axis: 'x', op: 'gte', value: 50 },
+        { axis: 'y', op: 'gte', value: 50 },
+      ],
+    },
+  ],
+  defaultBand: 'watch',
+};
+
+const FY26_RULE_SET = { id: 'r1', version: 3, name: 'FY26', rules: JSON.parse(JSON.stringify(FY26_RULES)) };
+
+describe('recommendation rules', () => {
+  it('keeps the legacy 67/33/20 cut-offs as defaults', () => {
+    expect(calculateRecommendation(2.1, 1)).toBe('Proceed');
+    expect(calculateRecommendation(1, 2.1)).toBe('Proceed');
+    expect(calculateRecommendation(2.1, 0.9)).toBe('Consider Alternative Pathway');
+    expect(calculateRecommendation(0.5, 3)).toBe('Close');
+    expect(calculateRecommendation(1.5, 1.5)).toBe('Consider Alternative Pathway');
+  });
+
+  it('evaluates custom bands and thresholds in order', () => {
+    expect(evaluateRecommendation(FY26_RULES, 1.5, 1.5).band.key).toBe('fund');
+    expect(evaluateRecommendation(FY26_RULES, 1.5, 1.4).band.key).toBe('watch');
+    expect(calculateRecommendation(3, 3, 3, FY26_RULES)).toBe('Fund');
+    expect(evaluateRecommendation(FY26_RULES, 5, 5, 10).xPercent).toBe(50);
+  });
+
+  it('maps recommendation labels to band colours', () => {
+    expect(getRecommendationColor('Proceed')).toContain('green');
+    expect(getRecommendationColor('Close')).toContain('red');
+    expect(getRecommendationColor('Fund', FY26_RULES)).toContain('blue');
+    expect(getRecommendationColor('Unknown')).toContain('gray');
+  });
+
+  it('samples the matrix grid top row first', () => {
+    const grid = buildRecommendationGrid(FY26_RULES, 2);
+    expect(grid).toEqual([
+      ['watch', 'fund'],
+      ['watch', 'watch'],
+    ]);
+  });
+
+  it('rejects rule sets that reference unknown or duplicate bands', () => {
+    const result = recommendationRulesSchema.safeParse({
+      bands: [
+        { key: 'a', label: 'A', color: 'green' },
+        { key: 'a', label: 'A again', color: 'red' },
+      ],
+      rules: [{ band: 'b', match: 'all', conditions: [{ axis: 'x', op: 'gt', value: 10 }] }],
+      defaultBand: 'c',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(
+      expect.arrayContaining(['Duplicate band key "a"', 'Unknown band "b"', 'Unknown band "c"'])
+    );
+  });
+
+  it('falls back to the defaults for missing or malformed stored rules', () => {
+    expect(parseRecommendationRules({ bands: [] })).toBeNull();
+    expect(resolveRecommendationRules(null)).toBe(DEFAULT_RECOMMENDATION_RULES);
+    expect(resolveRecommendationRules(FY26_RULE_SET)).toEqual(FY26_RULES);
+    expect(describeRecommendationRuleSet(FY26_RULE_SET)).toBe('Rule set v3 (FY26)');
+    expect(describeRecommendationRuleSet(null)).toBe('Default rules');
+  });
+});
@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+// Recommendation rule sets map the scoring matrix position (x/y as a percentage
+// of the model's maxScore) to an outcome band. Rule sets are stored per template
+// as immutable, numbered versions; submissions pin the version they were scored with.
+
+export const RECOMMENDATION_COLORS = ['green', 'yellow', 'red', 'blue', 'purple', 'gray'] as const;
+export type RecommendationColor = (typeof RECOMMENDATION_COLORS)[number];
+
+export interface RecommendationBand {
+  key: string;
+  label: string;
+  color: RecommendationColor;
+  description?: string;
+  /** A triage recommendation in this band lets the technology be promoted */
+  advances?: boolean;
+}
+
+export interface RecommendationCondition {
+  axis: 'x' | 'y';
+  op: 'gt' | 'gte' | 'lt' | 'lte';
+  /** Percentage of maxScore (0-100) */
+  value: number;
+}
+
+export interface RecommendationRule {
+  band: string;
+  match: 'all' | 'any';
+  conditions: RecommendationCondition[];
+}
+
+export interface RecommendationRules {
+  bands: RecommendationBand[];
+  /** Evaluated in order; the first matching rule wins */
+  rules: RecommendationRule[];
+  /** Band used when no rule matches */
+  defaultBand: string;
+}
+
+export interface RecommendationOutcome {
+  band: RecommendationBand;
+  xPercent: number;
+  yPercent: number;
+}
+
+/**
+ * The original Excel scorecard cut-offs (67% / 33% / 20%). Submissions without a
+ * pinned rule set were scored with these rules, so this constant must not change;
+ * publish a new template rule set version instead.
+ */
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRules = {
+  bands: [
+    { key: 'proceed', label: 'Proceed', color: 'green', advances: true },
+    { key: 'alternative', label: 'Consider Alternative Pathway', color: 'yellow' },
+    { key: 'close', label: 'Close', color: 'red' },
+  ],
+  rules: [
+    {
+      band: 'proceed',
+      match: 'all',
+      conditions: [
+        { axis: 'x', op: 'gt', value: 67 },
+        { axis: 'y', op: 'gte', value: 33 },
+      ],
+    },
+    {
+      band: 'proceed',
+      match: 'all',
+      conditions: [
+        { axis: 'x', op: 'gte', value: 33 },
+        { axis: 'y', op: 'gt', value: 67 },
+      ],
+    },
+    {
+      band: 'close',
+      match: 'any',
+      conditions: [
+        { axis: 'x', op: 'lt', value: 20 },
+        { axis: 'y', op: 'lt', value: 20 },
+      ],
+    },
+  ],
+  defaultBand: 'alternative',
+};
+
+const bandKeySchema = z
+  .string()
+  .min(1, 'Band key is required')
+  .regex(/^[a-z0-9_]+$/, 'Use lowercase letters, numbers, underscores');
+
+export const recommendationRulesSchema = z
+  .object({
+    bands: z
+      .array(
+        z.object({
+          key: bandKeySchema,
+          label: z.string().min(1, 'Band label is required'),
+          color: z.enum(RECOMMENDATION_COLORS),
+          description: z.string().max(500).optional(),
+          advances: z.boolean().optional(),
+        })
+      )
+      .min(1, 'Define at least one band'),
+    rules: z.array(
+      z.object({
+        band: bandKeySchema,
+        match: z.enum(['all', 'any']).default('all'),
+        conditions: z
+          .array(
+            z.object({
+              axis: z.enum(['x', 'y']),
+              op: z.enum(['gt', 'gte', 'lt', 'lte']),
+              value: z.number().min(0).max(100),
+            })
+          )
+          .min(1, 'Each rule needs at least one condition'),
+      })
+    ),
+    defaultBand: bandKeySchema,
+  })
+  .superRefine((value, ctx) => {
+    const keys = new Set<string>();
+    value.bands.forEach((band, index) => {
+      if (keys.has(band.key)) {
+        ctx.addIssue({ code: 'custom', message: `Duplicate band key "${band.key}"`, path: ['bands', index, 'key'] });
+      }
+      keys.add(band.key);
+    });
+    value.rules.forEach((rule, index) => {
+      if (!keys.has(rule.band)) {
+        ctx.addIssue({ code: 'custom', message: `Unknown band "${rule.band}"`, path: ['rules', index, 'band'] });
+      }
+    });
+    if (!keys.has(value.defaultBand)) {
+      ctx.addIssue({ code: 'custom', message: `Unknown band "${value.defaultBand}"`, path: ['defaultBand'] });
+    }
+  });
+
+/**
+ * Parse a stored rule set. Returns null when missing or malformed.
+ */
+export function parseRecommendationRules(value: Prisma.JsonValue | unknown): RecommendationRules | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const parsed = recommendationRulesSchema.safeParse(value);
+  return parsed.success ? (parsed.data as RecommendationRules) : null;
+}
+
+/**
+ * Shape of a persisted rule set version (mirrors the RecommendationRuleSet model).
+ */
+export interface RecommendationRuleSetRecord {
+  id: string;
+  version: number;
+  name?: string | null;
+  rules: Prisma.JsonValue;
+}
+
+/**
+ * Rules for a stored version, falling back to the built-in defaults.
+ */
+export function resolveRecommendationRules(
+  ruleSet: RecommendationRuleSetRecord | null | undefined
+): RecommendationRules {
+  return (ruleSet && parseRecommendationRules(ruleSet.rules)) || DEFAULT_RECOMMENDATION_RULES;
+}
+
+export function describeRecommendationRuleSet(ruleSet: RecommendationRuleSetRecord | null | undefined): string {
+  if (!ruleSet) {
+    return 'Default rules';
+  }
+  return ruleSet.name ? `Rule set v${ruleSet.version} (${ruleSet.name})` : `Rule set v${ruleSet.version}`;
+}
+
+function matchesCondition(condition: RecommendationCondition, xPercent: number, yPercent: number) {
+  const actual = condition.axis === 'x' ? xPercent : yPercent;
+  switch (condition.op) {
+    case 'gt':
+      return actual > condition.value;
+    case 'gte':
+      return actual >= condition.value;
+    case 'lt':
+      return actual < condition.value;
+    case 'lte':
+      return actual <= condition.value;
+    default:
+      return false;
+  }
+}
+
+export function findRecommendationBand(rules: RecommendationRules, key: string): RecommendationBand | undefined {
+  return rules.bands.find((band) => band.key === key);
+}
+
+/**
+ * Whether a band lets a technology advance. Bands saved before the flag existed
+ * inherit it from the built-in band with the same key.
+ */
+export function bandAdvances(band: RecommendationBand): boolean {
+  return band.advances ?? findRecommendationBand(DEFAULT_RECOMMENDATION_RULES, band.key)?.advances ?? false;
+}
+
+/**
+ * The band a stored recommendation names. Bindings store the band label (see
+ * toScoreBindingValues); keys are accepted for hand-entered values.
+ */
+export function matchRecommendationBand(
+  rules: RecommendationRules,
+  recommendation: string
+): RecommendationBand | undefined {
+  const value = recommendation.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+  return rules.bands.find((band) => band.label.trim().toLowerCase() === value || band.key === value);
+}
+
+/**
+ * Evaluate a rule set for raw x/y scores on a 0..maxScore scale.
+ */
+export function evaluateRecommendation(
+  rules: RecommendationRules,
+  xScore: number,
+  yScore: number,
+  maxScore = 3
+): RecommendationOutcome {
+  const xPercent = (xScore / maxScore) * 100;
+  const yPercent = (yScore / maxScore) * 100;
+
+  const matched = rules.rules.find((rule) => {
+    const results = rule.conditions.map((condition) => matchesCondition(condition, xPercent, yPercent));
+    return rule.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+  });
+
+  const band =
+    findRecommendationBand(rules, matched?.band ?? rules.defaultBand) ??
+    rules.bands[0];
+
+  return { band, xPercent, yPercent };
+}
+
+/**
+ * Band keys sampled at cell centres, top row first (high y). Used to paint the
+ * matrix background so the chart reflects the configured thresholds.
+ */
+export function buildRecommendationGrid(rules: RecommendationRules, resolution = 10): string[][] {
+  const step = 100 / resolution;
+  return Array.from({ length: resolution }, (_, rowIndex) => {
+    const yPercent = 100 - step * (rowIndex + 0.5);
+    return Array.from({ length: resolution }, (_, columnIndex) => {
+      const xPercent = step * (columnIndex + 0.5);
+      return evaluateRecommendation(rules, xPercent, yPercent, 100).band.key;
+    });
+  });
+}
+
+export const RECOMMENDATION_COLOR_STYLES: Record<
+  RecommendationColor,
+  { text: string; badge: string; cell: string; pdf: { background: string; border: string; text: string } }
+> = {
+  green: {
+    text: 'text-green-600 bg-green-100',
+    badge: 'bg-green-100 text-green-800 border-green-300',
+    cell: 'bg-green-100',
+    pdf: { background: '#dcfce7', border: '#22c55e', text: '#166534' },
+  },
+  yellow: {
+    text: 'text-yellow-600 bg-yellow-100',
+    badge: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+    cell: 'bg-yellow-100',
+    pdf: { background: '#fef3c7', border: '#f59e0b', text: '#92400e' },
+  },
+  red: {
+    text: 'text-red-600 bg-red-100',
+    badge: 'bg-red-100 text-red-800 border-red-300',
+    cell: 'bg-red-100',
+    pdf: { background: '#fee2e2', border: '#f87171', text: '#991b1b' },
+  },
+  blue: {
+    text: 'text-blue-600 bg-blue-100',
+    badge: 'bg-blue-100 text-blue-800 border-blue-300',
+    cell: 'bg-blue-100',
+    pdf: { background: '#dbeafe', border: '#3b82f6', text: '#1e40af' },
+  },
+  purple: {
+    text: 'text-purple-600 bg-purple-100',
+    badge: 'bg-purple-100 text-purple-800 border-purple-300',
+    cell: 'bg-purple-100',
+    pdf: { background: '#f3e8ff', border: '#a855f7', text: '#6b21a8' },
+  },
+  gray: {
+    text: 'text-gray-600 bg-gray-100',
+    badge: 'bg-gray-100 text-gray-800 border-gray-300',
+    cell: 'bg-gray-100',
+    pdf: { background: '#e5e7eb', border: '#9ca3af', text: '#111827' },
+  },
+};
+
+/**
+ * Colour token for a recommendation label under the given rule set.
+ */
+export function getRecommendationColorToken(
+  recommendation: string,
+  rules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+): RecommendationColor {
+  return rules.bands.find((band) => band.label === recommendation)?.color ?? 'gray';
+}
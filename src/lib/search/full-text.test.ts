@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+import { SubmissionStatus, TechStage, TechStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  parseSearchFilters,
+  searchAll,
+  searchesKind,
+  splitHighlight,
+} from './full-text';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const mockQueryRaw = prisma.$queryRaw as unknown as jest.Mock;
+
+describe('parseSearchFilters', () => {
+  it('reads the query and known filters, ignoring unknown values', () => {
+    const filters = parseSearchFilters({
+      q: '  glucose sensor ',
+      type: 'technology',
+      stage: 'VIABILITY',
+      status: 'NOT_A_STATUS',
+      from: '2025-03-01',
+      to: 'yesterday',
+      limit: '500',
+    });
+
+    expect(filters).toMatchObject({
+      query: 'glucose sensor',
+      kind: 'technology',
+      stage: TechStage.VIABILITY,
+      status: undefined,
+      to: undefined,
+      limit: MAX_SEARCH_LIMIT,
+    });
+    expect(filters.from?.getFullYear()).toBe(2025);
+    expect(filters.from?.getHours()).toBe(0);
+  });
+
+  it('accepts technology and submission statuses and defaults the limit', () => {
+    expect(parseSearchFilters({ q: 'x', status: 'ON_HOLD' })).toMatchObject({
+      status: TechStatus.ON_HOLD,
+      limit: DEFAULT_SEARCH_LIMIT,
+    });
+    expect(parseSearchFilters({ q: 'x', status: ['REVIEWED'] }).status).toBe(SubmissionStatus.REVIEWED);
+    expect(parseSearchFilters({}).query).toBe('');
+  });
+});
+
+describe('splitHighlight', () => {
+  it('splits headline output into matched and plain runs', () => {
+    expect(splitHighlight('A \u0002wearable\u0003 \u0002glucose\u0003 monitor')).toEqual([
+      { text: 'A ', match: false },
+      { text: 'wearable', match: true },
+      { text: ' ', match: false },
+      { text: 'glucose', match: true },
+      { text: ' monitor', match: false },
+    ]);
+    expect(splitHighlight(null)).toEqual([]);
+  });
+});
+
+describe('searchesKind', () => {
+  const base = parseSearchFilters({ q: 'x' });
+
+  it('follows the type filter and the kind a status belongs to', () => {
+    expect(searchesKind({ ...base, kind: 'submission' }, 'technology')).toBe(false);
+    expect(searchesKind({ ...base, status: TechStatus.ACTIVE }, 'submission')).toBe(false);
+    expect(searchesKind({ ...base, status: SubmissionStatus.DRAFT }, 'submission')).toBe(true);
+  });
+
+  it('only searches submissions for stages a form purpose covers', () => {
+    expect(searchesKind({ ...base, stage: TechStage.TRIAGE }, 'submission')).toBe(true);
+    expect(searchesKind({ ...base, stage: TechStage.COMMERCIAL }, 'submission')).toBe(false);
+    expect(searchesKind({ ...base, stage: TechStage.COMMERCIAL }, 'technology')).toBe(true);
+  });
+});
+
+describe('searchAll', () => {
+  const updatedAt = new Date('2025-05-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns nothing for a blank query without touching the database', async () => {
+    await expect(searchAll(parseSearchFilters({ q: ' ' }), 'user-1')).resolves.toEqual([]);
+    expect(mockQueryRaw).not.toHaveBeenCalled();
+  });
+
+  it('merges technologies and submissions by rank', async () => {
+    mockQueryRaw
+      .mockResolvedValueOnce([
+        {
+          id: 'tech-1',
+          techId: 'D25-0001',
+          technologyName: 'Glucose patch',
+          currentStage: TechStage.TRIAGE,
+          status: TechStatus.ACTIVE,
+          updatedAt,
+          rank: 0.2,
+          titleHighlight: '\u0002Glucose\u0003 patch',
+          snippet: 'Continuous \u0002glucose\u0003 sensing',
+        },
+      ])
+      .mockResolvedValueOnce([
+        {
+          id: 'sub-1',
+          templateName: 'Triage form',
+          purpose: 'TRIAGE',
+          status: SubmissionStatus.SUBMITTED,
+          updatedAt,
+          submittedAt: updatedAt,
+          rank: 0.5,
+          snippet: 'Measures \u0002glucose\u0003',
+        },
+      ]);
+
+    const results = await searchAll(parseSearchFilters({ q: 'glucose' }), 'user-1');
+
+    expect(results.map((result) => result.id)).toEqual(['sub-1', 'tech-1']);
+    expect(results[1]).toMatchObject({
+      kind: 'technology',
+      techId: 'D25-0001',
+      title: 'Glucose patch',
+      titleHighlight: [
+        { text: 'Glucose', match: true },
+        { text: ' patch', match: false },
+      ],
+    });
+    expect(results[0]).toMatchObject({ kind: 'submission', title: 'Triage form' });
+  });
+
+  it('skips the submission query when filters rule submissions out', async () => {
+    mockQueryRaw.mockResolvedValue([]);
+
+    await searchAll(parseSearchFilters({ q: 'glucose', status: 'ON_HOLD' }), 'user-1');
+
+    expect(mockQueryRaw).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,296 @@
+import { FormPurpose, Prisma, SubmissionStatus, TechStage, TechStatus } from '@prisma/client';
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+
+// PostgreSQL full-text search over technologies (name, description, triage
+// narratives, competitor and SME rows) and submission answers. Each searchable
+// table has a GIN expression index (migration add_full_text_search); the match
+// expressions below must stay identical to those index definitions or Postgres
+// falls back to scanning.
+
+export const SEARCH_RESULT_KINDS = ['technology', 'submission'] as const;
+export type SearchResultKind = (typeof SEARCH_RESULT_KINDS)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface SearchFilters {
+  query: string;
+  kind?: SearchResultKind;
+  /** Technology stage; submissions match on the purpose of their form */
+  stage?: TechStage;
+  /** A technology or a submission status; narrows results to that kind */
+  status?: TechStatus | SubmissionStatus;
+  /** Last updated on or after this day */
+  from?: Date;
+  /** Last updated on or before this day */
+  to?: Date;
+  limit: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface SearchResultBase {
+  id: string;
+  title: string;
+  titleHighlight: HighlightSegment[];
+  snippet: HighlightSegment[];
+  rank: number;
+  updatedAt: Date;
+}
+
+export interface TechnologySearchResult extends SearchResultBase {
+  kind: 'technology';
+  techId: string;
+  stage: TechStage;
+  status: TechStatus;
+}
+
+export interface SubmissionSearchResult extends SearchResultBase {
+  kind: 'submission';
+  purpose: FormPurpose;
+  status: SubmissionStatus;
+  submittedAt: Date | null;
+}
+
+export type SearchResult = TechnologySearchResult | SubmissionSearchResult;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// ts_headline wraps matches in these; they cannot appear in typed text
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const SNIPPET_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", HighlightAll=true`;
+
+function firstValue(value: string | string[] | undefined) {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function oneOf<T extends string>(allowed: readonly T[], value: string | undefined): T | undefined {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+function parseDay(value: string | undefined) {
+  if (!value) return undefined;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read search filters from URL search params; unknown values are ignored.
+ */
+export function parseSearchFilters(params: SearchParams): SearchFilters {
+  const from = parseDay(firstValue(params.from));
+  const to = parseDay(firstValue(params.to));
+  const limit = Number(firstValue(params.limit));
+
+  return {
+    query: firstValue(params.q) ?? '',
+    kind: oneOf(SEARCH_RESULT_KINDS, firstValue(params.type)),
+    stage: oneOf(Object.values(TechStage), firstValue(params.stage)),
+    status: oneOf([...Object.values(TechStatus), ...Object.values(SubmissionStatus)], firstValue(params.status)),
+    from: from ? startOfDay(from) : undefined,
+    to: to ? endOfDay(to) : undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT,
+  };
+}
+
+/** Splits ts_headline output into plain and matched runs */
+export function splitHighlight(text: string | null): HighlightSegment[] {
+  if (!text) return [];
+  const segments: HighlightSegment[] = [];
+  let match = false;
+  for (const part of text.split(new RegExp(`([${HIGHLIGHT_START}${HIGHLIGHT_END}])`))) {
+    if (part === HIGHLIGHT_START || part === HIGHLIGHT_END) {
+      match = part === HIGHLIGHT_START;
+    } else if (part) {
+      segments.push({ text: part, match });
+    }
+  }
+  return segments;
+}
+
+function isTechStatus(status: SearchFilters['status']): status is TechStatus {
+  return (Object.values(TechStatus) as string[]).includes(status ?? '');
+}
+
+/** Whether a filter combination can return results of this kind at all */
+export function searchesKind(filters: SearchFilters, kind: SearchResultKind) {
+  if (filters.kind && filters.kind !== kind) return false;
+  if (filters.status) return isTechStatus(filters.status) === (kind === 'technology');
+  // Submissions carry their form's purpose, which only covers some stages
+  if (kind === 'submission' && filters.stage) {
+    return (Object.values(FormPurpose) as string[]).includes(filters.stage);
+  }
+  return true;
+}
+
+function updatedBetween(column: Prisma.Sql, filters: SearchFilters) {
+  return Prisma.sql`${filters.from ? Prisma.sql`AND ${column} >= ${filters.from}` : Prisma.empty}
+    ${filters.to ? Prisma.sql`AND ${column} <= ${filters.to}` : Prisma.empty}`;
+}
+
+interface TechnologyRow {
+  id: string;
+  techId: string;
+  technologyName: string;
+  currentStage: TechStage;
+  status: TechStatus;
+  updatedAt: Date;
+  rank: number;
+  titleHighlight: string;
+  snippet: string | null;
+}
+
+async function searchTechnologies(filters: SearchFilters): Promise<TechnologySearchResult[]> {
+  const rows = await prisma.$queryRaw<TechnologyRow[]>`
+    WITH search AS (SELECT websearch_to_tsquery('english', ${filters.query}) AS query),
+    matches AS (
+      SELECT t.id FROM "technologies" t, search
+      WHERE to_tsvector('english', t."technologyName" || ' ' || coalesce(t."shortDescription", '')) @@ search.query
+      UNION
+      SELECT ts."technologyId" FROM "triage_stages" ts, search
+      WHERE to_tsvector('english', ts."technologyOverview" || ' ' || ts."unmetNeedText" || ' ' || ts."marketOverview") @@ search.query
+      UNION
+      SELECT ts."technologyId" FROM "triage_competitors" c JOIN "triage_stages" ts ON ts.id = c."triageStageId", search
+      WHERE to_tsvector('english', c."company" || ' ' || coalesce(c."product", '') || ' ' || coalesce(c."notes", '')) @@ search.query
+      UNION
+      SELECT ts."technologyId" FROM "triage_smes" e JOIN "triage_stages" ts ON ts.id = e."triageStageId", search
+      WHERE to_tsvector('english', e."name" || ' ' || coalesce(e."title", '') || ' ' || coalesce(e."organization", '') || ' ' || coalesce(e."expertise", '') || ' ' || coalesce(e."recommendation", '')) @@ search.query
+    ),
+    documents AS (
+      SELECT t.id, t."techId", t."technologyName", t."currentStage", t.status, t."updatedAt",
+        setweight(to_tsvector('english', t."technologyName" || ' ' || coalesce(t."shortDescription", '')), 'A') ||
+        setweight(to_tsvector('english', concat_ws(' ', ts."technologyOverview", ts."unmetNeedText", ts."marketOverview")), 'B') ||
+        setweight(to_tsvector('english', coalesce(related.text, '')), 'C') AS document,
+        concat_ws(' … ', t."shortDescription", ts."technologyOverview", ts."unmetNeedText", ts."marketOverview", related.text) AS body
+      FROM matches m
+      JOIN "technologies" t ON t.id = m.id
+      LEFT JOIN "triage_stages" ts ON ts."technologyId" = t.id
+      LEFT JOIN LATERAL (
+        SELECT string_agg(entry, ' … ') AS text FROM (
+          SELECT concat_ws(' ', c."company", c."product", c."notes") AS entry FROM "triage_competitors" c WHERE c."triageStageId" = ts.id
+          UNION ALL
+          SELECT concat_ws(' ', e."name", e."title", e."organization", e."expertise", e."recommendation") FROM "triage_smes" e WHERE e."triageStageId" = ts.id
+        ) entries
+      ) related ON true
+      WHERE true
+        ${filters.stage ? Prisma.sql`AND t."currentStage" = ${filters.stage}::"TechStage"` : Prisma.empty}
+        ${filters.status ? Prisma.sql`AND t.status = ${filters.status}::"TechStatus"` : Prisma.empty}
+        ${updatedBetween(Prisma.sql`t."updatedAt"`, filters)}
+    )
+    SELECT d.id, d."techId", d."technologyName", d."currentStage", d.status, d."updatedAt",
+      ts_rank_cd(d.document, search.query)::float8 AS rank,
+      ts_headline('english', d."technologyName", search.query, ${TITLE_OPTIONS}) AS "titleHighlight",
+      ts_headline('english', d.body, search.query, ${SNIPPET_OPTIONS}) AS snippet
+    FROM documents d, search
+    ORDER BY rank DESC, d."updatedAt" DESC
+    LIMIT ${filters.limit}
+  `;
+
+  return rows.map((row) => ({
+    kind: 'technology',
+    id: row.id,
+    techId: row.techId,
+    title: row.technologyName,
+    titleHighlight: splitHighlight(row.titleHighlight),
+    snippet: splitHighlight(row.snippet),
+    rank: Number(row.rank),
+    stage: row.currentStage,
+    status: row.status,
+    updatedAt: row.updatedAt,
+  }));
+}
+
+interface SubmissionRow {
+  id: string;
+  templateName: string;
+  purpose: FormPurpose;
+  status: SubmissionStatus;
+  updatedAt: Date;
+  submittedAt: Date | null;
+  rank: number;
+  snippet: string | null;
+}
+
+/**
+ * Answers of submitted forms are visible to everyone signed in; drafts only to
+ * their author. That is narrower than the drafts list, which shows every user's
+ * drafts, so unfinished answers never surface in someone else's search.
+ */
+async function searchSubmissions(filters: SearchFilters, viewerId: string | null): Promise<SubmissionSearchResult[]> {
+  const rows = await prisma.$queryRaw<SubmissionRow[]>`
+    WITH search AS (SELECT websearch_to_tsquery('english', ${filters.query}) AS query),
+    matches AS (
+      SELECT r."submissionId" AS id FROM "question_responses" r, search
+      WHERE jsonb_to_tsvector('english', r."value", '["string"]'::jsonb) @@ search.query
+      UNION
+      SELECT g."submissionId" FROM "repeatable_group_responses" g, search
+      WHERE jsonb_to_tsvector('english', g."data", '["string"]'::jsonb) @@ search.query
+    ),
+    documents AS (
+      SELECT s.id, tpl.name AS "templateName", tpl.purpose, s.status, s."updatedAt", s."submittedAt",
+        coalesce(answers.text, '') AS body
+      FROM matches m
+      JOIN "form_submissions" s ON s.id = m.id
+      JOIN "form_templates" tpl ON tpl.id = s."templateId"
+      LEFT JOIN LATERAL (
+        SELECT string_agg(strings.value #>> '{}', ' … ') AS text FROM (
+          SELECT v.value FROM "question_responses" r, jsonb_path_query(r."value", 'strict $.** ? (@.type() == "string")') AS v(value)
+          WHERE r."submissionId" = s.id
+          UNION ALL
+          SELECT v.value FROM "repeatable_group_responses" g, jsonb_path_query(g."data", 'strict $.** ? (@.type() == "string")') AS v(value)
+          WHERE g."submissionId" = s.id
+        ) strings
+      ) answers ON true
+      WHERE (s.status <> 'DRAFT'::"SubmissionStatus" OR s."submittedBy" = ${viewerId ?? ''})
+        ${filters.stage ? Prisma.sql`AND tpl.purpose::text = ${filters.stage}` : Prisma.empty}
+        ${filters.status ? Prisma.sql`AND s.status = ${filters.status}::"SubmissionStatus"` : Prisma.empty}
+        ${updatedBetween(Prisma.sql`s."updatedAt"`, filters)}
+    )
+    SELECT d.id, d."templateName", d.purpose, d.status, d."updatedAt", d."submittedAt",
+      ts_rank_cd(to_tsvector('english', d.body), search.query)::float8 AS rank,
+      ts_headline('english', d.body, search.query, ${SNIPPET_OPTIONS}) AS snippet
+    FROM documents d, search
+    ORDER BY rank DESC, d."updatedAt" DESC
+    LIMIT ${filters.limit}
+  `;
+
+  return rows.map((row) => ({
+    kind: 'submission',
+    id: row.id,
+    title: row.templateName,
+    titleHighlight: [{ text: row.templateName, match: false }],
+    snippet: splitHighlight(row.snippet),
+    rank: Number(row.rank),
+    purpose: row.purpose,
+    status: row.status,
+    updatedAt: row.updatedAt,
+    submittedAt: row.submittedAt,
+  }));
+}
+
+/**
+ * Ranked matches across technologies and submissions, best first. A blank
+ * query returns nothing rather than everything.
+ */
+export async function searchAll(filters: SearchFilters, viewerId: string | null): Promise<SearchResult[]> {
+  if (!filters.query) {
+    return [];
+  }
+
+  const [technologies, submissions] = await Promise.all([
+    searchesKind(filters, 'technology') ? searchTechnologies(filters) : Promise.resolve([]),
+    searchesKind(filters, 'submission') ? searchSubmissions(filters, viewerId) : Promise.resolve([]),
+  ]);
+
+  return [...technologies, ...submissions]
+    .sort((a, b) => b.rank - a.rank || b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, filters.limit);
+}
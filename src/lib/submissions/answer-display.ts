@@ -0,0 +1,71 @@
+import { FieldType } from '@prisma/client';
+import { parseRepeatableGroupConfig } from '@/lib/form-engine/json-utils';
+
+// Plain-text rendering of stored answers for read-only views (submission detail
+// and revision diffs): option values become their labels, blanks become a dash.
+
+export function formatPrimitive(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (typeof value === 'number') {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function mapOptionLabel(question: { options: { value: string; label: string }[] }, stored: string) {
+  return question.options.find((option) => option.value === stored)?.label ?? stored;
+}
+
+export function renderSimpleValue(
+  question: { type: FieldType; options: { value: string; label: string }[] },
+  rawValue: unknown
+) {
+  if (rawValue === null || rawValue === undefined) {
+    return '—';
+  }
+
+  switch (question.type) {
+    case FieldType.MULTI_SELECT:
+    case FieldType.CHECKBOX_GROUP: {
+      const values = Array.isArray(rawValue) ? rawValue : [];
+      if (!values.length) return '—';
+      return values
+        .map((value) =>
+          typeof value === 'string' ? mapOptionLabel(question, value) : formatPrimitive(value)
+        )
+        .join(', ');
+    }
+    case FieldType.SINGLE_SELECT: {
+      if (typeof rawValue === 'string') {
+        return mapOptionLabel(question, rawValue);
+      }
+      return formatPrimitive(rawValue);
+    }
+    default:
+      return formatPrimitive(rawValue);
+  }
+}
+
+/** Table columns for a repeat group: the configured ones, else the first row's keys */
+export function buildRepeatableColumns(
+  question: { repeatableConfig: unknown },
+  rows: Record<string, unknown>[]
+): { key: string; label: string }[] {
+  const config = parseRepeatableGroupConfig(question.repeatableConfig);
+  if (config?.columns && config.columns.length > 0) {
+    return config.columns.map((column) => ({ key: column.key, label: column.label }));
+  }
+  const firstRow = rows.find((row) => row && Object.keys(row).length > 0);
+  if (!firstRow) return [];
+  return Object.keys(firstRow)
+    .filter((key) => !key.startsWith('__'))
+    .map((key) => ({ key, label: key.replace(/_/g, ' ') }));
+}
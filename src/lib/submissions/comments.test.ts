@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import type { SubmissionComment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { buildCommentThreads, createSubmissionComment, toPrintableCommentThreads } from './comments';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    submissionComment: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+const comment = (overrides: Partial<SubmissionComment>): SubmissionComment => ({
+  id: 'c-1',
+  submissionId: 'sub-1',
+  questionCode: 'F1.1',
+  rowIndex: null,
+  parentId: null,
+  body: 'Needs a source',
+  mentions: [],
+  authorId: 'reviewer-1',
+  createdAt: new Date('2025-11-15T10:00:00Z'),
+  updatedAt: new Date('2025-11-15T10:00:00Z'),
+  resolvedAt: null,
+  resolvedBy: null,
+  ...overrides,
+});
+
+const labels: Record<string, string> = { 'reviewer-1': 'Riley', 'author-1': 'Avery' };
+const labelFor = (userId: string) => labels[userId] ?? userId;
+
+describe('buildCommentThreads', () => {
+  it('nests replies under the comment that started the thread', () => {
+    const threads = buildCommentThreads(
+      [
+        comment({ id: 'reply', parentId: 'root', authorId: 'author-1', createdAt: new Date('2025-11-15T11:00:00Z') }),
+        comment({ id: 'root', rowIndex: 1, resolvedAt: new Date('2025-11-15T12:00:00Z'), resolvedBy: 'author-1' }),
+        comment({ id: 'other', questionCode: 'F2', createdAt: new Date('2025-11-15T09:00:00Z') }),
+      ],
+      labelFor
+    );
+
+    expect(threads.map((thread) => thread.id)).toEqual(['other', 'root']);
+    expect(threads[1]).toMatchObject({ rowIndex: 1, authorLabel: 'Riley', resolvedByLabel: 'Avery' });
+    expect(threads[1].replies.map((reply) => [reply.id, reply.authorLabel])).toEqual([['reply', 'Avery']]);
+
+    expect(toPrintableCommentThreads(threads)[1]).toEqual({
+      questionCode: 'F1.1',
+      row: 2,
+      resolved: true,
+      comments: [
+        { author: 'Riley', createdAt: '2025-11-15T10:00:00.000Z', text: 'Needs a source' },
+        { author: 'Avery', createdAt: '2025-11-15T11:00:00.000Z', text: 'Needs a source' },
+      ],
+    });
+  });
+});
+
+describe('createSubmissionComment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.submissionComment.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'new', ...data }));
+  });
+
+  it('files replies on the thread question and row and keeps only allowed mentions', async () => {
+    (prisma.submissionComment.findFirst as jest.Mock).mockResolvedValue({ questionCode: 'F3', rowIndex: 0 });
+
+    await createSubmissionComment(
+      {
+        submissionId: 'sub-1',
+        questionCode: 'ignored',
+        parentId: 'root',
+        body: 'Done, @[Riley](reviewer-1) and @[Mallory](outsider)',
+      },
+      'author-1',
+      [{ id: 'reviewer-1', label: 'Riley' }]
+    );
+
+    expect(prisma.submissionComment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        questionCode: 'F3',
+        rowIndex: 0,
+        parentId: 'root',
+        mentions: ['reviewer-1'],
+        authorId: 'author-1',
+      }),
+    });
+  });
+
+  it('rejects replies to a thread on another submission', async () => {
+    (prisma.submissionComment.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(
+      createSubmissionComment({ submissionId: 'sub-1', questionCode: 'F1', parentId: 'elsewhere', body: 'Hi' }, 'author-1', [])
+    ).rejects.toThrow('Comment thread not found');
+    expect(prisma.submissionComment.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import type { SubmissionComment } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PERMISSIONS, hasPermission } from '@/lib/auth/permissions';
+import { listReviewers } from './review';
+import { MentionableUser, extractMentionIds, plainMentionText } from './mentions';
+import type { PrintableCommentThread } from '@/lib/form-engine/pdf/types';
+
+// Comment threads on individual answers. A thread hangs off a question code and,
+// for repeat groups, optionally one row. Authors and reviewers can read, post,
+// reply and resolve; mentions are limited to those same people.
+
+export interface CommentEntry {
+  id: string;
+  body: string;
+  authorId: string;
+  authorLabel: string;
+  mentions: string[];
+  createdAt: Date;
+}
+
+export interface CommentThread extends CommentEntry {
+  questionCode: string;
+  /** Repeat-group row (0-based); null = the whole question */
+  rowIndex: number | null;
+  resolvedAt: Date | null;
+  resolvedByLabel: string | null;
+  replies: CommentEntry[];
+}
+
+export interface NewCommentInput {
+  submissionId: string;
+  questionCode: string;
+  rowIndex?: number | null;
+  /** First comment of the thread being replied to */
+  parentId?: string | null;
+  body: string;
+}
+
+/**
+ * Groups comments into threads ordered by when they started; replies stay in posting order.
+ */
+export function buildCommentThreads(
+  comments: SubmissionComment[],
+  labelFor: (userId: string) => string
+): CommentThread[] {
+  const byCreated = [...comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const toEntry = (comment: SubmissionComment): CommentEntry => ({
+    id: comment.id,
+    body: comment.body,
+    authorId: comment.authorId,
+    authorLabel: labelFor(comment.authorId),
+    mentions: comment.mentions,
+    createdAt: comment.createdAt,
+  });
+
+  return byCreated
+    .filter((comment) => comment.parentId === null)
+    .map((root) => ({
+      ...toEntry(root),
+      questionCode: root.questionCode,
+      rowIndex: root.rowIndex,
+      resolvedAt: root.resolvedAt,
+      resolvedByLabel: root.resolvedBy ? labelFor(root.resolvedBy) : null,
+      replies: byCreated.filter((comment) => comment.parentId === root.id).map(toEntry),
+    }));
+}
+
+/** Threads as printed in the PDF export: plain-text mentions and 1-based rows */
+export function toPrintableCommentThreads(threads: CommentThread[]): PrintableCommentThread[] {
+  return threads.map((thread) => ({
+    questionCode: thread.questionCode,
+    row: thread.rowIndex === null ? null : thread.rowIndex + 1,
+    resolved: thread.resolvedAt !== null,
+    comments: [thread, ...thread.replies].map((comment) => ({
+      author: comment.authorLabel,
+      createdAt: comment.createdAt.toISOString(),
+      text: plainMentionText(comment.body),
+    })),
+  }));
+}
+
+/**
+ * Whether the user may read and write comments on a submission: its author or a reviewer.
+ */
+export async function canAccessSubmissionComments(userId: string, submission: { submittedBy: string }) {
+  return submission.submittedBy === userId || hasPermission(userId, PERMISSIONS.SUBMISSION_REVIEW);
+}
+
+/**
+ * People who can be @-mentioned on a submission: its reviewers and its author.
+ */
+export async function listMentionableUsers(submission: { submittedBy: string }): Promise<MentionableUser[]> {
+  const [reviewers, author] = await Promise.all([
+    listReviewers(),
+    prisma.user.findUnique({ where: { id: submission.submittedBy }, select: { id: true, name: true, email: true } }),
+  ]);
+  if (!author || reviewers.some((reviewer) => reviewer.id === author.id)) {
+    return reviewers;
+  }
+  return [...reviewers, { id: author.id, label: author.name ?? author.email }];
+}
+
+export async function listCommentThreads(submissionId: string): Promise<CommentThread[]> {
+  const comments = await prisma.submissionComment.findMany({
+    where: { submissionId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const userIds = Array.from(
+    new Set(comments.flatMap((comment) => [comment.authorId, comment.resolvedBy]).filter((id): id is string => Boolean(id)))
+  );
+  const users = userIds.length
+    ? await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, email: true } })
+    : [];
+  const labels = new Map(users.map((user) => [user.id, user.name ?? user.email]));
+
+  return buildCommentThreads(comments, (userId) => labels.get(userId) ?? userId);
+}
+
+/**
+ * Start a thread or reply to one. Replies take the thread's question and row;
+ * mentions of anyone who cannot see the submission are dropped.
+ */
+export async function createSubmissionComment(input: NewCommentInput, authorId: string, mentionable: MentionableUser[]) {
+  let questionCode = input.questionCode;
+  let rowIndex = input.rowIndex ?? null;
+
+  if (input.parentId) {
+    const thread = await prisma.submissionComment.findFirst({
+      where: { id: input.parentId, submissionId: input.submissionId, parentId: null },
+      select: { questionCode: true, rowIndex: true },
+    });
+    if (!thread) {
+      throw new Error('Comment thread not found');
+    }
+    questionCode = thread.questionCode;
+    rowIndex = thread.rowIndex;
+  }
+
+  const allowed = new Set(mentionable.map((user) => user.id));
+  return prisma.submissionComment.create({
+    data: {
+      submissionId: input.submissionId,
+      questionCode,
+      rowIndex,
+      parentId: input.parentId ?? null,
+      body: input.body,
+      mentions: extractMentionIds(input.body).filter((userId) => allowed.has(userId)),
+      authorId,
+    },
+  });
+}
+
+export async function setCommentThreadResolved(
+  submissionId: string,
+  threadId: string,
+  resolved: boolean,
+  actorId: string
+) {
+  const result = await prisma.submissionComment.updateMany({
+    where: { id: threadId, submissionId, parentId: null },
+    data: resolved ? { resolvedAt: new Date(), resolvedBy: actorId } : { resolvedAt: null, resolvedBy: null },
+  });
+  if (result.count === 0) {
+    throw new Error('Comment thread not found');
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  activeMentionQuery,
+  encodeMentions,
+  extractMentionIds,
+  plainMentionText,
+  splitMentions,
+} from './mentions';
+
+const sam = { id: 'user-sam', label: 'Sam' };
+const samLee = { id: 'user-sam-lee', label: 'Sam Lee' };
+
+describe('mentions', () => {
+  it('encodes picked people, preferring the longest matching name', () => {
+    const body = encodeMentions('@Sam Lee can you check with @Sam? cc @Samantha', [sam, samLee]);
+
+    expect(body).toBe('@[Sam Lee](user-sam-lee) can you check with @[Sam](user-sam)? cc @Samantha');
+    expect(extractMentionIds(body)).toEqual(['user-sam-lee', 'user-sam']);
+  });
+
+  it('splits stored bodies into text and mentions and prints them as plain text', () => {
+    const body = 'Ask @[Sam Lee](user-sam-lee) about row 2';
+
+    expect(splitMentions(body)).toEqual([
+      { type: 'text', text: 'Ask ' },
+      { type: 'mention', label: 'Sam Lee', userId: 'user-sam-lee' },
+      { type: 'text', text: ' about row 2' },
+    ]);
+    expect(plainMentionText(body)).toBe('Ask @Sam Lee about row 2');
+  });
+
+  it('finds the name being typed after an @', () => {
+    expect(activeMentionQuery('Thanks @Ri')).toBe('Ri');
+    expect(activeMentionQuery('@')).toBe('');
+    expect(activeMentionQuery('mail me at me@example.org')).toBeNull();
+    expect(activeMentionQuery('@Riley done')).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+// @-mentions in comments are stored inline as @[Display name](userId): the text
+// still reads naturally and the user id survives renames. The editor shows
+// plain `@Display name` and encodes the people picked from the list on save.
+
+export interface MentionableUser {
+  id: string;
+  label: string;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; label: string; userId: string };
+
+const MENTION_TOKEN = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces `@Label` for each picked user with the stored token. Longer labels go
+ * first so `@Sam Lee` is not claimed by a user called `Sam`.
+ */
+export function encodeMentions(text: string, picked: MentionableUser[]): string {
+  const byLength = [...new Map(picked.map((user) => [user.id, user])).values()].sort(
+    (a, b) => b.label.length - a.label.length
+  );
+  return byLength.reduce(
+    (encoded, user) =>
+      encoded.replace(new RegExp(`@${escapeRegExp(user.label)}(?![\\w])`, 'g'), `@[${user.label}](${user.id})`),
+    text
+  );
+}
+
+/** Distinct user ids mentioned in a stored comment body, in order of first mention */
+export function extractMentionIds(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_TOKEN), (match) => match[2])));
+}
+
+/** Splits a stored body into text and mention runs for rendering */
+export function splitMentions(body: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let cursor = 0;
+  for (const match of body.matchAll(MENTION_TOKEN)) {
+    const start = match.index ?? 0;
+    if (start > cursor) {
+      segments.push({ type: 'text', text: body.slice(cursor, start) });
+    }
+    segments.push({ type: 'mention', label: match[1], userId: match[2] });
+    cursor = start + match[0].length;
+  }
+  if (cursor < body.length) {
+    segments.push({ type: 'text', text: body.slice(cursor) });
+  }
+  return segments;
+}
+
+/** A stored body with mentions shown as `@Label`, for plain-text output such as the PDF */
+export function plainMentionText(body: string): string {
+  return body.replace(MENTION_TOKEN, (_token, label: string) => `@${label}`);
+}
+
+/** The partial name after an `@` the user is still typing at the end of `text`, or null */
+export function activeMentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^\s@[\]]*)$/.exec(text);
+  return match ? match[1] : null;
+}
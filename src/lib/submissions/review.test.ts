@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import { Prisma, ReviewDecision, SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ReviewTransitionError, evaluateReview, normalizeQuestionComments, recordReview } from './review';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+  },
+}));
+
+const submitted = { status: SubmissionStatus.SUBMITTED, reviewerId: 'reviewer-1' };
+
+describe('evaluateReview', () => {
+  it('lets the assigned reviewer approve a submitted form', () => {
+    expect(evaluateReview(submitted, { decision: ReviewDecision.APPROVED }, 'reviewer-1')).toEqual({
+      decision: ReviewDecision.APPROVED,
+      allowed: true,
+      fromStatus: SubmissionStatus.SUBMITTED,
+      toStatus: SubmissionStatus.REVIEWED,
+      blockers: [],
+    });
+  });
+
+  it('sends change requests back to draft and requires a comment', () => {
+    const withoutComment = evaluateReview(
+      submitted,
+      { decision: ReviewDecision.CHANGES_REQUESTED, summary: ' ', questionComments: { 'F1.1': '' } },
+      'reviewer-1'
+    );
+    expect(withoutComment.allowed).toBe(false);
+    expect(withoutComment.blockers).toEqual(['Add a comment so the author knows what to change']);
+
+    const withComment = evaluateReview(
+      submitted,
+      { decision: ReviewDecision.CHANGES_REQUESTED, questionComments: { 'F1.1': 'Cite the market study' } },
+      'reviewer-1'
+    );
+    expect(withComment).toMatchObject({ allowed: true, toStatus: SubmissionStatus.DRAFT });
+  });
+
+  it('only lets the assigned reviewer decide', () => {
+    expect(evaluateReview(submitted, { decision: ReviewDecision.APPROVED }, 'someone-else').blockers).toEqual([
+      'Only the assigned reviewer can review this submission',
+    ]);
+    expect(
+      evaluateReview({ ...submitted, reviewerId: null }, { decision: ReviewDecision.APPROVED }, 'reviewer-1').blockers
+    ).toEqual(['Assign a reviewer first']);
+  });
+
+  it('refuses to review drafts or already reviewed forms', () => {
+    for (const status of [SubmissionStatus.DRAFT, SubmissionStatus.REVIEWED]) {
+      const evaluation = evaluateReview(
+        { ...submitted, status },
+        { decision: ReviewDecision.ASSIGNED, assigneeId: 'reviewer-2' },
+        'reviewer-1'
+      );
+      expect(evaluation.blockers).toEqual(['Only submitted forms can be reviewed']);
+    }
+  });
+});
+
+describe('normalizeQuestionComments', () => {
+  it('trims comments and drops blanks and non-strings', () => {
+    expect(normalizeQuestionComments({ a: '  Fix this ', b: '   ', c: 3 })).toEqual({ a: 'Fix this' });
+    expect(normalizeQuestionComments(null)).toEqual({});
+  });
+});
+
+describe('recordReview', () => {
+  const tx = {
+    formSubmission: { findUnique: jest.fn(), updateMany: jest.fn() },
+    submissionReview: { create: jest.fn() },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (client: typeof tx) => unknown) => fn(tx));
+    tx.formSubmission.findUnique.mockResolvedValue({ id: 'sub-1', ...submitted });
+    tx.formSubmission.updateMany.mockResolvedValue({ count: 1 });
+    tx.submissionReview.create.mockResolvedValue({ id: 'review-1' });
+  });
+
+  it('approves, stamps the reviewer and logs the step', async () => {
+    const result = await recordReview(
+      { submissionId: 'sub-1', decision: ReviewDecision.APPROVED, summary: ' Looks good ' },
+      'reviewer-1'
+    );
+
+    expect(result.reviewId).toBe('review-1');
+    expect(tx.formSubmission.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-1', status: SubmissionStatus.SUBMITTED, reviewerId: 'reviewer-1' },
+      data: expect.objectContaining({
+        status: SubmissionStatus.REVIEWED,
+        reviewedBy: 'reviewer-1',
+        reviewedAt: expect.any(Date),
+      }),
+    });
+    expect(tx.submissionReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        submissionId: 'sub-1',
+        decision: ReviewDecision.APPROVED,
+        fromStatus: SubmissionStatus.SUBMITTED,
+        toStatus: SubmissionStatus.REVIEWED,
+        summary: 'Looks good',
+        questionComments: Prisma.DbNull,
+        actorId: 'reviewer-1',
+      }),
+    });
+  });
+
+  it('records the assignee when assigning a reviewer', async () => {
+    tx.formSubmission.findUnique.mockResolvedValue({ id: 'sub-1', ...submitted, reviewerId: null });
+
+    await recordReview({ submissionId: 'sub-1', decision: ReviewDecision.ASSIGNED, assigneeId: 'reviewer-2' }, 'lead-1');
+
+    expect(tx.formSubmission.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sub-1', status: SubmissionStatus.SUBMITTED, reviewerId: null },
+      data: { status: SubmissionStatus.SUBMITTED, reviewerId: 'reviewer-2' },
+    });
+    expect(tx.submissionReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ decision: ReviewDecision.ASSIGNED, assigneeId: 'reviewer-2', actorId: 'lead-1' }),
+    });
+  });
+
+  it('throws with blockers and writes nothing when the decision is not allowed', async () => {
+    await expect(
+      recordReview({ submissionId: 'sub-1', decision: ReviewDecision.APPROVED }, 'someone-else')
+    ).rejects.toThrow(ReviewTransitionError);
+    expect(tx.formSubmission.updateMany).not.toHaveBeenCalled();
+    expect(tx.submissionReview.create).not.toHaveBeenCalled();
+  });
+
+  it('fails when the submission changed after it was read', async () => {
+    tx.formSubmission.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      recordReview({ submissionId: 'sub-1', decision: ReviewDecision.APPROVED }, 'reviewer-1')
+    ).rejects.toThrow('This submission was changed by someone else');
+    expect(tx.submissionReview.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+import { Prisma, ReviewDecision, SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PERMISSIONS, PERSONA_PERMISSIONS } from '@/lib/auth/permissions';
+import { isJsonRecord } from '@/lib/form-engine/json-utils';
+
+// Review workflow for submitted forms. A user holding submission:review is
+// assigned to a SUBMITTED form; only that reviewer can then approve it
+// (REVIEWED) or send it back to the author as a DRAFT with comments. Every step
+// is logged to SubmissionReview with who took it and when.
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  ASSIGNED: 'Reviewer assigned',
+  CHANGES_REQUESTED: 'Changes requested',
+  APPROVED: 'Approved',
+};
+
+export interface ReviewableSubmission {
+  status: SubmissionStatus;
+  reviewerId: string | null;
+}
+
+export interface ReviewRequest {
+  submissionId: string;
+  decision: ReviewDecision;
+  /** Overall comment */
+  summary?: string | null;
+  /** Comments keyed by question code */
+  questionComments?: Record<string, string> | null;
+  /** Reviewer to assign; required for ASSIGNED */
+  assigneeId?: string | null;
+}
+
+export interface ReviewEvaluation {
+  decision: ReviewDecision;
+  allowed: boolean;
+  fromStatus: SubmissionStatus;
+  toStatus: SubmissionStatus;
+  /** Reasons the decision cannot be recorded */
+  blockers: string[];
+}
+
+export class ReviewTransitionError extends Error {
+  constructor(public readonly blockers: string[]) {
+    super(blockers.join('; '));
+    this.name = 'ReviewTransitionError';
+  }
+}
+
+/**
+ * Trimmed comments with blank entries dropped. Accepts the stored JSON column too.
+ */
+export function normalizeQuestionComments(comments: unknown): Record<string, string> {
+  if (!isJsonRecord(comments)) {
+    return {};
+  }
+  const normalized: Record<string, string> = {};
+  for (const [questionCode, comment] of Object.entries(comments)) {
+    if (typeof comment === 'string' && comment.trim().length > 0) {
+      normalized[questionCode] = comment.trim();
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Decide whether `actorId` may record the review decision on the submission. Pure.
+ */
+export function evaluateReview(
+  submission: ReviewableSubmission,
+  request: Omit<ReviewRequest, 'submissionId'>,
+  actorId: string
+): ReviewEvaluation {
+  const fromStatus = submission.status;
+  const blockers: string[] = [];
+  let toStatus = fromStatus;
+
+  if (fromStatus !== SubmissionStatus.SUBMITTED) {
+    blockers.push('Only submitted forms can be reviewed');
+  }
+
+  switch (request.decision) {
+    case ReviewDecision.ASSIGNED:
+      if (!request.assigneeId) {
+        blockers.push('Choose a reviewer to assign');
+      }
+      break;
+    case ReviewDecision.CHANGES_REQUESTED:
+    case ReviewDecision.APPROVED: {
+      if (!submission.reviewerId) {
+        blockers.push('Assign a reviewer first');
+      } else if (submission.reviewerId !== actorId) {
+        blockers.push('Only the assigned reviewer can review this submission');
+      }
+      if (request.decision === ReviewDecision.APPROVED) {
+        toStatus = SubmissionStatus.REVIEWED;
+        break;
+      }
+      const hasComment =
+        Boolean(request.summary?.trim()) || Object.keys(normalizeQuestionComments(request.questionComments)).length > 0;
+      if (!hasComment) {
+        blockers.push('Add a comment so the author knows what to change');
+      }
+      toStatus = SubmissionStatus.DRAFT;
+      break;
+    }
+  }
+
+  return { decision: request.decision, allowed: blockers.length === 0, fromStatus, toStatus, blockers };
+}
+
+/**
+ * Record a review decision: gate it, move the submission and log the step, all
+ * in one transaction. Fails if the submission changed since it was read.
+ */
+export async function recordReview(request: ReviewRequest, actorId: string) {
+  return prisma.$transaction(async (tx) => {
+    const submission = await tx.formSubmission.findUnique({
+      where: { id: request.submissionId },
+      select: { id: true, status: true, reviewerId: true },
+    });
+
+    if (!submission) {
+      throw new ReviewTransitionError(['Submission not found']);
+    }
+
+    const evaluation = evaluateReview(submission, request, actorId);
+    if (!evaluation.allowed) {
+      throw new ReviewTransitionError(evaluation.blockers);
+    }
+
+    const reviewedAt = new Date();
+    const data: Prisma.FormSubmissionUpdateManyMutationInput = { status: evaluation.toStatus };
+    if (request.decision === ReviewDecision.ASSIGNED) {
+      data.reviewerId = request.assigneeId;
+    }
+    if (request.decision === ReviewDecision.APPROVED) {
+      data.reviewedAt = reviewedAt;
+      data.reviewedBy = actorId;
+    }
+
+    const result = await tx.formSubmission.updateMany({
+      where: { id: submission.id, status: submission.status, reviewerId: submission.reviewerId },
+      data,
+    });
+
+    if (result.count === 0) {
+      throw new ReviewTransitionError(['This submission was changed by someone else. Reload to see the latest state.']);
+    }
+
+    const questionComments = normalizeQuestionComments(request.questionComments);
+    const review = await tx.submissionReview.create({
+      data: {
+        submissionId: submission.id,
+        decision: request.decision,
+        fromStatus: evaluation.fromStatus,
+        toStatus: evaluation.toStatus,
+        summary: request.summary?.trim() || null,
+        questionComments: Object.keys(questionComments).length > 0 ? questionComments : Prisma.DbNull,
+        assigneeId: request.decision === ReviewDecision.ASSIGNED ? request.assigneeId : null,
+        actorId,
+        createdAt: reviewedAt,
+      },
+    });
+
+    return { evaluation, reviewId: review.id };
+  });
+}
+
+/** Personas whose permissions include reviewing submissions */
+export function reviewerPersonaCodes(): string[] {
+  return Object.entries(PERSONA_PERMISSIONS)
+    .filter(([, permissions]) => permissions.includes(PERMISSIONS.SUBMISSION_REVIEW))
+    .map(([code]) => code);
+}
+
+/**
+ * Active users who can be assigned as a reviewer.
+ */
+export async function listReviewers() {
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      personas: { some: { persona: { code: { in: reviewerPersonaCodes() } } } },
+    },
+    select: { id: true, name: true, email: true },
+    orderBy: [{ name: 'asc' }, { email: 'asc' }],
+  });
+  return users.map((user) => ({ id: user.id, label: user.name ?? user.email }));
+}
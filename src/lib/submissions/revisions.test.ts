@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { Prisma, SubmissionStatus } from '@prisma/client';
+import { alignRepeatGroupRows, diffRevisions, recordSubmissionRevision, toRevisionSnapshot } from './revisions';
+
+describe('alignRepeatGroupRows', () => {
+  const ada = { name: 'Ada', role: 'PI' };
+  const grace = { name: 'Grace', role: 'Co-I' };
+  const alan = { name: 'Alan', role: 'Advisor' };
+
+  it('reports rows inserted and removed around unchanged ones', () => {
+    expect(alignRepeatGroupRows([ada, grace], [ada, alan, grace]).map((row) => row.kind)).toEqual([
+      'unchanged',
+      'added',
+      'unchanged',
+    ]);
+    expect(alignRepeatGroupRows([ada, grace, alan], [ada, alan])).toEqual([
+      { kind: 'unchanged', beforeIndex: 0, afterIndex: 0, before: ada, after: ada },
+      { kind: 'removed', beforeIndex: 1, afterIndex: null, before: grace, after: null },
+      { kind: 'unchanged', beforeIndex: 2, afterIndex: 1, before: alan, after: alan },
+    ]);
+  });
+
+  it('pairs a removed and an added row in the same place as an edit', () => {
+    const edited = { ...grace, role: 'PI' };
+    expect(alignRepeatGroupRows([ada, grace], [ada, edited, alan])).toEqual([
+      { kind: 'unchanged', beforeIndex: 0, afterIndex: 0, before: ada, after: ada },
+      { kind: 'changed', beforeIndex: 1, afterIndex: 1, before: grace, after: edited },
+      { kind: 'added', beforeIndex: null, afterIndex: 2, before: null, after: alan },
+    ]);
+  });
+
+  it('ignores renderer bookkeeping keys when matching rows', () => {
+    const rows = alignRepeatGroupRows([{ ...ada, __rowId: 'a' }], [{ ...ada, __rowId: 'b' }]);
+    expect(rows.map((row) => row.kind)).toEqual(['unchanged']);
+  });
+});
+
+describe('diffRevisions', () => {
+  it('classifies answer changes and treats blanks as absent', () => {
+    const diff = diffRevisions(
+      { responses: { 'F1.1': 'Old title', 'F1.2': 'Kept', 'F1.3': 'Dropped', 'F1.4': '' }, repeatGroups: {} },
+      { responses: { 'F1.1': 'New title', 'F1.2': 'Kept', 'F1.3': '  ', 'F1.4': 'Filled' }, repeatGroups: {} }
+    );
+
+    expect(diff.answers).toEqual([
+      { questionCode: 'F1.1', kind: 'changed', before: 'Old title', after: 'New title' },
+      { questionCode: 'F1.3', kind: 'removed', before: 'Dropped', after: '  ' },
+      { questionCode: 'F1.4', kind: 'added', before: '', after: 'Filled' },
+    ]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('lists only repeat groups that changed, keeping unchanged rows for context', () => {
+    const inventor = { name: 'Ada' };
+    const diff = diffRevisions(
+      { responses: {}, repeatGroups: { 'F0.5': [inventor], 'F0.6': [{ site: 'Main' }] } },
+      { responses: {}, repeatGroups: { 'F0.5': [inventor, { name: 'Grace' }], 'F0.6': [{ site: 'Main' }] } }
+    );
+
+    expect(diff.repeatGroups).toHaveLength(1);
+    expect(diff.repeatGroups[0].questionCode).toBe('F0.5');
+    expect(diff.repeatGroups[0].rows.map((row) => row.kind)).toEqual(['unchanged', 'added']);
+  });
+
+  it('finds nothing between identical snapshots', () => {
+    const snapshot = { responses: { a: ['x', 'y'] }, repeatGroups: { g: [{ b: 1 }] } };
+    expect(diffRevisions(snapshot, structuredClone(snapshot)).hasChanges).toBe(false);
+  });
+});
+
+describe('toRevisionSnapshot', () => {
+  it('reads stored JSON and drops malformed groups', () => {
+    expect(
+      toRevisionSnapshot({ responses: { a: 1 }, repeatGroups: { g: [{ b: 2 }], bad: 'nope' } as Prisma.JsonValue })
+    ).toEqual({ responses: { a: 1 }, repeatGroups: { g: [{ b: 2 }] } });
+    expect(toRevisionSnapshot({ responses: null, repeatGroups: [] })).toEqual({ responses: {}, repeatGroups: {} });
+  });
+});
+
+describe('recordSubmissionRevision', () => {
+  const tx = { submissionRevision: { findFirst: jest.fn(), create: jest.fn() } };
+  const client = tx as unknown as Prisma.TransactionClient;
+  const input = {
+    submissionId: 'sub-1',
+    status: SubmissionStatus.DRAFT,
+    responses: { 'F1.1': 'Title' },
+    repeatGroups: { 'F0.5': [{ name: 'Ada' }] },
+    createdBy: 'user-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('writes the first revision of a submission', async () => {
+    tx.submissionRevision.findFirst.mockResolvedValue(null);
+
+    await expect(recordSubmissionRevision(client, input)).resolves.toBe(1);
+    expect(tx.submissionRevision.create).toHaveBeenCalledWith({ data: { ...input, revision: 1 } });
+  });
+
+  it('skips saves that change neither answers nor status', async () => {
+    tx.submissionRevision.findFirst.mockResolvedValue({ ...input, revision: 3 });
+
+    await expect(recordSubmissionRevision(client, input)).resolves.toBeNull();
+    expect(tx.submissionRevision.create).not.toHaveBeenCalled();
+  });
+
+  it('numbers a new revision when the status changes on submit', async () => {
+    tx.submissionRevision.findFirst.mockResolvedValue({ ...input, revision: 3 });
+
+    await expect(
+      recordSubmissionRevision(client, { ...input, status: SubmissionStatus.SUBMITTED })
+    ).resolves.toBe(4);
+    expect(tx.submissionRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ revision: 4, status: SubmissionStatus.SUBMITTED }),
+    });
+  });
+});
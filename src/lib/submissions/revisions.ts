@@ -0,0 +1,201 @@
+import type { Prisma, SubmissionStatus } from '@prisma/client';
+import { sameAnswer } from '@/lib/technology/conflict-merge';
+
+// Revision history of a submission's answers. Saving replaces the live
+// QuestionResponse and RepeatableGroupResponse rows, so every save or submit that
+// changes something also writes an immutable snapshot; two snapshots can then be
+// diffed answer by answer, with repeat-group rows aligned by content.
+
+export type RepeatGroupRow = Record<string, unknown>;
+
+export interface RevisionSnapshot {
+  responses: Record<string, unknown>;
+  repeatGroups: Record<string, RepeatGroupRow[]>;
+}
+
+export interface NewRevisionInput extends RevisionSnapshot {
+  submissionId: string;
+  status: SubmissionStatus;
+  createdBy: string;
+}
+
+export type AnswerChangeKind = 'added' | 'removed' | 'changed';
+
+export interface AnswerChange {
+  questionCode: string;
+  kind: AnswerChangeKind;
+  before: unknown;
+  after: unknown;
+}
+
+export type RowChangeKind = AnswerChangeKind | 'unchanged';
+
+export interface RowChange {
+  kind: RowChangeKind;
+  /** 0-based position in the older revision; null for added rows */
+  beforeIndex: number | null;
+  /** 0-based position in the newer revision; null for removed rows */
+  afterIndex: number | null;
+  before: RepeatGroupRow | null;
+  after: RepeatGroupRow | null;
+}
+
+export interface RepeatGroupChange {
+  questionCode: string;
+  /** Every row of both revisions in order, unchanged ones included for context */
+  rows: RowChange[];
+}
+
+export interface RevisionDiff {
+  answers: AnswerChange[];
+  repeatGroups: RepeatGroupChange[];
+  hasChanges: boolean;
+}
+
+function asRecord(value: Prisma.JsonValue | null | undefined): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/** Reads the stored JSON columns of a revision back into a snapshot */
+export function toRevisionSnapshot(revision: {
+  responses: Prisma.JsonValue;
+  repeatGroups: Prisma.JsonValue;
+}): RevisionSnapshot {
+  const repeatGroups: Record<string, RepeatGroupRow[]> = {};
+  for (const [questionCode, rows] of Object.entries(asRecord(revision.repeatGroups))) {
+    if (Array.isArray(rows)) {
+      repeatGroups[questionCode] = rows.map((row) => asRecord(row as Prisma.JsonValue));
+    }
+  }
+  return { responses: asRecord(revision.responses), repeatGroups };
+}
+
+/** Row content without the renderer's bookkeeping keys (`__rowId` and friends) */
+function rowContent(row: RepeatGroupRow): RepeatGroupRow {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !key.startsWith('__')));
+}
+
+function sameRow(left: RepeatGroupRow, right: RepeatGroupRow) {
+  return sameAnswer(rowContent(left), rowContent(right));
+}
+
+function sameSnapshot(left: RevisionSnapshot, right: RevisionSnapshot) {
+  return diffRevisions(left, right).hasChanges === false;
+}
+
+/**
+ * Pairs up the rows of two versions of a repeat group. Identical rows are
+ * anchored by longest common subsequence; between anchors, removed and added
+ * rows are paired off in order as edits and the rest are true additions or
+ * removals.
+ */
+export function alignRepeatGroupRows(before: RepeatGroupRow[], after: RepeatGroupRow[]): RowChange[] {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = sameRow(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: RowChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < Math.max(removed.length, added.length); k += 1) {
+      const beforeIndex = k < removed.length ? removed[k] : null;
+      const afterIndex = k < added.length ? added[k] : null;
+      rows.push({
+        kind: k < paired ? 'changed' : beforeIndex === null ? 'added' : 'removed',
+        beforeIndex,
+        afterIndex,
+        before: beforeIndex === null ? null : before[beforeIndex],
+        after: afterIndex === null ? null : after[afterIndex],
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && sameRow(before[i], after[j])) {
+      flush();
+      rows.push({ kind: 'unchanged', beforeIndex: i, afterIndex: j, before: before[i], after: after[j] });
+      i += 1;
+      j += 1;
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(i);
+      i += 1;
+    } else {
+      added.push(j);
+      j += 1;
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Answer-level differences between an older and a newer revision. Blank
+ * answers count as absent, so clearing a field reads as a removal.
+ */
+export function diffRevisions(before: RevisionSnapshot, after: RevisionSnapshot): RevisionDiff {
+  const answers: AnswerChange[] = [];
+  const questionCodes = new Set([...Object.keys(before.responses), ...Object.keys(after.responses)]);
+  for (const questionCode of questionCodes) {
+    const previous = before.responses[questionCode] ?? null;
+    const next = after.responses[questionCode] ?? null;
+    if (sameAnswer(previous, next)) {
+      continue;
+    }
+    const kind = sameAnswer(previous, null) ? 'added' : sameAnswer(next, null) ? 'removed' : 'changed';
+    answers.push({ questionCode, kind, before: previous, after: next });
+  }
+
+  const repeatGroups: RepeatGroupChange[] = [];
+  const groupCodes = new Set([...Object.keys(before.repeatGroups), ...Object.keys(after.repeatGroups)]);
+  for (const questionCode of groupCodes) {
+    const rows = alignRepeatGroupRows(before.repeatGroups[questionCode] ?? [], after.repeatGroups[questionCode] ?? []);
+    if (rows.some((row) => row.kind !== 'unchanged')) {
+      repeatGroups.push({ questionCode, rows });
+    }
+  }
+
+  return { answers, repeatGroups, hasChanges: answers.length > 0 || repeatGroups.length > 0 };
+}
+
+/**
+ * Appends a revision inside the caller's save transaction. Saves that change
+ * neither the answers nor the status (repeated autosaves) add nothing.
+ * Returns the revision number written, or null when it was skipped.
+ */
+export async function recordSubmissionRevision(tx: Prisma.TransactionClient, input: NewRevisionInput) {
+  const latest = await tx.submissionRevision.findFirst({
+    where: { submissionId: input.submissionId },
+    orderBy: { revision: 'desc' },
+  });
+
+  const snapshot: RevisionSnapshot = { responses: input.responses, repeatGroups: input.repeatGroups };
+  if (latest && latest.status === input.status && sameSnapshot(toRevisionSnapshot(latest), snapshot)) {
+    return null;
+  }
+
+  const revision = (latest?.revision ?? 0) + 1;
+  await tx.submissionRevision.create({
+    data: {
+      submissionId: input.submissionId,
+      revision,
+      status: input.status,
+      responses: input.responses as Prisma.InputJsonValue,
+      repeatGroups: input.repeatGroups as Prisma.InputJsonValue,
+      createdBy: input.createdBy,
+    },
+  });
+  return revision;
+}
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { DataSource, Prisma } from '@prisma/client';
+import { buildBindingDictionary, diffBindingValues, recordBindingAudit } from './audit';
+import type { TechnologyWithSupplements } from './service';
+
+const technology = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'tech-1',
+    techId: 'D25-0001',
+    technologyName: 'Smart Patch',
+    updatedAt: new Date('2025-11-01T00:00:00Z'),
+    triageStage: null,
+    viabilityStage: null,
+    ...overrides,
+  }) as unknown as TechnologyWithSupplements;
+
+describe('diffBindingValues', () => {
+  it('records every bound value as new when the technology is created', () => {
+    const changes = diffBindingValues(null, technology(), ['technology.technologyName', 'technology.techId'], {});
+
+    expect(changes).toEqual([
+      { fieldPath: 'technology.techId', oldValue: null, newValue: 'D25-0001', stage: null },
+      { fieldPath: 'technology.technologyName', oldValue: null, newValue: 'Smart Patch', stage: null },
+    ]);
+  });
+
+  it('reads stage answers stored only in extendedData through the dictionary', () => {
+    const dictionary = buildBindingDictionary({
+      notes: {
+        fieldCode: 'notes',
+        questionId: 'q-notes',
+        dictionaryKey: 'viability.notes',
+        bindingPath: 'viabilityStage.reviewerNotes',
+        dataSource: DataSource.STAGE_SUPPLEMENT,
+      },
+    });
+    const before = technology({ viabilityStage: { extendedData: { 'viability.notes': { value: 'Draft' } } } });
+    const after = technology({ viabilityStage: { extendedData: { 'viability.notes': { value: 'Final' } } } });
+
+    expect(diffBindingValues(before, after, ['viabilityStage.reviewerNotes'], dictionary)).toEqual([
+      { fieldPath: 'viabilityStage.reviewerNotes', oldValue: 'Draft', newValue: 'Final', stage: 'VIABILITY' },
+    ]);
+  });
+
+  it('treats blank strings and missing values as equal and serializes dates', () => {
+    const before = technology({ inventorName: '', updatedAt: new Date('2025-11-01T00:00:00Z') });
+    const after = technology({ inventorName: null, updatedAt: new Date('2025-11-02T00:00:00Z') });
+
+    expect(diffBindingValues(before, after, ['technology.inventorName', 'technology.updatedAt'], {})).toEqual([
+      {
+        fieldPath: 'technology.updatedAt',
+        oldValue: '2025-11-01T00:00:00.000Z',
+        newValue: '2025-11-02T00:00:00.000Z',
+        stage: null,
+      },
+    ]);
+  });
+});
+
+describe('recordBindingAudit', () => {
+  it('stores cleared values as database NULL and defaults the actor to system', async () => {
+    const createMany = jest.fn().mockResolvedValue({ count: 1 });
+    const tx = { technologyAuditLog: { createMany } } as unknown as Prisma.TransactionClient;
+
+    await recordBindingAudit(tx, 'tech-1', [
+      { fieldPath: 'technology.inventorName', oldValue: 'Dr. Old', newValue: null, stage: null },
+    ]);
+
+    expect(createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          technologyId: 'tech-1',
+          oldValue: 'Dr. Old',
+          newValue: Prisma.DbNull,
+          persona: null,
+          changedBy: 'system',
+        }),
+      ],
+    });
+  });
+
+  it('skips the insert when there are no changes', async () => {
+    const createMany = jest.fn();
+    const tx = { technologyAuditLog: { createMany } } as unknown as Prisma.TransactionClient;
+
+    await expect(recordBindingAudit(tx, 'tech-1', [])).resolves.toBe(0);
+    expect(createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { Prisma, TechStage } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { readTechnologyValue } from '@/lib/metrics/engine';
+import type { BindingMetadata, TechnologyWithSupplements } from './service';
+
+export interface BindingAuditChange {
+  fieldPath: string;
+  oldValue: Prisma.JsonValue | null;
+  newValue: Prisma.JsonValue | null;
+  stage: TechStage | null;
+}
+
+export interface BindingAuditActor {
+  changedBy?: string;
+  persona?: string | null;
+}
+
+const STAGE_BY_ROOT: Record<string, TechStage> = {
+  triageStage: TechStage.TRIAGE,
+  viabilityStage: TechStage.VIABILITY,
+};
+
+export const SYSTEM_ACTOR = 'system';
+
+function toAuditValue(value: unknown): Prisma.JsonValue | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return JSON.parse(JSON.stringify(value)) as Prisma.JsonValue;
+}
+
+/**
+ * Dictionary key → binding path for the bound questions, so extendedData
+ * answers can be read back by binding path.
+ */
+export function buildBindingDictionary(bindingMetadata: Record<string, BindingMetadata>) {
+  const dictionary: Record<string, string> = {};
+  for (const meta of Object.values(bindingMetadata)) {
+    if (meta.dictionaryKey && meta.bindingPath) {
+      dictionary[meta.dictionaryKey] = meta.bindingPath;
+    }
+  }
+  return dictionary;
+}
+
+/**
+ * Compare the technology aggregate before and after a write, one entry per
+ * binding path whose stored value actually changed.
+ */
+export function diffBindingValues(
+  previous: TechnologyWithSupplements | null,
+  current: TechnologyWithSupplements | null,
+  bindingPaths: string[],
+  dictionary: Record<string, string>
+): BindingAuditChange[] {
+  const changes: BindingAuditChange[] = [];
+
+  for (const fieldPath of Array.from(new Set(bindingPaths)).sort()) {
+    const oldValue = toAuditValue(readTechnologyValue(fieldPath, { technology: previous, dictionary }));
+    const newValue = toAuditValue(readTechnologyValue(fieldPath, { technology: current, dictionary }));
+
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      continue;
+    }
+
+    const [root] = fieldPath.split('.');
+    changes.push({ fieldPath, oldValue, newValue, stage: STAGE_BY_ROOT[root] ?? null });
+  }
+
+  return changes;
+}
+
+function toJsonInput(value: Prisma.JsonValue | null) {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Append audit rows for a binding write inside the caller's transaction.
+ */
+export async function recordBindingAudit(
+  tx: Prisma.TransactionClient,
+  technologyId: string,
+  changes: BindingAuditChange[],
+  actor: BindingAuditActor = {}
+): Promise<number> {
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  const changedAt = new Date();
+  const result = await tx.technologyAuditLog.createMany({
+    data: changes.map((change) => ({
+      technologyId,
+      fieldPath: change.fieldPath,
+      oldValue: toJsonInput(change.oldValue),
+      newValue: toJsonInput(change.newValue),
+      stage: change.stage,
+      persona: actor.persona ?? null,
+      changedBy: actor.changedBy ?? SYSTEM_ACTOR,
+      changedAt,
+    })),
+  });
+
+  return result.count;
+}
+
+/**
+ * Human-readable rendering of an audited value for history tables.
+ */
+export function formatAuditValue(value: Prisma.JsonValue | null): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+export interface TechnologyAuditEntry {
+  id: string;
+  fieldPath: string;
+  oldValue: Prisma.JsonValue | null;
+  newValue: Prisma.JsonValue | null;
+  stage: TechStage | null;
+  persona: string | null;
+  changedBy: string;
+  changedByLabel: string;
+  changedAt: Date;
+}
+
+/**
+ * Audit history for one technology, newest first, with actors resolved to user names.
+ */
+export async function getTechnologyAuditTrail(techId: string, limit = 200) {
+  const technology = await prisma.technology.findUnique({
+    where: { techId },
+    select: { id: true, techId: true, technologyName: true },
+  });
+
+  if (!technology) {
+    return null;
+  }
+
+  const rows = await prisma.technologyAuditLog.findMany({
+    where: { technologyId: technology.id },
+    orderBy: [{ changedAt: 'desc' }, { fieldPath: 'asc' }],
+    take: limit,
+  });
+
+  const actorIds = Array.from(new Set(rows.map((row) => row.changedBy)));
+  const users = actorIds.length
+    ? await prisma.user.findMany({
+        where: { id: { in: actorIds } },
+        select: { id: true, name: true, email: true },
+      })
+    : [];
+  const labels = new Map(users.map((user) => [user.id, user.name ?? user.email]));
+
+  const entries: TechnologyAuditEntry[] = rows.map((row) => ({
+    id: row.id,
+    fieldPath: row.fieldPath,
+    oldValue: row.oldValue,
+    newValue: row.newValue,
+    stage: row.stage,
+    persona: row.persona,
+    changedBy: row.changedBy,
+    changedByLabel: labels.get(row.changedBy) ?? row.changedBy,
+    changedAt: row.changedAt,
+  }));
+
+  return { technology, entries };
+}
@@ -0,0 +1,36 @@
+import { mergeBindingConflict, resolveMerge, sameAnswer } from './conflict-merge';
+
+describe('conflict-merge', () => {
+  const base = { title: 'Stent', owner: 'Ada', stage: 'triage', inventors: [] };
+  const conflict = {
+    theirs: { title: 'Smart stent', owner: 'Grace', stage: 'triage', inventors: [{ name: 'Lin', dept: 'Cardiology' }] },
+    mine: { title: 'Stent', owner: 'Alan', stage: 'viability', inventors: [{ dept: 'Cardiology', name: 'Lin' }] },
+    rowVersions: { technologyRowVersion: 4 },
+  };
+
+  it('takes whichever side changed a field and flags fields both changed', () => {
+    const merge = mergeBindingConflict(base, conflict);
+
+    expect(merge.merged).toEqual({
+      title: 'Smart stent',
+      owner: 'Alan',
+      stage: 'viability',
+      inventors: [{ dept: 'Cardiology', name: 'Lin' }],
+    });
+    expect(merge.conflicts).toEqual([{ fieldCode: 'owner', base: 'Ada', theirs: 'Grace', mine: 'Alan' }]);
+  });
+
+  it('applies the picked side to each conflict', () => {
+    const merge = mergeBindingConflict(base, conflict);
+
+    expect(resolveMerge(merge, { owner: 'theirs' }).owner).toBe('Grace');
+    expect(resolveMerge(merge, { owner: 'base' }).owner).toBe('Ada');
+    expect(resolveMerge(merge, {}).owner).toBe('Alan');
+  });
+
+  it('treats blank values as equal', () => {
+    expect(sameAnswer(undefined, '')).toBe(true);
+    expect(sameAnswer([], null)).toBe(true);
+    expect(sameAnswer(0, '')).toBe(false);
+  });
+});
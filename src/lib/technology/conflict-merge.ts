@@ -0,0 +1,77 @@
+import { hasMeaningfulValue } from './answer-status';
+import { BindingConflict } from './types';
+
+export type ConflictSide = 'base' | 'theirs' | 'mine';
+
+/** A bound field both users changed, to different values */
+export interface ConflictField {
+  fieldCode: string;
+  base: unknown;
+  theirs: unknown;
+  mine: unknown;
+}
+
+export interface ThreeWayMerge {
+  /** Every bound field's merged value; conflicting fields hold `mine` until resolved */
+  merged: Record<string, unknown>;
+  conflicts: ConflictField[];
+}
+
+function canonical(value: unknown): unknown {
+  if (!hasMeaningfulValue(value)) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/** Blank values (undefined, null, '', []) match each other; object key order is ignored */
+export function sameAnswer(left: unknown, right: unknown): boolean {
+  return JSON.stringify(canonical(left)) === JSON.stringify(canonical(right));
+}
+
+/**
+ * Three-way merge of bound answers. A field only one side changed takes that
+ * side's value; a field both sides changed to different values is a conflict.
+ */
+export function mergeBindingConflict(base: Record<string, unknown>, conflict: BindingConflict): ThreeWayMerge {
+  const merged: Record<string, unknown> = {};
+  const conflicts: ConflictField[] = [];
+  const fieldCodes = new Set([...Object.keys(conflict.theirs), ...Object.keys(conflict.mine)]);
+
+  for (const fieldCode of fieldCodes) {
+    const theirs = conflict.theirs[fieldCode] ?? null;
+    const mine = conflict.mine[fieldCode] ?? null;
+    const baseValue = base[fieldCode] ?? null;
+
+    if (sameAnswer(theirs, mine) || sameAnswer(baseValue, theirs)) {
+      merged[fieldCode] = mine;
+    } else if (sameAnswer(baseValue, mine)) {
+      merged[fieldCode] = theirs;
+    } else {
+      merged[fieldCode] = mine;
+      conflicts.push({ fieldCode, base: baseValue, theirs, mine });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/** Applies the side picked for each conflicting field; unpicked conflicts keep `mine` */
+export function resolveMerge(merge: ThreeWayMerge, choices: Record<string, ConflictSide>): Record<string, unknown> {
+  const resolved = { ...merge.merged };
+  for (const field of merge.conflicts) {
+    const side = choices[field.fieldCode] ?? 'mine';
+    resolved[field.fieldCode] = field[side];
+  }
+  return resolved;
+}
@@ -1,4 +1,4 @@
-import { Technology, TriageStage, ViabilityStage } from '@prisma/client';
+import { FormPurpose, Technology, TechStage, TriageStage, ViabilityStage } from '@prisma/client';
 
 export const TECHNOLOGY_BINDABLE_FIELDS = new Set<
   keyof Technology
@@ -18,6 +18,44 @@ export const TECHNOLOGY_BINDABLE_FIELDS = new Set<
   'lastModifiedAt',
 ]);
 
+export const STAGE_LABELS: Record<TechStage, string> = {
+  TRIAGE: 'Triage',
+  VIABILITY: 'Viability',
+  COMMERCIAL: 'Commercial',
+  MARKET_READY: 'Market ready',
+  ARCHIVED: 'Archived',
+};
+
+export const FORM_PURPOSE_LABELS: Record<FormPurpose, string> = {
+  INTAKE: 'Intake',
+  TRIAGE: 'Triage',
+  VIABILITY: 'Viability',
+};
+
+/** Questionnaire opened when no template or purpose is requested */
+export const DEFAULT_FORM_PURPOSE: FormPurpose = FormPurpose.TRIAGE;
+
+/** Questionnaire that assesses a technology at each stage, where there is one */
+export const STAGE_FORM_PURPOSE: Partial<Record<TechStage, FormPurpose>> = {
+  TRIAGE: FormPurpose.TRIAGE,
+  VIABILITY: FormPurpose.VIABILITY,
+};
+
+/**
+ * Parse a purpose selector from a URL (`viability`, `VIABILITY`) or a stage
+ * name. Returns null for anything that names neither.
+ */
+export function parseFormPurpose(value: string | null | undefined): FormPurpose | null {
+  const normalized = value?.trim().toUpperCase();
+  if (!normalized) {
+    return null;
+  }
+  if (normalized in FormPurpose) {
+    return normalized as FormPurpose;
+  }
+  return STAGE_FORM_PURPOSE[normalized as TechStage] ?? null;
+}
+
 export const REQUIRED_TECH_FIELDS_FOR_CREATE: Array<keyof Technology> = [
   'technologyName',
   'inventorName',
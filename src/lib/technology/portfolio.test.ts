@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma';
+import {
+  PORTFOLIO_PAGE_SIZE,
+  buildPortfolioOrderBy,
+  buildPortfolioWhere,
+  listPortfolioTechnologies,
+  parsePortfolioFilters,
+} from './portfolio';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    technology: { count: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+const mockCount = prisma.technology.count as jest.Mock;
+const mockFindMany = prisma.technology.findMany as jest.Mock;
+
+describe('parsePortfolioFilters', () => {
+  it('defaults to most recently updated first', () => {
+    expect(parsePortfolioFilters({})).toEqual({
+      stage: undefined,
+      status: undefined,
+      domainAssetClass: undefined,
+      reviewerName: undefined,
+      sort: 'updatedAt',
+      direction: 'desc',
+      page: 1,
+    });
+  });
+
+  it('keeps known enum values and drops unknown ones', () => {
+    const filters = parsePortfolioFilters({
+      stage: 'VIABILITY',
+      status: 'SLEEPING',
+      domain: ['Device', 'Drug'],
+      reviewer: '  ',
+      sort: 'impactScore',
+      direction: 'sideways',
+    });
+
+    expect(filters).toMatchObject({
+      stage: 'VIABILITY',
+      status: undefined,
+      domainAssetClass: 'Device',
+      reviewerName: undefined,
+      sort: 'impactScore',
+      direction: 'desc',
+    });
+    expect(buildPortfolioWhere(filters)).toEqual({ currentStage: 'VIABILITY', domainAssetClass: 'Device' });
+  });
+
+  it('sorts names ascending unless asked otherwise', () => {
+    const filters = parsePortfolioFilters({ sort: 'technologyName' });
+
+    expect(buildPortfolioOrderBy(filters)).toEqual([{ technologyName: 'asc' }, { techId: 'asc' }]);
+  });
+});
+
+describe('buildPortfolioOrderBy', () => {
+  it('orders scores through the triage stage relation', () => {
+    expect(buildPortfolioOrderBy(parsePortfolioFilters({ sort: 'impactScore' }))).toEqual([
+      { triageStage: { impactScore: 'desc' } },
+      { techId: 'asc' },
+    ]);
+    expect(buildPortfolioOrderBy(parsePortfolioFilters({ sort: 'valueScore', direction: 'asc' }))).toEqual([
+      { triageStage: { valueScore: 'asc' } },
+      { techId: 'asc' },
+    ]);
+  });
+
+  it('orders stages in pipeline order by default', () => {
+    expect(buildPortfolioOrderBy(parsePortfolioFilters({ sort: 'currentStage' }))).toEqual([
+      { currentStage: 'asc' },
+      { updatedAt: 'desc' },
+      { techId: 'asc' },
+    ]);
+  });
+});
+
+describe('listPortfolioTechnologies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pages through the database instead of loading every row', async () => {
+    mockCount.mockResolvedValue(PORTFOLIO_PAGE_SIZE * 2 + 5);
+    mockFindMany.mockResolvedValue([{ techId: 'D25-0101' }]);
+
+    const result = await listPortfolioTechnologies(parsePortfolioFilters({ stage: 'TRIAGE', page: '2' }));
+
+    expect(result).toEqual({ technologies: [{ techId: 'D25-0101' }], total: 105, page: 2, pageCount: 3 });
+    expect(mockCount).toHaveBeenCalledWith({ where: { currentStage: 'TRIAGE' } });
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { currentStage: 'TRIAGE' },
+        skip: PORTFOLIO_PAGE_SIZE,
+        take: PORTFOLIO_PAGE_SIZE,
+      })
+    );
+  });
+
+  it('lists technologies without a triage stage after the scored ones', async () => {
+    mockCount.mockResolvedValueOnce(3).mockResolvedValueOnce(2);
+    mockFindMany
+      .mockResolvedValueOnce([
+        { techId: 'D25-0002', triageStage: { impactScore: 3 } },
+        { techId: 'D25-0001', triageStage: { impactScore: 1 } },
+      ])
+      .mockResolvedValueOnce([{ techId: 'D25-0003', triageStage: null }]);
+
+    const result = await listPortfolioTechnologies(parsePortfolioFilters({ sort: 'impactScore' }));
+
+    expect(result.technologies.map((technology) => technology.techId)).toEqual([
+      'D25-0002',
+      'D25-0001',
+      'D25-0003',
+    ]);
+    expect(mockFindMany).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        where: { AND: [{}, { triageStage: { isNot: null } }] },
+        orderBy: [{ triageStage: { impactScore: 'desc' } }, { techId: 'asc' }],
+        skip: 0,
+        take: PORTFOLIO_PAGE_SIZE,
+      })
+    );
+    expect(mockFindMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        where: { AND: [{}, { triageStage: { is: null } }] },
+        skip: 0,
+        take: PORTFOLIO_PAGE_SIZE - 2,
+      })
+    );
+  });
+
+  it('starts a later page part-way through the unscored technologies', async () => {
+    mockCount.mockResolvedValueOnce(PORTFOLIO_PAGE_SIZE + 20).mockResolvedValueOnce(PORTFOLIO_PAGE_SIZE - 10);
+    mockFindMany.mockResolvedValue([]);
+
+    await listPortfolioTechnologies(parsePortfolioFilters({ sort: 'valueScore', page: '2' }));
+
+    expect(mockFindMany).toHaveBeenCalledTimes(1);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { AND: [{}, { triageStage: { is: null } }] },
+        skip: 10,
+        take: PORTFOLIO_PAGE_SIZE,
+      })
+    );
+  });
+
+  it('falls back to the last page when asked for one past the end', async () => {
+    mockCount.mockResolvedValue(3);
+    mockFindMany.mockResolvedValue([]);
+
+    const result = await listPortfolioTechnologies(parsePortfolioFilters({ page: '9' }));
+
+    expect(result.page).toBe(1);
+    expect(mockFindMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 0 }));
+  });
+});
@@ -0,0 +1,172 @@
+import { Prisma, TechStage, TechStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// Query helpers behind the /technologies portfolio view. Filters arrive as URL
+// search params so a filtered view can be bookmarked and shared.
+
+export const PORTFOLIO_SORT_FIELDS = ['updatedAt', 'technologyName', 'currentStage', 'impactScore', 'valueScore'] as const;
+export type PortfolioSortField = (typeof PORTFOLIO_SORT_FIELDS)[number];
+export type SortDirection = 'asc' | 'desc';
+
+export const PORTFOLIO_PAGE_SIZE = 50;
+
+export interface PortfolioFilters {
+  stage?: TechStage;
+  status?: TechStatus;
+  domainAssetClass?: string;
+  reviewerName?: string;
+  sort: PortfolioSortField;
+  direction: SortDirection;
+  /** 1-based */
+  page: number;
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function firstValue(value: string | string[] | undefined) {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function oneOf<T extends string>(allowed: readonly T[], value: string | undefined): T | undefined {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+/**
+ * Read portfolio filters from page search params; unknown values are ignored.
+ */
+export function parsePortfolioFilters(params: SearchParams): PortfolioFilters {
+  const sort = oneOf(PORTFOLIO_SORT_FIELDS, firstValue(params.sort)) ?? 'updatedAt';
+  const direction =
+    oneOf(['asc', 'desc'] as const, firstValue(params.direction)) ?? defaultSortDirection(sort);
+  const page = Number.parseInt(firstValue(params.page) ?? '', 10);
+
+  return {
+    stage: oneOf(Object.values(TechStage), firstValue(params.stage)),
+    status: oneOf(Object.values(TechStatus), firstValue(params.status)),
+    domainAssetClass: firstValue(params.domain),
+    reviewerName: firstValue(params.reviewer),
+    sort,
+    direction,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/** Names and stages read naturally A→Z and triage→market; dates and scores newest/highest first */
+export function defaultSortDirection(sort: PortfolioSortField): SortDirection {
+  return sort === 'technologyName' || sort === 'currentStage' ? 'asc' : 'desc';
+}
+
+export function buildPortfolioWhere(filters: PortfolioFilters): Prisma.TechnologyWhereInput {
+  return {
+    ...(filters.stage ? { currentStage: filters.stage } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.domainAssetClass ? { domainAssetClass: filters.domainAssetClass } : {}),
+    ...(filters.reviewerName ? { reviewerName: filters.reviewerName } : {}),
+  };
+}
+
+/**
+ * Scores sort through the optional triage stage relation; technologies without
+ * one are paged after the scored ones (see listPortfolioTechnologies).
+ * Stages sort in pipeline order (the enum's declaration order).
+ */
+export function buildPortfolioOrderBy(filters: PortfolioFilters): Prisma.TechnologyOrderByWithRelationInput[] {
+  const { sort, direction } = filters;
+  switch (sort) {
+    case 'impactScore':
+      return [{ triageStage: { impactScore: direction } }, { techId: 'asc' }];
+    case 'valueScore':
+      return [{ triageStage: { valueScore: direction } }, { techId: 'asc' }];
+    case 'currentStage':
+      return [{ currentStage: direction }, { updatedAt: 'desc' }, { techId: 'asc' }];
+    case 'technologyName':
+      return [{ technologyName: direction }, { techId: 'asc' }];
+    default:
+      return [{ updatedAt: direction }, { techId: 'asc' }];
+  }
+}
+
+const PORTFOLIO_SELECT = {
+  id: true,
+  techId: true,
+  technologyName: true,
+  domainAssetClass: true,
+  reviewerName: true,
+  inventorName: true,
+  currentStage: true,
+  status: true,
+  updatedAt: true,
+  triageStage: { select: { impactScore: true, valueScore: true, recommendation: true } },
+} satisfies Prisma.TechnologySelect;
+
+function findPortfolioRows(
+  where: Prisma.TechnologyWhereInput,
+  orderBy: Prisma.TechnologyOrderByWithRelationInput[],
+  skip: number,
+  take: number
+) {
+  return prisma.technology.findMany({ where, orderBy, skip, take, select: PORTFOLIO_SELECT });
+}
+
+/**
+ * One page of the filtered portfolio plus the total match count. Pages past the
+ * end fall back to the last page.
+ */
+export async function listPortfolioTechnologies(filters: PortfolioFilters) {
+  const where = buildPortfolioWhere(filters);
+  const total = await prisma.technology.count({ where });
+  const pageCount = Math.max(1, Math.ceil(total / PORTFOLIO_PAGE_SIZE));
+  const page = Math.min(filters.page, pageCount);
+  const skip = (page - 1) * PORTFOLIO_PAGE_SIZE;
+  const orderBy = buildPortfolioOrderBy(filters);
+
+  if (filters.sort !== 'impactScore' && filters.sort !== 'valueScore') {
+    const technologies = await findPortfolioRows(where, orderBy, skip, PORTFOLIO_PAGE_SIZE);
+    return { technologies, total, page, pageCount };
+  }
+
+  // Scores live on the triage stage, and a missing relation sorts as NULL (first
+  // when descending). Page through the scored technologies, then the unscored ones.
+  const scoredWhere: Prisma.TechnologyWhereInput = { AND: [where, { triageStage: { isNot: null } }] };
+  const scoredTotal = await prisma.technology.count({ where: scoredWhere });
+  const scored =
+    skip < scoredTotal ? await findPortfolioRows(scoredWhere, orderBy, skip, PORTFOLIO_PAGE_SIZE) : [];
+  const unscored =
+    scored.length < PORTFOLIO_PAGE_SIZE
+      ? await findPortfolioRows(
+          { AND: [where, { triageStage: { is: null } }] },
+          [{ techId: 'asc' }],
+          Math.max(0, skip - scoredTotal),
+          PORTFOLIO_PAGE_SIZE - scored.length
+        )
+      : [];
+
+  return { technologies: [...scored, ...unscored], total, page, pageCount };
+}
+
+export type PortfolioTechnology = Awaited<ReturnType<typeof listPortfolioTechnologies>>['technologies'][number];
+
+/**
+ * Distinct domain and reviewer values for the filter dropdowns.
+ */
+export async function getPortfolioFilterOptions() {
+  const [domains, reviewers] = await Promise.all([
+    prisma.technology.findMany({
+      distinct: ['domainAssetClass'],
+      select: { domainAssetClass: true },
+      orderBy: { domainAssetClass: 'asc' },
+    }),
+    prisma.technology.findMany({
+      distinct: ['reviewerName'],
+      select: { reviewerName: true },
+      orderBy: { reviewerName: 'asc' },
+    }),
+  ]);
+
+  return {
+    domains: domains.map((row) => row.domainAssetClass).filter(Boolean),
+    reviewers: reviewers.map((row) => row.reviewerName).filter(Boolean),
+  };
+}
@@ -22,6 +22,7 @@ import {
   buildViabilityStageUpdateManyData,
   coerceString,
   coerceNumber,
+  coerceDecimal,
 } from '@/lib/technology/service'
 
 const makeBinding = (overrides: Partial<BindingMetadata>): BindingMetadata => ({
@@ -222,8 +223,17 @@ describe('technology service helpers', () => {
     const viability = sanitizeViabilityStageData({
       technicalFeasibility: '  Strong ',
       regulatoryPathway: 'FDA',
+      timeToMarket: '17.6',
+      technicalScore: '2.345',
+      commercialScore: '',
+      unknownField: 'ignore',
+    })
+    expect(viability).toEqual({
+      technicalFeasibility: 'Strong',
+      regulatoryPathway: 'FDA',
+      timeToMarket: 18,
+      technicalScore: 2.35,
     })
-    expect(viability).toEqual({ technicalFeasibility: 'Strong' })
   })
 
   it('builds stage create/update payloads with defaults', () => {
@@ -248,6 +258,8 @@ describe('technology service helpers', () => {
       technicalScore: 4,
     })
     expect(viabilityCreate.technicalFeasibility).toBe('Solid')
+    expect(viabilityCreate.regulatoryPathway).toBe('')
+    expect(viabilityCreate.technicalScore).toBe(4)
 
     const viabilityUpdate = buildViabilityStageUpdateManyData({
       technicalScore: 4,
@@ -261,7 +273,11 @@ describe('technology service helpers', () => {
   it('coerces values into strings and numbers', () => {
     expect(coerceString(42)).toBe('42')
     expect(coerceString(undefined)).toBeUndefined()
+    expect(coerceString(['biologics', ' devices '])).toBe('biologics; devices')
+    expect(coerceString([{ name: 'row' }])).toBeUndefined()
     expect(coerceNumber('5.7')).toBe(6)
     expect(coerceNumber('nan')).toBeUndefined()
+    expect(coerceDecimal('1.666')).toBe(1.67)
+    expect(coerceDecimal('')).toBeUndefined()
   })
 })
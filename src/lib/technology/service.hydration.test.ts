@@ -4,6 +4,7 @@
 import { DataSource, FieldType, QuestionDictionary } from '@prisma/client'
 import type { FormTemplateWithSections } from '@/lib/form-engine/types'
 import { buildQuestion, buildSection, buildTemplate } from '@/lib/form-engine/test-utils'
+import { buildTemplateSnapshot } from '@/lib/form-engine/template-versions'
 import type { TechnologyWithSupplements } from '@/lib/technology/service'
 import {
   loadTemplateWithBindings,
@@ -21,6 +22,9 @@ jest.mock('@/lib/prisma', () => ({
       findFirst: jest.fn(),
       findUnique: jest.fn(),
     },
+    formTemplateVersion: {
+      findFirst: jest.fn(),
+    },
     technology: {
       findUnique: jest.fn(),
     },
@@ -31,6 +35,7 @@ import { prisma } from '@/lib/prisma'
 
 const mockPrisma = prisma as unknown as {
   formTemplate: { findFirst: jest.Mock; findUnique: jest.Mock }
+  formTemplateVersion: { findFirst: jest.Mock }
   technology: { findUnique: jest.Mock }
 }
 
@@ -173,6 +178,7 @@ const technologyFixture: TechnologyWithSupplements = {
 describe('technology service hydration helpers', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockPrisma.formTemplateVersion.findFirst.mockResolvedValue(null)
   })
 
   it('throws when no active template is available', async () => {
@@ -193,6 +199,16 @@ describe('technology service hydration helpers', () => {
     expect(result.technologyContext).toBeNull()
   })
 
+  it('loads the active template for the requested purpose', async () => {
+    mockPrisma.formTemplate.findFirst.mockResolvedValue(buildTemplateFixture())
+
+    await loadTemplateWithBindings({ purpose: 'VIABILITY' })
+
+    expect(mockPrisma.formTemplate.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { isActive: true, purpose: 'VIABILITY' } })
+    )
+  })
+
   it('hydrates responses and repeat groups when technology exists', async () => {
     const template = buildTemplateFixture()
     const techRecord = {
@@ -243,6 +259,34 @@ describe('technology service hydration helpers', () => {
     expect(result.bindingMetadata.TECH_NAME.dictionaryKey).toBe('technologyName')
   })
 
+  it('renders the latest published version instead of the draft rows', async () => {
+    const template = buildTemplateFixture()
+    const published = { ...template, name: 'Published Name' }
+    mockPrisma.formTemplate.findFirst.mockResolvedValue({ ...template, name: 'Draft Name' })
+    mockPrisma.formTemplateVersion.findFirst.mockResolvedValue({
+      id: 'ver-2',
+      version: 2,
+      structure: buildTemplateSnapshot(published),
+    })
+
+    const result = await loadTemplateWithBindings()
+
+    expect(result.template.name).toBe('Published Name')
+    expect(result.templateVersion).toEqual({ id: 'ver-2', version: 2 })
+    expect(mockPrisma.formTemplateVersion.findFirst).toHaveBeenCalledWith({
+      where: { templateId: 'tpl-hydration' },
+      orderBy: { version: 'desc' },
+    })
+  })
+
+  it('throws when a pinned template version does not exist', async () => {
+    mockPrisma.formTemplate.findUnique.mockResolvedValue(buildTemplateFixture())
+
+    await expect(fetchTemplateWithBindingsById('tpl-hydration', 'ver-missing')).rejects.toThrow(
+      'Template version not found for id ver-missing'
+    )
+  })
+
   it('throws when fetching a template by id that does not exist', async () => {
     mockPrisma.formTemplate.findUnique.mockResolvedValue(null)
 
@@ -2,6 +2,7 @@ import { prisma } from '@/lib/prisma';
 import {
   DataSource,
   FieldType,
+  FormPurpose,
   Prisma,
   Technology,
   TriageStage,
@@ -11,7 +12,11 @@ import {
   FormTemplateWithSections,
   FormQuestionWithDetails,
 } from '@/lib/form-engine/types';
+import { hydrateTemplateSnapshot, TemplateVersionRef } from '@/lib/form-engine/template-versions';
+import { parseNumericInput } from '@/lib/form-engine/number-format';
 import {
+  DEFAULT_FORM_PURPOSE,
+  FORM_PURPOSE_LABELS,
   TECHNOLOGY_BINDABLE_FIELDS,
   REQUIRED_TECH_FIELDS_FOR_CREATE,
   TRIAGE_STAGE_BINDABLE_FIELDS,
@@ -23,6 +28,7 @@ import {
   RowVersionSnapshot,
   TechnologyContext,
   OptimisticLockError,
+  BindingConflict,
 } from '@/lib/technology/types';
 import {
   getAnswerStatus,
@@ -31,6 +37,8 @@ import {
   hasMeaningfulValue,
   VersionedAnswerMap,
 } from './answer-status';
+import { recalculateTechnologyMetrics } from '@/lib/metrics/engine';
+import { buildBindingDictionary, diffBindingValues, recordBindingAudit } from './audit';
 
 export interface BindingMetadata {
   fieldCode: string;
@@ -51,6 +59,8 @@ export interface TemplateHydrationResult {
   answerMetadata: Record<string, AnswerStatusDetail>;
   technologyContext: TechnologyContext | null;
   rowVersions: RowVersionSnapshot;
+  /** Published version rendered; null when the template has never been published */
+  templateVersion: TemplateVersionRef | null;
 }
 
 export type TechnologyWithSupplements = Technology & {
@@ -58,7 +68,7 @@ export type TechnologyWithSupplements = Technology & {
   viabilityStage: ViabilityStage | null;
 };
 
-const TEMPLATE_WITH_BINDINGS_INCLUDE = {
+export const TEMPLATE_WITH_BINDINGS_INCLUDE = {
   sections: {
     orderBy: { order: 'asc' as const },
     include: {
@@ -72,35 +82,61 @@ const TEMPLATE_WITH_BINDINGS_INCLUDE = {
       },
     },
   },
+  recommendationRuleSets: {
+    orderBy: { version: 'desc' as const },
+    take: 1,
+  },
 } satisfies Prisma.FormTemplateInclude;
 
 interface LoadTemplateOptions {
   techId?: string;
+  /** Load this template instead of the active one */
+  templateId?: string;
+  /** Which active template to load when no templateId is given (defaults to triage) */
+  purpose?: FormPurpose;
+  /** Render this published version (e.g. the one a draft pinned) instead of the latest */
+  versionId?: string;
 }
 
 export interface BindingWriteOptions {
   userId?: string;
+  /** Persona code recorded on audit rows */
+  persona?: string | null;
   allowCreateWhenIncomplete?: boolean;
   expectedVersions?: RowVersionSnapshot;
+  /** Binding path → value computed on the server (e.g. stage scores), written alongside the answers */
+  derivedValues?: Record<string, unknown>;
 }
 
 /**
- * Load the active form template along with binding metadata and (optional) prefilled responses.
+ * Load the active form template for a purpose (or the one requested by id) along
+ * with binding metadata and (optional) prefilled responses.
  */
 export async function loadTemplateWithBindings(
   options: LoadTemplateOptions = {}
 ): Promise<TemplateHydrationResult> {
-  const { techId } = options;
-
-  const template = await prisma.formTemplate.findFirst({
-    where: { isActive: true },
-    include: TEMPLATE_WITH_BINDINGS_INCLUDE,
-  });
+  const { techId, templateId, versionId, purpose = DEFAULT_FORM_PURPOSE } = options;
+
+  const draftTemplate = templateId
+    ? await prisma.formTemplate.findUnique({
+        where: { id: templateId },
+        include: TEMPLATE_WITH_BINDINGS_INCLUDE,
+      })
+    : await prisma.formTemplate.findFirst({
+        where: { isActive: true, purpose },
+        orderBy: { updatedAt: 'desc' },
+        include: TEMPLATE_WITH_BINDINGS_INCLUDE,
+      });
 
-  if (!template) {
-    throw new Error('No active form template found');
+  if (!draftTemplate) {
+    throw new Error(
+      templateId
+        ? `Form template not found for id ${templateId}`
+        : `No active form template found for ${FORM_PURPOSE_LABELS[purpose].toLowerCase()}`
+    );
   }
 
+  const { template, templateVersion } = await resolvePublishedTemplate(draftTemplate, versionId);
   const bindingMetadata = collectBindingMetadata(template);
 
   if (!techId) {
@@ -112,6 +148,7 @@ export async function loadTemplateWithBindings(
       answerMetadata: {},
       technologyContext: null,
       rowVersions: {},
+      templateVersion,
     };
   }
 
@@ -132,6 +169,7 @@ export async function loadTemplateWithBindings(
       answerMetadata: {},
       technologyContext: null,
       rowVersions: {},
+      templateVersion,
     };
   }
 
@@ -161,21 +199,97 @@ export async function loadTemplateWithBindings(
       triageStageRowVersion: technology.triageStage?.rowVersion,
       viabilityStageRowVersion: technology.viabilityStage?.rowVersion,
     },
+    templateVersion,
+  };
+}
+
+const ACTIVE_TEMPLATE_SELECT = {
+  id: true,
+  name: true,
+  version: true,
+  description: true,
+  purpose: true,
+} satisfies Prisma.FormTemplateSelect;
+
+export type ActiveTemplateSummary = Prisma.FormTemplateGetPayload<{ select: typeof ACTIVE_TEMPLATE_SELECT }>;
+
+/**
+ * Active templates the form entry point can offer, grouped by purpose.
+ */
+export async function listActiveTemplates(): Promise<ActiveTemplateSummary[]> {
+  return prisma.formTemplate.findMany({
+    where: { isActive: true },
+    orderBy: [{ purpose: 'asc' }, { name: 'asc' }],
+    select: ACTIVE_TEMPLATE_SELECT,
+  });
+}
+
+/**
+ * The template loadTemplateWithBindings picks for a purpose, e.g. the viability
+ * questionnaire opened from the technology page.
+ */
+export async function findActiveTemplate(purpose: FormPurpose): Promise<ActiveTemplateSummary | null> {
+  return prisma.formTemplate.findFirst({
+    where: { isActive: true, purpose },
+    orderBy: { updatedAt: 'desc' },
+    select: ACTIVE_TEMPLATE_SELECT,
+  });
+}
+
+/**
+ * The structure a form renders: the requested (or latest) published version of
+ * the template, or its live rows when it has never been published. The latest
+ * recommendation rule set is carried over since rule sets are versioned separately.
+ */
+export async function resolvePublishedTemplate(
+  template: FormTemplateWithSections,
+  versionId?: string | null
+): Promise<{ template: FormTemplateWithSections; templateVersion: TemplateVersionRef | null }> {
+  const version = versionId
+    ? await prisma.formTemplateVersion.findFirst({ where: { id: versionId, templateId: template.id } })
+    : await prisma.formTemplateVersion.findFirst({
+        where: { templateId: template.id },
+        orderBy: { version: 'desc' },
+      });
+
+  if (!version) {
+    if (versionId) {
+      throw new Error(`Template version not found for id ${versionId}`);
+    }
+    return { template, templateVersion: null };
+  }
+
+  return {
+    template: {
+      ...hydrateTemplateSnapshot(version.structure),
+      // Routing metadata is not part of the frozen structure
+      isActive: template.isActive,
+      purpose: template.purpose,
+      recommendationRuleSets: template.recommendationRuleSets,
+    },
+    templateVersion: { id: version.id, version: version.version },
   };
 }
 
-export async function fetchTemplateWithBindingsById(templateId: string) {
-  const template = await prisma.formTemplate.findUnique({
+/**
+ * Template plus binding metadata for saving answers. Pass the version the form
+ * was rendered from; omitted, the latest published version is used.
+ */
+export async function fetchTemplateWithBindingsById(templateId: string, versionId?: string | null) {
+  const draftTemplate = await prisma.formTemplate.findUnique({
     where: { id: templateId },
     include: TEMPLATE_WITH_BINDINGS_INCLUDE,
   });
 
-  if (!template) {
+  if (!draftTemplate) {
     throw new Error(`Form template not found for id ${templateId}`);
   }
 
+  const { template, templateVersion } = await resolvePublishedTemplate(draftTemplate, versionId);
+
   return {
     template,
+    templateVersion,
     bindingMetadata: collectBindingMetadata(template),
   };
 }
@@ -420,8 +534,9 @@ function normalizeValueForField(
         return value.map((entry) => String(entry));
       }
       if (typeof value === 'string') {
+        // Array answers bound to text columns are written '; '-joined (flattenArrayValue)
         return value
-          .split(',')
+          .split(value.includes(';') ? ';' : ',')
           .map((entry) => entry.trim())
           .filter((entry) => entry.length > 0);
       }
@@ -434,6 +549,13 @@ function normalizeValueForField(
       return Number.isFinite(num) ? num : undefined;
     }
 
+    // Bound columns may hold formatted text such as "$1,250.50" or "12.5%",
+    // or a Prisma Decimal, which stringifies without loss
+    case FieldType.DECIMAL:
+    case FieldType.CURRENCY:
+    case FieldType.PERCENTAGE:
+      return parseNumericInput(Prisma.Decimal.isDecimal(value) ? value.toString() : value) ?? undefined;
+
     case FieldType.DATE: {
       if (value instanceof Date) {
         return value.toISOString().slice(0, 10);
@@ -471,7 +593,10 @@ export async function applyBindingWrites(
     return {};
   }
 
-  const bindingValues = extractBindingValues(bindingMetadata, responses);
+  const bindingValues = {
+    ...extractBindingValues(bindingMetadata, responses),
+    ...options.derivedValues,
+  };
   if (!Object.keys(bindingValues).length) {
     return {};
   }
@@ -497,6 +622,7 @@ export async function applyBindingWrites(
       viabilityStage: true,
     },
   });
+  const previousTechnology = technologyRecord;
 
   const technologyData = sanitizeTechnologyData(
     partitions.technology,
@@ -591,6 +717,32 @@ export async function applyBindingWrites(
     expected.viabilityStageRowVersion
   );
 
+  // Field-level audit: one row per binding path whose stored value changed
+  const updatedTechnology = await tx.technology.findUnique({
+    where: { id: technologyRecord.id },
+    include: {
+      triageStage: true,
+      viabilityStage: true,
+    },
+  });
+  await recordBindingAudit(
+    tx,
+    technologyRecord.id,
+    diffBindingValues(
+      previousTechnology,
+      updatedTechnology,
+      Object.keys(bindingValues),
+      buildBindingDictionary(bindingMetadata)
+    ),
+    { changedBy: options.userId, persona: options.persona }
+  );
+
+  // Recompute derived metrics whose inputs were touched by this write
+  await recalculateTechnologyMetrics(tx, technologyRecord.id, {
+    changedPaths: Object.keys(bindingValues),
+    previous: previousTechnology,
+  });
+
   return {
     technologyId: technologyRecord.id,
     techId: resolvedTechId,
@@ -602,6 +754,56 @@ export async function applyBindingWrites(
   };
 }
 
+/**
+ * Reads back what a rejected write collided with: the bound fields' current
+ * values, the values the write carried, and fresh row versions for a retry.
+ * Returns null when the responses do not identify an existing technology.
+ */
+export async function loadBindingConflict(
+  template: FormTemplateWithSections,
+  bindingMetadata: Record<string, BindingMetadata>,
+  responses: Record<string, unknown>
+): Promise<BindingConflict | null> {
+  const techId = partitionBindingValues(extractBindingValues(bindingMetadata, responses)).technology.techId;
+  if (typeof techId !== 'string' || techId.trim().length === 0) {
+    return null;
+  }
+
+  const technology = await prisma.technology.findUnique({
+    where: { techId: techId.trim() },
+    include: {
+      triageStage: true,
+      viabilityStage: true,
+    },
+  });
+  if (!technology) {
+    return null;
+  }
+
+  const boundQuestions = template.sections
+    .flatMap((section) => section.questions)
+    .filter((question) => bindingMetadata[question.fieldCode]);
+  const current = buildInitialValues(technology, boundQuestions);
+
+  const theirs: Record<string, unknown> = {};
+  const mine: Record<string, unknown> = {};
+  for (const question of boundQuestions) {
+    const { fieldCode } = question;
+    theirs[fieldCode] = current.repeatGroups[fieldCode] ?? current.responses[fieldCode] ?? null;
+    mine[fieldCode] = responses[fieldCode] ?? null;
+  }
+
+  return {
+    theirs,
+    mine,
+    rowVersions: {
+      technologyRowVersion: technology.rowVersion,
+      triageStageRowVersion: technology.triageStage?.rowVersion,
+      viabilityStageRowVersion: technology.viabilityStage?.rowVersion,
+    },
+  };
+}
+
 export function extractBindingValues(
   bindingMetadata: Record<string, BindingMetadata>,
   responses: Record<string, unknown>
@@ -1107,10 +1309,27 @@ export function sanitizeViabilityStageData(
       continue;
     }
 
-    if (field === 'technicalFeasibility') {
-      const str = coerceString(value);
-      if (str !== undefined) {
-        data.technicalFeasibility = str;
+    switch (field) {
+      case 'timeToMarket': {
+        const num = coerceNumber(value);
+        if (num !== undefined) {
+          data.timeToMarket = num;
+        }
+        break;
+      }
+      case 'technicalScore':
+      case 'commercialScore': {
+        const num = coerceDecimal(value);
+        if (num !== undefined) {
+          data[field] = num;
+        }
+        break;
+      }
+      default: {
+        const str = coerceString(value);
+        if (str !== undefined) {
+          (data as Record<string, unknown>)[field] = str;
+        }
       }
     }
   }
@@ -1186,11 +1405,12 @@ export function buildViabilityStageCreateData(
       connect: { id: technologyId },
     },
     technicalFeasibility: data.technicalFeasibility ?? '',
-    regulatoryPathway: '',
-    costAnalysis: '',
-    resourceRequirements: '',
-    riskAssessment: '',
-    overallViability: '',
+    regulatoryPathway: data.regulatoryPathway ?? '',
+    costAnalysis: data.costAnalysis ?? '',
+    timeToMarket: data.timeToMarket ?? undefined,
+    resourceRequirements: data.resourceRequirements ?? '',
+    riskAssessment: data.riskAssessment ?? '',
+    overallViability: data.overallViability ?? '',
     technicalScore: data.technicalScore ?? 0,
     commercialScore: data.commercialScore ?? 0,
     ...(data.extendedData !== undefined
@@ -1240,6 +1460,11 @@ export function coerceString(value: unknown): string | undefined {
     return String(value);
   }
 
+  // Multi-choice answers bound to a text column
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string' || typeof item === 'number')) {
+    return flattenArrayValue(value);
+  }
+
   return undefined;
 }
 
@@ -1255,3 +1480,19 @@ export function coerceNumber(value: unknown): number | undefined {
 
   return undefined;
 }
+
+/**
+ * Like coerceNumber but keeps two decimal places (for calculated scores).
+ */
+export function coerceDecimal(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const num = typeof value === 'number' ? value : Number(value);
+  if (Number.isFinite(num)) {
+    return Math.round(num * 100) / 100;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,251 @@
+/**
+ * @jest-environment node
+ */
+import { TechStage, TechStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  StageTransitionError,
+  evaluateTransition,
+  transitionTechnology,
+} from './stage-transitions';
+import { OptimisticLockError } from './types';
+import type { TechnologyWithSupplements } from './service';
+import { DEFAULT_RECOMMENDATION_RULES, RecommendationRules } from '@/lib/scoring/recommendations';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+  },
+}));
+
+const triageStage = {
+  technologyOverview: 'Wearable sensor',
+  missionAlignmentText: 'Pediatric focus',
+  unmetNeedText: 'No continuous monitoring',
+  stateOfArtText: 'Spot checks only',
+  marketOverview: 'Hospitals',
+  recommendation: 'Proceed',
+};
+
+const technology = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'tech-1',
+    techId: 'D25-0001',
+    technologyName: 'Smart Patch',
+    inventorName: 'Dr. Smith',
+    reviewerName: 'Dr. Jones',
+    domainAssetClass: 'Device',
+    currentStage: TechStage.TRIAGE,
+    status: TechStatus.ACTIVE,
+    rowVersion: 3,
+    triageStage,
+    viabilityStage: null,
+    ...overrides,
+  }) as unknown as TechnologyWithSupplements;
+
+describe('evaluateTransition', () => {
+  it('promotes a completed triage with a Proceed recommendation to viability', () => {
+    expect(evaluateTransition(technology(), 'PROMOTE')).toEqual({
+      action: 'PROMOTE',
+      allowed: true,
+      fromStage: TechStage.TRIAGE,
+      toStage: TechStage.VIABILITY,
+      fromStatus: TechStatus.ACTIVE,
+      toStatus: TechStatus.ACTIVE,
+      blockers: [],
+    });
+  });
+
+  it('blocks promotion out of triage until required fields and recommendation are in place', () => {
+    const evaluation = evaluateTransition(
+      technology({ triageStage: { ...triageStage, marketOverview: ' ', recommendation: 'Hold' } }),
+      'PROMOTE'
+    );
+
+    expect(evaluation.allowed).toBe(false);
+    expect(evaluation.blockers).toEqual([
+      'Missing triage fields: Market overview',
+      'Triage recommendation must be Proceed (currently Hold)',
+    ]);
+  });
+
+  it('accepts whichever bands the rule set marks as advancing', () => {
+    const rules: RecommendationRules = {
+      ...DEFAULT_RECOMMENDATION_RULES,
+      bands: [
+        { key: 'fast_track', label: 'Fast track', color: 'blue', advances: true },
+        { key: 'proceed', label: 'Proceed', color: 'green', advances: false },
+      ],
+      rules: [],
+      defaultBand: 'proceed',
+    };
+    const fastTracked = technology({ triageStage: { ...triageStage, recommendation: 'Fast track' } });
+
+    expect(evaluateTransition(fastTracked, 'PROMOTE', rules).allowed).toBe(true);
+    expect(evaluateTransition(technology(), 'PROMOTE', rules).blockers).toEqual([
+      'Triage recommendation must be Fast track (currently Proceed)',
+    ]);
+  });
+
+  it('lets rule sets saved before the advances flag inherit it from the built-in bands', () => {
+    const legacy: RecommendationRules = {
+      ...DEFAULT_RECOMMENDATION_RULES,
+      bands: DEFAULT_RECOMMENDATION_RULES.bands.map((band) => ({ ...band, advances: undefined })),
+    };
+
+    expect(evaluateTransition(technology(), 'PROMOTE', legacy).allowed).toBe(true);
+  });
+
+  it('requires a viability assessment before promoting to commercial', () => {
+    const evaluation = evaluateTransition(technology({ currentStage: TechStage.VIABILITY }), 'PROMOTE');
+
+    expect(evaluation.blockers).toEqual(['Viability assessment has not been completed']);
+  });
+
+  it('only holds active technologies and only resumes held ones', () => {
+    expect(evaluateTransition(technology(), 'HOLD').allowed).toBe(true);
+    expect(evaluateTransition(technology(), 'RESUME').allowed).toBe(false);
+
+    const held = technology({ status: TechStatus.ON_HOLD });
+    expect(evaluateTransition(held, 'RESUME')).toMatchObject({ allowed: true, toStatus: TechStatus.ACTIVE });
+    expect(evaluateTransition(held, 'PROMOTE').blockers).toContain('Only active technologies can be promoted');
+  });
+
+  it('archives abandoned technologies and blocks every further transition', () => {
+    expect(evaluateTransition(technology(), 'ABANDON')).toMatchObject({
+      allowed: true,
+      toStage: TechStage.ARCHIVED,
+      toStatus: TechStatus.ABANDONED,
+    });
+
+    const archived = technology({ currentStage: TechStage.ARCHIVED, status: TechStatus.ABANDONED });
+    expect(evaluateTransition(archived, 'ABANDON').allowed).toBe(false);
+    expect(evaluateTransition(archived, 'PROMOTE').allowed).toBe(false);
+  });
+});
+
+describe('transitionTechnology', () => {
+  const tx = {
+    technology: { findUnique: jest.fn(), updateMany: jest.fn() },
+    formQuestion: { findMany: jest.fn() },
+    formSubmission: { findFirst: jest.fn() },
+    stageHistory: { create: jest.fn() },
+    technologyAuditLog: { createMany: jest.fn() },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((callback: (client: typeof tx) => unknown) =>
+      callback(tx)
+    );
+    tx.technology.findUnique.mockResolvedValue(technology());
+    tx.technology.updateMany.mockResolvedValue({ count: 1 });
+    tx.formQuestion.findMany.mockResolvedValue([{ fieldCode: 'F0.1' }]);
+    tx.formSubmission.findFirst.mockResolvedValue({ recommendationRuleSet: null });
+    tx.stageHistory.create.mockResolvedValue({ id: 'history-1' });
+    tx.technologyAuditLog.createMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('updates the stage, snapshots the technology and audits the change', async () => {
+    const result = await transitionTechnology(
+      { techId: 'D25-0001', action: 'PROMOTE', reason: 'Strong triage', expectedRowVersion: 3 },
+      { userId: 'user-1', persona: 'tech_manager' }
+    );
+
+    expect(result).toEqual(expect.objectContaining({ historyId: 'history-1', rowVersion: 4 }));
+    expect(tx.technology.updateMany).toHaveBeenCalledWith({
+      where: { id: 'tech-1', rowVersion: 3 },
+      data: expect.objectContaining({
+        currentStage: TechStage.VIABILITY,
+        status: TechStatus.ACTIVE,
+        lastStageTouched: TechStage.TRIAGE,
+        lastModifiedBy: 'user-1',
+        rowVersion: { increment: 1 },
+      }),
+    });
+
+    const historyData = tx.stageHistory.create.mock.calls[0][0].data;
+    expect(historyData).toMatchObject({ stage: TechStage.VIABILITY, changeType: 'PROMOTE', changedBy: 'user-1' });
+    expect(historyData.snapshot.transition).toMatchObject({ reason: 'Strong triage', fromStage: 'TRIAGE' });
+    expect(historyData.snapshot.triageStage).toMatchObject({ recommendation: 'Proceed' });
+
+    expect(tx.technologyAuditLog.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          fieldPath: 'technology.currentStage',
+          oldValue: 'TRIAGE',
+          newValue: 'VIABILITY',
+          persona: 'tech_manager',
+          changedBy: 'user-1',
+        }),
+      ],
+    });
+  });
+
+  it('rejects gated transitions without writing anything', async () => {
+    tx.technology.findUnique.mockResolvedValue(
+      technology({ triageStage: { ...triageStage, recommendation: '' } })
+    );
+
+    await expect(
+      transitionTechnology({ techId: 'D25-0001', action: 'PROMOTE' }, { userId: 'user-1' })
+    ).rejects.toBeInstanceOf(StageTransitionError);
+    expect(tx.technology.updateMany).not.toHaveBeenCalled();
+    expect(tx.stageHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('gates promotion on the rule set pinned by the triage submission, not a later one', async () => {
+    // Triage ran under v1, where "Fast track" advanced; v2 has since dropped that band
+    const pinnedRules: RecommendationRules = {
+      ...DEFAULT_RECOMMENDATION_RULES,
+      bands: [
+        { key: 'fast_track', label: 'Fast track', color: 'blue', advances: true },
+        { key: 'hold', label: 'Hold', color: 'yellow', advances: false },
+      ],
+      rules: [],
+      defaultBand: 'hold',
+    };
+    tx.formSubmission.findFirst.mockResolvedValue({
+      recommendationRuleSet: { id: 'rules-v1', version: 1, rules: pinnedRules },
+    });
+    tx.technology.findUnique.mockResolvedValue(
+      technology({ triageStage: { ...triageStage, recommendation: 'Fast track' } })
+    );
+
+    const result = await transitionTechnology(
+      { techId: 'D25-0001', action: 'PROMOTE' },
+      { userId: 'user-1' }
+    );
+
+    expect(result).toEqual(expect.objectContaining({ historyId: 'history-1' }));
+    expect(tx.formSubmission.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          responses: { some: { questionCode: { in: ['F0.1'] }, value: { equals: 'D25-0001' } } },
+        }),
+        orderBy: { updatedAt: 'desc' },
+      })
+    );
+  });
+
+  it('falls back to the built-in rules when no triage submission pinned a rule set', async () => {
+    tx.formSubmission.findFirst.mockResolvedValue(null);
+    tx.technology.findUnique.mockResolvedValue(
+      technology({ triageStage: { ...triageStage, recommendation: 'Fast track' } })
+    );
+
+    await expect(
+      transitionTechnology({ techId: 'D25-0001', action: 'PROMOTE' }, { userId: 'user-1' })
+    ).rejects.toBeInstanceOf(StageTransitionError);
+    expect(tx.technology.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('throws OptimisticLockError when the row version has moved on', async () => {
+    tx.technology.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      transitionTechnology({ techId: 'D25-0001', action: 'HOLD', expectedRowVersion: 2 }, { userId: 'user-1' })
+    ).rejects.toBeInstanceOf(OptimisticLockError);
+    expect(tx.stageHistory.create).not.toHaveBeenCalled();
+  });
+});
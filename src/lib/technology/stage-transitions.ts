@@ -0,0 +1,344 @@
+import { FormPurpose, Prisma, TechStage, TechStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  RecommendationRules,
+  bandAdvances,
+  matchRecommendationBand,
+  resolveRecommendationRules,
+} from '@/lib/scoring/recommendations';
+import { getMissingRequiredTechnologyFields, TechnologyWithSupplements } from './service';
+import { OptimisticLockError } from './types';
+import { recordBindingAudit, BindingAuditChange } from './audit';
+import { STAGE_LABELS } from './constants';
+
+// Moves a technology through the pipeline. Promotion follows STAGE_ORDER and is
+// gated per stage (out of triage only on a recommendation band that advances);
+// hold/resume only change status; abandon archives the technology. Every
+// transition writes a full snapshot to StageHistory.
+
+export const STAGE_ORDER: TechStage[] = [
+  TechStage.TRIAGE,
+  TechStage.VIABILITY,
+  TechStage.COMMERCIAL,
+  TechStage.MARKET_READY,
+];
+
+export const TRANSITION_ACTIONS = ['PROMOTE', 'HOLD', 'RESUME', 'ABANDON'] as const;
+export type TransitionAction = (typeof TRANSITION_ACTIONS)[number];
+
+/** Stages reachable from each stage; ARCHIVED is terminal. */
+export const ALLOWED_STAGE_TRANSITIONS: Record<TechStage, TechStage[]> = {
+  TRIAGE: [TechStage.VIABILITY, TechStage.ARCHIVED],
+  VIABILITY: [TechStage.COMMERCIAL, TechStage.ARCHIVED],
+  COMMERCIAL: [TechStage.MARKET_READY, TechStage.ARCHIVED],
+  MARKET_READY: [TechStage.ARCHIVED],
+  ARCHIVED: [],
+};
+
+const REQUIRED_TRIAGE_FIELDS = [
+  ['technologyOverview', 'Technology overview'],
+  ['missionAlignmentText', 'Mission alignment'],
+  ['unmetNeedText', 'Unmet need'],
+  ['stateOfArtText', 'State of the art'],
+  ['marketOverview', 'Market overview'],
+] as const;
+
+const REQUIRED_VIABILITY_FIELDS = [
+  ['technicalFeasibility', 'Technical feasibility'],
+  ['regulatoryPathway', 'Regulatory pathway'],
+  ['costAnalysis', 'Cost analysis'],
+  ['resourceRequirements', 'Resource requirements'],
+  ['riskAssessment', 'Risk assessment'],
+] as const;
+
+export interface TransitionEvaluation {
+  action: TransitionAction;
+  allowed: boolean;
+  fromStage: TechStage;
+  toStage: TechStage;
+  fromStatus: TechStatus;
+  toStatus: TechStatus;
+  /** Reasons the transition cannot happen yet */
+  blockers: string[];
+}
+
+export class StageTransitionError extends Error {
+  constructor(public readonly blockers: string[]) {
+    super(blockers.join('; '));
+    this.name = 'StageTransitionError';
+  }
+}
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim().length === 0);
+}
+
+function missingLabels(
+  record: Record<string, unknown>,
+  fields: ReadonlyArray<readonly [string, string]>
+) {
+  return fields.filter(([field]) => isBlank(record[field])).map(([, label]) => label);
+}
+
+/**
+ * Rules behind a technology's triage recommendation: the rule set pinned on the
+ * triage submission that last wrote it (so later threshold edits do not change
+ * what an earlier recommendation means), else the built-in defaults.
+ */
+export async function loadTriageRecommendationRules(
+  techId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<RecommendationRules> {
+  const questions = await client.formQuestion.findMany({
+    where: { dictionary: { bindingPath: 'technology.techId' } },
+    select: { fieldCode: true },
+  });
+  const questionCodes = Array.from(new Set(questions.map((question) => question.fieldCode)));
+  if (questionCodes.length === 0) {
+    return DEFAULT_RECOMMENDATION_RULES;
+  }
+
+  const submission = await client.formSubmission.findFirst({
+    where: {
+      template: { purpose: FormPurpose.TRIAGE },
+      responses: { some: { questionCode: { in: questionCodes }, value: { equals: techId } } },
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: { recommendationRuleSet: true },
+  });
+  return resolveRecommendationRules(submission?.recommendationRuleSet);
+}
+
+/**
+ * Gate conditions for promoting a technology out of its current stage.
+ */
+export function getPromotionBlockers(
+  technology: TechnologyWithSupplements,
+  recommendationRules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+): string[] {
+  const blockers: string[] = [];
+  const missingTechnology = getMissingRequiredTechnologyFields(technology);
+  if (missingTechnology.length > 0) {
+    blockers.push(`Missing technology fields: ${missingTechnology.join(', ')}`);
+  }
+
+  switch (technology.currentStage) {
+    case TechStage.TRIAGE: {
+      const triage = technology.triageStage;
+      if (!triage) {
+        blockers.push('Triage has not been completed');
+        break;
+      }
+      const missing = missingLabels(triage as unknown as Record<string, unknown>, REQUIRED_TRIAGE_FIELDS);
+      if (missing.length > 0) {
+        blockers.push(`Missing triage fields: ${missing.join(', ')}`);
+      }
+      const band = matchRecommendationBand(recommendationRules, triage.recommendation);
+      if (!band || !bandAdvances(band)) {
+        const advancing = recommendationRules.bands.filter(bandAdvances).map((entry) => entry.label);
+        const current = triage.recommendation.trim() || 'not set';
+        blockers.push(
+          advancing.length > 0
+            ? `Triage recommendation must be ${advancing.join(' or ')} (currently ${current})`
+            : 'No recommendation band in the triage rule set allows promotion'
+        );
+      }
+      break;
+    }
+    case TechStage.VIABILITY: {
+      const viability = technology.viabilityStage;
+      if (!viability) {
+        blockers.push('Viability assessment has not been completed');
+        break;
+      }
+      const missing = missingLabels(viability as unknown as Record<string, unknown>, REQUIRED_VIABILITY_FIELDS);
+      if (missing.length > 0) {
+        blockers.push(`Missing viability fields: ${missing.join(', ')}`);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  return blockers;
+}
+
+/**
+ * Decide whether `action` is allowed for the technology and what it would change. Pure.
+ */
+export function evaluateTransition(
+  technology: TechnologyWithSupplements,
+  action: TransitionAction,
+  recommendationRules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+): TransitionEvaluation {
+  const fromStage = technology.currentStage;
+  const fromStatus = technology.status;
+  const blockers: string[] = [];
+  let toStage = fromStage;
+  let toStatus = fromStatus;
+
+  const closed = fromStage === TechStage.ARCHIVED || fromStatus === TechStatus.ABANDONED;
+
+  switch (action) {
+    case 'PROMOTE': {
+      const next = STAGE_ORDER[STAGE_ORDER.indexOf(fromStage) + 1];
+      if (closed || !next || !ALLOWED_STAGE_TRANSITIONS[fromStage].includes(next)) {
+        blockers.push(`${STAGE_LABELS[fromStage]} is the last stage`);
+        break;
+      }
+      if (fromStatus !== TechStatus.ACTIVE) {
+        blockers.push('Only active technologies can be promoted');
+      }
+      blockers.push(...getPromotionBlockers(technology, recommendationRules));
+      toStage = next;
+      toStatus = next === TechStage.MARKET_READY ? TechStatus.COMPLETED : TechStatus.ACTIVE;
+      break;
+    }
+    case 'HOLD':
+      if (fromStatus !== TechStatus.ACTIVE || closed) {
+        blockers.push('Only active technologies can be put on hold');
+      }
+      toStatus = TechStatus.ON_HOLD;
+      break;
+    case 'RESUME':
+      if (fromStatus !== TechStatus.ON_HOLD || closed) {
+        blockers.push('Only technologies on hold can be resumed');
+      }
+      toStatus = TechStatus.ACTIVE;
+      break;
+    case 'ABANDON':
+      if (closed) {
+        blockers.push('Technology is already archived');
+      }
+      toStage = TechStage.ARCHIVED;
+      toStatus = TechStatus.ABANDONED;
+      break;
+  }
+
+  return { action, allowed: blockers.length === 0, fromStage, toStage, fromStatus, toStatus, blockers };
+}
+
+export function evaluateAllTransitions(
+  technology: TechnologyWithSupplements,
+  recommendationRules: RecommendationRules = DEFAULT_RECOMMENDATION_RULES
+) {
+  return TRANSITION_ACTIONS.map((action) => evaluateTransition(technology, action, recommendationRules));
+}
+
+/**
+ * JSON snapshot of the whole technology aggregate at the moment of a transition.
+ */
+export function buildStageSnapshot(
+  technology: TechnologyWithSupplements,
+  evaluation: TransitionEvaluation,
+  reason?: string | null
+): Prisma.InputJsonValue {
+  return JSON.parse(
+    JSON.stringify({
+      transition: {
+        action: evaluation.action,
+        fromStage: evaluation.fromStage,
+        toStage: evaluation.toStage,
+        fromStatus: evaluation.fromStatus,
+        toStatus: evaluation.toStatus,
+        reason: reason ?? null,
+      },
+      technology: { ...technology, triageStage: undefined, viabilityStage: undefined },
+      triageStage: technology.triageStage,
+      viabilityStage: technology.viabilityStage,
+    })
+  ) as Prisma.InputJsonValue;
+}
+
+export interface TransitionRequest {
+  techId: string;
+  action: TransitionAction;
+  reason?: string | null;
+  /** Technology.rowVersion the user was looking at */
+  expectedRowVersion?: number;
+}
+
+export interface TransitionActor {
+  userId: string;
+  persona?: string | null;
+}
+
+/**
+ * Apply a transition: gate it, update the technology, snapshot to StageHistory
+ * and audit the stage/status change, all in one transaction.
+ */
+export async function transitionTechnology(request: TransitionRequest, actor: TransitionActor) {
+  return prisma.$transaction(async (tx) => {
+    const technology = await tx.technology.findUnique({
+      where: { techId: request.techId },
+      include: { triageStage: true, viabilityStage: true },
+    });
+
+    if (!technology) {
+      throw new StageTransitionError(['Technology not found']);
+    }
+
+    const recommendationRules = await loadTriageRecommendationRules(technology.techId, tx);
+    const evaluation = evaluateTransition(technology, request.action, recommendationRules);
+    if (!evaluation.allowed) {
+      throw new StageTransitionError(evaluation.blockers);
+    }
+
+    const changedAt = new Date();
+    const result = await tx.technology.updateMany({
+      where: {
+        id: technology.id,
+        rowVersion: request.expectedRowVersion ?? technology.rowVersion,
+      },
+      data: {
+        currentStage: evaluation.toStage,
+        status: evaluation.toStatus,
+        lastStageTouched: evaluation.fromStage,
+        lastModifiedBy: actor.userId,
+        lastModifiedAt: changedAt,
+        rowVersion: { increment: 1 },
+      },
+    });
+
+    if (result.count === 0) {
+      throw new OptimisticLockError('Technology record was modified by another user.');
+    }
+
+    const history = await tx.stageHistory.create({
+      data: {
+        technologyId: technology.id,
+        stage: evaluation.toStage,
+        changeType: evaluation.action,
+        snapshot: buildStageSnapshot(technology, evaluation, request.reason),
+        changedBy: actor.userId,
+        changedAt,
+      },
+    });
+
+    const changes: BindingAuditChange[] = [];
+    if (evaluation.fromStage !== evaluation.toStage) {
+      changes.push({
+        fieldPath: 'technology.currentStage',
+        oldValue: evaluation.fromStage,
+        newValue: evaluation.toStage,
+        stage: evaluation.toStage,
+      });
+    }
+    if (evaluation.fromStatus !== evaluation.toStatus) {
+      changes.push({
+        fieldPath: 'technology.status',
+        oldValue: evaluation.fromStatus,
+        newValue: evaluation.toStatus,
+        stage: evaluation.toStage,
+      });
+    }
+    await recordBindingAudit(tx, technology.id, changes, {
+      changedBy: actor.userId,
+      persona: actor.persona,
+    });
+
+    return { evaluation, historyId: history.id, rowVersion: technology.rowVersion + 1 };
+  });
+}
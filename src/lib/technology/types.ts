@@ -14,6 +14,19 @@ export interface TechnologyContext {
   viabilityStageRowVersion?: number;
 }
 
+/**
+ * Bound answers behind a rejected optimistic-lock write, by field code. The
+ * client supplies the base (what it last loaded or saved) for a three-way merge.
+ */
+export interface BindingConflict {
+  /** Values stored by whoever changed the record first */
+  theirs: Record<string, unknown>;
+  /** Values the rejected write tried to store */
+  mine: Record<string, unknown>;
+  /** Current versions to retry the write against */
+  rowVersions: RowVersionSnapshot;
+}
+
 export class OptimisticLockError extends Error {
   constructor(message = 'Row version mismatch') {
     super(message);
@@ -16,11 +16,6 @@ export const feedbackRequestSchema = z.object({
     .trim()
     .max(200, 'Contact details cannot exceed 200 characters.')
     .optional(),
-  userId: z
-    .string()
-    .trim()
-    .max(120, 'User identifier is too long.')
-    .optional(),
 });
 
 export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>;
@@ -1,12 +1,30 @@
 import { z } from 'zod';
 import { FieldType } from '@prisma/client';
 import { ValidationConfig } from '../form-engine/types';
+import { PHONE_PATTERN } from '../form-engine/number-format';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isWebAddress(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 // Base validation schemas for different field types
 export const fieldValidationSchemas = {
   [FieldType.SHORT_TEXT]: z.string().min(1, 'This field is required').max(255, 'Text must be less than 255 characters'),
   [FieldType.LONG_TEXT]: z.string().min(1, 'This field is required'),
   [FieldType.INTEGER]: z.number().int('Must be a whole number').min(0, 'Must be non-negative'),
+  [FieldType.DECIMAL]: z.number({ message: 'Must be a number' }),
+  [FieldType.CURRENCY]: z.number({ message: 'Must be an amount' }),
+  [FieldType.PERCENTAGE]: z.number({ message: 'Must be a percentage' }),
+  [FieldType.EMAIL]: z.string().regex(EMAIL_PATTERN, 'Please enter a valid email address'),
+  [FieldType.URL]: z.string().refine(isWebAddress, 'Please enter a full web address, e.g. https://example.com'),
+  [FieldType.PHONE]: z.string().regex(new RegExp(PHONE_PATTERN), 'Please enter a valid phone number'),
   [FieldType.SINGLE_SELECT]: z.string().min(1, 'Please select an option'),
   [FieldType.MULTI_SELECT]: z.array(z.string()).min(1, 'Please select at least one option'),
   [FieldType.CHECKBOX_GROUP]: z.array(z.string()).min(1, 'Please select at least one option'),
@@ -22,6 +40,12 @@ export const optionalFieldValidationSchemas = {
   [FieldType.SHORT_TEXT]: z.string().max(255, 'Text must be less than 255 characters').optional(),
   [FieldType.LONG_TEXT]: z.string().optional(),
   [FieldType.INTEGER]: z.number().int('Must be a whole number').min(0, 'Must be non-negative').optional(),
+  [FieldType.DECIMAL]: z.number({ message: 'Must be a number' }).optional(),
+  [FieldType.CURRENCY]: z.number({ message: 'Must be an amount' }).optional(),
+  [FieldType.PERCENTAGE]: z.number({ message: 'Must be a percentage' }).optional(),
+  [FieldType.EMAIL]: z.string().regex(EMAIL_PATTERN, 'Please enter a valid email address').or(z.literal('')).optional(),
+  [FieldType.URL]: z.string().refine((value) => value === '' || isWebAddress(value), 'Please enter a full web address, e.g. https://example.com').optional(),
+  [FieldType.PHONE]: z.string().regex(new RegExp(PHONE_PATTERN), 'Please enter a valid phone number').or(z.literal('')).optional(),
   [FieldType.SINGLE_SELECT]: z.string().optional(),
   [FieldType.MULTI_SELECT]: z.array(z.string()).optional(),
   [FieldType.CHECKBOX_GROUP]: z.array(z.string()).optional(),
@@ -327,7 +351,13 @@ function applyValidationRule(schema: z.ZodTypeAny, fieldType: FieldType, rule: V
 }
 
 function isNumericFieldType(fieldType: FieldType): boolean {
-  return fieldType === FieldType.INTEGER || fieldType === FieldType.SCORING_0_3;
+  return (
+    fieldType === FieldType.INTEGER ||
+    fieldType === FieldType.DECIMAL ||
+    fieldType === FieldType.CURRENCY ||
+    fieldType === FieldType.PERCENTAGE ||
+    fieldType === FieldType.SCORING_0_3
+  );
 }
 
 function isEmptyValue(value: unknown): boolean {
@@ -1,5 +1,9 @@
-import { SubmissionStatus, Prisma } from '@prisma/client';
+import { FieldType, SubmissionStatus, Prisma } from '@prisma/client';
 import { z } from 'zod';
+import type { FormResponse, FormTemplateWithSections } from '@/lib/form-engine/types';
+import { parseConditionalConfig, shouldRequireField, shouldShowField } from '@/lib/form-engine/conditional-logic';
+import { validateCrossFieldRules, validateQuestion } from '@/lib/form-engine/validation';
+import { calculateTemplateScores, toCalculatedScores } from '@/lib/scoring/model';
 
 const jsonValueSchema: z.ZodType<Prisma.JsonValue> = z.lazy(() =>
   z.union([
@@ -23,6 +27,8 @@ const rowVersionSchema = z
 
 export const formSubmissionPayloadSchema = z.object({
   templateId: z.string().min(1, 'templateId is required'),
+  // Published version the form was rendered from; omitted = latest
+  templateVersionId: z.string().min(1).nullish(),
   responses: z.record(z.string(), jsonValueSchema).default({}),
   repeatGroups: z
     .record(z.string(), z.array(z.record(z.string(), jsonValueSchema)))
@@ -34,16 +40,64 @@ export const formSubmissionPayloadSchema = z.object({
   rowVersions: rowVersionSchema,
 });
 
+// Authors only save or submit; REVIEWED and ARCHIVED are reached through the
+// review actions, which check the assigned reviewer and log the decision
+const authorStatusSchema = z.enum([SubmissionStatus.DRAFT, SubmissionStatus.SUBMITTED], {
+  error: 'Status must be DRAFT or SUBMITTED; reviews go through the review workflow',
+});
+
 export const formSubmissionRequestSchema = formSubmissionPayloadSchema.extend({
-  submittedBy: z.string().min(1).optional(),
-  status: z.nativeEnum(SubmissionStatus).optional(),
+  status: authorStatusSchema.optional(),
 });
 
 export const formSubmissionUpdateSchema = formSubmissionPayloadSchema.extend({
   submissionId: z.string().min(1, 'submissionId is required'),
-  status: z.nativeEnum(SubmissionStatus).optional(),
+  status: authorStatusSchema.optional(),
 });
 
+// Answered through repeatGroups rather than responses
+const repeatGroupTypes = new Set<FieldType>([FieldType.REPEATABLE_GROUP, FieldType.DATA_TABLE_SELECTOR]);
+
 export type FormSubmissionPayload = z.infer<typeof formSubmissionPayloadSchema>;
 export type FormSubmissionRequest = z.infer<typeof formSubmissionRequestSchema>;
 export type FormSubmissionUpdate = z.infer<typeof formSubmissionUpdateSchema>;
+
+/**
+ * Re-runs the template's rules against a parsed payload: required fields
+ * (including conditional requirements), per-field validation and cross-field
+ * rules, for visible questions only. Errors are keyed by field code so the
+ * client can map them back onto the form. Scores are recomputed, not trusted.
+ */
+export function findSubmissionErrors(
+  template: FormTemplateWithSections,
+  payload: Pick<FormSubmissionPayload, 'responses' | 'repeatGroups'>
+): Record<string, string> {
+  const responses = payload.responses as FormResponse;
+  const context = {
+    repeatGroups: payload.repeatGroups,
+    calculatedScores: toCalculatedScores(calculateTemplateScores(template, responses)),
+  };
+  const errors: Record<string, string> = {};
+
+  for (const section of template.sections) {
+    for (const question of section.questions) {
+      const config = parseConditionalConfig(question.conditional);
+      if (!shouldShowField(config, responses, context)) {
+        continue;
+      }
+
+      const isRequired = shouldRequireField(config, question.isRequired, responses, context);
+      const value = repeatGroupTypes.has(question.type)
+        ? payload.repeatGroups[question.fieldCode]
+        : responses[question.fieldCode];
+      const error =
+        validateQuestion(question, value as Parameters<typeof validateQuestion>[1], isRequired) ??
+        validateCrossFieldRules(question, responses, context);
+      if (error) {
+        errors[question.fieldCode] = error;
+      }
+    }
+  }
+
+  return errors;
+}
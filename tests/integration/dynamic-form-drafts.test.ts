@@ -162,10 +162,11 @@ describeIntegration('dynamic form draft integration', () => {
     });
 
     expect(stored?.status).toBe('SUBMITTED');
+    // Client-supplied scores are ignored; the template scoring model derives them from responses
     expect(stored?.scores).toEqual(
       expect.arrayContaining([
-        expect.objectContaining({ scoreType: 'impactScore', value: 4 }),
-        expect.objectContaining({ scoreType: 'valueScore', value: 3 }),
+        expect.objectContaining({ scoreType: 'impactScore', value: 1.5 }),
+        expect.objectContaining({ scoreType: 'valueScore', value: 0 }),
       ])
     );
   });
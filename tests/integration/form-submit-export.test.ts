@@ -101,16 +101,17 @@ describeIntegration('form submission + export integration', () => {
     });
 
     expect(stored?.status).toBe('SUBMITTED');
+    // Client-supplied scores are ignored; the template scoring model derives them from responses
     expect(stored?.scores).toEqual(
       expect.arrayContaining([
-        expect.objectContaining({ scoreType: 'impactScore', value: 4 }),
-        expect.objectContaining({ scoreType: 'valueScore', value: 3 }),
+        expect.objectContaining({ scoreType: 'impactScore', value: 1.5 }),
+        expect.objectContaining({ scoreType: 'valueScore', value: 0 }),
       ])
     );
 
     const pdfElement = mockRenderToBuffer.mock.calls[0]?.[0] as { props?: { data?: Record<string, unknown> } };
     expect(pdfElement?.props?.data?.calculatedScores).toEqual(
-      expect.objectContaining({ impactScore: 4, valueScore: 3 })
+      expect.objectContaining({ impactScore: 1.5, valueScore: 0 })
     );
     expect(pdfElement?.props?.data?.metadata).toMatchObject({
       statusLabel: 'Submitted',